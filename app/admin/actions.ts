@@ -1,19 +1,34 @@
 "use server";
 
+import { cookies } from "next/headers";
 import { redirect } from "next/navigation";
 import { isRedirectError } from "next/dist/client/components/redirect-error";
 import { assertAdminAuth } from "@/lib/admin-auth";
-import { ingestClinicalTrialsCatalog } from "@/lib/clinicaltrials-catalog-ingest";
+import { createApiKey, NEW_API_KEY_COOKIE, revokeApiKey } from "@/lib/api-keys";
+import { deleteCitationIfUnused, findOrCreateCitation, mergeDuplicateCitations, normalizeCitationUrl } from "@/lib/citations";
+import {
+  diffContentFields,
+  formatRatingChange,
+  PEPTIDE_CHANGE_FIELDS,
+  PROFILE_CHANGE_FIELDS,
+  recordContentChanges,
+  safetyChangeFields,
+  type ContentChangeInput
+} from "@/lib/content-changes";
 import { ingestExpandedPeptideDataset } from "@/lib/expanded-dataset-ingest";
-import { refreshLiveEvidenceClaims } from "@/lib/live-evidence-refresh";
-import { enrichPeptideContent } from "@/lib/peptide-content-enrichment";
+import { enqueueIngestJob, ingestJobLabel, type IngestJobKind } from "@/lib/ingest-jobs";
+import { finishJobRun } from "@/lib/ingest-runs";
+import { getJobQueue } from "@/lib/job-queue";
+import { applyPeptideImportBatch, createPeptideImportBatch } from "@/lib/peptide-import";
+import { DOSE_UNITS, DOSING_ROUTES, EVIDENCE_GRADES, INTERACTION_SEVERITIES, labelFromSnake } from "@/lib/constants";
 import { toHumanReadableSourceUrl } from "@/lib/reference-sources";
-import { ingestSocialUgcSignals } from "@/lib/social-ugc-ingest";
+import { parseDosingInterval, parseDosingText, parseStoredDosingEntries, parseTitrationSteps, toDosingColumns } from "@/lib/structured-dosing";
 import { getSupabaseAdminClient } from "@/lib/supabase-admin";
-import { ingestVendorWebsiteCatalog } from "@/lib/vendor-website-ingest";
+import { promoteVendorRescoreBatch, rescoreVendors } from "@/lib/vendor-rescoring";
 
 const BLOCKED_VENDOR_SLUGS = new Set(["unknown-source-vendor"]);
 const BLOCKED_VENDOR_NAMES = new Set(["unknown source vendor"]);
+const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
 
 function clean(value: FormDataEntryValue | null): string {
   return String(value ?? "").trim();
@@ -40,6 +55,15 @@ function redirectNotice(message: string, kind: "success" | "error" = "success")
   redirect(`/admin?kind=${kind}&notice=${encodeURIComponent(message)}`);
 }
 
+// First few per-vendor errors for a notice; the rest are only counted.
+function describeFailures(errors: string[]): string {
+  if (errors.length === 0) {
+    return "";
+  }
+  const shown = errors.slice(0, 3).join("; ");
+  return errors.length > 3 ? ` Failed: ${shown}; and ${errors.length - 3} more.` : ` Failed: ${shown}.`;
+}
+
 function requireSupabaseAdmin() {
   const supabase = getSupabaseAdminClient();
   if (!supabase) {
@@ -48,12 +72,37 @@ function requireSupabaseAdmin() {
   return supabase;
 }
 
+// PostgREST returns one-to-one embeds as an object or a single-element array depending on the key.
+function firstRow(value: unknown): Record<string, unknown> | null {
+  const row = Array.isArray(value) ? value[0] : value;
+  return row !== null && typeof row === "object" ? (row as Record<string, unknown>) : null;
+}
+
 function rethrowIfRedirectError(error: unknown) {
   if (isRedirectError(error)) {
     throw error;
   }
 }
 
+// Long ingests run as background jobs: the action only snapshots the work list, and the admin
+// page (or scripts/run-ingest-jobs.ts) works through it in chunks.
+async function queueIngestJob(kind: IngestJobKind, fallbackMessage: string) {
+  await assertAdminAuth();
+  try {
+    const supabase = requireSupabaseAdmin();
+    const job = await enqueueIngestJob(supabase, getJobQueue(supabase), kind);
+    if (!job) {
+      throw new Error(`Nothing to process for ${ingestJobLabel(kind).toLowerCase()}.`);
+    }
+    const message = `${ingestJobLabel(kind)} queued as job ${job.id} (${job.totalItems} items).`;
+    redirect(`/admin?kind=success&notice=${encodeURIComponent(message)}&ingestJob=${job.id}#ingest-jobs`);
+  } catch (error) {
+    rethrowIfRedirectError(error);
+    const message = error instanceof Error ? error.message : fallbackMessage;
+    redirectNotice(message, "error");
+  }
+}
+
 async function getJurisdictionId(code: string): Promise<number> {
   const supabase = requireSupabaseAdmin();
   const { data, error } = await supabase.from("jurisdictions").select("id").eq("code", code).maybeSingle();
@@ -83,6 +132,16 @@ async function getUseCaseId(name: string, slugInput: string): Promise<number> {
   return Number(data.id);
 }
 
+async function getInteractionTargetName(kind: "peptide" | "drug_class", id: number): Promise<string> {
+  const supabase = requireSupabaseAdmin();
+  if (kind === "peptide") {
+    const { data } = await supabase.from("peptides").select("canonical_name").eq("id", id).maybeSingle();
+    return String(data?.canonical_name ?? `peptide ${id}`);
+  }
+  const { data } = await supabase.from("drug_classes").select("name").eq("id", id).maybeSingle();
+  return String(data?.name ?? `drug class ${id}`);
+}
+
 export async function upsertPeptideAction(formData: FormData) {
   await assertAdminAuth();
   try {
@@ -104,6 +163,14 @@ export async function upsertPeptideAction(formData: FormData) {
       redirectNotice("Slug and canonical name are required.", "error");
     }
 
+    const { data: previous } = await supabase
+      .from("peptides")
+      .select(
+        "id,canonical_name,sequence,peptide_class,is_published,peptide_profiles(intro,mechanism,effectiveness_summary,long_description)"
+      )
+      .eq("slug", slug)
+      .maybeSingle();
+
     const { data: peptide, error: peptideError } = await supabase
       .from("peptides")
       .upsert(
@@ -123,21 +190,35 @@ export async function upsertPeptideAction(formData: FormData) {
       throw new Error(peptideError?.message ?? "Failed to save peptide.");
     }
 
-    const { error: profileError } = await supabase.from("peptide_profiles").upsert(
-      {
-        peptide_id: peptide.id,
-        intro: intro || null,
-        mechanism: mechanism || null,
-        effectiveness_summary: effectivenessSummary || null,
-        long_description: longDescription || null
-      },
-      { onConflict: "peptide_id" }
-    );
+    const profile = {
+      peptide_id: peptide.id,
+      intro: intro || null,
+      mechanism: mechanism || null,
+      effectiveness_summary: effectivenessSummary || null,
+      long_description: longDescription || null
+    };
+    const { error: profileError } = await supabase.from("peptide_profiles").upsert(profile, { onConflict: "peptide_id" });
 
     if (profileError) {
       throw new Error(profileError.message);
     }
 
+    const peptideId = Number(peptide.id);
+    await recordContentChanges(
+      supabase,
+      "ADMIN",
+      previous
+        ? [
+            ...diffContentFields(
+              previous,
+              { canonical_name: canonicalName, sequence: sequence || null, peptide_class: peptideClass || null, is_published: isPublished },
+              PEPTIDE_CHANGE_FIELDS
+            ),
+            ...diffContentFields(firstRow(previous.peptide_profiles), profile, PROFILE_CHANGE_FIELDS)
+          ].map((change) => ({ entityType: "PEPTIDE", entityId: peptideId, peptideId, ...change }))
+        : [{ entityType: "PEPTIDE", entityId: peptideId, peptideId, field: "Profile added", next: canonicalName }]
+    );
+
     redirect(`/admin?kind=success&notice=${encodeURIComponent("Peptide saved.")}&editPeptide=${encodeURIComponent(slug)}`);
   } catch (error) {
     rethrowIfRedirectError(error);
@@ -167,21 +248,19 @@ export async function addUseCaseAction(formData: FormData) {
 
     const { data: existing } = await supabase
       .from("peptide_use_cases")
-      .select("id")
+      .select("id,evidence_grade,consumer_summary,clinical_summary")
       .eq("peptide_id", peptideId)
       .eq("use_case_id", useCaseId)
       .eq("jurisdiction_id", jurisdictionId)
       .maybeSingle();
 
+    const payload = {
+      evidence_grade: evidenceGrade,
+      consumer_summary: consumerSummary || null,
+      clinical_summary: clinicalSummary || null
+    };
     if (existing?.id) {
-      const { error } = await supabase
-        .from("peptide_use_cases")
-        .update({
-          evidence_grade: evidenceGrade,
-          consumer_summary: consumerSummary || null,
-          clinical_summary: clinicalSummary || null
-        })
-        .eq("id", existing.id);
+      const { error } = await supabase.from("peptide_use_cases").update(payload).eq("id", existing.id);
       if (error) {
         throw new Error(error.message);
       }
@@ -190,15 +269,23 @@ export async function addUseCaseAction(formData: FormData) {
         peptide_id: peptideId,
         use_case_id: useCaseId,
         jurisdiction_id: jurisdictionId,
-        evidence_grade: evidenceGrade,
-        consumer_summary: consumerSummary || null,
-        clinical_summary: clinicalSummary || null
+        ...payload
       });
       if (error) {
         throw new Error(error.message);
       }
     }
 
+    await recordContentChanges(
+      supabase,
+      "ADMIN",
+      diffContentFields(existing ?? null, payload, {
+        evidence_grade: `${useCaseName} evidence grade (${jurisdictionCode})`,
+        consumer_summary: `${useCaseName} summary (${jurisdictionCode})`,
+        clinical_summary: `${useCaseName} clinical summary (${jurisdictionCode})`
+      }).map((change) => ({ entityType: "USE_CASE", entityId: existing?.id ?? null, peptideId, ...change }))
+    );
+
     redirectNotice("Use case entry saved.");
   } catch (error) {
     rethrowIfRedirectError(error);
@@ -232,13 +319,38 @@ export async function addDosingAction(formData: FormData) {
       frequency: clean(formData.get("frequency")) || null,
       notes: clean(formData.get("notes")) || null
     };
+    const structured = parseDosingText({
+      route: payload.route ?? "",
+      startingDose: payload.starting_dose ?? "",
+      maintenanceDose: payload.maintenance_dose ?? "",
+      frequency: payload.frequency ?? "",
+      notes: payload.notes ?? ""
+    });
 
-    const { error } = await supabase.from("peptide_dosing_entries").insert(payload);
+    const { data: inserted, error } = await supabase
+      .from("peptide_dosing_entries")
+      .insert({ ...payload, ...toDosingColumns(structured) })
+      .select("id")
+      .single();
     if (error) {
       throw new Error(error.message);
     }
 
-    redirectNotice("Dosing entry added.");
+    await recordContentChanges(supabase, "ADMIN", [
+      {
+        entityType: "DOSING",
+        entityId: Number(inserted?.id ?? 0) || null,
+        peptideId,
+        field: `Dosing added (${jurisdictionCode}, ${labelFromSnake(context)})`,
+        next: [payload.starting_dose, payload.maintenance_dose, payload.frequency].filter(Boolean).join(" · ") || payload.population
+      }
+    ]);
+
+    redirectNotice(
+      structured.confidence === "low"
+        ? "Dosing entry added. The dose text could not be parsed reliably and was queued for review."
+        : "Dosing entry added."
+    );
   } catch (error) {
     rethrowIfRedirectError(error);
     const message = error instanceof Error ? error.message : "Failed to add dosing entry.";
@@ -246,6 +358,106 @@ export async function addDosingAction(formData: FormData) {
   }
 }
 
+export async function parseDosingEntriesAction() {
+  await assertAdminAuth();
+  try {
+    const supabase = requireSupabaseAdmin();
+    const result = await parseStoredDosingEntries(supabase);
+    redirect(
+      `/admin?kind=success&notice=${encodeURIComponent(
+        `Parsed ${result.parsed} dosing entries; ${result.lowConfidence} need review.`
+      )}#dosing-review`
+    );
+  } catch (error) {
+    rethrowIfRedirectError(error);
+    const message = error instanceof Error ? error.message : "Failed to parse dosing entries.";
+    redirectNotice(message, "error");
+  }
+}
+
+function parseOptionalAmount(value: string): number | null {
+  if (!value) {
+    return null;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Invalid dose amount: ${value}`);
+  }
+  return parsed;
+}
+
+export async function reviewDosingParseAction(formData: FormData) {
+  await assertAdminAuth();
+  try {
+    const supabase = requireSupabaseAdmin();
+    const entryId = Number(clean(formData.get("entryId")));
+    const unit = clean(formData.get("doseUnit"));
+    const route = clean(formData.get("routeCode"));
+    const intervalText = clean(formData.get("interval"));
+    if (!entryId) {
+      redirectNotice("Dosing entry is required.", "error");
+    }
+    if (unit && !(DOSE_UNITS as string[]).includes(unit)) {
+      redirectNotice(`Unknown dose unit: ${unit}`, "error");
+    }
+    if (route && !(DOSING_ROUTES as string[]).includes(route)) {
+      redirectNotice(`Unknown route: ${route}`, "error");
+    }
+
+    const intervalDays = intervalText ? Number(intervalText) || parseDosingInterval(intervalText) : null;
+    if (intervalText && !intervalDays) {
+      redirectNotice(`Could not read dosing interval: ${intervalText}`, "error");
+    }
+    const titration = unit ? parseTitrationSteps(clean(formData.get("titration")), unit as (typeof DOSE_UNITS)[number]) : [];
+
+    const startingAmount = parseOptionalAmount(clean(formData.get("startingAmount")));
+    const maintenanceAmount = parseOptionalAmount(clean(formData.get("maintenanceAmount")));
+    const { data: reviewed, error } = await supabase
+      .from("peptide_dosing_entries")
+      .update({
+        dose_unit: unit || null,
+        starting_dose_amount: startingAmount,
+        maintenance_dose_amount: maintenanceAmount,
+        max_dose_amount: parseOptionalAmount(clean(formData.get("maxAmount"))),
+        route_code: route || null,
+        interval_days: intervalDays,
+        titration_steps: titration.map((step) => ({ amount: step.amount, duration_weeks: step.durationWeeks })),
+        parse_confidence: "high",
+        parse_issues: [],
+        reviewed_at: new Date().toISOString()
+      })
+      .eq("id", entryId)
+      .select("peptide_id")
+      .maybeSingle();
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const amounts = [startingAmount, maintenanceAmount].filter((amount): amount is number => amount !== null);
+    await recordContentChanges(supabase, "ADMIN", [
+      {
+        entityType: "DOSING",
+        entityId: entryId,
+        peptideId: Number(reviewed?.peptide_id ?? 0),
+        field: "Structured dose reviewed",
+        next: [
+          amounts.length > 0 ? `${amounts.join(" → ")} ${unit}`.trim() : null,
+          route ? labelFromSnake(route) : null,
+          intervalDays ? `every ${intervalDays} days` : null
+        ]
+          .filter(Boolean)
+          .join(", ") || "Reviewed"
+      }
+    ]);
+
+    redirect(`/admin?kind=success&notice=${encodeURIComponent("Dosing parse reviewed.")}#dosing-review`);
+  } catch (error) {
+    rethrowIfRedirectError(error);
+    const message = error instanceof Error ? error.message : "Failed to save dosing review.";
+    redirectNotice(message, "error");
+  }
+}
+
 export async function upsertSafetyAction(formData: FormData) {
   await assertAdminAuth();
   try {
@@ -268,7 +480,7 @@ export async function upsertSafetyAction(formData: FormData) {
 
     const { data: existing } = await supabase
       .from("peptide_safety_entries")
-      .select("id")
+      .select("id,adverse_effects,contraindications,interactions,monitoring")
       .eq("peptide_id", peptideId)
       .eq("jurisdiction_id", jurisdictionId)
       .maybeSingle();
@@ -285,6 +497,12 @@ export async function upsertSafetyAction(formData: FormData) {
       }
     }
 
+    await recordContentChanges(
+      supabase,
+      "ADMIN",
+      diffContentFields(existing ?? null, payload, safetyChangeFields(jurisdictionCode)).map((change) => ({ entityType: "SAFETY", entityId: existing?.id ?? null, peptideId, ...change }))
+    );
+
     redirectNotice("Safety entry saved.");
   } catch (error) {
     rethrowIfRedirectError(error);
@@ -293,6 +511,207 @@ export async function upsertSafetyAction(formData: FormData) {
   }
 }
 
+function splitList(value: string, separator: RegExp): string[] {
+  return Array.from(new Set(value.split(separator).map((entry) => entry.trim()).filter(Boolean)));
+}
+
+export async function upsertRegulatoryStatusAction(formData: FormData) {
+  await assertAdminAuth();
+  try {
+    const supabase = requireSupabaseAdmin();
+    const peptideId = Number(clean(formData.get("peptideId")));
+    const jurisdictionCode = clean(formData.get("jurisdiction"));
+    const status = clean(formData.get("status"));
+    const approvalDate = clean(formData.get("approvalDate"));
+    const sourceUrlInput = clean(formData.get("sourceUrl"));
+
+    if (!peptideId || !jurisdictionCode || !status) {
+      redirectNotice("Peptide, jurisdiction, and status are required.", "error");
+    }
+    if (approvalDate && Number.isNaN(new Date(approvalDate).getTime())) {
+      redirectNotice("Approval date must be a valid date.", "error");
+    }
+    const sourceUrl = sourceUrlInput ? toHumanReadableSourceUrl(sourceUrlInput) : null;
+    if (sourceUrlInput && !sourceUrl) {
+      redirectNotice("Source URL must be a valid http(s) URL.", "error");
+    }
+
+    const jurisdictionId = await getJurisdictionId(jurisdictionCode);
+    // One status per jurisdiction, replaced in a single transaction; the history trigger records the change.
+    const { data: previousStatus, error } = await supabase.rpc("set_regulatory_status", {
+      target_peptide_id: peptideId,
+      target_jurisdiction_id: jurisdictionId,
+      next_status: status,
+      next_approval_date: approvalDate || null,
+      next_approved_indications: splitList(clean(formData.get("approvedIndications")), /\r?\n/),
+      next_brand_names: splitList(clean(formData.get("brandNames")), /,/),
+      next_regulator_reference: clean(formData.get("regulatorReference")) || null,
+      next_source_url: sourceUrl,
+      next_notes: clean(formData.get("notes")) || null
+    });
+    if (error) {
+      if (error.message.includes("set_regulatory_status")) {
+        throw new Error("Missing set_regulatory_status function. Re-run db/bootstrap.sql and try again.");
+      }
+      throw new Error(error.message);
+    }
+
+    await recordContentChanges(supabase, "ADMIN", [
+      {
+        entityType: "REGULATORY_STATUS",
+        peptideId,
+        field: `${jurisdictionCode} regulatory status`,
+        previous: previousStatus ? labelFromSnake(String(previousStatus)) : null,
+        next: labelFromSnake(status)
+      }
+    ]);
+
+    redirectNotice("Regulatory status saved.");
+  } catch (error) {
+    rethrowIfRedirectError(error);
+    const message = error instanceof Error ? error.message : "Failed to save regulatory status.";
+    redirectNotice(message, "error");
+  }
+}
+
+export async function saveInteractionAction(formData: FormData) {
+  await assertAdminAuth();
+  try {
+    const supabase = requireSupabaseAdmin();
+    const peptideId = Number(clean(formData.get("peptideId")));
+    // "peptide:<id>" or "drug_class:<id>", so one select covers both target kinds.
+    const [targetKind, targetIdText] = clean(formData.get("target")).split(":");
+    const targetId = Number(targetIdText);
+    const severity = clean(formData.get("severity"));
+    const mechanism = clean(formData.get("mechanism"));
+    const evidenceGrade = clean(formData.get("evidenceGrade"));
+    const sourceUrlInput = clean(formData.get("sourceUrl"));
+    const sourcePublishedAt = clean(formData.get("sourcePublishedAt"));
+
+    if (!peptideId || !targetId || (targetKind !== "peptide" && targetKind !== "drug_class") || !mechanism) {
+      redirectNotice("Interaction requires peptide, interacting peptide or drug class, and mechanism.", "error");
+    }
+    if (targetKind === "peptide" && targetId === peptideId) {
+      redirectNotice("A peptide cannot interact with itself.", "error");
+    }
+    if (!(INTERACTION_SEVERITIES as string[]).includes(severity)) {
+      redirectNotice("Choose a valid severity.", "error");
+    }
+    if (!(EVIDENCE_GRADES as string[]).includes(evidenceGrade)) {
+      redirectNotice("Choose a valid evidence grade.", "error");
+    }
+    const sourceUrl = sourceUrlInput ? normalizeCitationUrl(sourceUrlInput) : null;
+    if (sourceUrlInput && (!sourceUrl || !sourcePublishedAt)) {
+      redirectNotice("Source URL must be a valid http(s) URL with a published date.", "error");
+    }
+
+    const citationId = sourceUrl
+      ? await findOrCreateCitation(supabase, {
+          sourceUrl,
+          sourceTitle: clean(formData.get("sourceTitle")),
+          publishedAt: sourcePublishedAt
+        })
+      : null;
+
+    const targetColumn = targetKind === "peptide" ? "interacting_peptide_id" : "drug_class_id";
+    const payload = {
+      peptide_id: peptideId,
+      interacting_peptide_id: targetKind === "peptide" ? targetId : null,
+      drug_class_id: targetKind === "drug_class" ? targetId : null,
+      severity,
+      mechanism,
+      management: clean(formData.get("management")) || null,
+      evidence_grade: evidenceGrade,
+      source: "MANUAL",
+      updated_at: new Date().toISOString(),
+      ...(citationId ? { citation_id: citationId } : {})
+    };
+
+    const { data: existing, error: existingError } = await supabase
+      .from("peptide_interactions")
+      .select("id,severity,mechanism")
+      .eq("peptide_id", peptideId)
+      .eq(targetColumn, targetId)
+      .eq("source", "MANUAL")
+      .maybeSingle();
+    if (existingError) {
+      throw new Error(existingError.message);
+    }
+
+    const { error } = existing?.id
+      ? await supabase.from("peptide_interactions").update(payload).eq("id", existing.id)
+      : await supabase.from("peptide_interactions").insert(payload);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const targetName = await getInteractionTargetName(targetKind === "peptide" ? "peptide" : "drug_class", targetId);
+    await recordContentChanges(supabase, "ADMIN", [
+      {
+        entityType: "INTERACTION",
+        entityId: existing?.id ?? null,
+        peptideId,
+        field: `Interaction with ${targetName}`,
+        previous: existing ? `${labelFromSnake(String(existing.severity))}: ${existing.mechanism}` : null,
+        next: `${labelFromSnake(severity)}: ${mechanism}`
+      }
+    ]);
+
+    const notice = existing?.id ? "Interaction updated." : "Interaction saved.";
+    redirect(`/admin?kind=success&notice=${encodeURIComponent(notice)}#interactions`);
+  } catch (error) {
+    rethrowIfRedirectError(error);
+    const message = error instanceof Error ? error.message : "Failed to save interaction.";
+    redirectNotice(message, "error");
+  }
+}
+
+export async function deleteInteractionAction(formData: FormData) {
+  await assertAdminAuth();
+  try {
+    const supabase = requireSupabaseAdmin();
+    const interactionId = Number(clean(formData.get("interactionId")));
+    if (!interactionId) {
+      redirectNotice("Interaction id is required.", "error");
+    }
+
+    const { data: existing, error: findError } = await supabase
+      .from("peptide_interactions")
+      .select("peptide_id,interacting_peptide_id,drug_class_id,severity,mechanism")
+      .eq("id", interactionId)
+      .maybeSingle();
+    if (findError) {
+      throw new Error(findError.message);
+    }
+
+    const { error } = await supabase.from("peptide_interactions").delete().eq("id", interactionId);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (existing) {
+      const targetName = existing.interacting_peptide_id
+        ? await getInteractionTargetName("peptide", Number(existing.interacting_peptide_id))
+        : await getInteractionTargetName("drug_class", Number(existing.drug_class_id));
+      await recordContentChanges(supabase, "ADMIN", [
+        {
+          entityType: "INTERACTION",
+          entityId: interactionId,
+          peptideId: Number(existing.peptide_id),
+          field: `Interaction with ${targetName} removed`,
+          previous: `${labelFromSnake(String(existing.severity))}: ${existing.mechanism}`
+        }
+      ]);
+    }
+
+    redirect(`/admin?kind=success&notice=${encodeURIComponent("Interaction deleted.")}#interactions`);
+  } catch (error) {
+    rethrowIfRedirectError(error);
+    const message = error instanceof Error ? error.message : "Failed to delete interaction.";
+    redirectNotice(message, "error");
+  }
+}
+
 export async function addCitationClaimAction(formData: FormData) {
   await assertAdminAuth();
   try {
@@ -301,11 +720,12 @@ export async function addCitationClaimAction(formData: FormData) {
     const section = clean(formData.get("section"));
     const claimText = clean(formData.get("claimText"));
     const evidenceGrade = clean(formData.get("evidenceGrade"));
+    const gradeRationale = clean(formData.get("gradeRationale"));
     const sourceUrl = clean(formData.get("sourceUrl"));
     const sourceTitle = clean(formData.get("sourceTitle"));
     const sourcePublishedAt = clean(formData.get("sourcePublishedAt"));
     const editPeptideSlug = clean(formData.get("editPeptideSlug"));
-    const normalizedSourceUrl = toHumanReadableSourceUrl(sourceUrl);
+    const normalizedSourceUrl = normalizeCitationUrl(sourceUrl);
 
     if (!peptideId || !section || !claimText || !sourceUrl || !sourcePublishedAt || !normalizedSourceUrl) {
       redirectNotice(
@@ -314,33 +734,40 @@ export async function addCitationClaimAction(formData: FormData) {
       );
     }
 
-    const { data: citation, error: citationError } = await supabase
-      .from("citations")
+    const citationId = await findOrCreateCitation(supabase, {
+      sourceUrl,
+      sourceTitle,
+      publishedAt: sourcePublishedAt
+    });
+
+    const normalizedGrade = evidenceGrade || null;
+    const { data: claim, error: claimError } = await supabase
+      .from("peptide_claims")
       .insert({
-        source_url: normalizedSourceUrl,
-        source_title: sourceTitle || null,
-        published_at: sourcePublishedAt
+        peptide_id: peptideId,
+        section,
+        claim_text: claimText,
+        evidence_grade: normalizedGrade,
+        grade_rationale: normalizedGrade ? gradeRationale || null : null,
+        citation_id: citationId
       })
       .select("id")
       .single();
 
-    if (citationError || !citation?.id) {
-      throw new Error(citationError?.message ?? "Failed to create citation.");
-    }
-
-    const normalizedGrade = evidenceGrade || null;
-    const { error: claimError } = await supabase.from("peptide_claims").insert({
-      peptide_id: peptideId,
-      section,
-      claim_text: claimText,
-      evidence_grade: normalizedGrade,
-      citation_id: citation.id
-    });
-
     if (claimError) {
       throw new Error(claimError.message);
     }
 
+    await recordContentChanges(supabase, "ADMIN", [
+      {
+        entityType: "CLAIM",
+        entityId: Number(claim?.id ?? 0) || null,
+        peptideId,
+        field: `Evidence claim added (${labelFromSnake(section)})`,
+        next: normalizedGrade ? `Grade ${normalizedGrade}: ${claimText}` : claimText
+      }
+    ]);
+
     if (editPeptideSlug) {
       redirect(
         `/admin?kind=success&notice=${encodeURIComponent("Citation claim saved.")}&editPeptide=${encodeURIComponent(editPeptideSlug)}`
@@ -368,7 +795,7 @@ export async function deleteCitationClaimAction(formData: FormData) {
 
     const { data: existingClaim, error: findError } = await supabase
       .from("peptide_claims")
-      .select("citation_id")
+      .select("peptide_id,section,claim_text,citation_id")
       .eq("id", claimId)
       .maybeSingle();
 
@@ -387,15 +814,18 @@ export async function deleteCitationClaimAction(formData: FormData) {
     }
 
     if (citationId) {
-      const { count, error: citationCountError } = await supabase
-        .from("peptide_claims")
-        .select("id", { count: "exact", head: true })
-        .eq("citation_id", citationId);
+      await deleteCitationIfUnused(supabase, citationId);
+    }
 
-      if (!citationCountError && (count ?? 0) === 0) {
-        await supabase.from("citations").delete().eq("id", citationId);
+    await recordContentChanges(supabase, "ADMIN", [
+      {
+        entityType: "CLAIM",
+        entityId: claimId,
+        peptideId: Number(existingClaim.peptide_id),
+        field: `Evidence claim removed (${labelFromSnake(String(existingClaim.section))})`,
+        previous: existingClaim.claim_text
       }
-    }
+    ]);
 
     if (editPeptideSlug) {
       redirect(
@@ -410,98 +840,93 @@ export async function deleteCitationClaimAction(formData: FormData) {
   }
 }
 
-export async function ingestExpandedDatasetAction() {
+export async function mergeDuplicateCitationsAction() {
   await assertAdminAuth();
   try {
     const supabase = requireSupabaseAdmin();
-    const result = await ingestExpandedPeptideDataset(supabase);
-    redirectNotice(`Expanded ingest complete: ${result.processed} of ${result.total} peptides processed.`);
+    const result = await mergeDuplicateCitations(supabase);
+    redirectNotice(
+      `Citation merge complete: ${result.scanned} scanned, ${result.removed} duplicates merged into ${result.duplicateGroups} citations, ${result.updated} normalized, ${result.invalid} with invalid URLs.`
+    );
   } catch (error) {
     rethrowIfRedirectError(error);
-    const message = error instanceof Error ? error.message : "Failed to run expanded ingest.";
+    const message = error instanceof Error ? error.message : "Failed to merge duplicate citations.";
     redirectNotice(message, "error");
   }
 }
 
-export async function refreshLiveEvidenceAction() {
+export async function ingestExpandedDatasetAction() {
   await assertAdminAuth();
   try {
     const supabase = requireSupabaseAdmin();
-    const result = await refreshLiveEvidenceClaims(supabase, { batchSize: 12, sourcesPerPeptide: 2 });
-    redirectNotice(
-      `Live refresh complete: ${result.peptidesScanned} peptides scanned, ${result.claimsUpserted} claims updated, ${result.peptidesWithNoHits} no-hits, ${result.failures} failed.`
-    );
+    const result = await ingestExpandedPeptideDataset(supabase);
+    redirectNotice(`Expanded ingest complete: ${result.processed} of ${result.total} peptides processed.`);
   } catch (error) {
     rethrowIfRedirectError(error);
-    const message = error instanceof Error ? error.message : "Failed to refresh live evidence.";
+    const message = error instanceof Error ? error.message : "Failed to run expanded ingest.";
     redirectNotice(message, "error");
   }
 }
 
+export async function refreshLiveEvidenceAction() {
+  await queueIngestJob("LIVE_EVIDENCE", "Failed to queue live evidence refresh.");
+}
+
+export async function refreshClinicalTrialsAction() {
+  await queueIngestJob("TRIAL_TRACKER", "Failed to queue tracked clinical trial refresh.");
+}
+
 export async function ingestClinicalTrialsCatalogAction() {
-  await assertAdminAuth();
-  try {
-    const supabase = requireSupabaseAdmin();
-    const result = await ingestClinicalTrialsCatalog(supabase, { target: 320, maxPages: 8 });
-    const vendorResult = await ingestVendorWebsiteCatalog(supabase);
-    redirectNotice(
-      `ClinicalTrials + vendor ingest complete: ${result.inserted} new peptides, ${vendorResult.vendorsProcessed} vendors processed, ${vendorResult.listingsUpserted} vendor listings upserted.`
-    );
-  } catch (error) {
-    rethrowIfRedirectError(error);
-    const message = error instanceof Error ? error.message : "Failed to ingest ClinicalTrials peptide catalog.";
-    redirectNotice(message, "error");
-  }
+  await queueIngestJob("CLINICALTRIALS_CATALOG", "Failed to queue ClinicalTrials peptide catalog ingest.");
 }
 
 export async function ingestVendorWebsiteCatalogAction() {
-  await assertAdminAuth();
-  try {
-    const supabase = requireSupabaseAdmin();
-    const result = await ingestVendorWebsiteCatalog(supabase);
-    redirectNotice(
-      `Vendor website ingest complete: ${result.vendorsProcessed} vendors processed, ${result.listingsUpserted} listings upserted, ${result.peptidesCreated} peptides created, ${result.sourcePagesFailed} source pages failed.`
-    );
-  } catch (error) {
-    rethrowIfRedirectError(error);
-    const message = error instanceof Error ? error.message : "Failed to ingest vendor websites.";
-    redirectNotice(message, "error");
-  }
+  await queueIngestJob("VENDOR_WEBSITE", "Failed to queue vendor website ingest.");
 }
 
 export async function ingestSocialUgcAction() {
+  await queueIngestJob("SOCIAL_UGC", "Failed to queue social community signal ingest.");
+}
+
+export async function enrichPeptideContentAction() {
+  await queueIngestJob("CONTENT_ENRICHMENT", "Failed to queue peptide content enrichment.");
+}
+
+export async function cancelIngestJobAction(formData: FormData) {
   await assertAdminAuth();
   try {
     const supabase = requireSupabaseAdmin();
-    const result = await ingestSocialUgcSignals(supabase, {
-      onlyPublished: true,
-      peptideLimit: 40,
-      vendorLimit: 25,
-      delayMs: 90,
-      maxTermsPerEntity: 2,
-      maxQuotesPerVendor: 6
-    });
-    redirectNotice(
-      `Social ingest complete: ${result.peptidesUpdated}/${result.peptidesScanned} peptides and ${result.vendorsUpdated}/${result.vendorsScanned} vendors updated; ${result.vendorReviewsInserted} vendor review quotes captured; ${result.vendorRatingsUpdated} vendor ratings recalculated.`
-    );
+    const jobId = Number(clean(formData.get("jobId")));
+    if (!Number.isFinite(jobId) || jobId <= 0) {
+      redirectNotice("Ingest job is required.", "error");
+    }
+
+    const job = await getJobQueue(supabase).cancel(jobId);
+    await finishJobRun(supabase, job.id, { status: "CANCELLED", counters: job.counters });
+    const message = `Cancelled job ${job.id} after ${job.processedItems} of ${job.totalItems} items.`;
+    redirect(`/admin?kind=success&notice=${encodeURIComponent(message)}&ingestJob=${job.id}#ingest-jobs`);
   } catch (error) {
     rethrowIfRedirectError(error);
-    const message = error instanceof Error ? error.message : "Failed to ingest social community signals.";
+    const message = error instanceof Error ? error.message : "Failed to cancel ingest job.";
     redirectNotice(message, "error");
   }
 }
 
-export async function enrichPeptideContentAction() {
+export async function retryIngestJobAction(formData: FormData) {
   await assertAdminAuth();
   try {
     const supabase = requireSupabaseAdmin();
-    const result = await enrichPeptideContent(supabase, { onlyPublished: true, limit: 40, delayMs: 110 });
-    redirectNotice(
-      `External-source enrichment complete: ${result.peptidesUpdated}/${result.peptidesScanned} peptides updated, ${result.failures} failed. Source hits -> openFDA ${result.sourceHits.openFda}, PubChem ${result.sourceHits.pubChem}, ChEMBL ${result.sourceHits.chembl}, ClinicalTrials ${result.sourceHits.clinicalTrials}, PubMed ${result.sourceHits.pubMed}, Grokipedia ${result.sourceHits.grokipedia}, PeptiWiki ${result.sourceHits.peptiWiki}, Huberman AI ${result.sourceHits.hubermanAi}.`
-    );
+    const jobId = Number(clean(formData.get("jobId")));
+    if (!Number.isFinite(jobId) || jobId <= 0) {
+      redirectNotice("Ingest job is required.", "error");
+    }
+
+    const job = await getJobQueue(supabase).retryFailed(jobId);
+    const message = `Job ${job.id} re-queued with ${job.totalItems - job.processedItems} items left to run.`;
+    redirect(`/admin?kind=success&notice=${encodeURIComponent(message)}&ingestJob=${job.id}#ingest-jobs`);
   } catch (error) {
     rethrowIfRedirectError(error);
-    const message = error instanceof Error ? error.message : "Failed to run peptide content enrichment.";
+    const message = error instanceof Error ? error.message : "Failed to retry ingest job.";
     redirectNotice(message, "error");
   }
 }
@@ -523,20 +948,39 @@ export async function upsertVendorAction(formData: FormData) {
       redirectNotice("This placeholder vendor is blocked and cannot be saved.", "error");
     }
 
-    const { error } = await supabase.from("vendors").upsert(
-      {
-        slug,
-        name,
-        website_url: websiteUrl || null,
-        is_published: isPublished
-      },
-      { onConflict: "slug" }
-    );
+    const { data: previous } = await supabase
+      .from("vendors")
+      .select("name,website_url,is_published")
+      .eq("slug", slug)
+      .maybeSingle();
+
+    const payload = {
+      slug,
+      name,
+      website_url: websiteUrl || null,
+      is_published: isPublished
+    };
+    const { data: vendor, error } = await supabase
+      .from("vendors")
+      .upsert(payload, { onConflict: "slug" })
+      .select("id")
+      .single();
 
     if (error) {
       throw new Error(error.message);
     }
 
+    const vendorId = Number(vendor?.id ?? 0);
+    await recordContentChanges(
+      supabase,
+      "ADMIN",
+      previous
+        ? diffContentFields(previous, payload, { name: "Name", website_url: "Website", is_published: "Published" }).map(
+            (change) => ({ entityType: "VENDOR", entityId: vendorId, vendorId, ...change })
+          )
+        : [{ entityType: "VENDOR", entityId: vendorId, vendorId, field: "Vendor added", next: name }]
+    );
+
     redirect(`/admin?kind=success&notice=${encodeURIComponent("Vendor saved.")}&editVendor=${encodeURIComponent(slug)}`);
   } catch (error) {
     rethrowIfRedirectError(error);
@@ -561,7 +1005,7 @@ export async function upsertVendorListingAction(formData: FormData) {
 
     const { data: existing } = await supabase
       .from("vendor_peptide_listings")
-      .select("id")
+      .select("id,product_url,is_affiliate")
       .eq("vendor_id", vendorId)
       .eq("peptide_id", peptideId)
       .maybeSingle();
@@ -586,6 +1030,13 @@ export async function upsertVendorListingAction(formData: FormData) {
       }
     }
 
+    const listingChanges: ContentChangeInput[] = (
+      existing
+        ? diffContentFields(existing, payload, { product_url: "Product page", is_affiliate: "Affiliate listing" })
+        : [{ field: "Listing added", previous: null, next: productUrl || "Listed" }]
+    ).map((change) => ({ entityType: "VENDOR_LISTING", entityId: existing?.id ?? null, peptideId, vendorId, ...change }));
+    await recordContentChanges(supabase, "ADMIN", listingChanges);
+
     redirectNotice("Vendor listing saved.");
   } catch (error) {
     rethrowIfRedirectError(error);
@@ -623,6 +1074,14 @@ export async function upsertVendorRatingAction(formData: FormData) {
       .map((tag) => tag.trim())
       .filter((tag) => tag.length > 0);
 
+    const { data: current } = await supabase
+      .from("vendor_rating_snapshots")
+      .select("rating")
+      .eq("vendor_id", vendorId)
+      .eq("is_current", true)
+      .limit(1)
+      .maybeSingle();
+
     const { error: clearError } = await supabase
       .from("vendor_rating_snapshots")
       .update({ is_current: false })
@@ -646,6 +1105,16 @@ export async function upsertVendorRatingAction(formData: FormData) {
       throw new Error(error.message);
     }
 
+    await recordContentChanges(supabase, "ADMIN", [
+      {
+        entityType: "VENDOR_RATING",
+        vendorId,
+        field: "Rating",
+        previous: formatRatingChange(current?.rating),
+        next: formatRatingChange(rating)
+      }
+    ]);
+
     redirectNotice("Vendor rating snapshot saved.");
   } catch (error) {
     rethrowIfRedirectError(error);
@@ -653,3 +1122,152 @@ export async function upsertVendorRatingAction(formData: FormData) {
     redirectNotice(message, "error");
   }
 }
+
+export async function rescoreVendorsAction(formData: FormData) {
+  await assertAdminAuth();
+  try {
+    const supabase = requireSupabaseAdmin();
+    const scoringVersion = clean(formData.get("scoringVersion"));
+    if (!scoringVersion) {
+      redirectNotice("Scoring version is required.", "error");
+    }
+
+    const result = await rescoreVendors(supabase, scoringVersion);
+    const message = `Re-scored ${result.snapshotsWritten}/${result.vendorsScanned} vendors under ${result.scoringVersion} (${result.failures} failed). Review the diff before promoting.${describeFailures(result.errors)}`;
+    redirect(
+      `/admin?kind=success&notice=${encodeURIComponent(message)}&rescoreBatch=${encodeURIComponent(result.batchId)}#vendor-rescoring`
+    );
+  } catch (error) {
+    rethrowIfRedirectError(error);
+    const message = error instanceof Error ? error.message : "Failed to re-score vendors.";
+    redirectNotice(message, "error");
+  }
+}
+
+export async function promoteVendorRescoreAction(formData: FormData) {
+  await assertAdminAuth();
+  try {
+    const supabase = requireSupabaseAdmin();
+    const batchId = clean(formData.get("batchId"));
+    if (!batchId) {
+      redirectNotice("Re-score batch is required.", "error");
+    }
+
+    const result = await promoteVendorRescoreBatch(supabase, batchId);
+    const message = `Promoted ${result.vendorsPromoted} vendor ratings from ${result.batchId} (${result.failures} failed).${describeFailures(result.errors)}`;
+    redirect(
+      `/admin?kind=success&notice=${encodeURIComponent(message)}&rescoreBatch=${encodeURIComponent(result.batchId)}#vendor-rescoring`
+    );
+  } catch (error) {
+    rethrowIfRedirectError(error);
+    const message = error instanceof Error ? error.message : "Failed to promote vendor re-score batch.";
+    redirectNotice(message, "error");
+  }
+}
+
+export async function createApiKeyAction(formData: FormData) {
+  await assertAdminAuth();
+  try {
+    const supabase = requireSupabaseAdmin();
+    const label = clean(formData.get("label"));
+    if (!label) {
+      redirectNotice("API key label is required.", "error");
+    }
+
+    const rateLimitRaw = clean(formData.get("rateLimitPerMinute"));
+    const monthlyQuotaRaw = clean(formData.get("monthlyQuota"));
+    const created = await createApiKey(supabase, {
+      label,
+      rateLimitPerMinute: rateLimitRaw ? Number(rateLimitRaw) : undefined,
+      monthlyQuota: monthlyQuotaRaw ? Number(monthlyQuotaRaw) : undefined
+    });
+
+    // The plain key is only ever shown once; hand it to the next render without putting it in the URL.
+    // NewApiKeyNotice deletes the cookie as soon as it has rendered the key.
+    const cookieStore = await cookies();
+    cookieStore.set(NEW_API_KEY_COOKIE, created.key, {
+      httpOnly: true,
+      sameSite: "strict",
+      secure: true,
+      path: "/admin",
+      maxAge: 120
+    });
+
+    const message = `API key ${created.prefix}... created for "${label}". Copy it now; it will not be shown again.`;
+    redirect(`/admin?kind=success&notice=${encodeURIComponent(message)}#api-keys`);
+  } catch (error) {
+    rethrowIfRedirectError(error);
+    const message = error instanceof Error ? error.message : "Failed to create API key.";
+    redirectNotice(message, "error");
+  }
+}
+
+export async function revokeApiKeyAction(formData: FormData) {
+  await assertAdminAuth();
+  try {
+    const supabase = requireSupabaseAdmin();
+    const keyId = Number(clean(formData.get("keyId")));
+    if (!Number.isFinite(keyId) || keyId <= 0) {
+      redirectNotice("API key id is required.", "error");
+    }
+
+    await revokeApiKey(supabase, keyId);
+    redirect(`/admin?kind=success&notice=${encodeURIComponent("API key revoked.")}#api-keys`);
+  } catch (error) {
+    rethrowIfRedirectError(error);
+    const message = error instanceof Error ? error.message : "Failed to revoke API key.";
+    redirectNotice(message, "error");
+  }
+}
+
+export async function dryRunPeptideImportAction(formData: FormData) {
+  await assertAdminAuth();
+  try {
+    const supabase = requireSupabaseAdmin();
+    const file = formData.get("file");
+    if (!(file instanceof File) || file.size === 0) {
+      redirectNotice("Choose a CSV or JSON file to import.", "error");
+      return;
+    }
+    if (file.size > MAX_IMPORT_FILE_BYTES) {
+      redirectNotice("Import files are limited to 5 MB.", "error");
+    }
+
+    const format = file.name.toLowerCase().endsWith(".json") || file.type === "application/json" ? "json" : "csv";
+    const result = await createPeptideImportBatch(supabase, {
+      fileName: file.name,
+      format,
+      content: await file.text()
+    });
+    const message =
+      result.errorCount > 0
+        ? `Dry run found ${result.errorCount} validation errors in ${result.rowCount} rows. Nothing was imported.`
+        : `Dry run: ${result.created} new, ${result.updated} changed, ${result.unchanged} unchanged peptides. Review the diff before applying.`;
+    redirect(
+      `/admin?kind=${result.errorCount > 0 ? "error" : "success"}&notice=${encodeURIComponent(message)}&importBatch=${result.batchId}#bulk-import`
+    );
+  } catch (error) {
+    rethrowIfRedirectError(error);
+    const message = error instanceof Error ? error.message : "Failed to run import dry run.";
+    redirectNotice(message, "error");
+  }
+}
+
+export async function applyPeptideImportAction(formData: FormData) {
+  await assertAdminAuth();
+  try {
+    const supabase = requireSupabaseAdmin();
+    const batchId = Number(clean(formData.get("batchId")));
+    if (!Number.isFinite(batchId) || batchId <= 0) {
+      redirectNotice("Import batch is required.", "error");
+    }
+
+    const result = await applyPeptideImportBatch(supabase, batchId);
+    const message = `Imported ${result.imported} peptides from batch ${result.batchId}.`;
+    redirect(`/admin?kind=success&notice=${encodeURIComponent(message)}&importBatch=${result.batchId}#bulk-import`);
+  } catch (error) {
+    rethrowIfRedirectError(error);
+    const message = error instanceof Error ? error.message : "Failed to apply import batch.";
+    redirectNotice(message, "error");
+  }
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Shows the plain key handed over by createApiKeyAction, then clears its cookie. The key stays on
+// screen until the admin navigates away, even if the page re-renders without it.
+export function NewApiKeyNotice({ apiKey }: { apiKey: string }) {
+  const [shownKey, setShownKey] = useState(apiKey);
+
+  useEffect(() => {
+    if (!apiKey) {
+      return;
+    }
+    setShownKey(apiKey);
+    fetch("/admin/new-api-key", { method: "DELETE", cache: "no-store" }).catch(() => undefined);
+  }, [apiKey]);
+
+  if (!shownKey) {
+    return null;
+  }
+  return (
+    <p className="notice success">
+      New key: <code>{shownKey}</code>
+    </p>
+  );
+}
@@ -0,0 +1,28 @@
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import { buildCatalogExportBundle, loadCatalogExport } from "@/lib/catalog-export";
+import { getSupabaseAdminClient } from "@/lib/supabase-admin";
+
+export async function GET() {
+  if (!(await isAdminAuthenticated())) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = getSupabaseAdminClient();
+  if (!supabase) {
+    return Response.json({ error: "Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY." }, { status: 503 });
+  }
+
+  try {
+    const bundle = await buildCatalogExportBundle(await loadCatalogExport(supabase));
+    return new Response(Buffer.from(bundle.body), {
+      headers: {
+        "Content-Type": bundle.contentType,
+        "Content-Disposition": `attachment; filename="${bundle.name}"`,
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Export failed.";
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
@@ -5,10 +5,12 @@ import { useFormStatus } from "react-dom";
 type IngestControlsProps = {
   ingestExpandedDatasetAction: () => Promise<void>;
   refreshLiveEvidenceAction: () => Promise<void>;
+  refreshClinicalTrialsAction: () => Promise<void>;
   ingestClinicalTrialsCatalogAction: () => Promise<void>;
   ingestVendorWebsiteCatalogAction: () => Promise<void>;
   enrichPeptideContentAction: () => Promise<void>;
   ingestSocialUgcAction: () => Promise<void>;
+  mergeDuplicateCitationsAction: () => Promise<void>;
 };
 
 type IngestCardProps = {
@@ -18,6 +20,8 @@ type IngestCardProps = {
   idleLabel: string;
   pendingLabel: string;
   primary?: boolean;
+  // Queued cards only enqueue a background job; progress shows under Ingest Jobs.
+  queued?: boolean;
 };
 
 function IngestSubmitButton({
@@ -55,13 +59,15 @@ function IngestProgressStatus({ pendingText }: { pendingText: string }) {
   );
 }
 
-function IngestCard({ action, title, description, idleLabel, pendingLabel, primary }: IngestCardProps) {
+function IngestCard({ action, title, description, idleLabel, pendingLabel, primary, queued }: IngestCardProps) {
   return (
     <form action={action} className="ingest-card">
       <h3>{title}</h3>
       <p className="muted">{description}</p>
       <IngestSubmitButton idleLabel={idleLabel} pendingLabel={pendingLabel} primary={primary} />
-      <IngestProgressStatus pendingText="Running now. This can take up to a couple of minutes." />
+      <IngestProgressStatus
+        pendingText={queued ? "Queuing background job..." : "Running now. This can take up to a couple of minutes."}
+      />
     </form>
   );
 }
@@ -69,10 +75,12 @@ function IngestCard({ action, title, description, idleLabel, pendingLabel, prima
 export function IngestControls({
   ingestExpandedDatasetAction,
   refreshLiveEvidenceAction,
+  refreshClinicalTrialsAction,
   ingestClinicalTrialsCatalogAction,
   ingestVendorWebsiteCatalogAction,
   enrichPeptideContentAction,
-  ingestSocialUgcAction
+  ingestSocialUgcAction,
+  mergeDuplicateCitationsAction
 }: IngestControlsProps) {
   return (
     <div className="ingest-controls">
@@ -89,35 +97,55 @@ export function IngestControls({
         title="Live Evidence Refresh"
         description="Pulls latest PubMed and ClinicalTrials evidence into citation claims for published peptides."
         idleLabel="Refresh Live Sources"
-        pendingLabel="Refreshing Live Sources..."
+        pendingLabel="Queuing..."
+        queued
+      />
+      <IngestCard
+        action={refreshClinicalTrialsAction}
+        title="Trial Tracker"
+        description="Re-checks ClinicalTrials.gov registrations for published peptides and records status changes and newly posted results."
+        idleLabel="Refresh Tracked Trials"
+        pendingLabel="Queuing..."
+        queued
       />
       <IngestCard
         action={ingestClinicalTrialsCatalogAction}
         title="ClinicalTrials Catalog (Hundreds)"
         description="Imports a large investigational peptide catalog from ClinicalTrials intervention records."
         idleLabel="Import Hundreds From ClinicalTrials"
-        pendingLabel="Importing Hundreds..."
+        pendingLabel="Queuing..."
+        queued
       />
       <IngestCard
         action={ingestVendorWebsiteCatalogAction}
         title="Vendor Website Catalog"
         description="Researches known vendor websites, ingests vendor pages, and links offered peptides."
         idleLabel="Ingest Vendor Website Listings"
-        pendingLabel="Ingesting Vendor Listings..."
+        pendingLabel="Queuing..."
+        queued
       />
       <IngestCard
         action={enrichPeptideContentAction}
         title="External Source Enrichment"
         description="Pulls openFDA, PubChem, ChEMBL, ClinicalTrials, and PubMed data to replace vague peptide content."
         idleLabel="Enrich 40 Peptides (Per Run)"
-        pendingLabel="Enriching Content..."
+        pendingLabel="Queuing..."
+        queued
       />
       <IngestCard
         action={ingestSocialUgcAction}
         title="Social & Community Sources"
         description="Ingests Reddit and Hacker News discussions for peptides and vendors, stores review quotes, and updates vendor ratings with sentiment analysis."
         idleLabel="Ingest Social Signals (Peptides + Vendors)"
-        pendingLabel="Ingesting Social Signals..."
+        pendingLabel="Queuing..."
+        queued
+      />
+      <IngestCard
+        action={mergeDuplicateCitationsAction}
+        title="Citation Registry"
+        description="Normalizes citation URLs, backfills PMID, DOI, and NCT identifiers, and merges duplicate citations into one record."
+        idleLabel="Merge Duplicate Citations"
+        pendingLabel="Merging Citations..."
       />
     </div>
   );
@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { IngestJob } from "@/lib/job-queue";
+
+export type IngestJobSnapshot = IngestJob & {
+  label: string;
+  summary: string;
+};
+
+type IngestJobMonitorProps = {
+  jobs: IngestJobSnapshot[];
+  cancelIngestJobAction: (formData: FormData) => Promise<void>;
+};
+
+function isActive(job: IngestJobSnapshot): boolean {
+  return job.status === "QUEUED" || job.status === "RUNNING";
+}
+
+function JobProgress({ job }: { job: IngestJobSnapshot }) {
+  const percent = job.totalItems > 0 ? Math.round((job.processedItems / job.totalItems) * 100) : 0;
+  return (
+    <div className="job-progress" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={percent}>
+      <span style={{ width: `${percent}%` }} />
+    </div>
+  );
+}
+
+// Drives queued jobs from the open admin tab: each POST to /admin/jobs/[id] runs one chunk, so no
+// single request has to fit a whole ingest. Closing the tab pauses the job; it resumes on the next
+// visit or under `npm run jobs:work`.
+export function IngestJobMonitor({ jobs: initialJobs, cancelIngestJobAction }: IngestJobMonitorProps) {
+  const router = useRouter();
+  const [jobs, setJobs] = useState(initialJobs);
+  const [paused, setPaused] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setJobs(initialJobs);
+  }, [initialJobs]);
+
+  useEffect(() => {
+    if (paused || !jobs.some(isActive)) {
+      return;
+    }
+
+    let cancelled = false;
+
+    async function drive(queue: IngestJobSnapshot[]) {
+      let current = queue;
+      while (!cancelled) {
+        const next = current.find(isActive);
+        if (!next) {
+          router.refresh();
+          return;
+        }
+        const response = await fetch(`/admin/jobs/${next.id}`, { method: "POST", cache: "no-store" });
+        const payload = (await response.json().catch(() => null)) as { job?: IngestJobSnapshot; error?: string } | null;
+        if (!response.ok || !payload?.job) {
+          setError(payload?.error ?? `Worker request failed with HTTP ${response.status}.`);
+          setPaused(true);
+          return;
+        }
+        const updated = payload.job;
+        current = current.map((job) => (job.id === updated.id ? updated : job));
+        setJobs(current);
+      }
+    }
+
+    drive(jobs).catch((driveError: unknown) => {
+      setError(driveError instanceof Error ? driveError.message : "Worker request failed.");
+      setPaused(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+    // Restarts only on pause/resume or a new job list from the server. A request still in flight
+    // from the previous loop is harmless: items are claimed server-side, so none runs twice.
+  }, [paused, initialJobs]);
+
+  const activeJobs = jobs.filter(isActive);
+  if (activeJobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="job-monitor">
+      <div className="admin-header-row">
+        <p className={`ingest-status ${paused ? "" : "active"}`} role="status" aria-live="polite">
+          {paused ? "Paused. Jobs keep their progress and can be resumed." : "Running queued jobs from this tab..."}
+        </p>
+        <button
+          className="btn"
+          type="button"
+          onClick={() => {
+            setError("");
+            setPaused(!paused);
+          }}
+        >
+          {paused ? "Resume" : "Pause"}
+        </button>
+      </div>
+      {error ? <p className="notice error">{error}</p> : null}
+      {activeJobs.map((job) => (
+        <div key={job.id} className="ingest-card">
+          <div className="admin-header-row">
+            <h3>
+              #{job.id} {job.label}{" "}
+              <span className="admin-badge running">{job.status === "QUEUED" ? "Queued" : "Running"}</span>
+            </h3>
+            <form action={cancelIngestJobAction}>
+              <input type="hidden" name="jobId" value={job.id} />
+              <button className="btn" type="submit">
+                Cancel
+              </button>
+            </form>
+          </div>
+          <JobProgress job={job} />
+          <p className="muted">
+            {job.processedItems} of {job.totalItems} items processed
+            {job.failedItems > 0 ? `, ${job.failedItems} failed` : ""}. {job.summary}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
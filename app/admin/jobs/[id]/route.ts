@@ -0,0 +1,66 @@
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import { formatJobCounters, ingestJobLabel, runIngestJobChunk } from "@/lib/ingest-jobs";
+import { getJobQueue, type IngestJob } from "@/lib/job-queue";
+import { getSupabaseAdminClient } from "@/lib/supabase-admin";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// One chunk of the heaviest jobs (enrichment, vendor crawls) takes a minute or more.
+export const maxDuration = 300;
+
+function jobSnapshot(job: IngestJob) {
+  return { ...job, label: ingestJobLabel(job.kind), summary: formatJobCounters(job.counters) };
+}
+
+async function handle(params: RouteContext["params"], runChunk: boolean) {
+  if (!(await isAdminAuthenticated())) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const jobId = Number((await params).id);
+  if (!Number.isFinite(jobId) || jobId <= 0) {
+    return Response.json({ error: "Unknown ingest job." }, { status: 404 });
+  }
+
+  const supabase = getSupabaseAdminClient();
+  if (!supabase) {
+    return Response.json({ error: "Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY." }, { status: 503 });
+  }
+
+  try {
+    const queue = getJobQueue(supabase);
+    const { job, processed, locked } = runChunk
+      ? await runIngestJobChunk(supabase, queue, jobId)
+      : { job: await queue.getJob(jobId), processed: 0, locked: false };
+    if (!job) {
+      return Response.json({ error: "Unknown ingest job." }, { status: 404 });
+    }
+    if (locked) {
+      // The monitor pauses on this instead of re-posting while a cron tick or script holds the lock.
+      return Response.json(
+        {
+          error: `Another ${ingestJobLabel(job.kind)} run holds the pipeline lock. Resume once it finishes.`,
+          job: jobSnapshot(job)
+        },
+        { status: 409 }
+      );
+    }
+    return Response.json({ job: jobSnapshot(job), processed }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Ingest job failed.";
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
+
+// Current progress without doing any work.
+export async function GET(_request: Request, { params }: RouteContext) {
+  return handle(params, false);
+}
+
+// Processes the next chunk of items. The admin page calls this in a loop while the tab is open;
+// scripts/run-ingest-jobs.ts does the same from a terminal or scheduler.
+export async function POST(_request: Request, { params }: RouteContext) {
+  return handle(params, true);
+}
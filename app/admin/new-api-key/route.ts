@@ -0,0 +1,13 @@
+import { cookies } from "next/headers";
+import { isAdminAuthenticated } from "@/lib/admin-auth";
+import { NEW_API_KEY_COOKIE } from "@/lib/api-keys";
+
+// Called by the API key notice once it has shown the new key, so a reload never shows it again.
+export async function DELETE() {
+  if (!(await isAdminAuthenticated())) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  (await cookies()).delete({ name: NEW_API_KEY_COOKIE, path: "/admin" });
+  return new Response(null, { status: 204, headers: { "Cache-Control": "no-store" } });
+}
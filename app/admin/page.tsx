@@ -1,27 +1,61 @@
 import Link from "next/link";
 import type { Metadata } from "next";
+import { cookies } from "next/headers";
 import { logoutAdminAction } from "@/app/admin/auth-actions";
 import {
   addCitationClaimAction,
   addDosingAction,
   addUseCaseAction,
+  applyPeptideImportAction,
+  cancelIngestJobAction,
+  createApiKeyAction,
   deleteCitationClaimAction,
+  deleteInteractionAction,
+  dryRunPeptideImportAction,
   enrichPeptideContentAction,
   ingestSocialUgcAction,
   ingestClinicalTrialsCatalogAction,
   ingestExpandedDatasetAction,
   ingestVendorWebsiteCatalogAction,
+  mergeDuplicateCitationsAction,
+  parseDosingEntriesAction,
+  promoteVendorRescoreAction,
+  refreshClinicalTrialsAction,
   refreshLiveEvidenceAction,
+  rescoreVendorsAction,
+  retryIngestJobAction,
+  revokeApiKeyAction,
+  reviewDosingParseAction,
+  saveInteractionAction,
   upsertPeptideAction,
+  upsertRegulatoryStatusAction,
   upsertSafetyAction,
   upsertVendorAction,
   upsertVendorListingAction,
   upsertVendorRatingAction
 } from "@/app/admin/actions";
 import { IngestControls } from "@/app/admin/ingest-controls";
-import { EVIDENCE_GRADES, JURISDICTIONS, REGULATORY_STATUSES } from "@/lib/constants";
+import { NewApiKeyNotice } from "@/app/admin/api-key-notice";
+import { IngestJobMonitor } from "@/app/admin/ingest-jobs";
+import {
+  DOSE_UNITS,
+  DOSING_ROUTES,
+  EVIDENCE_GRADES,
+  INTERACTION_SEVERITIES,
+  JURISDICTIONS,
+  REGULATORY_STATUSES,
+  labelFromSnake
+} from "@/lib/constants";
 import { requireAdminAuth } from "@/lib/admin-auth";
 import { getAdminDashboardData } from "@/lib/admin-repository";
+import { CATALOG_EXPORT_BUNDLE, CATALOG_EXPORT_FILES } from "@/lib/catalog-export";
+import { PROVENANCE_SOURCE_LABELS } from "@/lib/content-provenance";
+import { DEFAULT_API_KEY_MONTHLY_QUOTA, DEFAULT_API_KEY_RATE_LIMIT, NEW_API_KEY_COOKIE } from "@/lib/api-keys";
+import { formatJobCounters, ingestJobLabel } from "@/lib/ingest-jobs";
+import type { IngestJobItemStatus, IngestJobStatus } from "@/lib/job-queue";
+import { PEPTIDE_IMPORT_CSV_COLUMNS } from "@/lib/peptide-import";
+import { formatDoseAmount } from "@/lib/structured-dosing";
+import type { ContentProvenanceField } from "@/lib/types";
 
 type SearchValue = string | string[] | undefined;
 type SearchParams = Record<string, SearchValue>;
@@ -41,10 +75,49 @@ export const metadata: Metadata = {
   }
 };
 
+const PROVENANCE_FIELD_LABELS: Record<ContentProvenanceField, string> = {
+  intro: "Intro",
+  mechanism: "Mechanism",
+  effectiveness_summary: "Effectiveness summary",
+  long_description: "Long description"
+};
+
+const JOB_STATUS_BADGES: Record<IngestJobStatus | IngestJobItemStatus, string> = {
+  QUEUED: "running",
+  RUNNING: "running",
+  PENDING: "running",
+  COMPLETED: "published",
+  SUCCEEDED: "published",
+  FAILED: "draft",
+  CANCELLED: "draft"
+};
+
 function firstParam(value: SearchValue): string {
   return Array.isArray(value) ? value[0] ?? "" : value ?? "";
 }
 
+function formatScore(value: number | null, digits: number): string {
+  return value === null ? "No rating" : value.toFixed(digits);
+}
+
+function formatTimestamp(value: string): string {
+  if (!value) {
+    return "Never";
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  return date.toLocaleString("en-US", { year: "numeric", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+function formatDelta(value: number | null, digits: number): string {
+  if (value === null) {
+    return "N/A";
+  }
+  return value > 0 ? `+${value.toFixed(digits)}` : value.toFixed(digits);
+}
+
 export default async function AdminPage({ searchParams }: PageProps) {
   await requireAdminAuth();
 
@@ -53,11 +126,28 @@ export default async function AdminPage({ searchParams }: PageProps) {
   const kind = firstParam(resolvedSearchParams?.kind);
   const editPeptide = firstParam(resolvedSearchParams?.editPeptide);
   const editVendor = firstParam(resolvedSearchParams?.editVendor);
-  const data = await getAdminDashboardData(editPeptide, editVendor);
+  const rescoreBatch = firstParam(resolvedSearchParams?.rescoreBatch);
+  const importBatch = firstParam(resolvedSearchParams?.importBatch);
+  const ingestJob = firstParam(resolvedSearchParams?.ingestJob);
+  const data = await getAdminDashboardData(editPeptide, editVendor, rescoreBatch, importBatch, ingestJob);
+  const newApiKey = (await cookies()).get(NEW_API_KEY_COOKIE)?.value ?? "";
 
   const selectedPeptide = data.selectedPeptide;
   const selectedPeptideClaims = data.selectedPeptideClaims;
+  const selectedPeptideProvenance = data.selectedPeptideProvenance;
+  const selectedPeptideText: Record<ContentProvenanceField, string> = {
+    intro: selectedPeptide?.intro ?? "",
+    mechanism: selectedPeptide?.mechanism ?? "",
+    effectiveness_summary: selectedPeptide?.effectivenessSummary ?? "",
+    long_description: selectedPeptide?.longDescription ?? ""
+  };
   const selectedVendor = data.selectedVendor;
+  const selectedRescoreBatch = data.selectedRescoreBatch;
+  const selectedImportBatch = data.selectedImportBatch;
+  const selectedIngestJob = data.selectedIngestJob;
+  const activeIngestJobs = data.ingestJobs
+    .filter((job) => job.status === "QUEUED" || job.status === "RUNNING")
+    .map((job) => ({ ...job, label: ingestJobLabel(job.kind), summary: formatJobCounters(job.counters) }));
   const jurisdictions =
     data.jurisdictions.length > 0
       ? data.jurisdictions
@@ -86,10 +176,12 @@ export default async function AdminPage({ searchParams }: PageProps) {
           <IngestControls
             ingestExpandedDatasetAction={ingestExpandedDatasetAction}
             refreshLiveEvidenceAction={refreshLiveEvidenceAction}
+            refreshClinicalTrialsAction={refreshClinicalTrialsAction}
             ingestClinicalTrialsCatalogAction={ingestClinicalTrialsCatalogAction}
             ingestVendorWebsiteCatalogAction={ingestVendorWebsiteCatalogAction}
             enrichPeptideContentAction={enrichPeptideContentAction}
             ingestSocialUgcAction={ingestSocialUgcAction}
+            mergeDuplicateCitationsAction={mergeDuplicateCitationsAction}
           />
         </div>
         {notice ? <p className={`notice ${kind === "error" ? "error" : "success"}`}>{notice}</p> : null}
@@ -103,6 +195,104 @@ export default async function AdminPage({ searchParams }: PageProps) {
         </section>
       ) : null}
 
+      <section className="card" id="ingest-jobs">
+        <div className="section-head">
+          <h2>Ingest Jobs</h2>
+          <p className="muted">
+            Source ingests run as background jobs, one peptide or vendor per item. Queued jobs run from this page while it
+            is open, or from <code>npm run jobs:work</code>. Failed items can be retried without re-running the rest.{" "}
+            <Link href="/admin/runs">Run history and per-source errors</Link>
+          </p>
+        </div>
+        <IngestJobMonitor jobs={activeIngestJobs} cancelIngestJobAction={cancelIngestJobAction} />
+        {data.ingestJobs.length === 0 ? (
+          <p className="muted">No ingest jobs yet. Queue one from the ingest controls above.</p>
+        ) : (
+          <div className="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Job</th>
+                  <th>Status</th>
+                  <th>Items</th>
+                  <th>Results</th>
+                  <th>Queued</th>
+                  <th>Finished</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {data.ingestJobs.map((job) => (
+                  <tr key={job.id}>
+                    <td>
+                      <Link className="subtle-link" href={`/admin?ingestJob=${job.id}#ingest-jobs`}>
+                        #{job.id} {ingestJobLabel(job.kind)}
+                      </Link>
+                    </td>
+                    <td>
+                      <span className={`admin-badge ${JOB_STATUS_BADGES[job.status]}`}>{labelFromSnake(job.status)}</span>
+                      {job.error ? <p className="muted">{job.error}</p> : null}
+                    </td>
+                    <td>
+                      {job.processedItems}/{job.totalItems}
+                      {job.failedItems > 0 ? ` (${job.failedItems} failed)` : ""}
+                    </td>
+                    <td>{formatJobCounters(job.counters)}</td>
+                    <td>{formatTimestamp(job.createdAt)}</td>
+                    <td>{job.finishedAt ? formatTimestamp(job.finishedAt) : "N/A"}</td>
+                    <td>
+                      {job.failedItems > 0 || job.status === "CANCELLED" ? (
+                        <form action={retryIngestJobAction}>
+                          <input type="hidden" name="jobId" value={job.id} />
+                          <button className="btn" type="submit">
+                            Retry Failed
+                          </button>
+                        </form>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {selectedIngestJob ? (
+          <>
+            <h3>Job #{selectedIngestJob.id} Items: {ingestJobLabel(selectedIngestJob.kind)}</h3>
+            <div className="table-scroll">
+              <table>
+                <thead>
+                  <tr>
+                    <th>#</th>
+                    <th>Item</th>
+                    <th>Status</th>
+                    <th>Attempts</th>
+                    <th>Results</th>
+                    <th>Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.selectedIngestJobItems.map((item) => (
+                    <tr key={item.id}>
+                      <td>{item.position + 1}</td>
+                      <td>
+                        {item.label} <code>{item.itemKey}</code>
+                      </td>
+                      <td>
+                        <span className={`admin-badge ${JOB_STATUS_BADGES[item.status]}`}>{labelFromSnake(item.status)}</span>
+                      </td>
+                      <td>{item.attempts}</td>
+                      <td>{Object.keys(item.counters).length > 0 ? formatJobCounters(item.counters) : "N/A"}</td>
+                      <td>{item.error ?? ""}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : null}
+      </section>
+
       <section className="grid two">
         <article className="card">
           <div className="section-head">
@@ -372,6 +562,292 @@ export default async function AdminPage({ searchParams }: PageProps) {
         </form>
       </section>
 
+      <section className="card" id="dosing-review">
+        <div className="section-head">
+          <h2>Dosing Parse Review</h2>
+          <p className="muted">
+            Dose text is parsed into amounts, unit, route, interval and titration steps. Low-confidence parses wait here
+            until corrected; reviewed rows are never re-parsed.
+          </p>
+        </div>
+        <form action={parseDosingEntriesAction} className="form-grid">
+          <button className="btn primary" type="submit">
+            Parse Unreviewed Dosing Entries
+          </button>
+        </form>
+        <p className="muted">
+          <strong>{data.dosingReviewPending}</strong> low-confidence entries awaiting review.
+        </p>
+        {data.dosingReviewQueue.length === 0 ? (
+          <p className="empty-state">No dosing entries need review.</p>
+        ) : (
+          data.dosingReviewQueue.map((item) => (
+            <form key={item.id} action={reviewDosingParseAction} className="form-grid two-col">
+              <input type="hidden" name="entryId" value={item.id} />
+              <div className="full-span">
+                <strong>{item.peptideName}</strong> <span className="chip">{item.context}</span>
+                <p className="muted">
+                  Route: {item.route || "—"} · Start: {item.startingDose || "—"} · Maintenance:{" "}
+                  {item.maintenanceDose || "—"} · Frequency: {item.frequency || "—"}
+                </p>
+                {item.notes ? <p className="muted">{item.notes}</p> : null}
+                <p className="muted">Parser issues: {item.structured.issues.join(" ") || "None"}</p>
+              </div>
+              <label>
+                Unit
+                <select name="doseUnit" defaultValue={item.structured.unit ?? ""}>
+                  <option value="">None</option>
+                  {DOSE_UNITS.map((unit) => (
+                    <option key={unit} value={unit}>
+                      {unit}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Route
+                <select name="routeCode" defaultValue={item.structured.route ?? ""}>
+                  <option value="">None</option>
+                  {DOSING_ROUTES.map((route) => (
+                    <option key={route} value={route}>
+                      {route}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Starting amount
+                <input name="startingAmount" inputMode="decimal" defaultValue={item.structured.startingAmount ?? ""} />
+              </label>
+              <label>
+                Maintenance amount
+                <input name="maintenanceAmount" inputMode="decimal" defaultValue={item.structured.maintenanceAmount ?? ""} />
+              </label>
+              <label>
+                Max amount
+                <input name="maxAmount" inputMode="decimal" defaultValue={item.structured.maxAmount ?? ""} />
+              </label>
+              <label>
+                Interval (days, or text such as &quot;weekly&quot;)
+                <input name="interval" defaultValue={item.structured.intervalDays ?? ""} />
+              </label>
+              <label className="full-span">
+                Titration steps (e.g. &quot;0.25 mg for 4 weeks, 0.5 mg for 4 weeks, 1 mg&quot;)
+                <input
+                  name="titration"
+                  defaultValue={item.structured.titration
+                    .map((step) =>
+                      `${formatDoseAmount(step.amount, item.structured.unit ?? "mg")}${step.durationWeeks ? ` for ${step.durationWeeks} weeks` : ""}`
+                    )
+                    .join(", ")}
+                />
+              </label>
+              <div className="full-span">
+                <button className="btn primary" type="submit">
+                  Save Review
+                </button>
+              </div>
+            </form>
+          ))
+        )}
+      </section>
+
+      <section className="card" id="regulatory-status">
+        <div className="section-head">
+          <h2>Regulatory Status Entry</h2>
+          <p className="muted">Saving a different status for a jurisdiction replaces the old one and adds a timeline entry.</p>
+        </div>
+        <form action={upsertRegulatoryStatusAction} className="form-grid two-col">
+          <label>
+            Peptide
+            <select name="peptideId">
+              <option value="">Select peptide</option>
+              {data.peptides.map((peptide) => (
+                <option key={peptide.id} value={peptide.id}>
+                  {peptide.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Jurisdiction
+            <select name="jurisdiction">
+              {jurisdictions.map((jurisdiction) => (
+                <option key={jurisdiction.code} value={jurisdiction.code}>
+                  {jurisdiction.code} - {jurisdiction.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Status
+            <select name="status">
+              {REGULATORY_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Approval date
+            <input name="approvalDate" type="date" />
+          </label>
+          <label>
+            Regulator reference
+            <input name="regulatorReference" placeholder="NDA 209637, EMEA/H/C/004174, ARTG 123456" />
+          </label>
+          <label>
+            Source URL
+            <input name="sourceUrl" type="url" placeholder="https://" />
+          </label>
+          <label className="full-span">
+            Brand names (comma separated)
+            <input name="brandNames" />
+          </label>
+          <label className="full-span">
+            Approved indications (one per line)
+            <textarea name="approvedIndications" rows={3} />
+          </label>
+          <label className="full-span">
+            Notes
+            <textarea name="notes" rows={2} />
+          </label>
+          <div className="full-span">
+            <button className="btn primary" type="submit">
+              Save Regulatory Status
+            </button>
+          </div>
+        </form>
+      </section>
+
+      <section className="card" id="interactions">
+        <div className="section-head">
+          <h2>Interaction Curation</h2>
+          <p className="muted">
+            Manual entries sit alongside openFDA label rows, which the enrichment job replaces on every run.
+          </p>
+        </div>
+        <form action={saveInteractionAction} className="form-grid two-col">
+          <label>
+            Peptide
+            <select name="peptideId" required>
+              <option value="">Select peptide</option>
+              {data.peptides.map((peptide) => (
+                <option key={peptide.id} value={peptide.id}>
+                  {peptide.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Interacts with
+            <select name="target" required>
+              <option value="">Select peptide or drug class</option>
+              <optgroup label="Drug classes">
+                {data.drugClasses.map((drugClass) => (
+                  <option key={drugClass.id} value={`drug_class:${drugClass.id}`}>
+                    {drugClass.name}
+                  </option>
+                ))}
+              </optgroup>
+              <optgroup label="Peptides">
+                {data.peptides.map((peptide) => (
+                  <option key={peptide.id} value={`peptide:${peptide.id}`}>
+                    {peptide.name}
+                  </option>
+                ))}
+              </optgroup>
+            </select>
+          </label>
+          <label>
+            Severity
+            <select name="severity" defaultValue="MODERATE">
+              {INTERACTION_SEVERITIES.map((severity) => (
+                <option key={severity} value={severity}>
+                  {labelFromSnake(severity)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Evidence grade
+            <select name="evidenceGrade" defaultValue="C">
+              {EVIDENCE_GRADES.map((grade) => (
+                <option key={grade} value={grade}>
+                  {grade}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="full-span">
+            Mechanism
+            <textarea name="mechanism" rows={2} required />
+          </label>
+          <label className="full-span">
+            Management
+            <textarea name="management" rows={2} />
+          </label>
+          <label>
+            Source URL
+            <input name="sourceUrl" type="url" placeholder="https://" />
+          </label>
+          <label>
+            Source title
+            <input name="sourceTitle" />
+          </label>
+          <label>
+            Source published date
+            <input name="sourcePublishedAt" type="date" />
+          </label>
+          <div className="full-span">
+            <button className="btn primary" type="submit">
+              Save Interaction
+            </button>
+          </div>
+        </form>
+        {data.interactions.length === 0 ? (
+          <p className="empty-state">No interactions recorded yet.</p>
+        ) : (
+          <div className="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Pair</th>
+                  <th>Severity</th>
+                  <th>Mechanism</th>
+                  <th>Grade</th>
+                  <th>Source</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {data.interactions.map((interaction) => (
+                  <tr key={interaction.id}>
+                    <td>
+                      {interaction.peptideName} + {interaction.targetName}
+                      {interaction.targetKind === "drug_class" ? <span className="muted"> (class)</span> : null}
+                    </td>
+                    <td>{labelFromSnake(interaction.severity)}</td>
+                    <td>{interaction.mechanism}</td>
+                    <td>{interaction.evidenceGrade}</td>
+                    <td>{labelFromSnake(interaction.source)}</td>
+                    <td>
+                      <form action={deleteInteractionAction}>
+                        <input type="hidden" name="interactionId" value={interaction.id} />
+                        <button className="btn" type="submit">
+                          Delete
+                        </button>
+                      </form>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
       <section className="card">
         <div className="section-head">
           <h2>Citation Claim Entry</h2>
@@ -421,6 +897,10 @@ export default async function AdminPage({ searchParams }: PageProps) {
             Source title (optional)
             <input name="sourceTitle" placeholder="Trial report or publication title" />
           </label>
+          <label className="full-span">
+            Grade rationale (optional)
+            <input name="gradeRationale" placeholder="e.g. Phase 3 randomized controlled trial, 1,200 enrolled" />
+          </label>
           <div className="full-span">
             <button className="btn primary" type="submit">
               Save Citation Claim
@@ -482,6 +962,65 @@ export default async function AdminPage({ searchParams }: PageProps) {
         )}
       </section>
 
+      <section className="card">
+        <div className="section-head">
+          <h2>Content Provenance</h2>
+          <p className="muted">
+            {selectedPeptide
+              ? `Sources behind the generated profile text for ${selectedPeptide.canonicalName}. Verify each excerpt before publishing.`
+              : "Choose a peptide from the left panel to review where its generated text came from."}
+          </p>
+        </div>
+        {!selectedPeptide ? (
+          <p className="empty-state">No peptide selected.</p>
+        ) : selectedPeptideProvenance.length === 0 ? (
+          <p className="empty-state">No provenance recorded. Profile text was written by hand or predates enrichment tracking.</p>
+        ) : (
+          <div className="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Field</th>
+                  <th>Excerpt</th>
+                  <th>Source</th>
+                  <th>Fetched</th>
+                  <th>Generator</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selectedPeptideProvenance.map((record) => (
+                  <tr key={`${record.field}-${record.position}`}>
+                    <td>{PROVENANCE_FIELD_LABELS[record.field]}</td>
+                    <td>{record.excerpt}</td>
+                    <td>
+                      {record.sourceUrl ? (
+                        <a href={record.sourceUrl} target="_blank" rel="noreferrer noopener">
+                          {PROVENANCE_SOURCE_LABELS[record.source]}
+                        </a>
+                      ) : (
+                        PROVENANCE_SOURCE_LABELS[record.source]
+                      )}
+                    </td>
+                    <td>{formatTimestamp(record.fetchedAt)}</td>
+                    <td>
+                      <code>{record.generatorVersion}</code>
+                    </td>
+                    <td>
+                      {selectedPeptideText[record.field].includes(record.excerpt) ? (
+                        <span className="admin-badge published">In current text</span>
+                      ) : (
+                        <span className="admin-badge draft">Edited since generation</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
       <section className="card">
         <div className="section-head">
           <h2>Create Or Edit Vendor</h2>
@@ -600,6 +1139,310 @@ export default async function AdminPage({ searchParams }: PageProps) {
         </article>
       </section>
 
+      <section className="card" id="vendor-rescoring">
+        <div className="section-head">
+          <h2>Vendor Re-Scoring</h2>
+          <p className="muted">
+            Re-score every vendor under a registered scoring version. Candidates are saved next to the current ratings and
+            only go live after promotion.
+          </p>
+        </div>
+        <form action={rescoreVendorsAction} className="form-grid two-col">
+          <label>
+            Scoring version
+            <select name="scoringVersion" defaultValue={data.scoringVersions[0]?.version ?? ""}>
+              {data.scoringVersions.map((strategy) => (
+                <option key={strategy.version} value={strategy.version}>
+                  {strategy.version} - {strategy.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div>
+            <button className="btn primary" type="submit">
+              Re-Score All Vendors
+            </button>
+          </div>
+        </form>
+        {data.scoringVersions.map((strategy) => (
+          <p key={strategy.version} className="muted">
+            <strong>{strategy.version}:</strong> {strategy.description}
+          </p>
+        ))}
+        {data.rescoreBatches.length > 0 ? (
+          <div>
+            {data.rescoreBatches.map((batch) => (
+              <Link
+                key={batch.id}
+                className={`chip chip-link ${batch.id === selectedRescoreBatch?.id ? "active" : ""}`}
+                href={`/admin?rescoreBatch=${encodeURIComponent(batch.id)}#vendor-rescoring`}
+              >
+                {batch.id} ({batch.vendorCount} vendors{batch.promoted ? ", promoted" : ""})
+              </Link>
+            ))}
+          </div>
+        ) : null}
+        {!selectedRescoreBatch ? (
+          <p className="empty-state">No re-score batches yet.</p>
+        ) : (
+          <>
+            <form action={promoteVendorRescoreAction} className="form-grid">
+              <input type="hidden" name="batchId" value={selectedRescoreBatch.id} />
+              <button className="btn primary" type="submit" disabled={selectedRescoreBatch.promoted}>
+                {selectedRescoreBatch.promoted ? "Batch Promoted" : `Promote ${selectedRescoreBatch.scoringVersion} Ratings`}
+              </button>
+            </form>
+            <div className="table-scroll">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Vendor</th>
+                    <th>Current rating</th>
+                    <th>Current method</th>
+                    <th>Candidate rating</th>
+                    <th>Rating change</th>
+                    <th>Confidence change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.rescoreDiffs.map((diff) => (
+                    <tr key={diff.vendorId}>
+                      <td>
+                        {diff.vendorSlug ? <Link href={`/vendors/${diff.vendorSlug}`}>{diff.vendorName}</Link> : diff.vendorName}
+                      </td>
+                      <td>
+                        {formatScore(diff.currentRating, 1)} ({formatScore(diff.currentConfidence, 2)})
+                      </td>
+                      <td>{diff.isPromoted ? "This batch" : diff.currentVersion || "None"}</td>
+                      <td>
+                        {formatScore(diff.candidateRating, 1)} ({formatScore(diff.candidateConfidence, 2)})
+                      </td>
+                      <td>{formatDelta(diff.ratingDelta, 1)}</td>
+                      <td>{formatDelta(diff.confidenceDelta, 2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </section>
+
+      <section className="card" id="api-keys">
+        <div className="section-head">
+          <h2>API Keys</h2>
+          <p className="muted">
+            Keys for the <code>/api/v1</code> endpoints. Only a hash is stored, so a new key is shown once right after
+            it is created.
+          </p>
+        </div>
+        <NewApiKeyNotice apiKey={newApiKey} />
+        <form action={createApiKeyAction} className="form-grid two-col">
+          <label>
+            Label
+            <input name="label" placeholder="Internal analytics dashboard" required />
+          </label>
+          <label>
+            Requests per minute
+            <input name="rateLimitPerMinute" type="number" min={1} defaultValue={DEFAULT_API_KEY_RATE_LIMIT} />
+          </label>
+          <label>
+            Monthly quota
+            <input name="monthlyQuota" type="number" min={1} defaultValue={DEFAULT_API_KEY_MONTHLY_QUOTA} />
+          </label>
+          <div>
+            <button className="btn primary" type="submit">
+              Create API Key
+            </button>
+          </div>
+        </form>
+        {data.apiKeys.length === 0 ? (
+          <p className="empty-state">No API keys issued yet.</p>
+        ) : (
+          <div className="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Label</th>
+                  <th>Key</th>
+                  <th>Limits</th>
+                  <th>This month</th>
+                  <th>By endpoint</th>
+                  <th>Last used</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.apiKeys.map((apiKey) => (
+                  <tr key={apiKey.id}>
+                    <td>{apiKey.label}</td>
+                    <td>
+                      <code>{apiKey.prefix}...</code>
+                    </td>
+                    <td>
+                      {apiKey.rateLimitPerMinute}/min, {apiKey.monthlyQuota}/month
+                    </td>
+                    <td>
+                      {apiKey.monthRequests} / {apiKey.monthlyQuota}
+                    </td>
+                    <td>
+                      {apiKey.endpointUsage.length === 0
+                        ? "None"
+                        : apiKey.endpointUsage.map((entry) => `${entry.endpoint}: ${entry.requests}`).join(", ")}
+                    </td>
+                    <td>{formatTimestamp(apiKey.lastUsedAt)}</td>
+                    <td>
+                      {apiKey.revokedAt ? (
+                        `Revoked ${formatTimestamp(apiKey.revokedAt)}`
+                      ) : (
+                        <form action={revokeApiKeyAction}>
+                          <input type="hidden" name="keyId" value={apiKey.id} />
+                          <button className="btn" type="submit">
+                            Revoke
+                          </button>
+                        </form>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="card" id="bulk-import">
+        <div className="section-head">
+          <h2>Bulk Import</h2>
+          <p className="muted">
+            Upload a CSV or JSON file of peptide seeds. A dry run validates every row and diffs it against the database;
+            nothing is written until the batch is applied, and the apply runs in a single transaction.
+          </p>
+        </div>
+        <form action={dryRunPeptideImportAction} className="form-grid two-col">
+          <label>
+            CSV or JSON file
+            <input name="file" type="file" accept=".csv,.json,text/csv,application/json" required />
+          </label>
+          <div>
+            <button className="btn primary" type="submit">
+              Dry Run Import
+            </button>
+          </div>
+        </form>
+        <p className="muted">
+          CSV columns: <code>{PEPTIDE_IMPORT_CSV_COLUMNS.join(",")}</code>. Separate aliases with <code>|</code>. JSON
+          files use the same fields as nested objects.
+        </p>
+        {data.importBatches.length > 0 ? (
+          <div>
+            {data.importBatches.map((batch) => (
+              <Link
+                key={batch.id}
+                className={`chip chip-link ${batch.id === selectedImportBatch?.id ? "active" : ""}`}
+                href={`/admin?importBatch=${batch.id}#bulk-import`}
+              >
+                #{batch.id} {batch.fileName} ({batch.rowCount} rows
+                {batch.errorCount > 0 ? `, ${batch.errorCount} errors` : ""}
+                {batch.appliedAt ? ", applied" : ""})
+              </Link>
+            ))}
+          </div>
+        ) : null}
+        {!selectedImportBatch ? null : selectedImportBatch.errors.length > 0 ? (
+          <div className="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Field</th>
+                  <th>Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selectedImportBatch.errors.map((error, index) => (
+                  <tr key={`${error.row}-${error.field}-${index}`}>
+                    <td>{error.row > 0 ? error.row : "File"}</td>
+                    <td>
+                      <code>{error.field}</code>
+                    </td>
+                    <td>{error.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <>
+            <form action={applyPeptideImportAction} className="form-grid">
+              <input type="hidden" name="batchId" value={selectedImportBatch.id} />
+              <button className="btn primary" type="submit" disabled={Boolean(selectedImportBatch.appliedAt)}>
+                {selectedImportBatch.appliedAt
+                  ? "Batch Applied"
+                  : `Apply ${selectedImportBatch.diff.length} Rows From ${selectedImportBatch.fileName}`}
+              </button>
+            </form>
+            <div className="table-scroll">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Row</th>
+                    <th>Peptide</th>
+                    <th>Action</th>
+                    <th>Changes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selectedImportBatch.diff.map((entry) => (
+                    <tr key={entry.slug}>
+                      <td>{entry.row}</td>
+                      <td>
+                        <code>{entry.slug}</code>
+                      </td>
+                      <td>{entry.action}</td>
+                      <td>
+                        {entry.changes.length === 0
+                          ? entry.action === "create"
+                            ? "New peptide"
+                            : "No changes"
+                          : entry.changes.map((fieldChange) => (
+                              <p key={fieldChange.field} className="muted">
+                                <strong>{fieldChange.field}:</strong> {fieldChange.before || "(empty)"} &rarr;{" "}
+                                {fieldChange.after || "(empty)"}
+                              </p>
+                            ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </section>
+
+      <section className="card" id="data-export">
+        <div className="section-head">
+          <h2>Data Export</h2>
+          <p className="muted">
+            Published peptides (aliases, statuses, use cases, dosing, safety, claims, citations) and vendors (listings,
+            current ratings). Each download is one fresh snapshot with every file below; the manifest records row
+            counts, file hashes and a content hash. Run <code>npm run export:catalog</code> to write the same files to
+            disk.
+          </p>
+        </div>
+        <div>
+          <a className="chip chip-link" href="/admin/export" download>
+            {CATALOG_EXPORT_BUNDLE}
+          </a>
+          {CATALOG_EXPORT_FILES.map((file) => (
+            <span key={file} className="chip">
+              {file}
+            </span>
+          ))}
+        </div>
+      </section>
+
       <section className="card">
         <div className="section-head">
           <h2>Status Labels</h2>
@@ -0,0 +1,176 @@
+import Link from "next/link";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { requireAdminAuth } from "@/lib/admin-auth";
+import { labelFromSnake } from "@/lib/constants";
+import { formatJobCounters, ingestJobLabel } from "@/lib/ingest-jobs";
+import {
+  formatRunDuration,
+  getIngestRun,
+  listIngestRunItems,
+  type IngestRunItemStatus,
+  type IngestRunStatus,
+  type IngestSourceStatus
+} from "@/lib/ingest-runs";
+import { getSupabaseAdminClient } from "@/lib/supabase-admin";
+
+type SearchValue = string | string[] | undefined;
+type SearchParams = Record<string, SearchValue>;
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<SearchParams | undefined>;
+};
+
+export const metadata: Metadata = {
+  title: "Ingest Run",
+  robots: {
+    index: false,
+    follow: false
+  }
+};
+
+const STATUS_BADGES: Record<IngestRunStatus | IngestRunItemStatus | IngestSourceStatus, string> = {
+  RUNNING: "running",
+  COMPLETED: "published",
+  SUCCEEDED: "published",
+  HIT: "published",
+  SKIPPED: "running",
+  MISS: "running",
+  FAILED: "draft",
+  CANCELLED: "draft"
+};
+
+const ITEM_FILTERS: Array<{ value: IngestRunItemStatus | ""; label: string }> = [
+  { value: "", label: "All items" },
+  { value: "FAILED", label: "Failed" },
+  { value: "SKIPPED", label: "Skipped" },
+  { value: "SUCCEEDED", label: "Succeeded" }
+];
+
+function firstParam(value: SearchValue): string {
+  return Array.isArray(value) ? value[0] ?? "" : value ?? "";
+}
+
+function formatRunTimestamp(value: string | null): string {
+  if (!value) {
+    return "N/A";
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  return date.toLocaleString("en-US", { year: "numeric", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+export default async function AdminIngestRunPage({ params, searchParams }: PageProps) {
+  await requireAdminAuth();
+
+  const { id } = await params;
+  const runId = Number(id);
+  const supabase = getSupabaseAdminClient();
+  if (!supabase || !Number.isFinite(runId) || runId <= 0) {
+    notFound();
+  }
+
+  const resolvedSearchParams = await searchParams;
+  const statusParam = firstParam(resolvedSearchParams?.status);
+  const itemFilter = ITEM_FILTERS.find((filter) => filter.value && filter.value === statusParam)?.value || undefined;
+
+  const run = await getIngestRun(supabase, runId);
+  if (!run) {
+    notFound();
+  }
+  const items = await listIngestRunItems(supabase, run.id, { status: itemFilter });
+
+  return (
+    <div className="admin-shell">
+      <section className="card hero">
+        <div className="admin-header-row">
+          <div>
+            <h1>
+              Run #{run.id}: {ingestJobLabel(run.pipeline)}
+            </h1>
+            <p className="muted">
+              {run.jobId ? <Link href={`/admin?ingestJob=${run.jobId}#ingest-jobs`}>Job #{run.jobId}</Link> : "Script run"} · started{" "}
+              {formatRunTimestamp(run.startedAt)} · {formatRunDuration(run.startedAt, run.finishedAt)}
+            </p>
+          </div>
+          <Link className="btn" href="/admin/runs">
+            All Runs
+          </Link>
+        </div>
+        <div className="meta-row">
+          <span className={`admin-badge ${STATUS_BADGES[run.status]}`}>{labelFromSnake(run.status)}</span>
+          <span className="kpi-pill">{run.status === "RUNNING" ? "In progress" : `${run.itemsTotal} items`}</span>
+          <span className="kpi-pill">{run.itemsFailed} failed</span>
+        </div>
+        <p className="muted">{formatJobCounters(run.counters)}</p>
+        {run.error ? <p className="notice error">{run.error}</p> : null}
+      </section>
+
+      <section className="card">
+        <div className="admin-header-row">
+          <h2>Items</h2>
+          <div className="meta-row">
+            {ITEM_FILTERS.map((filter) => (
+              <Link
+                key={filter.label}
+                className={`btn ${(itemFilter ?? "") === filter.value ? "active" : ""}`}
+                href={filter.value ? `/admin/runs/${run.id}?status=${filter.value}` : `/admin/runs/${run.id}`}
+              >
+                {filter.label}
+              </Link>
+            ))}
+          </div>
+        </div>
+        {items.length === 0 ? (
+          <p className="muted">No items recorded{itemFilter ? ` with status ${labelFromSnake(itemFilter).toLowerCase()}` : ""}.</p>
+        ) : (
+          <div className="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Entity</th>
+                  <th>Status</th>
+                  <th>Sources</th>
+                  <th>Results</th>
+                  <th>Error</th>
+                  <th>Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => (
+                  <tr key={item.id}>
+                    <td>
+                      {item.entityLabel} <code>{item.entityKey}</code>
+                      <p className="muted">{labelFromSnake(item.entityType)}</p>
+                    </td>
+                    <td>
+                      <span className={`admin-badge ${STATUS_BADGES[item.status]}`}>{labelFromSnake(item.status)}</span>
+                    </td>
+                    <td>
+                      {item.sources.length === 0
+                        ? "N/A"
+                        : item.sources.map((source, index) => (
+                            <p key={`${source.source}-${index}`}>
+                              <span className={`admin-badge ${STATUS_BADGES[source.status]}`} title={source.detail}>
+                                {source.source}: {labelFromSnake(source.status)}
+                              </span>
+                              {source.status === "FAILED" && source.detail ? <span className="muted"> {source.detail}</span> : null}
+                            </p>
+                          ))}
+                    </td>
+                    <td>{Object.keys(item.counters).length > 0 ? formatJobCounters(item.counters) : "N/A"}</td>
+                    <td>{item.error ?? ""}</td>
+                    <td>{item.durationMs === null ? "N/A" : `${(item.durationMs / 1000).toFixed(1)}s`}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import Link from "next/link";
+import type { Metadata } from "next";
+import { requireAdminAuth } from "@/lib/admin-auth";
+import { labelFromSnake } from "@/lib/constants";
+import { formatJobCounters, ingestJobLabel, INGEST_JOB_KINDS } from "@/lib/ingest-jobs";
+import { formatRunDuration, INGEST_RUN_STATUSES, listIngestRuns, type IngestRun, type IngestRunStatus } from "@/lib/ingest-runs";
+import { getSupabaseAdminClient } from "@/lib/supabase-admin";
+
+type SearchValue = string | string[] | undefined;
+type SearchParams = Record<string, SearchValue>;
+
+type PageProps = {
+  searchParams: Promise<SearchParams | undefined>;
+};
+
+export const metadata: Metadata = {
+  title: "Ingest Runs",
+  alternates: {
+    canonical: "/admin/runs"
+  },
+  robots: {
+    index: false,
+    follow: false
+  }
+};
+
+const SINCE_WINDOWS: Record<string, { label: string; hours: number }> = {
+  "24h": { label: "Last 24 hours", hours: 24 },
+  "7d": { label: "Last 7 days", hours: 24 * 7 },
+  "30d": { label: "Last 30 days", hours: 24 * 30 }
+};
+
+const RUN_STATUS_BADGES: Record<IngestRunStatus, string> = {
+  RUNNING: "running",
+  COMPLETED: "published",
+  FAILED: "draft",
+  CANCELLED: "draft"
+};
+
+function firstParam(value: SearchValue): string {
+  return Array.isArray(value) ? value[0] ?? "" : value ?? "";
+}
+
+function formatRunTimestamp(value: string | null): string {
+  if (!value) {
+    return "N/A";
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  return date.toLocaleString("en-US", { year: "numeric", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+export default async function AdminIngestRunsPage({ searchParams }: PageProps) {
+  await requireAdminAuth();
+
+  const resolvedSearchParams = await searchParams;
+  const pipeline = firstParam(resolvedSearchParams?.pipeline);
+  const statusParam = firstParam(resolvedSearchParams?.status);
+  const status = INGEST_RUN_STATUSES.includes(statusParam as IngestRunStatus) ? (statusParam as IngestRunStatus) : undefined;
+  const failuresOnly = firstParam(resolvedSearchParams?.failures) === "1";
+  const sinceKey = firstParam(resolvedSearchParams?.since);
+  const sinceWindow = SINCE_WINDOWS[sinceKey];
+  const since = sinceWindow ? new Date(Date.now() - sinceWindow.hours * 3_600_000).toISOString() : undefined;
+
+  const supabase = getSupabaseAdminClient();
+  let runs: IngestRun[] = [];
+  let loadError = "";
+  if (supabase) {
+    try {
+      runs = await listIngestRuns(supabase, { pipeline: pipeline || undefined, status, failuresOnly, since, limit: 100 });
+    } catch (error) {
+      loadError = error instanceof Error ? error.message : "Failed to load ingest runs.";
+    }
+  }
+
+  return (
+    <div className="admin-shell">
+      <section className="card hero">
+        <div className="admin-header-row">
+          <div>
+            <h1>Ingest Runs</h1>
+            <p className="muted">
+              Every ingest pass, queued or run from a script, with the entities it touched and the sources that failed.
+            </p>
+          </div>
+          <Link className="btn" href="/admin#ingest-jobs">
+            Back to Admin
+          </Link>
+        </div>
+        {!supabase ? (
+          <p className="notice error">
+            Missing server setup: add <code>SUPABASE_SERVICE_ROLE_KEY</code> before run history is available.
+          </p>
+        ) : null}
+        {loadError ? <p className="notice error">{loadError}</p> : null}
+      </section>
+
+      <section className="card">
+        <form action="/admin/runs" method="get" className="grid two">
+          <label>
+            Pipeline
+            <select name="pipeline" defaultValue={pipeline}>
+              <option value="">All</option>
+              {INGEST_JOB_KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {ingestJobLabel(kind)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Status
+            <select name="status" defaultValue={status ?? ""}>
+              <option value="">All</option>
+              {INGEST_RUN_STATUSES.map((value) => (
+                <option key={value} value={value}>
+                  {labelFromSnake(value)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Started
+            <select name="since" defaultValue={sinceWindow ? sinceKey : ""}>
+              <option value="">Any time</option>
+              {Object.entries(SINCE_WINDOWS).map(([key, window]) => (
+                <option key={key} value={key}>
+                  {window.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="checkbox-row">
+            <input name="failures" type="checkbox" value="1" defaultChecked={failuresOnly} />
+            Only runs with failed items
+          </label>
+          <div>
+            <button className="btn primary" type="submit">
+              Filter
+            </button>
+          </div>
+        </form>
+      </section>
+
+      <section className="card">
+        {runs.length === 0 ? (
+          <p className="muted">No ingest runs match these filters.</p>
+        ) : (
+          <div className="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Run</th>
+                  <th>Status</th>
+                  <th>Items</th>
+                  <th>Results</th>
+                  <th>Started</th>
+                  <th>Duration</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => (
+                  <tr key={run.id}>
+                    <td>
+                      <Link className="subtle-link" href={`/admin/runs/${run.id}`}>
+                        #{run.id} {ingestJobLabel(run.pipeline)}
+                      </Link>
+                      <p className="muted">
+                        {run.jobId ? (
+                          <Link href={`/admin?ingestJob=${run.jobId}#ingest-jobs`}>Job #{run.jobId}</Link>
+                        ) : (
+                          labelFromSnake(run.trigger)
+                        )}
+                      </p>
+                    </td>
+                    <td>
+                      <span className={`admin-badge ${RUN_STATUS_BADGES[run.status]}`}>{labelFromSnake(run.status)}</span>
+                      {run.error ? <p className="muted">{run.error}</p> : null}
+                    </td>
+                    <td>
+                      {run.status === "RUNNING" ? "In progress" : run.itemsTotal}
+                      {run.itemsFailed > 0 ? (
+                        <>
+                          {" "}
+                          (<Link href={`/admin/runs/${run.id}?status=FAILED`}>{run.itemsFailed} failed</Link>)
+                        </>
+                      ) : null}
+                    </td>
+                    <td>{formatJobCounters(run.counters)}</td>
+                    <td>{formatRunTimestamp(run.startedAt)}</td>
+                    <td>{formatRunDuration(run.startedAt, run.finishedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
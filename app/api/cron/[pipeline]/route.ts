@@ -0,0 +1,68 @@
+import { formatJobCounters } from "@/lib/ingest-jobs";
+import { findIngestSchedule, runScheduledIngest } from "@/lib/ingest-schedule";
+import { getJobQueue } from "@/lib/job-queue";
+import { getSupabaseAdminClient } from "@/lib/supabase-admin";
+
+type RouteContext = {
+  params: Promise<{ pipeline: string }>;
+};
+
+// runScheduledIngest stops starting chunks well before this.
+export const maxDuration = 300;
+
+// Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`; any other scheduler can do the same.
+function isAuthorized(request: Request): boolean {
+  const configuredSecret = process.env.CRON_SECRET?.trim();
+  if (!configuredSecret) {
+    return false;
+  }
+
+  const header = request.headers.get("authorization")?.trim() ?? "";
+  if (!header.toLowerCase().startsWith("bearer ")) {
+    return false;
+  }
+
+  const token = header.slice(7).trim();
+  return token.length > 0 && token === configuredSecret;
+}
+
+async function handle(request: Request, params: RouteContext["params"]) {
+  if (!isAuthorized(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const schedule = findIngestSchedule((await params).pipeline);
+  if (!schedule) {
+    return Response.json({ error: "Unknown ingest pipeline." }, { status: 404 });
+  }
+
+  const supabase = getSupabaseAdminClient();
+  if (!supabase) {
+    return Response.json({ error: "Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY." }, { status: 503 });
+  }
+
+  try {
+    const result = await runScheduledIngest(supabase, getJobQueue(supabase), schedule);
+    return Response.json(
+      {
+        ...result,
+        job: result.job ? { ...result.job, summary: formatJobCounters(result.job.counters) } : null
+      },
+      // 409: the previous run of this pipeline still holds the lock, so nothing ran.
+      { status: result.status === "LOCKED" ? 409 : 200, headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Scheduled ingest failed.";
+    return Response.json({ error: message }, { status: 500 });
+  }
+}
+
+// Vercel Cron invokes GET.
+export async function GET(request: Request, { params }: RouteContext) {
+  return handle(request, params);
+}
+
+// Same run, for schedulers or manual triggers that prefer POST.
+export async function POST(request: Request, { params }: RouteContext) {
+  return handle(request, params);
+}
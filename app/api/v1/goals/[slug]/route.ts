@@ -0,0 +1,34 @@
+import { buildHealthGoalCards, HEALTH_GOAL_DEFINITIONS } from "@/lib/health-goals";
+import { apiError, apiJson, authorizeApiRequest, paginate } from "@/lib/public-api";
+import { listPeptides } from "@/lib/repository";
+
+type RouteContext = {
+  params: Promise<{ slug: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorizeApiRequest(request, "/api/v1/goals/[slug]");
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { slug } = await params;
+  const peptides = await listPeptides();
+  const goalCard = buildHealthGoalCards(peptides, HEALTH_GOAL_DEFINITIONS.length, peptides.length).find(
+    (entry) => entry.slug === slug
+  );
+  if (!goalCard) {
+    return apiError(404, "Goal not found.", auth.headers);
+  }
+
+  const { peptides: goalPeptides, ...goal } = goalCard;
+  const { searchParams } = new URL(request.url);
+  return apiJson(
+    request,
+    {
+      goal,
+      ...paginate(goalPeptides, searchParams)
+    },
+    auth.headers
+  );
+}
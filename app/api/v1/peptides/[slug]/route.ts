@@ -0,0 +1,21 @@
+import { apiError, apiJson, authorizeApiRequest } from "@/lib/public-api";
+import { getPeptideDetail } from "@/lib/repository";
+
+type RouteContext = {
+  params: Promise<{ slug: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorizeApiRequest(request, "/api/v1/peptides/[slug]");
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { slug } = await params;
+  const peptide = await getPeptideDetail(slug);
+  if (!peptide) {
+    return apiError(404, "Peptide not found.", auth.headers);
+  }
+
+  return apiJson(request, { data: peptide }, auth.headers);
+}
@@ -0,0 +1,29 @@
+import { filterPeptides, orderBySearchHits, parsePeptideFilters } from "@/lib/filtering";
+import { apiJson, authorizeApiRequest, paginate, searchParamsToRecord } from "@/lib/public-api";
+import { listPeptides, searchPeptides } from "@/lib/repository";
+
+export async function GET(request: Request) {
+  const auth = await authorizeApiRequest(request, "/api/v1/peptides");
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const filters = parsePeptideFilters(searchParamsToRecord(searchParams));
+  const peptides = await listPeptides();
+  // Every hit, not the engine's default page: the filters and paginate() below work on the full list.
+  const search = filters.q ? await searchPeptides(filters.q, peptides.length) : null;
+  const filtered = search
+    ? orderBySearchHits(filterPeptides(peptides, { ...filters, q: "" }), search.hits)
+    : filterPeptides(peptides, filters);
+
+  return apiJson(
+    request,
+    {
+      ...paginate(filtered, searchParams),
+      filters,
+      suggestion: search?.suggestion ?? null
+    },
+    auth.headers
+  );
+}
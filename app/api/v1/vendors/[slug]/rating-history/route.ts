@@ -0,0 +1,43 @@
+import { apiError, apiJson, authorizeApiRequest } from "@/lib/public-api";
+import { getVendorRatingHistory } from "@/lib/repository";
+
+type RouteContext = {
+  params: Promise<{ slug: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorizeApiRequest(request, "/api/v1/vendors/[slug]/rating-history");
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { slug } = await params;
+  const history = await getVendorRatingHistory(slug);
+  if (!history) {
+    return apiError(404, "Vendor not found.", auth.headers);
+  }
+
+  return apiJson(
+    request,
+    {
+      vendor: { slug: history.slug, name: history.name },
+      trend: history.trend,
+      series: history.points.map((point) => ({
+        at: point.calculatedAt,
+        rating: point.rating,
+        confidence: point.confidence
+      })),
+      changes: history.points.map((point) => ({
+        at: point.calculatedAt,
+        ratingChange: point.ratingChange,
+        confidenceChange: point.confidenceChange,
+        addedReasonTags: point.addedReasonTags,
+        removedReasonTags: point.removedReasonTags,
+        methodVersion: point.methodVersion,
+        scoringVersion: point.scoringVersion,
+        isCurrent: point.isCurrent
+      }))
+    },
+    auth.headers
+  );
+}
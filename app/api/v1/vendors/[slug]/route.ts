@@ -0,0 +1,21 @@
+import { apiError, apiJson, authorizeApiRequest } from "@/lib/public-api";
+import { getVendorDetail } from "@/lib/repository";
+
+type RouteContext = {
+  params: Promise<{ slug: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authorizeApiRequest(request, "/api/v1/vendors/[slug]");
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { slug } = await params;
+  const vendor = await getVendorDetail(slug);
+  if (!vendor) {
+    return apiError(404, "Vendor not found.", auth.headers);
+  }
+
+  return apiJson(request, { data: vendor }, auth.headers);
+}
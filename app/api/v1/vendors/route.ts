@@ -0,0 +1,23 @@
+import { filterVendors, parseVendorFilters } from "@/lib/filtering";
+import { apiJson, authorizeApiRequest, paginate, searchParamsToRecord } from "@/lib/public-api";
+import { listVendors } from "@/lib/repository";
+
+export async function GET(request: Request) {
+  const auth = await authorizeApiRequest(request, "/api/v1/vendors");
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const filters = parseVendorFilters(searchParamsToRecord(searchParams));
+  const vendors = await listVendors();
+
+  return apiJson(
+    request,
+    {
+      ...paginate(filterVendors(vendors, filters), searchParams),
+      filters
+    },
+    auth.headers
+  );
+}
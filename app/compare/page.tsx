@@ -0,0 +1,287 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import type { ReactNode } from "react";
+import { Breadcrumbs } from "@/app/components/breadcrumbs";
+import { StarRating } from "@/app/components/star-rating";
+import { MAX_COMPARE_PEPTIDES, buildComparePath, canonicalComparePath, parseCompareSlugs } from "@/lib/compare";
+import { DOSING_CONTEXTS, JURISDICTIONS, labelFromSnake } from "@/lib/constants";
+import { capitalizeLeadingLetter } from "@/lib/display-format";
+import { regulatoryRecordFor, regulatoryStatusLabel } from "@/lib/regulatory-status";
+import { getPeptideDetail } from "@/lib/repository";
+import { absoluteUrl, safeJsonLd } from "@/lib/seo";
+import { formatDoseAmount, formatInterval, structuredDosing } from "@/lib/structured-dosing";
+import type { DosingEntry, PeptideDetail, SafetyProfile, VendorCard } from "@/lib/types";
+
+type SearchValue = string | string[] | undefined;
+type SearchParams = Record<string, SearchValue>;
+
+type PageProps = {
+  searchParams: Promise<SearchParams | undefined>;
+};
+
+type CompareRow = {
+  label: string;
+  cells: ReactNode[];
+};
+
+type CompareGroup = {
+  title: string;
+  rows: CompareRow[];
+};
+
+const SAFETY_FIELDS: Array<{ key: keyof SafetyProfile; label: string }> = [
+  { key: "adverseEffects", label: "Adverse effects" },
+  { key: "contraindications", label: "Contraindications" },
+  { key: "interactions", label: "Interactions" },
+  { key: "monitoring", label: "Monitoring" }
+];
+
+async function loadComparedPeptides(searchParams?: SearchParams): Promise<PeptideDetail[]> {
+  const slugs = parseCompareSlugs(searchParams?.peptides);
+  const peptides = await Promise.all(slugs.map((slug) => getPeptideDetail(slug)));
+  return peptides.filter((peptide): peptide is PeptideDetail => peptide !== null);
+}
+
+function emptyCell(): ReactNode {
+  return <span className="muted">Not listed</span>;
+}
+
+function bestRatedVendor(vendors: VendorCard[]): VendorCard | null {
+  return vendors
+    .filter((vendor) => vendor.rating !== null)
+    .sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0) || a.name.localeCompare(b.name))[0] ?? null;
+}
+
+function formatDosingEntry(entry: DosingEntry): string {
+  const structured = structuredDosing(entry);
+  const { unit } = structured;
+  if (!unit || (structured.startingAmount === null && structured.maintenanceAmount === null)) {
+    return `${entry.route}: ${entry.startingDose} → ${entry.maintenanceDose}, ${entry.frequency} (${entry.population})`;
+  }
+  // Normalized amounts keep mg and mcg rows comparable across peptides.
+  const amount = (value: number | null) => (value === null ? "?" : formatDoseAmount(value, unit));
+  const route = structured.route ? labelFromSnake(structured.route) : entry.route;
+  const interval = structured.intervalDays !== null ? formatInterval(structured.intervalDays).toLowerCase() : entry.frequency;
+  const max = structured.maxAmount !== null ? `, max ${amount(structured.maxAmount)}` : "";
+  return `${route}: ${amount(structured.startingAmount)} → ${amount(structured.maintenanceAmount)}${max}, ${interval} (${entry.population})`;
+}
+
+function buildCompareGroups(peptides: PeptideDetail[]): CompareGroup[] {
+  const useCases = Array.from(new Set(peptides.flatMap((peptide) => peptide.useCaseEvidence.map((entry) => entry.useCase)))).sort(
+    (a, b) => a.localeCompare(b)
+  );
+
+  return [
+    {
+      title: "Overview",
+      rows: [
+        { label: "Class", cells: peptides.map((peptide) => peptide.className) },
+        { label: "Overall evidence grade", cells: peptides.map((peptide) => `Grade ${peptide.evidenceGrade}`) }
+      ]
+    },
+    {
+      title: "Regulatory status",
+      rows: JURISDICTIONS.map((jurisdiction) => ({
+        label: jurisdiction,
+        cells: peptides.map((peptide) =>
+          regulatoryStatusLabel(
+            regulatoryRecordFor(peptide.regulatoryStatuses, jurisdiction, peptide.statusByJurisdiction[jurisdiction])
+          )
+        )
+      }))
+    },
+    {
+      title: "Evidence by use case",
+      rows: useCases.map((useCase) => ({
+        label: useCase,
+        cells: peptides.map((peptide) => {
+          const entry = peptide.useCaseEvidence.find((candidate) => candidate.useCase === useCase);
+          return entry ? `Grade ${entry.evidenceGrade}` : emptyCell();
+        })
+      }))
+    },
+    {
+      title: "Routes",
+      rows: [
+        {
+          label: "Routes",
+          cells: peptides.map((peptide) => (peptide.routes.length > 0 ? peptide.routes.join(", ") : emptyCell()))
+        }
+      ]
+    },
+    {
+      title: "Dosing",
+      rows: DOSING_CONTEXTS.map((context) => ({
+        label: labelFromSnake(context),
+        cells: peptides.map((peptide) => {
+          const entries = peptide.dosing.filter((entry) => entry.context === context);
+          if (entries.length === 0) {
+            return emptyCell();
+          }
+          return (
+            <ul>
+              {entries.map((entry, index) => (
+                <li key={`${context}-${index}`}>{formatDosingEntry(entry)}</li>
+              ))}
+            </ul>
+          );
+        })
+      }))
+    },
+    {
+      title: "Safety",
+      rows: SAFETY_FIELDS.map((field) => ({
+        label: field.label,
+        cells: peptides.map((peptide) => peptide.safety[field.key] || emptyCell())
+      }))
+    },
+    {
+      title: "Vendors",
+      rows: [
+        { label: "Listed vendors", cells: peptides.map((peptide) => String(peptide.vendors.length)) },
+        {
+          label: "Best-rated vendor",
+          cells: peptides.map((peptide) => {
+            const vendor = bestRatedVendor(peptide.vendors);
+            if (!vendor) {
+              return emptyCell();
+            }
+            return (
+              <>
+                <Link href={`/vendors/${vendor.slug}`}>{vendor.name}</Link>{" "}
+                <StarRating rating={vendor.rating} idPrefix={`compare-${peptide.slug}-${vendor.slug}`} />
+              </>
+            );
+          })
+        }
+      ]
+    }
+  ];
+}
+
+export async function generateMetadata({ searchParams }: PageProps): Promise<Metadata> {
+  const peptides = await loadComparedPeptides(await searchParams);
+  const names = peptides.map((peptide) => capitalizeLeadingLetter(peptide.name));
+  const canonical = canonicalComparePath(peptides.map((peptide) => peptide.slug));
+  const title = names.length > 0 ? `Compare ${names.join(" vs ")}` : "Compare Peptides";
+  const description =
+    names.length > 0
+      ? `Side-by-side comparison of ${names.join(", ")}: regulatory status, evidence by use case, dosing context, safety, and vendors.`
+      : `Compare up to ${MAX_COMPARE_PEPTIDES} peptides side by side.`;
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical
+    },
+    openGraph: {
+      type: "website",
+      url: absoluteUrl(canonical),
+      title: `${title} | PeptideDB`,
+      description
+    },
+    robots: peptides.length > 1 ? { index: true, follow: true } : { index: false, follow: true }
+  };
+}
+
+export default async function ComparePage({ searchParams }: PageProps) {
+  const resolvedSearchParams = await searchParams;
+  const requestedSlugs = parseCompareSlugs(resolvedSearchParams?.peptides);
+  const peptides = await loadComparedPeptides(resolvedSearchParams);
+  const missingSlugs = requestedSlugs.filter((slug) => !peptides.some((peptide) => peptide.slug === slug));
+  const groups = buildCompareGroups(peptides);
+  const canonical = canonicalComparePath(peptides.map((peptide) => peptide.slug));
+
+  const structuredData = {
+    "@context": "https://schema.org",
+    "@type": "WebPage",
+    name: "Peptide Comparison",
+    url: absoluteUrl(canonical),
+    mainEntity: {
+      "@type": "ItemList",
+      numberOfItems: peptides.length,
+      itemListElement: peptides.map((peptide, index) => ({
+        "@type": "ListItem",
+        position: index + 1,
+        url: absoluteUrl(`/peptides/${peptide.slug}`),
+        name: capitalizeLeadingLetter(peptide.name)
+      }))
+    }
+  };
+
+  return (
+    <div className="grid">
+      <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: safeJsonLd(structuredData) }} />
+      <Breadcrumbs items={[{ label: "Home", href: "/" }, { label: "Peptides", href: "/peptides" }, { label: "Compare" }]} />
+      <section className="card">
+        <h1>Compare Peptides</h1>
+        <p className="muted">
+          Side-by-side view of up to {MAX_COMPARE_PEPTIDES} peptides. Use &quot;Add to compare&quot; on the directory or a
+          peptide page to build a comparison.
+        </p>
+        {missingSlugs.length > 0 ? (
+          <p className="muted">Not found: {missingSlugs.join(", ")}</p>
+        ) : null}
+        <div>
+          {peptides.map((peptide) => (
+            <Link
+              key={peptide.slug}
+              href={buildComparePath(peptides.filter((entry) => entry.slug !== peptide.slug).map((entry) => entry.slug))}
+              className="chip chip-link"
+            >
+              Remove {capitalizeLeadingLetter(peptide.name)}
+            </Link>
+          ))}
+        </div>
+      </section>
+
+      {peptides.length === 0 ? (
+        <section className="card">
+          <p className="empty-state">
+            No peptides selected. Browse the <Link href="/peptides">peptide directory</Link> to pick some.
+          </p>
+        </section>
+      ) : (
+        <section className="card">
+          <div className="table-scroll">
+            <table className="compare-table">
+              <thead>
+                <tr>
+                  <th scope="col">Field</th>
+                  {peptides.map((peptide) => (
+                    <th key={peptide.slug} scope="col">
+                      <Link href={`/peptides/${peptide.slug}`}>{capitalizeLeadingLetter(peptide.name)}</Link>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              {groups
+                .filter((group) => group.rows.length > 0)
+                .map((group) => (
+                  <tbody key={group.title}>
+                    <tr className="group-row">
+                      <th scope="rowgroup" colSpan={peptides.length + 1}>
+                        {group.title}
+                      </th>
+                    </tr>
+                    {group.rows.map((row) => (
+                      <tr key={`${group.title}-${row.label}`}>
+                        <th scope="row">{row.label}</th>
+                        {row.cells.map((cell, index) => (
+                          <td key={`${row.label}-${peptides[index]?.slug ?? index}`}>{cell}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                ))}
+            </table>
+          </div>
+          <p className="muted">
+            Educational reference only. Dosing rows reflect their documented context and are not treatment guidance.
+          </p>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { MAX_COMPARE_PEPTIDES, buildComparePath, parseCompareSlugs, toggleCompareSlug } from "@/lib/compare";
+
+const COMPARE_STORAGE_KEY = "compare:peptides";
+const COMPARE_CHANGE_EVENT = "compare:change";
+
+type CompareToggleProps = {
+  slug: string;
+};
+
+function readSelection(): string[] {
+  try {
+    return parseCompareSlugs(localStorage.getItem(COMPARE_STORAGE_KEY) ?? "");
+  } catch {
+    return [];
+  }
+}
+
+function writeSelection(slugs: string[]) {
+  try {
+    localStorage.setItem(COMPARE_STORAGE_KEY, slugs.join(","));
+  } catch {
+    // Ignore storage failures in restricted browser contexts.
+  }
+  window.dispatchEvent(new Event(COMPARE_CHANGE_EVENT));
+}
+
+export function CompareToggle({ slug }: CompareToggleProps) {
+  const [selection, setSelection] = useState<string[]>([]);
+
+  useEffect(() => {
+    const sync = () => setSelection(readSelection());
+    sync();
+    window.addEventListener(COMPARE_CHANGE_EVENT, sync);
+    window.addEventListener("storage", sync);
+    return () => {
+      window.removeEventListener(COMPARE_CHANGE_EVENT, sync);
+      window.removeEventListener("storage", sync);
+    };
+  }, []);
+
+  const isSelected = selection.includes(slug);
+
+  return (
+    <div className="compare-toggle">
+      <button
+        type="button"
+        className={isSelected ? "chip chip-link active" : "chip chip-link"}
+        aria-pressed={isSelected}
+        title={`Compare up to ${MAX_COMPARE_PEPTIDES} peptides side by side`}
+        onClick={() => writeSelection(toggleCompareSlug(readSelection(), slug))}
+      >
+        {isSelected ? "Added to compare" : "Add to compare"}
+      </button>
+      {isSelected && selection.length > 1 ? (
+        <Link href={buildComparePath(selection)} className="chip chip-link">
+          Compare {selection.length} peptides
+        </Link>
+      ) : null}
+    </div>
+  );
+}
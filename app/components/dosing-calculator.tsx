@@ -0,0 +1,176 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { DOSE_UNITS, DOSING_DISCLAIMER, labelFromSnake } from "@/lib/constants";
+import { buildTitrationCalendar, calculateReconstitution } from "@/lib/dosing-calculator";
+import { formatDoseAmount, formatInterval } from "@/lib/structured-dosing";
+import type { DoseUnit, DosingEntry, StructuredDosing } from "@/lib/types";
+
+type DosingCalculatorProps = {
+  entry: DosingEntry & { structured: StructuredDosing };
+  framing: "APPROVED_LABEL" | "STUDY_REPORTED";
+};
+
+function parseInput(value: string): number {
+  return value.trim() ? Number(value) : Number.NaN;
+}
+
+function formatNumber(value: number, digits = 2): string {
+  return String(Number(value.toFixed(digits)));
+}
+
+export function DosingCalculator({ entry, framing }: DosingCalculatorProps) {
+  const { structured } = entry;
+  const defaultUnit: DoseUnit = structured.unit ?? "mg";
+  const [vialAmount, setVialAmount] = useState("");
+  const [vialUnit, setVialUnit] = useState<DoseUnit>(defaultUnit);
+  const [diluentMl, setDiluentMl] = useState("");
+  const [doseAmount, setDoseAmount] = useState(structured.startingAmount !== null ? String(structured.startingAmount) : "");
+  const [doseUnit, setDoseUnit] = useState<DoseUnit>(defaultUnit);
+
+  const hasInput = vialAmount.trim() !== "" && diluentMl.trim() !== "" && doseAmount.trim() !== "";
+  const result = hasInput
+    ? calculateReconstitution({
+        vialAmount: parseInput(vialAmount),
+        vialUnit,
+        diluentMl: parseInput(diluentMl),
+        doseAmount: parseInput(doseAmount),
+        doseUnit
+      })
+    : null;
+  const calendar = structured.unit ? buildTitrationCalendar(structured.titration) : [];
+  const sourceLabel = framing === "APPROVED_LABEL" ? "approved label" : "study-reported";
+
+  return (
+    <div className="dosing-calculator">
+      {framing === "STUDY_REPORTED" ? (
+        <p className="calculator-framing">
+          Study-reported dosing only. These figures describe what was used in research protocols for{" "}
+          {entry.population.toLowerCase()}; they are not an approved or recommended regimen.
+        </p>
+      ) : null}
+      <p className="muted">
+        Based on the {sourceLabel} entry: {entry.startingDose}
+        {entry.maintenanceDose ? `; ${entry.maintenanceDose}` : ""} (
+        {structured.intervalDays !== null ? formatInterval(structured.intervalDays) : entry.frequency}).
+      </p>
+
+      <h3>Reconstitution</h3>
+      <div className="form-grid two-col">
+        <label>
+          Vial size
+          <span className="calculator-input">
+            <input
+              type="number"
+              min="0"
+              step="any"
+              inputMode="decimal"
+              value={vialAmount}
+              onChange={(event) => setVialAmount(event.target.value)}
+            />
+            <select value={vialUnit} onChange={(event) => setVialUnit(event.target.value as DoseUnit)}>
+              {DOSE_UNITS.map((unit) => (
+                <option key={unit} value={unit}>
+                  {unit}
+                </option>
+              ))}
+            </select>
+          </span>
+        </label>
+        <label>
+          Diluent volume (mL)
+          <input
+            type="number"
+            min="0"
+            step="any"
+            inputMode="decimal"
+            value={diluentMl}
+            onChange={(event) => setDiluentMl(event.target.value)}
+          />
+        </label>
+        <label>
+          Target dose
+          <span className="calculator-input">
+            <input
+              type="number"
+              min="0"
+              step="any"
+              inputMode="decimal"
+              value={doseAmount}
+              onChange={(event) => setDoseAmount(event.target.value)}
+            />
+            <select value={doseUnit} onChange={(event) => setDoseUnit(event.target.value as DoseUnit)}>
+              {DOSE_UNITS.map((unit) => (
+                <option key={unit} value={unit}>
+                  {unit}
+                </option>
+              ))}
+            </select>
+          </span>
+        </label>
+      </div>
+
+      {result === null ? (
+        <p className="empty-state">Enter vial size, diluent volume and target dose to calculate.</p>
+      ) : result.ok ? (
+        <dl className="calculator-results" aria-live="polite">
+          <div>
+            <dt>Concentration</dt>
+            <dd>{formatDoseAmount(result.concentrationPerMl, result.concentrationUnit)} per mL</dd>
+          </div>
+          <div>
+            <dt>Injection volume</dt>
+            <dd>
+              {formatNumber(result.injectionMl, 3)} mL = {formatNumber(result.syringeUnits, 1)} units on a U-100 syringe
+            </dd>
+          </div>
+          <div>
+            <dt>Doses per vial</dt>
+            <dd>{result.dosesPerVial}</dd>
+          </div>
+        </dl>
+      ) : (
+        <p className="empty-state" role="alert">
+          {result.error}
+        </p>
+      )}
+
+      {calendar.length > 0 && structured.unit ? (
+        <>
+          <h3>Week-by-week titration ({labelFromSnake(framing)})</h3>
+          <div className="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Week</th>
+                  <th>Step</th>
+                  <th>Dose</th>
+                </tr>
+              </thead>
+              <tbody>
+                {calendar.map((week, index) => (
+                  <tr key={`${week.step}-${week.week ?? "open"}-${index}`}>
+                    <td>
+                      {week.week === null
+                        ? "After previous step"
+                        : week.openEnded
+                          ? `Week ${week.week} onward`
+                          : `Week ${week.week}`}
+                    </td>
+                    <td>{week.step}</td>
+                    <td>{formatDoseAmount(week.amount, structured.unit ?? "mg")}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : null}
+
+      <p className="muted">
+        {DOSING_DISCLAIMER} See <Link href="/disclaimer">Disclaimer</Link>.
+      </p>
+    </div>
+  );
+}
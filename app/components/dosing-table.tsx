@@ -0,0 +1,152 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { DOSING_CONTEXTS, labelFromSnake } from "@/lib/constants";
+import { doseInUnit, formatDoseAmount, formatInterval } from "@/lib/structured-dosing";
+import type { DoseUnit, DosingEntry, StructuredDosing } from "@/lib/types";
+
+type StructuredDosingEntry = DosingEntry & { structured: StructuredDosing };
+
+type DosingTableProps = {
+  entries: StructuredDosingEntry[];
+};
+
+type SortKey = "context" | "starting" | "maintenance" | "max";
+type UnitChoice = "source" | "mg" | "mcg";
+
+const SORT_OPTIONS: Array<{ value: SortKey; label: string }> = [
+  { value: "context", label: "Context" },
+  { value: "starting", label: "Starting dose" },
+  { value: "maintenance", label: "Maintenance dose" },
+  { value: "max", label: "Maximum dose" }
+];
+
+function amountFor(entry: StructuredDosingEntry, key: SortKey): number | null {
+  const { structured } = entry;
+  if (key === "starting") {
+    return structured.startingAmount;
+  }
+  if (key === "maintenance") {
+    return structured.maintenanceAmount;
+  }
+  if (key === "max") {
+    return structured.maxAmount;
+  }
+  return null;
+}
+
+// Mass doses sort together in milligrams; IU and unparsed rows cannot be compared and go last.
+function sortValue(entry: StructuredDosingEntry, key: SortKey): number {
+  const amount = amountFor(entry, key);
+  if (entry.structured.unit === "IU") {
+    return amount === null ? Number.POSITIVE_INFINITY : Number.MAX_SAFE_INTEGER + amount;
+  }
+  return doseInUnit(amount, entry.structured.unit, "mg") ?? Number.POSITIVE_INFINITY;
+}
+
+function DoseCell({ amount, unit, raw, display }: { amount: number | null; unit: DoseUnit | null; raw: string; display: UnitChoice }) {
+  if (amount === null || !unit) {
+    return <>{raw || <span className="muted">Not listed</span>}</>;
+  }
+  const targetUnit = display === "source" ? unit : display;
+  const converted = doseInUnit(amount, unit, targetUnit);
+  return (
+    <>
+      <strong>{converted === null ? formatDoseAmount(amount, unit) : formatDoseAmount(converted, targetUnit)}</strong>
+      {raw ? <span className="dosing-raw muted">{raw}</span> : null}
+    </>
+  );
+}
+
+export function DosingTable({ entries }: DosingTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("context");
+  const [display, setDisplay] = useState<UnitChoice>("source");
+
+  const rows = useMemo(() => {
+    const indexed = entries.map((entry, index) => ({ entry, index }));
+    return indexed
+      .sort((a, b) => {
+        if (sortKey === "context") {
+          return DOSING_CONTEXTS.indexOf(a.entry.context) - DOSING_CONTEXTS.indexOf(b.entry.context) || a.index - b.index;
+        }
+        return sortValue(a.entry, sortKey) - sortValue(b.entry, sortKey) || a.index - b.index;
+      })
+      .map((row) => row.entry);
+  }, [entries, sortKey]);
+
+  return (
+    <>
+      <div className="dosing-controls">
+        <label>
+          Sort by
+          <select value={sortKey} onChange={(event) => setSortKey(event.target.value as SortKey)}>
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Show doses in
+          <select value={display} onChange={(event) => setDisplay(event.target.value as UnitChoice)}>
+            <option value="source">Source units</option>
+            <option value="mg">mg</option>
+            <option value="mcg">mcg</option>
+          </select>
+        </label>
+      </div>
+      <div className="table-scroll">
+        <table>
+          <thead>
+            <tr>
+              <th>Context</th>
+              <th>Population</th>
+              <th>Route</th>
+              <th>Start</th>
+              <th>Maintenance</th>
+              <th>Maximum</th>
+              <th>Frequency</th>
+              <th>Parsed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((entry, index) => {
+              const { structured } = entry;
+              return (
+                <tr key={`${entry.context}-${entry.population}-${index}`}>
+                  <td>{labelFromSnake(entry.context)}</td>
+                  <td>{entry.population}</td>
+                  <td>{structured.route ? labelFromSnake(structured.route) : entry.route}</td>
+                  <td>
+                    <DoseCell amount={structured.startingAmount} unit={structured.unit} raw={entry.startingDose} display={display} />
+                  </td>
+                  <td>
+                    <DoseCell
+                      amount={structured.maintenanceAmount}
+                      unit={structured.unit}
+                      raw={entry.maintenanceDose}
+                      display={display}
+                    />
+                  </td>
+                  <td>
+                    <DoseCell amount={structured.maxAmount} unit={structured.unit} raw="" display={display} />
+                  </td>
+                  <td>{structured.intervalDays !== null ? formatInterval(structured.intervalDays) : entry.frequency}</td>
+                  <td>
+                    <span
+                      className="chip"
+                      title={structured.issues.length > 0 ? structured.issues.join(" ") : "Parsed without issues"}
+                    >
+                      {structured.reviewed ? "Reviewed" : labelFromSnake(structured.confidence)}
+                    </span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
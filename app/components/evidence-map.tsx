@@ -0,0 +1,112 @@
+import Link from "next/link";
+import { EVIDENCE_GRADES, labelFromSnake } from "@/lib/constants";
+import { capitalizeLeadingLetter } from "@/lib/display-format";
+import type { EvidenceMapRow } from "@/lib/evidence-map";
+
+export type EvidenceMapEntry = EvidenceMapRow & {
+  peptide?: { slug: string; name: string };
+};
+
+type EvidenceMapProps = {
+  rows: EvidenceMapEntry[];
+};
+
+function formatStudyDate(value: string | null): string {
+  if (!value) {
+    return "None linked";
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString("en-US", { year: "numeric", month: "short" });
+}
+
+function GradeBar({ row }: { row: EvidenceMapRow }) {
+  const total = row.claimCount;
+  if (total === 0) {
+    return <span className="muted">No linked claims</span>;
+  }
+  const parts = EVIDENCE_GRADES.filter((grade) => row.gradeCounts[grade] > 0).map(
+    (grade) => `${row.gradeCounts[grade]} grade ${grade}`
+  );
+  if (row.ungradedCount > 0) {
+    parts.push(`${row.ungradedCount} ungraded`);
+  }
+
+  return (
+    <div className="evidence-bar-cell">
+      <div className="evidence-bar" role="img" aria-label={parts.join(", ")}>
+        {EVIDENCE_GRADES.map((grade) =>
+          row.gradeCounts[grade] > 0 ? (
+            <span
+              key={grade}
+              className={`evidence-bar-segment grade-${grade.toLowerCase()}`}
+              style={{ width: `${(row.gradeCounts[grade] / total) * 100}%` }}
+            />
+          ) : null
+        )}
+        {row.ungradedCount > 0 ? (
+          <span className="evidence-bar-segment ungraded" style={{ width: `${(row.ungradedCount / total) * 100}%` }} />
+        ) : null}
+      </div>
+      <span className="muted">{parts.join(" · ")}</span>
+    </div>
+  );
+}
+
+export function EvidenceMap({ rows }: EvidenceMapProps) {
+  const showPeptide = rows.some((row) => row.peptide);
+
+  return (
+    <div className="table-scroll">
+      <table className="evidence-map">
+        <thead>
+          <tr>
+            {showPeptide ? <th>Peptide</th> : null}
+            <th>Use case</th>
+            <th>Grade</th>
+            <th>Claims by grade</th>
+            <th>Study types</th>
+            <th>Newest study</th>
+            <th>Enrolled (ClinicalTrials.gov)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={`${row.peptide?.slug ?? ""}-${row.useCase ?? "peptide-wide"}`}>
+              {showPeptide ? (
+                <td>
+                  {row.peptide ? (
+                    <Link href={`/peptides/${row.peptide.slug}`}>{capitalizeLeadingLetter(row.peptide.name)}</Link>
+                  ) : null}
+                </td>
+              ) : null}
+              <td>{row.useCase ?? <span className="muted">Peptide-wide (no specific use case)</span>}</td>
+              <td>{row.useCaseGrade ?? <span className="muted">—</span>}</td>
+              <td>
+                <GradeBar row={row} />
+              </td>
+              <td>
+                {row.studyTypeCounts.length === 0 ? (
+                  <span className="muted">—</span>
+                ) : (
+                  row.studyTypeCounts
+                    .map(({ studyType, count }) => `${count} ${labelFromSnake(studyType).toLowerCase()}`)
+                    .join(", ")
+                )}
+              </td>
+              <td>{formatStudyDate(row.newestStudyDate)}</td>
+              <td>
+                {row.trialsWithEnrollment > 0 ? (
+                  `${row.enrolledParticipants.toLocaleString("en-US")} across ${row.trialsWithEnrollment} ${row.trialsWithEnrollment === 1 ? "trial" : "trials"}`
+                ) : (
+                  <span className="muted">Not reported</span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { Fragment } from "react";
+import { placeProvenanceMarkers, type ProvenanceMarker } from "@/lib/content-provenance";
+
+type ProvenanceTextProps = {
+  text: string;
+  markers: ProvenanceMarker[];
+};
+
+export function sourceAnchorId(number: number): string {
+  return `content-source-${number}`;
+}
+
+export function ProvenanceText({ text, markers }: ProvenanceTextProps) {
+  if (markers.length === 0) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {placeProvenanceMarkers(text, markers).map((segment, index) => (
+        <Fragment key={index}>
+          {segment.text}
+          {segment.markers.length > 0 ? (
+            <sup className="provenance-marker">
+              {segment.markers.map((marker, markerIndex) => (
+                <Fragment key={marker.number}>
+                  {markerIndex > 0 ? "," : null}
+                  <a href={`#${sourceAnchorId(marker.number)}`} title={`Source: ${marker.label}`}>
+                    {marker.number}
+                  </a>
+                </Fragment>
+              ))}
+            </sup>
+          ) : null}
+        </Fragment>
+      ))}
+    </>
+  );
+}
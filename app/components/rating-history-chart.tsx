@@ -0,0 +1,61 @@
+import type { VendorRatingPoint } from "@/lib/types";
+
+type RatingHistoryChartProps = {
+  points: VendorRatingPoint[];
+  label?: string;
+};
+
+const WIDTH = 640;
+const HEIGHT = 160;
+const PADDING = 16;
+
+function toY(value: number, max: number): number {
+  return HEIGHT - PADDING - (value / max) * (HEIGHT - PADDING * 2);
+}
+
+export function RatingHistoryChart({ points, label = "Rating history" }: RatingHistoryChartProps) {
+  const rated = points.filter((point) => point.rating !== null);
+  if (rated.length < 2) {
+    return null;
+  }
+
+  const step = (WIDTH - PADDING * 2) / (rated.length - 1);
+  const ratingLine = rated
+    .map((point, index) => `${(PADDING + index * step).toFixed(1)},${toY(point.rating ?? 0, 5).toFixed(1)}`)
+    .join(" ");
+  const hasConfidence = rated.every((point) => point.confidence !== null);
+  const confidenceLine = hasConfidence
+    ? rated
+        .map((point, index) => `${(PADDING + index * step).toFixed(1)},${toY(point.confidence ?? 0, 1).toFixed(1)}`)
+        .join(" ")
+    : null;
+
+  return (
+    <figure className="rating-history-chart">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={label}>
+        {[0, 1, 2, 3, 4, 5].map((tick) => (
+          <line
+            key={tick}
+            className="rating-history-grid"
+            x1={PADDING}
+            x2={WIDTH - PADDING}
+            y1={toY(tick, 5)}
+            y2={toY(tick, 5)}
+          />
+        ))}
+        {confidenceLine ? <polyline className="rating-history-confidence" points={confidenceLine} /> : null}
+        <polyline className="rating-history-rating" points={ratingLine} />
+        {rated.map((point, index) => (
+          <circle
+            key={`${point.calculatedAt}-${index}`}
+            className="rating-history-dot"
+            cx={PADDING + index * step}
+            cy={toY(point.rating ?? 0, 5)}
+            r={3.5}
+          />
+        ))}
+      </svg>
+      <figcaption className="muted">Solid line: rating (0-5). Dashed line: confidence (0-100%).</figcaption>
+    </figure>
+  );
+}
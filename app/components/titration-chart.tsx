@@ -0,0 +1,74 @@
+import { formatDoseAmount } from "@/lib/structured-dosing";
+import type { DoseUnit, TitrationStep } from "@/lib/types";
+
+type TitrationChartProps = {
+  steps: TitrationStep[];
+  unit: DoseUnit;
+  label?: string;
+};
+
+const WIDTH = 640;
+const HEIGHT = 180;
+const PADDING = 24;
+// Steps without a stated duration are drawn at this width and dashed, so the chart never
+// implies a schedule the source did not give.
+const UNSTATED_WEEKS = 4;
+
+export function TitrationChart({ steps, unit, label = "Titration schedule" }: TitrationChartProps) {
+  if (steps.length < 2) {
+    return null;
+  }
+
+  const widths = steps.map((step) => step.durationWeeks ?? UNSTATED_WEEKS);
+  const totalWeeks = widths.reduce((sum, weeks) => sum + weeks, 0);
+  const maxAmount = Math.max(...steps.map((step) => step.amount));
+  const toX = (weeks: number) => PADDING + (weeks / totalWeeks) * (WIDTH - PADDING * 2);
+  const toY = (amount: number) => HEIGHT - PADDING - (amount / maxAmount) * (HEIGHT - PADDING * 2);
+
+  let elapsed = 0;
+  const segments = steps.map((step, index) => {
+    const start = elapsed;
+    elapsed += widths[index] ?? UNSTATED_WEEKS;
+    return { step, start, end: elapsed };
+  });
+
+  return (
+    <figure className="titration-chart">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={label}>
+        <line className="titration-axis" x1={PADDING} x2={WIDTH - PADDING} y1={toY(0)} y2={toY(0)} />
+        {segments.map(({ step, start, end }, index) => {
+          const next = segments[index + 1];
+          return (
+            <g key={`${start}-${step.amount}`}>
+              <line
+                className={step.durationWeeks === null ? "titration-step unstated" : "titration-step"}
+                x1={toX(start)}
+                x2={toX(end)}
+                y1={toY(step.amount)}
+                y2={toY(step.amount)}
+              />
+              {next ? (
+                <line
+                  className="titration-riser"
+                  x1={toX(end)}
+                  x2={toX(end)}
+                  y1={toY(step.amount)}
+                  y2={toY(next.step.amount)}
+                />
+              ) : null}
+              <text className="titration-label" x={toX(start) + 4} y={toY(step.amount) - 6}>
+                {formatDoseAmount(step.amount, unit)}
+              </text>
+              <text className="titration-week" x={toX(start)} y={HEIGHT - 6}>
+                Wk {Number((start + 1).toFixed(1))}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <figcaption className="muted">
+        Each step shows the dose held for its stated duration. Dashed steps have no duration in the source text.
+      </figcaption>
+    </figure>
+  );
+}
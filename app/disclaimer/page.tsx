@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Breadcrumbs } from "@/app/components/breadcrumbs";
+import { DOSING_DISCLAIMER } from "@/lib/constants";
 import { absoluteUrl } from "@/lib/seo";
 
 export const metadata: Metadata = {
@@ -30,10 +31,7 @@ export default function DisclaimerPage() {
           Content may include investigational and research-only compounds that are not approved for consumer use in
           one or more jurisdictions. Regulatory status can change; always verify current local rules.
         </p>
-        <p>
-          Dosing and safety content is presented for evidence context only and must not be interpreted as medical
-          advice. Clinical decisions should be made by qualified licensed professionals.
-        </p>
+        <p>{DOSING_DISCLAIMER}</p>
         <p>
           Vendor listings and ratings reflect editorial research methodology and are not endorsements, guarantees, or
           quality certifications.
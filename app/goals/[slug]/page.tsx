@@ -2,10 +2,12 @@ import type { Metadata } from "next";
 import Link from "next/link";
 import { notFound } from "next/navigation";
 import { Breadcrumbs } from "@/app/components/breadcrumbs";
+import { EvidenceMap, type EvidenceMapEntry } from "@/app/components/evidence-map";
 import { capitalizeLeadingLetter } from "@/lib/display-format";
+import { buildEvidenceMap } from "@/lib/evidence-map";
 import { buildHealthGoalCards, getHealthGoalBySlug, HEALTH_GOAL_DEFINITIONS } from "@/lib/health-goals";
 import type { HealthGoalCard } from "@/lib/health-goals";
-import { listPeptides } from "@/lib/repository";
+import { listPeptideEvidence, listPeptides } from "@/lib/repository";
 import { absoluteUrl, safeJsonLd } from "@/lib/seo";
 
 type PageProps = {
@@ -104,6 +106,18 @@ export default async function GoalDetailPage({ params }: PageProps) {
   }
 
   const topEvidencePeptides = goalCard.peptides.slice(0, 24);
+  const peptideEvidence = await listPeptideEvidence(topEvidencePeptides.map((peptide) => peptide.slug));
+  // Only the goal's own use cases; peptide-wide claims are left to each peptide page.
+  const evidenceMapRows: EvidenceMapEntry[] = topEvidencePeptides.flatMap((peptide) => {
+    const evidence = peptideEvidence.find((entry) => entry.slug === peptide.slug);
+    if (!evidence) {
+      return [];
+    }
+    const goalUseCases = evidence.useCaseEvidence.filter((entry) => goalCard.matchedUseCases.includes(entry.useCase));
+    return buildEvidenceMap(goalUseCases, evidence.evidenceClaims)
+      .filter((row) => row.useCase !== null)
+      .map((row) => ({ ...row, peptide: { slug: peptide.slug, name: peptide.name } }));
+  });
   const faqEntries = buildGoalFaqEntries(goalCard);
   const faqItems = faqEntries.map((entry) => ({
     "@type": "Question",
@@ -179,6 +193,19 @@ export default async function GoalDetailPage({ params }: PageProps) {
         </div>
       </section>
 
+      <section className="card">
+        <h2>Evidence Map</h2>
+        <p className="muted">
+          For each peptide and use case in this goal: how many linked claims sit at each grade, which study types they
+          come from, the newest linked study, and participants enrolled in linked ClinicalTrials.gov registrations.
+        </p>
+        {evidenceMapRows.length === 0 ? (
+          <p className="empty-state">No claims are linked to the use cases in this goal yet.</p>
+        ) : (
+          <EvidenceMap rows={evidenceMapRows} />
+        )}
+      </section>
+
       <section className="card">
         <h2>Top Evidence-Mapped Peptides</h2>
         <p className="muted">
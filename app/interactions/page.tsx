@@ -0,0 +1,204 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Breadcrumbs } from "@/app/components/breadcrumbs";
+import { DOSING_DISCLAIMER, labelFromSnake } from "@/lib/constants";
+import { capitalizeLeadingLetter } from "@/lib/display-format";
+import { flagInteractionPairs, matchMedications } from "@/lib/interactions";
+import { listDrugClasses, listPeptideInteractions, listPeptides } from "@/lib/repository";
+import { absoluteUrl } from "@/lib/seo";
+import type { InteractionSeverity } from "@/lib/types";
+
+type SearchValue = string | string[] | undefined;
+type SearchParams = Record<string, SearchValue>;
+
+type PageProps = {
+  searchParams: Promise<SearchParams | undefined>;
+};
+
+const SEVERITY_CLASS: Record<InteractionSeverity, string> = {
+  MAJOR: "chip severity-major",
+  MODERATE: "chip severity-moderate",
+  MINOR: "chip severity-minor"
+};
+
+export const metadata: Metadata = {
+  title: "Interaction Checker",
+  description:
+    "Check peptides against each other and against common medication classes for documented interactions, with severity, mechanism, and sources.",
+  openGraph: {
+    type: "website",
+    url: absoluteUrl("/interactions"),
+    title: "Interaction Checker | PeptideDB",
+    description:
+      "Check peptides against each other and against common medication classes for documented interactions, with severity, mechanism, and sources."
+  },
+  alternates: {
+    canonical: "/interactions"
+  }
+};
+
+function parseList(value: SearchValue): string[] {
+  const raw = Array.isArray(value) ? value.join(",") : value ?? "";
+  return Array.from(new Set(raw.split(",").map((entry) => entry.trim()).filter(Boolean)));
+}
+
+export default async function InteractionsPage({ searchParams }: PageProps) {
+  const resolvedSearchParams = await searchParams;
+  const [peptides, drugClasses] = await Promise.all([listPeptides(), listDrugClasses()]);
+
+  const selectedPeptides = parseList(resolvedSearchParams?.peptides).filter((slug) =>
+    peptides.some((peptide) => peptide.slug === slug)
+  );
+  const selectedClasses = parseList(resolvedSearchParams?.drugs).filter((slug) =>
+    drugClasses.some((drugClass) => drugClass.slug === slug)
+  );
+  const medicationsInput = Array.isArray(resolvedSearchParams?.medications)
+    ? resolvedSearchParams.medications.join(", ")
+    : resolvedSearchParams?.medications ?? "";
+  const medicationMatches = matchMedications(medicationsInput.split(","), drugClasses);
+  const drugClassSlugs = Array.from(
+    new Set([
+      ...selectedClasses,
+      ...medicationMatches.flatMap((match) => (match.drugClass ? [match.drugClass.slug] : []))
+    ])
+  );
+
+  const hasSelection = selectedPeptides.length > 0 && selectedPeptides.length + drugClassSlugs.length > 1;
+  const flagged = hasSelection
+    ? flagInteractionPairs(await listPeptideInteractions(selectedPeptides), selectedPeptides, drugClassSlugs)
+    : [];
+  const unmatched = medicationMatches.filter((match) => !match.drugClass).map((match) => match.input);
+
+  return (
+    <div className="grid">
+      <Breadcrumbs items={[{ label: "Home", href: "/" }, { label: "Interactions" }]} />
+      <section className="card">
+        <h1>Interaction Checker</h1>
+        <p className="muted">
+          Pick two or more peptides, or peptides plus medications, to see documented interactions. Entries come from
+          FDA label interaction sections and editorial curation.
+        </p>
+        <form action="/interactions" method="get" className="grid">
+          <fieldset className="interaction-options">
+            <legend>Peptides</legend>
+            {peptides.map((peptide) => (
+              <label key={peptide.slug} className="checkbox-row">
+                <input
+                  type="checkbox"
+                  name="peptides"
+                  value={peptide.slug}
+                  defaultChecked={selectedPeptides.includes(peptide.slug)}
+                />
+                {capitalizeLeadingLetter(peptide.name)}
+              </label>
+            ))}
+          </fieldset>
+          <fieldset className="interaction-options">
+            <legend>Medication classes</legend>
+            {drugClasses.map((drugClass) => (
+              <label key={drugClass.slug} className="checkbox-row" title={drugClass.description}>
+                <input
+                  type="checkbox"
+                  name="drugs"
+                  value={drugClass.slug}
+                  defaultChecked={selectedClasses.includes(drugClass.slug)}
+                />
+                {drugClass.name}
+              </label>
+            ))}
+          </fieldset>
+          <label>
+            Other medications (comma separated)
+            <input name="medications" defaultValue={medicationsInput} placeholder="e.g. glipizide, warfarin" />
+          </label>
+          <div className="hero-actions">
+            <button type="submit" className="btn primary">
+              Check Interactions
+            </button>
+            <Link href="/interactions" className="btn">
+              Clear
+            </Link>
+          </div>
+        </form>
+      </section>
+
+      {hasSelection ? (
+        <section className="card">
+          <h2>Flagged Pairs</h2>
+          {medicationMatches.some((match) => match.drugClass) ? (
+            <p className="muted">
+              Matched medications:{" "}
+              {medicationMatches
+                .filter((match) => match.drugClass)
+                .map((match) => `${match.input} → ${match.drugClass?.name}`)
+                .join(", ")}
+            </p>
+          ) : null}
+          {unmatched.length > 0 ? (
+            <p className="muted">No medication class found for: {unmatched.join(", ")}.</p>
+          ) : null}
+          {flagged.length === 0 ? (
+            <p className="empty-state">
+              No documented interactions between the selected items. Absence of a record is not evidence that a
+              combination is safe.
+            </p>
+          ) : (
+            <div className="table-scroll">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Severity</th>
+                    <th>Pair</th>
+                    <th>Mechanism</th>
+                    <th>Management</th>
+                    <th>Evidence</th>
+                    <th>Source</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {flagged.map((interaction) => (
+                    <tr key={`${interaction.peptideSlug}-${interaction.targetKind}-${interaction.targetSlug}`}>
+                      <td>
+                        <span className={SEVERITY_CLASS[interaction.severity]}>{labelFromSnake(interaction.severity)}</span>
+                      </td>
+                      <td>
+                        <Link href={`/peptides/${interaction.peptideSlug}`}>
+                          {capitalizeLeadingLetter(interaction.peptideName)}
+                        </Link>{" "}
+                        +{" "}
+                        {interaction.targetKind === "peptide" ? (
+                          <Link href={`/peptides/${interaction.targetSlug}`}>
+                            {capitalizeLeadingLetter(interaction.targetName)}
+                          </Link>
+                        ) : (
+                          interaction.targetName
+                        )}
+                      </td>
+                      <td>{interaction.mechanism}</td>
+                      <td>{interaction.management ?? <span className="muted">Not stated</span>}</td>
+                      <td>Grade {interaction.evidenceGrade}</td>
+                      <td>
+                        {interaction.sourceUrl ? (
+                          <a href={interaction.sourceUrl} target="_blank" rel="noopener noreferrer">
+                            {interaction.sourceTitle ?? "Source"}
+                          </a>
+                        ) : (
+                          <span className="muted">
+                            {interaction.source === "OPENFDA_LABEL" ? "FDA label" : "Editorial curation"}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="muted">
+            {DOSING_DISCLAIMER} See <Link href="/disclaimer">Disclaimer</Link>.
+          </p>
+        </section>
+      ) : null}
+    </div>
+  );
+}
@@ -76,6 +76,8 @@ export default function RootLayout({
                 <Link href="/peptides">Peptides</Link>
                 <Link href="/vendors">Vendors</Link>
                 <Link href="/goals">Goals</Link>
+                <Link href="/interactions">Interactions</Link>
+                <Link href="/updates">Updates</Link>
               </nav>
             </div>
           </div>
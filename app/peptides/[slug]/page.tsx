@@ -1,13 +1,32 @@
 import type { Metadata } from "next";
 import Link from "next/link";
 import { notFound } from "next/navigation";
+import { CompareToggle } from "@/app/components/compare-toggle";
 import { ContextualBreadcrumbs } from "@/app/components/contextual-breadcrumbs";
+import { DosingCalculator } from "@/app/components/dosing-calculator";
+import { DosingTable } from "@/app/components/dosing-table";
+import { EvidenceMap } from "@/app/components/evidence-map";
+import { ProvenanceText, sourceAnchorId } from "@/app/components/provenance-text";
 import { StarRating } from "@/app/components/star-rating";
-import { labelFromSnake } from "@/lib/constants";
+import { TitrationChart } from "@/app/components/titration-chart";
+import {
+  BIBLIOGRAPHY_FORMATS,
+  buildBibliography,
+  formatAmaCitation,
+  isCommunityClaim,
+  type BibliographyFormat
+} from "@/lib/bibliography";
+import { DOSING_DISCLAIMER, JURISDICTIONS, labelFromSnake } from "@/lib/constants";
 import { capitalizeLeadingLetter } from "@/lib/display-format";
-import { getPeptideDetail, listPeptides } from "@/lib/repository";
+import { clinicalTrialUrl, formatTrialPhases, formatTrialStatus } from "@/lib/clinical-trials";
+import { PROVENANCE_SOURCE_LABELS, type ProvenanceMarker } from "@/lib/content-provenance";
+import { calculatorSource } from "@/lib/dosing-calculator";
+import { buildEvidenceMap } from "@/lib/evidence-map";
+import { REGULATORS, regulatoryRecordFor, regulatoryStatusLabel } from "@/lib/regulatory-status";
+import { getPeptideDetail, getPeptideProvenance, getPeptideTrials, listPeptides } from "@/lib/repository";
 import { absoluteUrl, safeJsonLd } from "@/lib/seo";
-import type { PeptideSummary } from "@/lib/types";
+import { structuredDosing } from "@/lib/structured-dosing";
+import type { ContentProvenance, ContentProvenanceField, EvidenceClaim, PeptideSummary } from "@/lib/types";
 
 type PageProps = {
   params: Promise<{ slug: string }>;
@@ -23,9 +42,13 @@ const EVIDENCE_RANK: Record<PeptideSummary["evidenceGrade"], number> = {
 
 const SECTION_ID = {
   features: "features",
+  regulatory: "regulatory-status",
   useCases: "use-cases",
+  evidenceMap: "evidence-map",
+  trials: "trials",
   effectiveness: "effectiveness",
   dosing: "dosing",
+  calculator: "dosing-calculator",
   safety: "safety",
   vendors: "vendors",
   longDescription: "long-description",
@@ -34,19 +57,6 @@ const SECTION_ID = {
   related: "related-peptides"
 } as const;
 
-function statusLabel(value: string): string {
-  if (value === "US_FDA_APPROVED") {
-    return "FDA Approved";
-  }
-  if (value === "NON_US_APPROVED") {
-    return "Approved";
-  }
-  if (value === "INVESTIGATIONAL" || value === "RESEARCH_ONLY") {
-    return "Not approved";
-  }
-  return "Not approved";
-}
-
 function formatDate(value: string): string {
   const date = new Date(value);
   if (Number.isNaN(date.getTime())) {
@@ -60,6 +70,10 @@ function formatEvidenceType(value: string): string {
   return cleaned || value;
 }
 
+function gradeTooltip(claim: EvidenceClaim): string {
+  return claim.gradeRationale ?? "Editor-assigned grade; no study-design rationale was recorded for this claim.";
+}
+
 function latestReviewDate(claims: { publishedAt: string; retrievedAt: string | null }[]): string | null {
   const candidates = claims
     .map((claim) => claim.retrievedAt ?? claim.publishedAt)
@@ -105,6 +119,29 @@ function parseLongDescriptionSections(value: string): Array<{ title: string | nu
     .filter((section) => Boolean(section.body));
 }
 
+// Numbers sources in order of first use, skipping records whose excerpt was edited out of the live text.
+function numberContentSources(
+  provenance: ContentProvenance[],
+  fieldText: Record<ContentProvenanceField, string>
+): { records: Array<ContentProvenance & { number: number }>; sources: Array<ContentProvenance & { number: number }> } {
+  const numbers = new Map<ContentProvenance["source"], number>();
+  const records: Array<ContentProvenance & { number: number }> = [];
+  const sources: Array<ContentProvenance & { number: number }> = [];
+  for (const record of provenance) {
+    if (!fieldText[record.field].includes(record.excerpt)) {
+      continue;
+    }
+    let number = numbers.get(record.source);
+    if (number === undefined) {
+      number = numbers.size + 1;
+      numbers.set(record.source, number);
+      sources.push({ ...record, number });
+    }
+    records.push({ ...record, number });
+  }
+  return { records, sources };
+}
+
 function sortByEvidenceThenName(peptides: PeptideSummary[]): PeptideSummary[] {
   return [...peptides].sort((a, b) => {
     const gradeRank = EVIDENCE_RANK[a.evidenceGrade] - EVIDENCE_RANK[b.evidenceGrade];
@@ -143,7 +180,12 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
 export default async function PeptideDetailPage({ params }: PageProps) {
   const { slug } = await params;
 
-  const [peptide, allPeptides] = await Promise.all([getPeptideDetail(slug), listPeptides()]);
+  const [peptide, allPeptides, trialTracker, provenance] = await Promise.all([
+    getPeptideDetail(slug),
+    listPeptides(),
+    getPeptideTrials(slug),
+    getPeptideProvenance(slug)
+  ]);
 
   if (!peptide) {
     notFound();
@@ -151,7 +193,23 @@ export default async function PeptideDetailPage({ params }: PageProps) {
   const displayName = capitalizeLeadingLetter(peptide.name);
   const overviewText = combineOverview(peptide.intro, peptide.mechanism);
   const longDescriptionSections = parseLongDescriptionSections(peptide.longDescription);
+  const contentSources = numberContentSources(provenance, {
+    intro: peptide.intro,
+    mechanism: peptide.mechanism,
+    effectiveness_summary: peptide.effectivenessSummary,
+    long_description: peptide.longDescription
+  });
+  const markersFor = (...fields: ContentProvenanceField[]): ProvenanceMarker[] =>
+    contentSources.records
+      .filter((record) => fields.includes(record.field))
+      .map((record) => ({ excerpt: record.excerpt, number: record.number, label: PROVENANCE_SOURCE_LABELS[record.source] }));
   const reviewedAt = latestReviewDate(peptide.evidenceClaims);
+  const regulatoryRecords = JURISDICTIONS.map((code) =>
+    regulatoryRecordFor(peptide.regulatoryStatuses, code, peptide.statusByJurisdiction[code])
+  );
+  const regulatoryTimeline = [...peptide.regulatoryHistory].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+  const dosingEntries = peptide.dosing.map((entry) => ({ ...entry, structured: structuredDosing(entry) }));
+  const calculator = calculatorSource(peptide);
 
   const relatedByUseCase = peptide.useCases
     .map((useCase) => {
@@ -166,8 +224,10 @@ export default async function PeptideDetailPage({ params }: PageProps) {
     })
     .filter((group) => group.relatedPeptides.length > 0);
 
-  const communityClaims = peptide.evidenceClaims.filter((claim) => claim.section.startsWith("Community Signals"));
-  const nonCommunityClaims = peptide.evidenceClaims.filter((claim) => !claim.section.startsWith("Community Signals"));
+  const communityClaims = peptide.evidenceClaims.filter((claim) => isCommunityClaim(claim));
+  const nonCommunityClaims = peptide.evidenceClaims.filter((claim) => !isCommunityClaim(claim));
+  const bibliography = buildBibliography(nonCommunityClaims);
+  const evidenceMap = buildEvidenceMap(peptide.useCaseEvidence, peptide.evidenceClaims);
 
   const structuredData = {
     "@context": "https://schema.org",
@@ -202,15 +262,16 @@ export default async function PeptideDetailPage({ params }: PageProps) {
       <section className="card hero">
         <h1 itemProp="name">{displayName}</h1>
         <div className="meta-row">
-          {Object.entries(peptide.statusByJurisdiction).map(([jurisdiction, status]) => (
-            <span key={jurisdiction} className="chip">
-              {jurisdiction}: {statusLabel(status)}
+          {regulatoryRecords.map((record) => (
+            <span key={record.jurisdiction} className="chip">
+              {record.jurisdiction}: {regulatoryStatusLabel(record)}
             </span>
           ))}
         </div>
         <p itemProp="description" className="overview-text">
-          {overviewText}
+          <ProvenanceText text={overviewText} markers={markersFor("intro", "mechanism")} />
         </p>
+        <CompareToggle slug={peptide.slug} />
       </section>
 
       <section className="card section-nav-card">
@@ -219,15 +280,27 @@ export default async function PeptideDetailPage({ params }: PageProps) {
           <a href={`#${SECTION_ID.features}`} className="chip chip-link">
             Features
           </a>
+          <a href={`#${SECTION_ID.regulatory}`} className="chip chip-link">
+            Regulatory
+          </a>
           <a href={`#${SECTION_ID.useCases}`} className="chip chip-link">
             Use Cases
           </a>
+          <a href={`#${SECTION_ID.evidenceMap}`} className="chip chip-link">
+            Evidence Map
+          </a>
+          <a href={`#${SECTION_ID.trials}`} className="chip chip-link">
+            Trials
+          </a>
           <a href={`#${SECTION_ID.effectiveness}`} className="chip chip-link">
             Effectiveness
           </a>
           <a href={`#${SECTION_ID.dosing}`} className="chip chip-link">
             Dosing
           </a>
+          <a href={`#${SECTION_ID.calculator}`} className="chip chip-link">
+            Calculator
+          </a>
           <a href={`#${SECTION_ID.safety}`} className="chip chip-link">
             Safety
           </a>
@@ -267,9 +340,7 @@ export default async function PeptideDetailPage({ params }: PageProps) {
           <div>
             <dt>Regulatory status scope</dt>
             <dd>
-              {Object.entries(peptide.statusByJurisdiction)
-                .map(([jurisdiction, status]) => `${jurisdiction}: ${statusLabel(status)}`)
-                .join(" · ")}
+              {regulatoryRecords.map((record) => `${record.jurisdiction}: ${regulatoryStatusLabel(record)}`).join(" · ")}
             </dd>
           </div>
           <div>
@@ -312,6 +383,69 @@ export default async function PeptideDetailPage({ params }: PageProps) {
         </div>
       </section>
 
+      <section className="card" id={SECTION_ID.regulatory}>
+        <h2>Regulatory Status</h2>
+        <div className="table-scroll">
+          <table>
+            <thead>
+              <tr>
+                <th>Jurisdiction</th>
+                <th>Status</th>
+                <th>Approved</th>
+                <th>Brand names</th>
+                <th>Approved indications</th>
+                <th>Reference</th>
+              </tr>
+            </thead>
+            <tbody>
+              {regulatoryRecords.map((record) => (
+                <tr key={record.jurisdiction}>
+                  <td>
+                    {record.jurisdiction} ({REGULATORS[record.jurisdiction]})
+                  </td>
+                  <td>{regulatoryStatusLabel(record)}</td>
+                  <td>{record.approvalDate ? formatDate(record.approvalDate) : "—"}</td>
+                  <td>{record.brandNames.join(", ") || "—"}</td>
+                  <td>{record.approvedIndications.join("; ") || "—"}</td>
+                  <td>
+                    {record.sourceUrl ? (
+                      <a href={record.sourceUrl} target="_blank" rel="noreferrer noopener">
+                        {record.regulatorReference ?? "Open source"}
+                      </a>
+                    ) : (
+                      record.regulatorReference ?? "—"
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <h3>Timeline</h3>
+        {regulatoryTimeline.length === 0 ? (
+          <p className="empty-state">No status changes have been recorded yet.</p>
+        ) : (
+          <ol className="regulatory-timeline">
+            {regulatoryTimeline.map((change, index) => (
+              <li key={`${change.jurisdiction}-${change.effectiveDate}-${index}`}>
+                <time dateTime={change.effectiveDate}>{formatDate(change.effectiveDate)}</time>
+                <span>
+                  <strong>{change.jurisdiction}</strong>:{" "}
+                  {change.previousStatus ? `${regulatoryStatusLabel({ ...change, status: change.previousStatus, approvalDate: null })} → ` : ""}
+                  {regulatoryStatusLabel({ ...change, approvalDate: null })}
+                  {change.regulatorReference ? ` · ${change.regulatorReference}` : ""}
+                </span>
+                {change.sourceUrl ? (
+                  <a href={change.sourceUrl} target="_blank" rel="noreferrer noopener">
+                    Source
+                  </a>
+                ) : null}
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+
       <section className="card" id={SECTION_ID.useCases}>
         <h2>Use Cases</h2>
         {peptide.useCases.map((useCase) => (
@@ -325,39 +459,135 @@ export default async function PeptideDetailPage({ params }: PageProps) {
         ))}
       </section>
 
+      <section className="card" id={SECTION_ID.evidenceMap}>
+        <h2>Evidence Map</h2>
+        <p className="muted">
+          What each use-case grade rests on: linked claims by grade and study type, the newest linked study, and
+          participants enrolled in linked ClinicalTrials.gov registrations. See the{" "}
+          <Link href="/rating-methodology#evidence-grades">grading rubric</Link>.
+        </p>
+        {evidenceMap.length === 0 ? (
+          <p className="empty-state">No use cases or claims have been mapped for this peptide yet.</p>
+        ) : (
+          <EvidenceMap rows={evidenceMap} />
+        )}
+      </section>
+
+      <section className="card" id={SECTION_ID.trials}>
+        <h2>Trials</h2>
+        <p className="muted">
+          ClinicalTrials.gov registrations that list {displayName} as an intervention, re-checked on a schedule so status
+          changes and newly posted results show up here.
+        </p>
+        {trialTracker.events.length > 0 ? (
+          <>
+            <h3>Recent Changes</h3>
+            <ul className="trial-events">
+              {trialTracker.events.map((event) => (
+                <li key={`${event.nctId}-${event.eventType}-${event.detectedAt}`}>
+                  <span className="muted">{formatDate(event.detectedAt)}</span>{" "}
+                  <a href={clinicalTrialUrl(event.nctId)} target="_blank" rel="noreferrer noopener">
+                    {event.nctId}
+                  </a>
+                  :{" "}
+                  {event.eventType === "RESULTS_POSTED"
+                    ? "results posted"
+                    : `${formatTrialStatus(event.previousValue)} → ${formatTrialStatus(event.newValue)}`}
+                  <span className="muted"> — {event.trialTitle}</span>
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : null}
+        {trialTracker.trials.length === 0 ? (
+          <p className="empty-state">No ClinicalTrials.gov registrations are tracked for this peptide yet.</p>
+        ) : (
+          <div className="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Trial</th>
+                  <th>Phase</th>
+                  <th>Status</th>
+                  <th>Enrollment</th>
+                  <th>Conditions</th>
+                  <th>Sponsor</th>
+                  <th>Start → Completion</th>
+                  <th>Results</th>
+                </tr>
+              </thead>
+              <tbody>
+                {trialTracker.trials.map((trial) => (
+                  <tr key={trial.nctId}>
+                    <td>
+                      <a href={clinicalTrialUrl(trial.nctId)} target="_blank" rel="noreferrer noopener">
+                        {trial.nctId}
+                      </a>
+                      <br />
+                      {trial.title}
+                    </td>
+                    <td>{formatTrialPhases(trial.phases)}</td>
+                    <td>
+                      <span className="chip">{formatTrialStatus(trial.overallStatus)}</span>
+                    </td>
+                    <td>{trial.enrollment !== null ? trial.enrollment.toLocaleString("en-US") : "Not reported"}</td>
+                    <td>{trial.conditions.slice(0, 3).join(", ") || <span className="muted">Not listed</span>}</td>
+                    <td>{trial.sponsor ?? <span className="muted">Not listed</span>}</td>
+                    <td>
+                      {trial.startDate ? formatDate(trial.startDate) : "?"} →{" "}
+                      {trial.completionDate ? formatDate(trial.completionDate) : "?"}
+                    </td>
+                    <td>{trial.hasResults ? "Posted" : <span className="muted">Not yet</span>}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
       <section className="card" id={SECTION_ID.effectiveness}>
         <h2>Effectiveness</h2>
-        <p>{peptide.effectivenessSummary}</p>
+        <p>
+          <ProvenanceText text={peptide.effectivenessSummary} markers={markersFor("effectiveness_summary")} />
+        </p>
       </section>
 
       <section className="card" id={SECTION_ID.dosing}>
         <h2>Dosing</h2>
-        <div className="table-scroll">
-          <table>
-            <thead>
-              <tr>
-                <th>Context</th>
-                <th>Population</th>
-                <th>Route</th>
-                <th>Start</th>
-                <th>Maintenance</th>
-                <th>Frequency</th>
-              </tr>
-            </thead>
-            <tbody>
-              {peptide.dosing.map((dosing) => (
-                <tr key={`${dosing.context}-${dosing.population}`}>
-                  <td>{statusLabel(dosing.context)}</td>
-                  <td>{dosing.population}</td>
-                  <td>{dosing.route}</td>
-                  <td>{dosing.startingDose}</td>
-                  <td>{dosing.maintenanceDose}</td>
-                  <td>{dosing.frequency}</td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+        <DosingTable entries={dosingEntries} />
+        {dosingEntries
+          .filter((entry) => entry.structured.unit && entry.structured.titration.length > 1)
+          .map((entry, index) => (
+            <div key={`${entry.context}-${entry.population}-${index}`}>
+              <h3>
+                {labelFromSnake(entry.context)} titration: {entry.population}
+              </h3>
+              <TitrationChart
+                steps={entry.structured.titration}
+                unit={entry.structured.unit ?? "mg"}
+                label={`${labelFromSnake(entry.context)} titration schedule for ${entry.population}`}
+              />
+            </div>
+          ))}
+      </section>
+
+      <section className="card" id={SECTION_ID.calculator}>
+        <h2>
+          {calculator.available && calculator.framing === "STUDY_REPORTED"
+            ? "Study-Reported Dosing Calculator"
+            : "Dosing Calculator"}
+        </h2>
+        {calculator.available ? (
+          <DosingCalculator entry={calculator.entry} framing={calculator.framing} />
+        ) : (
+          <>
+            <p className="empty-state">{calculator.reason}</p>
+            <p className="muted">
+              {DOSING_DISCLAIMER} See <Link href="/disclaimer">Disclaimer</Link>.
+            </p>
+          </>
+        )}
       </section>
 
       <section className="card" id={SECTION_ID.safety}>
@@ -374,6 +604,9 @@ export default async function PeptideDetailPage({ params }: PageProps) {
           <article className="safety-item">
             <h3>Interactions</h3>
             <p>{peptide.safety.interactions}</p>
+            <p>
+              <Link href={`/interactions?peptides=${peptide.slug}`}>Check interactions with other peptides or medications</Link>
+            </p>
           </article>
           <article className="safety-item">
             <h3>Monitoring</h3>
@@ -425,17 +658,47 @@ export default async function PeptideDetailPage({ params }: PageProps) {
       <section className="card" id={SECTION_ID.longDescription}>
         <h2>Long Description</h2>
         {longDescriptionSections.length === 0 ? (
-          <p itemProp="abstract">{peptide.longDescription}</p>
+          <p itemProp="abstract">
+            <ProvenanceText text={peptide.longDescription} markers={markersFor("long_description")} />
+          </p>
         ) : (
           <div className="long-description-grid" itemProp="abstract">
             {longDescriptionSections.map((section, index) => (
               <article key={`${section.title ?? "section"}-${index}`} className="safety-item">
                 {section.title ? <h3>{section.title}</h3> : null}
-                <p>{section.body}</p>
+                <p>
+                  <ProvenanceText text={section.body} markers={markersFor("long_description")} />
+                </p>
               </article>
             ))}
           </div>
         )}
+        {contentSources.sources.length > 0 ? (
+          <div className="provenance-sources">
+            <h3>Generated Content Sources</h3>
+            <p className="muted">
+              Superscript numbers in the overview, effectiveness summary, and long description mark text drawn from
+              these sources during automated enrichment. Unmarked text is template or editorial wording.
+            </p>
+            <ol>
+              {contentSources.sources.map((entry) => (
+                <li key={entry.source} id={sourceAnchorId(entry.number)}>
+                  {entry.sourceUrl ? (
+                    <a href={entry.sourceUrl} target="_blank" rel="noreferrer noopener">
+                      {PROVENANCE_SOURCE_LABELS[entry.source]}
+                    </a>
+                  ) : (
+                    PROVENANCE_SOURCE_LABELS[entry.source]
+                  )}
+                  <span className="muted">
+                    {" "}
+                    · fetched {formatDate(entry.fetchedAt)} · {entry.generatorVersion}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ) : null}
       </section>
 
       <section className="card" id={SECTION_ID.communitySignals}>
@@ -458,7 +721,15 @@ export default async function PeptideDetailPage({ params }: PageProps) {
                   <tr key={`community-${claim.sourceUrl}-${index}`}>
                     <td>{claim.section}</td>
                     <td>{claim.claimText}</td>
-                    <td>{claim.evidenceGrade ?? "N/A"}</td>
+                    <td>
+                      {claim.evidenceGrade ? (
+                        <span className="grade-badge" title={gradeTooltip(claim)} tabIndex={0}>
+                          {claim.evidenceGrade}
+                        </span>
+                      ) : (
+                        "N/A"
+                      )}
+                    </td>
                     <td>
                       <a href={claim.sourceUrl} target="_blank" rel="noreferrer noopener">
                         Open source
@@ -493,7 +764,15 @@ export default async function PeptideDetailPage({ params }: PageProps) {
                   <tr key={`${claim.sourceUrl}-${index}`}>
                     <td>{formatEvidenceType(claim.section)}</td>
                     <td>{claim.claimText}</td>
-                    <td>{claim.evidenceGrade ?? "N/A"}</td>
+                    <td>
+                      {claim.evidenceGrade ? (
+                        <span className="grade-badge" title={gradeTooltip(claim)} tabIndex={0}>
+                          {claim.evidenceGrade}
+                        </span>
+                      ) : (
+                        "N/A"
+                      )}
+                    </td>
                     <td>
                       <a href={claim.sourceUrl} target="_blank" rel="noreferrer noopener">
                         {claim.sourceTitle ?? "Open source"}
@@ -506,6 +785,30 @@ export default async function PeptideDetailPage({ params }: PageProps) {
             </table>
           </div>
         )}
+        {bibliography.length > 0 ? (
+          <>
+            <div className="section-head bibliography-head">
+              <h3>References</h3>
+              <div className="bibliography-formats">
+                {(Object.keys(BIBLIOGRAPHY_FORMATS) as BibliographyFormat[]).map((format) => (
+                  <a
+                    key={format}
+                    href={`/peptides/${peptide.slug}/references/${format}`}
+                    className="chip chip-link"
+                    download
+                  >
+                    {BIBLIOGRAPHY_FORMATS[format].label}
+                  </a>
+                ))}
+              </div>
+            </div>
+            <ol className="bibliography">
+              {bibliography.map((entry) => (
+                <li key={entry.key}>{formatAmaCitation(entry)}</li>
+              ))}
+            </ol>
+          </>
+        ) : null}
       </section>
 
       <section className="card" id={SECTION_ID.related}>
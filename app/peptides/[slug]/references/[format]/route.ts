@@ -0,0 +1,38 @@
+import {
+  BIBLIOGRAPHY_FORMATS,
+  buildBibliography,
+  formatBibliography,
+  isCommunityClaim,
+  type BibliographyFormat
+} from "@/lib/bibliography";
+import { getPeptideDetail } from "@/lib/repository";
+
+type RouteContext = {
+  params: Promise<{ slug: string; format: string }>;
+};
+
+function isBibliographyFormat(value: string): value is BibliographyFormat {
+  return (Object.keys(BIBLIOGRAPHY_FORMATS) as string[]).includes(value);
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { slug, format } = await params;
+  if (!isBibliographyFormat(format)) {
+    return Response.json({ error: "Unknown reference format. Use bibtex, ris, or csl-json." }, { status: 404 });
+  }
+
+  const peptide = await getPeptideDetail(slug);
+  if (!peptide) {
+    return Response.json({ error: "Peptide not found." }, { status: 404 });
+  }
+
+  const entries = buildBibliography(peptide.evidenceClaims.filter((claim) => !isCommunityClaim(claim)));
+  const { extension, contentType } = BIBLIOGRAPHY_FORMATS[format];
+  return new Response(formatBibliography(entries, format), {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${peptide.slug}-references.${extension}"`,
+      "Cache-Control": "public, max-age=3600"
+    }
+  });
+}
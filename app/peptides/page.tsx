@@ -1,10 +1,11 @@
 import type { Metadata } from "next";
 import Link from "next/link";
 import { Breadcrumbs } from "@/app/components/breadcrumbs";
+import { CompareToggle } from "@/app/components/compare-toggle";
 import { EVIDENCE_GRADES, JURISDICTIONS, REGULATORY_STATUSES, labelFromSnake } from "@/lib/constants";
 import { capitalizeLeadingLetter } from "@/lib/display-format";
-import { filterPeptides, parsePeptideFilters } from "@/lib/filtering";
-import { listPeptides } from "@/lib/repository";
+import { filterPeptides, orderBySearchHits, parsePeptideFilters } from "@/lib/filtering";
+import { listPeptides, searchPeptides } from "@/lib/repository";
 import { absoluteUrl, safeJsonLd } from "@/lib/seo";
 
 type SearchValue = string | string[] | undefined;
@@ -67,7 +68,12 @@ export default async function PeptidesPage({ searchParams }: PageProps) {
   const filters = parsePeptideFilters(resolvedSearchParams);
   const requestedPage = parsePage(resolvedSearchParams);
   const peptides = await listPeptides();
-  const filtered = filterPeptides(peptides, filters);
+  // Every hit, not the engine's default page: the filters and pagination below work on the full list.
+  const search = filters.q ? await searchPeptides(filters.q, peptides.length) : null;
+  const filtered = search
+    ? orderBySearchHits(filterPeptides(peptides, { ...filters, q: "" }), search.hits)
+    : filterPeptides(peptides, filters);
+  const hitBySlug = new Map((search?.hits ?? []).map((hit) => [hit.slug, hit]));
   const totalPages = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
   const currentPage = Math.min(requestedPage, totalPages);
   const pageStart = (currentPage - 1) * PAGE_SIZE;
@@ -109,13 +115,22 @@ export default async function PeptidesPage({ searchParams }: PageProps) {
         <p className="muted">
           Page <strong>{currentPage}</strong> of <strong>{totalPages}</strong>.
         </p>
+        {search?.suggestion ? (
+          <p>
+            Did you mean{" "}
+            <Link href={buildCurrentFilterPath({ ...filters, q: search.suggestion, page: 1 })}>
+              <strong>{search.suggestion}</strong>
+            </Link>
+            ?
+          </p>
+        ) : null}
       </section>
 
       <section className="card">
         <form action="/peptides" method="get" className="grid two">
           <label>
             Search
-            <input name="q" defaultValue={filters.q} placeholder="Name or alias" />
+            <input name="q" defaultValue={filters.q} placeholder="Name, alias, class, or use case" />
           </label>
 
           <label>
@@ -189,28 +204,40 @@ export default async function PeptidesPage({ searchParams }: PageProps) {
         </form>
       </section>
 
-      {pageItems.map((peptide) => (
-        <article key={peptide.slug} className="card" itemScope itemType="https://schema.org/MedicalEntity">
-          <h2>
-            <Link href={`/peptides/${peptide.slug}`} itemProp="url">
-              <span itemProp="name">{capitalizeLeadingLetter(peptide.name)}</span>
-            </Link>
-          </h2>
-          <p className="muted">
-            Class: {peptide.className}
-          </p>
-          <div>
-            {peptide.useCases.map((u) => (
-              <span className="chip" key={u}>
-                {u}
-              </span>
-            ))}
-          </div>
-          <p className="muted">
-            Evidence grade: <strong>{peptide.evidenceGrade}</strong>
-          </p>
-        </article>
-      ))}
+      {pageItems.map((peptide) => {
+        const hit = hitBySlug.get(peptide.slug);
+        return (
+          <article key={peptide.slug} className="card" itemScope itemType="https://schema.org/MedicalEntity">
+            <h2>
+              <Link href={`/peptides/${peptide.slug}`} itemProp="url">
+                <span itemProp="name">{capitalizeLeadingLetter(peptide.name)}</span>
+              </Link>
+            </h2>
+            <p className="muted">
+              Class: {peptide.className}
+            </p>
+            {hit?.matchedAlias ? <p className="muted">Matched alias: {hit.matchedAlias}</p> : null}
+            {hit && hit.snippet.length > 0 ? (
+              <p className="search-snippet">
+                {hit.snippet.map((part, index) =>
+                  part.highlight ? <mark key={index}>{part.text}</mark> : <span key={index}>{part.text}</span>
+                )}
+              </p>
+            ) : null}
+            <div>
+              {peptide.useCases.map((u) => (
+                <span className="chip" key={u}>
+                  {u}
+                </span>
+              ))}
+            </div>
+            <p className="muted">
+              Evidence grade: <strong>{peptide.evidenceGrade}</strong>
+            </p>
+            <CompareToggle slug={peptide.slug} />
+          </article>
+        );
+      })}
 
       {filtered.length === 0 ? (
         <section className="card">
@@ -57,6 +57,22 @@ export default function RatingMethodologyPage() {
           <li>Tier 3: Preclinical/mechanistic evidence and expert-context summaries.</li>
           <li>Tier 4: Community signal data used as context, not primary efficacy proof.</li>
         </ul>
+        <h2 id="evidence-grades">Evidence Grades</h2>
+        <p>
+          Each claim is graded from its study design rather than its wording: PubMed publication types, trial phase,
+          enrollment, whether results are posted, and whether the population is human. Hover or focus a grade on a
+          peptide page to see the rationale recorded for that claim.
+        </p>
+        <ul>
+          <li>
+            A: Meta-analysis or systematic review of human studies, phase 3+ randomized trial, large late-phase trial
+            with posted results, or regulatory labeling.
+          </li>
+          <li>B: Randomized or controlled human trial, or a completed phase 2+ trial with at least 50 participants.</li>
+          <li>C: Observational studies, narrative reviews, small, early-phase or ongoing trials, curated references.</li>
+          <li>D: Case reports, animal or in-vitro studies, commentary, AI summaries, and community reports.</li>
+          <li>I: Not enough design information to grade.</li>
+        </ul>
       </section>
     </div>
   );
@@ -32,6 +32,18 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       changeFrequency: "weekly",
       priority: 0.82
     },
+    {
+      url: absoluteUrl("/interactions"),
+      lastModified: now,
+      changeFrequency: "weekly",
+      priority: 0.6
+    },
+    {
+      url: absoluteUrl("/updates"),
+      lastModified: now,
+      changeFrequency: "daily",
+      priority: 0.6
+    },
     {
       url: absoluteUrl("/disclaimer"),
       lastModified: now,
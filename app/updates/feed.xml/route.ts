@@ -0,0 +1,12 @@
+import { buildAtomFeed } from "@/lib/change-feed";
+import { listContentChanges } from "@/lib/repository";
+
+export async function GET() {
+  const changes = await listContentChanges({ limit: 100 });
+  return new Response(buildAtomFeed(changes), {
+    headers: {
+      "Content-Type": "application/atom+xml; charset=utf-8",
+      "Cache-Control": "public, s-maxage=900, stale-while-revalidate=3600"
+    }
+  });
+}
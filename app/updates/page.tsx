@@ -0,0 +1,59 @@
+import type { Metadata } from "next";
+import { Breadcrumbs } from "@/app/components/breadcrumbs";
+import { UpdatesFeed, type UpdateItem } from "@/app/updates/updates-feed";
+import { CHANGE_FEED_PATH, changeEntityName, changeEntityPath, describeChange } from "@/lib/change-feed";
+import { CONTENT_CHANGE_SOURCE_LABELS } from "@/lib/content-changes";
+import { listContentChanges } from "@/lib/repository";
+import { absoluteUrl } from "@/lib/seo";
+
+export const metadata: Metadata = {
+  title: "Recent Updates",
+  description:
+    "Recent changes to peptide profiles, regulatory status, dosing, evidence, clinical trials, and vendor ratings, newest first.",
+  openGraph: {
+    type: "website",
+    url: absoluteUrl("/updates"),
+    title: "Recent Updates | PeptideDB",
+    description:
+      "Recent changes to peptide profiles, regulatory status, dosing, evidence, clinical trials, and vendor ratings, newest first."
+  },
+  alternates: {
+    canonical: "/updates",
+    types: {
+      "application/atom+xml": CHANGE_FEED_PATH
+    }
+  }
+};
+
+export default async function UpdatesPage() {
+  const changes = await listContentChanges({ limit: 200 });
+  const items: UpdateItem[] = changes.map((change) => ({
+    id: change.id,
+    changedAt: change.changedAt,
+    entityName: changeEntityName(change),
+    entityPath: changeEntityPath(change),
+    field: change.field,
+    description: describeChange(change),
+    sourceLabel: CONTENT_CHANGE_SOURCE_LABELS[change.source]
+  }));
+
+  return (
+    <div className="grid">
+      <Breadcrumbs items={[{ label: "Home", href: "/" }, { label: "Updates" }]} />
+      <section className="card">
+        <h1>Recent Updates</h1>
+        <p className="muted">
+          Every edit to a published peptide or vendor is logged here, whether it came from editorial review or an
+          automated source refresh. Follow along with the <a href={CHANGE_FEED_PATH}>Atom feed</a>.
+        </p>
+      </section>
+      {items.length === 0 ? (
+        <section className="card">
+          <p className="empty-state">No changes have been recorded yet.</p>
+        </section>
+      ) : (
+        <UpdatesFeed items={items} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+const LAST_SEEN_STORAGE_KEY = "updates:last-seen";
+
+export type UpdateItem = {
+  id: number;
+  changedAt: string;
+  entityName: string;
+  entityPath: string | null;
+  field: string;
+  description: string;
+  sourceLabel: string;
+};
+
+type UpdatesFeedProps = {
+  items: UpdateItem[];
+};
+
+function readLastSeen(): number | null {
+  try {
+    const stored = Number(localStorage.getItem(LAST_SEEN_STORAGE_KEY));
+    return Number.isFinite(stored) && stored > 0 ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeLastSeen(value: number) {
+  try {
+    localStorage.setItem(LAST_SEEN_STORAGE_KEY, String(value));
+  } catch {
+    // Ignore storage failures in restricted browser contexts.
+  }
+}
+
+// UTC keeps the server render and the browser's hydration on the same day boundaries.
+function formatDay(value: string | number): string {
+  return new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+}
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", timeZone: "UTC" });
+}
+
+export function UpdatesFeed({ items }: UpdatesFeedProps) {
+  // Read once per visit, then move the marker to the newest change so the next visit starts from here.
+  const [lastSeen, setLastSeen] = useState<number | null>(null);
+
+  useEffect(() => {
+    setLastSeen(readLastSeen());
+    const newest = items[0] ? Date.parse(items[0].changedAt) : Number.NaN;
+    if (Number.isFinite(newest)) {
+      writeLastSeen(newest);
+    }
+  }, [items]);
+
+  const isNew = (item: UpdateItem) => lastSeen !== null && Date.parse(item.changedAt) > lastSeen;
+  const newCount = items.filter(isNew).length;
+  const days: Array<{ day: string; items: UpdateItem[] }> = [];
+  for (const item of items) {
+    const day = formatDay(item.changedAt);
+    const group = days[days.length - 1];
+    if (group?.day === day) {
+      group.items.push(item);
+    } else {
+      days.push({ day, items: [item] });
+    }
+  }
+
+  return (
+    <>
+      {lastSeen !== null ? (
+        <p className="notice success" role="status">
+          {newCount > 0
+            ? `${newCount} ${newCount === 1 ? "update" : "updates"} since your last visit (${formatDay(lastSeen)}).`
+            : `Nothing new since your last visit (${formatDay(lastSeen)}).`}
+        </p>
+      ) : null}
+      {days.map((group) => (
+        <section key={group.day} className="card">
+          <h2>{group.day}</h2>
+          <ul className="update-list">
+            {group.items.map((item) => (
+              <li key={item.id} id={`change-${item.id}`} className={isNew(item) ? "update-item new" : "update-item"}>
+                <div className="update-head">
+                  {isNew(item) ? <span className="chip active">New</span> : null}
+                  {item.entityPath ? <Link href={item.entityPath}>{item.entityName}</Link> : <strong>{item.entityName}</strong>}
+                  <span>{item.field}</span>
+                </div>
+                <p>{item.description}</p>
+                <p className="muted">
+                  {item.sourceLabel} · {formatTime(item.changedAt)} UTC
+                </p>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </>
+  );
+}
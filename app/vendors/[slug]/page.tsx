@@ -2,16 +2,31 @@ import type { Metadata } from "next";
 import Link from "next/link";
 import { notFound } from "next/navigation";
 import { ContextualBreadcrumbs } from "@/app/components/contextual-breadcrumbs";
+import { RatingHistoryChart } from "@/app/components/rating-history-chart";
 import { StarRating } from "@/app/components/star-rating";
 import { labelFromSnake } from "@/lib/constants";
 import { capitalizeLeadingLetter } from "@/lib/display-format";
-import { getVendorDetail } from "@/lib/repository";
+import { getVendorDetail, getVendorRatingHistory } from "@/lib/repository";
 import { absoluteUrl, safeJsonLd } from "@/lib/seo";
 
 type PageProps = {
   params: Promise<{ slug: string }>;
 };
 
+const TREND_LABELS = {
+  improving: "Improving",
+  declining: "Declining",
+  stable: "Stable",
+  insufficient_data: "Not enough history yet"
+} as const;
+
+function formatChange(value: number | null, digits: number): string {
+  if (value === null) {
+    return "-";
+  }
+  return value > 0 ? `+${value.toFixed(digits)}` : value.toFixed(digits);
+}
+
 function formatDate(value: string): string {
   const date = new Date(value);
   if (Number.isNaN(date.getTime())) {
@@ -47,10 +62,11 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
 
 export default async function VendorDetailPage({ params }: PageProps) {
   const { slug } = await params;
-  const vendor = await getVendorDetail(slug);
+  const [vendor, ratingHistory] = await Promise.all([getVendorDetail(slug), getVendorRatingHistory(slug)]);
   if (!vendor) {
     notFound();
   }
+  const historyPoints = ratingHistory?.points ?? [];
 
   const structuredData = {
     "@context": "https://schema.org",
@@ -155,6 +171,67 @@ export default async function VendorDetailPage({ params }: PageProps) {
         )}
       </section>
 
+      <section className="card">
+        <div className="section-head">
+          <h2>Rating History</h2>
+          <p className="muted">
+            Trend: {TREND_LABELS[ratingHistory?.trend ?? "insufficient_data"]} ·{" "}
+            <Link href="/rating-methodology">Methodology</Link>
+          </p>
+        </div>
+        {historyPoints.length === 0 ? (
+          <p className="empty-state">No rating snapshots have been recorded for this vendor yet.</p>
+        ) : (
+          <>
+            <RatingHistoryChart points={historyPoints} label={`${vendor.name} rating history`} />
+            <div className="table-scroll">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Rating</th>
+                    <th>Confidence</th>
+                    <th>Change</th>
+                    <th>Reason tag changes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...historyPoints].reverse().slice(0, 20).map((point, index) => (
+                    <tr key={`${point.calculatedAt}-${index}`}>
+                      <td>
+                        {formatDate(point.calculatedAt)}
+                        {point.isCurrent ? " (current)" : ""}
+                      </td>
+                      <td>{point.rating === null ? "No rating" : point.rating.toFixed(1)}</td>
+                      <td>{point.confidence === null ? "N/A" : `${Math.round(point.confidence * 100)}%`}</td>
+                      <td>{formatChange(point.ratingChange, 1)}</td>
+                      <td>
+                        {point.addedReasonTags.length === 0 && point.removedReasonTags.length === 0 ? (
+                          <span className="muted">No tag changes</span>
+                        ) : (
+                          <>
+                            {point.addedReasonTags.map((tag) => (
+                              <span key={`added-${tag}`} className="chip">
+                                + {labelFromSnake(tag)}
+                              </span>
+                            ))}
+                            {point.removedReasonTags.map((tag) => (
+                              <span key={`removed-${tag}`} className="chip">
+                                - {labelFromSnake(tag)}
+                              </span>
+                            ))}
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </section>
+
       <section className="card">
         <h2>Community Review Quotes</h2>
         {vendor.reviews.length === 0 ? (
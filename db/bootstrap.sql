@@ -1,8 +1,16 @@
 -- PeptideDB bootstrap
 -- Safe to run after schema.sql. Includes:
--- 1) profile table backfill (if missing)
--- 2) initial sample data
--- 3) read-only policies for anon/authenticated
+-- 1) profile table backfill (if missing), claim grade rationale, citation identifier columns, and the vendor rating promotion function
+-- 2) vendor review migration out of vendor_verifications
+-- 3) peptide search documents, triggers, and search functions
+-- 4) API keys, usage counters, and the quota check function
+-- 5) bulk peptide import batches and the transactional import function
+-- 6) regulatory status details and status change history
+-- 7) structured dosing columns
+-- 8) drug classes, peptide interactions, tracked clinical trials, the content change log, and generated-content provenance
+-- 9) background ingest jobs, the claim/complete worker functions, ingest run history, and scheduled-ingest locks
+-- 10) initial sample data
+-- 11) read-only policies for anon/authenticated
 
 CREATE TABLE IF NOT EXISTS peptide_profiles (
   peptide_id BIGINT PRIMARY KEY REFERENCES peptides(id) ON DELETE CASCADE,
@@ -26,13 +34,111 @@ CREATE TABLE IF NOT EXISTS peptide_claims (
   section TEXT NOT NULL,
   claim_text TEXT NOT NULL,
   evidence_grade evidence_grade,
+  grade_rationale TEXT,
   citation_id BIGINT NOT NULL REFERENCES citations(id) ON DELETE CASCADE,
   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
+ALTER TABLE peptide_claims ADD COLUMN IF NOT EXISTS grade_rationale TEXT;
+ALTER TABLE citations ADD COLUMN IF NOT EXISTS canonical_key TEXT;
+ALTER TABLE citations ADD COLUMN IF NOT EXISTS pmid TEXT;
+ALTER TABLE citations ADD COLUMN IF NOT EXISTS doi TEXT;
+ALTER TABLE citations ADD COLUMN IF NOT EXISTS nct_id TEXT;
+ALTER TABLE citations ADD COLUMN IF NOT EXISTS authors TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE citations ADD COLUMN IF NOT EXISTS journal TEXT;
+ALTER TABLE citations ADD COLUMN IF NOT EXISTS publication_type TEXT;
+ALTER TABLE citations ADD COLUMN IF NOT EXISTS enrollment INTEGER;
+-- Rows written before canonical keys keep a NULL key until the citation merge job backfills them.
+CREATE UNIQUE INDEX IF NOT EXISTS citations_canonical_key_idx ON citations (canonical_key);
+CREATE INDEX IF NOT EXISTS citations_pmid_idx ON citations (pmid);
+CREATE INDEX IF NOT EXISTS citations_doi_idx ON citations (doi);
+CREATE INDEX IF NOT EXISTS citations_nct_id_idx ON citations (nct_id);
+CREATE INDEX IF NOT EXISTS citations_source_url_idx ON citations (source_url);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'citations_publication_type_check'
+  ) THEN
+    ALTER TABLE citations
+      ADD CONSTRAINT citations_publication_type_check
+      CHECK (
+        publication_type IS NULL OR publication_type IN (
+          'JOURNAL_ARTICLE',
+          'CLINICAL_TRIAL',
+          'REGULATORY_LABEL',
+          'DATABASE_RECORD',
+          'SEARCH_RESULTS',
+          'COMMUNITY',
+          'WEB_PAGE'
+        )
+      );
+  END IF;
+END $$;
+
 ALTER TABLE peptides ADD COLUMN IF NOT EXISTS is_published BOOLEAN NOT NULL DEFAULT FALSE;
 ALTER TABLE peptides ADD COLUMN IF NOT EXISTS last_live_refresh_at TIMESTAMPTZ;
+ALTER TABLE peptides ADD COLUMN IF NOT EXISTS last_trials_refresh_at TIMESTAMPTZ;
+ALTER TABLE peptides ADD COLUMN IF NOT EXISTS last_enriched_at TIMESTAMPTZ;
+ALTER TABLE peptides ADD COLUMN IF NOT EXISTS last_social_refresh_at TIMESTAMPTZ;
 ALTER TABLE vendors ADD COLUMN IF NOT EXISTS is_published BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS last_social_refresh_at TIMESTAMPTZ;
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS last_website_refresh_at TIMESTAMPTZ;
+ALTER TABLE vendor_rating_snapshots ADD COLUMN IF NOT EXISTS scoring_version TEXT;
+ALTER TABLE vendor_rating_snapshots ADD COLUMN IF NOT EXISTS score_inputs JSONB;
+ALTER TABLE vendor_rating_snapshots ADD COLUMN IF NOT EXISTS rescore_batch_id TEXT;
+ALTER TABLE vendor_rating_snapshots ADD COLUMN IF NOT EXISTS promoted_at TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS vendor_rating_snapshots_vendor_id_calculated_at_idx ON vendor_rating_snapshots (vendor_id, calculated_at);
+CREATE INDEX IF NOT EXISTS vendor_rating_snapshots_rescore_batch_id_idx ON vendor_rating_snapshots (rescore_batch_id);
+
+-- Ingest snapshots written before scoring strategies were versioned all used the v1 weights.
+UPDATE vendor_rating_snapshots
+SET scoring_version = 'vendor_score_v1'
+WHERE scoring_version IS NULL
+  AND method_version IN ('vendor_website_ingest_v1', 'vendor_ugc_ingest_v1');
+
+-- Makes a re-score snapshot its vendor's current rating (lib/vendor-rescoring.ts). The old current
+-- row is cleared in the same transaction, so a vendor never ends up with zero or two current ratings.
+-- Returns the rating it replaced, NULL when there was none.
+CREATE OR REPLACE FUNCTION promote_vendor_rating_snapshot(snapshot_id BIGINT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_vendor_id BIGINT;
+  previous_rating NUMERIC;
+BEGIN
+  SELECT s.vendor_id INTO target_vendor_id FROM vendor_rating_snapshots s WHERE s.id = snapshot_id;
+  IF target_vendor_id IS NULL THEN
+    RAISE EXCEPTION 'Vendor rating snapshot % not found.', snapshot_id;
+  END IF;
+
+  -- Serializes promotions for the same vendor.
+  PERFORM 1 FROM vendors v WHERE v.id = target_vendor_id FOR UPDATE;
+
+  SELECT s.rating INTO previous_rating
+  FROM vendor_rating_snapshots s
+  WHERE s.vendor_id = target_vendor_id AND s.is_current = true
+  ORDER BY s.calculated_at DESC, s.id DESC
+  LIMIT 1;
+
+  UPDATE vendor_rating_snapshots
+  SET is_current = false
+  WHERE vendor_id = target_vendor_id AND is_current = true AND id <> snapshot_id;
+
+  UPDATE vendor_rating_snapshots
+  SET is_current = true, promoted_at = now()
+  WHERE id = snapshot_id;
+
+  RETURN previous_rating;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION promote_vendor_rating_snapshot(BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION promote_vendor_rating_snapshot(BIGINT) TO service_role;
 
 DELETE FROM vendors
 WHERE slug = 'unknown-source-vendor'
@@ -71,6 +177,117 @@ CREATE TABLE IF NOT EXISTS vendor_profiles (
   regions TEXT[] NOT NULL DEFAULT '{}'
 );
 
+CREATE TABLE IF NOT EXISTS vendor_reviews (
+  id BIGSERIAL PRIMARY KEY,
+  vendor_id BIGINT NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+  source TEXT NOT NULL,
+  community TEXT,
+  quote TEXT NOT NULL,
+  source_url TEXT NOT NULL,
+  author TEXT,
+  sentiment_label TEXT CHECK (sentiment_label IN ('positive', 'mixed', 'negative', 'neutral')),
+  sentiment_score NUMERIC(4, 3),
+  upvotes INTEGER,
+  comment_count INTEGER,
+  posted_at TIMESTAMPTZ NOT NULL,
+  ingested_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS vendor_reviews_vendor_id_posted_at_idx ON vendor_reviews (vendor_id, posted_at DESC);
+
+-- Casts for the migration below that return NULL instead of aborting the bootstrap on one bad value.
+CREATE OR REPLACE FUNCTION try_parse_jsonb(raw TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  RETURN raw::jsonb;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION try_parse_timestamptz(raw TEXT)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  RETURN NULLIF(btrim(raw), '')::timestamptz;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+-- Community review quotes used to be stored as JSON in vendor_verifications.value
+-- under verification_type = 'community_review_<source>'. Move them over once. One statement, so a
+-- row is only deleted together with its copy; malformed rows stay in vendor_verifications.
+WITH migrated AS (
+  SELECT
+    r.id,
+    r.vendor_id,
+    r.verification_type,
+    r.payload,
+    COALESCE(r.verified_at, try_parse_timestamptz(r.payload->>'createdAt')) AS posted_at
+  FROM (
+    SELECT id, vendor_id, verification_type, try_parse_jsonb(value) AS payload, verified_at
+    FROM vendor_verifications
+    WHERE verification_type LIKE 'community_review\_%'
+  ) AS r
+  WHERE jsonb_typeof(r.payload) = 'object'
+    AND NULLIF(btrim(r.payload->>'quote'), '') IS NOT NULL
+    AND NULLIF(btrim(r.payload->>'sourceUrl'), '') IS NOT NULL
+    AND COALESCE(r.verified_at, try_parse_timestamptz(r.payload->>'createdAt')) IS NOT NULL
+),
+inserted AS (
+  INSERT INTO vendor_reviews (
+    vendor_id,
+    source,
+    community,
+    quote,
+    source_url,
+    author,
+    sentiment_label,
+    sentiment_score,
+    upvotes,
+    comment_count,
+    posted_at
+  )
+  SELECT
+    r.vendor_id,
+    COALESCE(NULLIF(btrim(r.payload->>'source'), ''), replace(r.verification_type, 'community_review_', '')),
+    NULLIF(btrim(r.payload->>'community'), ''),
+    btrim(r.payload->>'quote'),
+    btrim(r.payload->>'sourceUrl'),
+    NULLIF(btrim(r.payload->>'author'), ''),
+    CASE
+      WHEN r.payload->>'sentimentLabel' IN ('positive', 'mixed', 'negative', 'neutral') THEN r.payload->>'sentimentLabel'
+      ELSE NULL
+    END,
+    CASE
+      WHEN jsonb_typeof(r.payload->'sentimentScore') = 'number' AND abs((r.payload->>'sentimentScore')::numeric) < 9.9995
+        THEN round((r.payload->>'sentimentScore')::numeric, 3)
+      ELSE NULL
+    END,
+    CASE
+      WHEN jsonb_typeof(r.payload->'upvotes') = 'number' AND abs((r.payload->>'upvotes')::numeric) < 2147483647
+        THEN (r.payload->>'upvotes')::numeric::integer
+      ELSE NULL
+    END,
+    CASE
+      WHEN jsonb_typeof(r.payload->'commentCount') = 'number' AND abs((r.payload->>'commentCount')::numeric) < 2147483647
+        THEN (r.payload->>'commentCount')::numeric::integer
+      ELSE NULL
+    END,
+    r.posted_at
+  FROM migrated r
+  RETURNING id
+)
+DELETE FROM vendor_verifications vv
+USING migrated m
+WHERE vv.id = m.id;
+
 DO $$
 BEGIN
   IF NOT EXISTS (
@@ -95,6 +312,1107 @@ BEGIN
   END IF;
 END $$;
 
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS peptide_search_documents (
+  peptide_id BIGINT PRIMARY KEY REFERENCES peptides(id) ON DELETE CASCADE,
+  slug TEXT NOT NULL,
+  name TEXT NOT NULL,
+  aliases TEXT NOT NULL DEFAULT '',
+  peptide_class TEXT NOT NULL DEFAULT '',
+  use_cases TEXT NOT NULL DEFAULT '',
+  intro TEXT NOT NULL DEFAULT '',
+  mechanism TEXT NOT NULL DEFAULT '',
+  document TSVECTOR NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS peptide_search_documents_document_idx ON peptide_search_documents USING GIN (document);
+CREATE INDEX IF NOT EXISTS peptide_search_documents_name_trgm_idx ON peptide_search_documents USING GIN (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS peptide_search_documents_aliases_trgm_idx ON peptide_search_documents USING GIN (aliases gin_trgm_ops);
+
+-- Names and aliases use the 'simple' config so brand/code names are not stemmed;
+-- prose fields use 'english'. Weights: A name/alias, B class/use cases, C intro, D mechanism.
+CREATE OR REPLACE FUNCTION refresh_peptide_search_document(target_peptide_id BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM peptide_search_documents WHERE peptide_id = target_peptide_id;
+
+  INSERT INTO peptide_search_documents (
+    peptide_id,
+    slug,
+    name,
+    aliases,
+    peptide_class,
+    use_cases,
+    intro,
+    mechanism,
+    document,
+    updated_at
+  )
+  SELECT
+    p.id,
+    p.slug,
+    p.canonical_name,
+    COALESCE(a.aliases, ''),
+    COALESCE(p.peptide_class, ''),
+    COALESCE(u.use_cases, ''),
+    COALESCE(pp.intro, ''),
+    COALESCE(pp.mechanism, ''),
+    setweight(to_tsvector('simple', p.canonical_name), 'A') ||
+      setweight(to_tsvector('simple', COALESCE(a.aliases, '')), 'A') ||
+      setweight(to_tsvector('english', COALESCE(p.peptide_class, '')), 'B') ||
+      setweight(to_tsvector('english', COALESCE(u.use_cases, '')), 'B') ||
+      setweight(to_tsvector('english', COALESCE(pp.intro, '')), 'C') ||
+      setweight(to_tsvector('english', COALESCE(pp.mechanism, '')), 'D'),
+    now()
+  FROM peptides p
+  LEFT JOIN peptide_profiles pp ON pp.peptide_id = p.id
+  LEFT JOIN LATERAL (
+    SELECT string_agg(pa.alias, ' | ' ORDER BY pa.alias) AS aliases
+    FROM peptide_aliases pa
+    WHERE pa.peptide_id = p.id
+  ) a ON true
+  LEFT JOIN LATERAL (
+    SELECT string_agg(DISTINCT uc.name, ' | ') AS use_cases
+    FROM peptide_use_cases puc
+    JOIN use_cases uc ON uc.id = puc.use_case_id
+    WHERE puc.peptide_id = p.id
+  ) u ON true
+  WHERE p.id = target_peptide_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_peptide_search_document()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'peptides' THEN
+    IF TG_OP <> 'DELETE' THEN
+      PERFORM refresh_peptide_search_document(NEW.id);
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_peptide_search_document(OLD.peptide_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.peptide_id IS DISTINCT FROM OLD.peptide_id) THEN
+    PERFORM refresh_peptide_search_document(NEW.peptide_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_use_case_search_documents()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM refresh_peptide_search_document(puc.peptide_id)
+  FROM (SELECT DISTINCT peptide_id FROM peptide_use_cases WHERE use_case_id = NEW.id) AS puc;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS peptides_search_document_sync ON peptides;
+CREATE TRIGGER peptides_search_document_sync
+AFTER INSERT OR UPDATE ON peptides
+FOR EACH ROW EXECUTE FUNCTION sync_peptide_search_document();
+
+DROP TRIGGER IF EXISTS peptide_aliases_search_document_sync ON peptide_aliases;
+CREATE TRIGGER peptide_aliases_search_document_sync
+AFTER INSERT OR UPDATE OR DELETE ON peptide_aliases
+FOR EACH ROW EXECUTE FUNCTION sync_peptide_search_document();
+
+DROP TRIGGER IF EXISTS peptide_profiles_search_document_sync ON peptide_profiles;
+CREATE TRIGGER peptide_profiles_search_document_sync
+AFTER INSERT OR UPDATE OR DELETE ON peptide_profiles
+FOR EACH ROW EXECUTE FUNCTION sync_peptide_search_document();
+
+DROP TRIGGER IF EXISTS peptide_use_cases_search_document_sync ON peptide_use_cases;
+CREATE TRIGGER peptide_use_cases_search_document_sync
+AFTER INSERT OR UPDATE OR DELETE ON peptide_use_cases
+FOR EACH ROW EXECUTE FUNCTION sync_peptide_search_document();
+
+DROP TRIGGER IF EXISTS use_cases_search_document_sync ON use_cases;
+CREATE TRIGGER use_cases_search_document_sync
+AFTER UPDATE OF name ON use_cases
+FOR EACH ROW EXECUTE FUNCTION sync_use_case_search_documents();
+
+-- Ranked search: full-text rank plus trigram similarity on name/aliases for typo tolerance.
+-- Snippets are marked with [[ ]] so the app can highlight them without rendering HTML.
+CREATE OR REPLACE FUNCTION search_peptides(search_query TEXT, max_results INTEGER DEFAULT 60)
+RETURNS TABLE (slug TEXT, name TEXT, rank REAL, snippet TEXT, matched_alias TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT
+      btrim(search_query) AS raw,
+      lower(btrim(search_query)) AS lowered,
+      websearch_to_tsquery('english', search_query) || websearch_to_tsquery('simple', search_query) AS ts
+  ),
+  scored AS (
+    SELECT
+      d.slug,
+      d.name,
+      d.aliases,
+      d.peptide_class,
+      d.intro,
+      d.mechanism,
+      q.ts,
+      q.raw,
+      ts_rank_cd(d.document, q.ts, 32) AS text_rank,
+      similarity(d.name, q.raw) AS name_similarity,
+      word_similarity(q.raw, d.aliases) AS alias_similarity,
+      CASE WHEN lower(d.name) = q.lowered THEN 1 ELSE 0 END AS exact_boost,
+      CASE WHEN strpos(lower(d.name), q.lowered) > 0 OR strpos(lower(d.aliases), q.lowered) > 0 THEN 0.5 ELSE 0 END AS substring_boost
+    FROM peptide_search_documents d
+    JOIN peptides p ON p.id = d.peptide_id AND p.is_published = true
+    CROSS JOIN q
+    WHERE q.raw <> ''
+      AND (
+        d.document @@ q.ts
+        OR d.name % q.raw
+        OR q.raw <% d.aliases
+        OR strpos(lower(d.name), q.lowered) > 0
+        OR strpos(lower(d.aliases), q.lowered) > 0
+      )
+  )
+  SELECT
+    s.slug,
+    s.name,
+    (s.exact_boost + s.substring_boost + s.text_rank + GREATEST(s.name_similarity, s.alias_similarity * 0.85))::REAL AS rank,
+    ts_headline(
+      'english',
+      COALESCE(NULLIF(s.intro, ''), NULLIF(s.mechanism, ''), s.peptide_class),
+      s.ts,
+      'StartSel=[[, StopSel=]], MaxWords=32, MinWords=14, MaxFragments=1, FragmentDelimiter=" ... "'
+    ) AS snippet,
+    CASE
+      WHEN s.alias_similarity > s.name_similarity AND s.alias_similarity >= 0.3 THEN (
+        SELECT alias_term
+        FROM unnest(string_to_array(s.aliases, ' | ')) AS alias_term
+        ORDER BY similarity(alias_term, s.raw) DESC
+        LIMIT 1
+      )
+      ELSE NULL
+    END AS matched_alias
+  FROM scored s
+  ORDER BY rank DESC, s.name ASC
+  LIMIT GREATEST(1, max_results);
+$$;
+
+-- "Did you mean": closest published name or alias when the query is not already one.
+CREATE OR REPLACE FUNCTION suggest_peptide_search_term(search_query TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT p.canonical_name AS term
+    FROM peptides p
+    WHERE p.is_published = true
+    UNION
+    SELECT pa.alias AS term
+    FROM peptide_aliases pa
+    JOIN peptides p ON p.id = pa.peptide_id AND p.is_published = true
+  )
+  SELECT c.term
+  FROM candidates c
+  WHERE NOT EXISTS (
+      SELECT 1 FROM candidates exact
+      WHERE lower(exact.term) = lower(btrim(search_query))
+    )
+    AND similarity(c.term, btrim(search_query)) >= 0.45
+  ORDER BY similarity(c.term, btrim(search_query)) DESC, c.term ASC
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION refresh_peptide_search_document(BIGINT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION sync_peptide_search_document() FROM PUBLIC;
+REVOKE ALL ON FUNCTION sync_use_case_search_documents() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION search_peptides(TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION suggest_peptide_search_term(TEXT) TO anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id BIGSERIAL PRIMARY KEY,
+  label TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute > 0),
+  monthly_quota INTEGER NOT NULL DEFAULT 10000 CHECK (monthly_quota > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  api_key_id BIGINT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  endpoint TEXT NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  last_request_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (api_key_id, period_start, endpoint)
+);
+
+CREATE TABLE IF NOT EXISTS api_key_rate_windows (
+  api_key_id BIGINT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  window_start TIMESTAMPTZ NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (api_key_id, window_start)
+);
+
+-- One call per API request: validates the key, enforces the monthly quota and the
+-- per-minute window, and bumps the per-endpoint usage counter. The key row is locked
+-- so concurrent requests from different serverless instances are counted exactly once.
+CREATE OR REPLACE FUNCTION consume_api_key_request(key_digest TEXT, endpoint_path TEXT)
+RETURNS TABLE (
+  key_id BIGINT,
+  allowed BOOLEAN,
+  denial_reason TEXT,
+  rate_limit INTEGER,
+  rate_remaining INTEGER,
+  quota_limit INTEGER,
+  quota_remaining INTEGER,
+  rate_resets_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  key_row api_keys%ROWTYPE;
+  current_window TIMESTAMPTZ := date_trunc('minute', now());
+  current_period DATE := date_trunc('month', now())::date;
+  window_count INTEGER;
+  month_count INTEGER;
+BEGIN
+  SELECT * INTO key_row FROM api_keys k WHERE k.key_hash = key_digest FOR UPDATE;
+  IF key_row.id IS NULL THEN
+    RETURN QUERY SELECT NULL::BIGINT, FALSE, 'invalid_key'::TEXT, 0, 0, 0, 0, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF key_row.revoked_at IS NOT NULL THEN
+    RETURN QUERY SELECT key_row.id, FALSE, 'revoked_key'::TEXT, key_row.rate_limit_per_minute, 0, key_row.monthly_quota, 0, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(u.request_count), 0)::INTEGER INTO month_count
+  FROM api_key_usage u
+  WHERE u.api_key_id = key_row.id
+    AND u.period_start = current_period;
+
+  IF month_count >= key_row.monthly_quota THEN
+    RETURN QUERY SELECT
+      key_row.id, FALSE, 'monthly_quota_exceeded'::TEXT,
+      key_row.rate_limit_per_minute, 0, key_row.monthly_quota, 0,
+      (current_period + INTERVAL '1 month')::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  INSERT INTO api_key_rate_windows AS w (api_key_id, window_start, request_count)
+  VALUES (key_row.id, current_window, 1)
+  ON CONFLICT (api_key_id, window_start) DO UPDATE SET request_count = w.request_count + 1
+  RETURNING w.request_count INTO window_count;
+
+  IF window_count > key_row.rate_limit_per_minute THEN
+    RETURN QUERY SELECT
+      key_row.id, FALSE, 'rate_limited'::TEXT,
+      key_row.rate_limit_per_minute, 0, key_row.monthly_quota, key_row.monthly_quota - month_count,
+      current_window + INTERVAL '1 minute';
+    RETURN;
+  END IF;
+
+  INSERT INTO api_key_usage AS u (api_key_id, period_start, endpoint, request_count, last_request_at)
+  VALUES (key_row.id, current_period, endpoint_path, 1, now())
+  ON CONFLICT (api_key_id, period_start, endpoint) DO UPDATE
+    SET request_count = u.request_count + 1,
+        last_request_at = now();
+
+  UPDATE api_keys SET last_used_at = now() WHERE id = key_row.id;
+  DELETE FROM api_key_rate_windows w
+  WHERE w.api_key_id = key_row.id
+    AND w.window_start < current_window - INTERVAL '1 hour';
+
+  RETURN QUERY SELECT
+    key_row.id, TRUE, NULL::TEXT,
+    key_row.rate_limit_per_minute, key_row.rate_limit_per_minute - window_count,
+    key_row.monthly_quota, key_row.monthly_quota - month_count - 1,
+    current_window + INTERVAL '1 minute';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION consume_api_key_request(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_api_key_request(TEXT, TEXT) TO service_role;
+
+CREATE TABLE IF NOT EXISTS peptide_import_batches (
+  id BIGSERIAL PRIMARY KEY,
+  file_name TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('csv', 'json')),
+  row_count INTEGER NOT NULL DEFAULT 0,
+  seeds JSONB NOT NULL DEFAULT '[]',
+  errors JSONB NOT NULL DEFAULT '[]',
+  diff JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  applied_at TIMESTAMPTZ
+);
+
+-- Applies validated import seeds (see lib/peptide-import.ts) with the same upsert rules as the
+-- expanded dataset ingest. The whole call is one transaction: any failing row rolls back every row,
+-- including the claim on the batch, and a second apply of the same batch fails at the claim.
+-- Existing peptides keep their published flag; only new ones are published.
+DROP FUNCTION IF EXISTS import_peptide_seeds(JSONB);
+CREATE OR REPLACE FUNCTION import_peptide_seeds(target_batch_id BIGINT, seeds JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  seed JSONB;
+  status_entry JSONB;
+  target_peptide_id BIGINT;
+  target_use_case_id BIGINT;
+  target_citation_id BIGINT;
+  target_jurisdiction_id BIGINT;
+  us_jurisdiction_id BIGINT;
+  next_status peptide_status;
+  processed INTEGER := 0;
+BEGIN
+  UPDATE peptide_import_batches b
+  SET applied_at = now()
+  WHERE b.id = target_batch_id
+    AND b.applied_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % was already applied.', target_batch_id;
+  END IF;
+
+  SELECT j.id INTO us_jurisdiction_id FROM jurisdictions j WHERE j.code = 'US';
+  IF us_jurisdiction_id IS NULL THEN
+    RAISE EXCEPTION 'US jurisdiction missing.';
+  END IF;
+
+  FOR seed IN SELECT value FROM jsonb_array_elements(seeds) LOOP
+    INSERT INTO peptides (slug, canonical_name, peptide_class, is_published)
+    VALUES (seed->>'slug', seed->>'name', seed->>'peptideClass', TRUE)
+    ON CONFLICT (slug) DO UPDATE
+      SET canonical_name = EXCLUDED.canonical_name,
+          peptide_class = EXCLUDED.peptide_class
+    RETURNING id INTO target_peptide_id;
+
+    INSERT INTO peptide_profiles (peptide_id, intro, mechanism, effectiveness_summary, long_description)
+    VALUES (
+      target_peptide_id,
+      seed->>'intro',
+      seed->>'mechanism',
+      seed->>'effectivenessSummary',
+      seed->>'longDescription'
+    )
+    ON CONFLICT (peptide_id) DO UPDATE
+      SET intro = EXCLUDED.intro,
+          mechanism = EXCLUDED.mechanism,
+          effectiveness_summary = EXCLUDED.effectiveness_summary,
+          long_description = EXCLUDED.long_description;
+
+    INSERT INTO peptide_aliases (peptide_id, alias)
+    SELECT target_peptide_id, a.alias_value
+    FROM jsonb_array_elements_text(COALESCE(seed->'aliases', '[]'::jsonb)) AS a(alias_value)
+    ON CONFLICT (peptide_id, alias) DO NOTHING;
+
+    FOR status_entry IN SELECT value FROM jsonb_array_elements(COALESCE(seed->'statuses', '[]'::jsonb)) LOOP
+      SELECT j.id INTO target_jurisdiction_id FROM jurisdictions j WHERE j.code = status_entry->>'code';
+      CONTINUE WHEN target_jurisdiction_id IS NULL;
+      next_status := (status_entry->>'status')::peptide_status;
+
+      DELETE FROM peptide_regulatory_status prs
+      WHERE prs.peptide_id = target_peptide_id
+        AND prs.jurisdiction_id = target_jurisdiction_id
+        AND prs.status <> next_status;
+
+      INSERT INTO peptide_regulatory_status (peptide_id, jurisdiction_id, status, notes)
+      VALUES (target_peptide_id, target_jurisdiction_id, next_status, 'Bulk import (' || (seed->>'statusModel') || ').')
+      ON CONFLICT (peptide_id, jurisdiction_id, status) DO UPDATE SET notes = EXCLUDED.notes;
+    END LOOP;
+
+    INSERT INTO use_cases (slug, name)
+    VALUES (seed->'useCase'->>'slug', seed->'useCase'->>'name')
+    ON CONFLICT (slug) DO UPDATE SET name = EXCLUDED.name
+    RETURNING id INTO target_use_case_id;
+
+    INSERT INTO peptide_use_cases (peptide_id, use_case_id, jurisdiction_id, evidence_grade, consumer_summary, clinical_summary)
+    VALUES (
+      target_peptide_id,
+      target_use_case_id,
+      us_jurisdiction_id,
+      (seed->'useCase'->>'evidenceGrade')::evidence_grade,
+      seed->'useCase'->>'consumerSummary',
+      seed->'useCase'->>'clinicalSummary'
+    )
+    ON CONFLICT (peptide_id, use_case_id, jurisdiction_id) DO UPDATE
+      SET evidence_grade = EXCLUDED.evidence_grade,
+          consumer_summary = EXCLUDED.consumer_summary,
+          clinical_summary = EXCLUDED.clinical_summary;
+
+    UPDATE peptide_dosing_entries d
+    SET route = seed->'dosing'->>'route',
+        starting_dose = seed->'dosing'->>'startingDose',
+        maintenance_dose = seed->'dosing'->>'maintenanceDose',
+        frequency = seed->'dosing'->>'frequency',
+        notes = seed->'dosing'->>'notes',
+        -- The parsed amounts described the old text; the app re-parses unparsed rows (lib/structured-dosing.ts).
+        dose_unit = NULL,
+        starting_dose_amount = NULL,
+        maintenance_dose_amount = NULL,
+        max_dose_amount = NULL,
+        route_code = NULL,
+        interval_days = NULL,
+        titration_steps = '[]',
+        parse_confidence = NULL,
+        parse_issues = '{}',
+        parsed_at = NULL,
+        reviewed_at = NULL
+    WHERE d.peptide_id = target_peptide_id
+      AND d.jurisdiction_id = us_jurisdiction_id
+      AND d.context = (seed->'dosing'->>'context')::dosing_context
+      AND d.population = seed->'dosing'->>'population';
+    IF NOT FOUND THEN
+      INSERT INTO peptide_dosing_entries (
+        peptide_id, jurisdiction_id, context, population, route, starting_dose, maintenance_dose, frequency, notes
+      )
+      VALUES (
+        target_peptide_id,
+        us_jurisdiction_id,
+        (seed->'dosing'->>'context')::dosing_context,
+        seed->'dosing'->>'population',
+        seed->'dosing'->>'route',
+        seed->'dosing'->>'startingDose',
+        seed->'dosing'->>'maintenanceDose',
+        seed->'dosing'->>'frequency',
+        seed->'dosing'->>'notes'
+      );
+    END IF;
+
+    INSERT INTO peptide_safety_entries (peptide_id, jurisdiction_id, adverse_effects, contraindications, interactions, monitoring)
+    VALUES (
+      target_peptide_id,
+      us_jurisdiction_id,
+      seed->'safety'->>'adverseEffects',
+      seed->'safety'->>'contraindications',
+      seed->'safety'->>'interactions',
+      seed->'safety'->>'monitoring'
+    )
+    ON CONFLICT (peptide_id, jurisdiction_id) DO UPDATE
+      SET adverse_effects = EXCLUDED.adverse_effects,
+          contraindications = EXCLUDED.contraindications,
+          interactions = EXCLUDED.interactions,
+          monitoring = EXCLUDED.monitoring;
+
+    -- Same matching as lib/citations.ts: canonical key first, then the URL of rows written before keys existed.
+    SELECT c.id INTO target_citation_id
+    FROM citations c
+    WHERE c.canonical_key = seed->'claim'->>'canonicalKey'
+       OR c.source_url = seed->'claim'->>'sourceUrl'
+    ORDER BY (c.canonical_key IS NOT DISTINCT FROM seed->'claim'->>'canonicalKey') DESC, c.id
+    LIMIT 1;
+    IF target_citation_id IS NULL THEN
+      INSERT INTO citations (
+        source_url,
+        source_title,
+        published_at,
+        canonical_key,
+        pmid,
+        doi,
+        nct_id,
+        publication_type
+      )
+      VALUES (
+        seed->'claim'->>'sourceUrl',
+        NULLIF(seed->'claim'->>'sourceTitle', ''),
+        (seed->'claim'->>'publishedAt')::date,
+        NULLIF(seed->'claim'->>'canonicalKey', ''),
+        NULLIF(seed->'claim'->>'pmid', ''),
+        NULLIF(seed->'claim'->>'doi', ''),
+        NULLIF(seed->'claim'->>'nctId', ''),
+        NULLIF(seed->'claim'->>'publicationType', '')
+      )
+      RETURNING id INTO target_citation_id;
+    END IF;
+
+    UPDATE peptide_claims pc
+    SET evidence_grade = (seed->'claim'->>'evidenceGrade')::evidence_grade,
+        citation_id = target_citation_id
+    WHERE pc.peptide_id = target_peptide_id
+      AND pc.section = seed->'claim'->>'section'
+      AND pc.claim_text = seed->'claim'->>'claimText';
+    IF NOT FOUND THEN
+      INSERT INTO peptide_claims (peptide_id, section, claim_text, evidence_grade, citation_id)
+      VALUES (
+        target_peptide_id,
+        seed->'claim'->>'section',
+        seed->'claim'->>'claimText',
+        (seed->'claim'->>'evidenceGrade')::evidence_grade,
+        target_citation_id
+      );
+    END IF;
+
+    processed := processed + 1;
+  END LOOP;
+
+  RETURN processed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_peptide_seeds(BIGINT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION import_peptide_seeds(BIGINT, JSONB) TO service_role;
+
+ALTER TABLE peptide_regulatory_status ADD COLUMN IF NOT EXISTS approval_date DATE;
+ALTER TABLE peptide_regulatory_status ADD COLUMN IF NOT EXISTS approved_indications TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE peptide_regulatory_status ADD COLUMN IF NOT EXISTS brand_names TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE peptide_regulatory_status ADD COLUMN IF NOT EXISTS regulator_reference TEXT;
+ALTER TABLE peptide_regulatory_status ADD COLUMN IF NOT EXISTS source_url TEXT;
+ALTER TABLE peptide_regulatory_status ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE TABLE IF NOT EXISTS peptide_regulatory_status_history (
+  id BIGSERIAL PRIMARY KEY,
+  peptide_id BIGINT NOT NULL REFERENCES peptides(id) ON DELETE CASCADE,
+  jurisdiction_id BIGINT NOT NULL REFERENCES jurisdictions(id),
+  previous_status peptide_status,
+  status peptide_status NOT NULL,
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  regulator_reference TEXT,
+  source_url TEXT,
+  notes TEXT,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS peptide_regulatory_status_history_peptide_id_idx
+  ON peptide_regulatory_status_history (peptide_id, jurisdiction_id, recorded_at);
+
+-- Statuses existing before history was tracked get a single starting entry.
+INSERT INTO peptide_regulatory_status_history (peptide_id, jurisdiction_id, status, effective_date, regulator_reference, source_url, notes)
+SELECT
+  prs.peptide_id,
+  prs.jurisdiction_id,
+  prs.status,
+  CASE WHEN prs.status IN ('US_FDA_APPROVED', 'NON_US_APPROVED') THEN COALESCE(prs.approval_date, CURRENT_DATE) ELSE CURRENT_DATE END,
+  prs.regulator_reference,
+  prs.source_url,
+  prs.notes
+FROM peptide_regulatory_status prs
+WHERE NOT EXISTS (
+  SELECT 1 FROM peptide_regulatory_status_history h
+  WHERE h.peptide_id = prs.peptide_id
+    AND h.jurisdiction_id = prs.jurisdiction_id
+);
+
+-- Ingest paths replace a status by deleting the old row and inserting the new one, so the
+-- previous status comes from the last history entry rather than OLD. Only status transitions are
+-- recorded and entries are never updated; edits that keep the status live on the status row alone.
+-- An approval takes effect on its approval date; any other transition on the day it is recorded.
+CREATE OR REPLACE FUNCTION record_regulatory_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  latest peptide_regulatory_status_history%ROWTYPE;
+BEGIN
+  SELECT * INTO latest
+  FROM peptide_regulatory_status_history h
+  WHERE h.peptide_id = NEW.peptide_id
+    AND h.jurisdiction_id = NEW.jurisdiction_id
+  ORDER BY h.recorded_at DESC, h.id DESC
+  LIMIT 1;
+
+  IF latest.id IS NULL OR latest.status <> NEW.status THEN
+    INSERT INTO peptide_regulatory_status_history (
+      peptide_id, jurisdiction_id, previous_status, status, effective_date, regulator_reference, source_url, notes
+    )
+    VALUES (
+      NEW.peptide_id,
+      NEW.jurisdiction_id,
+      latest.status,
+      NEW.status,
+      CASE
+        WHEN NEW.status IN ('US_FDA_APPROVED', 'NON_US_APPROVED') THEN COALESCE(NEW.approval_date, CURRENT_DATE)
+        ELSE CURRENT_DATE
+      END,
+      NEW.regulator_reference,
+      NEW.source_url,
+      NEW.notes
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS peptide_regulatory_status_history_sync ON peptide_regulatory_status;
+CREATE TRIGGER peptide_regulatory_status_history_sync
+AFTER INSERT OR UPDATE ON peptide_regulatory_status
+FOR EACH ROW EXECUTE FUNCTION record_regulatory_status_change();
+
+-- Replaces a peptide's status in one jurisdiction in a single transaction (one status per
+-- jurisdiction), so a failed write never leaves the jurisdiction without a status. Returns the
+-- status it replaced, or NULL when there was none.
+CREATE OR REPLACE FUNCTION set_regulatory_status(
+  target_peptide_id BIGINT,
+  target_jurisdiction_id BIGINT,
+  next_status peptide_status,
+  next_approval_date DATE,
+  next_approved_indications TEXT[],
+  next_brand_names TEXT[],
+  next_regulator_reference TEXT,
+  next_source_url TEXT,
+  next_notes TEXT
+)
+RETURNS peptide_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  replaced_status peptide_status;
+BEGIN
+  SELECT prs.status INTO replaced_status
+  FROM peptide_regulatory_status prs
+  WHERE prs.peptide_id = target_peptide_id
+    AND prs.jurisdiction_id = target_jurisdiction_id
+  ORDER BY (prs.status = next_status), prs.id
+  LIMIT 1
+  FOR UPDATE;
+
+  DELETE FROM peptide_regulatory_status prs
+  WHERE prs.peptide_id = target_peptide_id
+    AND prs.jurisdiction_id = target_jurisdiction_id
+    AND prs.status <> next_status;
+
+  INSERT INTO peptide_regulatory_status (
+    peptide_id, jurisdiction_id, status, approval_date, approved_indications, brand_names,
+    regulator_reference, source_url, notes, updated_at
+  )
+  VALUES (
+    target_peptide_id,
+    target_jurisdiction_id,
+    next_status,
+    next_approval_date,
+    COALESCE(next_approved_indications, '{}'),
+    COALESCE(next_brand_names, '{}'),
+    next_regulator_reference,
+    next_source_url,
+    next_notes,
+    now()
+  )
+  ON CONFLICT (peptide_id, jurisdiction_id, status) DO UPDATE
+    SET approval_date = EXCLUDED.approval_date,
+        approved_indications = EXCLUDED.approved_indications,
+        brand_names = EXCLUDED.brand_names,
+        regulator_reference = EXCLUDED.regulator_reference,
+        source_url = EXCLUDED.source_url,
+        notes = EXCLUDED.notes,
+        updated_at = EXCLUDED.updated_at;
+
+  RETURN replaced_status;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION set_regulatory_status(BIGINT, BIGINT, peptide_status, DATE, TEXT[], TEXT[], TEXT, TEXT, TEXT)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_regulatory_status(BIGINT, BIGINT, peptide_status, DATE, TEXT[], TEXT[], TEXT, TEXT, TEXT)
+  TO service_role;
+
+-- Parsed by the app (lib/structured-dosing.ts); rows stay unparsed until the admin parse job runs.
+ALTER TABLE peptide_dosing_entries ADD COLUMN IF NOT EXISTS dose_unit TEXT;
+ALTER TABLE peptide_dosing_entries ADD COLUMN IF NOT EXISTS starting_dose_amount NUMERIC;
+ALTER TABLE peptide_dosing_entries ADD COLUMN IF NOT EXISTS maintenance_dose_amount NUMERIC;
+ALTER TABLE peptide_dosing_entries ADD COLUMN IF NOT EXISTS max_dose_amount NUMERIC;
+ALTER TABLE peptide_dosing_entries ADD COLUMN IF NOT EXISTS route_code TEXT;
+ALTER TABLE peptide_dosing_entries ADD COLUMN IF NOT EXISTS interval_days NUMERIC;
+ALTER TABLE peptide_dosing_entries ADD COLUMN IF NOT EXISTS titration_steps JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE peptide_dosing_entries ADD COLUMN IF NOT EXISTS parse_confidence TEXT;
+ALTER TABLE peptide_dosing_entries ADD COLUMN IF NOT EXISTS parse_issues TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE peptide_dosing_entries ADD COLUMN IF NOT EXISTS parsed_at TIMESTAMPTZ;
+ALTER TABLE peptide_dosing_entries ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS peptide_dosing_entries_review_idx ON peptide_dosing_entries (parse_confidence) WHERE reviewed_at IS NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'peptide_dosing_entries_dose_unit_check') THEN
+    ALTER TABLE peptide_dosing_entries
+      ADD CONSTRAINT peptide_dosing_entries_dose_unit_check CHECK (dose_unit IN ('mg', 'mcg', 'IU'));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'peptide_dosing_entries_route_code_check') THEN
+    ALTER TABLE peptide_dosing_entries
+      ADD CONSTRAINT peptide_dosing_entries_route_code_check
+      CHECK (route_code IN ('SUBCUTANEOUS', 'INTRAMUSCULAR', 'INTRAVENOUS', 'ORAL', 'INTRANASAL', 'TOPICAL', 'OTHER'));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'peptide_dosing_entries_parse_confidence_check') THEN
+    ALTER TABLE peptide_dosing_entries
+      ADD CONSTRAINT peptide_dosing_entries_parse_confidence_check CHECK (parse_confidence IN ('high', 'medium', 'low'));
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS drug_classes (
+  id BIGSERIAL PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  match_terms TEXT[] NOT NULL DEFAULT '{}'
+);
+
+CREATE TABLE IF NOT EXISTS peptide_interactions (
+  id BIGSERIAL PRIMARY KEY,
+  peptide_id BIGINT NOT NULL REFERENCES peptides(id) ON DELETE CASCADE,
+  interacting_peptide_id BIGINT REFERENCES peptides(id) ON DELETE CASCADE,
+  drug_class_id BIGINT REFERENCES drug_classes(id) ON DELETE CASCADE,
+  severity TEXT NOT NULL CHECK (severity IN ('MAJOR', 'MODERATE', 'MINOR')),
+  mechanism TEXT NOT NULL,
+  management TEXT,
+  evidence_grade evidence_grade NOT NULL DEFAULT 'I',
+  citation_id BIGINT REFERENCES citations(id) ON DELETE SET NULL,
+  source TEXT NOT NULL CHECK (source IN ('OPENFDA_LABEL', 'MANUAL')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((interacting_peptide_id IS NULL) <> (drug_class_id IS NULL)),
+  CHECK (interacting_peptide_id IS NULL OR interacting_peptide_id <> peptide_id)
+);
+
+CREATE INDEX IF NOT EXISTS peptide_interactions_peptide_idx ON peptide_interactions (peptide_id);
+
+-- Registrations followed by the trial tracker (lib/clinical-trials.ts), one row per NCT ID.
+CREATE TABLE IF NOT EXISTS clinical_trials (
+  id BIGSERIAL PRIMARY KEY,
+  nct_id TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  phases TEXT[] NOT NULL DEFAULT '{}', -- ClinicalTrials.gov codes: PHASE1, PHASE2, EARLY_PHASE1, NA
+  overall_status TEXT NOT NULL, -- ClinicalTrials.gov code: RECRUITING, COMPLETED, ...
+  study_type TEXT,
+  enrollment INTEGER,
+  conditions TEXT[] NOT NULL DEFAULT '{}',
+  sponsor TEXT,
+  start_date DATE,
+  completion_date DATE,
+  has_results BOOLEAN NOT NULL DEFAULT FALSE,
+  last_update_posted_at DATE,
+  last_checked_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS peptide_clinical_trials (
+  peptide_id BIGINT NOT NULL REFERENCES peptides(id) ON DELETE CASCADE,
+  trial_id BIGINT NOT NULL REFERENCES clinical_trials(id) ON DELETE CASCADE,
+  PRIMARY KEY (peptide_id, trial_id)
+);
+
+CREATE INDEX IF NOT EXISTS peptide_clinical_trials_trial_idx ON peptide_clinical_trials (trial_id);
+
+-- Append-only; the tracker writes one row per detected transition.
+CREATE TABLE IF NOT EXISTS clinical_trial_events (
+  id BIGSERIAL PRIMARY KEY,
+  trial_id BIGINT NOT NULL REFERENCES clinical_trials(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('STATUS_CHANGED', 'RESULTS_POSTED')),
+  previous_value TEXT,
+  new_value TEXT,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS clinical_trial_events_trial_idx ON clinical_trial_events (trial_id, detected_at);
+
+-- Append-only public change feed, written by the admin actions and ingest jobs (lib/content-changes.ts).
+CREATE TABLE IF NOT EXISTS content_changes (
+  id BIGSERIAL PRIMARY KEY,
+  entity_type TEXT NOT NULL CHECK (entity_type IN (
+    'PEPTIDE', 'REGULATORY_STATUS', 'USE_CASE', 'DOSING', 'SAFETY', 'CLAIM', 'INTERACTION',
+    'CLINICAL_TRIAL', 'VENDOR', 'VENDOR_LISTING', 'VENDOR_RATING'
+  )),
+  entity_id BIGINT, -- row id in the entity's table, when there is one
+  peptide_id BIGINT REFERENCES peptides(id) ON DELETE CASCADE,
+  vendor_id BIGINT REFERENCES vendors(id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  old_summary TEXT,
+  new_summary TEXT,
+  source TEXT NOT NULL, -- ADMIN or the ingest job, e.g. LIVE_EVIDENCE
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (peptide_id IS NOT NULL OR vendor_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS content_changes_changed_at_idx ON content_changes (changed_at DESC);
+CREATE INDEX IF NOT EXISTS content_changes_peptide_idx ON content_changes (peptide_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS content_changes_vendor_idx ON content_changes (vendor_id, changed_at DESC);
+
+-- Which external source fed each passage of the generated profile text (lib/content-provenance.ts).
+-- Replaced per peptide on every enrichment run; excerpts are matched against the live text when rendered.
+CREATE TABLE IF NOT EXISTS peptide_content_provenance (
+  id BIGSERIAL PRIMARY KEY,
+  peptide_id BIGINT NOT NULL REFERENCES peptides(id) ON DELETE CASCADE,
+  field TEXT NOT NULL CHECK (field IN ('intro', 'mechanism', 'effectiveness_summary', 'long_description')),
+  position INTEGER NOT NULL DEFAULT 0,
+  source TEXT NOT NULL CHECK (source IN (
+    'CLINICALTRIALS', 'PUBMED', 'OPENFDA', 'PUBCHEM', 'CHEMBL', 'WIKIPEDIA', 'NCI', 'GROKIPEDIA', 'PEPTIWIKI', 'HUBERMAN_AI'
+  )),
+  source_url TEXT,
+  excerpt TEXT NOT NULL,
+  fetched_at TIMESTAMPTZ NOT NULL,
+  generator_version TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS peptide_content_provenance_peptide_idx ON peptide_content_provenance (peptide_id, field, position);
+
+-- Background ingest jobs (lib/job-queue.ts, lib/ingest-jobs.ts). A job is split into one item per
+-- peptide/vendor so a run survives timeouts and can be resumed, retried, or cancelled item by item.
+CREATE TABLE IF NOT EXISTS ingest_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  kind TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'QUEUED' CHECK (status IN ('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED')),
+  params JSONB NOT NULL DEFAULT '{}',
+  chunk_size INTEGER NOT NULL DEFAULT 5 CHECK (chunk_size > 0),
+  total_items INTEGER NOT NULL DEFAULT 0,
+  processed_items INTEGER NOT NULL DEFAULT 0,
+  failed_items INTEGER NOT NULL DEFAULT 0,
+  counters JSONB NOT NULL DEFAULT '{}', -- summed per-item result counters
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ingest_jobs_status_idx ON ingest_jobs (status, created_at);
+
+-- At most one queued or running job per kind, so two jobs never ingest the same peptides side by
+-- side. Duplicates left from before the index existed are cancelled, keeping the oldest.
+UPDATE ingest_jobs j
+SET status = 'CANCELLED', error = 'Cancelled: another job of this kind was already active.', finished_at = now(), updated_at = now()
+WHERE j.status IN ('QUEUED', 'RUNNING')
+  AND EXISTS (
+    SELECT 1 FROM ingest_jobs older
+    WHERE older.kind = j.kind AND older.status IN ('QUEUED', 'RUNNING') AND older.id < j.id
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS ingest_jobs_one_active_per_kind_idx
+  ON ingest_jobs (kind) WHERE status IN ('QUEUED', 'RUNNING');
+
+CREATE TABLE IF NOT EXISTS ingest_job_items (
+  id BIGSERIAL PRIMARY KEY,
+  job_id BIGINT NOT NULL REFERENCES ingest_jobs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  item_key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED', 'CANCELLED')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  counters JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  claimed_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  UNIQUE (job_id, item_key)
+);
+
+CREATE INDEX IF NOT EXISTS ingest_job_items_job_idx ON ingest_job_items (job_id, status, position);
+
+-- Creates a job and its items in one transaction, so a failed item insert never leaves a job
+-- without items. A second active job of the same kind fails on ingest_jobs_one_active_per_kind_idx.
+CREATE OR REPLACE FUNCTION enqueue_ingest_job(job_kind TEXT, job_params JSONB, job_chunk_size INTEGER, job_items JSONB)
+RETURNS ingest_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job_row ingest_jobs%ROWTYPE;
+BEGIN
+  INSERT INTO ingest_jobs (kind, params, chunk_size, total_items)
+  VALUES (job_kind, COALESCE(job_params, '{}'::jsonb), GREATEST(job_chunk_size, 1), jsonb_array_length(job_items))
+  RETURNING * INTO job_row;
+
+  INSERT INTO ingest_job_items (job_id, position, item_key, label)
+  SELECT job_row.id, (entry.ordinality - 1)::INTEGER, entry.value->>'key', entry.value->>'label'
+  FROM jsonb_array_elements(job_items) WITH ORDINALITY AS entry(value, ordinality);
+
+  RETURN job_row;
+END;
+$$;
+
+-- Hands the next pending items of a running job to one worker. Items claimed more than 15 minutes
+-- ago are treated as abandoned (the worker timed out) and handed out again.
+CREATE OR REPLACE FUNCTION claim_ingest_job_items(target_job_id BIGINT, max_items INTEGER)
+RETURNS SETOF ingest_job_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE ingest_job_items i
+  SET status = 'RUNNING',
+      attempts = i.attempts + 1,
+      claimed_at = now()
+  WHERE i.id IN (
+    SELECT c.id
+    FROM ingest_job_items c
+    JOIN ingest_jobs j ON j.id = c.job_id
+    WHERE c.job_id = target_job_id
+      AND j.status = 'RUNNING'
+      AND (c.status = 'PENDING' OR (c.status = 'RUNNING' AND c.claimed_at < now() - INTERVAL '15 minutes'))
+    ORDER BY c.position
+    LIMIT GREATEST(max_items, 1)
+    FOR UPDATE OF c SKIP LOCKED
+  )
+  RETURNING i.*;
+END;
+$$;
+
+-- Records one item outcome and folds its counters into the job totals in the same transaction.
+-- Returns false when the item was no longer running (cancelled or completed by another worker).
+CREATE OR REPLACE FUNCTION complete_ingest_job_item(
+  target_item_id BIGINT,
+  outcome TEXT,
+  item_counters JSONB,
+  item_error TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item_row ingest_job_items%ROWTYPE;
+BEGIN
+  IF outcome NOT IN ('SUCCEEDED', 'FAILED') THEN
+    RAISE EXCEPTION 'Invalid ingest job item outcome: %', outcome;
+  END IF;
+
+  UPDATE ingest_job_items
+  SET status = outcome,
+      counters = COALESCE(item_counters, '{}'::jsonb),
+      error = item_error,
+      finished_at = now()
+  WHERE id = target_item_id
+    AND status = 'RUNNING'
+  RETURNING * INTO item_row;
+
+  IF item_row.id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE ingest_jobs j
+  SET processed_items = j.processed_items + 1,
+      failed_items = j.failed_items + CASE WHEN outcome = 'FAILED' THEN 1 ELSE 0 END,
+      counters = (
+        SELECT COALESCE(jsonb_object_agg(totals.key, totals.value), '{}'::jsonb)
+        FROM (
+          SELECT merged.key, SUM(merged.value::NUMERIC) AS value
+          FROM (
+            SELECT key, value FROM jsonb_each_text(j.counters)
+            UNION ALL
+            SELECT key, value FROM jsonb_each_text(COALESCE(item_counters, '{}'::jsonb))
+          ) merged
+          GROUP BY merged.key
+        ) totals
+      ),
+      updated_at = now()
+  WHERE j.id = item_row.job_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION enqueue_ingest_job(TEXT, JSONB, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION enqueue_ingest_job(TEXT, JSONB, INTEGER, JSONB) TO service_role;
+REVOKE ALL ON FUNCTION claim_ingest_job_items(BIGINT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_ingest_job_items(BIGINT, INTEGER) TO service_role;
+REVOKE ALL ON FUNCTION complete_ingest_job_item(BIGINT, TEXT, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION complete_ingest_job_item(BIGINT, TEXT, JSONB, TEXT) TO service_role;
+
+CREATE TABLE IF NOT EXISTS ingest_runs (
+  id BIGSERIAL PRIMARY KEY,
+  pipeline TEXT NOT NULL,
+  trigger TEXT NOT NULL CHECK (trigger IN ('JOB', 'SCRIPT')),
+  job_id BIGINT REFERENCES ingest_jobs(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'RUNNING' CHECK (status IN ('RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED')),
+  items_total INTEGER NOT NULL DEFAULT 0,
+  items_failed INTEGER NOT NULL DEFAULT 0,
+  counters JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS ingest_runs_started_idx ON ingest_runs (started_at DESC);
+CREATE INDEX IF NOT EXISTS ingest_runs_pipeline_idx ON ingest_runs (pipeline, started_at DESC);
+CREATE INDEX IF NOT EXISTS ingest_runs_job_idx ON ingest_runs (job_id);
+
+CREATE TABLE IF NOT EXISTS ingest_run_items (
+  id BIGSERIAL PRIMARY KEY,
+  run_id BIGINT NOT NULL REFERENCES ingest_runs(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('PEPTIDE', 'VENDOR', 'CATALOG')),
+  entity_key TEXT NOT NULL,
+  entity_label TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('SUCCEEDED', 'FAILED', 'SKIPPED')),
+  sources JSONB NOT NULL DEFAULT '[]', -- [{source, status: HIT|MISS|FAILED, detail}]
+  counters JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  duration_ms INTEGER,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ingest_run_items_run_idx ON ingest_run_items (run_id, status);
+
+-- One row per pipeline while a scheduled run or ingest script holds it (lib/ingest-lock.ts), so
+-- overlapping cron calls never ingest the same peptides twice. A lock past expires_at belongs to a
+-- caller that died and can be taken over.
+CREATE TABLE IF NOT EXISTS ingest_locks (
+  name TEXT PRIMARY KEY,
+  holder TEXT NOT NULL,
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Returns true when the caller now holds the lock: it was free, expired, or already theirs (which
+-- extends it).
+CREATE OR REPLACE FUNCTION acquire_ingest_lock(lock_name TEXT, lock_holder TEXT, ttl_seconds INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  acquired_name TEXT;
+BEGIN
+  INSERT INTO ingest_locks AS l (name, holder, acquired_at, expires_at)
+  VALUES (lock_name, lock_holder, now(), now() + make_interval(secs => GREATEST(ttl_seconds, 1)))
+  ON CONFLICT (name) DO UPDATE
+  SET holder = EXCLUDED.holder,
+      acquired_at = CASE WHEN l.holder = EXCLUDED.holder THEN l.acquired_at ELSE EXCLUDED.acquired_at END,
+      expires_at = EXCLUDED.expires_at
+  WHERE l.holder = EXCLUDED.holder OR l.expires_at < now()
+  RETURNING l.name INTO acquired_name;
+
+  RETURN acquired_name IS NOT NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_ingest_lock(lock_name TEXT, lock_holder TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM ingest_locks WHERE name = lock_name AND holder = lock_holder;
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION acquire_ingest_lock(TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION acquire_ingest_lock(TEXT, TEXT, INTEGER) TO service_role;
+REVOKE ALL ON FUNCTION release_ingest_lock(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_ingest_lock(TEXT, TEXT) TO service_role;
+
 INSERT INTO jurisdictions (code, name) VALUES
   ('US', 'United States'),
   ('EU', 'European Union'),
@@ -187,6 +1505,40 @@ JOIN peptides p ON p.slug = v.slug
 JOIN jurisdictions j ON j.code = v.jurisdiction_code
 ON CONFLICT (peptide_id, jurisdiction_id, status) DO NOTHING;
 
+UPDATE peptide_regulatory_status prs
+SET approval_date = v.approval_date::date,
+    approved_indications = v.indications,
+    brand_names = v.brand_names,
+    regulator_reference = v.reference,
+    source_url = v.source_url,
+    updated_at = now()
+FROM (
+  VALUES
+    (
+      'semaglutide',
+      'US',
+      '2017-12-05',
+      ARRAY['Glycemic control in adults with type 2 diabetes', 'Chronic weight management'],
+      ARRAY['Ozempic', 'Wegovy', 'Rybelsus'],
+      'NDA 209637',
+      'https://www.accessdata.fda.gov/scripts/cder/daf/index.cfm?event=overview.process&ApplNo=209637'
+    ),
+    (
+      'semaglutide',
+      'EU',
+      '2018-02-08',
+      ARRAY['Type 2 diabetes mellitus', 'Weight management'],
+      ARRAY['Ozempic', 'Wegovy', 'Rybelsus'],
+      'EMEA/H/C/004174',
+      'https://www.ema.europa.eu/en/medicines/human/EPAR/ozempic'
+    )
+) AS v(slug, jurisdiction_code, approval_date, indications, brand_names, reference, source_url)
+JOIN peptides p ON p.slug = v.slug
+JOIN jurisdictions j ON j.code = v.jurisdiction_code
+WHERE prs.peptide_id = p.id
+  AND prs.jurisdiction_id = j.id
+  AND prs.approval_date IS NULL;
+
 INSERT INTO peptide_use_cases (peptide_id, use_case_id, jurisdiction_id, evidence_grade, consumer_summary, clinical_summary)
 SELECT
   p.id,
@@ -236,7 +1588,7 @@ SELECT
   v.notes
 FROM (
   VALUES
-    ('semaglutide', 'US', 'APPROVED_LABEL', 'Adults with approved indication', 'Subcutaneous', 'Low initial dose per label titration', 'Step-up to target label dose', 'Weekly', 'Use official label for exact product-specific titration.'),
+    ('semaglutide', 'US', 'APPROVED_LABEL', 'Adults with approved indication', 'Subcutaneous', '0.25 mg once weekly for 4 weeks', '0.5 mg once weekly; may increase to 1 mg after at least 4 weeks, then to 2 mg after at least 4 weeks (maximum 2 mg weekly)', 'Weekly', 'Use official label for exact product-specific titration.'),
     ('semaglutide', 'US', 'STUDY_REPORTED', 'Investigational cohorts', 'Subcutaneous', 'Varies by trial', 'Varies by protocol', 'Weekly', 'Research context only; not treatment guidance.'),
     ('bpc-157', 'US', 'STUDY_REPORTED', 'Small investigational cohorts', 'Varies', 'Protocol-specific', 'Protocol-specific', 'Varies', 'Research context only; not treatment guidance.')
 ) AS v(slug, jurisdiction_code, context, population, route, starting_dose, maintenance_dose, frequency, notes)
@@ -325,6 +1677,61 @@ WHERE NOT EXISTS (
     AND pc.claim_text = c.claim_text
 );
 
+INSERT INTO drug_classes (slug, name, description, match_terms) VALUES
+  ('insulin', 'Insulin', 'Basal and prandial insulins.', ARRAY['insulin', 'insulin glargine', 'insulin lispro', 'insulin aspart', 'insulin detemir', 'insulin degludec']),
+  ('sulfonylureas', 'Sulfonylureas', 'Insulin secretagogues such as glipizide, glyburide and glimepiride.', ARRAY['sulfonylurea', 'sulfonylureas', 'glipizide', 'glyburide', 'glibenclamide', 'glimepiride', 'gliclazide']),
+  ('oral-medications', 'Oral medications', 'Orally administered drugs whose absorption depends on gastric emptying.', ARRAY['oral medications', 'orally administered', 'levothyroxine', 'oral contraceptive', 'oral contraceptives']),
+  ('anticoagulants', 'Anticoagulants', 'Vitamin K antagonists and direct oral anticoagulants.', ARRAY['anticoagulant', 'anticoagulants', 'warfarin', 'apixaban', 'rivaroxaban', 'dabigatran'])
+ON CONFLICT (slug) DO UPDATE
+SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  match_terms = EXCLUDED.match_terms;
+
+INSERT INTO citations (source_url, source_title, published_at)
+SELECT
+  'https://www.accessdata.fda.gov/scripts/cder/daf/index.cfm?event=overview.process&ApplNo=209637',
+  'Ozempic prescribing information',
+  DATE '2017-12-05'
+WHERE NOT EXISTS (
+  SELECT 1
+  FROM citations c
+  WHERE c.source_url = 'https://www.accessdata.fda.gov/scripts/cder/daf/index.cfm?event=overview.process&ApplNo=209637'
+);
+
+INSERT INTO peptide_interactions (peptide_id, drug_class_id, severity, mechanism, management, evidence_grade, citation_id, source)
+SELECT
+  p.id,
+  dc.id,
+  v.severity,
+  v.mechanism,
+  v.management,
+  v.evidence_grade::evidence_grade,
+  c.id,
+  'MANUAL'
+FROM (
+  VALUES
+    ('semaglutide', 'insulin', 'MODERATE', 'Additive glucose lowering increases the risk of hypoglycemia when combined with insulin.', 'Consider reducing the insulin dose when starting or escalating semaglutide.', 'A'),
+    ('semaglutide', 'sulfonylureas', 'MODERATE', 'Additive glucose lowering increases the risk of hypoglycemia when combined with an insulin secretagogue.', 'Consider reducing the sulfonylurea dose.', 'A'),
+    ('semaglutide', 'oral-medications', 'MINOR', 'Delayed gastric emptying may change the absorption of concomitantly administered oral medications.', 'Monitor drugs with a narrow therapeutic index, such as levothyroxine.', 'B')
+) AS v(peptide_slug, drug_class_slug, severity, mechanism, management, evidence_grade)
+JOIN peptides p ON p.slug = v.peptide_slug
+JOIN drug_classes dc ON dc.slug = v.drug_class_slug
+LEFT JOIN LATERAL (
+  SELECT x.id
+  FROM citations x
+  WHERE x.source_url = 'https://www.accessdata.fda.gov/scripts/cder/daf/index.cfm?event=overview.process&ApplNo=209637'
+  ORDER BY x.id
+  LIMIT 1
+) c ON true
+WHERE NOT EXISTS (
+  SELECT 1
+  FROM peptide_interactions pi
+  WHERE pi.peptide_id = p.id
+    AND pi.drug_class_id = dc.id
+    AND pi.source = 'MANUAL'
+);
+
 INSERT INTO vendors (slug, name, website_url, is_published)
 VALUES
   ('nova-peptide-labs', 'Nova Peptide Labs', 'https://example.com/nova', TRUE),
@@ -376,6 +1783,8 @@ FROM (
 ) AS r(vendor_slug, rating, confidence, reason_tags)
 JOIN vendors v ON v.slug = r.vendor_slug;
 
+SELECT refresh_peptide_search_document(p.id) FROM peptides p;
+
 GRANT USAGE ON SCHEMA public TO anon, authenticated;
 REVOKE ALL ON ALL TABLES IN SCHEMA public FROM anon, authenticated;
 ALTER DEFAULT PRIVILEGES IN SCHEMA public REVOKE ALL ON TABLES FROM anon, authenticated;
@@ -386,15 +1795,25 @@ GRANT SELECT ON
   peptide_profiles,
   peptide_aliases,
   peptide_regulatory_status,
+  peptide_regulatory_status_history,
   use_cases,
   peptide_use_cases,
   peptide_dosing_entries,
   peptide_safety_entries,
   citations,
   peptide_claims,
+  drug_classes,
+  peptide_interactions,
+  clinical_trials,
+  peptide_clinical_trials,
+  clinical_trial_events,
+  content_changes,
+  peptide_content_provenance,
+  peptide_search_documents,
   vendors,
   vendor_profiles,
   vendor_verifications,
+  vendor_reviews,
   vendor_lab_evidence,
   vendor_peptide_listings,
   vendor_rating_snapshots
@@ -405,33 +1824,62 @@ ALTER TABLE peptides ENABLE ROW LEVEL SECURITY;
 ALTER TABLE peptide_profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE peptide_aliases ENABLE ROW LEVEL SECURITY;
 ALTER TABLE peptide_regulatory_status ENABLE ROW LEVEL SECURITY;
+ALTER TABLE peptide_regulatory_status_history ENABLE ROW LEVEL SECURITY;
 ALTER TABLE use_cases ENABLE ROW LEVEL SECURITY;
 ALTER TABLE peptide_use_cases ENABLE ROW LEVEL SECURITY;
 ALTER TABLE peptide_dosing_entries ENABLE ROW LEVEL SECURITY;
 ALTER TABLE peptide_safety_entries ENABLE ROW LEVEL SECURITY;
 ALTER TABLE citations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE peptide_claims ENABLE ROW LEVEL SECURITY;
+ALTER TABLE drug_classes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE peptide_interactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE clinical_trials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE peptide_clinical_trials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE clinical_trial_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE content_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE peptide_content_provenance ENABLE ROW LEVEL SECURITY;
+ALTER TABLE peptide_search_documents ENABLE ROW LEVEL SECURITY;
 ALTER TABLE vendors ENABLE ROW LEVEL SECURITY;
 ALTER TABLE vendor_profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE vendor_verifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_reviews ENABLE ROW LEVEL SECURITY;
 ALTER TABLE vendor_lab_evidence ENABLE ROW LEVEL SECURITY;
 ALTER TABLE vendor_peptide_listings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE vendor_rating_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_key_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_key_rate_windows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE peptide_import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingest_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingest_job_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingest_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingest_run_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingest_locks ENABLE ROW LEVEL SECURITY;
 
 DROP POLICY IF EXISTS public_read_jurisdictions ON jurisdictions;
 DROP POLICY IF EXISTS public_read_peptides ON peptides;
 DROP POLICY IF EXISTS public_read_peptide_profiles ON peptide_profiles;
 DROP POLICY IF EXISTS public_read_peptide_aliases ON peptide_aliases;
 DROP POLICY IF EXISTS public_read_peptide_regulatory_status ON peptide_regulatory_status;
+DROP POLICY IF EXISTS public_read_peptide_regulatory_status_history ON peptide_regulatory_status_history;
 DROP POLICY IF EXISTS public_read_use_cases ON use_cases;
 DROP POLICY IF EXISTS public_read_peptide_use_cases ON peptide_use_cases;
 DROP POLICY IF EXISTS public_read_peptide_dosing_entries ON peptide_dosing_entries;
 DROP POLICY IF EXISTS public_read_peptide_safety_entries ON peptide_safety_entries;
 DROP POLICY IF EXISTS public_read_citations ON citations;
 DROP POLICY IF EXISTS public_read_peptide_claims ON peptide_claims;
+DROP POLICY IF EXISTS public_read_drug_classes ON drug_classes;
+DROP POLICY IF EXISTS public_read_peptide_interactions ON peptide_interactions;
+DROP POLICY IF EXISTS public_read_clinical_trials ON clinical_trials;
+DROP POLICY IF EXISTS public_read_peptide_clinical_trials ON peptide_clinical_trials;
+DROP POLICY IF EXISTS public_read_clinical_trial_events ON clinical_trial_events;
+DROP POLICY IF EXISTS public_read_content_changes ON content_changes;
+DROP POLICY IF EXISTS public_read_peptide_content_provenance ON peptide_content_provenance;
+DROP POLICY IF EXISTS public_read_peptide_search_documents ON peptide_search_documents;
 DROP POLICY IF EXISTS public_read_vendors ON vendors;
 DROP POLICY IF EXISTS public_read_vendor_profiles ON vendor_profiles;
 DROP POLICY IF EXISTS public_read_vendor_verifications ON vendor_verifications;
+DROP POLICY IF EXISTS public_read_vendor_reviews ON vendor_reviews;
 DROP POLICY IF EXISTS public_read_vendor_lab_evidence ON vendor_lab_evidence;
 DROP POLICY IF EXISTS public_read_vendor_peptide_listings ON vendor_peptide_listings;
 DROP POLICY IF EXISTS public_read_vendor_rating_snapshots ON vendor_rating_snapshots;
@@ -462,6 +1910,14 @@ USING (
       AND p.is_published = true
   )
 );
+CREATE POLICY public_read_peptide_regulatory_status_history ON peptide_regulatory_status_history FOR SELECT TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM peptides p
+    WHERE p.id = peptide_regulatory_status_history.peptide_id
+      AND p.is_published = true
+  )
+);
 CREATE POLICY public_read_use_cases ON use_cases FOR SELECT TO anon, authenticated USING (true);
 CREATE POLICY public_read_peptide_use_cases ON peptide_use_cases FOR SELECT TO anon, authenticated
 USING (
@@ -496,6 +1952,13 @@ USING (
     WHERE pc.citation_id = citations.id
       AND p.is_published = true
   )
+  OR EXISTS (
+    SELECT 1
+    FROM peptide_interactions pi
+    JOIN peptides p ON p.id = pi.peptide_id
+    WHERE pi.citation_id = citations.id
+      AND p.is_published = true
+  )
 );
 CREATE POLICY public_read_peptide_claims ON peptide_claims FOR SELECT TO anon, authenticated
 USING (
@@ -505,6 +1968,86 @@ USING (
       AND p.is_published = true
   )
 );
+CREATE POLICY public_read_drug_classes ON drug_classes FOR SELECT TO anon, authenticated USING (true);
+CREATE POLICY public_read_peptide_interactions ON peptide_interactions FOR SELECT TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM peptides p
+    WHERE p.id = peptide_interactions.peptide_id
+      AND p.is_published = true
+  )
+  AND (
+    peptide_interactions.interacting_peptide_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM peptides p
+      WHERE p.id = peptide_interactions.interacting_peptide_id
+        AND p.is_published = true
+    )
+  )
+);
+CREATE POLICY public_read_clinical_trials ON clinical_trials FOR SELECT TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM peptide_clinical_trials pct
+    JOIN peptides p ON p.id = pct.peptide_id
+    WHERE pct.trial_id = clinical_trials.id
+      AND p.is_published = true
+  )
+);
+CREATE POLICY public_read_peptide_clinical_trials ON peptide_clinical_trials FOR SELECT TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM peptides p
+    WHERE p.id = peptide_clinical_trials.peptide_id
+      AND p.is_published = true
+  )
+);
+CREATE POLICY public_read_clinical_trial_events ON clinical_trial_events FOR SELECT TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM peptide_clinical_trials pct
+    JOIN peptides p ON p.id = pct.peptide_id
+    WHERE pct.trial_id = clinical_trial_events.trial_id
+      AND p.is_published = true
+  )
+);
+CREATE POLICY public_read_content_changes ON content_changes FOR SELECT TO anon, authenticated
+USING (
+  (
+    peptide_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM peptides p
+      WHERE p.id = content_changes.peptide_id
+        AND p.is_published = true
+    )
+  )
+  AND (
+    vendor_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM vendors v
+      WHERE v.id = content_changes.vendor_id
+        AND v.is_published = true
+    )
+  )
+);
+CREATE POLICY public_read_peptide_content_provenance ON peptide_content_provenance FOR SELECT TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM peptides p
+    WHERE p.id = peptide_content_provenance.peptide_id
+      AND p.is_published = true
+  )
+);
+CREATE POLICY public_read_peptide_search_documents ON peptide_search_documents FOR SELECT TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM peptides p
+    WHERE p.id = peptide_search_documents.peptide_id
+      AND p.is_published = true
+  )
+);
 CREATE POLICY public_read_vendors ON vendors FOR SELECT TO anon, authenticated USING (is_published = true);
 CREATE POLICY public_read_vendor_profiles ON vendor_profiles FOR SELECT TO anon, authenticated
 USING (
@@ -522,6 +2065,14 @@ USING (
       AND v.is_published = true
   )
 );
+CREATE POLICY public_read_vendor_reviews ON vendor_reviews FOR SELECT TO anon, authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM vendors v
+    WHERE v.id = vendor_reviews.vendor_id
+      AND v.is_published = true
+  )
+);
 CREATE POLICY public_read_vendor_lab_evidence ON vendor_lab_evidence FOR SELECT TO anon, authenticated
 USING (
   EXISTS (
@@ -553,7 +2104,7 @@ USING (
 );
 CREATE POLICY public_read_vendor_rating_snapshots ON vendor_rating_snapshots FOR SELECT TO anon, authenticated
 USING (
-  is_current = true
+  (is_current = true OR rescore_batch_id IS NULL OR promoted_at IS NOT NULL)
   AND EXISTS (
     SELECT 1 FROM vendors v
     WHERE v.id = vendor_rating_snapshots.vendor_id
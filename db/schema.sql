@@ -1,6 +1,8 @@
 -- Initial schema for PeptideDB
 -- Targets: PostgreSQL (Supabase)
 
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
 CREATE TYPE evidence_grade AS ENUM ('A', 'B', 'C', 'D', 'I');
 CREATE TYPE peptide_status AS ENUM ('US_FDA_APPROVED', 'NON_US_APPROVED', 'INVESTIGATIONAL', 'RESEARCH_ONLY');
 CREATE TYPE dosing_context AS ENUM ('APPROVED_LABEL', 'STUDY_REPORTED', 'EXPERT_CONSENSUS');
@@ -19,6 +21,9 @@ CREATE TABLE peptides (
   peptide_class TEXT,
   is_published BOOLEAN NOT NULL DEFAULT FALSE,
   last_live_refresh_at TIMESTAMPTZ,
+  last_trials_refresh_at TIMESTAMPTZ,
+  last_enriched_at TIMESTAMPTZ,
+  last_social_refresh_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
@@ -43,9 +48,32 @@ CREATE TABLE peptide_regulatory_status (
   jurisdiction_id BIGINT NOT NULL REFERENCES jurisdictions(id),
   status peptide_status NOT NULL,
   notes TEXT,
+  approval_date DATE,
+  approved_indications TEXT[] NOT NULL DEFAULT '{}',
+  brand_names TEXT[] NOT NULL DEFAULT '{}',
+  regulator_reference TEXT, -- FDA application number, EMA procedure, TGA ARTG ID, ...
+  source_url TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
   UNIQUE (peptide_id, jurisdiction_id, status)
 );
 
+-- Append-only; written by a trigger on peptide_regulatory_status (see bootstrap.sql).
+CREATE TABLE peptide_regulatory_status_history (
+  id BIGSERIAL PRIMARY KEY,
+  peptide_id BIGINT NOT NULL REFERENCES peptides(id) ON DELETE CASCADE,
+  jurisdiction_id BIGINT NOT NULL REFERENCES jurisdictions(id),
+  previous_status peptide_status,
+  status peptide_status NOT NULL,
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  regulator_reference TEXT,
+  source_url TEXT,
+  notes TEXT,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX peptide_regulatory_status_history_peptide_id_idx
+  ON peptide_regulatory_status_history (peptide_id, jurisdiction_id, recorded_at);
+
 CREATE TABLE use_cases (
   id BIGSERIAL PRIMARY KEY,
   slug TEXT UNIQUE NOT NULL,
@@ -73,9 +101,23 @@ CREATE TABLE peptide_dosing_entries (
   starting_dose TEXT,
   maintenance_dose TEXT,
   frequency TEXT,
-  notes TEXT
+  notes TEXT,
+  -- Structured fields parsed from the text above (lib/structured-dosing.ts); all amounts use dose_unit.
+  dose_unit TEXT CHECK (dose_unit IN ('mg', 'mcg', 'IU')),
+  starting_dose_amount NUMERIC,
+  maintenance_dose_amount NUMERIC,
+  max_dose_amount NUMERIC,
+  route_code TEXT CHECK (route_code IN ('SUBCUTANEOUS', 'INTRAMUSCULAR', 'INTRAVENOUS', 'ORAL', 'INTRANASAL', 'TOPICAL', 'OTHER')),
+  interval_days NUMERIC,
+  titration_steps JSONB NOT NULL DEFAULT '[]', -- [{ amount, duration_weeks }]
+  parse_confidence TEXT CHECK (parse_confidence IN ('high', 'medium', 'low')),
+  parse_issues TEXT[] NOT NULL DEFAULT '{}',
+  parsed_at TIMESTAMPTZ,
+  reviewed_at TIMESTAMPTZ -- set when an admin corrects or confirms the parse; re-parsing skips these rows
 );
 
+CREATE INDEX peptide_dosing_entries_review_idx ON peptide_dosing_entries (parse_confidence) WHERE reviewed_at IS NULL;
+
 CREATE TABLE peptide_safety_entries (
   id BIGSERIAL PRIMARY KEY,
   peptide_id BIGINT NOT NULL REFERENCES peptides(id) ON DELETE CASCADE,
@@ -92,25 +134,139 @@ CREATE TABLE citations (
   source_url TEXT NOT NULL,
   source_title TEXT,
   published_at DATE NOT NULL,
-  retrieved_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  retrieved_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- pmid:<id>, doi:<doi>, nct:<id>, or url:<normalized url>; see lib/citations.ts.
+  canonical_key TEXT,
+  pmid TEXT,
+  doi TEXT,
+  nct_id TEXT,
+  authors TEXT[] NOT NULL DEFAULT '{}',
+  journal TEXT,
+  publication_type TEXT CHECK (
+    publication_type IN (
+      'JOURNAL_ARTICLE',
+      'CLINICAL_TRIAL',
+      'REGULATORY_LABEL',
+      'DATABASE_RECORD',
+      'SEARCH_RESULTS',
+      'COMMUNITY',
+      'WEB_PAGE'
+    )
+  ),
+  -- Participants enrolled, for ClinicalTrials.gov registrations.
+  enrollment INTEGER
 );
 
+CREATE UNIQUE INDEX citations_canonical_key_idx ON citations (canonical_key);
+CREATE INDEX citations_pmid_idx ON citations (pmid);
+CREATE INDEX citations_doi_idx ON citations (doi);
+CREATE INDEX citations_nct_id_idx ON citations (nct_id);
+CREATE INDEX citations_source_url_idx ON citations (source_url);
+
 CREATE TABLE peptide_claims (
   id BIGSERIAL PRIMARY KEY,
   peptide_id BIGINT NOT NULL REFERENCES peptides(id) ON DELETE CASCADE,
   section TEXT NOT NULL,
   claim_text TEXT NOT NULL,
   evidence_grade evidence_grade,
+  grade_rationale TEXT,
   citation_id BIGINT NOT NULL REFERENCES citations(id) ON DELETE CASCADE,
   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
+CREATE TABLE drug_classes (
+  id BIGSERIAL PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  match_terms TEXT[] NOT NULL DEFAULT '{}' -- lower-case medication names and label phrases
+);
+
+-- One row links a peptide to either another peptide or a drug class, never both.
+-- OPENFDA_LABEL rows are replaced by the enrichment job; MANUAL rows are curated in admin.
+CREATE TABLE peptide_interactions (
+  id BIGSERIAL PRIMARY KEY,
+  peptide_id BIGINT NOT NULL REFERENCES peptides(id) ON DELETE CASCADE,
+  interacting_peptide_id BIGINT REFERENCES peptides(id) ON DELETE CASCADE,
+  drug_class_id BIGINT REFERENCES drug_classes(id) ON DELETE CASCADE,
+  severity TEXT NOT NULL CHECK (severity IN ('MAJOR', 'MODERATE', 'MINOR')),
+  mechanism TEXT NOT NULL,
+  management TEXT,
+  evidence_grade evidence_grade NOT NULL DEFAULT 'I',
+  citation_id BIGINT REFERENCES citations(id) ON DELETE SET NULL,
+  source TEXT NOT NULL CHECK (source IN ('OPENFDA_LABEL', 'MANUAL')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((interacting_peptide_id IS NULL) <> (drug_class_id IS NULL)),
+  CHECK (interacting_peptide_id IS NULL OR interacting_peptide_id <> peptide_id)
+);
+
+CREATE INDEX peptide_interactions_peptide_idx ON peptide_interactions (peptide_id);
+
+-- Registrations followed by the trial tracker (lib/clinical-trials.ts), one row per NCT ID.
+CREATE TABLE clinical_trials (
+  id BIGSERIAL PRIMARY KEY,
+  nct_id TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  phases TEXT[] NOT NULL DEFAULT '{}', -- ClinicalTrials.gov codes: PHASE1, PHASE2, EARLY_PHASE1, NA
+  overall_status TEXT NOT NULL, -- ClinicalTrials.gov code: RECRUITING, COMPLETED, ...
+  study_type TEXT,
+  enrollment INTEGER,
+  conditions TEXT[] NOT NULL DEFAULT '{}',
+  sponsor TEXT,
+  start_date DATE,
+  completion_date DATE,
+  has_results BOOLEAN NOT NULL DEFAULT FALSE,
+  last_update_posted_at DATE,
+  last_checked_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE peptide_clinical_trials (
+  peptide_id BIGINT NOT NULL REFERENCES peptides(id) ON DELETE CASCADE,
+  trial_id BIGINT NOT NULL REFERENCES clinical_trials(id) ON DELETE CASCADE,
+  PRIMARY KEY (peptide_id, trial_id)
+);
+
+CREATE INDEX peptide_clinical_trials_trial_idx ON peptide_clinical_trials (trial_id);
+
+-- Append-only; the tracker writes one row per detected transition.
+CREATE TABLE clinical_trial_events (
+  id BIGSERIAL PRIMARY KEY,
+  trial_id BIGINT NOT NULL REFERENCES clinical_trials(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('STATUS_CHANGED', 'RESULTS_POSTED')),
+  previous_value TEXT,
+  new_value TEXT,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX clinical_trial_events_trial_idx ON clinical_trial_events (trial_id, detected_at);
+
+CREATE TABLE peptide_search_documents (
+  peptide_id BIGINT PRIMARY KEY REFERENCES peptides(id) ON DELETE CASCADE,
+  slug TEXT NOT NULL,
+  name TEXT NOT NULL,
+  aliases TEXT NOT NULL DEFAULT '', -- ' | ' separated
+  peptide_class TEXT NOT NULL DEFAULT '',
+  use_cases TEXT NOT NULL DEFAULT '',
+  intro TEXT NOT NULL DEFAULT '',
+  mechanism TEXT NOT NULL DEFAULT '',
+  document TSVECTOR NOT NULL, -- maintained by triggers in bootstrap.sql
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX peptide_search_documents_document_idx ON peptide_search_documents USING GIN (document);
+CREATE INDEX peptide_search_documents_name_trgm_idx ON peptide_search_documents USING GIN (name gin_trgm_ops);
+CREATE INDEX peptide_search_documents_aliases_trgm_idx ON peptide_search_documents USING GIN (aliases gin_trgm_ops);
+
 CREATE TABLE vendors (
   id BIGSERIAL PRIMARY KEY,
   slug TEXT UNIQUE NOT NULL CHECK (lower(slug) <> 'unknown-source-vendor'),
   name TEXT NOT NULL CHECK (lower(btrim(name)) <> 'unknown source vendor'),
   website_url TEXT,
   is_published BOOLEAN NOT NULL DEFAULT FALSE,
+  last_social_refresh_at TIMESTAMPTZ,
+  last_website_refresh_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
@@ -131,6 +287,24 @@ CREATE TABLE vendor_verifications (
   verified_at TIMESTAMPTZ
 );
 
+CREATE TABLE vendor_reviews (
+  id BIGSERIAL PRIMARY KEY,
+  vendor_id BIGINT NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+  source TEXT NOT NULL, -- reddit, trustpilot
+  community TEXT,
+  quote TEXT NOT NULL,
+  source_url TEXT NOT NULL,
+  author TEXT,
+  sentiment_label TEXT CHECK (sentiment_label IN ('positive', 'mixed', 'negative', 'neutral')),
+  sentiment_score NUMERIC(4, 3),
+  upvotes INTEGER,
+  comment_count INTEGER,
+  posted_at TIMESTAMPTZ NOT NULL,
+  ingested_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX vendor_reviews_vendor_id_posted_at_idx ON vendor_reviews (vendor_id, posted_at DESC);
+
 CREATE TABLE vendor_lab_evidence (
   id BIGSERIAL PRIMARY KEY,
   vendor_id BIGINT NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
@@ -156,7 +330,174 @@ CREATE TABLE vendor_rating_snapshots (
   rating NUMERIC(2, 1), -- NULL means no rating
   confidence NUMERIC(3, 2),
   method_version TEXT NOT NULL,
+  scoring_version TEXT, -- registered strategy in lib/vendor-scoring.ts; NULL for manual/seed ratings
+  score_inputs JSONB,
+  rescore_batch_id TEXT, -- set on side-by-side re-score candidates
+  promoted_at TIMESTAMPTZ, -- set when a re-score candidate becomes current
   reason_tags TEXT[] DEFAULT '{}',
   calculated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
   is_current BOOLEAN NOT NULL DEFAULT FALSE
 );
+
+CREATE INDEX vendor_rating_snapshots_rescore_batch_id_idx ON vendor_rating_snapshots (rescore_batch_id);
+CREATE INDEX vendor_rating_snapshots_vendor_id_calculated_at_idx ON vendor_rating_snapshots (vendor_id, calculated_at);
+
+-- Append-only public change feed, written by the admin actions and ingest jobs (lib/content-changes.ts).
+CREATE TABLE content_changes (
+  id BIGSERIAL PRIMARY KEY,
+  entity_type TEXT NOT NULL CHECK (entity_type IN (
+    'PEPTIDE', 'REGULATORY_STATUS', 'USE_CASE', 'DOSING', 'SAFETY', 'CLAIM', 'INTERACTION',
+    'CLINICAL_TRIAL', 'VENDOR', 'VENDOR_LISTING', 'VENDOR_RATING'
+  )),
+  entity_id BIGINT, -- row id in the entity's table, when there is one
+  peptide_id BIGINT REFERENCES peptides(id) ON DELETE CASCADE,
+  vendor_id BIGINT REFERENCES vendors(id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  old_summary TEXT,
+  new_summary TEXT,
+  source TEXT NOT NULL, -- ADMIN or the ingest job, e.g. LIVE_EVIDENCE
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (peptide_id IS NOT NULL OR vendor_id IS NOT NULL)
+);
+
+CREATE INDEX content_changes_changed_at_idx ON content_changes (changed_at DESC);
+CREATE INDEX content_changes_peptide_idx ON content_changes (peptide_id, changed_at DESC);
+CREATE INDEX content_changes_vendor_idx ON content_changes (vendor_id, changed_at DESC);
+
+-- Which external source fed each passage of the generated profile text (lib/content-provenance.ts).
+-- Replaced per peptide on every enrichment run; excerpts are matched against the live text when rendered.
+CREATE TABLE peptide_content_provenance (
+  id BIGSERIAL PRIMARY KEY,
+  peptide_id BIGINT NOT NULL REFERENCES peptides(id) ON DELETE CASCADE,
+  field TEXT NOT NULL CHECK (field IN ('intro', 'mechanism', 'effectiveness_summary', 'long_description')),
+  position INTEGER NOT NULL DEFAULT 0,
+  source TEXT NOT NULL CHECK (source IN (
+    'CLINICALTRIALS', 'PUBMED', 'OPENFDA', 'PUBCHEM', 'CHEMBL', 'WIKIPEDIA', 'NCI', 'GROKIPEDIA', 'PEPTIWIKI', 'HUBERMAN_AI'
+  )),
+  source_url TEXT,
+  excerpt TEXT NOT NULL,
+  fetched_at TIMESTAMPTZ NOT NULL,
+  generator_version TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX peptide_content_provenance_peptide_idx ON peptide_content_provenance (peptide_id, field, position);
+
+CREATE TABLE api_keys (
+  id BIGSERIAL PRIMARY KEY,
+  label TEXT NOT NULL,
+  key_prefix TEXT NOT NULL, -- first characters of the key, shown in admin to identify it
+  key_hash TEXT NOT NULL UNIQUE, -- sha256 hex of the full key; the key itself is never stored
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute > 0),
+  monthly_quota INTEGER NOT NULL DEFAULT 10000 CHECK (monthly_quota > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE TABLE api_key_usage (
+  api_key_id BIGINT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL, -- first day of the calendar month (UTC)
+  endpoint TEXT NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  last_request_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (api_key_id, period_start, endpoint)
+);
+
+CREATE TABLE api_key_rate_windows (
+  api_key_id BIGINT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  window_start TIMESTAMPTZ NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (api_key_id, window_start)
+);
+
+CREATE TABLE peptide_import_batches (
+  id BIGSERIAL PRIMARY KEY,
+  file_name TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('csv', 'json')),
+  row_count INTEGER NOT NULL DEFAULT 0,
+  seeds JSONB NOT NULL DEFAULT '[]', -- validated ExpandedPeptideSeed rows
+  errors JSONB NOT NULL DEFAULT '[]', -- per-row validation errors
+  diff JSONB NOT NULL DEFAULT '[]', -- dry-run diff against the database at upload time
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  applied_at TIMESTAMPTZ
+);
+
+CREATE TABLE ingest_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  kind TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'QUEUED' CHECK (status IN ('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED')),
+  params JSONB NOT NULL DEFAULT '{}',
+  chunk_size INTEGER NOT NULL DEFAULT 5 CHECK (chunk_size > 0),
+  total_items INTEGER NOT NULL DEFAULT 0,
+  processed_items INTEGER NOT NULL DEFAULT 0,
+  failed_items INTEGER NOT NULL DEFAULT 0,
+  counters JSONB NOT NULL DEFAULT '{}', -- summed per-item result counters
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX ingest_jobs_status_idx ON ingest_jobs (status, created_at);
+-- At most one queued or running job per kind.
+CREATE UNIQUE INDEX ingest_jobs_one_active_per_kind_idx ON ingest_jobs (kind) WHERE status IN ('QUEUED', 'RUNNING');
+
+CREATE TABLE ingest_job_items (
+  id BIGSERIAL PRIMARY KEY,
+  job_id BIGINT NOT NULL REFERENCES ingest_jobs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  item_key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED', 'CANCELLED')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  counters JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  claimed_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  UNIQUE (job_id, item_key)
+);
+
+CREATE INDEX ingest_job_items_job_idx ON ingest_job_items (job_id, status, position);
+
+CREATE TABLE ingest_runs (
+  id BIGSERIAL PRIMARY KEY,
+  pipeline TEXT NOT NULL,
+  trigger TEXT NOT NULL CHECK (trigger IN ('JOB', 'SCRIPT')),
+  job_id BIGINT REFERENCES ingest_jobs(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'RUNNING' CHECK (status IN ('RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED')),
+  items_total INTEGER NOT NULL DEFAULT 0,
+  items_failed INTEGER NOT NULL DEFAULT 0,
+  counters JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX ingest_runs_started_idx ON ingest_runs (started_at DESC);
+CREATE INDEX ingest_runs_pipeline_idx ON ingest_runs (pipeline, started_at DESC);
+CREATE INDEX ingest_runs_job_idx ON ingest_runs (job_id);
+
+CREATE TABLE ingest_run_items (
+  id BIGSERIAL PRIMARY KEY,
+  run_id BIGINT NOT NULL REFERENCES ingest_runs(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('PEPTIDE', 'VENDOR', 'CATALOG')),
+  entity_key TEXT NOT NULL,
+  entity_label TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('SUCCEEDED', 'FAILED', 'SKIPPED')),
+  sources JSONB NOT NULL DEFAULT '[]', -- [{source, status: HIT|MISS|FAILED, detail}]
+  counters JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  duration_ms INTEGER,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX ingest_run_items_run_idx ON ingest_run_items (run_id, status);
+
+CREATE TABLE ingest_locks (
+  name TEXT PRIMARY KEY,
+  holder TEXT NOT NULL,
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
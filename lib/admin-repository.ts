@@ -1,6 +1,13 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { CONTENT_PROVENANCE_COLUMNS, mapContentProvenanceRow, sortProvenance } from "@/lib/content-provenance";
+import { getJobQueue, type IngestJob, type IngestJobItem } from "@/lib/job-queue";
+import type { PeptideImportRowDiff, PeptideImportRowError } from "@/lib/peptide-import";
 import { toHumanReadableSourceUrl } from "@/lib/reference-sources";
+import { fromDosingColumns } from "@/lib/structured-dosing";
 import { getSupabaseAdminClient } from "@/lib/supabase-admin";
 import { sanitizeExternalUrl } from "@/lib/url-security";
+import type { ContentProvenance, StructuredDosing } from "@/lib/types";
+import { listVendorScoringStrategies } from "@/lib/vendor-scoring";
 
 export type AdminOption = {
   id: number;
@@ -40,6 +47,85 @@ export type AdminVendorDetail = {
   isPublished: boolean;
 };
 
+export type AdminScoringVersion = {
+  version: string;
+  label: string;
+  description: string;
+};
+
+export type AdminRescoreBatch = {
+  id: string;
+  scoringVersion: string;
+  createdAt: string;
+  vendorCount: number;
+  promoted: boolean;
+};
+
+export type AdminRescoreDiff = {
+  vendorId: number;
+  vendorSlug: string;
+  vendorName: string;
+  currentRating: number | null;
+  currentConfidence: number | null;
+  currentVersion: string;
+  candidateRating: number | null;
+  candidateConfidence: number | null;
+  ratingDelta: number | null;
+  confidenceDelta: number | null;
+  isPromoted: boolean;
+};
+
+export type AdminApiKey = {
+  id: number;
+  label: string;
+  prefix: string;
+  rateLimitPerMinute: number;
+  monthlyQuota: number;
+  createdAt: string;
+  lastUsedAt: string;
+  revokedAt: string;
+  monthRequests: number;
+  endpointUsage: Array<{ endpoint: string; requests: number }>;
+};
+
+export type AdminImportBatch = {
+  id: number;
+  fileName: string;
+  format: string;
+  rowCount: number;
+  errorCount: number;
+  createdAt: string;
+  appliedAt: string;
+};
+
+export type AdminImportBatchDetail = AdminImportBatch & {
+  errors: PeptideImportRowError[];
+  diff: PeptideImportRowDiff[];
+};
+
+export type AdminDosingReviewItem = {
+  id: number;
+  peptideName: string;
+  context: string;
+  route: string;
+  startingDose: string;
+  maintenanceDose: string;
+  frequency: string;
+  notes: string;
+  structured: StructuredDosing;
+};
+
+export type AdminInteraction = {
+  id: number;
+  peptideName: string;
+  targetName: string;
+  targetKind: "peptide" | "drug_class";
+  severity: string;
+  mechanism: string;
+  evidenceGrade: string;
+  source: string;
+};
+
 export type AdminDashboardData = {
   supabaseConfigured: boolean;
   peptides: AdminOption[];
@@ -48,7 +134,22 @@ export type AdminDashboardData = {
   useCases: Array<{ slug: string; name: string }>;
   selectedPeptide: AdminPeptideDetail | null;
   selectedPeptideClaims: AdminPeptideClaim[];
+  selectedPeptideProvenance: ContentProvenance[];
   selectedVendor: AdminVendorDetail | null;
+  scoringVersions: AdminScoringVersion[];
+  rescoreBatches: AdminRescoreBatch[];
+  selectedRescoreBatch: AdminRescoreBatch | null;
+  rescoreDiffs: AdminRescoreDiff[];
+  apiKeys: AdminApiKey[];
+  importBatches: AdminImportBatch[];
+  selectedImportBatch: AdminImportBatchDetail | null;
+  ingestJobs: IngestJob[];
+  selectedIngestJob: IngestJob | null;
+  selectedIngestJobItems: IngestJobItem[];
+  dosingReviewQueue: AdminDosingReviewItem[];
+  dosingReviewPending: number;
+  drugClasses: Array<{ id: number; slug: string; name: string }>;
+  interactions: AdminInteraction[];
 };
 
 function asRecord(value: unknown): Record<string, unknown> | null {
@@ -66,6 +167,17 @@ function asNumber(value: unknown): number {
   return 0;
 }
 
+function asNullableNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
 function asBoolean(value: unknown): boolean {
   return value === true;
 }
@@ -98,13 +210,344 @@ function emptyDashboardData(): AdminDashboardData {
     useCases: [],
     selectedPeptide: null,
     selectedPeptideClaims: [],
-    selectedVendor: null
+    selectedPeptideProvenance: [],
+    selectedVendor: null,
+    scoringVersions: listScoringVersions(),
+    rescoreBatches: [],
+    selectedRescoreBatch: null,
+    rescoreDiffs: [],
+    apiKeys: [],
+    importBatches: [],
+    selectedImportBatch: null,
+    ingestJobs: [],
+    selectedIngestJob: null,
+    selectedIngestJobItems: [],
+    dosingReviewQueue: [],
+    dosingReviewPending: 0,
+    drugClasses: [],
+    interactions: []
   };
 }
 
+function listScoringVersions(): AdminScoringVersion[] {
+  return listVendorScoringStrategies().map((strategy) => ({
+    version: strategy.version,
+    label: strategy.label,
+    description: strategy.description
+  }));
+}
+
+function roundDelta(next: number | null, previous: number | null, digits: number): number | null {
+  if (next === null || previous === null) {
+    return null;
+  }
+  return Number((next - previous).toFixed(digits));
+}
+
+async function loadRescoreReview(
+  supabase: SupabaseClient,
+  selectedBatchId?: string
+): Promise<Pick<AdminDashboardData, "rescoreBatches" | "selectedRescoreBatch" | "rescoreDiffs">> {
+  const { data: batchRows } = await supabase
+    .from("vendor_rating_snapshots")
+    .select("rescore_batch_id,scoring_version,calculated_at,is_current")
+    .not("rescore_batch_id", "is", null)
+    .order("calculated_at", { ascending: false })
+    .limit(1000);
+
+  const batchMap = new Map<string, AdminRescoreBatch>();
+  for (const row of batchRows ?? []) {
+    const record = asRecord(row);
+    const id = asString(record?.rescore_batch_id);
+    if (!record || !id) {
+      continue;
+    }
+    const existing = batchMap.get(id);
+    if (existing) {
+      existing.vendorCount += 1;
+      existing.promoted = existing.promoted || asBoolean(record.is_current);
+      continue;
+    }
+    batchMap.set(id, {
+      id,
+      scoringVersion: asString(record.scoring_version),
+      createdAt: asString(record.calculated_at),
+      vendorCount: 1,
+      promoted: asBoolean(record.is_current)
+    });
+  }
+
+  const rescoreBatches = Array.from(batchMap.values()).slice(0, 8);
+  const selectedRescoreBatch =
+    rescoreBatches.find((batch) => batch.id === selectedBatchId) ?? (selectedBatchId ? null : rescoreBatches[0] ?? null);
+  if (!selectedRescoreBatch) {
+    return { rescoreBatches, selectedRescoreBatch: null, rescoreDiffs: [] };
+  }
+
+  const { data: candidateRows } = await supabase
+    .from("vendor_rating_snapshots")
+    .select("vendor_id,rating,confidence,is_current,vendors(slug,name)")
+    .eq("rescore_batch_id", selectedRescoreBatch.id);
+
+  const candidates = (candidateRows ?? [])
+    .map((row) => asRecord(row))
+    .filter((row): row is Record<string, unknown> => row !== null);
+  const vendorIds = candidates.map((row) => asNumber(row.vendor_id)).filter((id) => id > 0);
+
+  const { data: currentRows } =
+    vendorIds.length > 0
+      ? await supabase
+          .from("vendor_rating_snapshots")
+          .select("vendor_id,rating,confidence,method_version,scoring_version")
+          .eq("is_current", true)
+          .in("vendor_id", vendorIds)
+      : { data: [] };
+
+  const currentByVendor = new Map<number, Record<string, unknown>>();
+  for (const row of currentRows ?? []) {
+    const record = asRecord(row);
+    if (record) {
+      currentByVendor.set(asNumber(record.vendor_id), record);
+    }
+  }
+
+  const rescoreDiffs = candidates
+    .map((row) => {
+      const vendorId = asNumber(row.vendor_id);
+      const vendor = Array.isArray(row.vendors) ? asRecord(row.vendors[0]) : asRecord(row.vendors);
+      const current = currentByVendor.get(vendorId);
+      const currentRating = asNullableNumber(current?.rating);
+      const currentConfidence = asNullableNumber(current?.confidence);
+      const candidateRating = asNullableNumber(row.rating);
+      const candidateConfidence = asNullableNumber(row.confidence);
+      return {
+        vendorId,
+        vendorSlug: asString(vendor?.slug),
+        vendorName: asString(vendor?.name) || `Vendor ${vendorId}`,
+        currentRating,
+        currentConfidence,
+        currentVersion: asString(current?.scoring_version) || asString(current?.method_version),
+        candidateRating,
+        candidateConfidence,
+        ratingDelta: roundDelta(candidateRating, currentRating, 1),
+        confidenceDelta: roundDelta(candidateConfidence, currentConfidence, 2),
+        isPromoted: asBoolean(row.is_current)
+      } satisfies AdminRescoreDiff;
+    })
+    .sort((a, b) => Math.abs(b.ratingDelta ?? 0) - Math.abs(a.ratingDelta ?? 0) || a.vendorName.localeCompare(b.vendorName));
+
+  return { rescoreBatches, selectedRescoreBatch, rescoreDiffs };
+}
+
+async function loadApiKeys(supabase: SupabaseClient): Promise<AdminApiKey[]> {
+  const periodStart = `${new Date().toISOString().slice(0, 7)}-01`;
+  const [{ data: keyRows }, { data: usageRows }] = await Promise.all([
+    supabase
+      .from("api_keys")
+      .select("id,label,key_prefix,rate_limit_per_minute,monthly_quota,created_at,last_used_at,revoked_at")
+      .order("created_at", { ascending: false }),
+    supabase.from("api_key_usage").select("api_key_id,endpoint,request_count").eq("period_start", periodStart)
+  ]);
+
+  const usageByKey = new Map<number, Array<{ endpoint: string; requests: number }>>();
+  for (const row of usageRows ?? []) {
+    const record = asRecord(row);
+    const keyId = asNumber(record?.api_key_id);
+    if (!record || !keyId) {
+      continue;
+    }
+    const entries = usageByKey.get(keyId) ?? [];
+    entries.push({ endpoint: asString(record.endpoint), requests: asNumber(record.request_count) });
+    usageByKey.set(keyId, entries);
+  }
+
+  return (keyRows ?? [])
+    .map((row) => asRecord(row))
+    .filter((row): row is Record<string, unknown> => row !== null)
+    .map((row) => {
+      const id = asNumber(row.id);
+      const endpointUsage = (usageByKey.get(id) ?? []).sort((a, b) => b.requests - a.requests);
+      return {
+        id,
+        label: asString(row.label),
+        prefix: asString(row.key_prefix),
+        rateLimitPerMinute: asNumber(row.rate_limit_per_minute),
+        monthlyQuota: asNumber(row.monthly_quota),
+        createdAt: asString(row.created_at),
+        lastUsedAt: asString(row.last_used_at),
+        revokedAt: asString(row.revoked_at),
+        monthRequests: endpointUsage.reduce((sum, entry) => sum + entry.requests, 0),
+        endpointUsage
+      };
+    })
+    .filter((key) => key.id > 0);
+}
+
+function mapImportBatch(record: Record<string, unknown>): AdminImportBatch {
+  return {
+    id: asNumber(record.id),
+    fileName: asString(record.file_name),
+    format: asString(record.format),
+    rowCount: asNumber(record.row_count),
+    errorCount: Array.isArray(record.errors) ? record.errors.length : 0,
+    createdAt: asString(record.created_at),
+    appliedAt: asString(record.applied_at)
+  };
+}
+
+async function loadImportBatches(
+  supabase: SupabaseClient,
+  selectedBatchId?: string
+): Promise<Pick<AdminDashboardData, "importBatches" | "selectedImportBatch">> {
+  const { data } = await supabase
+    .from("peptide_import_batches")
+    .select("id,file_name,format,row_count,errors,created_at,applied_at")
+    .order("created_at", { ascending: false })
+    .limit(8);
+
+  const importBatches = (data ?? [])
+    .map((row) => asRecord(row))
+    .filter((row): row is Record<string, unknown> => row !== null)
+    .map((row) => mapImportBatch(row))
+    .filter((batch) => batch.id > 0);
+
+  const selectedId = Number(selectedBatchId ?? "");
+  if (!Number.isFinite(selectedId) || selectedId <= 0) {
+    return { importBatches, selectedImportBatch: null };
+  }
+
+  const { data: selectedRow } = await supabase
+    .from("peptide_import_batches")
+    .select("id,file_name,format,row_count,errors,diff,created_at,applied_at")
+    .eq("id", selectedId)
+    .maybeSingle();
+  const record = asRecord(selectedRow);
+  if (!record) {
+    return { importBatches, selectedImportBatch: null };
+  }
+
+  return {
+    importBatches,
+    selectedImportBatch: {
+      ...mapImportBatch(record),
+      errors: Array.isArray(record.errors) ? (record.errors as PeptideImportRowError[]) : [],
+      diff: Array.isArray(record.diff) ? (record.diff as PeptideImportRowDiff[]) : []
+    }
+  };
+}
+
+async function loadIngestJobs(
+  supabase: SupabaseClient,
+  selectedJobId?: string
+): Promise<Pick<AdminDashboardData, "ingestJobs" | "selectedIngestJob" | "selectedIngestJobItems">> {
+  const queue = getJobQueue(supabase);
+  const selectedId = Number(selectedJobId ?? "");
+  try {
+    const ingestJobs = await queue.listJobs(15);
+    if (!Number.isFinite(selectedId) || selectedId <= 0) {
+      return { ingestJobs, selectedIngestJob: null, selectedIngestJobItems: [] };
+    }
+    const [selectedIngestJob, selectedIngestJobItems] = await Promise.all([
+      queue.getJob(selectedId),
+      queue.listItems(selectedId)
+    ]);
+    return { ingestJobs, selectedIngestJob, selectedIngestJobItems: selectedIngestJob ? selectedIngestJobItems : [] };
+  } catch {
+    // The queue tables arrive with a bootstrap re-run; the rest of the dashboard still works without them.
+    return { ingestJobs: [], selectedIngestJob: null, selectedIngestJobItems: [] };
+  }
+}
+
+async function loadDosingReviewQueue(
+  supabase: SupabaseClient
+): Promise<Pick<AdminDashboardData, "dosingReviewQueue" | "dosingReviewPending">> {
+  const { data, count } = await supabase
+    .from("peptide_dosing_entries")
+    .select(
+      "id,context,route,starting_dose,maintenance_dose,frequency,notes,dose_unit,starting_dose_amount,maintenance_dose_amount,max_dose_amount,route_code,interval_days,titration_steps,parse_confidence,parse_issues,reviewed_at,peptides(canonical_name)",
+      { count: "exact" }
+    )
+    .eq("parse_confidence", "low")
+    .is("reviewed_at", null)
+    .order("id", { ascending: true })
+    .limit(25);
+
+  const dosingReviewQueue = (data ?? [])
+    .map((row) => asRecord(row))
+    .filter((row): row is Record<string, unknown> => row !== null)
+    .map((row) => {
+      const structured = fromDosingColumns(row);
+      const peptide = Array.isArray(row.peptides) ? asRecord(row.peptides[0]) : asRecord(row.peptides);
+      return structured
+        ? {
+            id: asNumber(row.id),
+            peptideName: asString(peptide?.canonical_name),
+            context: asString(row.context),
+            route: asString(row.route),
+            startingDose: asString(row.starting_dose),
+            maintenanceDose: asString(row.maintenance_dose),
+            frequency: asString(row.frequency),
+            notes: asString(row.notes),
+            structured
+          }
+        : null;
+    })
+    .filter((item): item is AdminDosingReviewItem => item !== null && item.id > 0);
+
+  return { dosingReviewQueue, dosingReviewPending: count ?? dosingReviewQueue.length };
+}
+
+async function loadInteractionCuration(
+  supabase: SupabaseClient
+): Promise<Pick<AdminDashboardData, "drugClasses" | "interactions">> {
+  const [{ data: classRows }, { data: interactionRows }] = await Promise.all([
+    supabase.from("drug_classes").select("id,slug,name").order("name", { ascending: true }),
+    supabase
+      .from("peptide_interactions")
+      .select(
+        "id,severity,mechanism,evidence_grade,source,peptide:peptides!peptide_interactions_peptide_id_fkey(canonical_name),interacting_peptide:peptides!peptide_interactions_interacting_peptide_id_fkey(canonical_name),drug_classes(name)"
+      )
+      .order("updated_at", { ascending: false })
+      .limit(50)
+  ]);
+
+  const drugClasses = (classRows ?? [])
+    .map((row) => asRecord(row))
+    .filter((row): row is Record<string, unknown> => row !== null)
+    .map((row) => ({ id: asNumber(row.id), slug: asString(row.slug), name: asString(row.name) }))
+    .filter((row) => row.id > 0 && row.name);
+
+  const interactions = (interactionRows ?? [])
+    .map((row) => asRecord(row))
+    .filter((row): row is Record<string, unknown> => row !== null)
+    .map((row) => {
+      const peptide = Array.isArray(row.peptide) ? asRecord(row.peptide[0]) : asRecord(row.peptide);
+      const interactingPeptide = Array.isArray(row.interacting_peptide)
+        ? asRecord(row.interacting_peptide[0])
+        : asRecord(row.interacting_peptide);
+      const drugClass = Array.isArray(row.drug_classes) ? asRecord(row.drug_classes[0]) : asRecord(row.drug_classes);
+      return {
+        id: asNumber(row.id),
+        peptideName: asString(peptide?.canonical_name),
+        targetName: asString(interactingPeptide?.canonical_name || drugClass?.name),
+        targetKind: interactingPeptide ? ("peptide" as const) : ("drug_class" as const),
+        severity: asString(row.severity),
+        mechanism: asString(row.mechanism),
+        evidenceGrade: asString(row.evidence_grade),
+        source: asString(row.source)
+      };
+    })
+    .filter((row) => row.id > 0 && row.peptideName && row.targetName);
+
+  return { drugClasses, interactions };
+}
+
 export async function getAdminDashboardData(
   selectedPeptideSlug?: string,
-  selectedVendorSlug?: string
+  selectedVendorSlug?: string,
+  selectedRescoreBatchId?: string,
+  selectedImportBatchId?: string,
+  selectedIngestJobId?: string
 ): Promise<AdminDashboardData> {
   const supabase = getSupabaseAdminClient();
   if (!supabase) {
@@ -117,7 +560,13 @@ export async function getAdminDashboardData(
     jurisdictionsResult,
     useCasesResult,
     selectedPeptideResult,
-    selectedVendorResult
+    selectedVendorResult,
+    rescoreReview,
+    apiKeys,
+    importReview,
+    ingestJobReview,
+    dosingReview,
+    interactionCuration
   ] = await Promise.all([
     supabase.from("peptides").select("id,slug,canonical_name,is_published").order("canonical_name", { ascending: true }),
     supabase.from("vendors").select("id,slug,name,is_published").order("name", { ascending: true }),
@@ -134,7 +583,13 @@ export async function getAdminDashboardData(
       : Promise.resolve({ data: null, error: null }),
     selectedVendorSlug
       ? supabase.from("vendors").select("id,slug,name,website_url,is_published").eq("slug", selectedVendorSlug).maybeSingle()
-      : Promise.resolve({ data: null, error: null })
+      : Promise.resolve({ data: null, error: null }),
+    loadRescoreReview(supabase, selectedRescoreBatchId),
+    loadApiKeys(supabase),
+    loadImportBatches(supabase, selectedImportBatchId),
+    loadIngestJobs(supabase, selectedIngestJobId),
+    loadDosingReviewQueue(supabase),
+    loadInteractionCuration(supabase)
   ]);
 
   const peptides = (peptidesResult.data ?? [])
@@ -184,12 +639,16 @@ export async function getAdminDashboardData(
       : null;
 
   let selectedPeptideClaims: AdminPeptideClaim[] = [];
+  let selectedPeptideProvenance: ContentProvenance[] = [];
   if (selectedPeptide?.id) {
-    const { data: claimsData } = await supabase
-      .from("peptide_claims")
-      .select("id,section,claim_text,evidence_grade,citations(source_url,source_title,published_at)")
-      .eq("peptide_id", selectedPeptide.id)
-      .order("id", { ascending: false });
+    const [{ data: claimsData }, { data: provenanceData }] = await Promise.all([
+      supabase
+        .from("peptide_claims")
+        .select("id,section,claim_text,evidence_grade,citations(source_url,source_title,published_at)")
+        .eq("peptide_id", selectedPeptide.id)
+        .order("id", { ascending: false }),
+      supabase.from("peptide_content_provenance").select(CONTENT_PROVENANCE_COLUMNS).eq("peptide_id", selectedPeptide.id)
+    ]);
 
     selectedPeptideClaims = (claimsData ?? [])
       .map((row) => asRecord(row))
@@ -207,6 +666,12 @@ export async function getAdminDashboardData(
         };
       })
       .filter((claim) => claim.id > 0 && claim.section && claim.claimText && claim.sourceUrl);
+
+    selectedPeptideProvenance = sortProvenance(
+      (provenanceData ?? [])
+        .map((row) => mapContentProvenanceRow(row))
+        .filter((record): record is ContentProvenance => record !== null)
+    );
   }
 
   const selectedVendorRecord = asRecord(selectedVendorResult.data);
@@ -229,6 +694,14 @@ export async function getAdminDashboardData(
     useCases,
     selectedPeptide,
     selectedPeptideClaims,
-    selectedVendor
+    selectedPeptideProvenance,
+    selectedVendor,
+    scoringVersions: listScoringVersions(),
+    ...rescoreReview,
+    apiKeys,
+    ...importReview,
+    ...ingestJobReview,
+    ...dosingReview,
+    ...interactionCuration
   };
 }
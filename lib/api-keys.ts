@@ -0,0 +1,149 @@
+import { createHash, randomBytes } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+const API_KEY_PREFIX = "pdb_";
+const DISPLAY_PREFIX_LENGTH = 12;
+
+export const NEW_API_KEY_COOKIE = "peptidedb_new_api_key";
+export const DEFAULT_API_KEY_RATE_LIMIT = 60;
+export const DEFAULT_API_KEY_MONTHLY_QUOTA = 10000;
+
+export type ApiKeyDenialReason = "missing_key" | "invalid_key" | "revoked_key" | "rate_limited" | "monthly_quota_exceeded";
+
+export type ApiKeyCheck = {
+  allowed: boolean;
+  reason: ApiKeyDenialReason | null;
+  keyId: number | null;
+  rateLimit: number;
+  rateRemaining: number;
+  quotaLimit: number;
+  quotaRemaining: number;
+  resetsAt: string | null;
+};
+
+type CreatedApiKey = {
+  id: number;
+  key: string;
+  prefix: string;
+};
+
+type ApiKeyInput = {
+  label: string;
+  rateLimitPerMinute?: number;
+  monthlyQuota?: number;
+};
+
+const DENIAL_REASONS = new Set<ApiKeyDenialReason>([
+  "invalid_key",
+  "revoked_key",
+  "rate_limited",
+  "monthly_quota_exceeded"
+]);
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function asNumber(value: unknown): number {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
+  return 0;
+}
+
+function positiveIntOr(value: number | undefined, fallback: number): number {
+  return value !== undefined && Number.isFinite(value) && value >= 1 ? Math.floor(value) : fallback;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key.trim()).digest("hex");
+}
+
+export function readApiKey(request: Request): string {
+  const header = request.headers.get("authorization")?.trim() ?? "";
+  if (header.toLowerCase().startsWith("bearer ")) {
+    return header.slice(7).trim();
+  }
+  return request.headers.get("x-api-key")?.trim() ?? "";
+}
+
+export async function createApiKey(supabase: SupabaseClient, input: ApiKeyInput): Promise<CreatedApiKey> {
+  const label = input.label.trim();
+  if (!label) {
+    throw new Error("API key label is required.");
+  }
+
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const prefix = key.slice(0, DISPLAY_PREFIX_LENGTH);
+  const { data, error } = await supabase
+    .from("api_keys")
+    .insert({
+      label,
+      key_prefix: prefix,
+      key_hash: hashApiKey(key),
+      rate_limit_per_minute: positiveIntOr(input.rateLimitPerMinute, DEFAULT_API_KEY_RATE_LIMIT),
+      monthly_quota: positiveIntOr(input.monthlyQuota, DEFAULT_API_KEY_MONTHLY_QUOTA)
+    })
+    .select("id")
+    .single();
+  if (error || !data?.id) {
+    throw new Error(error?.message ?? "Failed to create API key.");
+  }
+
+  return { id: Number(data.id), key, prefix };
+}
+
+export async function revokeApiKey(supabase: SupabaseClient, keyId: number): Promise<void> {
+  const { error } = await supabase
+    .from("api_keys")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", keyId)
+    .is("revoked_at", null);
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+export async function consumeApiKeyRequest(supabase: SupabaseClient, key: string, endpoint: string): Promise<ApiKeyCheck> {
+  if (!key) {
+    return {
+      allowed: false,
+      reason: "missing_key",
+      keyId: null,
+      rateLimit: 0,
+      rateRemaining: 0,
+      quotaLimit: 0,
+      quotaRemaining: 0,
+      resetsAt: null
+    };
+  }
+
+  const { data, error } = await supabase.rpc("consume_api_key_request", {
+    key_digest: hashApiKey(key),
+    endpoint_path: endpoint
+  });
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const row = asRecord(Array.isArray(data) ? data[0] : data);
+  const reason = asString(row?.denial_reason) as ApiKeyDenialReason;
+  return {
+    allowed: row?.allowed === true,
+    reason: DENIAL_REASONS.has(reason) ? reason : row?.allowed === true ? null : "invalid_key",
+    keyId: asNumber(row?.key_id) || null,
+    rateLimit: asNumber(row?.rate_limit),
+    rateRemaining: Math.max(0, asNumber(row?.rate_remaining)),
+    quotaLimit: asNumber(row?.quota_limit),
+    quotaRemaining: Math.max(0, asNumber(row?.quota_remaining)),
+    resetsAt: asString(row?.rate_resets_at) || null
+  };
+}
@@ -0,0 +1,321 @@
+import { canonicalizeCitation } from "@/lib/citations";
+import type { CitationPublicationType, EvidenceClaim } from "@/lib/types";
+
+export type BibliographyFormat = "bibtex" | "ris" | "csl-json";
+
+export type BibliographyEntry = {
+  key: string;
+  title: string;
+  url: string;
+  authors: string[];
+  journal: string | null;
+  publishedAt: string;
+  retrievedAt: string | null;
+  pmid: string | null;
+  doi: string | null;
+  nctId: string | null;
+  publicationType: CitationPublicationType;
+};
+
+type AuthorName = { family: string; given: string } | { literal: string };
+
+export const BIBLIOGRAPHY_FORMATS: Record<BibliographyFormat, { label: string; extension: string; contentType: string }> = {
+  bibtex: { label: "BibTeX", extension: "bib", contentType: "application/x-bibtex; charset=utf-8" },
+  ris: { label: "RIS", extension: "ris", contentType: "application/x-research-info-systems; charset=utf-8" },
+  "csl-json": { label: "CSL-JSON", extension: "json", contentType: "application/vnd.citationstyles.csl+json; charset=utf-8" }
+};
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December"
+];
+
+const SITE_NAMES: Array<[string, string]> = [
+  ["pubmed.ncbi.nlm.nih.gov", "PubMed"],
+  ["clinicaltrials.gov", "ClinicalTrials.gov"],
+  ["fda.gov", "US Food and Drug Administration"],
+  ["ema.europa.eu", "European Medicines Agency"],
+  ["pubchem.ncbi.nlm.nih.gov", "PubChem"],
+  ["ebi.ac.uk", "ChEMBL"],
+  ["reddit.com", "Reddit"]
+];
+
+const RIS_TYPES: Record<CitationPublicationType, string> = {
+  JOURNAL_ARTICLE: "JOUR",
+  CLINICAL_TRIAL: "DBASE",
+  REGULATORY_LABEL: "GOVDOC",
+  DATABASE_RECORD: "DBASE",
+  SEARCH_RESULTS: "ELEC",
+  COMMUNITY: "BLOG",
+  WEB_PAGE: "ELEC"
+};
+
+const CSL_TYPES: Record<CitationPublicationType, string> = {
+  JOURNAL_ARTICLE: "article-journal",
+  CLINICAL_TRIAL: "dataset",
+  REGULATORY_LABEL: "document",
+  DATABASE_RECORD: "dataset",
+  SEARCH_RESULTS: "webpage",
+  COMMUNITY: "post",
+  WEB_PAGE: "webpage"
+};
+
+// AMA lists up to six authors; longer lists show the first three followed by "et al".
+const AMA_MAX_AUTHORS = 6;
+const AMA_TRUNCATED_AUTHORS = 3;
+
+export function isCommunityClaim(claim: Pick<EvidenceClaim, "section">): boolean {
+  return claim.section.startsWith("Community Signals");
+}
+
+function dateParts(value: string | null): number[] {
+  const match = (value ?? "").match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+  if (!match) {
+    return [];
+  }
+  return match
+    .slice(1)
+    .filter((part): part is string => Boolean(part))
+    .map((part) => Number(part));
+}
+
+function amaDate(value: string | null): string | null {
+  const [year, month, day] = dateParts(value);
+  if (!year) {
+    return null;
+  }
+  if (!month) {
+    return String(year);
+  }
+  return day ? `${MONTHS[month - 1]} ${day}, ${year}` : `${MONTHS[month - 1]} ${year}`;
+}
+
+function siteName(url: string): string {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    const known = SITE_NAMES.find(([host]) => hostname === host || hostname.endsWith(`.${host}`));
+    return known ? known[1] : hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+// PubMed stores names as "Smith JA"; other sources may use "Smith, Jane" or an organization name.
+function parseAuthor(name: string): AuthorName {
+  const initials = name.match(/^(.+?)\s+([A-Z]{1,3})$/);
+  if (initials) {
+    return { family: initials[1], given: initials[2].split("").map((letter) => `${letter}.`).join(" ") };
+  }
+  const [family, given] = name.split(",").map((part) => part.trim());
+  if (family && given) {
+    return { family, given };
+  }
+  return { literal: name };
+}
+
+function sentence(text: string): string {
+  const trimmed = text.trim();
+  return /[.?!]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+}
+
+function citationKey(entry: Omit<BibliographyEntry, "key">, used: Set<string>): string {
+  const first = entry.authors[0] ? parseAuthor(entry.authors[0]) : null;
+  const name = first ? ("family" in first ? first.family : first.literal) : entry.title;
+  const stem = (name.split(/\s+/)[0] ?? "").toLowerCase().replace(/[^a-z0-9]/g, "") || "ref";
+  const base = `${stem}${dateParts(entry.publishedAt)[0] ?? ""}`;
+  let key = base;
+  for (let suffix = 2; used.has(key); suffix += 1) {
+    key = `${base}_${suffix}`;
+  }
+  used.add(key);
+  return key;
+}
+
+// One entry per source: claims that cite the same PMID, DOI, NCT ID, or URL collapse together.
+// Identifiers missing from older rows are recovered from the source URL.
+export function buildBibliography(claims: EvidenceClaim[]): BibliographyEntry[] {
+  const seen = new Set<string>();
+  const usedKeys = new Set<string>();
+  const entries: BibliographyEntry[] = [];
+
+  for (const claim of claims) {
+    const canonical = canonicalizeCitation(claim);
+    const identity = canonical?.canonicalKey ?? `url:${claim.sourceUrl}`;
+    if (seen.has(identity)) {
+      continue;
+    }
+    seen.add(identity);
+
+    const entry = {
+      title: claim.sourceTitle?.trim() || siteName(claim.sourceUrl),
+      url: claim.sourceUrl,
+      authors: claim.authors,
+      journal: claim.journal,
+      publishedAt: claim.publishedAt,
+      retrievedAt: claim.retrievedAt,
+      pmid: canonical?.pmid ?? claim.pmid,
+      doi: canonical?.doi ?? claim.doi,
+      nctId: canonical?.nctId ?? claim.nctId,
+      publicationType: canonical?.publicationType ?? claim.publicationType ?? "WEB_PAGE"
+    };
+    entries.push({ ...entry, key: citationKey(entry, usedKeys) });
+  }
+
+  return entries;
+}
+
+function amaAuthors(authors: string[]): string {
+  const names = authors.map((author) => {
+    const parsed = parseAuthor(author);
+    if ("literal" in parsed) {
+      return parsed.literal;
+    }
+    return `${parsed.family} ${parsed.given.replace(/[.\s]/g, "")}`;
+  });
+  if (names.length > AMA_MAX_AUTHORS) {
+    return `${names.slice(0, AMA_TRUNCATED_AUTHORS).join(", ")}, et al`;
+  }
+  return names.join(", ");
+}
+
+export function formatAmaCitation(entry: BibliographyEntry): string {
+  const parts: string[] = [];
+  const authors = amaAuthors(entry.authors);
+  if (authors) {
+    parts.push(sentence(authors));
+  }
+  parts.push(sentence(entry.title));
+
+  const published = amaDate(entry.publishedAt);
+  const accessed = amaDate(entry.retrievedAt);
+  if (entry.publicationType === "JOURNAL_ARTICLE" && entry.journal) {
+    const year = dateParts(entry.publishedAt)[0];
+    parts.push(year ? `${entry.journal}. ${year}.` : sentence(entry.journal));
+    parts.push(entry.doi ? `doi:${entry.doi}` : entry.url);
+    return parts.join(" ");
+  }
+
+  if (entry.publicationType === "CLINICAL_TRIAL" && entry.nctId) {
+    parts.push(`ClinicalTrials.gov identifier: ${entry.nctId}.`);
+    if (published) {
+      parts.push(`Updated ${published}.`);
+    }
+  } else {
+    parts.push(sentence(siteName(entry.url)));
+    if (published) {
+      parts.push(`Published ${published}.`);
+    }
+  }
+  if (accessed) {
+    parts.push(`Accessed ${accessed}.`);
+  }
+  parts.push(entry.url);
+  return parts.join(" ");
+}
+
+function escapeBibtex(value: string): string {
+  return value.replace(/[\\{}&%$#_]/g, (char) => (char === "\\" ? "\\textbackslash{}" : `\\${char}`));
+}
+
+function bibtexAuthor(name: string): string {
+  const parsed = parseAuthor(name);
+  return "literal" in parsed ? `{${escapeBibtex(parsed.literal)}}` : escapeBibtex(`${parsed.family}, ${parsed.given}`);
+}
+
+export function toBibtex(entries: BibliographyEntry[]): string {
+  return entries
+    .map((entry) => {
+      const isArticle = entry.publicationType === "JOURNAL_ARTICLE" && Boolean(entry.journal);
+      const [year] = dateParts(entry.publishedAt);
+      const fields: Array<[string, string | null]> = [
+        ["title", escapeBibtex(entry.title)],
+        ["author", entry.authors.length > 0 ? entry.authors.map((author) => bibtexAuthor(author)).join(" and ") : null],
+        [isArticle ? "journal" : "howpublished", escapeBibtex(isArticle ? entry.journal ?? "" : siteName(entry.url))],
+        ["year", year ? String(year) : null],
+        ["date", entry.publishedAt || null],
+        ["doi", entry.doi ? escapeBibtex(entry.doi) : null],
+        ["pmid", entry.pmid],
+        ["note", entry.nctId ? `ClinicalTrials.gov identifier: ${entry.nctId}` : null],
+        ["url", entry.url],
+        ["urldate", entry.retrievedAt ? entry.retrievedAt.slice(0, 10) : null]
+      ];
+      const body = fields
+        .filter((field): field is [string, string] => Boolean(field[1]))
+        .map(([name, value]) => `  ${name} = {${value}}`)
+        .join(",\n");
+      return `@${isArticle ? "article" : "misc"}{${entry.key},\n${body}\n}`;
+    })
+    .join("\n\n")
+    .concat(entries.length > 0 ? "\n" : "");
+}
+
+export function toRis(entries: BibliographyEntry[]): string {
+  return entries
+    .map((entry) => {
+      const [year, month, day] = dateParts(entry.publishedAt);
+      const lines: Array<[string, string | null]> = [
+        ["TY", RIS_TYPES[entry.publicationType]],
+        ...entry.authors.map((author): [string, string] => {
+          const parsed = parseAuthor(author);
+          return ["AU", "literal" in parsed ? parsed.literal : `${parsed.family}, ${parsed.given}`];
+        }),
+        ["TI", entry.title],
+        ["T2", entry.journal ?? siteName(entry.url)],
+        ["PY", year ? String(year) : null],
+        ["DA", year ? [year, month, day].filter(Boolean).map((part) => String(part).padStart(2, "0")).join("/") : null],
+        ["DO", entry.doi],
+        ["AN", entry.pmid ?? entry.nctId],
+        ["DB", entry.pmid ? "PubMed" : entry.nctId ? "ClinicalTrials.gov" : null],
+        ["UR", entry.url],
+        ["Y2", entry.retrievedAt ? entry.retrievedAt.slice(0, 10).replace(/-/g, "/") : null],
+        ["ER", ""]
+      ];
+      return lines
+        .filter((line): line is [string, string] => line[1] !== null)
+        .map(([tag, value]) => `${tag}  - ${value}`)
+        .join("\r\n");
+    })
+    .join("\r\n\r\n")
+    .concat(entries.length > 0 ? "\r\n" : "");
+}
+
+export function toCslJson(entries: BibliographyEntry[]): string {
+  const items = entries.map((entry) => {
+    const issued = dateParts(entry.publishedAt);
+    const accessed = dateParts(entry.retrievedAt);
+    return {
+      id: entry.key,
+      type: CSL_TYPES[entry.publicationType],
+      title: entry.title,
+      ...(entry.authors.length > 0 ? { author: entry.authors.map((author) => parseAuthor(author)) } : {}),
+      "container-title": entry.journal ?? siteName(entry.url),
+      ...(issued.length > 0 ? { issued: { "date-parts": [issued] } } : {}),
+      ...(accessed.length > 0 ? { accessed: { "date-parts": [accessed] } } : {}),
+      ...(entry.doi ? { DOI: entry.doi } : {}),
+      ...(entry.pmid ? { PMID: entry.pmid } : {}),
+      ...(entry.nctId ? { number: entry.nctId } : {}),
+      URL: entry.url
+    };
+  });
+  return `${JSON.stringify(items, null, 2)}\n`;
+}
+
+export function formatBibliography(entries: BibliographyEntry[], format: BibliographyFormat): string {
+  if (format === "bibtex") {
+    return toBibtex(entries);
+  }
+  if (format === "ris") {
+    return toRis(entries);
+  }
+  return toCslJson(entries);
+}
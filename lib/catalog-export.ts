@@ -0,0 +1,599 @@
+import { createHash } from "crypto";
+import { gzipSync } from "zlib";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import initSqlJs from "sql.js";
+
+type ExportValue = string | number | boolean | null;
+type ExportRow = Record<string, ExportValue>;
+type ColumnType = "TEXT" | "INTEGER" | "REAL";
+
+export type CatalogExportTable = {
+  name: string;
+  columns: Array<{ name: string; type: ColumnType }>;
+  rows: ExportRow[];
+};
+
+export type CatalogExport = {
+  generatedAt: string;
+  tables: CatalogExportTable[];
+};
+
+export type CatalogExportFile = {
+  name: string;
+  contentType: string;
+  body: Uint8Array;
+};
+
+export type CatalogExportManifest = {
+  generatedAt: string;
+  contentHash: string;
+  tables: Array<{ name: string; rowCount: number }>;
+  files: Array<{ name: string; bytes: number; sha256: string }>;
+};
+
+type SourceQuery = {
+  table: string;
+  columns: string;
+  orderBy: string;
+  filters: string[];
+};
+
+const FETCH_PAGE_SIZE = 1000;
+
+export const CATALOG_EXPORT_TABLES = [
+  "peptides",
+  "peptide_aliases",
+  "peptide_statuses",
+  "peptide_use_cases",
+  "peptide_dosing",
+  "peptide_safety",
+  "peptide_claims",
+  "citations",
+  "vendors",
+  "vendor_listings"
+] as const;
+
+export const CATALOG_EXPORT_FILES = [
+  ...CATALOG_EXPORT_TABLES.map((table) => `${table}.csv`),
+  "catalog.jsonl",
+  "catalog.sqlite",
+  "manifest.json"
+];
+
+export const CATALOG_EXPORT_BUNDLE = "peptidedb-catalog.tar.gz";
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function asArray<T = unknown>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+function asText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function firstRecord(value: unknown): Record<string, unknown> | null {
+  return Array.isArray(value) ? asRecord(value[0]) : asRecord(value);
+}
+
+function text(name: string) {
+  return { name, type: "TEXT" as const };
+}
+
+function integer(name: string) {
+  return { name, type: "INTEGER" as const };
+}
+
+function real(name: string) {
+  return { name, type: "REAL" as const };
+}
+
+async function fetchAllRows(supabase: SupabaseClient, source: SourceQuery): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  for (let start = 0; ; start += FETCH_PAGE_SIZE) {
+    let query = supabase
+      .from(source.table)
+      .select(source.columns)
+      .order(source.orderBy, { ascending: true })
+      .range(start, start + FETCH_PAGE_SIZE - 1);
+    for (const filter of source.filters) {
+      query = query.eq(filter, true);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed exporting ${source.table}: ${error.message}`);
+    }
+
+    const batch = asArray(data)
+      .map((row) => asRecord(row))
+      .filter((row): row is Record<string, unknown> => row !== null);
+    rows.push(...batch);
+    if (batch.length < FETCH_PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+function peptideSource(table: string, columns: string, orderBy = "id"): SourceQuery {
+  return {
+    table,
+    columns: `${columns},peptides!inner(slug,is_published)`,
+    orderBy,
+    filters: ["peptides.is_published"]
+  };
+}
+
+function jurisdictionCode(row: Record<string, unknown>): string | null {
+  return asText(firstRecord(row.jurisdictions)?.code);
+}
+
+function peptideSlug(row: Record<string, unknown>): string | null {
+  return asText(firstRecord(row.peptides)?.slug);
+}
+
+export async function loadCatalogExport(supabase: SupabaseClient): Promise<CatalogExport> {
+  const [peptideRows, aliasRows, statusRows, useCaseRows, dosingRows, safetyRows, claimRows, vendorRows, listingRows, ratingRows] =
+    await Promise.all([
+      fetchAllRows(supabase, {
+        table: "peptides",
+        columns:
+          "id,slug,canonical_name,sequence,peptide_class,last_live_refresh_at,peptide_profiles(intro,mechanism,effectiveness_summary,long_description)",
+        orderBy: "id",
+        filters: ["is_published"]
+      }),
+      fetchAllRows(supabase, peptideSource("peptide_aliases", "peptide_id,alias")),
+      fetchAllRows(
+        supabase,
+        peptideSource(
+          "peptide_regulatory_status",
+          "peptide_id,status,notes,approval_date,approved_indications,brand_names,regulator_reference,source_url,jurisdictions(code)"
+        )
+      ),
+      fetchAllRows(
+        supabase,
+        peptideSource(
+          "peptide_use_cases",
+          "peptide_id,evidence_grade,consumer_summary,clinical_summary,use_cases(slug,name),jurisdictions(code)"
+        )
+      ),
+      fetchAllRows(
+        supabase,
+        peptideSource(
+          "peptide_dosing_entries",
+          "id,peptide_id,context,population,route,starting_dose,maintenance_dose,frequency,notes,jurisdictions(code)"
+        )
+      ),
+      fetchAllRows(
+        supabase,
+        peptideSource("peptide_safety_entries", "peptide_id,adverse_effects,contraindications,interactions,monitoring,jurisdictions(code)")
+      ),
+      fetchAllRows(
+        supabase,
+        peptideSource(
+          "peptide_claims",
+          "id,peptide_id,section,claim_text,evidence_grade,citation_id,citations(id,source_url,source_title,published_at,pmid,doi,nct_id,authors,journal,publication_type,enrollment)"
+        )
+      ),
+      fetchAllRows(supabase, {
+        table: "vendors",
+        columns: "id,slug,name,website_url,vendor_profiles(description)",
+        orderBy: "id",
+        filters: ["is_published"]
+      }),
+      fetchAllRows(supabase, {
+        table: "vendor_peptide_listings",
+        columns: "vendor_id,peptide_id,product_url,is_affiliate,vendors!inner(slug,is_published),peptides!inner(slug,is_published)",
+        orderBy: "id",
+        filters: ["vendors.is_published", "peptides.is_published"]
+      }),
+      fetchAllRows(supabase, {
+        table: "vendor_rating_snapshots",
+        columns: "vendor_id,rating,confidence,method_version,scoring_version,reason_tags,calculated_at,vendors!inner(is_published)",
+        orderBy: "id",
+        filters: ["is_current", "vendors.is_published"]
+      })
+    ]);
+
+  const citationsById = new Map<number, ExportRow>();
+  for (const row of claimRows) {
+    const citation = firstRecord(row.citations);
+    const id = asNumber(citation?.id);
+    if (citation && id !== null && !citationsById.has(id)) {
+      citationsById.set(id, {
+        id,
+        source_url: asText(citation.source_url),
+        source_title: asText(citation.source_title),
+        published_at: asText(citation.published_at),
+        pmid: asText(citation.pmid),
+        doi: asText(citation.doi),
+        nct_id: asText(citation.nct_id),
+        authors: asArray(citation.authors).map((author) => asText(author)).filter(Boolean).join(";") || null,
+        journal: asText(citation.journal),
+        publication_type: asText(citation.publication_type),
+        enrollment: asNumber(citation.enrollment)
+      });
+    }
+  }
+
+  const ratingByVendor = new Map<number, Record<string, unknown>>();
+  for (const row of ratingRows) {
+    const vendorId = asNumber(row.vendor_id);
+    if (vendorId !== null) {
+      ratingByVendor.set(vendorId, row);
+    }
+  }
+
+  const tables: CatalogExportTable[] = [
+    {
+      name: "peptides",
+      columns: [
+        integer("id"),
+        text("slug"),
+        text("name"),
+        text("sequence"),
+        text("peptide_class"),
+        text("intro"),
+        text("mechanism"),
+        text("effectiveness_summary"),
+        text("long_description"),
+        text("last_live_refresh_at")
+      ],
+      rows: peptideRows.map((row) => {
+        const profile = firstRecord(row.peptide_profiles);
+        return {
+          id: asNumber(row.id),
+          slug: asText(row.slug),
+          name: asText(row.canonical_name),
+          sequence: asText(row.sequence),
+          peptide_class: asText(row.peptide_class),
+          intro: asText(profile?.intro),
+          mechanism: asText(profile?.mechanism),
+          effectiveness_summary: asText(profile?.effectiveness_summary),
+          long_description: asText(profile?.long_description),
+          last_live_refresh_at: asText(row.last_live_refresh_at)
+        };
+      })
+    },
+    {
+      name: "peptide_aliases",
+      columns: [integer("peptide_id"), text("peptide_slug"), text("alias")],
+      rows: aliasRows.map((row) => ({
+        peptide_id: asNumber(row.peptide_id),
+        peptide_slug: peptideSlug(row),
+        alias: asText(row.alias)
+      }))
+    },
+    {
+      name: "peptide_statuses",
+      columns: [
+        integer("peptide_id"),
+        text("peptide_slug"),
+        text("jurisdiction"),
+        text("status"),
+        text("notes"),
+        text("approval_date"),
+        text("approved_indications"),
+        text("brand_names"),
+        text("regulator_reference"),
+        text("source_url")
+      ],
+      rows: statusRows.map((row) => ({
+        peptide_id: asNumber(row.peptide_id),
+        peptide_slug: peptideSlug(row),
+        jurisdiction: jurisdictionCode(row),
+        status: asText(row.status),
+        notes: asText(row.notes),
+        approval_date: asText(row.approval_date),
+        approved_indications: asArray(row.approved_indications).map((entry) => asText(entry)).filter(Boolean).join(";") || null,
+        brand_names: asArray(row.brand_names).map((entry) => asText(entry)).filter(Boolean).join(";") || null,
+        regulator_reference: asText(row.regulator_reference),
+        source_url: asText(row.source_url)
+      }))
+    },
+    {
+      name: "peptide_use_cases",
+      columns: [
+        integer("peptide_id"),
+        text("peptide_slug"),
+        text("use_case_slug"),
+        text("use_case"),
+        text("jurisdiction"),
+        text("evidence_grade"),
+        text("consumer_summary"),
+        text("clinical_summary")
+      ],
+      rows: useCaseRows.map((row) => {
+        const useCase = firstRecord(row.use_cases);
+        return {
+          peptide_id: asNumber(row.peptide_id),
+          peptide_slug: peptideSlug(row),
+          use_case_slug: asText(useCase?.slug),
+          use_case: asText(useCase?.name),
+          jurisdiction: jurisdictionCode(row),
+          evidence_grade: asText(row.evidence_grade),
+          consumer_summary: asText(row.consumer_summary),
+          clinical_summary: asText(row.clinical_summary)
+        };
+      })
+    },
+    {
+      name: "peptide_dosing",
+      columns: [
+        integer("id"),
+        integer("peptide_id"),
+        text("peptide_slug"),
+        text("jurisdiction"),
+        text("context"),
+        text("population"),
+        text("route"),
+        text("starting_dose"),
+        text("maintenance_dose"),
+        text("frequency"),
+        text("notes")
+      ],
+      rows: dosingRows.map((row) => ({
+        id: asNumber(row.id),
+        peptide_id: asNumber(row.peptide_id),
+        peptide_slug: peptideSlug(row),
+        jurisdiction: jurisdictionCode(row),
+        context: asText(row.context),
+        population: asText(row.population),
+        route: asText(row.route),
+        starting_dose: asText(row.starting_dose),
+        maintenance_dose: asText(row.maintenance_dose),
+        frequency: asText(row.frequency),
+        notes: asText(row.notes)
+      }))
+    },
+    {
+      name: "peptide_safety",
+      columns: [
+        integer("peptide_id"),
+        text("peptide_slug"),
+        text("jurisdiction"),
+        text("adverse_effects"),
+        text("contraindications"),
+        text("interactions"),
+        text("monitoring")
+      ],
+      rows: safetyRows.map((row) => ({
+        peptide_id: asNumber(row.peptide_id),
+        peptide_slug: peptideSlug(row),
+        jurisdiction: jurisdictionCode(row),
+        adverse_effects: asText(row.adverse_effects),
+        contraindications: asText(row.contraindications),
+        interactions: asText(row.interactions),
+        monitoring: asText(row.monitoring)
+      }))
+    },
+    {
+      name: "peptide_claims",
+      columns: [
+        integer("id"),
+        integer("peptide_id"),
+        text("peptide_slug"),
+        text("section"),
+        text("claim_text"),
+        text("evidence_grade"),
+        integer("citation_id")
+      ],
+      rows: claimRows.map((row) => ({
+        id: asNumber(row.id),
+        peptide_id: asNumber(row.peptide_id),
+        peptide_slug: peptideSlug(row),
+        section: asText(row.section),
+        claim_text: asText(row.claim_text),
+        evidence_grade: asText(row.evidence_grade),
+        citation_id: asNumber(row.citation_id)
+      }))
+    },
+    {
+      name: "citations",
+      columns: [
+        integer("id"),
+        text("source_url"),
+        text("source_title"),
+        text("published_at"),
+        text("pmid"),
+        text("doi"),
+        text("nct_id"),
+        text("authors"),
+        text("journal"),
+        text("publication_type"),
+        integer("enrollment")
+      ],
+      rows: Array.from(citationsById.values()).sort((a, b) => Number(a.id) - Number(b.id))
+    },
+    {
+      name: "vendors",
+      columns: [
+        integer("id"),
+        text("slug"),
+        text("name"),
+        text("website_url"),
+        text("description"),
+        real("rating"),
+        real("confidence"),
+        text("rating_method_version"),
+        text("rating_scoring_version"),
+        text("rating_reason_tags"),
+        text("rating_calculated_at")
+      ],
+      rows: vendorRows.map((row) => {
+        const id = asNumber(row.id);
+        const rating = id !== null ? ratingByVendor.get(id) : undefined;
+        return {
+          id,
+          slug: asText(row.slug),
+          name: asText(row.name),
+          website_url: asText(row.website_url),
+          description: asText(firstRecord(row.vendor_profiles)?.description),
+          rating: asNumber(rating?.rating),
+          confidence: asNumber(rating?.confidence),
+          rating_method_version: asText(rating?.method_version),
+          rating_scoring_version: asText(rating?.scoring_version),
+          rating_reason_tags: asArray(rating?.reason_tags).map((tag) => asText(tag)).filter(Boolean).join(";") || null,
+          rating_calculated_at: asText(rating?.calculated_at)
+        };
+      })
+    },
+    {
+      name: "vendor_listings",
+      columns: [integer("vendor_id"), text("vendor_slug"), integer("peptide_id"), text("peptide_slug"), text("product_url"), integer("is_affiliate")],
+      rows: listingRows.map((row) => ({
+        vendor_id: asNumber(row.vendor_id),
+        vendor_slug: asText(firstRecord(row.vendors)?.slug),
+        peptide_id: asNumber(row.peptide_id),
+        peptide_slug: peptideSlug(row),
+        product_url: asText(row.product_url),
+        is_affiliate: row.is_affiliate === true
+      }))
+    }
+  ];
+
+  return { generatedAt: new Date().toISOString(), tables };
+}
+
+function csvCell(value: ExportValue): string {
+  if (value === null) {
+    return "";
+  }
+  const raw = typeof value === "boolean" ? (value ? "true" : "false") : String(value);
+  return /[",\r\n]/.test(raw) ? `"${raw.replace(/"/g, '""')}"` : raw;
+}
+
+export function toCsv(table: CatalogExportTable): string {
+  const header = table.columns.map((column) => csvCell(column.name)).join(",");
+  const lines = table.rows.map((row) => table.columns.map((column) => csvCell(row[column.name] ?? null)).join(","));
+  return `${[header, ...lines].join("\r\n")}\r\n`;
+}
+
+export function toJsonl(catalog: CatalogExport): string {
+  const lines: string[] = [];
+  for (const table of catalog.tables) {
+    for (const row of table.rows) {
+      lines.push(JSON.stringify({ table: table.name, row }));
+    }
+  }
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
+
+export async function toSqlite(catalog: CatalogExport): Promise<Uint8Array> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  try {
+    db.run("BEGIN");
+    for (const table of catalog.tables) {
+      const columnSql = table.columns.map((column) => `"${column.name}" ${column.type}`).join(", ");
+      db.run(`CREATE TABLE "${table.name}" (${columnSql})`);
+
+      const placeholders = table.columns.map(() => "?").join(", ");
+      const insert = db.prepare(`INSERT INTO "${table.name}" VALUES (${placeholders})`);
+      for (const row of table.rows) {
+        insert.run(
+          table.columns.map((column) => {
+            const value = row[column.name] ?? null;
+            return typeof value === "boolean" ? (value ? 1 : 0) : value;
+          })
+        );
+      }
+      insert.free();
+    }
+    db.run("COMMIT");
+    return db.export();
+  } finally {
+    db.close();
+  }
+}
+
+function sha256(body: Uint8Array | string): string {
+  return createHash("sha256").update(body).digest("hex");
+}
+
+export async function buildCatalogExportFiles(catalog: CatalogExport): Promise<CatalogExportFile[]> {
+  const encoder = new TextEncoder();
+  const jsonl = toJsonl(catalog);
+  const files: CatalogExportFile[] = [
+    ...catalog.tables.map((table) => ({
+      name: `${table.name}.csv`,
+      contentType: "text/csv; charset=utf-8",
+      body: encoder.encode(toCsv(table))
+    })),
+    { name: "catalog.jsonl", contentType: "application/x-ndjson; charset=utf-8", body: encoder.encode(jsonl) },
+    { name: "catalog.sqlite", contentType: "application/vnd.sqlite3", body: await toSqlite(catalog) }
+  ];
+
+  // The content hash covers the data only (the JSONL dump), so re-exporting unchanged data yields the same hash.
+  const manifest: CatalogExportManifest = {
+    generatedAt: catalog.generatedAt,
+    contentHash: sha256(jsonl),
+    tables: catalog.tables.map((table) => ({ name: table.name, rowCount: table.rows.length })),
+    files: files.map((file) => ({ name: file.name, bytes: file.body.byteLength, sha256: sha256(file.body) }))
+  };
+
+  return [
+    ...files,
+    {
+      name: "manifest.json",
+      contentType: "application/json; charset=utf-8",
+      body: encoder.encode(`${JSON.stringify(manifest, null, 2)}\n`)
+    }
+  ];
+}
+
+function tarHeaderField(header: Uint8Array, offset: number, length: number, value: string) {
+  header.set(new TextEncoder().encode(value).subarray(0, length), offset);
+}
+
+function tarOctal(value: number, width: number): string {
+  return `${value.toString(8).padStart(width - 1, "0")}\0`;
+}
+
+// Minimal ustar writer: regular files only, names under 100 bytes.
+function toTar(files: CatalogExportFile[], modifiedAt: Date): Uint8Array {
+  const mtime = Math.floor(modifiedAt.getTime() / 1000);
+  const blocks: Uint8Array[] = [];
+  for (const file of files) {
+    const header = new Uint8Array(512);
+    tarHeaderField(header, 0, 100, `peptidedb-catalog/${file.name}`);
+    tarHeaderField(header, 100, 8, tarOctal(0o644, 8));
+    tarHeaderField(header, 108, 8, tarOctal(0, 8));
+    tarHeaderField(header, 116, 8, tarOctal(0, 8));
+    tarHeaderField(header, 124, 12, tarOctal(file.body.byteLength, 12));
+    tarHeaderField(header, 136, 12, tarOctal(mtime, 12));
+    tarHeaderField(header, 148, 8, " ".repeat(8));
+    tarHeaderField(header, 156, 1, "0");
+    tarHeaderField(header, 257, 8, "ustar\u000000");
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    tarHeaderField(header, 148, 8, `${checksum.toString(8).padStart(6, "0")}\0 `);
+
+    blocks.push(header, file.body, new Uint8Array((512 - (file.body.byteLength % 512)) % 512));
+  }
+  blocks.push(new Uint8Array(1024));
+  return Buffer.concat(blocks);
+}
+
+// Every file of one export snapshot in a single download, so the manifest's hashes and generatedAt
+// always describe the files next to it.
+export async function buildCatalogExportBundle(catalog: CatalogExport): Promise<CatalogExportFile> {
+  const files = await buildCatalogExportFiles(catalog);
+  return {
+    name: CATALOG_EXPORT_BUNDLE,
+    contentType: "application/gzip",
+    body: gzipSync(toTar(files, new Date(catalog.generatedAt)))
+  };
+}
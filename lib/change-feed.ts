@@ -0,0 +1,75 @@
+import { CONTENT_CHANGE_SOURCE_LABELS } from "@/lib/content-changes";
+import { capitalizeLeadingLetter } from "@/lib/display-format";
+import { absoluteUrl } from "@/lib/seo";
+import type { ContentChange } from "@/lib/types";
+
+export const CHANGE_FEED_PATH = "/updates/feed.xml";
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Vendor listings name both sides; everything else belongs to one peptide or one vendor.
+export function changeEntityName(change: ContentChange): string {
+  const names = [change.vendor?.name, change.peptide ? capitalizeLeadingLetter(change.peptide.name) : null].filter(
+    (name): name is string => Boolean(name)
+  );
+  return names.join(" · ") || "Removed entry";
+}
+
+export function changeEntityPath(change: ContentChange): string | null {
+  if (change.peptide) {
+    return `/peptides/${change.peptide.slug}`;
+  }
+  return change.vendor ? `/vendors/${change.vendor.slug}` : null;
+}
+
+export function describeChange(change: ContentChange): string {
+  if (change.oldSummary && change.newSummary) {
+    return `${change.oldSummary} → ${change.newSummary}`;
+  }
+  if (change.oldSummary) {
+    return `Removed: ${change.oldSummary}`;
+  }
+  return change.newSummary ?? "Updated";
+}
+
+export function buildAtomFeed(changes: ContentChange[]): string {
+  const updatesUrl = absoluteUrl("/updates");
+  const updated = changes[0]?.changedAt ?? new Date().toISOString();
+  const entries = changes.map((change) => {
+    const path = changeEntityPath(change);
+    const link = path ? absoluteUrl(path) : `${updatesUrl}#change-${change.id}`;
+    const title = `${changeEntityName(change)}: ${change.field}`;
+    return [
+      "  <entry>",
+      `    <id>${escapeXml(`${updatesUrl}#change-${change.id}`)}</id>`,
+      `    <title>${escapeXml(title)}</title>`,
+      `    <link rel="alternate" href="${escapeXml(link)}"/>`,
+      `    <updated>${escapeXml(new Date(change.changedAt).toISOString())}</updated>`,
+      `    <category term="${escapeXml(change.entityType)}"/>`,
+      `    <summary>${escapeXml(`${describeChange(change)} (${CONTENT_CHANGE_SOURCE_LABELS[change.source]})`)}</summary>`,
+      "  </entry>"
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    "  <title>PeptideDB updates</title>",
+    "  <subtitle>Changes to peptide profiles, regulatory status, dosing, evidence, and vendor ratings.</subtitle>",
+    `  <id>${escapeXml(updatesUrl)}</id>`,
+    `  <link rel="self" href="${escapeXml(absoluteUrl(CHANGE_FEED_PATH))}"/>`,
+    `  <link rel="alternate" href="${escapeXml(updatesUrl)}"/>`,
+    `  <updated>${escapeXml(new Date(updated).toISOString())}</updated>`,
+    "  <author><name>PeptideDB</name></author>",
+    ...entries,
+    "</feed>",
+    ""
+  ].join("\n");
+}
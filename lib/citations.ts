@@ -0,0 +1,588 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { toHumanReadableSourceUrl } from "@/lib/reference-sources";
+import type { CitationPublicationType } from "@/lib/types";
+
+export type CitationInput = {
+  sourceUrl: string;
+  sourceTitle?: string | null;
+  publishedAt: string;
+  authors?: string[];
+  journal?: string | null;
+  publicationType?: CitationPublicationType | null;
+  pmid?: string | null;
+  doi?: string | null;
+  nctId?: string | null;
+  enrollment?: number | null;
+};
+
+export type CitationIdentifiers = {
+  pmid: string | null;
+  doi: string | null;
+  nctId: string | null;
+};
+
+export type CanonicalCitation = CitationIdentifiers & {
+  sourceUrl: string;
+  canonicalKey: string;
+  publicationType: CitationPublicationType;
+};
+
+export type StoredCitation = CitationIdentifiers & {
+  id: number;
+  sourceUrl: string;
+  sourceTitle: string | null;
+  publishedAt: string;
+  canonicalKey: string | null;
+  authors: string[];
+  journal: string | null;
+  publicationType: CitationPublicationType | null;
+  enrollment: number | null;
+};
+
+export type CitationMergePlan = {
+  survivorId: number;
+  duplicateIds: number[];
+  update: Record<string, unknown> | null;
+};
+
+export type CitationMergeResult = {
+  scanned: number;
+  duplicateGroups: number;
+  removed: number;
+  updated: number;
+  invalid: number;
+};
+
+const CITATION_COLUMNS =
+  "id,source_url,source_title,published_at,canonical_key,pmid,doi,nct_id,authors,journal,publication_type,enrollment";
+
+// Every foreign key that points at citations. Merging repoints these before deleting duplicates.
+const CITATION_REFERENCES = [
+  { table: "peptide_claims", column: "citation_id" },
+  { table: "peptide_interactions", column: "citation_id" }
+] as const;
+
+const MERGE_PAGE_SIZE = 1000;
+const UNIQUE_VIOLATION = "23505";
+
+const DOI_PATTERN = /\b(10\.\d{4,9}\/[^\s"<>#?]+)/i;
+const NCT_PATTERN = /^NCT\d{8}$/i;
+const PMID_PATTERN = /^\d{1,9}$/;
+const TRACKING_PARAM_PATTERN = /^(utm_[a-z]+|fbclid|gclid|mc_cid|mc_eid)$/i;
+
+const REGULATOR_HOSTS = ["fda.gov", "dailymed.nlm.nih.gov", "ema.europa.eu", "medicines.org.uk", "tga.gov.au"];
+const COMMUNITY_HOSTS = ["reddit.com", "news.ycombinator.com", "hn.algolia.com", "youtube.com", "x.com", "twitter.com"];
+const DATABASE_HOSTS = ["pubchem.ncbi.nlm.nih.gov", "ebi.ac.uk", "uniprot.org", "drugbank.com", "go.drugbank.com"];
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseUrl(rawUrl: string): URL | null {
+  try {
+    return new URL(rawUrl);
+  } catch {
+    return null;
+  }
+}
+
+function hostMatches(hostname: string, expected: string): boolean {
+  return hostname === expected || hostname.endsWith(`.${expected}`);
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function cleanPmid(value: string | null | undefined): string | null {
+  const trimmed = (value ?? "").replace(/^pmid:?\s*/i, "").trim();
+  return PMID_PATTERN.test(trimmed) ? trimmed.replace(/^0+(?=\d)/, "") : null;
+}
+
+function cleanDoi(value: string | null | undefined): string | null {
+  const match = safeDecode(value ?? "").match(DOI_PATTERN)?.[1];
+  if (!match) {
+    return null;
+  }
+  // Trailing sentence punctuation is never part of a DOI; a closing parenthesis is only kept when balanced.
+  let doi = match.replace(/[.,;:]+$/, "");
+  while (doi.endsWith(")") && (doi.match(/\(/g)?.length ?? 0) < (doi.match(/\)/g)?.length ?? 0)) {
+    doi = doi.slice(0, -1);
+  }
+  return doi.toLowerCase();
+}
+
+function cleanNctId(value: string | null | undefined): string | null {
+  const trimmed = (value ?? "").trim();
+  return NCT_PATTERN.test(trimmed) ? trimmed.toUpperCase() : null;
+}
+
+export function extractCitationIdentifiers(url: string): CitationIdentifiers {
+  const parsed = parseUrl(url);
+  if (!parsed) {
+    return { pmid: null, doi: null, nctId: null };
+  }
+
+  const hostname = parsed.hostname.toLowerCase();
+  let pmid: string | null = null;
+  if (hostMatches(hostname, "pubmed.ncbi.nlm.nih.gov")) {
+    pmid = cleanPmid(parsed.pathname.match(/^\/(\d+)\/?$/)?.[1]);
+  } else if (hostMatches(hostname, "ncbi.nlm.nih.gov")) {
+    pmid = cleanPmid(parsed.pathname.match(/^\/pubmed\/(\d+)\/?$/i)?.[1]);
+  }
+
+  const nctId = hostMatches(hostname, "clinicaltrials.gov")
+    ? cleanNctId(parsed.pathname.match(/\/(?:study|ct2\/show(?:\/record)?)\/(NCT\d{8})\/?$/i)?.[1])
+    : null;
+
+  const doi = hostMatches(hostname, "doi.org")
+    ? cleanDoi(parsed.pathname.slice(1))
+    : cleanDoi(parsed.searchParams.get("doi")) ?? cleanDoi(parsed.pathname);
+
+  return { pmid, doi, nctId };
+}
+
+// Builds on toHumanReadableSourceUrl (API endpoints to human pages). It also collapses PubMed,
+// ClinicalTrials.gov and DOI links to one URL per record and drops tracking parameters and fragments.
+export function normalizeCitationUrl(rawUrl: string | null | undefined): string | null {
+  const readable = toHumanReadableSourceUrl(rawUrl);
+  if (!readable) {
+    return null;
+  }
+  const parsed = parseUrl(readable);
+  if (!parsed) {
+    return readable;
+  }
+
+  const identifiers = extractCitationIdentifiers(readable);
+  if (identifiers.pmid) {
+    return `https://pubmed.ncbi.nlm.nih.gov/${identifiers.pmid}/`;
+  }
+  if (identifiers.nctId) {
+    return `https://clinicaltrials.gov/study/${identifiers.nctId}`;
+  }
+  if (identifiers.doi && hostMatches(parsed.hostname.toLowerCase(), "doi.org")) {
+    return `https://doi.org/${identifiers.doi}`;
+  }
+
+  const trackingKeys = Array.from(parsed.searchParams.keys()).filter((key) => TRACKING_PARAM_PATTERN.test(key));
+  if (trackingKeys.length === 0 && !parsed.hash) {
+    return readable;
+  }
+  for (const key of trackingKeys) {
+    parsed.searchParams.delete(key);
+  }
+  parsed.hash = "";
+  return parsed.toString();
+}
+
+function isSearchUrl(parsed: URL): boolean {
+  const path = parsed.pathname.replace(/\/+$/, "");
+  if (path.endsWith("/search") || parsed.searchParams.get("event") === "BasicSearch.process") {
+    return true;
+  }
+  return !path && ["term", "q", "query"].some((key) => parsed.searchParams.has(key));
+}
+
+export function inferPublicationType(sourceUrl: string, identifiers: CitationIdentifiers): CitationPublicationType {
+  if (identifiers.nctId) {
+    return "CLINICAL_TRIAL";
+  }
+  if (identifiers.pmid || identifiers.doi) {
+    return "JOURNAL_ARTICLE";
+  }
+
+  const parsed = parseUrl(sourceUrl);
+  if (!parsed) {
+    return "WEB_PAGE";
+  }
+  const hostname = parsed.hostname.toLowerCase();
+  // FDA label citations point at the label search page, so regulators win over the search check.
+  if (REGULATOR_HOSTS.some((host) => hostMatches(hostname, host))) {
+    return "REGULATORY_LABEL";
+  }
+  if (COMMUNITY_HOSTS.some((host) => hostMatches(hostname, host))) {
+    return "COMMUNITY";
+  }
+  if (isSearchUrl(parsed)) {
+    return "SEARCH_RESULTS";
+  }
+  if (DATABASE_HOSTS.some((host) => hostMatches(hostname, host))) {
+    return "DATABASE_RECORD";
+  }
+  return "WEB_PAGE";
+}
+
+// The canonical key identifies one source across URL variants: PMID, then DOI, then NCT ID,
+// then the normalized URL for sources without a registry identifier.
+export function canonicalizeCitation(input: CitationInput): CanonicalCitation | null {
+  const sourceUrl = normalizeCitationUrl(input.sourceUrl);
+  if (!sourceUrl) {
+    return null;
+  }
+
+  const fromUrl = extractCitationIdentifiers(sourceUrl);
+  const identifiers: CitationIdentifiers = {
+    pmid: cleanPmid(input.pmid) ?? fromUrl.pmid,
+    doi: cleanDoi(input.doi) ?? fromUrl.doi,
+    nctId: cleanNctId(input.nctId) ?? fromUrl.nctId
+  };
+  const canonicalKey = identifiers.pmid
+    ? `pmid:${identifiers.pmid}`
+    : identifiers.doi
+      ? `doi:${identifiers.doi}`
+      : identifiers.nctId
+        ? `nct:${identifiers.nctId}`
+        : `url:${sourceUrl}`;
+
+  return {
+    ...identifiers,
+    sourceUrl,
+    canonicalKey,
+    publicationType: input.publicationType ?? inferPublicationType(sourceUrl, identifiers)
+  };
+}
+
+function toStoredCitation(value: unknown): StoredCitation | null {
+  const row = asRecord(value);
+  const id = Number(row?.id ?? 0);
+  if (!row || !id) {
+    return null;
+  }
+  return {
+    id,
+    sourceUrl: asString(row.source_url),
+    sourceTitle: asString(row.source_title) || null,
+    publishedAt: asString(row.published_at),
+    canonicalKey: asString(row.canonical_key) || null,
+    pmid: asString(row.pmid) || null,
+    doi: asString(row.doi) || null,
+    nctId: asString(row.nct_id) || null,
+    authors: asArray(row.authors).map((author) => asString(author)).filter(Boolean),
+    journal: asString(row.journal) || null,
+    publicationType: (asString(row.publication_type) || null) as CitationPublicationType | null,
+    enrollment: typeof row.enrollment === "number" ? row.enrollment : null
+  };
+}
+
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+// Matches on the canonical key, any shared identifier, or the URL of rows written before keys existed.
+async function findCitation(supabase: SupabaseClient, canonical: CanonicalCitation): Promise<StoredCitation | null> {
+  const filters = [
+    `canonical_key.eq.${quoteFilterValue(canonical.canonicalKey)}`,
+    `source_url.eq.${quoteFilterValue(canonical.sourceUrl)}`,
+    canonical.pmid ? `pmid.eq.${quoteFilterValue(canonical.pmid)}` : null,
+    canonical.doi ? `doi.eq.${quoteFilterValue(canonical.doi)}` : null,
+    canonical.nctId ? `nct_id.eq.${quoteFilterValue(canonical.nctId)}` : null
+  ].filter((filter): filter is string => filter !== null);
+
+  const { data, error } = await supabase
+    .from("citations")
+    .select(CITATION_COLUMNS)
+    .or(filters.join(","))
+    .order("id", { ascending: true })
+    .limit(10);
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rows = asArray(data)
+    .map((row) => toStoredCitation(row))
+    .filter((row): row is StoredCitation => row !== null);
+  return rows.find((row) => row.canonicalKey === canonical.canonicalKey) ?? rows[0] ?? null;
+}
+
+function citationColumns(canonical: CanonicalCitation, input: CitationInput): Record<string, unknown> {
+  return {
+    source_url: canonical.sourceUrl,
+    source_title: input.sourceTitle?.trim() || null,
+    published_at: input.publishedAt,
+    canonical_key: canonical.canonicalKey,
+    pmid: canonical.pmid,
+    doi: canonical.doi,
+    nct_id: canonical.nctId,
+    authors: (input.authors ?? []).map((author) => author.trim()).filter(Boolean),
+    journal: input.journal?.trim() || null,
+    publication_type: canonical.publicationType,
+    enrollment: input.enrollment ?? null
+  };
+}
+
+// Existing values win; a later ingest only fills what an earlier one left blank. Enrollment is the
+// exception: a registry reports the anticipated count until the trial closes, so the latest count wins.
+function missingFields(existing: StoredCitation, incoming: Record<string, unknown>): Record<string, unknown> {
+  const current: Record<string, unknown> = {
+    source_title: existing.sourceTitle,
+    canonical_key: existing.canonicalKey,
+    pmid: existing.pmid,
+    doi: existing.doi,
+    nct_id: existing.nctId,
+    authors: existing.authors.length > 0 ? existing.authors : null,
+    journal: existing.journal,
+    publication_type: existing.publicationType
+  };
+  const patch: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(current)) {
+    const next = incoming[column];
+    const hasNext = Array.isArray(next) ? next.length > 0 : Boolean(next);
+    if (value === null && hasNext) {
+      patch[column] = next;
+    }
+  }
+  if (typeof incoming.enrollment === "number" && incoming.enrollment > 0 && incoming.enrollment !== existing.enrollment) {
+    patch.enrollment = incoming.enrollment;
+  }
+  return patch;
+}
+
+export async function findOrCreateCitation(supabase: SupabaseClient, input: CitationInput): Promise<number> {
+  const canonical = canonicalizeCitation(input);
+  if (!canonical) {
+    throw new Error(`Missing or invalid citation URL: ${input.sourceUrl || "(empty)"}.`);
+  }
+  const columns = citationColumns(canonical, input);
+
+  const existing = await findCitation(supabase, canonical);
+  if (existing) {
+    const patch = missingFields(existing, columns);
+    if (Object.keys(patch).length > 0) {
+      const { error } = await supabase.from("citations").update(patch).eq("id", existing.id);
+      if (error) {
+        throw new Error(error.message);
+      }
+    }
+    return existing.id;
+  }
+
+  const { data: inserted, error: insertError } = await supabase.from("citations").insert(columns).select("id").single();
+  if (insertError?.code === UNIQUE_VIOLATION) {
+    // Another ingest inserted the same source between the lookup and the insert.
+    const raced = await findCitation(supabase, canonical);
+    if (raced) {
+      return raced.id;
+    }
+  }
+  if (insertError || !inserted?.id) {
+    throw new Error(insertError?.message ?? "Failed to insert citation.");
+  }
+  return Number(inserted.id);
+}
+
+function firstValue<T>(values: Array<T | null>): T | null {
+  return values.find((value) => value !== null) ?? null;
+}
+
+function sameAuthors(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((author, index) => author === b[index]);
+}
+
+// Groups rows that share a canonical key, an identifier, or a normalized URL (transitively), then
+// keeps the oldest row of each group and carries over whatever metadata the others had.
+export function planCitationMerge(rows: StoredCitation[]): { plans: CitationMergePlan[]; invalid: number } {
+  const valid: Array<{ row: StoredCitation; canonical: CanonicalCitation }> = [];
+  let invalid = 0;
+  for (const row of [...rows].sort((a, b) => a.id - b.id)) {
+    const canonical = canonicalizeCitation({
+      sourceUrl: row.sourceUrl,
+      publishedAt: row.publishedAt,
+      pmid: row.pmid,
+      doi: row.doi,
+      nctId: row.nctId,
+      publicationType: row.publicationType
+    });
+    if (canonical) {
+      valid.push({ row, canonical });
+    } else {
+      invalid += 1;
+    }
+  }
+
+  const parent = valid.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const ownerByToken = new Map<string, number>();
+  valid.forEach(({ canonical }, index) => {
+    const tokens = [
+      canonical.canonicalKey,
+      `url:${canonical.sourceUrl}`,
+      canonical.pmid ? `pmid:${canonical.pmid}` : "",
+      canonical.doi ? `doi:${canonical.doi}` : "",
+      canonical.nctId ? `nct:${canonical.nctId}` : ""
+    ].filter(Boolean);
+    for (const token of tokens) {
+      const owner = ownerByToken.get(token);
+      if (owner === undefined) {
+        ownerByToken.set(token, index);
+      } else {
+        const [a, b] = [root(owner), root(index)];
+        parent[Math.max(a, b)] = Math.min(a, b);
+      }
+    }
+  });
+
+  const groups = new Map<number, typeof valid>();
+  valid.forEach((entry, index) => {
+    const key = root(index);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  });
+
+  const plans: CitationMergePlan[] = [];
+  for (const group of groups.values()) {
+    const [survivor, ...duplicates] = group;
+    const members = group.map((entry) => entry.row);
+    const merged = canonicalizeCitation({
+      sourceUrl: survivor.canonical.sourceUrl,
+      publishedAt: survivor.row.publishedAt,
+      pmid: firstValue(group.map((entry) => entry.canonical.pmid)),
+      doi: firstValue(group.map((entry) => entry.canonical.doi)),
+      nctId: firstValue(group.map((entry) => entry.canonical.nctId)),
+      publicationType: firstValue(members.map((row) => row.publicationType))
+    });
+    if (!merged) {
+      continue;
+    }
+
+    const next: Record<string, unknown> = {
+      source_url: merged.sourceUrl,
+      source_title: firstValue(members.map((row) => row.sourceTitle)),
+      published_at: members.map((row) => row.publishedAt).filter(Boolean).sort()[0] ?? survivor.row.publishedAt,
+      canonical_key: merged.canonicalKey,
+      pmid: merged.pmid,
+      doi: merged.doi,
+      nct_id: merged.nctId,
+      authors: members.find((row) => row.authors.length > 0)?.authors ?? [],
+      journal: firstValue(members.map((row) => row.journal)),
+      publication_type: merged.publicationType,
+      enrollment: firstValue(members.map((row) => row.enrollment))
+    };
+    const current: Record<string, unknown> = {
+      source_url: survivor.row.sourceUrl,
+      source_title: survivor.row.sourceTitle,
+      published_at: survivor.row.publishedAt,
+      canonical_key: survivor.row.canonicalKey,
+      pmid: survivor.row.pmid,
+      doi: survivor.row.doi,
+      nct_id: survivor.row.nctId,
+      authors: survivor.row.authors,
+      journal: survivor.row.journal,
+      publication_type: survivor.row.publicationType,
+      enrollment: survivor.row.enrollment
+    };
+    const update = Object.fromEntries(
+      Object.entries(next).filter(([column, value]) =>
+        column === "authors" ? !sameAuthors(value as string[], current.authors as string[]) : value !== current[column]
+      )
+    );
+
+    if (duplicates.length > 0 || Object.keys(update).length > 0) {
+      plans.push({
+        survivorId: survivor.row.id,
+        duplicateIds: duplicates.map((entry) => entry.row.id),
+        update: Object.keys(update).length > 0 ? update : null
+      });
+    }
+  }
+
+  return { plans, invalid };
+}
+
+async function loadAllCitations(supabase: SupabaseClient): Promise<StoredCitation[]> {
+  const rows: StoredCitation[] = [];
+  for (let from = 0; ; from += MERGE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("citations")
+      .select(CITATION_COLUMNS)
+      .order("id", { ascending: true })
+      .range(from, from + MERGE_PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(error.message);
+    }
+    const page = asArray(data)
+      .map((row) => toStoredCitation(row))
+      .filter((row): row is StoredCitation => row !== null);
+    rows.push(...page);
+    if (asArray(data).length < MERGE_PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+// Normalizes every stored citation, backfills identifiers, and folds duplicates into one row.
+// Safe to re-run: a clean table produces no plans.
+export async function mergeDuplicateCitations(supabase: SupabaseClient): Promise<CitationMergeResult> {
+  const rows = await loadAllCitations(supabase);
+  const { plans, invalid } = planCitationMerge(rows);
+  let duplicateGroups = 0;
+  let removed = 0;
+  let updated = 0;
+
+  for (const plan of plans) {
+    if (plan.duplicateIds.length > 0) {
+      for (const reference of CITATION_REFERENCES) {
+        const { error } = await supabase
+          .from(reference.table)
+          .update({ [reference.column]: plan.survivorId })
+          .in(reference.column, plan.duplicateIds);
+        if (error) {
+          throw new Error(error.message);
+        }
+      }
+      // Duplicates go first so the survivor can take over their canonical key.
+      const { error: deleteError } = await supabase.from("citations").delete().in("id", plan.duplicateIds);
+      if (deleteError) {
+        throw new Error(deleteError.message);
+      }
+      duplicateGroups += 1;
+      removed += plan.duplicateIds.length;
+    }
+
+    if (plan.update) {
+      const { error: updateError } = await supabase.from("citations").update(plan.update).eq("id", plan.survivorId);
+      if (updateError) {
+        throw new Error(updateError.message);
+      }
+      updated += 1;
+    }
+  }
+
+  return { scanned: rows.length, duplicateGroups, removed, updated, invalid };
+}
+
+// Citations are shared across peptides and interactions, so only drop one nothing points at.
+export async function deleteCitationIfUnused(supabase: SupabaseClient, citationId: number): Promise<boolean> {
+  for (const reference of CITATION_REFERENCES) {
+    const { count, error } = await supabase
+      .from(reference.table)
+      .select("id", { count: "exact", head: true })
+      .eq(reference.column, citationId);
+    if (error || (count ?? 0) > 0) {
+      return false;
+    }
+  }
+
+  const { error } = await supabase.from("citations").delete().eq("id", citationId);
+  if (error) {
+    throw new Error(error.message);
+  }
+  return true;
+}
@@ -0,0 +1,383 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { recordContentChanges } from "@/lib/content-changes";
+import { errorMessage, type IngestAudit, type IngestSourceOutcome } from "@/lib/ingest-runs";
+import { fetchSourceJson } from "@/lib/source-client";
+import type { ClinicalTrial, ClinicalTrialEventType } from "@/lib/types";
+
+export type TrialEventInput = {
+  eventType: ClinicalTrialEventType;
+  previousValue: string | null;
+  newValue: string | null;
+};
+
+export type TrialRefreshResult = {
+  peptidesScanned: number;
+  trialsTracked: number;
+  trialsAdded: number;
+  statusChanges: number;
+  resultsPosted: number;
+  failures: number;
+};
+
+type RefreshRow = {
+  id: number;
+  canonicalName: string;
+};
+
+export const CLINICAL_TRIAL_COLUMNS =
+  "nct_id,title,phases,overall_status,study_type,enrollment,conditions,sponsor,start_date,completion_date,has_results,last_update_posted_at";
+
+const CLINICAL_TRIALS_API = "https://clinicaltrials.gov/api/v2/studies";
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function asStringList(value: unknown): string[] {
+  return asArray(value)
+    .map((entry) => asString(entry))
+    .filter(Boolean);
+}
+
+// ClinicalTrials.gov dates are "2024", "2024-03", or "2024-03-15"; partial dates pin to the first day.
+function toDate(value: unknown): string | null {
+  const match = asString(value).match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+  if (!match) {
+    return null;
+  }
+  return `${match[1]}-${match[2] ?? "01"}-${match[3] ?? "01"}`;
+}
+
+export function clinicalTrialUrl(nctId: string): string {
+  return `https://clinicaltrials.gov/study/${encodeURIComponent(nctId)}`;
+}
+
+export function formatTrialPhases(phases: string[]): string {
+  const labels = phases
+    .map((phase) => phase.toUpperCase())
+    .filter((phase) => phase !== "NA")
+    .map((phase) => (phase.startsWith("EARLY_") ? "Early 1" : phase.replace(/^PHASE/, "")));
+  return labels.length > 0 ? `Phase ${labels.join("/")}` : "Not applicable";
+}
+
+export function formatTrialStatus(status: string | null): string {
+  if (!status) {
+    return "Not reported";
+  }
+  return status.charAt(0).toUpperCase() + status.slice(1).toLowerCase().replace(/_/g, " ");
+}
+
+// Maps one study from the ClinicalTrials.gov v2 API; returns null when the NCT ID or title is missing.
+export function parseClinicalTrialStudy(study: unknown): ClinicalTrial | null {
+  const studyRecord = asRecord(study);
+  const protocol = asRecord(studyRecord?.protocolSection);
+  const identification = asRecord(protocol?.identificationModule);
+  const statusModule = asRecord(protocol?.statusModule);
+  const designModule = asRecord(protocol?.designModule);
+  const sponsorModule = asRecord(protocol?.sponsorCollaboratorsModule);
+
+  const nctId = asString(identification?.nctId).toUpperCase();
+  const title = asString(identification?.briefTitle) || asString(identification?.officialTitle);
+  if (!/^NCT\d{8}$/.test(nctId) || !title) {
+    return null;
+  }
+  const enrollment = asRecord(designModule?.enrollmentInfo)?.count;
+
+  return {
+    nctId,
+    title,
+    phases: asStringList(designModule?.phases),
+    overallStatus: asString(statusModule?.overallStatus).toUpperCase() || "UNKNOWN",
+    studyType: asString(designModule?.studyType) || null,
+    enrollment: typeof enrollment === "number" && enrollment >= 0 ? enrollment : null,
+    conditions: asStringList(asRecord(protocol?.conditionsModule)?.conditions),
+    sponsor: asString(asRecord(sponsorModule?.leadSponsor)?.name) || null,
+    startDate: toDate(asRecord(statusModule?.startDateStruct)?.date),
+    completionDate: toDate(
+      asRecord(statusModule?.completionDateStruct)?.date ?? asRecord(statusModule?.primaryCompletionDateStruct)?.date
+    ),
+    hasResults: studyRecord?.hasResults === true,
+    lastUpdatePostedAt: toDate(asRecord(statusModule?.lastUpdatePostDateStruct)?.date)
+  };
+}
+
+// The first sighting of a trial is its baseline, not a transition, so it produces no events.
+export function detectTrialEvents(previous: ClinicalTrial | null, next: ClinicalTrial): TrialEventInput[] {
+  if (!previous) {
+    return [];
+  }
+  const events: TrialEventInput[] = [];
+  if (previous.overallStatus !== next.overallStatus) {
+    events.push({ eventType: "STATUS_CHANGED", previousValue: previous.overallStatus, newValue: next.overallStatus });
+  }
+  if (!previous.hasResults && next.hasResults) {
+    events.push({ eventType: "RESULTS_POSTED", previousValue: null, newValue: null });
+  }
+  return events;
+}
+
+export function mapClinicalTrialRow(row: unknown): ClinicalTrial | null {
+  const record = asRecord(row);
+  const nctId = asString(record?.nct_id);
+  const title = asString(record?.title);
+  if (!record || !nctId || !title) {
+    return null;
+  }
+  return {
+    nctId,
+    title,
+    phases: asStringList(record.phases),
+    overallStatus: asString(record.overall_status) || "UNKNOWN",
+    studyType: asString(record.study_type) || null,
+    enrollment: typeof record.enrollment === "number" ? record.enrollment : null,
+    conditions: asStringList(record.conditions),
+    sponsor: asString(record.sponsor) || null,
+    startDate: asString(record.start_date) || null,
+    completionDate: asString(record.completion_date) || null,
+    hasResults: record.has_results === true,
+    lastUpdatePostedAt: asString(record.last_update_posted_at) || null
+  };
+}
+
+function toTrialColumns(trial: ClinicalTrial, checkedAt: string): Record<string, unknown> {
+  return {
+    nct_id: trial.nctId,
+    title: trial.title,
+    phases: trial.phases,
+    overall_status: trial.overallStatus,
+    study_type: trial.studyType,
+    enrollment: trial.enrollment,
+    conditions: trial.conditions,
+    sponsor: trial.sponsor,
+    start_date: trial.startDate,
+    completion_date: trial.completionDate,
+    has_results: trial.hasResults,
+    last_update_posted_at: trial.lastUpdatePostedAt,
+    last_checked_at: checkedAt
+  };
+}
+
+// Searches by intervention rather than free text so trials that only mention the peptide are skipped.
+async function fetchPeptideTrials(peptideName: string, maxItems: number): Promise<ClinicalTrial[]> {
+  const params = new URLSearchParams({
+    "query.intr": peptideName,
+    pageSize: String(maxItems),
+    sort: "LastUpdatePostDate:desc",
+    format: "json"
+  });
+  const data = asRecord(await fetchSourceJson(`${CLINICAL_TRIALS_API}?${params.toString()}`));
+  return asArray(data?.studies)
+    .map((study) => parseClinicalTrialStudy(study))
+    .filter((trial): trial is ClinicalTrial => trial !== null);
+}
+
+async function loadPeptidesForRefresh(
+  supabase: SupabaseClient,
+  batchSize: number,
+  peptideIds: number[] = [],
+  staleBefore?: string
+): Promise<RefreshRow[]> {
+  let query = supabase
+    .from("peptides")
+    .select("id,canonical_name,last_trials_refresh_at")
+    .eq("is_published", true)
+    .order("last_trials_refresh_at", { ascending: true, nullsFirst: true })
+    .order("id", { ascending: true })
+    .limit(batchSize);
+  if (peptideIds.length > 0) {
+    query = query.in("id", peptideIds);
+  }
+  if (staleBefore) {
+    query = query.or(`last_trials_refresh_at.is.null,last_trials_refresh_at.lt."${staleBefore}"`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    if (error.message.includes("last_trials_refresh_at")) {
+      throw new Error("Missing peptides.last_trials_refresh_at. Re-run db/bootstrap.sql and try again.");
+    }
+    throw new Error(error.message);
+  }
+
+  return (data ?? [])
+    .map((row) => ({
+      id: Number(row.id ?? 0),
+      canonicalName: asString(row.canonical_name)
+    }))
+    .filter((row) => row.id > 0 && row.canonicalName.length > 0);
+}
+
+async function syncPeptideTrials(
+  supabase: SupabaseClient,
+  peptideId: number,
+  trials: ClinicalTrial[]
+): Promise<{ added: number; statusChanges: number; resultsPosted: number }> {
+  const { data: existingRows, error: existingError } = await supabase
+    .from("clinical_trials")
+    .select(`id,${CLINICAL_TRIAL_COLUMNS}`)
+    .in("nct_id", trials.map((trial) => trial.nctId));
+  if (existingError) {
+    throw new Error(existingError.message);
+  }
+  const existingByNctId = new Map(
+    asArray(existingRows)
+      .map((row) => mapClinicalTrialRow(row))
+      .filter((trial): trial is ClinicalTrial => trial !== null)
+      .map((trial) => [trial.nctId, trial])
+  );
+  const existingIdByNctId = new Map(
+    asArray(existingRows).map((row) => [asString(asRecord(row)?.nct_id), Number(asRecord(row)?.id ?? 0)])
+  );
+
+  // Only trials already tracked produce events, so their ids are known before the save. Events go
+  // first: if the trial save then fails, the next run detects and records the transition again
+  // instead of comparing against a row that already moved on.
+  const checkedAt = new Date().toISOString();
+  const detected = trials
+    .flatMap((trial) =>
+      detectTrialEvents(existingByNctId.get(trial.nctId) ?? null, trial).map((event) => ({
+        trial,
+        trialId: existingIdByNctId.get(trial.nctId) ?? 0,
+        event
+      }))
+    )
+    .filter(({ trialId }) => trialId > 0);
+  const events = detected.map(({ trialId, event }) => ({
+    trial_id: trialId,
+    event_type: event.eventType,
+    previous_value: event.previousValue,
+    new_value: event.newValue,
+    detected_at: checkedAt
+  }));
+  if (events.length > 0) {
+    const { error: eventError } = await supabase.from("clinical_trial_events").insert(events);
+    if (eventError) {
+      throw new Error(eventError.message);
+    }
+  }
+
+  const { data: savedRows, error: saveError } = await supabase
+    .from("clinical_trials")
+    .upsert(trials.map((trial) => toTrialColumns(trial, checkedAt)), { onConflict: "nct_id" })
+    .select("id,nct_id");
+  if (saveError) {
+    throw new Error(saveError.message);
+  }
+  const trialIdByNctId = new Map(
+    asArray(savedRows).map((row) => [asString(asRecord(row)?.nct_id), Number(asRecord(row)?.id ?? 0)])
+  );
+
+  const { error: linkError } = await supabase.from("peptide_clinical_trials").upsert(
+    Array.from(trialIdByNctId.values())
+      .filter((trialId) => trialId > 0)
+      .map((trialId) => ({ peptide_id: peptideId, trial_id: trialId })),
+    { onConflict: "peptide_id,trial_id", ignoreDuplicates: true }
+  );
+  if (linkError) {
+    throw new Error(linkError.message);
+  }
+
+  await recordContentChanges(
+    supabase,
+    "TRIAL_TRACKER",
+    detected.map(({ trial, trialId, event }) => ({
+      entityType: "CLINICAL_TRIAL",
+      entityId: trialId,
+      peptideId,
+      field: `${trial.nctId} ${event.eventType === "STATUS_CHANGED" ? "status" : "results"}`,
+      previous: event.eventType === "STATUS_CHANGED" ? formatTrialStatus(event.previousValue) : "Not posted",
+      next: event.eventType === "STATUS_CHANGED" ? formatTrialStatus(event.newValue) : "Posted"
+    }))
+  );
+
+  return {
+    added: trials.filter((trial) => !existingByNctId.has(trial.nctId)).length,
+    statusChanges: events.filter((event) => event.event_type === "STATUS_CHANGED").length,
+    resultsPosted: events.filter((event) => event.event_type === "RESULTS_POSTED").length
+  };
+}
+
+// Re-checks the peptides whose trials were refreshed longest ago and records status transitions.
+export async function listTrialRefreshTargets(
+  supabase: SupabaseClient,
+  limit: number,
+  staleBefore?: string
+): Promise<Array<{ id: number; canonicalName: string }>> {
+  return loadPeptidesForRefresh(supabase, Math.max(1, limit), [], staleBefore);
+}
+
+export async function refreshClinicalTrials(
+  supabase: SupabaseClient,
+  options?: { batchSize?: number; trialsPerPeptide?: number; peptideIds?: number[]; audit?: IngestAudit }
+): Promise<TrialRefreshResult> {
+  const peptideIds = options?.peptideIds ?? [];
+  const batchSize = peptideIds.length || Math.max(1, Math.min(50, Number(options?.batchSize ?? 12)));
+  const trialsPerPeptide = Math.max(1, Math.min(100, Number(options?.trialsPerPeptide ?? 25)));
+  const rows = await loadPeptidesForRefresh(supabase, batchSize, peptideIds);
+
+  const result: TrialRefreshResult = {
+    peptidesScanned: 0,
+    trialsTracked: 0,
+    trialsAdded: 0,
+    statusChanges: 0,
+    resultsPosted: 0,
+    failures: 0
+  };
+
+  for (const row of rows) {
+    result.peptidesScanned += 1;
+    const startedAt = Date.now();
+    const sources: IngestSourceOutcome[] = [];
+    const counters = { trialsTracked: 0, trialsAdded: 0, statusChanges: 0, resultsPosted: 0 };
+    let itemError: string | null = null;
+    try {
+      const trials = await fetchPeptideTrials(row.canonicalName, trialsPerPeptide).catch((error: unknown) => {
+        sources.push({ source: "CLINICALTRIALS", status: "FAILED", detail: errorMessage(error) });
+        throw error;
+      });
+      sources.push({ source: "CLINICALTRIALS", status: trials.length > 0 ? "HIT" : "MISS" });
+      if (trials.length > 0) {
+        const synced = await syncPeptideTrials(supabase, row.id, trials);
+        counters.trialsTracked = trials.length;
+        counters.trialsAdded = synced.added;
+        counters.statusChanges = synced.statusChanges;
+        counters.resultsPosted = synced.resultsPosted;
+        result.trialsTracked += trials.length;
+        result.trialsAdded += synced.added;
+        result.statusChanges += synced.statusChanges;
+        result.resultsPosted += synced.resultsPosted;
+      }
+      const { error: stampError } = await supabase
+        .from("peptides")
+        .update({ last_trials_refresh_at: new Date().toISOString() })
+        .eq("id", row.id);
+      if (stampError) {
+        throw new Error(stampError.message);
+      }
+    } catch (error) {
+      result.failures += 1;
+      itemError = errorMessage(error);
+    }
+
+    await options?.audit?.record({
+      entityType: "PEPTIDE",
+      entityKey: String(row.id),
+      entityLabel: row.canonicalName,
+      status: itemError ? "FAILED" : "SUCCEEDED",
+      sources,
+      counters,
+      error: itemError,
+      durationMs: Date.now() - startedAt
+    });
+  }
+
+  return result;
+}
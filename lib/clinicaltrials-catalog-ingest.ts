@@ -1,5 +1,7 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
-import { toHumanReadableSourceUrl } from "@/lib/reference-sources";
+import { findOrCreateCitation, normalizeCitationUrl } from "@/lib/citations";
+import { recordContentChanges } from "@/lib/content-changes";
+import { fetchSourceJson } from "@/lib/source-client";
 
 type TrialPeptideCandidate = {
   slug: string;
@@ -134,7 +136,7 @@ function normalizeCandidateName(name: string): string {
     .trim();
 }
 
-function hasPeptideShape(name: string): boolean {
+export function hasPeptideShape(name: string): boolean {
   const lower = name.toLowerCase();
   if (PEPTIDE_HINTS.some((hint) => lower.includes(hint))) {
     return true;
@@ -174,25 +176,6 @@ function buildGeneratedProfile(name: string) {
   };
 }
 
-async function fetchJson(url: string): Promise<unknown> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 20_000);
-  try {
-    const response = await fetch(url, {
-      method: "GET",
-      headers: { accept: "application/json" },
-      cache: "no-store",
-      signal: controller.signal
-    });
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
-    return await response.json();
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
 async function collectClinicalTrialsCandidates(
   target: number,
   maxPages: number
@@ -212,7 +195,7 @@ async function collectClinicalTrialsCandidates(
     }
 
     const url = `https://clinicaltrials.gov/api/v2/studies?${params.toString()}`;
-    const payload = asRecord(await fetchJson(url));
+    const payload = asRecord(await fetchSourceJson(url, { timeoutMs: 20_000 }));
     const studies = Array.isArray(payload?.studies) ? payload.studies : [];
     pageToken = asString(payload?.nextPageToken);
 
@@ -515,46 +498,18 @@ export async function ingestClinicalTrialsCatalog(
     }
   }
 
-  const citationsPayload = newCandidates
-    .map((candidate) => ({
-      source_url: toHumanReadableSourceUrl(candidate.sourceUrl) ?? "",
-      source_title: candidate.sourceTitle,
-      published_at: candidate.publishedAt
-    }))
-    .filter((citation) => citation.source_url.length > 0);
-
-  const citationIdByUrl = new Map<string, number>();
-  if (citationsPayload.length > 0) {
-    const { error: citationInsertError } = await supabase.from("citations").insert(citationsPayload);
-    if (citationInsertError && !citationInsertError.message.toLowerCase().includes("duplicate")) {
-      throw new Error(citationInsertError.message);
-    }
-
-    const urls = Array.from(new Set(citationsPayload.map((citation) => citation.source_url)));
-    const { data: citationRows, error: citationRowsError } = await supabase
-      .from("citations")
-      .select("id,source_url")
-      .in("source_url", urls)
-      .order("id", { ascending: false });
-
-    if (citationRowsError) {
-      throw new Error(citationRowsError.message);
-    }
-
-    for (const row of citationRows ?? []) {
-      const sourceUrl = asString(row.source_url);
-      const id = Number(row.id ?? 0);
-      if (sourceUrl && id > 0 && !citationIdByUrl.has(sourceUrl)) {
-        citationIdByUrl.set(sourceUrl, id);
-      }
+  const citationIdBySourceUrl = new Map<string, number>();
+  for (const candidate of newCandidates) {
+    if (!normalizeCitationUrl(candidate.sourceUrl) || citationIdBySourceUrl.has(candidate.sourceUrl)) {
+      continue;
     }
+    citationIdBySourceUrl.set(candidate.sourceUrl, await findOrCreateCitation(supabase, candidate));
   }
 
   const claimsPayload = newCandidates
     .map((candidate) => {
       const peptideId = peptideIdBySlug.get(candidate.slug);
-      const normalizedSourceUrl = toHumanReadableSourceUrl(candidate.sourceUrl);
-      const citationId = normalizedSourceUrl ? citationIdByUrl.get(normalizedSourceUrl) : undefined;
+      const citationId = citationIdBySourceUrl.get(candidate.sourceUrl);
       if (!peptideId || !citationId) {
         return null;
       }
@@ -563,6 +518,7 @@ export async function ingestClinicalTrialsCatalog(
         section: "Research",
         claim_text: `${candidate.name} appears in trial records and requires editorial evidence review.`,
         evidence_grade: "I",
+        grade_rationale: "Listed as a trial intervention only; grade withheld until editorial review.",
         citation_id: citationId
       };
     })
@@ -575,6 +531,18 @@ export async function ingestClinicalTrialsCatalog(
     }
   }
 
+  await recordContentChanges(
+    supabase,
+    "CLINICALTRIALS_CATALOG",
+    newCandidates.map((candidate) => ({
+      entityType: "PEPTIDE",
+      entityId: peptideIdBySlug.get(candidate.slug) ?? null,
+      peptideId: peptideIdBySlug.get(candidate.slug) ?? null,
+      field: "Profile added",
+      next: candidate.name
+    }))
+  );
+
   return {
     scannedStudies,
     candidatesFound: candidates.length,
@@ -0,0 +1,34 @@
+export const MAX_COMPARE_PEPTIDES = 4;
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export function parseCompareSlugs(value: string | string[] | undefined): string[] {
+  const raw = Array.isArray(value) ? value.join(",") : value ?? "";
+  const slugs: string[] = [];
+  for (const part of raw.split(",")) {
+    const slug = part.trim().toLowerCase();
+    if (SLUG_PATTERN.test(slug) && !slugs.includes(slug)) {
+      slugs.push(slug);
+    }
+  }
+  return slugs.slice(0, MAX_COMPARE_PEPTIDES);
+}
+
+export function buildComparePath(slugs: string[]): string {
+  const selected = parseCompareSlugs(slugs);
+  return selected.length > 0 ? `/compare?peptides=${selected.join(",")}` : "/compare";
+}
+
+// Canonical form ignores selection order so /compare?peptides=a,b and b,a are one page.
+export function canonicalComparePath(slugs: string[]): string {
+  return buildComparePath([...parseCompareSlugs(slugs)].sort((a, b) => a.localeCompare(b)));
+}
+
+export function toggleCompareSlug(slugs: string[], slug: string): string[] {
+  const selected = parseCompareSlugs(slugs);
+  if (selected.includes(slug)) {
+    return selected.filter((entry) => entry !== slug);
+  }
+  // Adding a fifth peptide drops the oldest selection rather than refusing the click.
+  return [...selected, slug].slice(-MAX_COMPARE_PEPTIDES);
+}
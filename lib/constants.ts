@@ -1,4 +1,13 @@
-import type { EvidenceGrade, JurisdictionCode, RegulatoryStatus } from "@/lib/types";
+import type {
+  CitationPublicationType,
+  DoseUnit,
+  DosingContext,
+  DosingRoute,
+  EvidenceGrade,
+  InteractionSeverity,
+  JurisdictionCode,
+  RegulatoryStatus
+} from "@/lib/types";
 
 export const JURISDICTIONS: JurisdictionCode[] = ["US", "EU", "UK", "CA", "AU"];
 
@@ -11,6 +20,35 @@ export const REGULATORY_STATUSES: RegulatoryStatus[] = [
 
 export const EVIDENCE_GRADES: EvidenceGrade[] = ["A", "B", "C", "D", "I"];
 
+export const DOSING_CONTEXTS: DosingContext[] = ["APPROVED_LABEL", "STUDY_REPORTED", "EXPERT_CONSENSUS"];
+
+export const DOSE_UNITS: DoseUnit[] = ["mg", "mcg", "IU"];
+
+export const DOSING_ROUTES: DosingRoute[] = [
+  "SUBCUTANEOUS",
+  "INTRAMUSCULAR",
+  "INTRAVENOUS",
+  "ORAL",
+  "INTRANASAL",
+  "TOPICAL",
+  "OTHER"
+];
+
+export const INTERACTION_SEVERITIES: InteractionSeverity[] = ["MAJOR", "MODERATE", "MINOR"];
+
+export const CITATION_PUBLICATION_TYPES: CitationPublicationType[] = [
+  "JOURNAL_ARTICLE",
+  "CLINICAL_TRIAL",
+  "REGULATORY_LABEL",
+  "DATABASE_RECORD",
+  "SEARCH_RESULTS",
+  "COMMUNITY",
+  "WEB_PAGE"
+];
+
+export const DOSING_DISCLAIMER =
+  "Dosing and safety content is presented for evidence context only and must not be interpreted as medical advice. Clinical decisions should be made by qualified licensed professionals.";
+
 export function labelFromSnake(value: string): string {
   return value
     .replaceAll("_", " ")
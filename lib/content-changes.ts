@@ -0,0 +1,194 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ContentChange, ContentChangeEntity, ContentChangeSource } from "@/lib/types";
+
+export type ContentChangeInput = {
+  entityType: ContentChangeEntity;
+  entityId?: number | null;
+  peptideId?: number | null;
+  vendorId?: number | null;
+  field: string;
+  previous?: unknown;
+  next?: unknown;
+};
+
+export type FieldChange = {
+  field: string;
+  previous: unknown;
+  next: unknown;
+};
+
+export const CONTENT_CHANGE_COLUMNS =
+  "id,entity_type,field,old_summary,new_summary,source,changed_at,peptides(slug,canonical_name),vendors(slug,name)";
+
+export const CONTENT_CHANGE_SOURCE_LABELS: Record<ContentChangeSource, string> = {
+  ADMIN: "Editorial update",
+  BULK_IMPORT: "Bulk import",
+  EXPANDED_DATASET: "Curated dataset",
+  CLINICALTRIALS_CATALOG: "ClinicalTrials.gov catalog",
+  LIVE_EVIDENCE: "PubMed and ClinicalTrials.gov refresh",
+  TRIAL_TRACKER: "ClinicalTrials.gov trial tracker",
+  CONTENT_ENRICHMENT: "External reference enrichment",
+  VENDOR_WEBSITE: "Vendor website crawl",
+  SOCIAL_UGC: "Community signal ingest",
+  VENDOR_RESCORE: "Vendor re-score"
+};
+
+// Column -> feed label for the profile fields that admin edits and ingest jobs both write.
+export const PEPTIDE_CHANGE_FIELDS: Record<string, string> = {
+  canonical_name: "Name",
+  sequence: "Sequence",
+  peptide_class: "Class",
+  is_published: "Published"
+};
+
+export const PROFILE_CHANGE_FIELDS: Record<string, string> = {
+  intro: "Overview",
+  mechanism: "Mechanism",
+  effectiveness_summary: "Effectiveness summary",
+  long_description: "Long description"
+};
+
+export function safetyChangeFields(jurisdictionCode: string): Record<string, string> {
+  return {
+    adverse_effects: `Adverse effects (${jurisdictionCode})`,
+    contraindications: `Contraindications (${jurisdictionCode})`,
+    interactions: `Interaction notes (${jurisdictionCode})`,
+    monitoring: `Monitoring (${jurisdictionCode})`
+  };
+}
+
+const CONTENT_CHANGE_ENTITIES: ContentChangeEntity[] = [
+  "PEPTIDE",
+  "REGULATORY_STATUS",
+  "USE_CASE",
+  "DOSING",
+  "SAFETY",
+  "CLAIM",
+  "INTERACTION",
+  "CLINICAL_TRIAL",
+  "VENDOR",
+  "VENDOR_LISTING",
+  "VENDOR_RATING"
+];
+
+const MAX_SUMMARY_LENGTH = 280;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function firstRelation(value: unknown): Record<string, unknown> | null {
+  return asRecord(Array.isArray(value) ? value[0] : value);
+}
+
+function normalizeChangeValue(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    const items = value.map((entry) => normalizeChangeValue(entry)).filter((entry): entry is string => entry !== null);
+    return items.length > 0 ? items.join(", ") : null;
+  }
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : null;
+  }
+  const text = String(value).replace(/\s+/g, " ").trim();
+  return text || null;
+}
+
+export function summarizeChangeValue(value: unknown): string | null {
+  const text = normalizeChangeValue(value);
+  if (!text || text.length <= MAX_SUMMARY_LENGTH) {
+    return text;
+  }
+  return `${text.slice(0, MAX_SUMMARY_LENGTH - 1).trimEnd()}…`;
+}
+
+export function formatRatingChange(value: unknown): string | null {
+  const rating = typeof value === "number" ? value : Number(value);
+  return value === null || value === undefined || value === "" || !Number.isFinite(rating) ? null : `${rating.toFixed(1)} / 5`;
+}
+
+// Compares the listed columns (column -> display label) on full values, so edits past the
+// summary cut-off still count. A null `before` means the record is new. Columns missing from
+// `after` were not part of the write and are skipped.
+export function diffContentFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>,
+  fields: Record<string, string>
+): FieldChange[] {
+  return Object.entries(fields).flatMap(([column, field]) => {
+    if (after[column] === undefined) {
+      return [];
+    }
+    const previous = before ? before[column] : null;
+    return normalizeChangeValue(previous) === normalizeChangeValue(after[column])
+      ? []
+      : [{ field, previous, next: after[column] }];
+  });
+}
+
+// Appends to the public change feed. Call after the write it describes has succeeded; changes that
+// are not tied to a peptide or vendor, or whose summaries do not differ, are dropped.
+export async function recordContentChanges(
+  supabase: SupabaseClient,
+  source: ContentChangeSource,
+  changes: ContentChangeInput[]
+): Promise<number> {
+  const rows = changes
+    .filter((change) => Boolean(change.peptideId) || Boolean(change.vendorId))
+    .map((change) => ({
+      entity_type: change.entityType,
+      entity_id: change.entityId ?? null,
+      peptide_id: change.peptideId ?? null,
+      vendor_id: change.vendorId ?? null,
+      field: change.field,
+      old_summary: summarizeChangeValue(change.previous),
+      new_summary: summarizeChangeValue(change.next),
+      source
+    }))
+    .filter((row) => row.old_summary !== row.new_summary);
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  const { error } = await supabase.from("content_changes").insert(rows);
+  if (error) {
+    if (error.message.includes("content_changes")) {
+      throw new Error("Missing content_changes table. Re-run db/bootstrap.sql and try again.");
+    }
+    throw new Error(error.message);
+  }
+  return rows.length;
+}
+
+export function mapContentChangeRow(row: unknown): ContentChange | null {
+  const record = asRecord(row);
+  const entityType = asString(record?.entity_type) as ContentChangeEntity;
+  const source = asString(record?.source) as ContentChangeSource;
+  const changedAt = asString(record?.changed_at);
+  if (!record || !CONTENT_CHANGE_ENTITIES.includes(entityType) || !(source in CONTENT_CHANGE_SOURCE_LABELS) || !changedAt) {
+    return null;
+  }
+
+  const peptide = firstRelation(record.peptides);
+  const vendor = firstRelation(record.vendors);
+  return {
+    id: Number(record.id ?? 0),
+    entityType,
+    field: asString(record.field),
+    oldSummary: asString(record.old_summary) || null,
+    newSummary: asString(record.new_summary) || null,
+    source,
+    changedAt,
+    peptide: peptide && asString(peptide.slug) ? { slug: asString(peptide.slug), name: asString(peptide.canonical_name) } : null,
+    vendor: vendor && asString(vendor.slug) ? { slug: asString(vendor.slug), name: asString(vendor.name) } : null
+  };
+}
@@ -0,0 +1,167 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sanitizeExternalUrl } from "@/lib/url-security";
+import type { ContentProvenance, ContentProvenanceField, ContentProvenanceSource } from "@/lib/types";
+
+export type ContentProvenanceInput = {
+  field: ContentProvenanceField;
+  source: ContentProvenanceSource;
+  sourceUrl: string;
+  excerpt: string;
+  fetchedAt: string;
+};
+
+export type ProvenanceMarker = {
+  excerpt: string;
+  number: number;
+  label: string;
+};
+
+export type ProvenanceSegment = {
+  text: string;
+  markers: ProvenanceMarker[];
+};
+
+// Bump when the enrichment templates change in a way editors should re-check.
+export const CONTENT_GENERATOR_VERSION = "peptide-content-enrichment@1";
+
+export const CONTENT_PROVENANCE_COLUMNS = "field,position,source,source_url,excerpt,fetched_at,generator_version";
+
+export const PROVENANCE_FIELDS: ContentProvenanceField[] = ["intro", "mechanism", "effectiveness_summary", "long_description"];
+
+export const PROVENANCE_SOURCE_LABELS: Record<ContentProvenanceSource, string> = {
+  CLINICALTRIALS: "ClinicalTrials.gov",
+  PUBMED: "PubMed",
+  OPENFDA: "openFDA drug label",
+  PUBCHEM: "PubChem",
+  CHEMBL: "ChEMBL",
+  WIKIPEDIA: "Wikipedia",
+  NCI: "NCI Drug Dictionary",
+  GROKIPEDIA: "Grokipedia",
+  PEPTIWIKI: "PeptiWiki",
+  HUBERMAN_AI: "Huberman Lab AI"
+};
+
+// Shorter probes match too loosely once the generator has truncated a passage.
+const MIN_EXCERPT_LENGTH = 24;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function compact(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// Returns the part of `passage` that survived into `text`: the whole passage, or the leading
+// part left after the generator truncated the field. Null when the passage was not used.
+export function locateExcerpt(text: string, passage: string): string | null {
+  const target = compact(passage);
+  if (!target) {
+    return null;
+  }
+  const probe = target.slice(0, MIN_EXCERPT_LENGTH);
+  const start = text.indexOf(probe);
+  if (start === -1) {
+    return null;
+  }
+  let length = probe.length;
+  while (length < target.length && text[start + length] === target[length]) {
+    length += 1;
+  }
+  return text.slice(start, start + length).trim() || null;
+}
+
+// Splits `text` after each located excerpt so a marker can follow it. Excerpts that no longer
+// appear (the field was edited after generation) are dropped.
+export function placeProvenanceMarkers(text: string, markers: ProvenanceMarker[]): ProvenanceSegment[] {
+  const markersByEnd = new Map<number, ProvenanceMarker[]>();
+  for (const marker of markers) {
+    const start = marker.excerpt ? text.indexOf(marker.excerpt) : -1;
+    if (start === -1) {
+      continue;
+    }
+    const end = start + marker.excerpt.length;
+    const existing = markersByEnd.get(end) ?? [];
+    if (!existing.some((entry) => entry.number === marker.number)) {
+      existing.push(marker);
+    }
+    markersByEnd.set(end, existing);
+  }
+
+  const segments: ProvenanceSegment[] = [];
+  let cursor = 0;
+  for (const end of Array.from(markersByEnd.keys()).sort((a, b) => a - b)) {
+    const group = markersByEnd.get(end) ?? [];
+    segments.push({ text: text.slice(cursor, end), markers: group.sort((a, b) => a.number - b.number) });
+    cursor = end;
+  }
+  if (cursor < text.length || segments.length === 0) {
+    segments.push({ text: text.slice(cursor), markers: [] });
+  }
+  return segments;
+}
+
+// Replaces the provenance for one peptide. Call after the profile upsert it describes.
+export async function replacePeptideProvenance(
+  supabase: SupabaseClient,
+  peptideId: number,
+  records: ContentProvenanceInput[]
+): Promise<number> {
+  const { error: deleteError } = await supabase.from("peptide_content_provenance").delete().eq("peptide_id", peptideId);
+  if (deleteError) {
+    if (deleteError.message.includes("peptide_content_provenance")) {
+      throw new Error("Missing peptide_content_provenance table. Re-run db/bootstrap.sql and try again.");
+    }
+    throw new Error(deleteError.message);
+  }
+  if (records.length === 0) {
+    return 0;
+  }
+
+  const { error } = await supabase.from("peptide_content_provenance").insert(
+    records.map((record, position) => ({
+      peptide_id: peptideId,
+      field: record.field,
+      position,
+      source: record.source,
+      source_url: record.sourceUrl || null,
+      excerpt: record.excerpt,
+      fetched_at: record.fetchedAt,
+      generator_version: CONTENT_GENERATOR_VERSION
+    }))
+  );
+  if (error) {
+    throw new Error(error.message);
+  }
+  return records.length;
+}
+
+export function mapContentProvenanceRow(row: unknown): ContentProvenance | null {
+  const record = asRecord(row);
+  const field = asString(record?.field) as ContentProvenanceField;
+  const source = asString(record?.source) as ContentProvenanceSource;
+  const excerpt = asString(record?.excerpt);
+  if (!record || !PROVENANCE_FIELDS.includes(field) || !(source in PROVENANCE_SOURCE_LABELS) || !excerpt) {
+    return null;
+  }
+
+  return {
+    field,
+    position: Number(record.position ?? 0),
+    source,
+    sourceUrl: sanitizeExternalUrl(asString(record.source_url)) ?? null,
+    excerpt,
+    fetchedAt: asString(record.fetched_at),
+    generatorVersion: asString(record.generator_version)
+  };
+}
+
+export function sortProvenance(records: ContentProvenance[]): ContentProvenance[] {
+  return [...records].sort(
+    (a, b) => PROVENANCE_FIELDS.indexOf(a.field) - PROVENANCE_FIELDS.indexOf(b.field) || a.position - b.position
+  );
+}
@@ -0,0 +1,105 @@
+import { isResearchOnly } from "@/lib/regulatory-status";
+import { convertDose, structuredDosing } from "@/lib/structured-dosing";
+import type { DoseUnit, DosingContext, DosingEntry, PeptideDetail, StructuredDosing, TitrationStep } from "@/lib/types";
+
+export const U100_UNITS_PER_ML = 100;
+
+type ReconstitutionInput = {
+  vialAmount: number;
+  vialUnit: DoseUnit;
+  diluentMl: number;
+  doseAmount: number;
+  doseUnit: DoseUnit;
+};
+
+export type ReconstitutionResult =
+  | {
+      ok: true;
+      concentrationPerMl: number;
+      concentrationUnit: DoseUnit;
+      injectionMl: number;
+      syringeUnits: number;
+      dosesPerVial: number;
+    }
+  | { ok: false; error: string };
+
+export type TitrationWeek = {
+  // Null once an earlier step has no stated duration, because the start week is unknown.
+  week: number | null;
+  amount: number;
+  step: number;
+  openEnded: boolean;
+};
+
+export type CalculatorSource =
+  | { available: true; entry: DosingEntry & { structured: StructuredDosing }; framing: Extract<DosingContext, "APPROVED_LABEL" | "STUDY_REPORTED"> }
+  | { available: false; reason: string };
+
+const CALCULATOR_CONTEXTS = ["APPROVED_LABEL", "STUDY_REPORTED"] as const;
+
+export function calculateReconstitution(input: ReconstitutionInput): ReconstitutionResult {
+  const { vialAmount, vialUnit, diluentMl, doseAmount, doseUnit } = input;
+  if (![vialAmount, diluentMl, doseAmount].every((value) => Number.isFinite(value) && value > 0)) {
+    return { ok: false, error: "Vial size, diluent volume and target dose must all be positive numbers." };
+  }
+
+  const vialInDoseUnit = convertDose(vialAmount, vialUnit, doseUnit);
+  if (vialInDoseUnit === null) {
+    return { ok: false, error: `Cannot convert between ${vialUnit} and ${doseUnit}.` };
+  }
+  if (doseAmount > vialInDoseUnit) {
+    return { ok: false, error: "Target dose is larger than the vial contents." };
+  }
+
+  const concentrationPerMl = vialInDoseUnit / diluentMl;
+  const injectionMl = doseAmount / concentrationPerMl;
+  return {
+    ok: true,
+    concentrationPerMl,
+    concentrationUnit: doseUnit,
+    injectionMl,
+    syringeUnits: injectionMl * U100_UNITS_PER_ML,
+    dosesPerVial: Math.floor(vialInDoseUnit / doseAmount + 1e-9)
+  };
+}
+
+export function buildTitrationCalendar(steps: TitrationStep[]): TitrationWeek[] {
+  const weeks: TitrationWeek[] = [];
+  let nextWeek: number | null = 1;
+
+  steps.forEach((step, index) => {
+    if (step.durationWeeks === null || nextWeek === null) {
+      weeks.push({ week: nextWeek, amount: step.amount, step: index + 1, openEnded: true });
+      nextWeek = null;
+      return;
+    }
+    const duration = Math.max(1, Math.ceil(step.durationWeeks));
+    for (let offset = 0; offset < duration; offset += 1) {
+      weeks.push({ week: nextWeek + offset, amount: step.amount, step: index + 1, openEnded: false });
+    }
+    nextWeek += duration;
+  });
+
+  return weeks;
+}
+
+// Label dosing wins over study dosing. Research-only peptides never get a label-framed calculator:
+// they only get one when a study-reported entry exists, and the page must present it as such.
+export function calculatorSource(peptide: Pick<PeptideDetail, "dosing" | "statusByJurisdiction">): CalculatorSource {
+  const researchOnly = isResearchOnly(peptide.statusByJurisdiction);
+  const contexts = researchOnly ? (["STUDY_REPORTED"] as const) : CALCULATOR_CONTEXTS;
+
+  for (const context of contexts) {
+    const entry = peptide.dosing.find((candidate) => candidate.context === context);
+    if (entry) {
+      return { available: true, entry: { ...entry, structured: structuredDosing(entry) }, framing: context };
+    }
+  }
+
+  return {
+    available: false,
+    reason: researchOnly
+      ? "This peptide is research-only and has no study-reported dosing, so no calculator is shown."
+      : "No approved-label or study-reported dosing entry is available for this peptide."
+  };
+}
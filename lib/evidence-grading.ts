@@ -0,0 +1,238 @@
+import type { EvidenceGrade } from "@/lib/types";
+
+// Grades follow one rubric across every ingest path:
+//   A  human meta-analysis/systematic review, phase 3+ RCT, large late-phase trial with posted results, regulatory label
+//   B  randomized or controlled human trial, completed phase 2+ trial of meaningful size
+//   C  observational, narrative review, small, early-phase or ongoing human research, curated reference summaries
+//   D  case reports, animal or in-vitro work, opinion pieces, AI/community sources
+//   I  not enough design information to grade
+// Every grade ships with a rationale so the letter on the page can be traced back to the study design.
+
+export type EvidenceAssessment = {
+  grade: EvidenceGrade;
+  rationale: string;
+};
+
+export type StudyPopulation = "human" | "animal" | "in_vitro" | "unknown";
+
+export type PublicationEvidence = {
+  publicationTypes: string[];
+  title: string;
+  population?: StudyPopulation;
+};
+
+export type TrialEvidence = {
+  studyType: string;
+  phases: string[];
+  overallStatus: string;
+  enrollment: number | null;
+  hasResults: boolean;
+};
+
+export type EvidenceBodySnapshot = {
+  labelFound: boolean;
+  totalTrials: number;
+  completedTrials: number;
+  trialsWithResults: number;
+  maxPhase: number | null;
+  publicationCount: number;
+};
+
+export type ReferenceSourceKind =
+  | "regulatory_label"
+  | "drug_dictionary"
+  | "encyclopedia"
+  | "ai_summary"
+  | "community_wiki";
+
+const LARGE_TRIAL_ENROLLMENT = 300;
+const MEANINGFUL_TRIAL_ENROLLMENT = 50;
+const COMMUNITY_SIGNAL_MIN_POSTS = 5;
+
+const ANIMAL_PATTERN =
+  /\b(mice|mouse|murine|rats?|rodents?|porcine|pigs?|canine|dogs?|rabbits?|zebrafish|primates?|macaques?|animal models?|in vivo)\b/i;
+const IN_VITRO_PATTERN = /\b(in vitro|cell lines?|cultured cells?|organoids?|in silico)\b/i;
+const HUMAN_PATTERN =
+  /\b(patients?|participants?|adults?|children|adolescents?|women|men|volunteers?|humans?|subjects|cohort)\b/i;
+
+const REFERENCE_SOURCE_ASSESSMENTS: Record<ReferenceSourceKind, EvidenceAssessment> = {
+  regulatory_label: {
+    grade: "A",
+    rationale: "Regulatory label text; approval rests on reviewed controlled-trial data."
+  },
+  drug_dictionary: {
+    grade: "C",
+    rationale: "Curated drug dictionary entry; summarizes research without presenting primary data."
+  },
+  encyclopedia: {
+    grade: "C",
+    rationale: "Encyclopedia summary; tertiary source that should be checked against the studies it cites."
+  },
+  ai_summary: {
+    grade: "D",
+    rationale: "AI-generated summary; not peer reviewed and may not reflect primary data."
+  },
+  community_wiki: {
+    grade: "D",
+    rationale: "Community-edited reference; not peer reviewed."
+  }
+};
+
+function hasType(types: Set<string>, ...candidates: string[]): boolean {
+  return candidates.some((candidate) => types.has(candidate));
+}
+
+function formatCount(value: number): string {
+  return value.toLocaleString("en-US");
+}
+
+export function inferStudyPopulation(text: string): StudyPopulation {
+  if (IN_VITRO_PATTERN.test(text)) {
+    return "in_vitro";
+  }
+  if (ANIMAL_PATTERN.test(text)) {
+    return HUMAN_PATTERN.test(text) ? "human" : "animal";
+  }
+  return HUMAN_PATTERN.test(text) ? "human" : "unknown";
+}
+
+// ClinicalTrials.gov v2 reports phases as "PHASE1", "PHASE2", "EARLY_PHASE1" or "NA".
+export function maxTrialPhase(phases: string[]): number | null {
+  const numbers = phases
+    .map((phase) => phase.toUpperCase())
+    .filter((phase) => !phase.startsWith("EARLY"))
+    .map((phase) => Number(phase.match(/PHASE\s*([1-4])/)?.[1] ?? Number.NaN))
+    .filter((phase) => Number.isFinite(phase));
+  if (numbers.length > 0) {
+    return Math.max(...numbers);
+  }
+  return phases.some((phase) => phase.toUpperCase().startsWith("EARLY")) ? 0 : null;
+}
+
+// Grades one PubMed record from its indexed publication types (esummary `pubtype`), using the title
+// only to tell human from preclinical work.
+export function gradePublication(input: PublicationEvidence): EvidenceAssessment {
+  const types = new Set(input.publicationTypes.map((type) => type.trim().toLowerCase()).filter(Boolean));
+  const population = input.population ?? inferStudyPopulation(input.title);
+
+  if (population === "animal" || population === "in_vitro") {
+    return {
+      grade: "D",
+      rationale: `${population === "animal" ? "Animal" : "In-vitro"} study; preclinical findings do not establish effects in humans.`
+    };
+  }
+
+  const humanNote = population === "human" ? "" : " Study population not stated in the title.";
+
+  if (hasType(types, "meta-analysis", "systematic review")) {
+    const design = types.has("meta-analysis") ? "Meta-analysis" : "Systematic review";
+    return population === "human"
+      ? { grade: "A", rationale: `${design} of human studies.` }
+      : { grade: "B", rationale: `${design}.${humanNote}` };
+  }
+  if (types.has("randomized controlled trial")) {
+    return hasType(types, "clinical trial, phase iii", "clinical trial, phase iv")
+      ? { grade: "A", rationale: `Phase 3 or later randomized controlled trial.${humanNote}` }
+      : { grade: "B", rationale: `Randomized controlled trial.${humanNote}` };
+  }
+  if (hasType(types, "controlled clinical trial", "clinical trial, phase iii", "clinical trial, phase iv")) {
+    return { grade: "B", rationale: `Controlled or late-phase clinical trial without indexed randomization.${humanNote}` };
+  }
+  if (hasType(types, "clinical trial", "clinical trial, phase ii", "clinical trial, phase i", "pragmatic clinical trial")) {
+    return { grade: "C", rationale: `Uncontrolled or early-phase clinical trial.${humanNote}` };
+  }
+  if (hasType(types, "observational study", "comparative study", "multicenter study", "validation study")) {
+    return { grade: "C", rationale: `Observational or comparative study.${humanNote}` };
+  }
+  if (hasType(types, "review", "scoping review", "practice guideline", "guideline", "consensus development conference")) {
+    return { grade: "C", rationale: "Narrative review or guideline; summarizes evidence without a systematic search." };
+  }
+  if (hasType(types, "case reports")) {
+    return { grade: "D", rationale: "Case report; single-patient observations." };
+  }
+  if (hasType(types, "editorial", "comment", "letter", "news", "preprint", "published erratum")) {
+    return { grade: "D", rationale: "Editorial, commentary, or preprint; no peer-reviewed primary data." };
+  }
+  return {
+    grade: "I",
+    rationale: "PubMed does not index a study design for this record; grade withheld until reviewed."
+  };
+}
+
+// Grades one ClinicalTrials.gov registration from design, phase, enrollment, status, and posted results.
+export function gradeTrial(input: TrialEvidence): EvidenceAssessment {
+  const studyType = input.studyType.toUpperCase();
+  const status = input.overallStatus.toUpperCase();
+  const phase = maxTrialPhase(input.phases);
+  const facts = [
+    studyType ? studyType.toLowerCase() : "study type not reported",
+    phase === null ? null : phase === 0 ? "early phase 1" : `phase ${phase}`,
+    input.enrollment !== null ? `${formatCount(input.enrollment)} enrolled` : "enrollment not reported",
+    input.hasResults ? "results posted" : "no posted results",
+    status ? `status ${status.toLowerCase().replace(/_/g, " ")}` : null
+  ]
+    .filter((fact): fact is string => fact !== null)
+    .join(", ");
+  const detail = facts.charAt(0).toUpperCase() + facts.slice(1);
+
+  if (status === "WITHDRAWN") {
+    return { grade: "I", rationale: `${detail}. Withdrawn before enrollment; no data to grade.` };
+  }
+  if ((status === "TERMINATED" || status === "SUSPENDED") && !input.hasResults) {
+    return { grade: "D", rationale: `${detail}. Stopped early without posted results.` };
+  }
+  if (!studyType.includes("INTERVENTIONAL")) {
+    return {
+      grade: studyType.includes("OBSERVATIONAL") ? "C" : "I",
+      rationale: studyType.includes("OBSERVATIONAL")
+        ? `${detail}. Observational design cannot establish cause and effect.`
+        : `${detail}. Study design not reported.`
+    };
+  }
+
+  const enrollment = input.enrollment ?? 0;
+  const completed = status === "COMPLETED";
+  if ((phase ?? 0) >= 3 && input.hasResults && enrollment >= LARGE_TRIAL_ENROLLMENT) {
+    return { grade: "A", rationale: `${detail}. Large late-phase interventional trial with posted results.` };
+  }
+  if ((phase ?? 0) >= 2 && (completed || input.hasResults) && enrollment >= MEANINGFUL_TRIAL_ENROLLMENT) {
+    return { grade: "B", rationale: `${detail}. Completed mid- or late-phase interventional trial.` };
+  }
+  return {
+    grade: "C",
+    rationale: `${detail}. ${completed || input.hasResults ? "Small or early-phase" : "Ongoing"} interventional trial.`
+  };
+}
+
+// Grades the overall body of evidence for a peptide from registry and literature counts.
+export function gradeEvidenceBody(snapshot: EvidenceBodySnapshot): EvidenceAssessment {
+  const phase = snapshot.maxPhase ?? 0;
+  const counts = `${formatCount(snapshot.totalTrials)} registered trials (${formatCount(snapshot.completedTrials)} completed, ${formatCount(snapshot.trialsWithResults)} with posted results), ${formatCount(snapshot.publicationCount)} PubMed records${snapshot.maxPhase !== null ? `, max development phase ${snapshot.maxPhase}` : ""}${snapshot.labelFound ? ", regulatory label on file" : ""}`;
+
+  if (snapshot.labelFound && snapshot.completedTrials >= 5) {
+    return { grade: "A", rationale: `${counts}. Approved label backed by multiple completed trials.` };
+  }
+  if (phase >= 4 && snapshot.totalTrials >= 8 && snapshot.trialsWithResults > 0) {
+    return { grade: "A", rationale: `${counts}. Marketed compound with a substantial trial record and posted results.` };
+  }
+  if (phase >= 3 || snapshot.completedTrials >= 3 || snapshot.trialsWithResults >= 2) {
+    return { grade: "B", rationale: `${counts}. Late-phase development or several completed human trials.` };
+  }
+  if (snapshot.totalTrials >= 5 || snapshot.publicationCount >= 12) {
+    return { grade: "C", rationale: `${counts}. Mostly early-phase or ongoing human research.` };
+  }
+  if (snapshot.totalTrials > 0 || snapshot.publicationCount > 0) {
+    return { grade: "D", rationale: `${counts}. Sparse research record, largely preclinical or anecdotal.` };
+  }
+  return { grade: "I", rationale: "No registered trials or indexed publications found." };
+}
+
+export function gradeReferenceSource(kind: ReferenceSourceKind): EvidenceAssessment {
+  return REFERENCE_SOURCE_ASSESSMENTS[kind];
+}
+
+export function gradeCommunitySignal(postCount: number): EvidenceAssessment {
+  return postCount >= COMMUNITY_SIGNAL_MIN_POSTS
+    ? { grade: "D", rationale: `Community reports from ${formatCount(postCount)} posts; self-reported and uncontrolled.` }
+    : { grade: "I", rationale: `Only ${formatCount(postCount)} community posts; too few to summarize.` };
+}
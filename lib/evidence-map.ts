@@ -0,0 +1,109 @@
+import { EVIDENCE_GRADES } from "@/lib/constants";
+import type { CitationPublicationType, EvidenceClaim, EvidenceGrade, UseCaseEvidence } from "@/lib/types";
+import { useCaseTerms } from "@/lib/use-cases";
+
+export type EvidenceStudyType = CitationPublicationType | "UNSPECIFIED";
+
+export type EvidenceMapRow = {
+  // null collects claims that do not mention any of the peptide's use cases.
+  useCase: string | null;
+  useCaseGrade: EvidenceGrade | null;
+  claimCount: number;
+  gradeCounts: Record<EvidenceGrade, number>;
+  ungradedCount: number;
+  studyTypeCounts: Array<{ studyType: EvidenceStudyType; count: number }>;
+  newestStudyDate: string | null;
+  enrolledParticipants: number;
+  trialsWithEnrollment: number;
+};
+
+// Only primary research dates count as "newest study"; labels and search pages carry the retrieval date.
+const STUDY_PUBLICATION_TYPES: EvidenceStudyType[] = ["JOURNAL_ARTICLE", "CLINICAL_TRIAL"];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Terms match at a word start so "neuro" catches "neurological" but "ibs" skips "ribs".
+function mentions(text: string, term: string): boolean {
+  return new RegExp(`(?:^|[^a-z0-9])${escapeRegExp(term)}`, "i").test(text);
+}
+
+function emptyGradeCounts(): Record<EvidenceGrade, number> {
+  return Object.fromEntries(EVIDENCE_GRADES.map((grade) => [grade, 0])) as Record<EvidenceGrade, number>;
+}
+
+export function claimUseCases(claim: EvidenceClaim, useCases: string[]): string[] {
+  const text = `${claim.claimText} ${claim.sourceTitle ?? ""}`.toLowerCase();
+  return useCases.filter((useCase) => useCaseTerms(useCase).some((term) => mentions(text, term)));
+}
+
+function summarizeClaims(
+  useCase: string | null,
+  useCaseGrade: EvidenceGrade | null,
+  claims: EvidenceClaim[]
+): EvidenceMapRow {
+  const gradeCounts = emptyGradeCounts();
+  const studyTypes = new Map<EvidenceStudyType, number>();
+  const enrollmentBySource = new Map<string, number>();
+  let ungradedCount = 0;
+  let newestStudyDate: string | null = null;
+
+  for (const claim of claims) {
+    if (claim.evidenceGrade) {
+      gradeCounts[claim.evidenceGrade] += 1;
+    } else {
+      ungradedCount += 1;
+    }
+
+    const studyType: EvidenceStudyType = claim.publicationType ?? "UNSPECIFIED";
+    studyTypes.set(studyType, (studyTypes.get(studyType) ?? 0) + 1);
+    if (STUDY_PUBLICATION_TYPES.includes(studyType) && (!newestStudyDate || claim.publishedAt > newestStudyDate)) {
+      newestStudyDate = claim.publishedAt;
+    }
+    // The same registration can back several claims; count its participants once.
+    if (claim.enrollment !== null) {
+      enrollmentBySource.set(claim.nctId ?? claim.sourceUrl, claim.enrollment);
+    }
+  }
+
+  return {
+    useCase,
+    useCaseGrade,
+    claimCount: claims.length,
+    gradeCounts,
+    ungradedCount,
+    studyTypeCounts: Array.from(studyTypes, ([studyType, count]) => ({ studyType, count })).sort(
+      (a, b) => b.count - a.count || a.studyType.localeCompare(b.studyType)
+    ),
+    newestStudyDate,
+    enrolledParticipants: Array.from(enrollmentBySource.values()).reduce((total, value) => total + value, 0),
+    trialsWithEnrollment: enrollmentBySource.size
+  };
+}
+
+// One row per use case with the claims that mention it (a claim can support several use cases),
+// plus a trailing row for peptide-wide claims that name none of them.
+export function buildEvidenceMap(useCaseEvidence: UseCaseEvidence[], claims: EvidenceClaim[]): EvidenceMapRow[] {
+  const useCases = useCaseEvidence.map((entry) => entry.useCase);
+  const claimsByUseCase = new Map<string, EvidenceClaim[]>(useCases.map((useCase) => [useCase, []]));
+  const unattributed: EvidenceClaim[] = [];
+
+  for (const claim of claims) {
+    const matched = claimUseCases(claim, useCases);
+    if (matched.length === 0) {
+      unattributed.push(claim);
+    }
+    for (const useCase of matched) {
+      claimsByUseCase.get(useCase)?.push(claim);
+    }
+  }
+
+  const rows = useCaseEvidence.map((entry) =>
+    summarizeClaims(entry.useCase, entry.evidenceGrade, claimsByUseCase.get(entry.useCase) ?? [])
+  );
+  if (unattributed.length > 0) {
+    rows.push(summarizeClaims(null, null, unattributed));
+  }
+  return rows;
+}
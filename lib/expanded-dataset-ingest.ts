@@ -1,6 +1,8 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { findOrCreateCitation } from "@/lib/citations";
 import { expandedPeptideDataset, statusForJurisdiction } from "@/lib/expanded-dataset";
-import { toHumanReadableSourceUrl } from "@/lib/reference-sources";
+import { diffPeptideImport, recordSeedChanges } from "@/lib/peptide-import";
+import { parseDosingText, toDosingColumns } from "@/lib/structured-dosing";
 import type { JurisdictionCode } from "@/lib/types";
 
 const JURISDICTION_ORDER: JurisdictionCode[] = ["US", "EU", "UK", "CA", "AU"];
@@ -41,6 +43,10 @@ export async function ingestExpandedPeptideDataset(supabase: SupabaseClient) {
 
   const usJurisdictionId = assertData(jurisdictionIdByCode.get("US") ?? null, "US jurisdiction missing.");
   const citationCache = new Map<string, number>();
+  const diff = await diffPeptideImport(
+    supabase,
+    expandedPeptideDataset.map((seed, index) => ({ row: index + 1, seed }))
+  );
   let processed = 0;
 
   for (const seed of expandedPeptideDataset) {
@@ -156,7 +162,18 @@ export async function ingestExpandedPeptideDataset(supabase: SupabaseClient) {
       starting_dose: seed.dosing.startingDose,
       maintenance_dose: seed.dosing.maintenanceDose,
       frequency: seed.dosing.frequency,
-      notes: seed.dosing.notes
+      notes: seed.dosing.notes,
+      // New text invalidates the parsed amounts and any review of the old text.
+      ...toDosingColumns(
+        parseDosingText({
+          route: seed.dosing.route,
+          startingDose: seed.dosing.startingDose,
+          maintenanceDose: seed.dosing.maintenanceDose,
+          frequency: seed.dosing.frequency,
+          notes: seed.dosing.notes
+        })
+      ),
+      reviewed_at: null
     };
 
     if (dosingExisting?.id) {
@@ -186,40 +203,10 @@ export async function ingestExpandedPeptideDataset(supabase: SupabaseClient) {
       throw new Error(safetyError.message);
     }
 
-    const normalizedSourceUrl = toHumanReadableSourceUrl(seed.claim.sourceUrl);
-    if (!normalizedSourceUrl) {
-      throw new Error(`Invalid citation source URL for ${seed.slug}.`);
-    }
-
-    const citationKey = `${normalizedSourceUrl}|${seed.claim.publishedAt}`;
-    let citationId = citationCache.get(citationKey);
+    let citationId = citationCache.get(seed.claim.sourceUrl);
     if (!citationId) {
-      const { data: existingCitation } = await supabase
-        .from("citations")
-        .select("id")
-        .eq("source_url", normalizedSourceUrl)
-        .eq("published_at", seed.claim.publishedAt)
-        .maybeSingle();
-
-      if (existingCitation?.id) {
-        citationId = Number(existingCitation.id);
-      } else {
-        const { data: citation, error: citationError } = await supabase
-          .from("citations")
-          .insert({
-            source_url: normalizedSourceUrl,
-            source_title: seed.claim.sourceTitle,
-            published_at: seed.claim.publishedAt
-          })
-          .select("id")
-          .single();
-
-        if (citationError || !citation?.id) {
-          throw new Error(citationError?.message ?? `Failed citation insert for ${seed.slug}`);
-        }
-        citationId = Number(citation.id);
-      }
-      citationCache.set(citationKey, citationId);
+      citationId = await findOrCreateCitation(supabase, seed.claim);
+      citationCache.set(seed.claim.sourceUrl, citationId);
     }
 
     const { data: existingClaim } = await supabase
@@ -257,6 +244,8 @@ export async function ingestExpandedPeptideDataset(supabase: SupabaseClient) {
     processed += 1;
   }
 
+  await recordSeedChanges(supabase, "EXPANDED_DATASET", diff);
+
   return {
     processed,
     total: expandedPeptideDataset.length
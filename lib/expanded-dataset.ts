@@ -2,6 +2,8 @@ import type { DosingContext, EvidenceGrade, JurisdictionCode, RegulatoryStatus }
 
 export type StatusModel = "approved_global" | "investigational_all" | "non_us_approved_only";
 
+export const STATUS_MODELS: StatusModel[] = ["approved_global", "investigational_all", "non_us_approved_only"];
+
 export type ExpandedPeptideSeed = {
   slug: string;
   name: string;
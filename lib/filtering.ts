@@ -1,4 +1,5 @@
 import { EVIDENCE_GRADES, JURISDICTIONS, REGULATORY_STATUSES } from "@/lib/constants";
+import type { PeptideSearchHit } from "@/lib/peptide-search";
 import type { EvidenceGrade, JurisdictionCode, PeptideSummary, RegulatoryStatus, VendorCard } from "@/lib/types";
 
 export type PeptideFilters = {
@@ -119,6 +120,13 @@ export function filterPeptides(peptides: PeptideSummary[], filters: PeptideFilte
   });
 }
 
+export function orderBySearchHits(peptides: PeptideSummary[], hits: PeptideSearchHit[]): PeptideSummary[] {
+  const rankBySlug = new Map(hits.map((hit, index) => [hit.slug, index]));
+  return peptides
+    .filter((peptide) => rankBySlug.has(peptide.slug))
+    .sort((a, b) => (rankBySlug.get(a.slug) ?? 0) - (rankBySlug.get(b.slug) ?? 0));
+}
+
 export function filterVendors(vendors: VendorCard[], filters: VendorFilters): VendorCard[] {
   return vendors.filter((vendor) => {
     if (filters.q && !includesText(vendor.name, filters.q)) {
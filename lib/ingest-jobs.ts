@@ -0,0 +1,396 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { listTrialRefreshTargets, refreshClinicalTrials } from "@/lib/clinical-trials";
+import { ingestClinicalTrialsCatalog } from "@/lib/clinicaltrials-catalog-ingest";
+import {
+  createIngestAudit,
+  errorMessage,
+  finishJobRun,
+  flattenCounters,
+  getOrStartJobRun,
+  type IngestAudit,
+  type IngestRunItemInput
+} from "@/lib/ingest-runs";
+import { acquireIngestLock, releaseIngestLock, renewIngestLock, withIngestLock, type IngestLock } from "@/lib/ingest-lock";
+import type { IngestJob, IngestJobItem, IngestJobItemInput, JobCounters, JobQueue } from "@/lib/job-queue";
+import { listLiveEvidenceTargets, refreshLiveEvidenceClaims } from "@/lib/live-evidence-refresh";
+import { enrichPeptideContent, listEnrichmentTargets } from "@/lib/peptide-content-enrichment";
+import { ingestSocialUgcSignals, listSocialUgcTargets } from "@/lib/social-ugc-ingest";
+import { ingestVendorWebsiteCatalog, listVendorWebsiteTargets } from "@/lib/vendor-website-ingest";
+
+export const INGEST_JOB_KINDS = [
+  "LIVE_EVIDENCE",
+  "TRIAL_TRACKER",
+  "CONTENT_ENRICHMENT",
+  "SOCIAL_UGC",
+  "VENDOR_WEBSITE",
+  "CLINICALTRIALS_CATALOG"
+] as const;
+
+export type IngestJobKind = (typeof INGEST_JOB_KINDS)[number];
+
+export type IngestItemOutcome = {
+  counters: JobCounters;
+  // Set when the ingest ran but reported the item as failed; thrown errors are recorded the same way.
+  error: string | null;
+};
+
+export type IngestChunkResult = {
+  job: IngestJob | null;
+  processed: number;
+  // True when nothing ran because another run of the job's pipeline holds its ingest lock.
+  locked: boolean;
+};
+
+export type IngestJobListOptions = {
+  limit: number | null;
+  // Staleness cutoff (ISO timestamp) from a schedule: only peptides or vendors last refreshed
+  // before it are listed, stalest first. Null lists everything, as the admin buttons do.
+  staleBefore: string | null;
+};
+
+type IngestJobHandler = {
+  label: string;
+  // Items per worker call; keeps each call well inside serverless request limits.
+  chunkSize: number;
+  listItems(supabase: SupabaseClient, options: IngestJobListOptions): Promise<IngestJobItemInput[]>;
+  // Ingests that know their sources record audit rows themselves; the worker fills in the rest.
+  processItem(supabase: SupabaseClient, itemKey: string, audit: IngestAudit): Promise<IngestItemOutcome>;
+};
+
+const CATALOG_ITEM_KEY = "catalog";
+// Covers one chunk inside the worker routes' 300s maxDuration; a crashed worker's lock frees soon after.
+const CHUNK_LOCK_TTL_MS = 6 * 60 * 1000;
+
+function parseItemKey(itemKey: string): { type: string; value: string } {
+  const separator = itemKey.indexOf(":");
+  if (separator === -1) {
+    return { type: itemKey, value: "" };
+  }
+  return { type: itemKey.slice(0, separator), value: itemKey.slice(separator + 1) };
+}
+
+function peptideIdFromKey(itemKey: string): number {
+  const { type, value } = parseItemKey(itemKey);
+  const peptideId = Number(value);
+  if (type !== "peptide" || !Number.isFinite(peptideId) || peptideId <= 0) {
+    throw new Error(`Invalid peptide item key: ${itemKey}`);
+  }
+  return peptideId;
+}
+
+function slugFromKey(itemKey: string, expectedType: "peptide" | "vendor"): string {
+  const { type, value } = parseItemKey(itemKey);
+  if (type !== expectedType || !value) {
+    throw new Error(`Invalid ${expectedType} item key: ${itemKey}`);
+  }
+  return value;
+}
+
+function outcome(result: object, error: string | null): IngestItemOutcome {
+  return { counters: flattenCounters(result), error };
+}
+
+async function vendorItems(
+  supabase: SupabaseClient,
+  { limit, staleBefore }: IngestJobListOptions
+): Promise<IngestJobItemInput[]> {
+  const vendors = await listVendorWebsiteTargets(supabase, { staleBefore: staleBefore ?? undefined });
+  return (limit ? vendors.slice(0, limit) : vendors).map((vendor) => ({ key: `vendor:${vendor.slug}`, label: vendor.name }));
+}
+
+// Fallback audit row for items whose ingest recorded none (a throw before the loop, the catalog pass).
+function fallbackAuditEntry(item: IngestJobItem, result: IngestItemOutcome, durationMs: number): IngestRunItemInput {
+  const { type, value } = parseItemKey(item.itemKey);
+  return {
+    entityType: type === "vendor" ? "VENDOR" : type === "peptide" ? "PEPTIDE" : "CATALOG",
+    entityKey: value || item.itemKey,
+    entityLabel: item.label,
+    status: result.error ? "FAILED" : "SUCCEEDED",
+    counters: result.counters,
+    error: result.error,
+    durationMs
+  };
+}
+
+async function processVendorWebsiteItem(
+  supabase: SupabaseClient,
+  itemKey: string,
+  audit: IngestAudit
+): Promise<IngestItemOutcome> {
+  const result = await ingestVendorWebsiteCatalog(supabase, { vendorSlugs: [slugFromKey(itemKey, "vendor")], audit });
+  return outcome(result, result.vendorsProcessed === 0 ? "Vendor is no longer in the seed list." : null);
+}
+
+export const INGEST_JOB_HANDLERS: Record<IngestJobKind, IngestJobHandler> = {
+  LIVE_EVIDENCE: {
+    label: "Live evidence refresh",
+    chunkSize: 4,
+    async listItems(supabase, { limit, staleBefore }) {
+      const peptides = await listLiveEvidenceTargets(supabase, limit ?? 12, staleBefore ?? undefined);
+      return peptides.map((peptide) => ({ key: `peptide:${peptide.id}`, label: peptide.canonicalName }));
+    },
+    async processItem(supabase, itemKey, audit) {
+      const result = await refreshLiveEvidenceClaims(supabase, {
+        peptideIds: [peptideIdFromKey(itemKey)],
+        sourcesPerPeptide: 2,
+        audit
+      });
+      if (result.peptidesScanned === 0) {
+        return outcome(result, "Peptide is missing or unpublished.");
+      }
+      return outcome(result, result.failures > 0 ? "PubMed or ClinicalTrials refresh failed." : null);
+    }
+  },
+  TRIAL_TRACKER: {
+    label: "Trial tracker refresh",
+    chunkSize: 4,
+    async listItems(supabase, { limit, staleBefore }) {
+      const peptides = await listTrialRefreshTargets(supabase, limit ?? 12, staleBefore ?? undefined);
+      return peptides.map((peptide) => ({ key: `peptide:${peptide.id}`, label: peptide.canonicalName }));
+    },
+    async processItem(supabase, itemKey, audit) {
+      const result = await refreshClinicalTrials(supabase, {
+        peptideIds: [peptideIdFromKey(itemKey)],
+        trialsPerPeptide: 25,
+        audit
+      });
+      if (result.peptidesScanned === 0) {
+        return outcome(result, "Peptide is missing or unpublished.");
+      }
+      return outcome(result, result.failures > 0 ? "ClinicalTrials.gov refresh failed." : null);
+    }
+  },
+  CONTENT_ENRICHMENT: {
+    label: "External-source enrichment",
+    chunkSize: 3,
+    async listItems(supabase, { limit, staleBefore }) {
+      const peptides = await listEnrichmentTargets(supabase, {
+        onlyPublished: true,
+        limit: limit ?? 40,
+        staleBefore: staleBefore ?? undefined
+      });
+      return peptides.map((peptide) => ({ key: `peptide:${peptide.slug}`, label: peptide.name }));
+    },
+    async processItem(supabase, itemKey, audit) {
+      const result = await enrichPeptideContent(supabase, {
+        onlyPublished: true,
+        peptideSlugs: [slugFromKey(itemKey, "peptide")],
+        delayMs: 110,
+        audit
+      });
+      if (result.peptidesScanned === 0) {
+        return outcome(result, "Peptide is missing or unpublished.");
+      }
+      return outcome(result, result.failures > 0 ? "Enrichment failed for this peptide." : null);
+    }
+  },
+  SOCIAL_UGC: {
+    label: "Social & community signals",
+    chunkSize: 5,
+    async listItems(supabase, { limit, staleBefore }) {
+      const targets = await listSocialUgcTargets(supabase, {
+        onlyPublished: true,
+        peptideLimit: limit ?? 40,
+        vendorLimit: limit ?? 25,
+        staleBefore: staleBefore ?? undefined
+      });
+      return targets.map((target) => ({ key: `${target.entityType}:${target.slug}`, label: target.name }));
+    },
+    async processItem(supabase, itemKey, audit) {
+      const { type } = parseItemKey(itemKey);
+      const entityType = type === "vendor" ? "vendor" : "peptide";
+      const slug = slugFromKey(itemKey, entityType);
+      const result = await ingestSocialUgcSignals(supabase, {
+        only: entityType,
+        peptideSlugs: entityType === "peptide" ? [slug] : undefined,
+        vendorSlugs: entityType === "vendor" ? [slug] : undefined,
+        onlyPublished: true,
+        delayMs: 90,
+        maxTermsPerEntity: 2,
+        maxQuotesPerVendor: 6,
+        audit
+      });
+      const scanned = entityType === "vendor" ? result.vendorsScanned : result.peptidesScanned;
+      if (scanned === 0) {
+        return outcome(result, `${entityType === "vendor" ? "Vendor" : "Peptide"} is missing or unpublished.`);
+      }
+      return outcome(result, result.failures > 0 ? "Community source ingest failed." : null);
+    }
+  },
+  VENDOR_WEBSITE: {
+    label: "Vendor website catalog",
+    chunkSize: 2,
+    async listItems(supabase, options) {
+      return vendorItems(supabase, options);
+    },
+    processItem: processVendorWebsiteItem
+  },
+  CLINICALTRIALS_CATALOG: {
+    label: "ClinicalTrials catalog + vendors",
+    chunkSize: 1,
+    // The catalog import is one item; the vendor pass that always followed it runs per vendor.
+    async listItems(supabase, options) {
+      const vendors = await vendorItems(supabase, options);
+      return [{ key: CATALOG_ITEM_KEY, label: "ClinicalTrials.gov intervention catalog" }, ...vendors];
+    },
+    async processItem(supabase, itemKey, audit) {
+      if (itemKey === CATALOG_ITEM_KEY) {
+        return outcome(await ingestClinicalTrialsCatalog(supabase, { target: 320, maxPages: 8 }), null);
+      }
+      // The chunk holds this kind's lock; vendor crawls also need VENDOR_WEBSITE's so they never
+      // overlap a vendor website job, cron tick or script. A held lock fails the item with a message.
+      return withIngestLock(supabase, "VENDOR_WEBSITE", { ttlMs: CHUNK_LOCK_TTL_MS, owner: "job" }, () =>
+        processVendorWebsiteItem(supabase, itemKey, audit)
+      );
+    }
+  }
+};
+
+export function isIngestJobKind(value: string): value is IngestJobKind {
+  return (INGEST_JOB_KINDS as readonly string[]).includes(value);
+}
+
+export function ingestJobLabel(kind: string): string {
+  return isIngestJobKind(kind) ? INGEST_JOB_HANDLERS[kind].label : kind;
+}
+
+// Snapshots the work list now so progress is measured against a fixed total. Returns null when
+// there is nothing to process, e.g. every peptide was refreshed after options.staleBefore. Only one
+// job per kind is active at a time, so two jobs never ingest the same peptide side by side; the check
+// below gives the friendly message, and the queue rejects a job that races past it.
+export async function enqueueIngestJob(
+  supabase: SupabaseClient,
+  queue: JobQueue,
+  kind: IngestJobKind,
+  options?: { limit?: number | null; staleBefore?: string | null }
+): Promise<IngestJob | null> {
+  const handler = INGEST_JOB_HANDLERS[kind];
+  const active = await queue.findActiveJob(kind);
+  if (active) {
+    throw new Error(`${handler.label} is already queued or running as job ${active.id}.`);
+  }
+  const limit = options?.limit && options.limit > 0 ? Math.floor(options.limit) : null;
+  const staleBefore = options?.staleBefore || null;
+  const items = await handler.listItems(supabase, { limit, staleBefore });
+  if (items.length === 0) {
+    return null;
+  }
+  return queue.enqueue({ kind, params: { limit, staleBefore }, chunkSize: handler.chunkSize, items });
+}
+
+// Runs one chunk of the given job, or of the oldest active job. Safe to call from several workers:
+// items are claimed before they run and the job is re-read between items so a cancel takes effect.
+// The chunk runs under the job kind's ingest lock, so it never overlaps a cron tick or an ingest
+// script for the same pipeline; pass options.lock when the caller already holds it.
+export async function runIngestJobChunk(
+  supabase: SupabaseClient,
+  queue: JobQueue,
+  jobId?: number,
+  options?: { lock?: IngestLock }
+): Promise<IngestChunkResult> {
+  const found = jobId ? await queue.getJob(jobId) : await queue.nextActiveJob();
+  if (!found || (found.status !== "QUEUED" && found.status !== "RUNNING")) {
+    return { job: found, processed: 0, locked: false };
+  }
+
+  let lock: IngestLock | null = null;
+  if (options?.lock) {
+    if (!(await renewIngestLock(supabase, options.lock, CHUNK_LOCK_TTL_MS))) {
+      return { job: found, processed: 0, locked: true };
+    }
+  } else {
+    lock = await acquireIngestLock(supabase, found.kind, { ttlMs: CHUNK_LOCK_TTL_MS, owner: "job" });
+    if (!lock) {
+      return { job: found, processed: 0, locked: true };
+    }
+  }
+
+  try {
+    return { ...(await runLockedChunk(supabase, queue, found)), locked: false };
+  } finally {
+    if (lock) {
+      await releaseIngestLock(supabase, lock);
+    }
+  }
+}
+
+async function runLockedChunk(
+  supabase: SupabaseClient,
+  queue: JobQueue,
+  found: IngestJob
+): Promise<{ job: IngestJob | null; processed: number }> {
+  let job: IngestJob | null = found;
+  if (job.status === "QUEUED") {
+    job = (await queue.startJob(job.id)) ?? (await queue.getJob(job.id));
+  }
+  if (!job || job.status !== "RUNNING") {
+    return { job, processed: 0 };
+  }
+  if (!isIngestJobKind(job.kind)) {
+    return { job: await queue.finishJob(job.id, "FAILED", `Unknown ingest job kind: ${job.kind}`), processed: 0 };
+  }
+  const handler = INGEST_JOB_HANDLERS[job.kind];
+  const run = await getOrStartJobRun(supabase, job.id, job.kind);
+  const runAudit = createIngestAudit(supabase, run.id);
+  const items = await queue.claimItems(job.id, job.chunkSize);
+  let processed = 0;
+  for (const item of items) {
+    const current = await queue.getJob(job.id);
+    if (current?.status !== "RUNNING") {
+      break;
+    }
+    const startedAt = Date.now();
+    let recorded = 0;
+    const audit: IngestAudit = {
+      async record(entry) {
+        recorded += 1;
+        await runAudit.record(entry);
+      }
+    };
+    let result: IngestItemOutcome;
+    try {
+      result = await handler.processItem(supabase, item.itemKey, audit);
+    } catch (error) {
+      result = { counters: {}, error: errorMessage(error, "Ingest item failed.") };
+    }
+    await queue.completeItem(item.id, result.error ? "FAILED" : "SUCCEEDED", result.counters, result.error);
+    if (recorded === 0) {
+      await runAudit.record(fallbackAuditEntry(item, result, Date.now() - startedAt));
+    }
+    processed += 1;
+  }
+
+  const latest = await queue.getJob(job.id);
+  if (latest?.status === "RUNNING" && latest.processedItems >= latest.totalItems) {
+    const allFailed = latest.totalItems > 0 && latest.failedItems >= latest.totalItems;
+    const finished = await queue.finishJob(
+      latest.id,
+      allFailed ? "FAILED" : "COMPLETED",
+      allFailed ? `All ${latest.totalItems} items failed.` : null
+    );
+    await finishJobRun(supabase, latest.id, {
+      status: allFailed ? "FAILED" : "COMPLETED",
+      counters: latest.counters,
+      error: allFailed ? `All ${latest.totalItems} items failed.` : null
+    });
+    return { job: finished ?? (await queue.getJob(latest.id)), processed };
+  }
+  return { job: latest, processed };
+}
+
+export function formatJobCounters(counters: JobCounters): string {
+  const entries = Object.entries(counters).filter(([, value]) => value !== 0);
+  if (entries.length === 0) {
+    return "No results recorded yet.";
+  }
+  return entries
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => {
+      const words = key
+        .replace(/\./g, " ")
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .toLowerCase();
+      return `${words}: ${value.toLocaleString("en-US")}`;
+    })
+    .join(" · ");
+}
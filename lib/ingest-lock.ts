@@ -0,0 +1,63 @@
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type IngestLock = {
+  name: string;
+  holder: string;
+};
+
+function rpcError(message: string, functionName: string): Error {
+  if (message.includes(functionName)) {
+    return new Error(`Missing ${functionName} function. Re-run db/bootstrap.sql and try again.`);
+  }
+  return new Error(message);
+}
+
+// Takes the named lock (one per pipeline, e.g. SOCIAL_UGC) or returns null while another caller
+// holds it. The TTL must outlast the work: once it passes, the next caller can take the lock over.
+export async function acquireIngestLock(
+  supabase: SupabaseClient,
+  name: string,
+  options: { ttlMs: number; owner: string }
+): Promise<IngestLock | null> {
+  const lock = { name, holder: `${options.owner}:${randomUUID()}` };
+  return (await renewIngestLock(supabase, lock, options.ttlMs)) ? lock : null;
+}
+
+// Extends a lock the caller already holds. False means it expired and someone else took it over.
+export async function renewIngestLock(supabase: SupabaseClient, lock: IngestLock, ttlMs: number): Promise<boolean> {
+  const { data, error } = await supabase.rpc("acquire_ingest_lock", {
+    lock_name: lock.name,
+    lock_holder: lock.holder,
+    ttl_seconds: Math.max(1, Math.ceil(ttlMs / 1000))
+  });
+  if (error) {
+    throw rpcError(error.message, "acquire_ingest_lock");
+  }
+  return data === true;
+}
+
+export async function releaseIngestLock(supabase: SupabaseClient, lock: IngestLock): Promise<void> {
+  const { error } = await supabase.rpc("release_ingest_lock", { lock_name: lock.name, lock_holder: lock.holder });
+  if (error) {
+    throw rpcError(error.message, "release_ingest_lock");
+  }
+}
+
+// Runs the task while holding the lock and refuses to start it while someone else does.
+export async function withIngestLock<T>(
+  supabase: SupabaseClient,
+  name: string,
+  options: { ttlMs: number; owner: string },
+  task: () => Promise<T>
+): Promise<T> {
+  const lock = await acquireIngestLock(supabase, name, options);
+  if (!lock) {
+    throw new Error(`Another ${name} ingest is already running. Try again once it finishes.`);
+  }
+  try {
+    return await task();
+  } finally {
+    await releaseIngestLock(supabase, lock);
+  }
+}
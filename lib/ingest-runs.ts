@@ -0,0 +1,373 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { withIngestLock } from "@/lib/ingest-lock";
+
+export type IngestRunStatus = "RUNNING" | "COMPLETED" | "FAILED" | "CANCELLED";
+
+export type IngestRunItemStatus = "SUCCEEDED" | "FAILED" | "SKIPPED";
+
+export type IngestSourceStatus = "HIT" | "MISS" | "FAILED";
+
+export type IngestRunTrigger = "JOB" | "SCRIPT";
+
+export type IngestSourceOutcome = {
+  source: string;
+  status: IngestSourceStatus;
+  // Error message for FAILED; the request URL or a short note otherwise.
+  detail?: string;
+};
+
+export type IngestRunItemInput = {
+  entityType: "PEPTIDE" | "VENDOR" | "CATALOG";
+  entityKey: string;
+  entityLabel: string;
+  status: IngestRunItemStatus;
+  sources?: IngestSourceOutcome[];
+  counters?: Record<string, number>;
+  error?: string | null;
+  durationMs?: number;
+};
+
+// Passed into the ingest functions so every processed entity leaves an audit row. Optional there:
+// callers that do not care (one-off admin fixes) simply leave it out.
+export type IngestAudit = {
+  record(entry: IngestRunItemInput): Promise<void>;
+};
+
+export type IngestRun = {
+  id: number;
+  pipeline: string;
+  trigger: string;
+  jobId: number | null;
+  status: IngestRunStatus;
+  itemsTotal: number;
+  itemsFailed: number;
+  counters: Record<string, number>;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+export type IngestRunItem = {
+  id: number;
+  runId: number;
+  entityType: string;
+  entityKey: string;
+  entityLabel: string;
+  status: IngestRunItemStatus;
+  sources: IngestSourceOutcome[];
+  counters: Record<string, number>;
+  error: string | null;
+  durationMs: number | null;
+  recordedAt: string;
+};
+
+export type IngestRunFilters = {
+  pipeline?: string;
+  status?: IngestRunStatus;
+  failuresOnly?: boolean;
+  since?: string;
+  limit?: number;
+};
+
+export const INGEST_RUN_STATUSES: IngestRunStatus[] = ["RUNNING", "COMPLETED", "FAILED", "CANCELLED"];
+
+const RUN_ITEM_STATUSES: IngestRunItemStatus[] = ["SUCCEEDED", "FAILED", "SKIPPED"];
+const SOURCE_STATUSES: IngestSourceStatus[] = ["HIT", "MISS", "FAILED"];
+const RUN_COLUMNS = "id,pipeline,trigger,job_id,status,items_total,items_failed,counters,error,started_at,finished_at";
+const MAX_ERROR_LENGTH = 2000;
+// Full-catalog script runs take hours; a crashed script's lock frees itself after this.
+const SCRIPT_LOCK_TTL_MS = 6 * 60 * 60 * 1000;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function asNumber(value: unknown): number {
+  const parsed = typeof value === "number" ? value : Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function asCounters(value: unknown): Record<string, number> {
+  const counters: Record<string, number> = {};
+  for (const [key, entry] of Object.entries(asRecord(value) ?? {})) {
+    counters[key] = asNumber(entry);
+  }
+  return counters;
+}
+
+function missingTableError(message: string): Error {
+  if (message.includes("ingest_run")) {
+    return new Error("Missing ingest_runs tables. Re-run db/bootstrap.sql and try again.");
+  }
+  return new Error(message);
+}
+
+export function errorMessage(error: unknown, fallback = "Unknown error."): string {
+  const message = error instanceof Error ? error.message : typeof error === "string" ? error : "";
+  return (message.trim() || fallback).slice(0, MAX_ERROR_LENGTH);
+}
+
+// Ingest results are nested objects of counts (e.g. sourceHits.pubMed); runs and jobs store them flat.
+export function flattenCounters(result: object, prefix = ""): Record<string, number> {
+  const counters: Record<string, number> = {};
+  for (const [key, value] of Object.entries(result)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (typeof value === "number" && Number.isFinite(value)) {
+      counters[name] = value;
+    } else if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      Object.assign(counters, flattenCounters(value, name));
+    }
+  }
+  return counters;
+}
+
+function mapRunRow(row: unknown): IngestRun | null {
+  const record = asRecord(row);
+  const id = asNumber(record?.id);
+  const status = asString(record?.status) as IngestRunStatus;
+  if (!record || id <= 0 || !INGEST_RUN_STATUSES.includes(status)) {
+    return null;
+  }
+  return {
+    id,
+    pipeline: asString(record.pipeline),
+    trigger: asString(record.trigger),
+    jobId: asNumber(record.job_id) || null,
+    status,
+    itemsTotal: asNumber(record.items_total),
+    itemsFailed: asNumber(record.items_failed),
+    counters: asCounters(record.counters),
+    error: asString(record.error) || null,
+    startedAt: asString(record.started_at),
+    finishedAt: asString(record.finished_at) || null
+  };
+}
+
+function mapSourceOutcome(value: unknown): IngestSourceOutcome | null {
+  const record = asRecord(value);
+  const source = asString(record?.source);
+  const status = asString(record?.status) as IngestSourceStatus;
+  if (!source || !SOURCE_STATUSES.includes(status)) {
+    return null;
+  }
+  const detail = asString(record?.detail);
+  return detail ? { source, status, detail } : { source, status };
+}
+
+function mapRunItemRow(row: unknown): IngestRunItem | null {
+  const record = asRecord(row);
+  const id = asNumber(record?.id);
+  const status = asString(record?.status) as IngestRunItemStatus;
+  if (!record || id <= 0 || !RUN_ITEM_STATUSES.includes(status)) {
+    return null;
+  }
+  return {
+    id,
+    runId: asNumber(record.run_id),
+    entityType: asString(record.entity_type),
+    entityKey: asString(record.entity_key),
+    entityLabel: asString(record.entity_label),
+    status,
+    sources: asArray(record.sources)
+      .map(mapSourceOutcome)
+      .filter((entry): entry is IngestSourceOutcome => entry !== null),
+    counters: asCounters(record.counters),
+    error: asString(record.error) || null,
+    durationMs: record.duration_ms === null || record.duration_ms === undefined ? null : asNumber(record.duration_ms),
+    recordedAt: asString(record.recorded_at)
+  };
+}
+
+export async function startIngestRun(
+  supabase: SupabaseClient,
+  input: { pipeline: string; trigger: IngestRunTrigger; jobId?: number | null }
+): Promise<IngestRun> {
+  const { data, error } = await supabase
+    .from("ingest_runs")
+    .insert({ pipeline: input.pipeline, trigger: input.trigger, job_id: input.jobId ?? null })
+    .select(RUN_COLUMNS)
+    .single();
+  const run = mapRunRow(data);
+  if (error || !run) {
+    throw missingTableError(error?.message ?? "Failed to start ingest run.");
+  }
+  return run;
+}
+
+// Reuses the open run of a job so one job (however many worker calls it takes) is one run.
+// A retried job gets a new run, which keeps the failed attempt in the history.
+export async function getOrStartJobRun(supabase: SupabaseClient, jobId: number, pipeline: string): Promise<IngestRun> {
+  const { data, error } = await supabase
+    .from("ingest_runs")
+    .select(RUN_COLUMNS)
+    .eq("job_id", jobId)
+    .eq("status", "RUNNING")
+    .order("id", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    throw missingTableError(error.message);
+  }
+  return mapRunRow(data) ?? startIngestRun(supabase, { pipeline, trigger: "JOB", jobId });
+}
+
+export function createIngestAudit(supabase: SupabaseClient, runId: number): IngestAudit {
+  return {
+    async record(entry) {
+      const { error } = await supabase.from("ingest_run_items").insert({
+        run_id: runId,
+        entity_type: entry.entityType,
+        entity_key: entry.entityKey,
+        entity_label: entry.entityLabel,
+        status: entry.status,
+        sources: entry.sources ?? [],
+        counters: entry.counters ?? {},
+        error: entry.error ? entry.error.slice(0, MAX_ERROR_LENGTH) : null,
+        duration_ms: entry.durationMs === undefined ? null : Math.round(entry.durationMs)
+      });
+      if (error) {
+        throw missingTableError(error.message);
+      }
+    }
+  };
+}
+
+// Closes a run; item totals are counted from the audit rows so they match what the drill-down shows.
+export async function finishIngestRun(
+  supabase: SupabaseClient,
+  runId: number,
+  input: { status: Exclude<IngestRunStatus, "RUNNING">; counters?: Record<string, number>; error?: string | null }
+): Promise<void> {
+  const [{ count: itemsTotal, error: totalError }, { count: itemsFailed, error: failedError }] = await Promise.all([
+    supabase.from("ingest_run_items").select("id", { count: "exact", head: true }).eq("run_id", runId),
+    supabase.from("ingest_run_items").select("id", { count: "exact", head: true }).eq("run_id", runId).eq("status", "FAILED")
+  ]);
+  if (totalError || failedError) {
+    throw new Error(totalError?.message ?? failedError?.message);
+  }
+
+  const update: Record<string, unknown> = {
+    status: input.status,
+    items_total: itemsTotal ?? 0,
+    items_failed: itemsFailed ?? 0,
+    error: input.error ?? null,
+    finished_at: new Date().toISOString()
+  };
+  if (input.counters) {
+    update.counters = input.counters;
+  }
+  const { error } = await supabase.from("ingest_runs").update(update).eq("id", runId).eq("status", "RUNNING");
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+export async function finishJobRun(
+  supabase: SupabaseClient,
+  jobId: number,
+  input: { status: Exclude<IngestRunStatus, "RUNNING">; counters?: Record<string, number>; error?: string | null }
+): Promise<void> {
+  const { data, error } = await supabase.from("ingest_runs").select("id").eq("job_id", jobId).eq("status", "RUNNING");
+  if (error) {
+    throw missingTableError(error.message);
+  }
+  for (const row of data ?? []) {
+    await finishIngestRun(supabase, asNumber(row.id), input);
+  }
+}
+
+// Wraps one direct (non-queued) ingest call in a run: the result object becomes the run counters
+// and a thrown error marks the run failed before it is rethrown. The pipeline lock keeps a script
+// from overlapping a scheduled run of the same ingest.
+export async function runWithIngestAudit<T extends object>(
+  supabase: SupabaseClient,
+  pipeline: string,
+  task: (audit: IngestAudit) => Promise<T>
+): Promise<T> {
+  return withIngestLock(supabase, pipeline, { ttlMs: SCRIPT_LOCK_TTL_MS, owner: "script" }, async () => {
+    const run = await startIngestRun(supabase, { pipeline, trigger: "SCRIPT" });
+    try {
+      const result = await task(createIngestAudit(supabase, run.id));
+      await finishIngestRun(supabase, run.id, { status: "COMPLETED", counters: flattenCounters(result) });
+      return result;
+    } catch (error) {
+      await finishIngestRun(supabase, run.id, { status: "FAILED", error: errorMessage(error) });
+      throw error;
+    }
+  });
+}
+
+export function formatRunDuration(startedAt: string, finishedAt: string | null): string {
+  if (!finishedAt) {
+    return "Running";
+  }
+  const seconds = Math.max(0, Math.round((new Date(finishedAt).getTime() - new Date(startedAt).getTime()) / 1000));
+  if (!Number.isFinite(seconds)) {
+    return "N/A";
+  }
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+export async function listIngestRuns(supabase: SupabaseClient, filters: IngestRunFilters = {}): Promise<IngestRun[]> {
+  let query = supabase
+    .from("ingest_runs")
+    .select(RUN_COLUMNS)
+    .order("started_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(Math.max(1, Math.min(200, filters.limit ?? 50)));
+  if (filters.pipeline) {
+    query = query.eq("pipeline", filters.pipeline);
+  }
+  if (filters.status) {
+    query = query.eq("status", filters.status);
+  }
+  if (filters.failuresOnly) {
+    query = query.gt("items_failed", 0);
+  }
+  if (filters.since) {
+    query = query.gte("started_at", filters.since);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw missingTableError(error.message);
+  }
+  return (data ?? []).map(mapRunRow).filter((run): run is IngestRun => run !== null);
+}
+
+export async function getIngestRun(supabase: SupabaseClient, runId: number): Promise<IngestRun | null> {
+  const { data, error } = await supabase.from("ingest_runs").select(RUN_COLUMNS).eq("id", runId).maybeSingle();
+  if (error) {
+    throw missingTableError(error.message);
+  }
+  return mapRunRow(data);
+}
+
+export async function listIngestRunItems(
+  supabase: SupabaseClient,
+  runId: number,
+  options?: { status?: IngestRunItemStatus }
+): Promise<IngestRunItem[]> {
+  let query = supabase
+    .from("ingest_run_items")
+    .select("id,run_id,entity_type,entity_key,entity_label,status,sources,counters,error,duration_ms,recorded_at")
+    .eq("run_id", runId)
+    .order("id", { ascending: true });
+  if (options?.status) {
+    query = query.eq("status", options.status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw missingTableError(error.message);
+  }
+  return (data ?? []).map(mapRunItemRow).filter((item): item is IngestRunItem => item !== null);
+}
@@ -0,0 +1,94 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { enqueueIngestJob, runIngestJobChunk, type IngestJobKind } from "@/lib/ingest-jobs";
+import { acquireIngestLock, releaseIngestLock } from "@/lib/ingest-lock";
+import type { IngestJob, JobQueue } from "@/lib/job-queue";
+
+export type IngestSchedule = {
+  // Path segment of the cron route: /api/cron/<pipeline>.
+  pipeline: string;
+  kind: IngestJobKind;
+  // When the cron fires (UTC). Must match the crons entry for this path in vercel.json.
+  cron: string;
+  // Staleness policy: only peptides or vendors last refreshed longer ago than this are queued.
+  // Kept a little under the cron interval so items finished late in the previous run still qualify.
+  maxAgeHours: number;
+  // Most items per queued job, stalest first; the rest qualify again on the next run.
+  limit: number;
+};
+
+export type ScheduledIngestStatus = "QUEUED" | "RESUMED" | "FRESH" | "LOCKED";
+
+export type ScheduledIngestResult = {
+  pipeline: string;
+  // QUEUED/RESUMED: worked on a new or an unfinished job. FRESH: nothing was stale.
+  // LOCKED: another run of this pipeline holds the lock.
+  status: ScheduledIngestStatus;
+  job: IngestJob | null;
+  processed: number;
+};
+
+// The live-evidence and trial timestamps live on peptides; enrichment and social use their own
+// peptide/vendor timestamps, and the vendor catalog uses vendors.last_website_refresh_at.
+export const INGEST_SCHEDULES: IngestSchedule[] = [
+  { pipeline: "live-evidence", kind: "LIVE_EVIDENCE", cron: "0 6 * * *", maxAgeHours: 20, limit: 24 },
+  { pipeline: "trial-tracker", kind: "TRIAL_TRACKER", cron: "30 6 * * *", maxAgeHours: 20, limit: 24 },
+  { pipeline: "social-ugc", kind: "SOCIAL_UGC", cron: "0 7 * * 1", maxAgeHours: 6 * 24, limit: 40 },
+  { pipeline: "vendor-website", kind: "VENDOR_WEBSITE", cron: "0 8 * * 2", maxAgeHours: 6 * 24, limit: 25 },
+  { pipeline: "content-enrichment", kind: "CONTENT_ENRICHMENT", cron: "0 9 * * 0", maxAgeHours: 27 * 24, limit: 12 }
+];
+
+// Cron routes run for at most 300s; no new chunk starts after this so the last one can finish.
+const RUN_BUDGET_MS = 180 * 1000;
+// Outlives the route's maxDuration, so a timed-out invocation's lock is free by the next run.
+const LOCK_TTL_MS = 6 * 60 * 1000;
+
+export function findIngestSchedule(pipeline: string): IngestSchedule | null {
+  return INGEST_SCHEDULES.find((schedule) => schedule.pipeline === pipeline) ?? null;
+}
+
+export function staleBeforeFor(schedule: IngestSchedule, now = new Date()): string {
+  return new Date(now.getTime() - schedule.maxAgeHours * 60 * 60 * 1000).toISOString();
+}
+
+// One scheduled tick: under the pipeline lock, keep working the pipeline's unfinished job if there
+// is one, otherwise queue the stale items, then process chunks until the time budget runs out.
+// Whatever is left stays queued for the next tick, the admin page, or npm run jobs:work.
+export async function runScheduledIngest(
+  supabase: SupabaseClient,
+  queue: JobQueue,
+  schedule: IngestSchedule,
+  options?: { now?: Date; budgetMs?: number }
+): Promise<ScheduledIngestResult> {
+  const lock = await acquireIngestLock(supabase, schedule.kind, { ttlMs: LOCK_TTL_MS, owner: "cron" });
+  if (!lock) {
+    return { pipeline: schedule.pipeline, status: "LOCKED", job: null, processed: 0 };
+  }
+
+  try {
+    let job = await queue.findActiveJob(schedule.kind);
+    const status: ScheduledIngestStatus = job ? "RESUMED" : "QUEUED";
+    job ??= await enqueueIngestJob(supabase, queue, schedule.kind, {
+      limit: schedule.limit,
+      staleBefore: staleBeforeFor(schedule, options?.now)
+    });
+    if (!job) {
+      return { pipeline: schedule.pipeline, status: "FRESH", job: null, processed: 0 };
+    }
+
+    const deadline = Date.now() + (options?.budgetMs ?? RUN_BUDGET_MS);
+    let processed = 0;
+    while (Date.now() < deadline) {
+      const chunk = await runIngestJobChunk(supabase, queue, job.id, { lock });
+      processed += chunk.processed;
+      job = chunk.job ?? job;
+      // Finished, cancelled, the lock expired and was taken over, or the remaining items are
+      // claimed by another worker.
+      if (chunk.job?.status !== "RUNNING" || chunk.processed === 0) {
+        break;
+      }
+    }
+    return { pipeline: schedule.pipeline, status, job, processed };
+  } finally {
+    await releaseIngestLock(supabase, lock);
+  }
+}
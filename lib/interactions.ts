@@ -0,0 +1,263 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { DrugClass, EvidenceGrade, InteractionSeverity, PeptideInteraction } from "@/lib/types";
+
+type InteractionTarget = {
+  kind: "peptide" | "drug_class";
+  id: number;
+  terms: string[];
+};
+
+export type LabelInteraction = {
+  target: InteractionTarget;
+  severity: InteractionSeverity;
+  mechanism: string;
+};
+
+export type MedicationMatch = {
+  input: string;
+  drugClass: DrugClass | null;
+};
+
+type LabelSyncInput = {
+  peptideId: number;
+  labelText: string;
+  citationId: number;
+};
+
+// Interactions stated in an FDA label rank as regulatory-grade evidence.
+const LABEL_EVIDENCE_GRADE: EvidenceGrade = "A";
+const MAX_MECHANISM_LENGTH = 400;
+
+export const SEVERITY_RANK: Record<InteractionSeverity, number> = {
+  MAJOR: 0,
+  MODERATE: 1,
+  MINOR: 2
+};
+
+const MAJOR_PATTERN = /\b(contraindicated|do not (?:use|coadminister|co-administer)|avoid (?:use|concomitant|coadministration)|serious|life-threatening|fatal)\b/i;
+const MODERATE_PATTERN = /\b(reduce|reduction|lower the dose|dose adjustment|adjust the dose|monitor|increased risk|risk of|hypoglyc(?:a)?emia|bleeding)\b/i;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function mentions(text: string, term: string): boolean {
+  return new RegExp(`(?:^|[^a-z0-9])${escapeRegExp(term)}(?:$|[^a-z0-9])`, "i").test(text);
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.;])\s+(?=[A-Z0-9(])/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1).trimEnd()}…`;
+}
+
+export function inferInteractionSeverity(text: string): InteractionSeverity {
+  if (MAJOR_PATTERN.test(text)) {
+    return "MAJOR";
+  }
+  if (MODERATE_PATTERN.test(text)) {
+    return "MODERATE";
+  }
+  return "MINOR";
+}
+
+export function extractLabelInteractions(labelText: string, targets: InteractionTarget[]): LabelInteraction[] {
+  const sentences = splitSentences(labelText);
+  const found: LabelInteraction[] = [];
+
+  for (const target of targets) {
+    const matched = sentences.filter((sentence) => target.terms.some((term) => term && mentions(sentence, term)));
+    if (matched.length === 0) {
+      continue;
+    }
+    const severity = matched
+      .map((sentence) => inferInteractionSeverity(sentence))
+      .sort((a, b) => SEVERITY_RANK[a] - SEVERITY_RANK[b])[0] ?? "MINOR";
+    found.push({ target, severity, mechanism: truncate(matched.join(" "), MAX_MECHANISM_LENGTH) });
+  }
+
+  return found;
+}
+
+// Free-text medication names map to a class by exact term first, then by containment, so
+// "glipizide 5 mg" still lands on sulfonylureas.
+export function matchMedications(inputs: string[], drugClasses: DrugClass[]): MedicationMatch[] {
+  return inputs
+    .map((input) => input.trim())
+    .filter(Boolean)
+    .map((input) => {
+      const lower = input.toLowerCase();
+      const exact = drugClasses.find(
+        (drugClass) => drugClass.slug === lower || drugClass.name.toLowerCase() === lower || drugClass.matchTerms.includes(lower)
+      );
+      const partial =
+        exact ??
+        drugClasses.find((drugClass) => drugClass.matchTerms.some((term) => term.length > 3 && mentions(lower, term)));
+      return { input, drugClass: partial ?? null };
+    });
+}
+
+// Keeps interactions whose both sides were selected. Peptide pairs recorded in both directions
+// collapse to the more severe row.
+export function flagInteractionPairs(
+  interactions: PeptideInteraction[],
+  peptideSlugs: string[],
+  drugClassSlugs: string[]
+): PeptideInteraction[] {
+  const byPair = new Map<string, PeptideInteraction>();
+
+  for (const interaction of interactions) {
+    if (!peptideSlugs.includes(interaction.peptideSlug)) {
+      continue;
+    }
+    const selected =
+      interaction.targetKind === "peptide"
+        ? peptideSlugs.includes(interaction.targetSlug)
+        : drugClassSlugs.includes(interaction.targetSlug);
+    if (!selected) {
+      continue;
+    }
+
+    const key =
+      interaction.targetKind === "peptide"
+        ? `peptide:${[interaction.peptideSlug, interaction.targetSlug].sort().join("|")}`
+        : `drug_class:${interaction.peptideSlug}|${interaction.targetSlug}`;
+    const existing = byPair.get(key);
+    if (
+      !existing ||
+      SEVERITY_RANK[interaction.severity] < SEVERITY_RANK[existing.severity] ||
+      (interaction.severity === existing.severity && interaction.source === "MANUAL" && existing.source !== "MANUAL")
+    ) {
+      byPair.set(key, interaction);
+    }
+  }
+
+  return Array.from(byPair.values()).sort(
+    (a, b) =>
+      SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+      a.peptideName.localeCompare(b.peptideName) ||
+      a.targetName.localeCompare(b.targetName)
+  );
+}
+
+async function loadInteractionTargets(supabase: SupabaseClient, peptideId: number): Promise<InteractionTarget[]> {
+  const [{ data: classRows, error: classError }, { data: peptideRows, error: peptideError }] = await Promise.all([
+    supabase.from("drug_classes").select("id,name,match_terms"),
+    supabase.from("peptides").select("id,canonical_name,peptide_aliases(alias)").neq("id", peptideId)
+  ]);
+  if (classError) {
+    throw new Error(classError.message);
+  }
+  if (peptideError) {
+    throw new Error(peptideError.message);
+  }
+
+  const classTargets = asArray(classRows)
+    .map((row) => asRecord(row))
+    .filter((row): row is Record<string, unknown> => row !== null)
+    .map((row) => ({
+      kind: "drug_class" as const,
+      id: Number(row.id ?? 0),
+      terms: [asString(row.name).toLowerCase(), ...asArray(row.match_terms).map((term) => asString(term).toLowerCase())]
+    }));
+  const peptideTargets = asArray(peptideRows)
+    .map((row) => asRecord(row))
+    .filter((row): row is Record<string, unknown> => row !== null)
+    .map((row) => ({
+      kind: "peptide" as const,
+      id: Number(row.id ?? 0),
+      terms: [
+        asString(row.canonical_name).toLowerCase(),
+        ...asArray(row.peptide_aliases).map((alias) => asString(asRecord(alias)?.alias).toLowerCase())
+      ]
+    }));
+
+  return [...classTargets, ...peptideTargets]
+    .map((target) => ({ ...target, terms: target.terms.filter((term) => term.length > 2) }))
+    .filter((target) => target.id > 0 && target.terms.length > 0);
+}
+
+// Replaces the label-derived rows for one peptide. Manually curated rows are never touched. Rows are
+// matched by target and updated in place, and only targets the label no longer mentions are deleted
+// afterwards, so a failure part-way leaves the previous rows rather than none.
+export async function syncLabelInteractions(supabase: SupabaseClient, input: LabelSyncInput): Promise<number> {
+  const targets = await loadInteractionTargets(supabase, input.peptideId);
+  const extracted = extractLabelInteractions(input.labelText, targets);
+
+  const { data: existingRows, error: existingError } = await supabase
+    .from("peptide_interactions")
+    .select("id,interacting_peptide_id,drug_class_id")
+    .eq("peptide_id", input.peptideId)
+    .eq("source", "OPENFDA_LABEL");
+  if (existingError) {
+    throw new Error(existingError.message);
+  }
+  const existingIdByTarget = new Map<string, number>();
+  for (const row of asArray(existingRows).map((entry) => asRecord(entry))) {
+    const peptideTargetId = Number(row?.interacting_peptide_id ?? 0);
+    const key = peptideTargetId > 0 ? `peptide:${peptideTargetId}` : `drug_class:${Number(row?.drug_class_id ?? 0)}`;
+    existingIdByTarget.set(key, Number(row?.id ?? 0));
+  }
+
+  const inserts: Record<string, unknown>[] = [];
+  const keptIds = new Set<number>();
+  for (const interaction of extracted) {
+    const payload = {
+      peptide_id: input.peptideId,
+      interacting_peptide_id: interaction.target.kind === "peptide" ? interaction.target.id : null,
+      drug_class_id: interaction.target.kind === "drug_class" ? interaction.target.id : null,
+      severity: interaction.severity,
+      mechanism: interaction.mechanism,
+      evidence_grade: LABEL_EVIDENCE_GRADE,
+      citation_id: input.citationId,
+      source: "OPENFDA_LABEL"
+    };
+    const existingId = existingIdByTarget.get(`${interaction.target.kind}:${interaction.target.id}`) ?? 0;
+    if (existingId <= 0) {
+      inserts.push(payload);
+      continue;
+    }
+    keptIds.add(existingId);
+    const { error: updateError } = await supabase
+      .from("peptide_interactions")
+      .update({ ...payload, updated_at: new Date().toISOString() })
+      .eq("id", existingId);
+    if (updateError) {
+      throw new Error(updateError.message);
+    }
+  }
+
+  if (inserts.length > 0) {
+    const { error: insertError } = await supabase.from("peptide_interactions").insert(inserts);
+    if (insertError) {
+      throw new Error(insertError.message);
+    }
+  }
+
+  const staleIds = Array.from(existingIdByTarget.values()).filter((id) => id > 0 && !keptIds.has(id));
+  if (staleIds.length > 0) {
+    const { error: deleteError } = await supabase.from("peptide_interactions").delete().in("id", staleIds);
+    if (deleteError) {
+      throw new Error(deleteError.message);
+    }
+  }
+  return extracted.length;
+}
@@ -0,0 +1,628 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type IngestJobStatus = "QUEUED" | "RUNNING" | "COMPLETED" | "FAILED" | "CANCELLED";
+
+export type IngestJobItemStatus = "PENDING" | "RUNNING" | "SUCCEEDED" | "FAILED" | "CANCELLED";
+
+export type JobCounters = Record<string, number>;
+
+export type IngestJob = {
+  id: number;
+  kind: string;
+  status: IngestJobStatus;
+  params: Record<string, unknown>;
+  chunkSize: number;
+  totalItems: number;
+  processedItems: number;
+  failedItems: number;
+  counters: JobCounters;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  updatedAt: string;
+};
+
+export type IngestJobItem = {
+  id: number;
+  jobId: number;
+  position: number;
+  itemKey: string;
+  label: string;
+  status: IngestJobItemStatus;
+  attempts: number;
+  counters: JobCounters;
+  error: string | null;
+  claimedAt: string | null;
+  finishedAt: string | null;
+};
+
+export type IngestJobItemInput = {
+  key: string;
+  label: string;
+};
+
+export type EnqueueJobInput = {
+  kind: string;
+  params?: Record<string, unknown>;
+  chunkSize: number;
+  items: IngestJobItemInput[];
+};
+
+// Storage for ingest jobs. Workers call startJob, then claimItems/completeItem until nothing is
+// left, then finishJob. Every transition is conditional on the current status so a job cancelled
+// from the admin page stops at the next item boundary, whichever worker is running it.
+export type JobQueue = {
+  backend: "postgres" | "memory";
+  enqueue(input: EnqueueJobInput): Promise<IngestJob>;
+  getJob(jobId: number): Promise<IngestJob | null>;
+  listJobs(limit?: number): Promise<IngestJob[]>;
+  listItems(jobId: number, status?: IngestJobItemStatus): Promise<IngestJobItem[]>;
+  nextActiveJob(): Promise<IngestJob | null>;
+  findActiveJob(kind: string): Promise<IngestJob | null>;
+  startJob(jobId: number): Promise<IngestJob | null>;
+  claimItems(jobId: number, limit: number): Promise<IngestJobItem[]>;
+  completeItem(itemId: number, outcome: "SUCCEEDED" | "FAILED", counters: JobCounters, error: string | null): Promise<boolean>;
+  finishJob(jobId: number, status: "COMPLETED" | "FAILED", error?: string | null): Promise<IngestJob | null>;
+  retryFailed(jobId: number): Promise<IngestJob>;
+  cancel(jobId: number): Promise<IngestJob>;
+};
+
+export const ACTIVE_JOB_STATUSES: IngestJobStatus[] = ["QUEUED", "RUNNING"];
+
+const FINISHED_JOB_STATUSES: IngestJobStatus[] = ["COMPLETED", "FAILED", "CANCELLED"];
+const JOB_STATUSES: IngestJobStatus[] = [...ACTIVE_JOB_STATUSES, ...FINISHED_JOB_STATUSES];
+const ITEM_STATUSES: IngestJobItemStatus[] = ["PENDING", "RUNNING", "SUCCEEDED", "FAILED", "CANCELLED"];
+const DEFAULT_LIST_LIMIT = 25;
+// Matches claim_ingest_job_items: a claim older than this belongs to a worker that timed out.
+const STALE_CLAIM_MS = 15 * 60 * 1000;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function asNumber(value: unknown): number {
+  const parsed = typeof value === "number" ? value : Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function asCounters(value: unknown): JobCounters {
+  const record = asRecord(value);
+  if (!record) {
+    return {};
+  }
+  const counters: JobCounters = {};
+  for (const [key, entry] of Object.entries(record)) {
+    counters[key] = asNumber(entry);
+  }
+  return counters;
+}
+
+export function sumCounters(total: JobCounters, next: JobCounters): JobCounters {
+  const merged = { ...total };
+  for (const [key, value] of Object.entries(next)) {
+    merged[key] = (merged[key] ?? 0) + value;
+  }
+  return merged;
+}
+
+function mapJobRow(row: unknown): IngestJob | null {
+  const record = asRecord(row);
+  const id = asNumber(record?.id);
+  const status = asString(record?.status) as IngestJobStatus;
+  if (!record || id <= 0 || !JOB_STATUSES.includes(status)) {
+    return null;
+  }
+  return {
+    id,
+    kind: asString(record.kind),
+    status,
+    params: asRecord(record.params) ?? {},
+    chunkSize: Math.max(1, asNumber(record.chunk_size)),
+    totalItems: asNumber(record.total_items),
+    processedItems: asNumber(record.processed_items),
+    failedItems: asNumber(record.failed_items),
+    counters: asCounters(record.counters),
+    error: asString(record.error) || null,
+    createdAt: asString(record.created_at),
+    startedAt: asString(record.started_at) || null,
+    finishedAt: asString(record.finished_at) || null,
+    updatedAt: asString(record.updated_at)
+  };
+}
+
+function mapItemRow(row: unknown): IngestJobItem | null {
+  const record = asRecord(row);
+  const id = asNumber(record?.id);
+  const status = asString(record?.status) as IngestJobItemStatus;
+  if (!record || id <= 0 || !ITEM_STATUSES.includes(status)) {
+    return null;
+  }
+  return {
+    id,
+    jobId: asNumber(record.job_id),
+    position: asNumber(record.position),
+    itemKey: asString(record.item_key),
+    label: asString(record.label),
+    status,
+    attempts: asNumber(record.attempts),
+    counters: asCounters(record.counters),
+    error: asString(record.error) || null,
+    claimedAt: asString(record.claimed_at) || null,
+    finishedAt: asString(record.finished_at) || null
+  };
+}
+
+function missingTableError(message: string): Error {
+  if (message.includes("ingest_job")) {
+    return new Error("Missing ingest_jobs tables. Re-run db/bootstrap.sql and try again.");
+  }
+  return new Error(message);
+}
+
+// ingest_jobs_one_active_per_kind_idx turns a second active job of the same kind into a unique violation.
+// Matched by name: a duplicate item key is a unique violation too.
+function activeJobConflictError(kind: string, error: { message: string }): Error | null {
+  if (error.message.includes("ingest_jobs_one_active_per_kind_idx")) {
+    return new Error(`A ${kind} job is already queued or running.`);
+  }
+  return null;
+}
+
+export class PostgresJobQueue implements JobQueue {
+  backend: JobQueue["backend"] = "postgres";
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async enqueue(input: EnqueueJobInput): Promise<IngestJob> {
+    // One transaction for the job and its items (enqueue_ingest_job in db/bootstrap.sql).
+    const { data, error } = await this.supabase.rpc("enqueue_ingest_job", {
+      job_kind: input.kind,
+      job_params: input.params ?? {},
+      job_chunk_size: Math.max(1, input.chunkSize),
+      job_items: input.items.map((item) => ({ key: item.key, label: item.label }))
+    });
+    if (error) {
+      if (error.message.includes("enqueue_ingest_job")) {
+        throw new Error("Missing enqueue_ingest_job function. Re-run db/bootstrap.sql and try again.");
+      }
+      throw activeJobConflictError(input.kind, error) ?? missingTableError(error.message);
+    }
+    const job = mapJobRow(data);
+    if (!job) {
+      throw new Error("Failed to create ingest job.");
+    }
+    return job;
+  }
+
+  async getJob(jobId: number): Promise<IngestJob | null> {
+    const { data, error } = await this.supabase.from("ingest_jobs").select("*").eq("id", jobId).maybeSingle();
+    if (error) {
+      throw missingTableError(error.message);
+    }
+    return mapJobRow(data);
+  }
+
+  async listJobs(limit = DEFAULT_LIST_LIMIT): Promise<IngestJob[]> {
+    const { data, error } = await this.supabase
+      .from("ingest_jobs")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(limit);
+    if (error) {
+      throw missingTableError(error.message);
+    }
+    return (data ?? []).map(mapJobRow).filter((job): job is IngestJob => job !== null);
+  }
+
+  async listItems(jobId: number, status?: IngestJobItemStatus): Promise<IngestJobItem[]> {
+    let query = this.supabase.from("ingest_job_items").select("*").eq("job_id", jobId).order("position", { ascending: true });
+    if (status) {
+      query = query.eq("status", status);
+    }
+    const { data, error } = await query;
+    if (error) {
+      throw missingTableError(error.message);
+    }
+    return (data ?? []).map(mapItemRow).filter((item): item is IngestJobItem => item !== null);
+  }
+
+  async nextActiveJob(): Promise<IngestJob | null> {
+    // Finish what is already running before starting anything new.
+    for (const status of ["RUNNING", "QUEUED"] as const) {
+      const { data, error } = await this.supabase
+        .from("ingest_jobs")
+        .select("*")
+        .eq("status", status)
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      if (error) {
+        throw missingTableError(error.message);
+      }
+      const job = mapJobRow(data);
+      if (job) {
+        return job;
+      }
+    }
+    return null;
+  }
+
+  async findActiveJob(kind: string): Promise<IngestJob | null> {
+    const { data, error } = await this.supabase
+      .from("ingest_jobs")
+      .select("*")
+      .eq("kind", kind)
+      .in("status", ACTIVE_JOB_STATUSES)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+    if (error) {
+      throw missingTableError(error.message);
+    }
+    return mapJobRow(data);
+  }
+
+  async startJob(jobId: number): Promise<IngestJob | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from("ingest_jobs")
+      .update({ status: "RUNNING", started_at: now, updated_at: now })
+      .eq("id", jobId)
+      .eq("status", "QUEUED")
+      .select("*")
+      .maybeSingle();
+    if (error) {
+      throw new Error(error.message);
+    }
+    return mapJobRow(data);
+  }
+
+  async claimItems(jobId: number, limit: number): Promise<IngestJobItem[]> {
+    const { data, error } = await this.supabase.rpc("claim_ingest_job_items", {
+      target_job_id: jobId,
+      max_items: Math.max(1, limit)
+    });
+    if (error) {
+      if (error.message.includes("claim_ingest_job_items")) {
+        throw new Error("Missing claim_ingest_job_items function. Re-run db/bootstrap.sql and try again.");
+      }
+      throw new Error(error.message);
+    }
+    return (Array.isArray(data) ? data : [])
+      .map(mapItemRow)
+      .filter((item): item is IngestJobItem => item !== null)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async completeItem(
+    itemId: number,
+    outcome: "SUCCEEDED" | "FAILED",
+    counters: JobCounters,
+    error: string | null
+  ): Promise<boolean> {
+    const { data, error: rpcError } = await this.supabase.rpc("complete_ingest_job_item", {
+      target_item_id: itemId,
+      outcome,
+      item_counters: counters,
+      item_error: error
+    });
+    if (rpcError) {
+      throw new Error(rpcError.message);
+    }
+    return data === true;
+  }
+
+  async finishJob(jobId: number, status: "COMPLETED" | "FAILED", error: string | null = null): Promise<IngestJob | null> {
+    const now = new Date().toISOString();
+    const { data, error: updateError } = await this.supabase
+      .from("ingest_jobs")
+      .update({ status, error, finished_at: now, updated_at: now })
+      .eq("id", jobId)
+      .eq("status", "RUNNING")
+      .select("*")
+      .maybeSingle();
+    if (updateError) {
+      throw new Error(updateError.message);
+    }
+    return mapJobRow(data);
+  }
+
+  async retryFailed(jobId: number): Promise<IngestJob> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      throw new Error(`Ingest job ${jobId} not found.`);
+    }
+    if (!FINISHED_JOB_STATUSES.includes(job.status)) {
+      throw new Error("Only finished jobs can be retried.");
+    }
+
+    const { error: resetError } = await this.supabase
+      .from("ingest_job_items")
+      .update({ status: "PENDING", counters: {}, error: null, claimed_at: null, finished_at: null })
+      .eq("job_id", jobId)
+      .in("status", ["FAILED", "CANCELLED"]);
+    if (resetError) {
+      throw new Error(resetError.message);
+    }
+
+    // Totals are rebuilt from the items that stay done so retried items are not counted twice.
+    const succeeded = await this.listItems(jobId, "SUCCEEDED");
+    const { data, error } = await this.supabase
+      .from("ingest_jobs")
+      .update({
+        status: "QUEUED",
+        processed_items: succeeded.length,
+        failed_items: 0,
+        counters: succeeded.reduce((total, item) => sumCounters(total, item.counters), {} as JobCounters),
+        error: null,
+        started_at: null,
+        finished_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq("id", jobId)
+      .in("status", FINISHED_JOB_STATUSES)
+      .select("*")
+      .maybeSingle();
+    const retried = mapJobRow(data);
+    if (error || !retried) {
+      throw (error && activeJobConflictError(job.kind, error)) ?? new Error(error?.message ?? "Ingest job changed while retrying. Reload and try again.");
+    }
+    return retried;
+  }
+
+  async cancel(jobId: number): Promise<IngestJob> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from("ingest_jobs")
+      .update({ status: "CANCELLED", finished_at: now, updated_at: now })
+      .eq("id", jobId)
+      .in("status", ACTIVE_JOB_STATUSES)
+      .select("*")
+      .maybeSingle();
+    if (error) {
+      throw new Error(error.message);
+    }
+    const job = mapJobRow(data);
+    if (!job) {
+      throw new Error("Only queued or running jobs can be cancelled.");
+    }
+
+    const { error: itemsError } = await this.supabase
+      .from("ingest_job_items")
+      .update({ status: "CANCELLED", finished_at: now })
+      .eq("job_id", jobId)
+      .in("status", ["PENDING", "RUNNING"]);
+    if (itemsError) {
+      throw new Error(itemsError.message);
+    }
+    return job;
+  }
+}
+
+// Process-local queue for scripts and tests. Jobs do not survive a restart and are not shared
+// between serverless instances, so it is only selected explicitly via INGEST_QUEUE_BACKEND=memory.
+export class InMemoryJobQueue implements JobQueue {
+  backend: JobQueue["backend"] = "memory";
+
+  private readonly jobs = new Map<number, IngestJob>();
+  private readonly items = new Map<number, IngestJobItem>();
+  private nextJobId = 1;
+  private nextItemId = 1;
+
+  async enqueue(input: EnqueueJobInput): Promise<IngestJob> {
+    await this.assertNoActiveJob(input.kind);
+    // Mirrors UNIQUE (job_id, item_key); checked before anything is stored so a rejected job leaves no trace.
+    const seenKeys = new Set<string>();
+    for (const item of input.items) {
+      if (seenKeys.has(item.key)) {
+        throw new Error(`Duplicate ingest job item key: ${item.key}`);
+      }
+      seenKeys.add(item.key);
+    }
+    const now = new Date().toISOString();
+    const job: IngestJob = {
+      id: this.nextJobId++,
+      kind: input.kind,
+      status: "QUEUED",
+      params: input.params ?? {},
+      chunkSize: Math.max(1, input.chunkSize),
+      totalItems: input.items.length,
+      processedItems: 0,
+      failedItems: 0,
+      counters: {},
+      error: null,
+      createdAt: now,
+      startedAt: null,
+      finishedAt: null,
+      updatedAt: now
+    };
+    this.jobs.set(job.id, job);
+
+    input.items.forEach((item, position) => {
+      const id = this.nextItemId++;
+      this.items.set(id, {
+        id,
+        jobId: job.id,
+        position,
+        itemKey: item.key,
+        label: item.label,
+        status: "PENDING",
+        attempts: 0,
+        counters: {},
+        error: null,
+        claimedAt: null,
+        finishedAt: null
+      });
+    });
+    return { ...job };
+  }
+
+  async getJob(jobId: number): Promise<IngestJob | null> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : null;
+  }
+
+  async listJobs(limit = DEFAULT_LIST_LIMIT): Promise<IngestJob[]> {
+    return Array.from(this.jobs.values())
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit)
+      .map((job) => ({ ...job }));
+  }
+
+  async listItems(jobId: number, status?: IngestJobItemStatus): Promise<IngestJobItem[]> {
+    return this.itemsFor(jobId)
+      .filter((item) => !status || item.status === status)
+      .map((item) => ({ ...item }));
+  }
+
+  async nextActiveJob(): Promise<IngestJob | null> {
+    const ordered = Array.from(this.jobs.values()).sort((a, b) => a.id - b.id);
+    const job = ordered.find((entry) => entry.status === "RUNNING") ?? ordered.find((entry) => entry.status === "QUEUED");
+    return job ? { ...job } : null;
+  }
+
+  async findActiveJob(kind: string): Promise<IngestJob | null> {
+    const job = Array.from(this.jobs.values())
+      .sort((a, b) => a.id - b.id)
+      .find((entry) => entry.kind === kind && ACTIVE_JOB_STATUSES.includes(entry.status));
+    return job ? { ...job } : null;
+  }
+
+  async startJob(jobId: number): Promise<IngestJob | null> {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== "QUEUED") {
+      return null;
+    }
+    const now = new Date().toISOString();
+    Object.assign(job, { status: "RUNNING", startedAt: now, updatedAt: now });
+    return { ...job };
+  }
+
+  async claimItems(jobId: number, limit: number): Promise<IngestJobItem[]> {
+    if (this.jobs.get(jobId)?.status !== "RUNNING") {
+      return [];
+    }
+    const staleBefore = Date.now() - STALE_CLAIM_MS;
+    const now = new Date().toISOString();
+    return this.itemsFor(jobId)
+      .filter(
+        (item) =>
+          item.status === "PENDING" ||
+          (item.status === "RUNNING" && item.claimedAt !== null && Date.parse(item.claimedAt) < staleBefore)
+      )
+      .slice(0, Math.max(1, limit))
+      .map((item) => {
+        Object.assign(item, { status: "RUNNING", attempts: item.attempts + 1, claimedAt: now });
+        return { ...item };
+      });
+  }
+
+  async completeItem(
+    itemId: number,
+    outcome: "SUCCEEDED" | "FAILED",
+    counters: JobCounters,
+    error: string | null
+  ): Promise<boolean> {
+    const item = this.items.get(itemId);
+    const job = item ? this.jobs.get(item.jobId) : undefined;
+    if (!item || !job || item.status !== "RUNNING") {
+      return false;
+    }
+    const now = new Date().toISOString();
+    Object.assign(item, { status: outcome, counters: { ...counters }, error, finishedAt: now });
+    Object.assign(job, {
+      processedItems: job.processedItems + 1,
+      failedItems: job.failedItems + (outcome === "FAILED" ? 1 : 0),
+      counters: sumCounters(job.counters, counters),
+      updatedAt: now
+    });
+    return true;
+  }
+
+  async finishJob(jobId: number, status: "COMPLETED" | "FAILED", error: string | null = null): Promise<IngestJob | null> {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== "RUNNING") {
+      return null;
+    }
+    const now = new Date().toISOString();
+    Object.assign(job, { status, error, finishedAt: now, updatedAt: now });
+    return { ...job };
+  }
+
+  async retryFailed(jobId: number): Promise<IngestJob> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Ingest job ${jobId} not found.`);
+    }
+    if (!FINISHED_JOB_STATUSES.includes(job.status)) {
+      throw new Error("Only finished jobs can be retried.");
+    }
+    await this.assertNoActiveJob(job.kind);
+
+    const items = this.itemsFor(jobId);
+    for (const item of items) {
+      if (item.status === "FAILED" || item.status === "CANCELLED") {
+        Object.assign(item, { status: "PENDING", counters: {}, error: null, claimedAt: null, finishedAt: null });
+      }
+    }
+    const succeeded = items.filter((item) => item.status === "SUCCEEDED");
+    Object.assign(job, {
+      status: "QUEUED",
+      processedItems: succeeded.length,
+      failedItems: 0,
+      counters: succeeded.reduce((total, item) => sumCounters(total, item.counters), {} as JobCounters),
+      error: null,
+      startedAt: null,
+      finishedAt: null,
+      updatedAt: new Date().toISOString()
+    });
+    return { ...job };
+  }
+
+  async cancel(jobId: number): Promise<IngestJob> {
+    const job = this.jobs.get(jobId);
+    if (!job || !ACTIVE_JOB_STATUSES.includes(job.status)) {
+      throw new Error("Only queued or running jobs can be cancelled.");
+    }
+    const now = new Date().toISOString();
+    Object.assign(job, { status: "CANCELLED", finishedAt: now, updatedAt: now });
+    for (const item of this.itemsFor(jobId)) {
+      if (item.status === "PENDING" || item.status === "RUNNING") {
+        Object.assign(item, { status: "CANCELLED", finishedAt: now });
+      }
+    }
+    return { ...job };
+  }
+
+  // Mirrors ingest_jobs_one_active_per_kind_idx.
+  private async assertNoActiveJob(kind: string): Promise<void> {
+    if (await this.findActiveJob(kind)) {
+      throw new Error(`A ${kind} job is already queued or running.`);
+    }
+  }
+
+  private itemsFor(jobId: number): IngestJobItem[] {
+    return Array.from(this.items.values())
+      .filter((item) => item.jobId === jobId)
+      .sort((a, b) => a.position - b.position);
+  }
+}
+
+let memoryQueue: InMemoryJobQueue | null = null;
+
+// Postgres unless INGEST_QUEUE_BACKEND=memory. Another backend (e.g. Redis) only has to implement JobQueue.
+export function getJobQueue(supabase: SupabaseClient): JobQueue {
+  if (process.env.INGEST_QUEUE_BACKEND === "memory") {
+    memoryQueue ??= new InMemoryJobQueue();
+    return memoryQueue;
+  }
+  return new PostgresJobQueue(supabase);
+}
@@ -1,14 +1,23 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
-import { toHumanReadableSourceUrl } from "@/lib/reference-sources";
+import { findOrCreateCitation } from "@/lib/citations";
+import { recordContentChanges } from "@/lib/content-changes";
+import { gradePublication, gradeTrial } from "@/lib/evidence-grading";
+import { errorMessage, type IngestAudit, type IngestSourceOutcome } from "@/lib/ingest-runs";
+import { fetchSourceJson } from "@/lib/source-client";
 import type { EvidenceGrade } from "@/lib/types";
 
 type LiveClaimCandidate = {
   section: "Live Research (PubMed)" | "Live Research (ClinicalTrials)";
   claimText: string;
   evidenceGrade: EvidenceGrade;
+  gradeRationale: string;
   sourceUrl: string;
   sourceTitle: string;
   publishedAt: string;
+  authors?: string[];
+  journal?: string;
+  doi?: string | null;
+  enrollment?: number | null;
 };
 
 type RefreshRow = {
@@ -56,46 +65,11 @@ function toIsoDate(value: string): string {
   return year ? `${year}-01-01` : new Date().toISOString().slice(0, 10);
 }
 
-function inferPubmedGrade(title: string): EvidenceGrade {
-  const lower = title.toLowerCase();
-  if (
-    lower.includes("meta-analysis") ||
-    lower.includes("systematic review") ||
-    lower.includes("randomized") ||
-    lower.includes("randomised") ||
-    lower.includes("phase 3")
-  ) {
-    return "B";
-  }
-  return "C";
-}
-
-function inferTrialsGrade(studyType: string, overallStatus: string): EvidenceGrade {
-  const normalizedType = studyType.toUpperCase();
-  const normalizedStatus = overallStatus.toUpperCase();
-  if (normalizedType.includes("INTERVENTIONAL") && normalizedStatus.includes("COMPLETED")) {
-    return "B";
-  }
-  return "C";
-}
-
-async function fetchJson(url: string): Promise<unknown> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 15_000);
-  try {
-    const response = await fetch(url, {
-      method: "GET",
-      headers: { accept: "application/json" },
-      cache: "no-store",
-      signal: controller.signal
-    });
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status} from ${url}`);
-    }
-    return await response.json();
-  } finally {
-    clearTimeout(timeout);
+function settledSource(source: string, result: PromiseSettledResult<LiveClaimCandidate[]>): IngestSourceOutcome {
+  if (result.status === "rejected") {
+    return { source, status: "FAILED", detail: errorMessage(result.reason) };
   }
+  return { source, status: result.value.length > 0 ? "HIT" : "MISS" };
 }
 
 async function getRecentPubmedClaims(peptideName: string, maxItems: number): Promise<LiveClaimCandidate[]> {
@@ -112,7 +86,7 @@ async function getRecentPubmedClaims(peptideName: string, maxItems: number): Pro
   }
 
   const searchUrl = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi?${searchParams.toString()}`;
-  const searchData = asRecord(await fetchJson(searchUrl));
+  const searchData = asRecord(await fetchSourceJson(searchUrl));
   const searchResult = asRecord(searchData?.esearchresult);
   const ids = Array.isArray(searchResult?.idlist)
     ? searchResult?.idlist.map((value) => asString(value)).filter((value) => value.length > 0)
@@ -132,7 +106,7 @@ async function getRecentPubmedClaims(peptideName: string, maxItems: number): Pro
   }
 
   const summaryUrl = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi?${summaryParams.toString()}`;
-  const summaryData = asRecord(await fetchJson(summaryUrl));
+  const summaryData = asRecord(await fetchSourceJson(summaryUrl));
   const summaryResult = asRecord(summaryData?.result);
 
   const claims: LiveClaimCandidate[] = [];
@@ -146,13 +120,24 @@ async function getRecentPubmedClaims(peptideName: string, maxItems: number): Pro
       continue;
     }
     const pubDate = toIsoDate(asString(entry.pubdate));
+    const articleIds = Array.isArray(entry.articleids) ? entry.articleids.map((item) => asRecord(item)) : [];
+    const assessment = gradePublication({
+      publicationTypes: Array.isArray(entry.pubtype) ? entry.pubtype.map((type) => asString(type)) : [],
+      title: asString(entry.title)
+    });
     claims.push({
       section: PUBMED_SECTION,
       claimText: `Recent PubMed publication (PMID ${id}) reports "${title}".`,
-      evidenceGrade: inferPubmedGrade(title),
+      evidenceGrade: assessment.grade,
+      gradeRationale: assessment.rationale,
       sourceUrl: `https://pubmed.ncbi.nlm.nih.gov/${encodeURIComponent(id)}/`,
-      sourceTitle: `PubMed PMID ${id}`,
-      publishedAt: pubDate
+      sourceTitle: asString(entry.title).trim() || `PubMed PMID ${id}`,
+      publishedAt: pubDate,
+      authors: Array.isArray(entry.authors)
+        ? entry.authors.map((author) => asString(asRecord(author)?.name)).filter(Boolean)
+        : [],
+      journal: asString(entry.fulljournalname) || asString(entry.source),
+      doi: asString(articleIds.find((item) => asString(item?.idtype) === "doi")?.value) || null
     });
   }
 
@@ -167,7 +152,7 @@ async function getRecentClinicalTrialsClaims(peptideName: string, maxItems: numb
   });
 
   const url = `https://clinicaltrials.gov/api/v2/studies?${params.toString()}`;
-  const data = asRecord(await fetchJson(url));
+  const data = asRecord(await fetchSourceJson(url));
   const studies = Array.isArray(data?.studies) ? data.studies : [];
 
   const claims: LiveClaimCandidate[] = [];
@@ -185,69 +170,36 @@ async function getRecentClinicalTrialsClaims(peptideName: string, maxItems: numb
       asRecord(statusModule?.lastUpdatePostDateStruct) ?? asRecord(statusModule?.lastUpdateSubmitDateStruct);
     const updatedDate = toIsoDate(asString(updateStruct?.date));
     const studyType = asString(designModule?.studyType);
+    const enrollmentCount = asRecord(designModule?.enrollmentInfo)?.count;
+    const enrollment = typeof enrollmentCount === "number" ? enrollmentCount : null;
 
     if (!nctId || !briefTitle) {
       continue;
     }
 
     const statusText = overallStatus || "Status not reported";
+    const assessment = gradeTrial({
+      studyType,
+      phases: Array.isArray(designModule?.phases) ? designModule.phases.map((phase) => asString(phase)) : [],
+      overallStatus,
+      enrollment,
+      hasResults: studyRecord?.hasResults === true
+    });
     claims.push({
       section: CLINICAL_TRIALS_SECTION,
       claimText: `ClinicalTrials.gov study ${nctId} ("${briefTitle}") is listed as ${statusText}.`,
-      evidenceGrade: inferTrialsGrade(studyType, statusText),
+      evidenceGrade: assessment.grade,
+      gradeRationale: assessment.rationale,
       sourceUrl: `https://clinicaltrials.gov/study/${encodeURIComponent(nctId)}`,
       sourceTitle: `ClinicalTrials.gov ${nctId}`,
-      publishedAt: updatedDate
+      publishedAt: updatedDate,
+      enrollment
     });
   }
 
   return claims;
 }
 
-async function findOrCreateCitationId(supabase: SupabaseClient, claim: LiveClaimCandidate): Promise<number> {
-  const normalizedSourceUrl = toHumanReadableSourceUrl(claim.sourceUrl);
-  if (!normalizedSourceUrl) {
-    throw new Error("Missing or invalid live citation URL.");
-  }
-
-  const { data: existingRows, error: existingError } = await supabase
-    .from("citations")
-    .select("id,source_title")
-    .eq("source_url", normalizedSourceUrl)
-    .eq("published_at", claim.publishedAt)
-    .order("id", { ascending: false })
-    .limit(1);
-
-  if (existingError) {
-    throw new Error(existingError.message);
-  }
-
-  const existing = Array.isArray(existingRows) ? existingRows[0] : null;
-  const existingId = Number(existing?.id ?? 0);
-  if (existingId) {
-    const existingTitle = asString(existing?.source_title);
-    if (!existingTitle && claim.sourceTitle) {
-      await supabase.from("citations").update({ source_title: claim.sourceTitle }).eq("id", existingId);
-    }
-    return existingId;
-  }
-
-  const { data: inserted, error: insertError } = await supabase
-    .from("citations")
-    .insert({
-      source_url: normalizedSourceUrl,
-      source_title: claim.sourceTitle,
-      published_at: claim.publishedAt
-    })
-    .select("id")
-    .single();
-
-  if (insertError || !inserted?.id) {
-    throw new Error(insertError?.message ?? "Failed to insert citation.");
-  }
-  return Number(inserted.id);
-}
-
 async function upsertLiveClaimsForPeptide(
   supabase: SupabaseClient,
   peptideId: number,
@@ -257,6 +209,16 @@ async function upsertLiveClaimsForPeptide(
     return 0;
   }
 
+  const { data: previousRows, error: previousError } = await supabase
+    .from("peptide_claims")
+    .select("claim_text")
+    .eq("peptide_id", peptideId)
+    .in("section", LIVE_SECTIONS);
+  if (previousError) {
+    throw new Error(previousError.message);
+  }
+  const previousTexts = new Set((previousRows ?? []).map((row) => asString(row.claim_text)));
+
   const { error: clearError } = await supabase
     .from("peptide_claims")
     .delete()
@@ -269,12 +231,13 @@ async function upsertLiveClaimsForPeptide(
 
   let insertedCount = 0;
   for (const claim of claims) {
-    const citationId = await findOrCreateCitationId(supabase, claim);
+    const citationId = await findOrCreateCitation(supabase, claim);
     const { error: insertError } = await supabase.from("peptide_claims").insert({
       peptide_id: peptideId,
       section: claim.section,
       claim_text: claim.claimText,
       evidence_grade: claim.evidenceGrade,
+      grade_rationale: claim.gradeRationale,
       citation_id: citationId
     });
     if (insertError) {
@@ -283,18 +246,44 @@ async function upsertLiveClaimsForPeptide(
     insertedCount += 1;
   }
 
+  // Only newly surfaced studies go to the feed; claims rotating out of the live window are not news.
+  await recordContentChanges(
+    supabase,
+    "LIVE_EVIDENCE",
+    claims
+      .filter((claim) => !previousTexts.has(claim.claimText))
+      .map((claim) => ({
+        entityType: "CLAIM",
+        peptideId,
+        field: `Evidence claim added (${claim.section})`,
+        next: `Grade ${claim.evidenceGrade}: ${claim.claimText}`
+      }))
+  );
+
   return insertedCount;
 }
 
-async function loadPeptidesForRefresh(supabase: SupabaseClient, batchSize: number): Promise<RefreshRow[]> {
-  const { data, error } = await supabase
+async function loadPeptidesForRefresh(
+  supabase: SupabaseClient,
+  batchSize: number,
+  peptideIds: number[] = [],
+  staleBefore?: string
+): Promise<RefreshRow[]> {
+  let query = supabase
     .from("peptides")
     .select("id,canonical_name,last_live_refresh_at")
     .eq("is_published", true)
     .order("last_live_refresh_at", { ascending: true, nullsFirst: true })
     .order("id", { ascending: true })
     .limit(batchSize);
+  if (peptideIds.length > 0) {
+    query = query.in("id", peptideIds);
+  }
+  if (staleBefore) {
+    query = query.or(`last_live_refresh_at.is.null,last_live_refresh_at.lt."${staleBefore}"`);
+  }
 
+  const { data, error } = await query;
   if (error) {
     if (error.message.includes("last_live_refresh_at")) {
       throw new Error("Missing peptides.last_live_refresh_at. Re-run db/bootstrap.sql and try again.");
@@ -310,13 +299,22 @@ async function loadPeptidesForRefresh(supabase: SupabaseClient, batchSize: numbe
     .filter((row) => row.id > 0 && row.canonicalName.length > 0);
 }
 
+export async function listLiveEvidenceTargets(
+  supabase: SupabaseClient,
+  limit: number,
+  staleBefore?: string
+): Promise<Array<{ id: number; canonicalName: string }>> {
+  return loadPeptidesForRefresh(supabase, Math.max(1, limit), [], staleBefore);
+}
+
 export async function refreshLiveEvidenceClaims(
   supabase: SupabaseClient,
-  options?: { batchSize?: number; sourcesPerPeptide?: number }
+  options?: { batchSize?: number; sourcesPerPeptide?: number; peptideIds?: number[]; audit?: IngestAudit }
 ): Promise<RefreshResult> {
-  const batchSize = Math.max(1, Math.min(50, Number(options?.batchSize ?? 12)));
+  const peptideIds = options?.peptideIds ?? [];
+  const batchSize = peptideIds.length || Math.max(1, Math.min(50, Number(options?.batchSize ?? 12)));
   const sourcesPerPeptide = Math.max(1, Math.min(3, Number(options?.sourcesPerPeptide ?? 2)));
-  const rows = await loadPeptidesForRefresh(supabase, batchSize);
+  const rows = await loadPeptidesForRefresh(supabase, batchSize, peptideIds);
 
   let peptidesScanned = 0;
   let claimsUpserted = 0;
@@ -325,23 +323,47 @@ export async function refreshLiveEvidenceClaims(
 
   for (const row of rows) {
     peptidesScanned += 1;
+    const startedAt = Date.now();
+    const sources: IngestSourceOutcome[] = [];
+    let upserted = 0;
+    let itemError: string | null = null;
     try {
-      const [pubmedClaims, trialClaims] = await Promise.all([
+      const [pubmedResult, trialResult] = await Promise.allSettled([
         getRecentPubmedClaims(row.canonicalName, sourcesPerPeptide),
         getRecentClinicalTrialsClaims(row.canonicalName, sourcesPerPeptide)
       ]);
+      sources.push(settledSource("PUBMED", pubmedResult), settledSource("CLINICALTRIALS", trialResult));
+      if (pubmedResult.status === "rejected") {
+        throw pubmedResult.reason;
+      }
+      if (trialResult.status === "rejected") {
+        throw trialResult.reason;
+      }
 
-      const claims = [...pubmedClaims, ...trialClaims];
+      const claims = [...pubmedResult.value, ...trialResult.value];
       if (claims.length === 0) {
         peptidesWithNoHits += 1;
       } else {
-        claimsUpserted += await upsertLiveClaimsForPeptide(supabase, row.id, claims);
+        upserted = await upsertLiveClaimsForPeptide(supabase, row.id, claims);
+        claimsUpserted += upserted;
       }
 
       await supabase.from("peptides").update({ last_live_refresh_at: new Date().toISOString() }).eq("id", row.id);
-    } catch {
+    } catch (error) {
       failures += 1;
+      itemError = errorMessage(error);
     }
+
+    await options?.audit?.record({
+      entityType: "PEPTIDE",
+      entityKey: String(row.id),
+      entityLabel: row.canonicalName,
+      status: itemError ? "FAILED" : "SUCCEEDED",
+      sources,
+      counters: { claimsUpserted: upserted },
+      error: itemError,
+      durationMs: Date.now() - startedAt
+    });
   }
 
   return {
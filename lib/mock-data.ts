@@ -1,4 +1,4 @@
-import type { PeptideDetail, VendorCard } from "./types";
+import type { DrugClass, PeptideDetail, PeptideInteraction, VendorCard } from "./types";
 
 const vendors: VendorCard[] = [
   {
@@ -19,6 +19,78 @@ const vendors: VendorCard[] = [
   }
 ];
 
+const drugClasses: DrugClass[] = [
+  {
+    slug: "insulin",
+    name: "Insulin",
+    description: "Basal and prandial insulins.",
+    matchTerms: ["insulin", "insulin glargine", "insulin lispro", "insulin aspart", "insulin detemir", "insulin degludec"]
+  },
+  {
+    slug: "sulfonylureas",
+    name: "Sulfonylureas",
+    description: "Insulin secretagogues such as glipizide, glyburide and glimepiride.",
+    matchTerms: ["sulfonylurea", "sulfonylureas", "glipizide", "glyburide", "glibenclamide", "glimepiride", "gliclazide"]
+  },
+  {
+    slug: "oral-medications",
+    name: "Oral medications",
+    description: "Orally administered drugs whose absorption depends on gastric emptying.",
+    matchTerms: ["oral medications", "orally administered", "levothyroxine", "oral contraceptive", "oral contraceptives"]
+  },
+  {
+    slug: "anticoagulants",
+    name: "Anticoagulants",
+    description: "Vitamin K antagonists and direct oral anticoagulants.",
+    matchTerms: ["anticoagulant", "anticoagulants", "warfarin", "apixaban", "rivaroxaban", "dabigatran"]
+  }
+];
+
+const interactions: PeptideInteraction[] = [
+  {
+    peptideSlug: "semaglutide",
+    peptideName: "semaglutide",
+    targetKind: "drug_class",
+    targetSlug: "insulin",
+    targetName: "Insulin",
+    severity: "MODERATE",
+    mechanism: "Additive glucose lowering increases the risk of hypoglycemia when combined with insulin.",
+    management: "Consider reducing the insulin dose when starting or escalating semaglutide.",
+    evidenceGrade: "A",
+    source: "MANUAL",
+    sourceUrl: "https://www.accessdata.fda.gov/scripts/cder/daf/index.cfm?event=overview.process&ApplNo=209637",
+    sourceTitle: "Ozempic prescribing information"
+  },
+  {
+    peptideSlug: "semaglutide",
+    peptideName: "semaglutide",
+    targetKind: "drug_class",
+    targetSlug: "sulfonylureas",
+    targetName: "Sulfonylureas",
+    severity: "MODERATE",
+    mechanism: "Additive glucose lowering increases the risk of hypoglycemia when combined with an insulin secretagogue.",
+    management: "Consider reducing the sulfonylurea dose.",
+    evidenceGrade: "A",
+    source: "MANUAL",
+    sourceUrl: "https://www.accessdata.fda.gov/scripts/cder/daf/index.cfm?event=overview.process&ApplNo=209637",
+    sourceTitle: "Ozempic prescribing information"
+  },
+  {
+    peptideSlug: "semaglutide",
+    peptideName: "semaglutide",
+    targetKind: "drug_class",
+    targetSlug: "oral-medications",
+    targetName: "Oral medications",
+    severity: "MINOR",
+    mechanism: "Delayed gastric emptying may change the absorption of concomitantly administered oral medications.",
+    management: "Monitor drugs with a narrow therapeutic index, such as levothyroxine.",
+    evidenceGrade: "B",
+    source: "MANUAL",
+    sourceUrl: "https://www.accessdata.fda.gov/scripts/cder/daf/index.cfm?event=overview.process&ApplNo=209637",
+    sourceTitle: "Ozempic prescribing information"
+  }
+];
+
 export const peptideData: PeptideDetail[] = [
   {
     slug: "semaglutide",
@@ -53,6 +125,52 @@ export const peptideData: PeptideDetail[] = [
       interactions: "Review concomitant glucose-lowering therapies and delayed gastric emptying considerations.",
       monitoring: "Track tolerability, adherence, glycemic response, and any severe or persistent symptoms."
     },
+    useCaseEvidence: [
+      { useCase: "Type 2 Diabetes", evidenceGrade: "A" },
+      { useCase: "Weight Management", evidenceGrade: "A" }
+    ],
+    regulatoryStatuses: [
+      {
+        jurisdiction: "US",
+        status: "US_FDA_APPROVED",
+        approvalDate: "2017-12-05",
+        approvedIndications: ["Glycemic control in adults with type 2 diabetes", "Chronic weight management"],
+        brandNames: ["Ozempic", "Wegovy", "Rybelsus"],
+        regulatorReference: "NDA 209637",
+        sourceUrl: "https://www.accessdata.fda.gov/scripts/cder/daf/index.cfm?event=overview.process&ApplNo=209637",
+        notes: "Approved for specific labeled indications."
+      },
+      {
+        jurisdiction: "EU",
+        status: "NON_US_APPROVED",
+        approvalDate: "2018-02-08",
+        approvedIndications: ["Type 2 diabetes mellitus", "Weight management"],
+        brandNames: ["Ozempic", "Wegovy", "Rybelsus"],
+        regulatorReference: "EMEA/H/C/004174",
+        sourceUrl: "https://www.ema.europa.eu/en/medicines/human/EPAR/ozempic",
+        notes: "Jurisdiction-specific approvals apply."
+      }
+    ],
+    regulatoryHistory: [
+      {
+        jurisdiction: "US",
+        previousStatus: "INVESTIGATIONAL",
+        status: "US_FDA_APPROVED",
+        effectiveDate: "2017-12-05",
+        regulatorReference: "NDA 209637",
+        sourceUrl: "https://www.accessdata.fda.gov/scripts/cder/daf/index.cfm?event=overview.process&ApplNo=209637",
+        notes: null
+      },
+      {
+        jurisdiction: "EU",
+        previousStatus: "INVESTIGATIONAL",
+        status: "NON_US_APPROVED",
+        effectiveDate: "2018-02-08",
+        regulatorReference: "EMEA/H/C/004174",
+        sourceUrl: "https://www.ema.europa.eu/en/medicines/human/EPAR/ozempic",
+        notes: null
+      }
+    ],
     longDescription:
       "Clinical evidence is strongest for approved use cases. Study-reported outcomes in additional populations should be interpreted with trial design and endpoint limitations in mind.",
     dosing: [
@@ -60,8 +178,9 @@ export const peptideData: PeptideDetail[] = [
         context: "APPROVED_LABEL",
         population: "Adults with approved indication",
         route: "Subcutaneous",
-        startingDose: "Low initial dose per label titration",
-        maintenanceDose: "Step-up to target label dose",
+        startingDose: "0.25 mg once weekly for 4 weeks",
+        maintenanceDose:
+          "0.5 mg once weekly; may increase to 1 mg after at least 4 weeks, then to 2 mg after at least 4 weeks (maximum 2 mg weekly)",
         frequency: "Weekly",
         notes: "Use official label for exact product-specific titration."
       },
@@ -81,10 +200,18 @@ export const peptideData: PeptideDetail[] = [
         section: "Effectiveness",
         claimText: "Large randomized trials support efficacy in approved populations.",
         evidenceGrade: "A",
+        gradeRationale: "Phase 3 or later randomized controlled trial.",
         sourceUrl: "https://clinicaltrials.gov/",
         sourceTitle: "ClinicalTrials evidence summary",
         publishedAt: "2024-01-15",
-        retrievedAt: "2026-02-16T00:00:00Z"
+        retrievedAt: "2026-02-16T00:00:00Z",
+        pmid: null,
+        doi: null,
+        nctId: null,
+        authors: [],
+        journal: null,
+        publicationType: "WEB_PAGE",
+        enrollment: null
       }
     ]
   },
@@ -121,6 +248,12 @@ export const peptideData: PeptideDetail[] = [
       interactions: "Interaction profile remains uncertain due to limited and heterogeneous evidence.",
       monitoring: "Use protocol-level monitoring and careful source-quality review in investigational contexts."
     },
+    useCaseEvidence: [
+      { useCase: "Tissue Repair", evidenceGrade: "C" },
+      { useCase: "GI Symptoms", evidenceGrade: "C" }
+    ],
+    regulatoryStatuses: [],
+    regulatoryHistory: [],
     longDescription:
       "For investigational peptides, this database separates study findings from approved treatment guidance and flags lower-certainty evidence.",
     dosing: [
@@ -140,10 +273,18 @@ export const peptideData: PeptideDetail[] = [
         section: "Safety",
         claimText: "Human safety evidence remains limited and not yet definitive.",
         evidenceGrade: "C",
+        gradeRationale: "Narrative review or guideline; summarizes evidence without a systematic search.",
         sourceUrl: "https://pubmed.ncbi.nlm.nih.gov/",
         sourceTitle: "PubMed indexed review summary",
         publishedAt: "2023-11-10",
-        retrievedAt: "2026-02-16T00:00:00Z"
+        retrievedAt: "2026-02-16T00:00:00Z",
+        pmid: null,
+        doi: null,
+        nctId: null,
+        authors: [],
+        journal: null,
+        publicationType: "WEB_PAGE",
+        enrollment: null
       }
     ]
   }
@@ -160,3 +301,11 @@ export function getPeptideBySlug(slug: string): PeptideDetail | undefined {
 export function getAllVendors(): VendorCard[] {
   return vendors;
 }
+
+export function getAllDrugClasses(): DrugClass[] {
+  return drugClasses;
+}
+
+export function getAllInteractions(): PeptideInteraction[] {
+  return interactions;
+}
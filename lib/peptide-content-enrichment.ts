@@ -1,4 +1,16 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { findOrCreateCitation } from "@/lib/citations";
+import { labelFromSnake } from "@/lib/constants";
+import { diffContentFields, PROFILE_CHANGE_FIELDS, recordContentChanges, safetyChangeFields } from "@/lib/content-changes";
+import {
+  locateExcerpt,
+  PROVENANCE_FIELDS,
+  replacePeptideProvenance,
+  type ContentProvenanceInput
+} from "@/lib/content-provenance";
+import { gradeEvidenceBody, gradeReferenceSource, type EvidenceAssessment } from "@/lib/evidence-grading";
+import { errorMessage, type IngestAudit, type IngestSourceOutcome } from "@/lib/ingest-runs";
+import { syncLabelInteractions } from "@/lib/interactions";
 import {
   buildChemblCompoundUrl,
   buildClinicalTrialsSearchUrl,
@@ -7,19 +19,20 @@ import {
   buildHubermanAiSearchUrl,
   buildPeptiWikiSearchUrl,
   buildPubChemCompoundUrl,
-  buildPubMedSearchUrl,
-  toHumanReadableSourceUrl
+  buildPubMedSearchUrl
 } from "@/lib/reference-sources";
-import type { DosingContext, EvidenceGrade } from "@/lib/types";
+import { fetchSourceJson, fetchSourceText, type SourceRequestOptions } from "@/lib/source-client";
+import { parseDosingText, toDosingColumns } from "@/lib/structured-dosing";
+import type {
+  ContentProvenanceField,
+  ContentProvenanceSource,
+  DosingContext,
+  EvidenceGrade
+} from "@/lib/types";
+import { USE_CASE_RULES } from "@/lib/use-cases";
 
 type JurisdictionCode = "US" | "EU" | "UK" | "CA" | "AU";
 
-type UseCaseRule = {
-  slug: string;
-  name: string;
-  keywords: string[];
-};
-
 type EnrichmentSourceHits = {
   openFda: number;
   pubChem: number;
@@ -39,6 +52,8 @@ type EnrichmentResult = {
   safetyUpdates: number;
   dosingUpdates: number;
   claimUpdates: number;
+  interactionUpdates: number;
+  provenanceRecords: number;
   failures: number;
   sourceHits: EnrichmentSourceHits;
 };
@@ -47,7 +62,10 @@ type EnrichmentOptions = {
   limit?: number;
   onlyPublished?: boolean;
   peptideSlugs?: string[];
+  // Only peptides whose last_enriched_at is missing or older than this ISO timestamp.
+  staleBefore?: string;
   delayMs?: number;
+  audit?: IngestAudit;
 };
 
 type PeptideRow = {
@@ -86,6 +104,8 @@ type OpenFdaLabel = {
   warnings: string;
   adverseReactions: string;
   interactions: string;
+  // Untruncated drug_interactions section, used to extract structured interactions.
+  interactionsText: string;
   clinicalPharmacology: string;
   routeHints: string[];
   frequencyHints: string[];
@@ -148,6 +168,18 @@ type SourceBundle = {
   grokipedia: WebSummary;
   peptiWiki: WebSummary;
   hubermanAi: WebSummary;
+  fetchedAt: Record<ContentProvenanceSource, string>;
+  errors: SourceErrors;
+};
+
+// Last error per source while collecting a bundle. The fetchers still fall back to an empty
+// result; this only keeps the reason so the run audit can tell a miss from an outage.
+type SourceErrors = Partial<Record<ContentProvenanceSource, string>>;
+
+// A passage of generated text and the external sources it was drawn from; template text has none.
+type SourcedText = {
+  text: string;
+  sources: ContentProvenanceSource[];
 };
 
 type GeneratedContent = {
@@ -181,15 +213,20 @@ type GeneratedContent = {
     section: string;
     claimText: string;
     evidenceGrade: EvidenceGrade;
+    gradeRationale: string;
     sourceUrl: string;
     sourceTitle: string;
     publishedAt: string;
   }[];
   usStatus: "US_FDA_APPROVED" | "INVESTIGATIONAL";
+  provenance: Record<ContentProvenanceField, SourcedText[]>;
 };
 
 const TODAY = new Date().toISOString().slice(0, 10);
 const JURISDICTION_CODES: JurisdictionCode[] = ["US", "EU", "UK", "CA", "AU"];
+const API_FETCH: SourceRequestOptions = { timeoutMs: 18_000 };
+// Reference pages are a best-effort extra, so they get one retry instead of the default two.
+const PAGE_FETCH: SourceRequestOptions = { timeoutMs: 18_000, retries: 1 };
 const ENRICHMENT_CLAIM_SECTIONS = [
   "External Sources: ClinicalTrials",
   "External Sources: PubMed",
@@ -202,84 +239,6 @@ const ENRICHMENT_CLAIM_SECTIONS = [
   "External Sources: Huberman Lab AI"
 ];
 
-const USE_CASE_RULES: UseCaseRule[] = [
-  {
-    slug: "type-2-diabetes",
-    name: "Type 2 Diabetes",
-    keywords: ["type 2 diabetes", "diabetes mellitus type 2", "glycemic", "hyperglycemia", "a1c"]
-  },
-  {
-    slug: "weight-management",
-    name: "Weight Management",
-    keywords: ["obesity", "overweight", "weight management", "weight loss", "body mass index"]
-  },
-  {
-    slug: "type-1-diabetes",
-    name: "Type 1 Diabetes",
-    keywords: ["type 1 diabetes", "diabetes mellitus type 1"]
-  },
-  {
-    slug: "cardiometabolic-risk-reduction",
-    name: "Cardiometabolic Risk Reduction",
-    keywords: ["cardiovascular", "heart failure", "cardiorenal", "stroke", "major adverse cardiovascular"]
-  },
-  {
-    slug: "growth-hormone-deficiency",
-    name: "Growth Hormone Deficiency",
-    keywords: ["growth hormone deficiency", "gh deficiency", "pituitary deficiency"]
-  },
-  {
-    slug: "acromegaly",
-    name: "Acromegaly",
-    keywords: ["acromegaly"]
-  },
-  {
-    slug: "reproductive-health",
-    name: "Reproductive Health",
-    keywords: ["infertility", "ivf", "ovarian", "reproductive", "fertility", "endometriosis"]
-  },
-  {
-    slug: "sexual-health",
-    name: "Sexual Health",
-    keywords: ["erectile dysfunction", "sexual dysfunction", "hypoactive sexual desire", "libido"]
-  },
-  {
-    slug: "tissue-repair",
-    name: "Tissue Repair",
-    keywords: ["wound", "tendon", "ligament", "muscle injury", "tissue repair", "healing"]
-  },
-  {
-    slug: "gi-symptoms",
-    name: "GI Symptoms",
-    keywords: ["gastrointestinal", "crohn", "ulcerative colitis", "ibd", "ibs", "colitis", "ulcer"]
-  },
-  {
-    slug: "neurology-cognition",
-    name: "Neurology & Cognition",
-    keywords: ["alzheimer", "parkinson", "cognitive", "memory", "neuro", "depression", "anxiety", "migraine"]
-  },
-  {
-    slug: "inflammatory-immune",
-    name: "Inflammatory & Immune Modulation",
-    keywords: ["inflammation", "immune", "autoimmune", "arthritis", "psoriasis", "dermatitis"]
-  },
-  {
-    slug: "kidney-renal-care",
-    name: "Kidney & Renal Care",
-    keywords: ["kidney", "renal", "nephropathy", "albuminuria", "ckd", "chronic kidney disease"]
-  },
-  {
-    slug: "dermatology-aesthetics",
-    name: "Dermatology & Aesthetics",
-    keywords: ["skin", "dermatology", "aesthetic", "wrinkle", "collagen", "photoaging"]
-  },
-  {
-    slug: "evidence-tracking",
-    name: "Evidence Tracking",
-    keywords: []
-  }
-];
-
 function asRecord(value: unknown): Record<string, unknown> | null {
   return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
 }
@@ -325,6 +284,28 @@ function firstNonEmpty(...values: Array<string | string[]>): string {
   return "";
 }
 
+function sourced(text: string, ...sources: ContentProvenanceSource[]): SourcedText {
+  return { text: text.trim(), sources };
+}
+
+// firstNonEmpty for sourced passages; a candidate may be several passages that are used together.
+function firstSourced(...candidates: Array<SourcedText | SourcedText[]>): SourcedText[] {
+  for (const candidate of candidates) {
+    const passages = (Array.isArray(candidate) ? candidate : [candidate]).filter((passage) => passage.text);
+    if (passages.length > 0) {
+      return passages;
+    }
+  }
+  return [];
+}
+
+function joinSourced(passages: SourcedText[]): string {
+  return passages
+    .map((passage) => passage.text)
+    .filter(Boolean)
+    .join(" ");
+}
+
 function uniqueStrings(values: string[]): string[] {
   return Array.from(new Set(values.map((value) => value.trim()).filter((value) => value.length > 0)));
 }
@@ -378,84 +359,10 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-async function fetchJson(url: string, retries = 2): Promise<unknown> {
-  let attempt = 0;
-  let lastError: unknown = null;
-
-  while (attempt <= retries) {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 18_000);
-    try {
-      const response = await fetch(url, {
-        method: "GET",
-        headers: { accept: "application/json" },
-        cache: "no-store",
-        signal: controller.signal
-      });
-
-      if (!response.ok) {
-        if ((response.status === 429 || response.status >= 500) && attempt < retries) {
-          attempt += 1;
-          await sleep(450 * attempt);
-          continue;
-        }
-        throw new Error(`HTTP ${response.status}`);
-      }
-
-      return await response.json();
-    } catch (error) {
-      lastError = error;
-      if (attempt >= retries) {
-        throw error;
-      }
-      attempt += 1;
-      await sleep(450 * attempt);
-    } finally {
-      clearTimeout(timeout);
-    }
-  }
-
-  throw lastError instanceof Error ? lastError : new Error("Unknown fetch error.");
-}
-
-async function fetchText(url: string, retries = 2): Promise<string> {
-  let attempt = 0;
-  let lastError: unknown = null;
-
-  while (attempt <= retries) {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 18_000);
-    try {
-      const response = await fetch(url, {
-        method: "GET",
-        headers: { accept: "text/html,application/xhtml+xml,text/plain,*/*" },
-        cache: "no-store",
-        signal: controller.signal
-      });
-
-      if (!response.ok) {
-        if ((response.status === 429 || response.status >= 500) && attempt < retries) {
-          attempt += 1;
-          await sleep(450 * attempt);
-          continue;
-        }
-        throw new Error(`HTTP ${response.status}`);
-      }
-
-      return await response.text();
-    } catch (error) {
-      lastError = error;
-      if (attempt >= retries) {
-        throw error;
-      }
-      attempt += 1;
-      await sleep(450 * attempt);
-    } finally {
-      clearTimeout(timeout);
-    }
+function noteSourceError(errors: SourceErrors | undefined, key: ContentProvenanceSource, error: unknown) {
+  if (errors) {
+    errors[key] = errorMessage(error);
   }
-
-  throw lastError instanceof Error ? lastError : new Error("Unknown fetch error.");
 }
 
 function normalizeSearchName(name: string): string {
@@ -593,7 +500,7 @@ function extractHubermanSearchSummary(html: string): { title: string; summary: s
   return { title, summary };
 }
 
-async function fetchClinicalTrialsSnapshot(name: string): Promise<ClinicalTrialsSnapshot> {
+async function fetchClinicalTrialsSnapshot(name: string, errors?: SourceErrors): Promise<ClinicalTrialsSnapshot> {
   const normalizedName = normalizeSearchName(name) || name;
   const humanSearchUrl = buildClinicalTrialsSearchUrl(normalizedName);
   const params = new URLSearchParams({
@@ -613,7 +520,7 @@ async function fetchClinicalTrialsSnapshot(name: string): Promise<ClinicalTrials
   const conditionCounts = new Map<string, number>();
 
   try {
-    const payload = asRecord(await fetchJson(url));
+    const payload = asRecord(await fetchSourceJson(url, API_FETCH));
     const studies = asArray(payload?.studies);
     total = studies.length;
 
@@ -650,7 +557,9 @@ async function fetchClinicalTrialsSnapshot(name: string): Promise<ClinicalTrials
         conditionCounts.set(condition, (conditionCounts.get(condition) ?? 0) + 1);
       }
     }
-  } catch {
+  } catch (error) {
+
+    noteSourceError(errors, "CLINICALTRIALS", error);
     return {
       total: 0,
       completed: 0,
@@ -682,7 +591,7 @@ async function fetchClinicalTrialsSnapshot(name: string): Promise<ClinicalTrials
   };
 }
 
-async function fetchPubMedSnapshot(name: string): Promise<PubMedSnapshot> {
+async function fetchPubMedSnapshot(name: string, errors?: SourceErrors): Promise<PubMedSnapshot> {
   const normalizedName = normalizeSearchName(name) || name;
   const pubMedTerm = `"${normalizedName}"[Title/Abstract] AND (clinical OR trial OR randomized OR review)`;
   const humanSearchUrl = buildPubMedSearchUrl(pubMedTerm);
@@ -696,7 +605,7 @@ async function fetchPubMedSnapshot(name: string): Promise<PubMedSnapshot> {
   const searchUrl = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi?${searchParams.toString()}`;
 
   try {
-    const searchPayload = asRecord(await fetchJson(searchUrl));
+    const searchPayload = asRecord(await fetchSourceJson(searchUrl, API_FETCH));
     const searchResult = asRecord(searchPayload?.esearchresult);
     const idList = asArray(searchResult?.idlist).map((entry) => asString(entry)).filter(Boolean);
     const count = Number(asString(searchResult?.count) || "0");
@@ -716,7 +625,7 @@ async function fetchPubMedSnapshot(name: string): Promise<PubMedSnapshot> {
       id: idList.join(",")
     });
     const summaryUrl = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi?${summaryParams.toString()}`;
-    const summaryPayload = asRecord(await fetchJson(summaryUrl));
+    const summaryPayload = asRecord(await fetchSourceJson(summaryUrl, API_FETCH));
     const summaryResult = asRecord(summaryPayload?.result);
 
     const recentTitles: string[] = [];
@@ -743,7 +652,9 @@ async function fetchPubMedSnapshot(name: string): Promise<PubMedSnapshot> {
       recentTitles,
       searchUrl: humanSearchUrl
     };
-  } catch {
+  } catch (error) {
+
+    noteSourceError(errors, "PUBMED", error);
     return {
       count: 0,
       newestYear: null,
@@ -766,7 +677,7 @@ function wikipediaCandidates(name: string, aliases: string[]): string[] {
   return uniqueStrings(candidates);
 }
 
-async function fetchWikipediaSummary(name: string, aliases: string[]): Promise<WikipediaSummary> {
+async function fetchWikipediaSummary(name: string, aliases: string[], errors?: SourceErrors): Promise<WikipediaSummary> {
   const candidates = wikipediaCandidates(name, aliases).slice(0, 8);
   const emptyResult: WikipediaSummary = {
     found: false,
@@ -779,7 +690,7 @@ async function fetchWikipediaSummary(name: string, aliases: string[]): Promise<W
     const encoded = encodeURIComponent(candidate.replace(/\s+/g, "_"));
     const url = `https://en.wikipedia.org/api/rest_v1/page/summary/${encoded}`;
     try {
-      const payload = asRecord(await fetchJson(url));
+      const payload = asRecord(await fetchSourceJson(url, API_FETCH));
       const extract = asString(payload?.extract);
       const type = asString(payload?.type).toLowerCase();
       if (!extract || type === "disambiguation") {
@@ -794,7 +705,9 @@ async function fetchWikipediaSummary(name: string, aliases: string[]): Promise<W
         summary: truncate(extract, 700),
         sourceUrl: humanUrl
       };
-    } catch {
+    } catch (error) {
+
+      noteSourceError(errors, "WIKIPEDIA", error);
       continue;
     }
   }
@@ -802,13 +715,13 @@ async function fetchWikipediaSummary(name: string, aliases: string[]): Promise<W
   return emptyResult;
 }
 
-async function fetchNciSummary(name: string): Promise<NciSummary> {
+async function fetchNciSummary(name: string, errors?: SourceErrors): Promise<NciSummary> {
   const normalized = normalizeSearchName(name).toLowerCase();
   const slug = normalized.replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
   const sourceUrl = `https://www.cancer.gov/publications/dictionaries/cancer-drug/def/${slug}`;
 
   try {
-    const html = await fetchText(sourceUrl, 1);
+    const html = await fetchSourceText(sourceUrl, PAGE_FETCH);
     const lower = html.toLowerCase();
     if (!lower.includes(normalized)) {
       return { found: false, summary: "", sourceUrl: "" };
@@ -825,12 +738,14 @@ async function fetchNciSummary(name: string): Promise<NciSummary> {
       summary,
       sourceUrl
     };
-  } catch {
+  } catch (error) {
+
+    noteSourceError(errors, "NCI", error);
     return { found: false, summary: "", sourceUrl: "" };
   }
 }
 
-async function fetchGrokipediaSummary(name: string, aliases: string[]): Promise<WebSummary> {
+async function fetchGrokipediaSummary(name: string, aliases: string[], errors?: SourceErrors): Promise<WebSummary> {
   const searchTerms = buildSearchTerms(name, aliases, 4);
   const fallbackSearchUrl = buildGrokipediaSearchUrl(searchTerms[0] ?? name);
   const emptyResult: WebSummary = {
@@ -852,7 +767,7 @@ async function fetchGrokipediaSummary(name: string, aliases: string[]): Promise<
 
     for (const pageUrl of pageCandidates) {
       try {
-        const html = await fetchText(pageUrl, 1);
+        const html = await fetchSourceText(pageUrl, PAGE_FETCH);
         if (isLikelyBlockedHtml(html)) {
           continue;
         }
@@ -868,13 +783,15 @@ async function fetchGrokipediaSummary(name: string, aliases: string[]): Promise<
           searchUrl,
           blocked: false
         };
-      } catch {
+      } catch (error) {
+
+        noteSourceError(errors, "GROKIPEDIA", error);
         continue;
       }
     }
 
     try {
-      const html = await fetchText(searchUrl, 1);
+      const html = await fetchSourceText(searchUrl, PAGE_FETCH);
       if (isLikelyBlockedHtml(html)) {
         continue;
       }
@@ -890,7 +807,9 @@ async function fetchGrokipediaSummary(name: string, aliases: string[]): Promise<
         searchUrl,
         blocked: false
       };
-    } catch {
+    } catch (error) {
+
+      noteSourceError(errors, "GROKIPEDIA", error);
       continue;
     }
   }
@@ -898,7 +817,7 @@ async function fetchGrokipediaSummary(name: string, aliases: string[]): Promise<
   return emptyResult;
 }
 
-async function fetchPeptiWikiSummary(name: string, aliases: string[]): Promise<WebSummary> {
+async function fetchPeptiWikiSummary(name: string, aliases: string[], errors?: SourceErrors): Promise<WebSummary> {
   const searchTerms = buildSearchTerms(name, aliases, 4);
   const fallbackSearchUrl = buildPeptiWikiSearchUrl(searchTerms[0] ?? name);
   const emptyResult: WebSummary = {
@@ -920,7 +839,7 @@ async function fetchPeptiWikiSummary(name: string, aliases: string[]): Promise<W
 
     for (const sourceUrl of directUrls) {
       try {
-        const html = await fetchText(sourceUrl, 1);
+        const html = await fetchSourceText(sourceUrl, PAGE_FETCH);
         if (isLikelyBlockedHtml(html)) {
           continue;
         }
@@ -936,13 +855,15 @@ async function fetchPeptiWikiSummary(name: string, aliases: string[]): Promise<W
           searchUrl,
           blocked: false
         };
-      } catch {
+      } catch (error) {
+
+        noteSourceError(errors, "PEPTIWIKI", error);
         continue;
       }
     }
 
     try {
-      const html = await fetchText(searchUrl, 1);
+      const html = await fetchSourceText(searchUrl, PAGE_FETCH);
       if (isLikelyBlockedHtml(html)) {
         continue;
       }
@@ -958,7 +879,9 @@ async function fetchPeptiWikiSummary(name: string, aliases: string[]): Promise<W
         searchUrl,
         blocked: false
       };
-    } catch {
+    } catch (error) {
+
+      noteSourceError(errors, "PEPTIWIKI", error);
       continue;
     }
   }
@@ -966,7 +889,7 @@ async function fetchPeptiWikiSummary(name: string, aliases: string[]): Promise<W
   return emptyResult;
 }
 
-async function fetchHubermanAiSummary(name: string, aliases: string[]): Promise<WebSummary> {
+async function fetchHubermanAiSummary(name: string, aliases: string[], errors?: SourceErrors): Promise<WebSummary> {
   const searchTerms = buildSearchTerms(name, aliases, 3);
   const fallbackSearchUrl = buildHubermanAiSearchUrl(searchTerms[0] ?? name);
   const emptyResult: WebSummary = {
@@ -981,7 +904,7 @@ async function fetchHubermanAiSummary(name: string, aliases: string[]): Promise<
   for (const term of searchTerms) {
     const searchUrl = buildHubermanAiSearchUrl(term);
     try {
-      const html = await fetchText(searchUrl, 1);
+      const html = await fetchSourceText(searchUrl, PAGE_FETCH);
       if (isLikelyBlockedHtml(html)) {
         return { ...emptyResult, searchUrl, blocked: true };
       }
@@ -997,7 +920,9 @@ async function fetchHubermanAiSummary(name: string, aliases: string[]): Promise<
         searchUrl,
         blocked: false
       };
-    } catch {
+    } catch (error) {
+
+      noteSourceError(errors, "HUBERMAN_AI", error);
       continue;
     }
   }
@@ -1005,15 +930,15 @@ async function fetchHubermanAiSummary(name: string, aliases: string[]): Promise<
   return emptyResult;
 }
 
-function parseOpenFdaText(record: Record<string, unknown>, key: string): string {
+function parseOpenFdaText(record: Record<string, unknown>, key: string, max = 600): string {
   const values = asArray(record[key]).map((entry) => asString(entry)).filter(Boolean);
   if (values.length === 0) {
     return "";
   }
-  return truncate(values.join(" "), 600);
+  return truncate(values.join(" "), max);
 }
 
-async function fetchOpenFdaLabel(name: string, aliases: string[]): Promise<OpenFdaLabel> {
+async function fetchOpenFdaLabel(name: string, aliases: string[], errors?: SourceErrors): Promise<OpenFdaLabel> {
   const terms = uniqueStrings([name, ...aliases]).slice(0, 7);
   const emptyResult: OpenFdaLabel = {
     found: false,
@@ -1024,6 +949,7 @@ async function fetchOpenFdaLabel(name: string, aliases: string[]): Promise<OpenF
     warnings: "",
     adverseReactions: "",
     interactions: "",
+    interactionsText: "",
     clinicalPharmacology: "",
     routeHints: [],
     frequencyHints: [],
@@ -1034,7 +960,7 @@ async function fetchOpenFdaLabel(name: string, aliases: string[]): Promise<OpenF
     const query = `openfda.generic_name:"${term}" OR openfda.brand_name:"${term}" OR openfda.substance_name:"${term}"`;
     const url = `https://api.fda.gov/drug/label.json?search=${encodeURIComponent(query)}&limit=1`;
     try {
-      const payload = asRecord(await fetchJson(url));
+      const payload = asRecord(await fetchSourceJson(url, API_FETCH));
       const results = asArray(payload?.results);
       const row = asRecord(results[0]);
       if (!row) {
@@ -1050,6 +976,7 @@ async function fetchOpenFdaLabel(name: string, aliases: string[]): Promise<OpenF
       const warnings = parseOpenFdaText(row, "warnings_and_cautions");
       const adverseReactions = parseOpenFdaText(row, "adverse_reactions");
       const interactions = parseOpenFdaText(row, "drug_interactions");
+      const interactionsText = parseOpenFdaText(row, "drug_interactions", 8000);
       const clinicalPharmacology = parseOpenFdaText(row, "clinical_pharmacology");
 
       const routeHints = uniqueStrings(
@@ -1070,12 +997,15 @@ async function fetchOpenFdaLabel(name: string, aliases: string[]): Promise<OpenF
         warnings,
         adverseReactions,
         interactions,
+        interactionsText,
         clinicalPharmacology,
         routeHints,
         frequencyHints,
         sourceUrl: buildFdaDrugLabelSearchUrl(term)
       };
-    } catch {
+    } catch (error) {
+
+      noteSourceError(errors, "OPENFDA", error);
       continue;
     }
   }
@@ -1109,7 +1039,7 @@ function findPubChemRecordDescription(payload: Record<string, unknown> | null):
   return "";
 }
 
-async function fetchPubChemData(name: string): Promise<PubChemData> {
+async function fetchPubChemData(name: string, errors?: SourceErrors): Promise<PubChemData> {
   const normalizedName = normalizeSearchName(name) || name;
   const cidUrl = `https://pubchem.ncbi.nlm.nih.gov/rest/pug/compound/name/${encodeURIComponent(normalizedName)}/cids/JSON`;
   const emptyResult: PubChemData = {
@@ -1124,7 +1054,7 @@ async function fetchPubChemData(name: string): Promise<PubChemData> {
   };
 
   try {
-    const cidPayload = asRecord(await fetchJson(cidUrl));
+    const cidPayload = asRecord(await fetchSourceJson(cidUrl, API_FETCH));
     const cids = asArray(cidPayload?.IdentifierList ? asRecord(cidPayload.IdentifierList)?.CID : [])
       .map((value) => asNumber(value))
       .filter((value): value is number => value !== null);
@@ -1138,9 +1068,9 @@ async function fetchPubChemData(name: string): Promise<PubChemData> {
     const propertyUrl = `https://pubchem.ncbi.nlm.nih.gov/rest/pug/compound/cid/${cid}/property/MolecularFormula,MolecularWeight/JSON`;
 
     const [descriptionPayload, synonymPayload, propertyPayload] = await Promise.all([
-      fetchJson(descriptionUrl).catch(() => null),
-      fetchJson(synonymUrl).catch(() => null),
-      fetchJson(propertyUrl).catch(() => null)
+      fetchSourceJson(descriptionUrl, API_FETCH).catch(() => null),
+      fetchSourceJson(synonymUrl, API_FETCH).catch(() => null),
+      fetchSourceJson(propertyUrl, API_FETCH).catch(() => null)
     ]);
 
     const description = truncate(findPubChemRecordDescription(asRecord(descriptionPayload)), 500);
@@ -1169,7 +1099,9 @@ async function fetchPubChemData(name: string): Promise<PubChemData> {
       synonyms,
       sourceUrl: buildPubChemCompoundUrl(cid)
     };
-  } catch {
+  } catch (error) {
+
+    noteSourceError(errors, "PUBCHEM", error);
     return emptyResult;
   }
 }
@@ -1193,7 +1125,7 @@ function scoreChemblCandidate(row: Record<string, unknown>, query: string): numb
   return score;
 }
 
-async function fetchChemblData(name: string): Promise<ChemblData> {
+async function fetchChemblData(name: string, errors?: SourceErrors): Promise<ChemblData> {
   const query = normalizeSearchName(name) || name;
   const searchUrl = `https://www.ebi.ac.uk/chembl/api/data/molecule/search.json?q=${encodeURIComponent(query)}&limit=8`;
   const emptyResult: ChemblData = {
@@ -1209,7 +1141,7 @@ async function fetchChemblData(name: string): Promise<ChemblData> {
   };
 
   try {
-    const payload = asRecord(await fetchJson(searchUrl));
+    const payload = asRecord(await fetchSourceJson(searchUrl, API_FETCH));
     const molecules = asArray(payload?.molecules)
       .map((entry) => asRecord(entry))
       .filter((entry): entry is Record<string, unknown> => entry !== null);
@@ -1235,9 +1167,9 @@ async function fetchChemblData(name: string): Promise<ChemblData> {
     const indicationUrl = `https://www.ebi.ac.uk/chembl/api/data/drug_indication.json?molecule_chembl_id=${encodeURIComponent(chemblId)}&limit=12`;
 
     const [detailPayload, mechanismPayload, indicationPayload] = await Promise.all([
-      fetchJson(detailUrl).catch(() => null),
-      fetchJson(mechanismUrl).catch(() => null),
-      fetchJson(indicationUrl).catch(() => null)
+      fetchSourceJson(detailUrl, API_FETCH).catch(() => null),
+      fetchSourceJson(mechanismUrl, API_FETCH).catch(() => null),
+      fetchSourceJson(indicationUrl, API_FETCH).catch(() => null)
     ]);
 
     const detail = asRecord(detailPayload);
@@ -1282,23 +1214,32 @@ async function fetchChemblData(name: string): Promise<ChemblData> {
       indications,
       sourceUrl: buildChemblCompoundUrl(chemblId)
     };
-  } catch {
+  } catch (error) {
+
+    noteSourceError(errors, "CHEMBL", error);
     return emptyResult;
   }
 }
 
 async function collectSourceBundle(name: string, aliases: string[]): Promise<SourceBundle> {
+  const fetchedAt = {} as Record<ContentProvenanceSource, string>;
+  const errors: SourceErrors = {};
+  const stamp = <T>(key: ContentProvenanceSource, request: Promise<T>): Promise<T> =>
+    request.then((value) => {
+      fetchedAt[key] = new Date().toISOString();
+      return value;
+    });
   const [clinicalTrials, pubMed, openFda, pubChem, chembl, wikipedia, nci, grokipedia, peptiWiki, hubermanAi] = await Promise.all([
-    fetchClinicalTrialsSnapshot(name),
-    fetchPubMedSnapshot(name),
-    fetchOpenFdaLabel(name, aliases),
-    fetchPubChemData(name),
-    fetchChemblData(name),
-    fetchWikipediaSummary(name, aliases),
-    fetchNciSummary(name),
-    fetchGrokipediaSummary(name, aliases),
-    fetchPeptiWikiSummary(name, aliases),
-    fetchHubermanAiSummary(name, aliases)
+    stamp("CLINICALTRIALS", fetchClinicalTrialsSnapshot(name, errors)),
+    stamp("PUBMED", fetchPubMedSnapshot(name, errors)),
+    stamp("OPENFDA", fetchOpenFdaLabel(name, aliases, errors)),
+    stamp("PUBCHEM", fetchPubChemData(name, errors)),
+    stamp("CHEMBL", fetchChemblData(name, errors)),
+    stamp("WIKIPEDIA", fetchWikipediaSummary(name, aliases, errors)),
+    stamp("NCI", fetchNciSummary(name, errors)),
+    stamp("GROKIPEDIA", fetchGrokipediaSummary(name, aliases, errors)),
+    stamp("PEPTIWIKI", fetchPeptiWikiSummary(name, aliases, errors)),
+    stamp("HUBERMAN_AI", fetchHubermanAiSummary(name, aliases, errors))
   ]);
   return {
     clinicalTrials,
@@ -1310,27 +1251,72 @@ async function collectSourceBundle(name: string, aliases: string[]): Promise<Sou
     nci,
     grokipedia,
     peptiWiki,
-    hubermanAi
+    hubermanAi,
+    fetchedAt,
+    errors
   };
 }
 
-function inferEvidenceGrade(source: SourceBundle): EvidenceGrade {
-  if (source.openFda.found && source.clinicalTrials.completed >= 5) {
-    return "A";
-  }
-  if ((source.chembl.maxPhase ?? 0) >= 4 && source.clinicalTrials.total >= 8) {
-    return "A";
-  }
-  if ((source.chembl.maxPhase ?? 0) >= 3 || source.clinicalTrials.completed >= 3 || source.pubMed.count >= 40) {
-    return "B";
-  }
-  if (source.clinicalTrials.total >= 5 || source.pubMed.count >= 12) {
-    return "C";
-  }
-  if (source.clinicalTrials.total > 0 || source.pubMed.count > 0) {
-    return "D";
+// A 404 on a wiki-style lookup just means there is no page for that name.
+function bundleSourceOutcomes(source: SourceBundle): IngestSourceOutcome[] {
+  const found: Record<ContentProvenanceSource, boolean> = {
+    CLINICALTRIALS: source.clinicalTrials.total > 0,
+    PUBMED: source.pubMed.count > 0,
+    OPENFDA: source.openFda.found,
+    PUBCHEM: source.pubChem.found,
+    CHEMBL: source.chembl.found,
+    WIKIPEDIA: source.wikipedia.found,
+    NCI: source.nci.found,
+    GROKIPEDIA: source.grokipedia.found,
+    PEPTIWIKI: source.peptiWiki.found,
+    HUBERMAN_AI: source.hubermanAi.found
+  };
+  return (Object.keys(found) as ContentProvenanceSource[]).map((key) => {
+    const error = source.errors[key];
+    if (found[key]) {
+      return { source: key, status: "HIT" };
+    }
+    if (error && !/^HTTP 404\b/.test(error)) {
+      return { source: key, status: "FAILED", detail: error };
+    }
+    return { source: key, status: "MISS" };
+  });
+}
+
+function sourceUrlFor(source: SourceBundle, key: ContentProvenanceSource): string {
+  switch (key) {
+    case "CLINICALTRIALS":
+      return source.clinicalTrials.searchUrl;
+    case "PUBMED":
+      return source.pubMed.searchUrl;
+    case "OPENFDA":
+      return source.openFda.sourceUrl;
+    case "PUBCHEM":
+      return source.pubChem.sourceUrl;
+    case "CHEMBL":
+      return source.chembl.sourceUrl;
+    case "WIKIPEDIA":
+      return source.wikipedia.sourceUrl;
+    case "NCI":
+      return source.nci.sourceUrl;
+    case "GROKIPEDIA":
+      return source.grokipedia.sourceUrl || source.grokipedia.searchUrl;
+    case "PEPTIWIKI":
+      return source.peptiWiki.sourceUrl || source.peptiWiki.searchUrl;
+    case "HUBERMAN_AI":
+      return source.hubermanAi.sourceUrl || source.hubermanAi.searchUrl;
   }
-  return "I";
+}
+
+function assessEvidenceBody(source: SourceBundle): EvidenceAssessment {
+  return gradeEvidenceBody({
+    labelFound: source.openFda.found,
+    totalTrials: source.clinicalTrials.total,
+    completedTrials: source.clinicalTrials.completed,
+    trialsWithResults: source.clinicalTrials.withResults,
+    maxPhase: source.chembl.maxPhase,
+    publicationCount: source.pubMed.count
+  });
 }
 
 function inferUseCases(name: string, source: SourceBundle, grade: EvidenceGrade): GeneratedContent["useCases"] {
@@ -1400,7 +1386,7 @@ function formatUseCaseList(useCases: GeneratedContent["useCases"]): string {
   return `${informative.slice(0, -1).join(", ")}, and ${informative[informative.length - 1]}`;
 }
 
-function generateMechanism(name: string, className: string, source: SourceBundle): string {
+function generateMechanism(name: string, className: string, source: SourceBundle): SourcedText[] {
   const wikiSnippet = source.wikipedia.found ? pickSentence(source.wikipedia.summary, 260) : "";
   const mechanismSnippet = source.chembl.mechanisms[0] ? truncate(source.chembl.mechanisms[0], 260) : "";
   const labelSnippet = source.openFda.clinicalPharmacology ? pickSentence(source.openFda.clinicalPharmacology, 240) : "";
@@ -1409,17 +1395,15 @@ function generateMechanism(name: string, className: string, source: SourceBundle
   const grokipediaSnippet = source.grokipedia.found ? pickSentence(source.grokipedia.summary, 240) : "";
   const hubermanSnippet = source.hubermanAi.found ? pickSentence(source.hubermanAi.summary, 220) : "";
 
-  return firstNonEmpty([
-    [mechanismSnippet, labelSnippet].filter(Boolean).join(" "),
-    mechanismSnippet,
-    labelSnippet,
-    peptiWikiSnippet,
-    grokipediaSnippet,
-    hubermanSnippet,
-    wikiSnippet,
-    pubChemSnippet,
-    `${name} is listed as ${className || "a peptide"} with mechanism details still evolving across public sources.`
-  ]);
+  return firstSourced(
+    [sourced(mechanismSnippet, "CHEMBL"), sourced(labelSnippet, "OPENFDA")],
+    sourced(peptiWikiSnippet, "PEPTIWIKI"),
+    sourced(grokipediaSnippet, "GROKIPEDIA"),
+    sourced(hubermanSnippet, "HUBERMAN_AI"),
+    sourced(wikiSnippet, "WIKIPEDIA"),
+    sourced(pubChemSnippet, "PUBCHEM"),
+    sourced(`${name} is listed as ${className || "a peptide"} with mechanism details still evolving across public sources.`)
+  );
 }
 
 function generateCommonPairingsContext(name: string, className: string): string {
@@ -1437,25 +1421,31 @@ function generateIntroSummary(
   name: string,
   className: string,
   source: SourceBundle,
-  mechanism: string,
+  mechanism: SourcedText[],
   evidenceGrade: EvidenceGrade,
   useCases: GeneratedContent["useCases"]
-): string {
-  const identity = firstNonEmpty(
-    source.wikipedia.found ? pickSentence(source.wikipedia.summary, 240) : "",
-    source.peptiWiki.found ? pickSentence(source.peptiWiki.summary, 230) : "",
-    source.grokipedia.found ? pickSentence(source.grokipedia.summary, 230) : "",
-    source.nci.found ? pickSentence(source.nci.summary, 220) : "",
-    `${name} is cataloged as ${className || "a peptide reference entry"}.`
+): SourcedText[] {
+  const identity = firstSourced(
+    sourced(source.wikipedia.found ? pickSentence(source.wikipedia.summary, 240) : "", "WIKIPEDIA"),
+    sourced(source.peptiWiki.found ? pickSentence(source.peptiWiki.summary, 230) : "", "PEPTIWIKI"),
+    sourced(source.grokipedia.found ? pickSentence(source.grokipedia.summary, 230) : "", "GROKIPEDIA"),
+    sourced(source.nci.found ? pickSentence(source.nci.summary, 220) : "", "NCI"),
+    sourced(`${name} is cataloged as ${className || "a peptide reference entry"}.`)
   );
-  const mechanismLine = pickSentence(mechanism, 220);
+  // The first sentence of the mechanism comes from its leading passage.
+  const mechanismLine = pickSentence(joinSourced(mechanism), 220);
   const mechanismForIntro =
-    mechanismLine && identity.toLowerCase().includes(mechanismLine.toLowerCase().slice(0, 80)) ? "" : mechanismLine;
+    mechanismLine && joinSourced(identity).toLowerCase().includes(mechanismLine.toLowerCase().slice(0, 80)) ? "" : mechanismLine;
   const regulatoryLine = source.openFda.found
     ? `${name} has US label-linked drug information for specific indications, while non-labeled uses still require careful clinical judgment.`
     : `${name} is generally treated as investigational/research-use in US contexts, and broad wellness claims exceed current approval status.`;
   const evidenceLine = `Current evidence is graded ${evidenceGrade}, with mapped use contexts including ${formatUseCaseList(useCases)}.`;
-  return truncate([identity, mechanismForIntro, regulatoryLine, evidenceLine].filter(Boolean).join(" "), 680);
+  return [
+    ...identity,
+    sourced(mechanismForIntro, ...(mechanism[0]?.sources ?? [])),
+    source.openFda.found ? sourced(regulatoryLine, "OPENFDA") : sourced(regulatoryLine),
+    sourced(evidenceLine)
+  ];
 }
 
 function generateLongDescription(
@@ -1463,9 +1453,9 @@ function generateLongDescription(
   className: string,
   source: SourceBundle,
   grade: EvidenceGrade,
-  mechanism: string,
+  mechanism: SourcedText[],
   useCases: GeneratedContent["useCases"]
-): string {
+): Array<{ title: string; passages: SourcedText[] }> {
   const routeHint = firstNonEmpty(
     source.openFda.routeHints[0] ?? "",
     inferRoute(source.openFda.dosage),
@@ -1482,41 +1472,49 @@ function generateLongDescription(
   const topConditions = source.clinicalTrials.topConditions.slice(0, 4).join(", ");
   const chemblIndications = source.chembl.indications.slice(0, 4).join(", ");
 
-  const whatItIs = firstNonEmpty(
-    source.wikipedia.found ? source.wikipedia.summary : "",
-    source.peptiWiki.found ? source.peptiWiki.summary : "",
-    source.grokipedia.found ? source.grokipedia.summary : "",
-    source.nci.found ? source.nci.summary : "",
-    `${name} is categorized as ${className || "a peptide"} in this reference database.`
+  const whatItIs = firstSourced(
+    sourced(source.wikipedia.found ? source.wikipedia.summary : "", "WIKIPEDIA"),
+    sourced(source.peptiWiki.found ? source.peptiWiki.summary : "", "PEPTIWIKI"),
+    sourced(source.grokipedia.found ? source.grokipedia.summary : "", "GROKIPEDIA"),
+    sourced(source.nci.found ? source.nci.summary : "", "NCI"),
+    sourced(`${name} is categorized as ${className || "a peptide"} in this reference database.`)
   );
 
-  const mechanismText = firstNonEmpty(
+  const mechanismText = firstSourced(
     mechanism,
-    source.chembl.mechanisms[0] ? source.chembl.mechanisms[0] : "",
-    source.hubermanAi.found ? source.hubermanAi.summary : "",
-    `${name} has limited publicly indexed mechanism detail and should be interpreted with source-level caution.`
+    sourced(source.chembl.mechanisms[0] ? source.chembl.mechanisms[0] : "", "CHEMBL"),
+    sourced(source.hubermanAi.found ? source.hubermanAi.summary : "", "HUBERMAN_AI"),
+    sourced(`${name} has limited publicly indexed mechanism detail and should be interpreted with source-level caution.`)
   );
 
   const administrationText = source.openFda.found
     ? `${name} has label-linked administration information with typical ${routeHint.toLowerCase()} use and ${frequencyHint.toLowerCase()} scheduling${doseMentions ? ` (example label text snippets include ${doseMentions})` : ""}. Exact product dosing should always be confirmed against the current approved label.`
     : `${name} does not currently map to a robust US label dosing record in this pipeline. In available literature and protocol discussions, administration is usually ${routeHint.toLowerCase()} with ${frequencyHint.toLowerCase()} timing, but exact regimens are protocol-specific and not standardized for broad consumer use.`;
 
-  const useContextText = `Use-context mapping for ${name} currently emphasizes ${formatUseCaseList(useCases)}. ${topConditions ? `Common trial-linked condition clusters include ${topConditions}.` : ""} ${chemblIndications ? `ChEMBL indication terms include ${chemblIndications}.` : ""}`.trim();
+  const useContextText = [
+    sourced(`Use-context mapping for ${name} currently emphasizes ${formatUseCaseList(useCases)}.`),
+    sourced(topConditions ? `Common trial-linked condition clusters include ${topConditions}.` : "", "CLINICALTRIALS"),
+    sourced(chemblIndications ? `ChEMBL indication terms include ${chemblIndications}.` : "", "CHEMBL")
+  ];
 
-  const safetyText = firstNonEmpty(
-    pickSentence(source.openFda.adverseReactions, 260),
-    `Published safety data remain heterogeneous, and adverse-event interpretation should rely on study-specific populations, doses, and follow-up duration.`
+  const safetyText = firstSourced(
+    sourced(pickSentence(source.openFda.adverseReactions, 260), "OPENFDA"),
+    sourced(
+      `Published safety data remain heterogeneous, and adverse-event interpretation should rely on study-specific populations, doses, and follow-up duration.`
+    )
   );
 
-  const contraindicationText = firstNonEmpty(
-    pickSentence(source.openFda.contraindications, 220),
-    pickSentence(source.openFda.warnings, 220),
-    `Contraindications and risk exclusions should be assessed case-by-case using protocol criteria, comorbidity review, and clinician oversight.`
+  const contraindicationText = firstSourced(
+    sourced(pickSentence(source.openFda.contraindications, 220), "OPENFDA"),
+    sourced(pickSentence(source.openFda.warnings, 220), "OPENFDA"),
+    sourced(
+      `Contraindications and risk exclusions should be assessed case-by-case using protocol criteria, comorbidity review, and clinician oversight.`
+    )
   );
 
-  const interactionText = firstNonEmpty(
-    pickSentence(source.openFda.interactions, 220),
-    `Drug interaction characterization is often incomplete outside approved-label contexts, so co-therapy review is essential.`
+  const interactionText = firstSourced(
+    sourced(pickSentence(source.openFda.interactions, 220), "OPENFDA"),
+    sourced(`Drug interaction characterization is often incomplete outside approved-label contexts, so co-therapy review is essential.`)
   );
 
   const legalText = source.openFda.found
@@ -1527,24 +1525,40 @@ function generateLongDescription(
       ? `Growth-hormone-pathway peptides are commonly prohibited in tested competition frameworks, including WADA-class anti-doping categories.`
       : "";
 
+  const labelSources: ContentProvenanceSource[] = source.openFda.found ? ["OPENFDA"] : [];
+
   return [
-    sectionLine("What It Is", whatItIs),
-    sectionLine("Mechanism And Pharmacology", mechanismText),
-    sectionLine("Administration Patterns", administrationText),
-    sectionLine("Potential Benefits And Use Contexts", useContextText),
-    sectionLine(
-      "Safety And Tolerability",
-      `${safetyText} Contraindication context: ${contraindicationText} Interaction context: ${interactionText}`
-    ),
-    sectionLine("Common Pairings And Protocol Context", generateCommonPairingsContext(name, className)),
-    sectionLine("Legal And Regulatory Status", [legalText, sportsText].filter(Boolean).join(" ")),
-    sectionLine(
-      "Evidence Snapshot",
-      `As of ${TODAY}, ClinicalTrials.gov indexes ${source.clinicalTrials.total} studies for ${name} (completed ${source.clinicalTrials.completed}, recruiting ${source.clinicalTrials.recruiting}, active ${source.clinicalTrials.active}, terminated ${source.clinicalTrials.terminated}, posted results ${source.clinicalTrials.withResults}). PubMed returns ${source.pubMed.count} indexed records${source.pubMed.newestYear ? ` with publication years through ${source.pubMed.newestYear}` : ""}. Overall evidence grade: ${grade}.`
-    )
-  ]
-    .filter(Boolean)
-    .join("\n\n");
+    { title: "What It Is", passages: whatItIs },
+    { title: "Mechanism And Pharmacology", passages: mechanismText },
+    { title: "Administration Patterns", passages: [sourced(administrationText, ...labelSources)] },
+    { title: "Potential Benefits And Use Contexts", passages: useContextText },
+    {
+      title: "Safety And Tolerability",
+      passages: [
+        ...safetyText,
+        sourced("Contraindication context:"),
+        ...contraindicationText,
+        sourced("Interaction context:"),
+        ...interactionText
+      ]
+    },
+    { title: "Common Pairings And Protocol Context", passages: [sourced(generateCommonPairingsContext(name, className))] },
+    { title: "Legal And Regulatory Status", passages: [sourced(legalText, ...labelSources), sourced(sportsText)] },
+    {
+      title: "Evidence Snapshot",
+      passages: [
+        sourced(
+          `As of ${TODAY}, ClinicalTrials.gov indexes ${source.clinicalTrials.total} studies for ${name} (completed ${source.clinicalTrials.completed}, recruiting ${source.clinicalTrials.recruiting}, active ${source.clinicalTrials.active}, terminated ${source.clinicalTrials.terminated}, posted results ${source.clinicalTrials.withResults}).`,
+          "CLINICALTRIALS"
+        ),
+        sourced(
+          `PubMed returns ${source.pubMed.count} indexed records${source.pubMed.newestYear ? ` with publication years through ${source.pubMed.newestYear}` : ""}.`,
+          "PUBMED"
+        ),
+        sourced(`Overall evidence grade: ${grade}.`)
+      ]
+    }
+  ];
 }
 
 function generateSafety(source: SourceBundle, name: string) {
@@ -1616,7 +1630,13 @@ function generateDosing(source: SourceBundle, name: string): GeneratedContent["d
   };
 }
 
-function buildClaims(name: string, source: SourceBundle, grade: EvidenceGrade): GeneratedContent["claims"] {
+function claimGrade(
+  assessment: EvidenceAssessment
+): Pick<GeneratedContent["claims"][number], "evidenceGrade" | "gradeRationale"> {
+  return { evidenceGrade: assessment.grade, gradeRationale: assessment.rationale };
+}
+
+function buildClaims(name: string, source: SourceBundle, body: EvidenceAssessment): GeneratedContent["claims"] {
   const claims: GeneratedContent["claims"] = [];
 
   if (source.clinicalTrials.total > 0) {
@@ -1626,7 +1646,7 @@ function buildClaims(name: string, source: SourceBundle, grade: EvidenceGrade):
         `ClinicalTrials.gov search for ${name} currently returns ${source.clinicalTrials.total} studies (${source.clinicalTrials.completed} completed, ${source.clinicalTrials.recruiting} recruiting, ${source.clinicalTrials.active} active not recruiting, ${source.clinicalTrials.terminated} terminated).`,
         250
       ),
-      evidenceGrade: grade,
+      ...claimGrade(body),
       sourceUrl: source.clinicalTrials.searchUrl,
       sourceTitle: `ClinicalTrials.gov search results for ${name}`,
       publishedAt: source.clinicalTrials.latestUpdate || TODAY
@@ -1641,7 +1661,7 @@ function buildClaims(name: string, source: SourceBundle, grade: EvidenceGrade):
         `PubMed query for ${name} returns ${source.pubMed.count} records${source.pubMed.newestYear ? ` with publication years through ${source.pubMed.newestYear}` : ""}.${titleSnippet}`,
         250
       ),
-      evidenceGrade: grade,
+      ...claimGrade(body),
       sourceUrl: source.pubMed.searchUrl,
       sourceTitle: `PubMed search results for ${name}`,
       publishedAt: source.pubMed.newestYear ? `${source.pubMed.newestYear}-01-01` : TODAY
@@ -1655,7 +1675,7 @@ function buildClaims(name: string, source: SourceBundle, grade: EvidenceGrade):
         `openFDA label records were found for ${source.openFda.matchedTerm || name}${source.openFda.indications ? `; indication text includes: ${pickSentence(source.openFda.indications, 140)}` : "."}`,
         250
       ),
-      evidenceGrade: source.openFda.indications ? "A" : grade,
+      ...claimGrade(source.openFda.indications ? gradeReferenceSource("regulatory_label") : body),
       sourceUrl: source.openFda.sourceUrl,
       sourceTitle: `openFDA drug label query for ${source.openFda.matchedTerm || name}`,
       publishedAt: TODAY
@@ -1672,7 +1692,7 @@ function buildClaims(name: string, source: SourceBundle, grade: EvidenceGrade):
     claims.push({
       section: "External Sources: ChEMBL/PubChem",
       claimText: truncate(`${chemblSnippet} ${pubChemSnippet}`.trim(), 240),
-      evidenceGrade: grade,
+      ...claimGrade(body),
       sourceUrl: source.chembl.sourceUrl || source.pubChem.sourceUrl,
       sourceTitle: source.chembl.sourceUrl ? `ChEMBL record for ${name}` : `PubChem record for ${name}`,
       publishedAt: TODAY
@@ -1686,7 +1706,7 @@ function buildClaims(name: string, source: SourceBundle, grade: EvidenceGrade):
         `Wikipedia entry summary for ${name}: ${pickSentence(source.wikipedia.summary, 170)}`,
         250
       ),
-      evidenceGrade: "A",
+      ...claimGrade(gradeReferenceSource("encyclopedia")),
       sourceUrl: source.wikipedia.sourceUrl,
       sourceTitle: `Wikipedia entry for ${source.wikipedia.title || name}`,
       publishedAt: TODAY
@@ -1697,7 +1717,7 @@ function buildClaims(name: string, source: SourceBundle, grade: EvidenceGrade):
     claims.push({
       section: "External Sources: NCI",
       claimText: truncate(`NCI Drug Dictionary reference context for ${name}: ${pickSentence(source.nci.summary, 170)}`, 250),
-      evidenceGrade: "C",
+      ...claimGrade(gradeReferenceSource("drug_dictionary")),
       sourceUrl: source.nci.sourceUrl,
       sourceTitle: `NCI Drug Dictionary: ${name}`,
       publishedAt: TODAY
@@ -1708,7 +1728,7 @@ function buildClaims(name: string, source: SourceBundle, grade: EvidenceGrade):
     claims.push({
       section: "External Sources: Grokipedia",
       claimText: truncate(`Grokipedia context for ${name}: ${pickSentence(source.grokipedia.summary, 180)}`, 250),
-      evidenceGrade: "D",
+      ...claimGrade(gradeReferenceSource("ai_summary")),
       sourceUrl: source.grokipedia.sourceUrl,
       sourceTitle: source.grokipedia.title || `Grokipedia search results for ${name}`,
       publishedAt: TODAY
@@ -1719,7 +1739,7 @@ function buildClaims(name: string, source: SourceBundle, grade: EvidenceGrade):
     claims.push({
       section: "External Sources: PeptiWiki",
       claimText: truncate(`PeptiWiki context for ${name}: ${pickSentence(source.peptiWiki.summary, 180)}`, 250),
-      evidenceGrade: "D",
+      ...claimGrade(gradeReferenceSource("community_wiki")),
       sourceUrl: source.peptiWiki.sourceUrl,
       sourceTitle: source.peptiWiki.title || `PeptiWiki search results for ${name}`,
       publishedAt: TODAY
@@ -1730,7 +1750,7 @@ function buildClaims(name: string, source: SourceBundle, grade: EvidenceGrade):
     claims.push({
       section: "External Sources: Huberman Lab AI",
       claimText: truncate(`Huberman Lab AI search context for ${name}: ${pickSentence(source.hubermanAi.summary, 180)}`, 250),
-      evidenceGrade: "D",
+      ...claimGrade(gradeReferenceSource("ai_summary")),
       sourceUrl: source.hubermanAi.sourceUrl,
       sourceTitle: source.hubermanAi.title || `Huberman Lab AI search for ${name}`,
       publishedAt: TODAY
@@ -1741,25 +1761,37 @@ function buildClaims(name: string, source: SourceBundle, grade: EvidenceGrade):
 }
 
 function generateContent(name: string, className: string, source: SourceBundle): GeneratedContent {
-  const evidenceGrade = inferEvidenceGrade(source);
+  const evidence = assessEvidenceBody(source);
+  const evidenceGrade = evidence.grade;
   const useCases = inferUseCases(name, source, evidenceGrade);
   const mechanism = generateMechanism(name, className, source);
-  const effectivenessSummary = truncate(
-    `Current evidence synthesis for ${name} is grade ${evidenceGrade}, based on ${source.clinicalTrials.total} indexed ClinicalTrials.gov studies and ${source.pubMed.count} PubMed records${source.openFda.found ? ", with openFDA label data available." : "."}`,
-    320
-  );
+  const effectiveness = [
+    sourced(
+      `Current evidence synthesis for ${name} is grade ${evidenceGrade}, based on ${source.clinicalTrials.total} indexed ClinicalTrials.gov studies and ${source.pubMed.count} PubMed records${source.openFda.found ? ", with openFDA label data available." : "."}`,
+      "CLINICALTRIALS",
+      "PUBMED",
+      ...(source.openFda.found ? (["OPENFDA"] as const) : [])
+    )
+  ];
   const intro = generateIntroSummary(name, className, source, mechanism, evidenceGrade, useCases);
+  const longDescription = generateLongDescription(name, className, source, evidenceGrade, mechanism, useCases);
 
   return {
-    intro,
-    mechanism,
-    effectivenessSummary,
-    longDescription: generateLongDescription(name, className, source, evidenceGrade, mechanism, useCases),
+    intro: truncate(joinSourced(intro), 680),
+    mechanism: joinSourced(mechanism),
+    effectivenessSummary: truncate(joinSourced(effectiveness), 320),
+    longDescription: longDescription.map((section) => sectionLine(section.title, joinSourced(section.passages))).join("\n\n"),
     safety: generateSafety(source, name),
     dosing: generateDosing(source, name),
     useCases,
-    claims: buildClaims(name, source, evidenceGrade),
-    usStatus: source.openFda.found ? "US_FDA_APPROVED" : "INVESTIGATIONAL"
+    claims: buildClaims(name, source, evidence),
+    usStatus: source.openFda.found ? "US_FDA_APPROVED" : "INVESTIGATIONAL",
+    provenance: {
+      intro,
+      mechanism,
+      effectiveness_summary: effectiveness,
+      long_description: longDescription.flatMap((section) => section.passages)
+    }
   };
 }
 
@@ -1792,10 +1824,13 @@ async function ensureJurisdictions(supabase: SupabaseClient): Promise<Map<Jurisd
 }
 
 async function loadPeptides(supabase: SupabaseClient, options?: EnrichmentOptions): Promise<PeptideRow[]> {
-  let query = supabase
-    .from("peptides")
-    .select("id,slug,canonical_name,peptide_class,is_published,peptide_aliases(alias)")
-    .order("canonical_name", { ascending: true });
+  let query = supabase.from("peptides").select("id,slug,canonical_name,peptide_class,is_published,peptide_aliases(alias)");
+  if (options?.staleBefore) {
+    query = query
+      .or(`last_enriched_at.is.null,last_enriched_at.lt."${options.staleBefore}"`)
+      .order("last_enriched_at", { ascending: true, nullsFirst: true });
+  }
+  query = query.order("canonical_name", { ascending: true });
 
   if (options?.onlyPublished ?? true) {
     query = query.eq("is_published", true);
@@ -1808,6 +1843,9 @@ async function loadPeptides(supabase: SupabaseClient, options?: EnrichmentOption
   }
 
   const { data, error } = await query;
+  if (error?.message.includes("last_enriched_at")) {
+    throw new Error("Missing peptides.last_enriched_at. Re-run db/bootstrap.sql and try again.");
+  }
   if (error || !data) {
     throw new Error(error?.message ?? "Failed loading peptides for enrichment.");
   }
@@ -1827,51 +1865,6 @@ async function loadPeptides(supabase: SupabaseClient, options?: EnrichmentOption
     .filter((row) => row.id > 0 && row.slug && row.name);
 }
 
-async function findOrCreateCitationId(
-  supabase: SupabaseClient,
-  sourceUrl: string,
-  sourceTitle: string,
-  publishedAt: string
-): Promise<number> {
-  const normalizedSourceUrl = toHumanReadableSourceUrl(sourceUrl);
-  if (!normalizedSourceUrl) {
-    throw new Error("Missing or invalid citation URL.");
-  }
-
-  const { data: existingRows, error: existingError } = await supabase
-    .from("citations")
-    .select("id,source_title")
-    .eq("source_url", normalizedSourceUrl)
-    .eq("published_at", publishedAt)
-    .order("id", { ascending: false })
-    .limit(1);
-
-  if (existingError) {
-    throw new Error(existingError.message);
-  }
-
-  const existing = asArray(existingRows)[0];
-  const existingId = Number(asRecord(existing)?.id ?? 0);
-  if (existingId) {
-    return existingId;
-  }
-
-  const { data: inserted, error: insertError } = await supabase
-    .from("citations")
-    .insert({
-      source_url: normalizedSourceUrl,
-      source_title: sourceTitle || null,
-      published_at: publishedAt
-    })
-    .select("id")
-    .single();
-
-  if (insertError || !inserted?.id) {
-    throw new Error(insertError?.message ?? "Failed inserting citation.");
-  }
-  return Number(inserted.id);
-}
-
 async function upsertDosingEntry(
   supabase: SupabaseClient,
   peptideId: number,
@@ -1898,7 +1891,18 @@ async function upsertDosingEntry(
     starting_dose: dosing.startingDose,
     maintenance_dose: dosing.maintenanceDose,
     frequency: dosing.frequency,
-    notes: dosing.notes
+    notes: dosing.notes,
+    // New text invalidates the parsed amounts and any review of the old text.
+    ...toDosingColumns(
+      parseDosingText({
+        route: dosing.route,
+        startingDose: dosing.startingDose,
+        maintenanceDose: dosing.maintenanceDose,
+        frequency: dosing.frequency,
+        notes: dosing.notes
+      })
+    ),
+    reviewed_at: null
   };
 
   const preferred = asArray(existingRows)
@@ -1922,6 +1926,68 @@ async function upsertDosingEntry(
   }
 }
 
+// Profile, US safety, and US status as they were before this run, for the change feed.
+async function loadChangeBaseline(
+  supabase: SupabaseClient,
+  peptideId: number,
+  usJurisdictionId: number
+): Promise<{ profile: Record<string, unknown> | null; safety: Record<string, unknown> | null; usStatus: string | null }> {
+  const { data, error } = await supabase
+    .from("peptides")
+    .select(
+      "peptide_profiles(intro,mechanism,effectiveness_summary,long_description),peptide_safety_entries(jurisdiction_id,adverse_effects,contraindications,interactions,monitoring),peptide_regulatory_status(jurisdiction_id,status)"
+    )
+    .eq("id", peptideId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const record = asRecord(data);
+  const profiles = record?.peptide_profiles;
+  const isUs = (entry: Record<string, unknown> | null) => Number(entry?.jurisdiction_id ?? 0) === usJurisdictionId;
+  return {
+    profile: asRecord(Array.isArray(profiles) ? profiles[0] : profiles),
+    safety: asArray(record?.peptide_safety_entries).map((entry) => asRecord(entry)).find(isUs) ?? null,
+    usStatus: asString(asArray(record?.peptide_regulatory_status).map((entry) => asRecord(entry)).find(isUs)?.status) || null
+  };
+}
+
+// One record per source per passage that survived into the stored field text.
+function buildProvenanceRecords(generated: GeneratedContent, source: SourceBundle): ContentProvenanceInput[] {
+  const fieldText: Record<ContentProvenanceField, string> = {
+    intro: generated.intro,
+    mechanism: generated.mechanism,
+    effectiveness_summary: generated.effectivenessSummary,
+    long_description: generated.longDescription
+  };
+  const seen = new Set<string>();
+  const records: ContentProvenanceInput[] = [];
+  for (const field of PROVENANCE_FIELDS) {
+    for (const passage of generated.provenance[field]) {
+      const excerpt = passage.sources.length > 0 ? locateExcerpt(fieldText[field], passage.text) : null;
+      if (!excerpt) {
+        continue;
+      }
+      for (const key of passage.sources) {
+        const dedupeKey = `${field}|${key}|${excerpt}`;
+        if (seen.has(dedupeKey)) {
+          continue;
+        }
+        seen.add(dedupeKey);
+        records.push({
+          field,
+          source: key,
+          sourceUrl: sourceUrlFor(source, key),
+          excerpt,
+          fetchedAt: source.fetchedAt[key] ?? new Date().toISOString()
+        });
+      }
+    }
+  }
+  return records;
+}
+
 function ensureEvidenceGrade(value: EvidenceGrade): EvidenceGrade {
   if (value === "A" || value === "B" || value === "C" || value === "D" || value === "I") {
     return value;
@@ -1929,6 +1995,14 @@ function ensureEvidenceGrade(value: EvidenceGrade): EvidenceGrade {
   return "I";
 }
 
+export async function listEnrichmentTargets(
+  supabase: SupabaseClient,
+  options?: Pick<EnrichmentOptions, "limit" | "onlyPublished" | "staleBefore">
+): Promise<Array<{ slug: string; name: string }>> {
+  const peptides = await loadPeptides(supabase, options);
+  return peptides.map((peptide) => ({ slug: peptide.slug, name: peptide.name }));
+}
+
 export async function enrichPeptideContent(
   supabase: SupabaseClient,
   options?: EnrichmentOptions
@@ -1949,6 +2023,8 @@ export async function enrichPeptideContent(
   let safetyUpdates = 0;
   let dosingUpdates = 0;
   let claimUpdates = 0;
+  let interactionUpdates = 0;
+  let provenanceRecords = 0;
   let failures = 0;
   const sourceHits: EnrichmentSourceHits = {
     openFda: 0,
@@ -1962,8 +2038,13 @@ export async function enrichPeptideContent(
   };
 
   for (const peptide of peptides) {
+    const startedAt = Date.now();
+    const before = { claimUpdates, useCaseUpdates, interactionUpdates, provenanceRecords };
+    let sources: IngestSourceOutcome[] = [];
+    let itemError: string | null = null;
     try {
       const source = await collectSourceBundle(peptide.name, peptide.aliases);
+      sources = bundleSourceOutcomes(source);
       if (source.openFda.found) sourceHits.openFda += 1;
       if (source.pubChem.found) sourceHits.pubChem += 1;
       if (source.chembl.found) sourceHits.chembl += 1;
@@ -1974,33 +2055,33 @@ export async function enrichPeptideContent(
       if (source.hubermanAi.found) sourceHits.hubermanAi += 1;
 
       const generated = generateContent(peptide.name, peptide.className, source);
-
-      const { error: profileError } = await supabase.from("peptide_profiles").upsert(
-        {
-          peptide_id: peptide.id,
-          intro: generated.intro,
-          mechanism: generated.mechanism,
-          effectiveness_summary: generated.effectivenessSummary,
-          long_description: generated.longDescription
-        },
-        { onConflict: "peptide_id" }
-      );
+      const previous = await loadChangeBaseline(supabase, peptide.id, usJurisdictionId);
+
+      const profile = {
+        peptide_id: peptide.id,
+        intro: generated.intro,
+        mechanism: generated.mechanism,
+        effectiveness_summary: generated.effectivenessSummary,
+        long_description: generated.longDescription
+      };
+      const { error: profileError } = await supabase.from("peptide_profiles").upsert(profile, { onConflict: "peptide_id" });
       if (profileError) {
         throw new Error(profileError.message);
       }
       profileUpdates += 1;
-
-      const { error: safetyError } = await supabase.from("peptide_safety_entries").upsert(
-        {
-          peptide_id: peptide.id,
-          jurisdiction_id: usJurisdictionId,
-          adverse_effects: generated.safety.adverseEffects,
-          contraindications: generated.safety.contraindications,
-          interactions: generated.safety.interactions,
-          monitoring: generated.safety.monitoring
-        },
-        { onConflict: "peptide_id,jurisdiction_id" }
-      );
+      provenanceRecords += await replacePeptideProvenance(supabase, peptide.id, buildProvenanceRecords(generated, source));
+
+      const safety = {
+        peptide_id: peptide.id,
+        jurisdiction_id: usJurisdictionId,
+        adverse_effects: generated.safety.adverseEffects,
+        contraindications: generated.safety.contraindications,
+        interactions: generated.safety.interactions,
+        monitoring: generated.safety.monitoring
+      };
+      const { error: safetyError } = await supabase
+        .from("peptide_safety_entries")
+        .upsert(safety, { onConflict: "peptide_id,jurisdiction_id" });
       if (safetyError) {
         throw new Error(safetyError.message);
       }
@@ -2035,6 +2116,26 @@ export async function enrichPeptideContent(
         throw new Error(upsertStatusError.message);
       }
 
+      await recordContentChanges(supabase, "CONTENT_ENRICHMENT", [
+        ...diffContentFields(previous.profile, profile, PROFILE_CHANGE_FIELDS).map((change) => ({
+          entityType: "PEPTIDE" as const,
+          peptideId: peptide.id,
+          ...change
+        })),
+        ...diffContentFields(previous.safety, safety, safetyChangeFields("US")).map((change) => ({
+          entityType: "SAFETY" as const,
+          peptideId: peptide.id,
+          ...change
+        })),
+        {
+          entityType: "REGULATORY_STATUS",
+          peptideId: peptide.id,
+          field: "US regulatory status",
+          previous: previous.usStatus ? labelFromSnake(previous.usStatus) : null,
+          next: labelFromSnake(targetStatus)
+        }
+      ]);
+
       for (const useCase of generated.useCases) {
         let useCaseId = useCaseIdCache.get(useCase.slug);
         if (!useCaseId) {
@@ -2098,12 +2199,17 @@ export async function enrichPeptideContent(
         if (!claim.sourceUrl || !claim.claimText) {
           continue;
         }
-        const citationId = await findOrCreateCitationId(supabase, claim.sourceUrl, claim.sourceTitle, claim.publishedAt);
+        const citationId = await findOrCreateCitation(supabase, {
+          sourceUrl: claim.sourceUrl,
+          sourceTitle: claim.sourceTitle,
+          publishedAt: claim.publishedAt
+        });
         const { error: claimError } = await supabase.from("peptide_claims").insert({
           peptide_id: peptide.id,
           section: claim.section,
           claim_text: claim.claimText,
           evidence_grade: claim.evidenceGrade,
+          grade_rationale: claim.gradeRationale,
           citation_id: citationId
         });
         if (claimError) {
@@ -2112,11 +2218,49 @@ export async function enrichPeptideContent(
         claimUpdates += 1;
       }
 
+      if (source.openFda.found && source.openFda.interactionsText) {
+        const labelCitationId = await findOrCreateCitation(supabase, {
+          sourceUrl: source.openFda.sourceUrl,
+          sourceTitle: `openFDA drug label: ${source.openFda.matchedTerm}`,
+          publishedAt: TODAY,
+          publicationType: "REGULATORY_LABEL"
+        });
+        interactionUpdates += await syncLabelInteractions(supabase, {
+          peptideId: peptide.id,
+          labelText: source.openFda.interactionsText,
+          citationId: labelCitationId
+        });
+      }
+
+      const { error: stampError } = await supabase
+        .from("peptides")
+        .update({ last_enriched_at: new Date().toISOString() })
+        .eq("id", peptide.id);
+      if (stampError) {
+        throw new Error(stampError.message);
+      }
       peptidesUpdated += 1;
       await sleep(delayMs);
-    } catch {
+    } catch (error) {
       failures += 1;
+      itemError = errorMessage(error);
     }
+
+    await options?.audit?.record({
+      entityType: "PEPTIDE",
+      entityKey: peptide.slug,
+      entityLabel: peptide.name,
+      status: itemError ? "FAILED" : "SUCCEEDED",
+      sources,
+      counters: {
+        claimUpdates: claimUpdates - before.claimUpdates,
+        useCaseUpdates: useCaseUpdates - before.useCaseUpdates,
+        interactionUpdates: interactionUpdates - before.interactionUpdates,
+        provenanceRecords: provenanceRecords - before.provenanceRecords
+      },
+      error: itemError,
+      durationMs: Date.now() - startedAt
+    });
   }
 
   return {
@@ -2127,6 +2271,8 @@ export async function enrichPeptideContent(
     safetyUpdates,
     dosingUpdates,
     claimUpdates,
+    interactionUpdates,
+    provenanceRecords,
     failures,
     sourceHits
   };
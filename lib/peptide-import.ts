@@ -0,0 +1,594 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { canonicalizeCitation, normalizeCitationUrl } from "@/lib/citations";
+import { DOSING_CONTEXTS, EVIDENCE_GRADES, JURISDICTIONS, labelFromSnake } from "@/lib/constants";
+import { recordContentChanges, type ContentChangeInput } from "@/lib/content-changes";
+import { STATUS_MODELS, statusForJurisdiction, type ExpandedPeptideSeed } from "@/lib/expanded-dataset";
+import type { ContentChangeEntity, ContentChangeSource, DosingContext, EvidenceGrade } from "@/lib/types";
+
+export type PeptideImportFormat = "csv" | "json";
+
+export type PeptideImportRowError = {
+  row: number;
+  field: string;
+  message: string;
+};
+
+export type PeptideImportFieldChange = {
+  field: string;
+  before: string;
+  after: string;
+};
+
+export type PeptideImportRowDiff = {
+  row: number;
+  slug: string;
+  action: "create" | "update" | "unchanged";
+  changes: PeptideImportFieldChange[];
+};
+
+export type ParsedPeptideImport = {
+  rowCount: number;
+  seeds: Array<{ row: number; seed: ExpandedPeptideSeed }>;
+  errors: PeptideImportRowError[];
+};
+
+type PeptideImportBatchResult = {
+  batchId: number;
+  rowCount: number;
+  errorCount: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+};
+
+type PeptideImportApplyResult = {
+  batchId: number;
+  imported: number;
+};
+
+// CSV headers use dotted paths into ExpandedPeptideSeed; aliases are separated by "|".
+export const PEPTIDE_IMPORT_CSV_COLUMNS = [
+  "slug",
+  "name",
+  "peptideClass",
+  "statusModel",
+  "intro",
+  "mechanism",
+  "effectivenessSummary",
+  "longDescription",
+  "aliases",
+  "useCase.slug",
+  "useCase.name",
+  "useCase.evidenceGrade",
+  "useCase.consumerSummary",
+  "useCase.clinicalSummary",
+  "dosing.context",
+  "dosing.population",
+  "dosing.route",
+  "dosing.startingDose",
+  "dosing.maintenanceDose",
+  "dosing.frequency",
+  "dosing.notes",
+  "safety.adverseEffects",
+  "safety.contraindications",
+  "safety.interactions",
+  "safety.monitoring",
+  "claim.section",
+  "claim.claimText",
+  "claim.evidenceGrade",
+  "claim.sourceUrl",
+  "claim.sourceTitle",
+  "claim.publishedAt"
+] as const;
+
+const MAX_IMPORT_ROWS = 2000;
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ALIAS_SEPARATOR = "|";
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function asArray<T = unknown>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function asNumber(value: unknown): number {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
+  return 0;
+}
+
+function firstRecord(value: unknown): Record<string, unknown> | null {
+  return Array.isArray(value) ? asRecord(value[0]) : asRecord(value);
+}
+
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, "");
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((entry) => entry.some((value) => value.trim().length > 0));
+}
+
+function csvRowToRecord(headers: string[], values: string[]): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  headers.forEach((header, index) => {
+    const value = values[index] ?? "";
+    const path = header.split(".");
+    if (path.length === 1) {
+      record[header] = value;
+      return;
+    }
+    const [group, field] = path;
+    const nested = asRecord(record[group]) ?? {};
+    nested[field] = value;
+    record[group] = nested;
+  });
+  return record;
+}
+
+function validateSeed(raw: Record<string, unknown>, row: number, errors: PeptideImportRowError[]): ExpandedPeptideSeed | null {
+  const errorCountBefore = errors.length;
+  const fail = (field: string, message: string) => errors.push({ row, field, message });
+
+  const required = (group: Record<string, unknown> | null, prefix: string, field: string): string => {
+    const value = asString(group?.[field]);
+    if (!value) {
+      fail(prefix ? `${prefix}.${field}` : field, "Required.");
+    }
+    return value;
+  };
+
+  const oneOf = <T extends string>(value: string, allowed: readonly T[], field: string): T => {
+    if (value && !allowed.includes(value as T)) {
+      fail(field, `Must be one of ${allowed.join(", ")}.`);
+    }
+    return value as T;
+  };
+
+  const useCase = asRecord(raw.useCase);
+  const dosing = asRecord(raw.dosing);
+  const safety = asRecord(raw.safety);
+  const claim = asRecord(raw.claim);
+
+  const slug = required(raw, "", "slug").toLowerCase();
+  if (slug && !SLUG_PATTERN.test(slug)) {
+    fail("slug", "Use lowercase letters, numbers, and single hyphens.");
+  }
+
+  const useCaseSlug = required(useCase, "useCase", "slug").toLowerCase();
+  if (useCaseSlug && !SLUG_PATTERN.test(useCaseSlug)) {
+    fail("useCase.slug", "Use lowercase letters, numbers, and single hyphens.");
+  }
+
+  const publishedAt = required(claim, "claim", "publishedAt");
+  if (publishedAt && (!DATE_PATTERN.test(publishedAt) || Number.isNaN(Date.parse(publishedAt)))) {
+    fail("claim.publishedAt", "Use an ISO date (YYYY-MM-DD).");
+  }
+
+  const rawSourceUrl = required(claim, "claim", "sourceUrl");
+  const sourceUrl = rawSourceUrl ? normalizeCitationUrl(rawSourceUrl) : null;
+  if (rawSourceUrl && !sourceUrl) {
+    fail("claim.sourceUrl", "Must be an http(s) URL.");
+  }
+
+  const aliases = Array.isArray(raw.aliases)
+    ? asArray(raw.aliases).map((alias) => asString(alias)).filter(Boolean)
+    : asString(raw.aliases)
+        .split(ALIAS_SEPARATOR)
+        .map((alias) => alias.trim())
+        .filter(Boolean);
+
+  const seed: ExpandedPeptideSeed = {
+    slug,
+    name: required(raw, "", "name"),
+    peptideClass: required(raw, "", "peptideClass"),
+    statusModel: oneOf(required(raw, "", "statusModel"), STATUS_MODELS, "statusModel"),
+    intro: required(raw, "", "intro"),
+    mechanism: required(raw, "", "mechanism"),
+    effectivenessSummary: required(raw, "", "effectivenessSummary"),
+    longDescription: required(raw, "", "longDescription"),
+    useCase: {
+      slug: useCaseSlug,
+      name: required(useCase, "useCase", "name"),
+      evidenceGrade: oneOf<EvidenceGrade>(
+        required(useCase, "useCase", "evidenceGrade").toUpperCase(),
+        EVIDENCE_GRADES,
+        "useCase.evidenceGrade"
+      ),
+      consumerSummary: required(useCase, "useCase", "consumerSummary"),
+      clinicalSummary: required(useCase, "useCase", "clinicalSummary")
+    },
+    dosing: {
+      context: oneOf<DosingContext>(required(dosing, "dosing", "context").toUpperCase(), DOSING_CONTEXTS, "dosing.context"),
+      population: required(dosing, "dosing", "population"),
+      route: required(dosing, "dosing", "route"),
+      startingDose: required(dosing, "dosing", "startingDose"),
+      maintenanceDose: required(dosing, "dosing", "maintenanceDose"),
+      frequency: required(dosing, "dosing", "frequency"),
+      notes: asString(dosing?.notes)
+    },
+    safety: {
+      adverseEffects: required(safety, "safety", "adverseEffects"),
+      contraindications: required(safety, "safety", "contraindications"),
+      interactions: required(safety, "safety", "interactions"),
+      monitoring: required(safety, "safety", "monitoring")
+    },
+    claim: {
+      section: required(claim, "claim", "section"),
+      claimText: required(claim, "claim", "claimText"),
+      evidenceGrade: oneOf<EvidenceGrade>(
+        required(claim, "claim", "evidenceGrade").toUpperCase(),
+        EVIDENCE_GRADES,
+        "claim.evidenceGrade"
+      ),
+      sourceUrl: sourceUrl ?? "",
+      sourceTitle: asString(claim?.sourceTitle),
+      publishedAt
+    },
+    aliases: Array.from(new Set(aliases))
+  };
+
+  return errors.length === errorCountBefore ? seed : null;
+}
+
+export function parsePeptideImport(content: string, format: PeptideImportFormat): ParsedPeptideImport {
+  const errors: PeptideImportRowError[] = [];
+  let records: Array<{ row: number; record: Record<string, unknown> }> = [];
+
+  if (format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid JSON.";
+      return { rowCount: 0, seeds: [], errors: [{ row: 0, field: "file", message }] };
+    }
+    const items = Array.isArray(parsed) ? parsed : asArray(asRecord(parsed)?.peptides);
+    if (items.length === 0) {
+      return { rowCount: 0, seeds: [], errors: [{ row: 0, field: "file", message: "Expected a JSON array of peptides." }] };
+    }
+    records = items.map((item, index) => ({ row: index + 1, record: asRecord(item) ?? {} }));
+  } else {
+    const [headerRow, ...valueRows] = parseCsv(content);
+    const headers = (headerRow ?? []).map((header) => header.trim());
+    const known = new Set<string>(PEPTIDE_IMPORT_CSV_COLUMNS);
+    const unknown = headers.filter((header) => !known.has(header));
+    if (headers.length === 0) {
+      return { rowCount: 0, seeds: [], errors: [{ row: 0, field: "file", message: "CSV header row is missing." }] };
+    }
+    if (unknown.length > 0) {
+      errors.push({ row: 0, field: "header", message: `Unknown columns: ${unknown.join(", ")}.` });
+    }
+    // Row numbers match the spreadsheet: the header is row 1.
+    records = valueRows.map((values, index) => ({ row: index + 2, record: csvRowToRecord(headers, values) }));
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    errors.push({ row: 0, field: "file", message: `Import is limited to ${MAX_IMPORT_ROWS} rows.` });
+    return { rowCount: records.length, seeds: [], errors };
+  }
+
+  const seeds: ParsedPeptideImport["seeds"] = [];
+  const rowBySlug = new Map<string, number>();
+  for (const { row, record } of records) {
+    const seed = validateSeed(record, row, errors);
+    if (!seed) {
+      continue;
+    }
+    const duplicateRow = rowBySlug.get(seed.slug);
+    if (duplicateRow !== undefined) {
+      errors.push({ row, field: "slug", message: `Duplicate slug; already used on row ${duplicateRow}.` });
+      continue;
+    }
+    rowBySlug.set(seed.slug, row);
+    seeds.push({ row, seed });
+  }
+
+  return { rowCount: records.length, seeds, errors };
+}
+
+function change(changes: PeptideImportFieldChange[], field: string, before: string, after: string) {
+  if (before.trim() !== after.trim()) {
+    changes.push({ field, before, after });
+  }
+}
+
+function rowsForJurisdiction(value: unknown, code: string): Record<string, unknown>[] {
+  return asArray(value)
+    .map((row) => asRecord(row))
+    .filter((row): row is Record<string, unknown> => row !== null && asString(firstRecord(row.jurisdictions)?.code) === code);
+}
+
+function diffSeed(row: number, seed: ExpandedPeptideSeed, existing: Record<string, unknown> | undefined): PeptideImportRowDiff {
+  if (!existing) {
+    return { row, slug: seed.slug, action: "create", changes: [] };
+  }
+
+  const changes: PeptideImportFieldChange[] = [];
+  const profile = firstRecord(existing.peptide_profiles);
+  change(changes, "name", asString(existing.canonical_name), seed.name);
+  change(changes, "peptideClass", asString(existing.peptide_class), seed.peptideClass);
+  change(changes, "intro", asString(profile?.intro), seed.intro);
+  change(changes, "mechanism", asString(profile?.mechanism), seed.mechanism);
+  change(changes, "effectivenessSummary", asString(profile?.effectiveness_summary), seed.effectivenessSummary);
+  change(changes, "longDescription", asString(profile?.long_description), seed.longDescription);
+
+  const existingAliases = asArray(existing.peptide_aliases).map((entry) => asString(asRecord(entry)?.alias)).filter(Boolean);
+  const nextAliases = Array.from(new Set([...existingAliases, ...(seed.aliases ?? [])]));
+  change(changes, "aliases", existingAliases.join(", "), nextAliases.join(", "));
+
+  for (const code of JURISDICTIONS) {
+    const current = rowsForJurisdiction(existing.peptide_regulatory_status, code)
+      .map((entry) => asString(entry.status))
+      .sort()
+      .join(", ");
+    change(changes, `status.${code}`, current, statusForJurisdiction(seed.statusModel, code));
+  }
+
+  const useCase = rowsForJurisdiction(existing.peptide_use_cases, "US").find(
+    (entry) => asString(firstRecord(entry.use_cases)?.slug) === seed.useCase.slug
+  );
+  change(changes, `useCase.${seed.useCase.slug}.evidenceGrade`, asString(useCase?.evidence_grade), seed.useCase.evidenceGrade);
+  change(changes, `useCase.${seed.useCase.slug}.consumerSummary`, asString(useCase?.consumer_summary), seed.useCase.consumerSummary);
+  change(changes, `useCase.${seed.useCase.slug}.clinicalSummary`, asString(useCase?.clinical_summary), seed.useCase.clinicalSummary);
+
+  const dosing = rowsForJurisdiction(existing.peptide_dosing_entries, "US").find(
+    (entry) => asString(entry.context) === seed.dosing.context && asString(entry.population) === seed.dosing.population
+  );
+  change(changes, "dosing.route", asString(dosing?.route), seed.dosing.route);
+  change(changes, "dosing.startingDose", asString(dosing?.starting_dose), seed.dosing.startingDose);
+  change(changes, "dosing.maintenanceDose", asString(dosing?.maintenance_dose), seed.dosing.maintenanceDose);
+  change(changes, "dosing.frequency", asString(dosing?.frequency), seed.dosing.frequency);
+  change(changes, "dosing.notes", asString(dosing?.notes), seed.dosing.notes);
+
+  const safety = rowsForJurisdiction(existing.peptide_safety_entries, "US")[0];
+  change(changes, "safety.adverseEffects", asString(safety?.adverse_effects), seed.safety.adverseEffects);
+  change(changes, "safety.contraindications", asString(safety?.contraindications), seed.safety.contraindications);
+  change(changes, "safety.interactions", asString(safety?.interactions), seed.safety.interactions);
+  change(changes, "safety.monitoring", asString(safety?.monitoring), seed.safety.monitoring);
+
+  const claim = asArray(existing.peptide_claims)
+    .map((entry) => asRecord(entry))
+    .find((entry) => asString(entry?.section) === seed.claim.section && asString(entry?.claim_text) === seed.claim.claimText);
+  if (!claim) {
+    change(changes, "claim", "", `${seed.claim.section}: ${seed.claim.claimText}`);
+  } else {
+    const citation = firstRecord(claim.citations);
+    change(changes, "claim.evidenceGrade", asString(claim.evidence_grade), seed.claim.evidenceGrade);
+    change(changes, "claim.sourceUrl", asString(citation?.source_url), seed.claim.sourceUrl);
+    change(changes, "claim.publishedAt", asString(citation?.published_at), seed.claim.publishedAt);
+  }
+
+  return { row, slug: seed.slug, action: changes.length > 0 ? "update" : "unchanged", changes };
+}
+
+export async function diffPeptideImport(
+  supabase: SupabaseClient,
+  seeds: ParsedPeptideImport["seeds"]
+): Promise<PeptideImportRowDiff[]> {
+  const existingBySlug = new Map<string, Record<string, unknown>>();
+  const slugs = seeds.map(({ seed }) => seed.slug);
+
+  for (let start = 0; start < slugs.length; start += 100) {
+    const { data, error } = await supabase
+      .from("peptides")
+      .select(
+        "slug,canonical_name,peptide_class,peptide_profiles(intro,mechanism,effectiveness_summary,long_description),peptide_aliases(alias),peptide_regulatory_status(status,jurisdictions(code)),peptide_use_cases(evidence_grade,consumer_summary,clinical_summary,use_cases(slug),jurisdictions(code)),peptide_dosing_entries(context,population,route,starting_dose,maintenance_dose,frequency,notes,jurisdictions(code)),peptide_safety_entries(adverse_effects,contraindications,interactions,monitoring,jurisdictions(code)),peptide_claims(section,claim_text,evidence_grade,citations(source_url,published_at))"
+      )
+      .in("slug", slugs.slice(start, start + 100));
+    if (error) {
+      throw new Error(error.message);
+    }
+    for (const row of asArray(data)) {
+      const record = asRecord(row);
+      if (record) {
+        existingBySlug.set(asString(record.slug), record);
+      }
+    }
+  }
+
+  return seeds.map(({ row, seed }) => diffSeed(row, seed, existingBySlug.get(seed.slug)));
+}
+
+const IMPORT_CHANGE_ENTITIES: Record<string, ContentChangeEntity> = {
+  status: "REGULATORY_STATUS",
+  useCase: "USE_CASE",
+  dosing: "DOSING",
+  safety: "SAFETY",
+  claim: "CLAIM"
+};
+
+// Turns a dry-run field path ("dosing.startingDose", "status.US") into a change feed entry.
+function toImportChange(peptideId: number, change: PeptideImportFieldChange): ContentChangeInput {
+  const [scope, ...rest] = change.field.split(".");
+  const isStatus = scope === "status";
+  const label = isStatus
+    ? `${rest[0]} regulatory status`
+    : [scope, ...rest].map((part) => part.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase()).join(" ");
+  return {
+    entityType: IMPORT_CHANGE_ENTITIES[scope] ?? "PEPTIDE",
+    peptideId,
+    field: label.charAt(0).toUpperCase() + label.slice(1),
+    previous: isStatus && change.before ? labelFromSnake(change.before) : change.before,
+    next: isStatus && change.after ? labelFromSnake(change.after) : change.after
+  };
+}
+
+// Logs a seed diff taken before the write to the change feed, once the seeds have landed.
+export async function recordSeedChanges(
+  supabase: SupabaseClient,
+  source: ContentChangeSource,
+  diff: PeptideImportRowDiff[]
+): Promise<number> {
+  const changedRows = diff.filter((entry) => entry.action !== "unchanged");
+  if (changedRows.length === 0) {
+    return 0;
+  }
+
+  const { data: peptideRows, error: peptideError } = await supabase
+    .from("peptides")
+    .select("id,slug,canonical_name")
+    .in("slug", changedRows.map((entry) => entry.slug));
+  if (peptideError) {
+    throw new Error(peptideError.message);
+  }
+  const peptideBySlug = new Map(asArray(peptideRows).map((row) => [asString(asRecord(row)?.slug), asRecord(row)] as const));
+
+  return recordContentChanges(
+    supabase,
+    source,
+    changedRows.flatMap((entry): ContentChangeInput[] => {
+      const peptide = peptideBySlug.get(entry.slug);
+      const peptideId = asNumber(peptide?.id);
+      if (!peptideId) {
+        return [];
+      }
+      return entry.action === "create"
+        ? [{ entityType: "PEPTIDE", entityId: peptideId, peptideId, field: "Profile added", next: asString(peptide?.canonical_name) }]
+        : entry.changes.map((change) => toImportChange(peptideId, change));
+    })
+  );
+}
+
+// The import function matches citations on the same canonical key the citation service uses.
+function toImportPayload(seed: ExpandedPeptideSeed) {
+  const citation = canonicalizeCitation(seed.claim);
+  return {
+    ...seed,
+    claim: {
+      ...seed.claim,
+      canonicalKey: citation?.canonicalKey ?? null,
+      pmid: citation?.pmid ?? null,
+      doi: citation?.doi ?? null,
+      nctId: citation?.nctId ?? null,
+      publicationType: citation?.publicationType ?? null
+    },
+    aliases: seed.aliases ?? [],
+    statuses: JURISDICTIONS.map((code) => ({ code, status: statusForJurisdiction(seed.statusModel, code) }))
+  };
+}
+
+export async function createPeptideImportBatch(
+  supabase: SupabaseClient,
+  input: { fileName: string; format: PeptideImportFormat; content: string }
+): Promise<PeptideImportBatchResult> {
+  const parsed = parsePeptideImport(input.content, input.format);
+  const diff = parsed.errors.length === 0 ? await diffPeptideImport(supabase, parsed.seeds) : [];
+
+  const { data, error } = await supabase
+    .from("peptide_import_batches")
+    .insert({
+      file_name: input.fileName || `import.${input.format}`,
+      format: input.format,
+      row_count: parsed.rowCount,
+      seeds: parsed.seeds.map(({ seed }) => seed),
+      errors: parsed.errors,
+      diff
+    })
+    .select("id")
+    .single();
+  if (error || !data?.id) {
+    throw new Error(error?.message ?? "Failed to save import batch.");
+  }
+
+  return {
+    batchId: Number(data.id),
+    rowCount: parsed.rowCount,
+    errorCount: parsed.errors.length,
+    created: diff.filter((entry) => entry.action === "create").length,
+    updated: diff.filter((entry) => entry.action === "update").length,
+    unchanged: diff.filter((entry) => entry.action === "unchanged").length
+  };
+}
+
+export async function applyPeptideImportBatch(supabase: SupabaseClient, batchId: number): Promise<PeptideImportApplyResult> {
+  const { data: batch, error: batchError } = await supabase
+    .from("peptide_import_batches")
+    .select("id,seeds,errors,applied_at")
+    .eq("id", batchId)
+    .maybeSingle();
+  if (batchError || !batch) {
+    throw new Error(batchError?.message ?? `Import batch ${batchId} not found.`);
+  }
+  if (batch.applied_at) {
+    throw new Error(`Import batch ${batchId} was already applied.`);
+  }
+  if (asArray(batch.errors).length > 0) {
+    throw new Error(`Import batch ${batchId} has validation errors; fix the file and run a new dry run.`);
+  }
+
+  // Re-validate the stored rows so the database only ever receives seeds that pass the current rules.
+  const revalidated = parsePeptideImport(JSON.stringify(asArray(batch.seeds)), "json");
+  if (revalidated.errors.length > 0 || revalidated.seeds.length === 0) {
+    throw new Error(`Import batch ${batchId} no longer validates; run a new dry run.`);
+  }
+
+  // Diff again at apply time; the dry-run diff may be stale if the catalog changed since upload.
+  const diff = await diffPeptideImport(supabase, revalidated.seeds);
+
+  // The function marks the batch applied in the same transaction, so a concurrent apply fails there.
+  const { data: imported, error: importError } = await supabase.rpc("import_peptide_seeds", {
+    target_batch_id: batchId,
+    seeds: revalidated.seeds.map(({ seed }) => toImportPayload(seed))
+  });
+  if (importError) {
+    if (importError.message.includes("import_peptide_seeds")) {
+      throw new Error("Missing import_peptide_seeds function. Re-run db/bootstrap.sql and try again.");
+    }
+    throw new Error(importError.message);
+  }
+
+  await recordSeedChanges(supabase, "BULK_IMPORT", diff);
+  return { batchId, imported: asNumber(imported) };
+}
@@ -0,0 +1,344 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PeptideDetail, PeptideSummary } from "@/lib/types";
+
+export type SearchSnippetPart = {
+  text: string;
+  highlight: boolean;
+};
+
+export type PeptideSearchHit = {
+  slug: string;
+  name: string;
+  score: number;
+  matchedAlias: string | null;
+  snippet: SearchSnippetPart[];
+};
+
+export type PeptideSearchResult = {
+  query: string;
+  engine: "postgres" | "memory";
+  hits: PeptideSearchHit[];
+  suggestion: string | null;
+};
+
+export type PeptideSearchDocument = {
+  slug: string;
+  name: string;
+  aliases: string[];
+  className: string;
+  useCases: string[];
+  intro: string;
+  mechanism: string;
+};
+
+export type PeptideSearchEngine = {
+  engine: PeptideSearchResult["engine"];
+  search(query: string, limit?: number): Promise<PeptideSearchResult>;
+};
+
+const DEFAULT_LIMIT = 60;
+const SUGGESTION_MIN_SIMILARITY = 0.45;
+const FUZZY_MIN_SIMILARITY = 0.3;
+const HIGHLIGHT_START = "[[";
+const HIGHLIGHT_STOP = "]]";
+const SNIPPET_RADIUS = 90;
+
+const FIELD_WEIGHTS = {
+  name: 1,
+  alias: 0.85,
+  className: 0.4,
+  useCases: 0.4,
+  intro: 0.2,
+  mechanism: 0.1
+} as const;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function asNumber(value: unknown): number {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
+  return 0;
+}
+
+function normalize(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function tokenize(value: string): string[] {
+  return normalize(value)
+    .split(" ")
+    .filter((token) => token.length > 0);
+}
+
+function trigrams(value: string): Set<string> {
+  const grams = new Set<string>();
+  for (const word of tokenize(value)) {
+    const padded = `  ${word} `;
+    for (let index = 0; index < padded.length - 2; index += 1) {
+      grams.add(padded.slice(index, index + 3));
+    }
+  }
+  return grams;
+}
+
+export function trigramSimilarity(left: string, right: string): number {
+  const a = trigrams(left);
+  const b = trigrams(right);
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const gram of a) {
+    if (b.has(gram)) {
+      shared += 1;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function tokenHitScore(text: string, tokens: string[]): number {
+  if (!text || tokens.length === 0) {
+    return 0;
+  }
+  const words = tokenize(text);
+  let hits = 0;
+  for (const token of tokens) {
+    if (words.includes(token)) {
+      hits += 1;
+    } else if (words.some((word) => word.startsWith(token) && token.length >= 3)) {
+      hits += 0.6;
+    }
+  }
+  return hits / tokens.length;
+}
+
+function parseHighlightedText(value: string): SearchSnippetPart[] {
+  const parts: SearchSnippetPart[] = [];
+  let remaining = value;
+  while (remaining.length > 0) {
+    const start = remaining.indexOf(HIGHLIGHT_START);
+    if (start < 0) {
+      parts.push({ text: remaining, highlight: false });
+      break;
+    }
+    const stop = remaining.indexOf(HIGHLIGHT_STOP, start + HIGHLIGHT_START.length);
+    if (stop < 0) {
+      parts.push({ text: remaining.replace(HIGHLIGHT_START, ""), highlight: false });
+      break;
+    }
+    if (start > 0) {
+      parts.push({ text: remaining.slice(0, start), highlight: false });
+    }
+    parts.push({ text: remaining.slice(start + HIGHLIGHT_START.length, stop), highlight: true });
+    remaining = remaining.slice(stop + HIGHLIGHT_STOP.length);
+  }
+  return parts.filter((part) => part.text.length > 0);
+}
+
+function buildSnippet(text: string, tokens: string[]): SearchSnippetPart[] {
+  const cleaned = text.replace(/\s+/g, " ").trim();
+  if (!cleaned) {
+    return [];
+  }
+
+  const lower = cleaned.toLowerCase();
+  const firstHit = tokens
+    .map((token) => lower.indexOf(token))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0];
+  const anchor = firstHit ?? 0;
+  const start = Math.max(0, anchor - SNIPPET_RADIUS);
+  const end = Math.min(cleaned.length, anchor + SNIPPET_RADIUS * 2);
+  const window = `${start > 0 ? "..." : ""}${cleaned.slice(start, end)}${end < cleaned.length ? "..." : ""}`;
+
+  const escapedTokens = tokens
+    .filter((token) => token.length >= 2)
+    .map((token) => token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  if (escapedTokens.length === 0) {
+    return [{ text: window, highlight: false }];
+  }
+
+  const pattern = new RegExp(`(${escapedTokens.join("|")})`, "gi");
+  return parseHighlightedText(window.replace(pattern, `${HIGHLIGHT_START}$1${HIGHLIGHT_STOP}`));
+}
+
+function hasExactTerm(documents: Array<{ name: string; aliases: string[] }>, query: string): boolean {
+  const normalizedQuery = normalize(query);
+  return documents.some((document) =>
+    [document.name, ...document.aliases].some((term) => {
+      const normalizedTerm = normalize(term);
+      return normalizedTerm === normalizedQuery || tokenize(term).includes(normalizedQuery);
+    })
+  );
+}
+
+export function toSearchDocument(peptide: PeptideSummary | PeptideDetail): PeptideSearchDocument {
+  return {
+    slug: peptide.slug,
+    name: peptide.name,
+    aliases: peptide.aliases,
+    className: peptide.className,
+    useCases: peptide.useCases,
+    intro: "intro" in peptide ? peptide.intro : "",
+    mechanism: "mechanism" in peptide ? peptide.mechanism : ""
+  };
+}
+
+export class InMemoryPeptideSearchEngine implements PeptideSearchEngine {
+  engine: PeptideSearchResult["engine"] = "memory";
+
+  constructor(private readonly documents: PeptideSearchDocument[]) {}
+
+  async search(query: string, limit = DEFAULT_LIMIT): Promise<PeptideSearchResult> {
+    const trimmed = query.trim();
+    const tokens = tokenize(trimmed);
+    if (tokens.length === 0) {
+      return { query: trimmed, engine: this.engine, hits: [], suggestion: null };
+    }
+
+    const normalizedQuery = tokens.join(" ");
+    const hits: PeptideSearchHit[] = [];
+
+    for (const document of this.documents) {
+      const nameScore = Math.max(
+        tokenHitScore(document.name, tokens),
+        normalize(document.name).includes(normalizedQuery) ? 0.9 : 0,
+        trigramSimilarity(document.name, trimmed)
+      );
+
+      let aliasScore = 0;
+      let matchedAlias: string | null = null;
+      for (const alias of document.aliases) {
+        const score = Math.max(
+          tokenHitScore(alias, tokens),
+          normalize(alias).includes(normalizedQuery) ? 0.9 : 0,
+          trigramSimilarity(alias, trimmed)
+        );
+        if (score > aliasScore) {
+          aliasScore = score;
+          matchedAlias = alias;
+        }
+      }
+
+      const classScore = tokenHitScore(document.className, tokens);
+      const useCaseScore = tokenHitScore(document.useCases.join(" "), tokens);
+      const introScore = tokenHitScore(document.intro, tokens);
+      const mechanismScore = tokenHitScore(document.mechanism, tokens);
+
+      const fuzzyOnly =
+        nameScore < FUZZY_MIN_SIMILARITY &&
+        aliasScore < FUZZY_MIN_SIMILARITY &&
+        classScore === 0 &&
+        useCaseScore === 0 &&
+        introScore === 0 &&
+        mechanismScore === 0;
+      if (fuzzyOnly) {
+        continue;
+      }
+
+      const exactBoost = normalize(document.name) === normalizedQuery ? 1 : 0;
+      const score =
+        exactBoost +
+        nameScore * FIELD_WEIGHTS.name +
+        aliasScore * FIELD_WEIGHTS.alias +
+        classScore * FIELD_WEIGHTS.className +
+        useCaseScore * FIELD_WEIGHTS.useCases +
+        introScore * FIELD_WEIGHTS.intro +
+        mechanismScore * FIELD_WEIGHTS.mechanism;
+
+      const snippetSource =
+        introScore > 0 || mechanismScore === 0
+          ? document.intro || document.className
+          : document.mechanism;
+
+      hits.push({
+        slug: document.slug,
+        name: document.name,
+        score: Number(score.toFixed(4)),
+        matchedAlias: aliasScore > nameScore && aliasScore >= FUZZY_MIN_SIMILARITY ? matchedAlias : null,
+        snippet: buildSnippet(snippetSource, tokens)
+      });
+    }
+
+    hits.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+
+    return {
+      query: trimmed,
+      engine: this.engine,
+      hits: hits.slice(0, limit),
+      suggestion: this.suggest(trimmed)
+    };
+  }
+
+  private suggest(query: string): string | null {
+    if (hasExactTerm(this.documents, query)) {
+      return null;
+    }
+
+    let best: { term: string; score: number } | null = null;
+    for (const document of this.documents) {
+      for (const term of [document.name, ...document.aliases]) {
+        const score = trigramSimilarity(term, query);
+        if (score >= SUGGESTION_MIN_SIMILARITY && (!best || score > best.score)) {
+          best = { term, score };
+        }
+      }
+    }
+    return best && normalize(best.term) !== normalize(query) ? best.term : null;
+  }
+}
+
+export class PostgresPeptideSearchEngine implements PeptideSearchEngine {
+  engine: PeptideSearchResult["engine"] = "postgres";
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async search(query: string, limit = DEFAULT_LIMIT): Promise<PeptideSearchResult> {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return { query: trimmed, engine: this.engine, hits: [], suggestion: null };
+    }
+
+    const [{ data, error }, { data: suggestion, error: suggestionError }] = await Promise.all([
+      this.supabase.rpc("search_peptides", { search_query: trimmed, max_results: limit }),
+      this.supabase.rpc("suggest_peptide_search_term", { search_query: trimmed })
+    ]);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const hits = (Array.isArray(data) ? data : [])
+      .map((row) => asRecord(row))
+      .filter((row): row is Record<string, unknown> => row !== null)
+      .map((row) => ({
+        slug: asString(row.slug),
+        name: asString(row.name),
+        score: asNumber(row.rank),
+        matchedAlias: asString(row.matched_alias) || null,
+        snippet: parseHighlightedText(asString(row.snippet))
+      }))
+      .filter((hit) => hit.slug && hit.name);
+
+    return {
+      query: trimmed,
+      engine: this.engine,
+      hits,
+      suggestion: suggestionError ? null : asString(suggestion) || null
+    };
+  }
+}
@@ -0,0 +1,139 @@
+import { createHash } from "crypto";
+import { consumeApiKeyRequest, readApiKey, type ApiKeyCheck } from "@/lib/api-keys";
+import { getSupabaseAdminClient } from "@/lib/supabase-admin";
+
+type SearchValue = string | string[] | undefined;
+type SearchParams = Record<string, SearchValue>;
+
+export type ApiPagination = {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+};
+
+export type ApiPage<T> = {
+  data: T[];
+  pagination: ApiPagination;
+};
+
+type ApiAuthorization =
+  | { ok: true; headers: Record<string, string> }
+  | { ok: false; response: Response };
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Responses are keyed, so shared caches must not serve them; ETags still let clients revalidate cheaply.
+const API_CACHE_CONTROL = "private, max-age=60";
+
+const DENIAL_MESSAGES: Record<NonNullable<ApiKeyCheck["reason"]>, { status: number; message: string }> = {
+  missing_key: { status: 401, message: "API key required. Send it as a Bearer token or X-Api-Key header." },
+  invalid_key: { status: 401, message: "Invalid API key." },
+  revoked_key: { status: 401, message: "API key has been revoked." },
+  rate_limited: { status: 429, message: "Rate limit exceeded." },
+  monthly_quota_exceeded: { status: 429, message: "Monthly quota exceeded." }
+};
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = Number(value ?? "");
+  return Number.isFinite(parsed) && parsed >= 1 ? Math.floor(parsed) : fallback;
+}
+
+export function searchParamsToRecord(searchParams: URLSearchParams): SearchParams {
+  const record: SearchParams = {};
+  for (const key of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(key);
+    record[key] = values.length > 1 ? values : values[0];
+  }
+  return record;
+}
+
+export function paginate<T>(items: T[], searchParams: URLSearchParams): ApiPage<T> {
+  const pageSize = Math.min(MAX_PAGE_SIZE, parsePositiveInt(searchParams.get("pageSize"), DEFAULT_PAGE_SIZE));
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  const page = Math.min(parsePositiveInt(searchParams.get("page"), 1), totalPages);
+  const start = (page - 1) * pageSize;
+
+  return {
+    data: items.slice(start, start + pageSize),
+    pagination: { page, pageSize, total: items.length, totalPages }
+  };
+}
+
+function buildEtag(body: string): string {
+  return `"${createHash("sha1").update(body).digest("base64url")}"`;
+}
+
+function matchesEtag(header: string | null, etag: string): boolean {
+  if (!header) {
+    return false;
+  }
+  return header
+    .split(",")
+    .map((value) => value.trim().replace(/^W\//, ""))
+    .some((value) => value === "*" || value === etag);
+}
+
+function rateLimitHeaders(check: ApiKeyCheck): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(check.rateLimit),
+    "X-RateLimit-Remaining": String(check.rateRemaining),
+    "X-Quota-Limit": String(check.quotaLimit),
+    "X-Quota-Remaining": String(check.quotaRemaining)
+  };
+  if (check.resetsAt) {
+    headers["X-RateLimit-Reset"] = String(Math.ceil(new Date(check.resetsAt).getTime() / 1000));
+  }
+  return headers;
+}
+
+export async function authorizeApiRequest(request: Request, endpoint: string): Promise<ApiAuthorization> {
+  const supabase = getSupabaseAdminClient();
+  if (!supabase) {
+    return { ok: false, response: apiError(503, "API key verification is not configured.") };
+  }
+
+  let check: ApiKeyCheck;
+  try {
+    check = await consumeApiKeyRequest(supabase, readApiKey(request), endpoint);
+  } catch {
+    return { ok: false, response: apiError(503, "API key verification is unavailable.") };
+  }
+
+  if (check.allowed) {
+    return { ok: true, headers: rateLimitHeaders(check) };
+  }
+
+  const denial = DENIAL_MESSAGES[check.reason ?? "invalid_key"];
+  const headers: Record<string, string> = denial.status === 429 ? rateLimitHeaders(check) : {};
+  if (denial.status === 429 && check.resetsAt) {
+    const retryAfter = Math.max(1, Math.ceil((new Date(check.resetsAt).getTime() - Date.now()) / 1000));
+    headers["Retry-After"] = String(retryAfter);
+  }
+  return { ok: false, response: apiError(denial.status, denial.message, headers) };
+}
+
+export function apiJson(request: Request, payload: unknown, extraHeaders: Record<string, string> = {}): Response {
+  const body = JSON.stringify(payload);
+  const etag = buildEtag(body);
+  const headers = {
+    ...extraHeaders,
+    "Cache-Control": API_CACHE_CONTROL,
+    Vary: "Authorization, X-Api-Key",
+    ETag: etag
+  };
+
+  if (matchesEtag(request.headers.get("if-none-match"), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(body, {
+    status: 200,
+    headers: { ...headers, "Content-Type": "application/json; charset=utf-8" }
+  });
+}
+
+export function apiError(status: number, message: string, extraHeaders: Record<string, string> = {}): Response {
+  return Response.json({ error: message }, { status, headers: { ...extraHeaders, "Cache-Control": "no-store" } });
+}
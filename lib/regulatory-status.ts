@@ -0,0 +1,56 @@
+import type { JurisdictionCode, RegulatoryStatus, RegulatoryStatusRecord } from "@/lib/types";
+
+export const REGULATORS: Record<JurisdictionCode, string> = {
+  US: "FDA",
+  EU: "EMA",
+  UK: "MHRA",
+  CA: "Health Canada",
+  AU: "TGA"
+};
+
+export function isApprovedIn(jurisdiction: JurisdictionCode, status: RegulatoryStatus): boolean {
+  // NON_US_APPROVED on a US row means "approved elsewhere", not an FDA approval.
+  if (jurisdiction === "US") {
+    return status === "US_FDA_APPROVED";
+  }
+  return status === "US_FDA_APPROVED" || status === "NON_US_APPROVED";
+}
+
+export function regulatoryStatusLabel(record: Pick<RegulatoryStatusRecord, "jurisdiction" | "status" | "approvalDate">): string {
+  if (isApprovedIn(record.jurisdiction, record.status)) {
+    const year = record.approvalDate ? new Date(record.approvalDate).getUTCFullYear() : Number.NaN;
+    return Number.isFinite(year)
+      ? `${REGULATORS[record.jurisdiction]} approved ${year}`
+      : `${REGULATORS[record.jurisdiction]} approved`;
+  }
+  if (record.status === "NON_US_APPROVED") {
+    return "Not FDA approved (approved elsewhere)";
+  }
+  if (record.status === "INVESTIGATIONAL") {
+    return "Investigational";
+  }
+  return "Research only";
+}
+
+export function regulatoryRecordFor(
+  records: RegulatoryStatusRecord[],
+  jurisdiction: JurisdictionCode,
+  fallbackStatus: RegulatoryStatus
+): RegulatoryStatusRecord {
+  return (
+    records.find((record) => record.jurisdiction === jurisdiction) ?? {
+      jurisdiction,
+      status: fallbackStatus,
+      approvalDate: null,
+      approvedIndications: [],
+      brandNames: [],
+      regulatorReference: null,
+      sourceUrl: null,
+      notes: null
+    }
+  );
+}
+
+export function isResearchOnly(statusByJurisdiction: Record<JurisdictionCode, RegulatoryStatus>): boolean {
+  return Object.values(statusByJurisdiction).every((status) => status === "RESEARCH_ONLY");
+}
@@ -1,25 +1,53 @@
-import { getAllPeptides, getAllVendors, getPeptideBySlug } from "@/lib/mock-data";
+import { CLINICAL_TRIAL_COLUMNS, mapClinicalTrialRow } from "@/lib/clinical-trials";
+import { CITATION_PUBLICATION_TYPES } from "@/lib/constants";
+import { CONTENT_CHANGE_COLUMNS, mapContentChangeRow } from "@/lib/content-changes";
+import { CONTENT_PROVENANCE_COLUMNS, mapContentProvenanceRow, sortProvenance } from "@/lib/content-provenance";
+import { getAllDrugClasses, getAllInteractions, getAllPeptides, getAllVendors, getPeptideBySlug } from "@/lib/mock-data";
+import {
+  InMemoryPeptideSearchEngine,
+  PostgresPeptideSearchEngine,
+  toSearchDocument,
+  type PeptideSearchResult
+} from "@/lib/peptide-search";
 import { toHumanReadableSourceUrl } from "@/lib/reference-sources";
+import { fromDosingColumns, parseDosingText } from "@/lib/structured-dosing";
 import { getSupabaseClient } from "@/lib/supabase";
 import { sanitizeExternalUrl } from "@/lib/url-security";
+import { listVendorReviews, sentimentLabelFromScore } from "@/lib/vendor-reviews";
 import { getVendorSeedMetadata } from "@/lib/vendor-website-ingest";
 import type {
+  CitationPublicationType,
+  ClinicalTrial,
+  ClinicalTrialEvent,
+  ContentChange,
+  ContentProvenance,
   DosingEntry,
+  DrugClass,
   EvidenceClaim,
   EvidenceGrade,
+  InteractionSeverity,
   JurisdictionCode,
   PeptideDetail,
+  PeptideEvidence,
+  PeptideInteraction,
   PeptideSummary,
+  PeptideTrials,
   RegulatoryStatus,
+  RegulatoryStatusChange,
+  RegulatoryStatusRecord,
   SafetyProfile,
+  UseCaseEvidence,
   VendorCard,
   VendorDetail,
   VendorPeptideListing,
-  VendorReviewQuote
+  VendorRatingHistory,
+  VendorRatingPoint
 } from "@/lib/types";
 
 const JURISDICTION_CODES: JurisdictionCode[] = ["US", "EU", "UK", "CA", "AU"];
 const DEFAULT_STATUS: RegulatoryStatus = "RESEARCH_ONLY";
+const CLAIM_COLUMNS =
+  "section,claim_text,evidence_grade,grade_rationale,citations(source_url,source_title,published_at,retrieved_at,pmid,doi,nct_id,authors,journal,publication_type,enrollment)";
 
 const EVIDENCE_RANK: Record<EvidenceGrade, number> = {
   A: 0,
@@ -92,71 +120,19 @@ function uniqueStrings(values: Array<string | null | undefined>): string[] {
   return Array.from(new Set(values.filter((value): value is string => Boolean(value))));
 }
 
-function sentimentLabelFromScore(
-  score: number | null
-): "positive" | "mixed" | "negative" | "neutral" | null {
-  if (score === null) {
-    return null;
-  }
-  if (score >= 0.16) {
-    return "positive";
+function ratingTrend(points: VendorRatingPoint[]): VendorRatingHistory["trend"] {
+  const rated = points.filter((point) => point.rating !== null);
+  if (rated.length < 2) {
+    return "insufficient_data";
   }
-  if (score <= -0.22) {
-    return "negative";
+  const change = (rated[rated.length - 1].rating ?? 0) - (rated[0].rating ?? 0);
+  if (change >= 0.2) {
+    return "improving";
   }
-  if (score >= 0) {
-    return "positive";
+  if (change <= -0.2) {
+    return "declining";
   }
-  return "mixed";
-}
-
-function parseVendorReviewQuote(row: Record<string, unknown>): VendorReviewQuote | null {
-  const verificationType = asString(row.verification_type);
-  if (!verificationType || !verificationType.startsWith("community_review_")) {
-    return null;
-  }
-
-  const rawValue = asString(row.value);
-  if (!rawValue) {
-    return null;
-  }
-
-  let parsed: Record<string, unknown> | null = null;
-  try {
-    const json = JSON.parse(rawValue);
-    parsed = asRecord(json);
-  } catch {
-    parsed = null;
-  }
-
-  const source = asString(parsed?.source) ?? verificationType.replace("community_review_", "").replace(/_/g, " ");
-  const community = asString(parsed?.community) ?? source;
-  const quote = asString(parsed?.quote);
-  const sourceUrl = toHumanReadableSourceUrl(asString(parsed?.sourceUrl));
-  const createdAt = asString(parsed?.createdAt);
-  if (!quote || !sourceUrl || !createdAt) {
-    return null;
-  }
-
-  const sentimentScore = asNumber(parsed?.sentimentScore);
-  const explicitLabel = asString(parsed?.sentimentLabel);
-  const sentimentLabel =
-    explicitLabel === "positive" || explicitLabel === "mixed" || explicitLabel === "negative" || explicitLabel === "neutral"
-      ? explicitLabel
-      : (sentimentLabelFromScore(sentimentScore) ?? "neutral");
-
-  return {
-    source,
-    community,
-    quote,
-    sourceUrl,
-    createdAt,
-    author: asString(parsed?.author),
-    sentimentLabel,
-    sentimentScore,
-    upvotes: asNumber(parsed?.upvotes),
-    commentCount: asNumber(parsed?.commentCount)
-  } satisfies VendorReviewQuote;
+  return "stable";
 }
 
 function collectStatusMap(statusRows: unknown[]): Record<JurisdictionCode, RegulatoryStatus> {
@@ -180,11 +156,70 @@ function collectStatusMap(statusRows: unknown[]): Record<JurisdictionCode, Regul
   return statusByJurisdiction;
 }
 
-function collectUseCaseData(useCaseRows: unknown[]): { useCases: string[]; bestGrade: EvidenceGrade; consumerSummary: string | null; clinicalSummary: string | null } {
+function asStringList(value: unknown): string[] {
+  return uniqueStrings(asArray(value).map((entry) => asString(entry)));
+}
+
+function mapRegulatoryStatuses(
+  rows: unknown[],
+  statusByJurisdiction: Record<JurisdictionCode, RegulatoryStatus>
+): RegulatoryStatusRecord[] {
+  return JURISDICTION_CODES.map((code) => {
+    const status = statusByJurisdiction[code];
+    const record = rows
+      .map((row) => asRecord(row))
+      .find(
+        (row) => row !== null && asString(firstRelation(row.jurisdictions)?.code) === code && ensureStatus(row.status) === status
+      );
+
+    return {
+      jurisdiction: code,
+      status,
+      approvalDate: asString(record?.approval_date),
+      approvedIndications: asStringList(record?.approved_indications),
+      brandNames: asStringList(record?.brand_names),
+      regulatorReference: asString(record?.regulator_reference),
+      sourceUrl: sanitizeExternalUrl(asString(record?.source_url)),
+      notes: asString(record?.notes)
+    } satisfies RegulatoryStatusRecord;
+  });
+}
+
+function mapRegulatoryHistory(rows: unknown[]): RegulatoryStatusChange[] {
+  return rows
+    .map((row) => {
+      const record = asRecord(row);
+      const code = asString(firstRelation(record?.jurisdictions)?.code) as JurisdictionCode | null;
+      const effectiveDate = asString(record?.effective_date);
+      if (!record || !code || !JURISDICTION_CODES.includes(code) || !effectiveDate) {
+        return null;
+      }
+
+      return {
+        jurisdiction: code,
+        previousStatus: asString(record.previous_status) ? ensureStatus(record.previous_status) : null,
+        status: ensureStatus(record.status),
+        effectiveDate,
+        regulatorReference: asString(record.regulator_reference),
+        sourceUrl: sanitizeExternalUrl(asString(record.source_url)),
+        notes: asString(record.notes)
+      } satisfies RegulatoryStatusChange;
+    })
+    .filter((change): change is RegulatoryStatusChange => change !== null);
+}
+
+function collectUseCaseData(useCaseRows: unknown[]): {
+  useCases: string[];
+  useCaseEvidence: UseCaseEvidence[];
+  bestGrade: EvidenceGrade;
+  consumerSummary: string | null;
+  clinicalSummary: string | null;
+} {
   let bestGrade: EvidenceGrade = "I";
   let consumerSummary: string | null = null;
   let clinicalSummary: string | null = null;
   const useCases: string[] = [];
+  const gradeByUseCase = new Map<string, EvidenceGrade>();
 
   for (const row of useCaseRows) {
     const record = asRecord(row);
@@ -208,11 +243,16 @@ function collectUseCaseData(useCaseRows: unknown[]): { useCases: string[]; bestG
     const useCaseName = asString(useCaseRelation?.name);
     if (useCaseName) {
       useCases.push(useCaseName);
+      const existing = gradeByUseCase.get(useCaseName);
+      if (!existing || EVIDENCE_RANK[grade] < EVIDENCE_RANK[existing]) {
+        gradeByUseCase.set(useCaseName, grade);
+      }
     }
   }
 
   return {
     useCases: uniqueStrings(useCases),
+    useCaseEvidence: Array.from(gradeByUseCase, ([useCase, evidenceGrade]) => ({ useCase, evidenceGrade })),
     bestGrade,
     consumerSummary,
     clinicalSummary
@@ -279,7 +319,7 @@ function mapDosing(rows: unknown[]): DosingEntry[] {
         return null;
       }
 
-      return {
+      const entry: DosingEntry = {
         context,
         population: asString(record.population) ?? "Not specified",
         route: asString(record.route) ?? "Not specified",
@@ -287,7 +327,10 @@ function mapDosing(rows: unknown[]): DosingEntry[] {
         maintenanceDose: asString(record.maintenance_dose) ?? "Not specified",
         frequency: asString(record.frequency) ?? "Not specified",
         notes: asString(record.notes) ?? ""
-      } satisfies DosingEntry;
+      };
+      // Rows the parse job has not reached yet are parsed on read so the page never lacks structure.
+      entry.structured = fromDosingColumns(record) ?? parseDosingText(entry);
+      return entry;
     })
     .filter((entry): entry is DosingEntry => entry !== null);
 }
@@ -345,6 +388,48 @@ function mapSafetyProfile(rows: unknown[]): SafetyProfile {
   };
 }
 
+function ensureSeverity(value: unknown): InteractionSeverity {
+  return value === "MAJOR" || value === "MODERATE" ? value : "MINOR";
+}
+
+function ensurePublicationType(value: unknown): CitationPublicationType | null {
+  return CITATION_PUBLICATION_TYPES.find((type) => type === value) ?? null;
+}
+
+function mapInteraction(row: unknown): PeptideInteraction | null {
+  const record = asRecord(row);
+  if (!record) {
+    return null;
+  }
+  const peptide = firstRelation(record.peptide);
+  const interactingPeptide = firstRelation(record.interacting_peptide);
+  const drugClass = firstRelation(record.drug_classes);
+  const citation = firstRelation(record.citations);
+  const peptideSlug = asString(peptide?.slug);
+  const target = interactingPeptide
+    ? { kind: "peptide" as const, slug: asString(interactingPeptide.slug), name: asString(interactingPeptide.canonical_name) }
+    : { kind: "drug_class" as const, slug: asString(drugClass?.slug), name: asString(drugClass?.name) };
+  const mechanism = asString(record.mechanism);
+  if (!peptideSlug || !target.slug || !target.name || !mechanism) {
+    return null;
+  }
+
+  return {
+    peptideSlug,
+    peptideName: asString(peptide?.canonical_name) ?? peptideSlug,
+    targetKind: target.kind,
+    targetSlug: target.slug,
+    targetName: target.name,
+    severity: ensureSeverity(record.severity),
+    mechanism,
+    management: asString(record.management),
+    evidenceGrade: ensureEvidenceGrade(record.evidence_grade),
+    source: record.source === "OPENFDA_LABEL" ? "OPENFDA_LABEL" : "MANUAL",
+    sourceUrl: toHumanReadableSourceUrl(asString(citation?.source_url)),
+    sourceTitle: asString(citation?.source_title)
+  };
+}
+
 type VendorRatingMap = Map<number, { rating: number | null; confidence: number | null; reasonTags: string[] }>;
 
 function mapEvidenceClaims(rows: unknown[]): EvidenceClaim[] {
@@ -367,10 +452,20 @@ function mapEvidenceClaims(rows: unknown[]): EvidenceClaim[] {
         section,
         claimText,
         evidenceGrade: asString(record.evidence_grade) ? ensureEvidenceGrade(record.evidence_grade) : null,
+        gradeRationale: asString(record.grade_rationale),
         sourceUrl,
         sourceTitle: asString(citation?.source_title),
         publishedAt,
-        retrievedAt: asString(citation?.retrieved_at)
+        retrievedAt: asString(citation?.retrieved_at),
+        pmid: asString(citation?.pmid),
+        doi: asString(citation?.doi),
+        nctId: asString(citation?.nct_id),
+        authors: asArray(citation?.authors)
+          .map((author) => asString(author))
+          .filter((author): author is string => Boolean(author)),
+        journal: asString(citation?.journal),
+        publicationType: ensurePublicationType(citation?.publication_type),
+        enrollment: asNumber(citation?.enrollment)
       } satisfies EvidenceClaim;
     })
     .filter((claim): claim is EvidenceClaim => claim !== null);
@@ -448,6 +543,20 @@ export async function listPeptides(): Promise<PeptideSummary[]> {
   return mapped.length > 0 ? mapped : fallback;
 }
 
+export async function searchPeptides(query: string, limit?: number): Promise<PeptideSearchResult> {
+  const supabase = getSupabaseClient();
+  if (supabase) {
+    try {
+      return await new PostgresPeptideSearchEngine(supabase).search(query, limit);
+    } catch {
+      // search functions missing or failing; fall back to in-memory ranking below
+    }
+  }
+
+  const documents = (supabase ? await listPeptides() : getAllPeptides()).map((peptide) => toSearchDocument(peptide));
+  return new InMemoryPeptideSearchEngine(documents).search(query, limit);
+}
+
 export async function getPeptideDetail(slug: string): Promise<PeptideDetail | null> {
   const fallback = getPeptideBySlug(slug) ?? null;
   const supabase = getSupabaseClient();
@@ -458,7 +567,7 @@ export async function getPeptideDetail(slug: string): Promise<PeptideDetail | nu
   const { data, error } = await supabase
     .from("peptides")
     .select(
-      "id,slug,canonical_name,sequence,peptide_class,peptide_aliases(alias),peptide_profiles(intro,mechanism,effectiveness_summary,long_description),peptide_use_cases(evidence_grade,consumer_summary,clinical_summary,use_cases(name)),peptide_dosing_entries(context,population,route,starting_dose,maintenance_dose,frequency,notes),peptide_safety_entries(adverse_effects,contraindications,interactions,monitoring),peptide_regulatory_status(status,jurisdictions(code))"
+      "id,slug,canonical_name,sequence,peptide_class,peptide_aliases(alias),peptide_profiles(intro,mechanism,effectiveness_summary,long_description),peptide_use_cases(evidence_grade,consumer_summary,clinical_summary,use_cases(name)),peptide_dosing_entries(context,population,route,starting_dose,maintenance_dose,frequency,notes,dose_unit,starting_dose_amount,maintenance_dose_amount,max_dose_amount,route_code,interval_days,titration_steps,parse_confidence,parse_issues,reviewed_at),peptide_safety_entries(adverse_effects,contraindications,interactions,monitoring),peptide_regulatory_status(status,notes,approval_date,approved_indications,brand_names,regulator_reference,source_url,jurisdictions(code))"
     )
     .eq("slug", slug)
     .eq("is_published", true)
@@ -489,11 +598,19 @@ export async function getPeptideDetail(slug: string): Promise<PeptideDetail | nu
   const safety = mapSafetyProfile(asArray(row.peptide_safety_entries));
   const { data: claimRows } = await supabase
     .from("peptide_claims")
-    .select("section,claim_text,evidence_grade,citations(source_url,source_title,published_at,retrieved_at)")
+    .select(CLAIM_COLUMNS)
     .eq("peptide_id", peptideId)
     .order("id", { ascending: false });
   const evidenceClaims = mapEvidenceClaims(asArray(claimRows));
 
+  const { data: historyRows } = await supabase
+    .from("peptide_regulatory_status_history")
+    .select("previous_status,status,effective_date,regulator_reference,source_url,notes,jurisdictions(code)")
+    .eq("peptide_id", peptideId)
+    .order("effective_date", { ascending: true })
+    .order("id", { ascending: true });
+  const regulatoryHistory = mapRegulatoryHistory(asArray(historyRows));
+
   const { data: listingRows } = await supabase
     .from("vendor_peptide_listings")
     .select("is_affiliate,vendors(id,slug,name,is_published)")
@@ -569,6 +686,9 @@ export async function getPeptideDetail(slug: string): Promise<PeptideDetail | nu
     mechanism,
     effectivenessSummary,
     safety,
+    useCaseEvidence: useCaseData.useCaseEvidence,
+    regulatoryStatuses: mapRegulatoryStatuses(asArray(row.peptide_regulatory_status), summary.statusByJurisdiction),
+    regulatoryHistory,
     longDescription,
     dosing,
     vendors,
@@ -582,6 +702,235 @@ export async function getPeptideDetail(slug: string): Promise<PeptideDetail | nu
   };
 }
 
+export async function listDrugClasses(): Promise<DrugClass[]> {
+  const fallback = getAllDrugClasses();
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return fallback;
+  }
+
+  const { data, error } = await supabase
+    .from("drug_classes")
+    .select("slug,name,description,match_terms")
+    .order("name", { ascending: true });
+  if (error || !data || data.length === 0) {
+    return fallback;
+  }
+
+  return (data as unknown[])
+    .map((row) => {
+      const record = asRecord(row);
+      const slug = asString(record?.slug);
+      const name = asString(record?.name);
+      if (!slug || !name) {
+        return null;
+      }
+      return {
+        slug,
+        name,
+        description: asString(record?.description) ?? "",
+        matchTerms: asStringList(record?.match_terms).map((term) => term.toLowerCase())
+      } satisfies DrugClass;
+    })
+    .filter((drugClass): drugClass is DrugClass => drugClass !== null);
+}
+
+const TRIAL_STATUS_ORDER = ["RECRUITING", "NOT_YET_RECRUITING", "ENROLLING_BY_INVITATION", "ACTIVE_NOT_RECRUITING"];
+
+function trialStatusRank(status: string): number {
+  const index = TRIAL_STATUS_ORDER.indexOf(status);
+  return index === -1 ? TRIAL_STATUS_ORDER.length : index;
+}
+
+// Tracked trials for one peptide, ongoing ones first, plus the newest status events across them.
+export async function getPeptideTrials(slug: string, eventLimit = 20): Promise<PeptideTrials> {
+  const fallback: PeptideTrials = { trials: [], events: [] };
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return fallback;
+  }
+
+  const { data, error } = await supabase
+    .from("peptides")
+    .select(
+      `peptide_clinical_trials(clinical_trials(${CLINICAL_TRIAL_COLUMNS},clinical_trial_events(event_type,previous_value,new_value,detected_at)))`
+    )
+    .eq("slug", slug)
+    .eq("is_published", true)
+    .maybeSingle();
+  if (error || !data) {
+    return fallback;
+  }
+
+  const trials: ClinicalTrial[] = [];
+  const events: ClinicalTrialEvent[] = [];
+  for (const link of asArray(asRecord(data)?.peptide_clinical_trials)) {
+    const trialRow = firstRelation(asRecord(link)?.clinical_trials);
+    const trial = mapClinicalTrialRow(trialRow);
+    if (!trialRow || !trial) {
+      continue;
+    }
+    trials.push(trial);
+    for (const eventRow of asArray(trialRow.clinical_trial_events)) {
+      const event = asRecord(eventRow);
+      const detectedAt = asString(event?.detected_at);
+      const eventType = event?.event_type;
+      if (!detectedAt || (eventType !== "STATUS_CHANGED" && eventType !== "RESULTS_POSTED")) {
+        continue;
+      }
+      events.push({
+        nctId: trial.nctId,
+        trialTitle: trial.title,
+        eventType,
+        previousValue: asString(event?.previous_value),
+        newValue: asString(event?.new_value),
+        detectedAt
+      });
+    }
+  }
+
+  return {
+    trials: trials.sort(
+      (a, b) =>
+        trialStatusRank(a.overallStatus) - trialStatusRank(b.overallStatus) ||
+        (b.lastUpdatePostedAt ?? "").localeCompare(a.lastUpdatePostedAt ?? "")
+    ),
+    events: events.sort((a, b) => b.detectedAt.localeCompare(a.detectedAt)).slice(0, eventLimit)
+  };
+}
+
+// Source records for the generated profile text, in field and passage order.
+export async function getPeptideProvenance(slug: string): Promise<ContentProvenance[]> {
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from("peptides")
+    .select(`peptide_content_provenance(${CONTENT_PROVENANCE_COLUMNS})`)
+    .eq("slug", slug)
+    .eq("is_published", true)
+    .maybeSingle();
+  if (error || !data) {
+    return [];
+  }
+  return sortProvenance(
+    asArray(asRecord(data)?.peptide_content_provenance)
+      .map((row) => mapContentProvenanceRow(row))
+      .filter((record): record is ContentProvenance => record !== null)
+  );
+}
+
+// Use-case grades and claims for several peptides in one query, for evidence maps on goal pages.
+export async function listPeptideEvidence(peptideSlugs: string[]): Promise<PeptideEvidence[]> {
+  if (peptideSlugs.length === 0) {
+    return [];
+  }
+  const fallback = peptideSlugs
+    .map((slug) => getPeptideBySlug(slug))
+    .filter((peptide): peptide is PeptideDetail => peptide !== undefined)
+    .map(({ slug, name, useCaseEvidence, evidenceClaims }) => ({ slug, name, useCaseEvidence, evidenceClaims }));
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return fallback;
+  }
+
+  const { data, error } = await supabase
+    .from("peptides")
+    .select(
+      `slug,canonical_name,peptide_use_cases(evidence_grade,consumer_summary,clinical_summary,use_cases(name)),peptide_claims(${CLAIM_COLUMNS})`
+    )
+    .in("slug", peptideSlugs)
+    .eq("is_published", true);
+  if (error || !data) {
+    return fallback;
+  }
+
+  return asArray(data)
+    .map((row) => {
+      const record = asRecord(row);
+      const slug = asString(record?.slug);
+      const name = asString(record?.canonical_name);
+      if (!record || !slug || !name) {
+        return null;
+      }
+      return {
+        slug,
+        name,
+        useCaseEvidence: collectUseCaseData(asArray(record.peptide_use_cases)).useCaseEvidence,
+        evidenceClaims: mapEvidenceClaims(asArray(record.peptide_claims))
+      } satisfies PeptideEvidence;
+    })
+    .filter((peptide): peptide is PeptideEvidence => peptide !== null);
+}
+
+export async function listPeptideInteractions(peptideSlugs: string[]): Promise<PeptideInteraction[]> {
+  if (peptideSlugs.length === 0) {
+    return [];
+  }
+  const fallback = getAllInteractions().filter((interaction) => peptideSlugs.includes(interaction.peptideSlug));
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return fallback;
+  }
+
+  const { data: peptideRows, error: peptideError } = await supabase
+    .from("peptides")
+    .select("id")
+    .in("slug", peptideSlugs)
+    .eq("is_published", true);
+  if (peptideError) {
+    return fallback;
+  }
+  const peptideIds = asArray(peptideRows)
+    .map((row) => asNumber(asRecord(row)?.id))
+    .filter((id): id is number => id !== null);
+  if (peptideIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from("peptide_interactions")
+    .select(
+      "severity,mechanism,management,evidence_grade,source,peptide:peptides!peptide_interactions_peptide_id_fkey(slug,canonical_name),interacting_peptide:peptides!peptide_interactions_interacting_peptide_id_fkey(slug,canonical_name),drug_classes(slug,name),citations(source_url,source_title)"
+    )
+    .in("peptide_id", peptideIds);
+  if (error || !data) {
+    return fallback;
+  }
+
+  return (data as unknown[])
+    .map((row) => mapInteraction(row))
+    .filter((interaction): interaction is PeptideInteraction => interaction !== null);
+}
+
+// Newest first; row-level security limits the feed to changes on published peptides and vendors.
+export async function listContentChanges(options?: { limit?: number; since?: string }): Promise<ContentChange[]> {
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return [];
+  }
+
+  let query = supabase
+    .from("content_changes")
+    .select(CONTENT_CHANGE_COLUMNS)
+    .order("changed_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(Math.max(1, Math.min(500, options?.limit ?? 100)));
+  if (options?.since) {
+    query = query.gt("changed_at", options.since);
+  }
+
+  const { data, error } = await query;
+  if (error || !data) {
+    return [];
+  }
+  return asArray(data)
+    .map((row) => mapContentChangeRow(row))
+    .filter((change): change is ContentChange => change !== null);
+}
+
 export async function listVendors(): Promise<VendorCard[]> {
   const fallback = getAllVendors();
   const supabase = getSupabaseClient();
@@ -682,7 +1031,7 @@ export async function getVendorDetail(slug: string): Promise<VendorDetail | null
     return null;
   }
 
-  const [{ data: profileRow }, { data: listingRows }, { data: ratingRows }, { data: verificationRows }] = await Promise.all([
+  const [{ data: profileRow }, { data: listingRows }, { data: ratingRows }, { data: verificationRows }, reviews] = await Promise.all([
     supabase
       .from("vendor_profiles")
       .select("description,features,trust_signals,source_urls,regions")
@@ -698,7 +1047,8 @@ export async function getVendorDetail(slug: string): Promise<VendorDetail | null
       .eq("vendor_id", vendorId)
       .eq("is_current", true)
       .limit(1),
-    supabase.from("vendor_verifications").select("verification_type,value").eq("vendor_id", vendorId)
+    supabase.from("vendor_verifications").select("verification_type").eq("vendor_id", vendorId),
+    listVendorReviews(supabase, vendorId)
   ]);
 
   const profile = asRecord(profileRow);
@@ -709,14 +1059,11 @@ export async function getVendorDetail(slug: string): Promise<VendorDetail | null
     .map((tag) => asString(tag))
     .filter((tag): tag is string => Boolean(tag));
 
-  const verificationRecords = asArray(verificationRows)
-    .map((row) => asRecord(row))
-    .filter((row): row is Record<string, unknown> => row !== null);
-
-  const reviews = verificationRecords
-    .map((row) => parseVendorReviewQuote(row))
-    .filter((item): item is VendorReviewQuote => item !== null)
-    .sort((a, b) => (a.createdAt > b.createdAt ? -1 : 1));
+  // Legacy community_review_* rows the bootstrap migration could not parse stay behind; they are not trust signals.
+  const verificationTypes = asArray(verificationRows)
+    .map((row) => asString(asRecord(row)?.verification_type))
+    .filter((verificationType): verificationType is string => Boolean(verificationType))
+    .filter((verificationType) => !verificationType.startsWith("community_review_"));
 
   const scoredReviews = reviews.filter((review) => review.sentimentScore !== null);
   const socialSentimentScore =
@@ -734,12 +1081,7 @@ export async function getVendorDetail(slug: string): Promise<VendorDetail | null
     ...asArray(profile?.trust_signals).map((signal) => asString(signal)).filter((signal): signal is string => Boolean(signal)),
     ...(seedMetadata?.trustSignals ?? []),
     ...ratingTags,
-    ...verificationRecords
-      .map((row) => asString(row.verification_type))
-      .filter((verificationType): verificationType is string => Boolean(verificationType))
-      .filter((verificationType) => !verificationType.startsWith("community_review_"))
-      .map((verificationType) => verificationType)
-      .filter((signal): signal is string => Boolean(signal))
+    ...verificationTypes
   ]);
 
   const availablePeptides: VendorPeptideListing[] = asArray(listingRows)
@@ -787,3 +1129,74 @@ export async function getVendorDetail(slug: string): Promise<VendorDetail | null
     socialSentimentLabel
   };
 }
+
+export async function getVendorRatingHistory(slug: string, limit = 120): Promise<VendorRatingHistory | null> {
+  const supabase = getSupabaseClient();
+  if (!supabase) {
+    return null;
+  }
+
+  const { data: vendorRow, error: vendorError } = await supabase
+    .from("vendors")
+    .select("id,slug,name")
+    .eq("slug", slug)
+    .eq("is_published", true)
+    .maybeSingle();
+
+  if (vendorError || !vendorRow) {
+    return null;
+  }
+
+  const vendorId = Number(vendorRow.id ?? 0);
+  if (!vendorId) {
+    return null;
+  }
+
+  const { data: snapshotRows } = await supabase
+    .from("vendor_rating_snapshots")
+    .select("rating,confidence,method_version,scoring_version,reason_tags,calculated_at,promoted_at,is_current")
+    .eq("vendor_id", vendorId)
+    .order("calculated_at", { ascending: false })
+    .limit(limit);
+
+  const snapshots = asArray(snapshotRows)
+    .map((row) => asRecord(row))
+    .filter((row): row is Record<string, unknown> => row !== null)
+    .map((row) => ({
+      calculatedAt: asString(row.promoted_at) ?? asString(row.calculated_at) ?? "",
+      rating: asNumber(row.rating),
+      confidence: asNumber(row.confidence),
+      methodVersion: asString(row.method_version) ?? "unknown",
+      scoringVersion: asString(row.scoring_version),
+      reasonTags: uniqueStrings(asArray(row.reason_tags).map((tag) => asString(tag))),
+      isCurrent: row.is_current === true
+    }))
+    .filter((snapshot) => snapshot.calculatedAt.length > 0)
+    .sort((a, b) => (a.calculatedAt < b.calculatedAt ? -1 : a.calculatedAt > b.calculatedAt ? 1 : 0));
+
+  const points: VendorRatingPoint[] = snapshots.map((snapshot, index) => {
+    const previous = index > 0 ? snapshots[index - 1] : null;
+    const previousTags = new Set(previous?.reasonTags ?? []);
+    const currentTags = new Set(snapshot.reasonTags);
+    return {
+      ...snapshot,
+      ratingChange:
+        previous && previous.rating !== null && snapshot.rating !== null
+          ? Number((snapshot.rating - previous.rating).toFixed(1))
+          : null,
+      confidenceChange:
+        previous && previous.confidence !== null && snapshot.confidence !== null
+          ? Number((snapshot.confidence - previous.confidence).toFixed(2))
+          : null,
+      addedReasonTags: previous ? snapshot.reasonTags.filter((tag) => !previousTags.has(tag)) : [],
+      removedReasonTags: previous ? previous.reasonTags.filter((tag) => !currentTags.has(tag)) : []
+    } satisfies VendorRatingPoint;
+  });
+
+  return {
+    slug: asString(vendorRow.slug) ?? slug,
+    name: asString(vendorRow.name) ?? "Unknown vendor",
+    trend: ratingTrend(points),
+    points
+  };
+}
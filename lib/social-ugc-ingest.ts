@@ -1,7 +1,11 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
-import { toHumanReadableSourceUrl } from "@/lib/reference-sources";
-import { computeVendorScore } from "@/lib/vendor-website-ingest";
-import type { EvidenceGrade } from "@/lib/types";
+import { findOrCreateCitation } from "@/lib/citations";
+import { formatRatingChange, recordContentChanges, type ContentChangeInput } from "@/lib/content-changes";
+import { gradeCommunitySignal } from "@/lib/evidence-grading";
+import { errorMessage, type IngestAudit, type IngestSourceOutcome } from "@/lib/ingest-runs";
+import { fetchSourceJson, fetchSourceText, SourceHttpError, type SourceRequestOptions } from "@/lib/source-client";
+import { replaceVendorReviews } from "@/lib/vendor-reviews";
+import { computeVendorScore } from "@/lib/vendor-scoring";
 
 type EntityType = "peptide" | "vendor";
 
@@ -26,7 +30,8 @@ type UgcPost = {
 type UgcSourceAdapter = {
   source: UgcPost["source"];
   displayName: string;
-  fetchByTerm(term: string, entityType: EntityType): Promise<UgcPost[]>;
+  // Adapters return [] when a source is down; onError keeps the reason for the run audit.
+  fetchByTerm(term: string, entityType: EntityType, onError?: (message: string) => void): Promise<UgcPost[]>;
 };
 
 type PeptideRow = {
@@ -48,7 +53,12 @@ type SocialUgcIngestOptions = {
   vendorLimit?: number;
   peptideSlugs?: string[];
   vendorSlugs?: string[];
+  // Restricts a run to one entity type; the job queue processes peptides and vendors as separate items.
+  only?: EntityType;
   onlyPublished?: boolean;
+  // Only entities whose last_social_refresh_at is missing or older than this ISO timestamp.
+  staleBefore?: string;
+  audit?: IngestAudit;
   delayMs?: number;
   maxTermsPerEntity?: number;
   maxQuotesPerVendor?: number;
@@ -85,6 +95,15 @@ const REDDIT_GLOBAL_ALLOWED = new Set(
   )
 );
 
+const REDDIT_FETCH: SourceRequestOptions = {
+  timeoutMs: 16_000,
+  userAgent: "PeptideDB-SocialIngest/1.0 (+https://peptidedb.vercel.app)"
+};
+// Trustpilot serves its review pages only to browser user agents.
+const TRUSTPILOT_FETCH: SourceRequestOptions = {
+  accept: "text/html,application/xhtml+xml",
+  userAgent: "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122 Safari/537.36"
+};
 const COMMUNITY_CLAIM_SECTIONS = ["Community Signals (Reddit)", "Community Signals (Trustpilot)"];
 
 type SentimentSignal = {
@@ -282,7 +301,7 @@ function hasSignalKeyword(sentence: string): boolean {
   );
 }
 
-function extractQuote(title: string, body: string, matchedTerm: string): string {
+export function extractQuote(title: string, body: string, matchedTerm: string): string {
   const source = body && body.length > 20 ? body : title;
   const candidates = uniqueStrings([...splitIntoSentences(body), ...splitIntoSentences(title)]).filter((sentence) => sentence.length >= 6);
   if (candidates.length === 0) {
@@ -317,7 +336,7 @@ function extractQuote(title: string, body: string, matchedTerm: string): string
   return truncate(selected, 210);
 }
 
-function analyzeSentiment(text: string): { score: number; label: "positive" | "mixed" | "negative" | "neutral" } {
+export function analyzeSentiment(text: string): { score: number; label: "positive" | "mixed" | "negative" | "neutral" } {
   const normalizedText = normalize(text);
   if (!normalizedText) {
     return { score: 0.1, label: "positive" };
@@ -347,33 +366,11 @@ function analyzeSentiment(text: string): { score: number; label: "positive" | "m
   return { score, label: "mixed" };
 }
 
-async function fetchJson(url: string): Promise<unknown> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 16_000);
-  try {
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        accept: "application/json",
-        "user-agent": "PeptideDB-SocialIngest/1.0 (+https://peptidedb.vercel.app)"
-      },
-      cache: "no-store",
-      signal: controller.signal
-    });
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
-    return await response.json();
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
 class RedditAdapter implements UgcSourceAdapter {
   source: UgcPost["source"] = "reddit";
   displayName = "Reddit";
 
-  async fetchByTerm(term: string, _entityType: EntityType): Promise<UgcPost[]> {
+  async fetchByTerm(term: string, _entityType: EntityType, onError?: (message: string) => void): Promise<UgcPost[]> {
     const posts: UgcPost[] = [];
     const normalizedTerm = normalize(term);
     if (!normalizedTerm || normalizedTerm.length < 3) {
@@ -382,7 +379,7 @@ class RedditAdapter implements UgcSourceAdapter {
 
     const globalSearchUrl = `https://www.reddit.com/search.json?q=${encodeURIComponent(term)}&sort=new&t=year&limit=70`;
     try {
-      const payload = asRecord(await fetchJson(globalSearchUrl));
+      const payload = asRecord(await fetchSourceJson(globalSearchUrl, REDDIT_FETCH));
       const children = asArray(asRecord(payload?.data)?.children);
       for (const child of children) {
         const data = asRecord(asRecord(child)?.data);
@@ -430,8 +427,8 @@ class RedditAdapter implements UgcSourceAdapter {
           sentimentLabel: sentiment.label
         });
       }
-    } catch {
-      // ignore global-search failures
+    } catch (error) {
+      onError?.(errorMessage(error));
     }
 
     return posts;
@@ -442,7 +439,7 @@ class TrustpilotAdapter implements UgcSourceAdapter {
   source: UgcPost["source"] = "trustpilot";
   displayName = "Trustpilot";
 
-  async fetchByTerm(term: string, entityType: EntityType): Promise<UgcPost[]> {
+  async fetchByTerm(term: string, entityType: EntityType, onError?: (message: string) => void): Promise<UgcPost[]> {
     if (entityType !== "vendor") {
       return [];
     }
@@ -458,27 +455,7 @@ class TrustpilotAdapter implements UgcSourceAdapter {
 
     const searchUrl = `https://www.trustpilot.com/review/${encodeURIComponent(domain)}`;
     try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 15_000);
-      let response: Response;
-      try {
-        response = await fetch(searchUrl, {
-          method: "GET",
-          headers: {
-            accept: "text/html,application/xhtml+xml",
-            "user-agent":
-              "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122 Safari/537.36"
-          },
-          cache: "no-store",
-          signal: controller.signal
-        });
-      } finally {
-        clearTimeout(timeout);
-      }
-      if (!response.ok) {
-        return [];
-      }
-      const html = await response.text();
+      const html = await fetchSourceText(searchUrl, TRUSTPILOT_FETCH);
       const nextDataMatch = html.match(/<script id=\"__NEXT_DATA__\" type=\"application\/json\">([\s\S]*?)<\/script>/i);
       if (!nextDataMatch?.[1]) {
         return [];
@@ -532,7 +509,11 @@ class TrustpilotAdapter implements UgcSourceAdapter {
         });
       }
       return posts;
-    } catch {
+    } catch (error) {
+      // No Trustpilot page for the domain is a miss, not an outage.
+      if (!(error instanceof SourceHttpError && error.status === 404)) {
+        onError?.(errorMessage(error));
+      }
       return [];
     }
   }
@@ -552,21 +533,34 @@ async function gatherUgcPosts(
   terms: string[],
   entityType: EntityType,
   maxTermsPerEntity: number
-): Promise<{ posts: UgcPost[]; sourceHits: { reddit: number; trustpilot: number } }> {
+): Promise<{ posts: UgcPost[]; sourceHits: { reddit: number; trustpilot: number }; sources: IngestSourceOutcome[] }> {
   const selectedTerms = uniqueStrings(terms).slice(0, Math.max(1, maxTermsPerEntity));
   const allPosts: UgcPost[] = [];
   const sourceHits = { reddit: 0, trustpilot: 0 };
+  const sources: IngestSourceOutcome[] = [];
 
   for (const adapter of UGC_ADAPTERS) {
+    let adapterRows = 0;
+    let adapterError = "";
     for (const term of selectedTerms) {
-      const rows = await adapter.fetchByTerm(term, entityType);
+      const rows = await adapter.fetchByTerm(term, entityType, (message) => {
+        adapterError = message;
+      });
       if (rows.length > 0) {
         if (adapter.source === "reddit") sourceHits.reddit += 1;
         if (adapter.source === "trustpilot") sourceHits.trustpilot += 1;
       }
+      adapterRows += rows.length;
       allPosts.push(...rows);
       await sleep(70);
     }
+    if (adapterRows > 0) {
+      sources.push({ source: adapter.displayName, status: "HIT" });
+    } else if (adapterError) {
+      sources.push({ source: adapter.displayName, status: "FAILED", detail: adapterError });
+    } else {
+      sources.push({ source: adapter.displayName, status: "MISS" });
+    }
   }
 
   const deduped = new Map<string, UgcPost>();
@@ -579,54 +573,11 @@ async function gatherUgcPosts(
 
   return {
     posts: rankPosts(Array.from(deduped.values())),
-    sourceHits
+    sourceHits,
+    sources
   };
 }
 
-async function findOrCreateCitationId(
-  supabase: SupabaseClient,
-  sourceUrl: string,
-  sourceTitle: string,
-  publishedAt: string
-): Promise<number> {
-  const normalizedSourceUrl = toHumanReadableSourceUrl(sourceUrl);
-  if (!normalizedSourceUrl) {
-    throw new Error("Missing or invalid social citation URL.");
-  }
-
-  const { data: existingRows, error: existingError } = await supabase
-    .from("citations")
-    .select("id")
-    .eq("source_url", normalizedSourceUrl)
-    .eq("published_at", publishedAt)
-    .order("id", { ascending: false })
-    .limit(1);
-  if (existingError) {
-    throw new Error(existingError.message);
-  }
-
-  const existing = asArray(existingRows)[0];
-  const existingId = asNumber(asRecord(existing)?.id);
-  if (existingId > 0) {
-    return existingId;
-  }
-
-  const { data: inserted, error: insertError } = await supabase
-    .from("citations")
-    .insert({
-      source_url: normalizedSourceUrl,
-      source_title: sourceTitle,
-      published_at: publishedAt
-    })
-    .select("id")
-    .single();
-
-  if (insertError || !inserted?.id) {
-    throw new Error(insertError?.message ?? "Failed inserting citation row.");
-  }
-  return Number(inserted.id);
-}
-
 function sentimentLabelFromAverage(score: number | null): "positive" | "mixed" | "negative" | "neutral" {
   if (score === null) {
     return "neutral";
@@ -650,17 +601,14 @@ function sourceSectionLabel(source: UgcPost["source"]): string {
   return "Community Signals (Trustpilot)";
 }
 
-function evidenceGradeFromPosts(posts: UgcPost[]): EvidenceGrade {
-  if (posts.length >= 14) return "D";
-  if (posts.length >= 5) return "D";
-  return "I";
-}
-
 async function loadPeptides(supabase: SupabaseClient, options?: SocialUgcIngestOptions): Promise<PeptideRow[]> {
-  let query = supabase
-    .from("peptides")
-    .select("id,slug,canonical_name,is_published,peptide_aliases(alias)")
-    .order("canonical_name", { ascending: true });
+  let query = supabase.from("peptides").select("id,slug,canonical_name,is_published,peptide_aliases(alias)");
+  if (options?.staleBefore) {
+    query = query
+      .or(`last_social_refresh_at.is.null,last_social_refresh_at.lt."${options.staleBefore}"`)
+      .order("last_social_refresh_at", { ascending: true, nullsFirst: true });
+  }
+  query = query.order("canonical_name", { ascending: true });
 
   if (options?.onlyPublished ?? true) {
     query = query.eq("is_published", true);
@@ -673,6 +621,9 @@ async function loadPeptides(supabase: SupabaseClient, options?: SocialUgcIngestO
   }
 
   const { data, error } = await query;
+  if (error?.message.includes("last_social_refresh_at")) {
+    throw new Error("Missing peptides.last_social_refresh_at. Re-run db/bootstrap.sql and try again.");
+  }
   if (error || !data) {
     throw new Error(error?.message ?? "Failed loading peptides.");
   }
@@ -690,7 +641,13 @@ async function loadPeptides(supabase: SupabaseClient, options?: SocialUgcIngestO
 }
 
 async function loadVendors(supabase: SupabaseClient, options?: SocialUgcIngestOptions): Promise<VendorRow[]> {
-  let query = supabase.from("vendors").select("id,slug,name,website_url,is_published").order("name", { ascending: true });
+  let query = supabase.from("vendors").select("id,slug,name,website_url,is_published");
+  if (options?.staleBefore) {
+    query = query
+      .or(`last_social_refresh_at.is.null,last_social_refresh_at.lt."${options.staleBefore}"`)
+      .order("last_social_refresh_at", { ascending: true, nullsFirst: true });
+  }
+  query = query.order("name", { ascending: true });
 
   if (options?.onlyPublished ?? true) {
     query = query.eq("is_published", true);
@@ -703,6 +660,9 @@ async function loadVendors(supabase: SupabaseClient, options?: SocialUgcIngestOp
   }
 
   const { data, error } = await query;
+  if (error?.message.includes("last_social_refresh_at")) {
+    throw new Error("Missing vendors.last_social_refresh_at. Re-run db/bootstrap.sql and try again.");
+  }
   if (error || !data) {
     throw new Error(error?.message ?? "Failed loading vendors.");
   }
@@ -747,12 +707,23 @@ function isLikelyCodeName(value: string): boolean {
   return false;
 }
 
+export async function listSocialUgcTargets(
+  supabase: SupabaseClient,
+  options?: Pick<SocialUgcIngestOptions, "peptideLimit" | "vendorLimit" | "onlyPublished" | "staleBefore">
+): Promise<Array<{ entityType: EntityType; slug: string; name: string }>> {
+  const [peptides, vendors] = await Promise.all([loadPeptides(supabase, options), loadVendors(supabase, options)]);
+  return [
+    ...peptides.map((peptide) => ({ entityType: "peptide" as const, slug: peptide.slug, name: peptide.name })),
+    ...vendors.map((vendor) => ({ entityType: "vendor" as const, slug: vendor.slug, name: vendor.name }))
+  ];
+}
+
 export async function ingestSocialUgcSignals(
   supabase: SupabaseClient,
   options?: SocialUgcIngestOptions
 ): Promise<SocialUgcIngestResult> {
-  const peptides = await loadPeptides(supabase, options);
-  const vendors = await loadVendors(supabase, options);
+  const peptides = options?.only === "vendor" ? [] : await loadPeptides(supabase, options);
+  const vendors = options?.only === "peptide" ? [] : await loadVendors(supabase, options);
   const delayMs = Math.max(0, Number(options?.delayMs ?? 90));
   const maxTermsPerEntity = Math.max(1, Number(options?.maxTermsPerEntity ?? 2));
   const maxQuotesPerVendor = Math.max(1, Number(options?.maxQuotesPerVendor ?? 6));
@@ -766,19 +737,52 @@ export async function ingestSocialUgcSignals(
   const sourceHits = { reddit: 0, trustpilot: 0 };
 
   for (const peptide of peptides) {
+    const startedAt = Date.now();
+    const claimsBefore = peptideClaimsInserted;
+    let sources: IngestSourceOutcome[] = [];
+    let itemError: string | null = null;
     try {
       const terms = [peptide.name, ...peptide.aliases]
         .filter((term) => term.length >= 3)
         .filter((term) => !isLikelyCodeName(term));
       if (terms.length === 0) {
+        // Stamped anyway so a staleness-driven schedule does not keep picking it.
+        const { error: stampError } = await supabase
+          .from("peptides")
+          .update({ last_social_refresh_at: new Date().toISOString() })
+          .eq("id", peptide.id);
+        if (stampError) {
+          throw new Error(stampError.message);
+        }
         peptidesUpdated += 1;
+        await options?.audit?.record({
+          entityType: "PEPTIDE",
+          entityKey: peptide.slug,
+          entityLabel: peptide.name,
+          status: "SKIPPED",
+          error: "No searchable name or alias (code names are skipped).",
+          durationMs: Date.now() - startedAt
+        });
         await sleep(Math.min(delayMs, 12));
         continue;
       }
-      const { posts, sourceHits: localHits } = await gatherUgcPosts(terms, "peptide", maxTermsPerEntity);
+      const gathered = await gatherUgcPosts(terms, "peptide", maxTermsPerEntity);
+      const { posts, sourceHits: localHits } = gathered;
+      sources = gathered.sources;
       sourceHits.reddit += localHits.reddit;
       sourceHits.trustpilot += localHits.trustpilot;
 
+      const { data: previousClaims, error: previousError } = await supabase
+        .from("peptide_claims")
+        .select("section")
+        .eq("peptide_id", peptide.id)
+        .in("section", COMMUNITY_CLAIM_SECTIONS);
+      if (previousError) {
+        throw new Error(previousError.message);
+      }
+      const previousSections = new Set(asArray(previousClaims).map((row) => asString(asRecord(row)?.section)));
+      const changes: ContentChangeInput[] = [];
+
       const { error: clearError } = await supabase
         .from("peptide_claims")
         .delete()
@@ -806,7 +810,7 @@ export async function ingestSocialUgcSignals(
 
         const avg = averageSentiment(sourcePosts);
         const sentimentLabel = sentimentLabelFromAverage(avg);
-        const evidenceGrade = evidenceGradeFromPosts(sourcePosts);
+        const assessment = gradeCommunitySignal(sourcePosts.length);
         const publishedAt = sourcePosts
           .map((row) => row.createdAt)
           .sort((a, b) => (a > b ? -1 : 1))[0];
@@ -816,76 +820,94 @@ export async function ingestSocialUgcSignals(
           280
         );
 
-        const citationId = await findOrCreateCitationId(
-          supabase,
-          top.url,
-          `${sourceLabel} search results for ${peptide.name}`,
-          toIsoDay(publishedAt)
-        );
+        const citationId = await findOrCreateCitation(supabase, {
+          sourceUrl: top.url,
+          sourceTitle: `${sourceLabel} search results for ${peptide.name}`,
+          publishedAt: toIsoDay(publishedAt),
+          publicationType: "COMMUNITY"
+        });
 
         const { error: insertError } = await supabase.from("peptide_claims").insert({
           peptide_id: peptide.id,
           section: sourceSectionLabel(source),
           claim_text: claimText,
-          evidence_grade: evidenceGrade,
+          evidence_grade: assessment.grade,
+          grade_rationale: assessment.rationale,
           citation_id: citationId
         });
         if (insertError) {
           throw new Error(insertError.message);
         }
         peptideClaimsInserted += 1;
+        // Post counts and quotes shift on every run; only a source's first appearance is feed-worthy.
+        if (!previousSections.has(sourceSectionLabel(source))) {
+          changes.push({
+            entityType: "CLAIM",
+            peptideId: peptide.id,
+            field: `Community discussion added (${sourceLabel})`,
+            next: claimText
+          });
+        }
       }
 
+      await recordContentChanges(supabase, "SOCIAL_UGC", changes);
+      const { error: stampError } = await supabase
+        .from("peptides")
+        .update({ last_social_refresh_at: new Date().toISOString() })
+        .eq("id", peptide.id);
+      if (stampError) {
+        throw new Error(stampError.message);
+      }
       peptidesUpdated += 1;
       await sleep(delayMs);
-    } catch {
+    } catch (error) {
       failures += 1;
+      itemError = errorMessage(error);
     }
+
+    await options?.audit?.record({
+      entityType: "PEPTIDE",
+      entityKey: peptide.slug,
+      entityLabel: peptide.name,
+      status: itemError ? "FAILED" : "SUCCEEDED",
+      sources,
+      counters: { claimsInserted: peptideClaimsInserted - claimsBefore },
+      error: itemError,
+      durationMs: Date.now() - startedAt
+    });
   }
 
   for (const vendor of vendors) {
+    const startedAt = Date.now();
+    const reviewsBefore = vendorReviewsInserted;
+    let sources: IngestSourceOutcome[] = [];
+    let itemError: string | null = null;
     try {
       const terms = [vendor.name, domainSearchTerm(vendor.websiteUrl)].filter((term) => term.length >= 4);
-      const { posts, sourceHits: localHits } = await gatherUgcPosts(terms, "vendor", maxTermsPerEntity);
+      const gathered = await gatherUgcPosts(terms, "vendor", maxTermsPerEntity);
+      const { posts, sourceHits: localHits } = gathered;
+      sources = gathered.sources;
       sourceHits.reddit += localHits.reddit;
       sourceHits.trustpilot += localHits.trustpilot;
 
       const ranked = rankPosts(posts).slice(0, maxQuotesPerVendor);
 
-      const { error: clearReviewError } = await supabase
-        .from("vendor_verifications")
-        .delete()
-        .eq("vendor_id", vendor.id)
-        .like("verification_type", "community_review_%");
-      if (clearReviewError) {
-        throw new Error(clearReviewError.message);
-      }
-
-      if (ranked.length > 0) {
-        const rows = ranked.map((post) => ({
-          vendor_id: vendor.id,
-          verification_type: `community_review_${post.source}`,
-          value: JSON.stringify({
-            source: post.source,
-            community: post.community,
-            quote: post.quote,
-            sourceUrl: post.url,
-            createdAt: post.createdAt,
-            author: post.author || null,
-            sentimentScore: post.sentimentScore,
-            sentimentLabel: post.sentimentLabel,
-            upvotes: post.score,
-            commentCount: post.commentCount
-          }),
-          verified_at: post.createdAt
-        }));
-
-        const { error: insertReviewError } = await supabase.from("vendor_verifications").insert(rows);
-        if (insertReviewError) {
-          throw new Error(insertReviewError.message);
-        }
-        vendorReviewsInserted += rows.length;
-      }
+      vendorReviewsInserted += await replaceVendorReviews(
+        supabase,
+        vendor.id,
+        ranked.map((post) => ({
+          source: post.source,
+          community: post.community || null,
+          quote: post.quote,
+          sourceUrl: post.url,
+          author: post.author || null,
+          sentimentLabel: post.sentimentLabel,
+          sentimentScore: post.sentimentScore,
+          upvotes: post.score,
+          commentCount: post.commentCount,
+          postedAt: post.createdAt
+        }))
+      );
 
       const avgSentiment = averageSentiment(ranked);
       const sentimentLabel = sentimentLabelFromAverage(avgSentiment);
@@ -918,11 +940,14 @@ export async function ingestSocialUgcSignals(
       ].filter(Boolean);
 
       const mergedReasonTags = uniqueStrings([...baseReasonTags, ...socialReasonTags]);
-      const score = computeVendorScore(baseReasonTags, Number(listingCount ?? 0), {
+      const scoreInputs = {
+        trustSignals: baseReasonTags,
+        listingCount: Number(listingCount ?? 0),
         reviewCount: ranked.length,
         averageSentiment: avgSentiment,
         sourceCount: new Set(ranked.map((post) => post.source)).size
-      });
+      };
+      const score = computeVendorScore(scoreInputs.trustSignals, scoreInputs.listingCount, scoreInputs);
 
       const { error: clearCurrentRatingError } = await supabase
         .from("vendor_rating_snapshots")
@@ -938,6 +963,8 @@ export async function ingestSocialUgcSignals(
         rating: score.rating,
         confidence: score.confidence,
         method_version: "vendor_ugc_ingest_v1",
+        scoring_version: score.scoringVersion,
+        score_inputs: scoreInputs,
         reason_tags: mergedReasonTags,
         is_current: true
       });
@@ -945,12 +972,41 @@ export async function ingestSocialUgcSignals(
         throw new Error(insertRatingError.message);
       }
 
+      await recordContentChanges(supabase, "SOCIAL_UGC", [
+        {
+          entityType: "VENDOR_RATING",
+          vendorId: vendor.id,
+          field: "Rating",
+          previous: formatRatingChange(current?.rating),
+          next: formatRatingChange(score.rating)
+        }
+      ]);
+
+      const { error: stampError } = await supabase
+        .from("vendors")
+        .update({ last_social_refresh_at: new Date().toISOString() })
+        .eq("id", vendor.id);
+      if (stampError) {
+        throw new Error(stampError.message);
+      }
       vendorsUpdated += 1;
       vendorRatingsUpdated += 1;
       await sleep(delayMs);
-    } catch {
+    } catch (error) {
       failures += 1;
+      itemError = errorMessage(error);
     }
+
+    await options?.audit?.record({
+      entityType: "VENDOR",
+      entityKey: vendor.slug,
+      entityLabel: vendor.name,
+      status: itemError ? "FAILED" : "SUCCEEDED",
+      sources,
+      counters: { reviewsInserted: vendorReviewsInserted - reviewsBefore },
+      error: itemError,
+      durationMs: Date.now() - startedAt
+    });
   }
 
   return {
@@ -0,0 +1,262 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+// Shared HTTP client for every external source the ingests read (PubMed, ClinicalTrials.gov, Reddit,
+// vendor sites, ...). One place for timeouts, retries, per-host rate limits, the response cache and
+// the record/replay fixtures the offline test suite runs against.
+
+export type SourceClientMode = "live" | "record" | "replay";
+
+export type SourceClientConfig = {
+  // live: network with cache. record: network, every response saved as a fixture. replay: fixtures only.
+  mode: SourceClientMode;
+  fixturesDir: string;
+  // Empty disables the response cache.
+  cacheDir: string;
+};
+
+export type SourceRequestOptions = {
+  accept?: string;
+  userAgent?: string;
+  timeoutMs?: number;
+  // Retries after the first attempt for timeouts, network errors, 429 and 5xx.
+  retries?: number;
+  // Overrides the host's default cache lifetime; 0 skips the cache for this request.
+  cacheTtlMs?: number;
+};
+
+type SourceResponse = {
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+};
+
+type StoredResponse = SourceResponse & {
+  storedAt: string;
+};
+
+type HostPolicy = {
+  requestsPerSecond: number;
+  cacheTtlMs: number;
+};
+
+export class SourceHttpError extends Error {
+  status: number;
+
+  constructor(status: number, url: string) {
+    super(`HTTP ${status} from ${url}`);
+    this.name = "SourceHttpError";
+    this.status = status;
+  }
+}
+
+const DEFAULT_USER_AGENT = "PeptideDB-IngestionBot/1.0 (+https://peptidedb.vercel.app)";
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 450;
+const MAX_BACKOFF_MS = 30_000;
+const HOUR_MS = 3_600_000;
+// Query parameters that must never end up in a cache key or a committed fixture.
+const SECRET_PARAMS = ["api_key", "apikey", "key", "token"];
+
+const DEFAULT_POLICY: HostPolicy = { requestsPerSecond: 4, cacheTtlMs: 12 * HOUR_MS };
+
+// NCBI allows 3 requests/second per client, or 10 with an API key; the others are polite defaults
+// below each source's published or observed limits.
+const HOST_POLICIES: Record<string, () => HostPolicy> = {
+  "eutils.ncbi.nlm.nih.gov": () => ({
+    requestsPerSecond: process.env.NCBI_API_KEY?.trim() ? 10 : 3,
+    cacheTtlMs: 6 * HOUR_MS
+  }),
+  "pubchem.ncbi.nlm.nih.gov": () => ({ requestsPerSecond: 5, cacheTtlMs: 7 * 24 * HOUR_MS }),
+  "clinicaltrials.gov": () => ({ requestsPerSecond: 5, cacheTtlMs: 6 * HOUR_MS }),
+  "api.fda.gov": () => ({ requestsPerSecond: 4, cacheTtlMs: 24 * HOUR_MS }),
+  "www.ebi.ac.uk": () => ({ requestsPerSecond: 4, cacheTtlMs: 7 * 24 * HOUR_MS }),
+  "en.wikipedia.org": () => ({ requestsPerSecond: 5, cacheTtlMs: 24 * HOUR_MS }),
+  "www.reddit.com": () => ({ requestsPerSecond: 1, cacheTtlMs: HOUR_MS }),
+  "www.trustpilot.com": () => ({ requestsPerSecond: 1, cacheTtlMs: 6 * HOUR_MS })
+};
+
+const nextSlotByHost = new Map<string, number>();
+let configOverride: Partial<SourceClientConfig> = {};
+
+function readMode(value: string | undefined): SourceClientMode {
+  return value === "record" || value === "replay" ? value : "live";
+}
+
+function currentConfig(): SourceClientConfig {
+  const cacheSetting = process.env.SOURCE_CACHE_DIR?.trim();
+  return {
+    mode: readMode(process.env.SOURCE_HTTP_MODE?.trim()),
+    fixturesDir: process.env.SOURCE_FIXTURES_DIR?.trim() || path.join(process.cwd(), "tests", "fixtures", "http"),
+    // SOURCE_CACHE_DIR=off turns the cache off; the default lives in the temp dir so it also works on serverless.
+    cacheDir: cacheSetting === "off" ? "" : cacheSetting || path.join(os.tmpdir(), "peptidedb-source-cache"),
+    ...configOverride
+  };
+}
+
+// Tests and scripts can switch mode or directories without touching process.env.
+export function configureSourceClient(config: Partial<SourceClientConfig>): void {
+  configOverride = { ...config };
+  nextSlotByHost.clear();
+}
+
+function sleep(ms: number): Promise<void> {
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function hostPolicy(host: string): HostPolicy {
+  return HOST_POLICIES[host]?.() ?? DEFAULT_POLICY;
+}
+
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const param of SECRET_PARAMS) {
+      parsed.searchParams.delete(param);
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function requestKey(url: string, accept: string): { host: string; file: string } {
+  const redacted = redactUrl(url);
+  let host = "unknown-host";
+  try {
+    host = new URL(redacted).host.replace(/[^a-z0-9.-]/gi, "_") || host;
+  } catch {
+    // keep the placeholder host for malformed URLs; fetch will reject them anyway
+  }
+  const hash = createHash("sha256").update(`GET ${redacted} ${accept}`).digest("hex").slice(0, 24);
+  return { host, file: `${hash}.json` };
+}
+
+// Spaces requests to one host evenly. Process-local: separate workers each get the full budget.
+async function waitForHostSlot(host: string): Promise<void> {
+  const interval = 1000 / Math.max(0.1, hostPolicy(host).requestsPerSecond);
+  const now = Date.now();
+  const slot = Math.max(now, nextSlotByHost.get(host) ?? 0);
+  nextSlotByHost.set(host, slot + interval);
+  await sleep(slot - now);
+}
+
+async function readStored(dir: string, host: string, file: string): Promise<StoredResponse | null> {
+  try {
+    const parsed = JSON.parse(await readFile(path.join(dir, host, file), "utf8")) as StoredResponse;
+    return typeof parsed?.body === "string" && typeof parsed.status === "number" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeStored(dir: string, host: string, file: string, response: SourceResponse): Promise<void> {
+  const stored: StoredResponse = { ...response, url: redactUrl(response.url), storedAt: new Date().toISOString() };
+  await mkdir(path.join(dir, host), { recursive: true });
+  await writeFile(path.join(dir, host, file), `${JSON.stringify(stored, null, 2)}\n`, "utf8");
+}
+
+function retryDelayMs(attempt: number, retryAfter: string | null): number {
+  const retryAfterSeconds = Number(retryAfter);
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0) {
+    return Math.min(MAX_BACKOFF_MS, retryAfterSeconds * 1000);
+  }
+  const jitter = Math.random() * BACKOFF_BASE_MS;
+  return Math.min(MAX_BACKOFF_MS, BACKOFF_BASE_MS * 2 ** attempt + jitter);
+}
+
+async function fetchLive(url: string, host: string, accept: string, options: SourceRequestOptions): Promise<SourceResponse> {
+  const retries = Math.max(0, options.retries ?? DEFAULT_RETRIES);
+  let attempt = 0;
+
+  while (true) {
+    await waitForHostSlot(host);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "GET",
+        headers: { accept, "user-agent": options.userAgent ?? DEFAULT_USER_AGENT },
+        cache: "no-store",
+        signal: controller.signal
+      });
+      const retryable = response.status === 429 || response.status >= 500;
+      if (retryable && attempt < retries) {
+        await response.body?.cancel();
+        await sleep(retryDelayMs(attempt, response.headers.get("retry-after")));
+        attempt += 1;
+        continue;
+      }
+      return {
+        url,
+        status: response.status,
+        contentType: response.headers.get("content-type") ?? "",
+        body: await response.text()
+      };
+    } catch (error) {
+      if (attempt >= retries) {
+        throw error;
+      }
+      await sleep(retryDelayMs(attempt, null));
+      attempt += 1;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+async function request(url: string, accept: string, options: SourceRequestOptions = {}): Promise<SourceResponse> {
+  const config = currentConfig();
+  const { host, file } = requestKey(url, accept);
+
+  if (config.mode === "replay") {
+    const fixture = await readStored(config.fixturesDir, host, file);
+    if (!fixture) {
+      throw new Error(`No recorded fixture for ${redactUrl(url)}. Re-record with SOURCE_HTTP_MODE=record.`);
+    }
+    return fixture;
+  }
+
+  const ttl = options.cacheTtlMs ?? hostPolicy(host).cacheTtlMs;
+  const useCache = config.mode === "live" && Boolean(config.cacheDir) && ttl > 0;
+  if (useCache) {
+    const cached = await readStored(config.cacheDir, host, file);
+    if (cached && Date.now() - new Date(cached.storedAt).getTime() < ttl) {
+      return cached;
+    }
+  }
+
+  const response = await fetchLive(url, host, accept, options);
+  if (config.mode === "record") {
+    await writeStored(config.fixturesDir, host, file, response);
+  } else if (useCache && response.status >= 200 && response.status < 300) {
+    // A read-only filesystem only costs the cache, never the ingest.
+    await writeStored(config.cacheDir, host, file, response).catch(() => undefined);
+  }
+  return response;
+}
+
+function checked(response: SourceResponse): SourceResponse {
+  if (response.status < 200 || response.status >= 300) {
+    throw new SourceHttpError(response.status, redactUrl(response.url));
+  }
+  return response;
+}
+
+export async function fetchSourceJson(url: string, options?: SourceRequestOptions): Promise<unknown> {
+  const response = checked(await request(url, options?.accept ?? "application/json", options));
+  return JSON.parse(response.body);
+}
+
+export async function fetchSourceText(url: string, options?: SourceRequestOptions): Promise<string> {
+  const response = checked(await request(url, options?.accept ?? "text/html,application/xhtml+xml,text/plain,*/*", options));
+  return response.body;
+}
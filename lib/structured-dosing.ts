@@ -0,0 +1,404 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DOSE_UNITS, DOSING_ROUTES } from "@/lib/constants";
+import type {
+  DoseUnit,
+  DosingEntry,
+  DosingParseConfidence,
+  DosingRoute,
+  StructuredDosing,
+  TitrationStep
+} from "@/lib/types";
+
+type DoseMention = {
+  amount: number;
+  unit: DoseUnit;
+  isMax: boolean;
+  // Upper bound of a range such as "250-500 mcg"; a range is one step, not a titration.
+  isRangeHigh: boolean;
+  durationWeeks: number | null;
+  // "increase to 1 mg after 4 weeks" describes how long the previous step lasted.
+  previousStepWeeks: number | null;
+};
+
+type DosingText = Pick<DosingEntry, "route" | "startingDose" | "maintenanceDose" | "frequency" | "notes">;
+
+type ParseRunResult = {
+  parsed: number;
+  lowConfidence: number;
+};
+
+const PAGE_SIZE = 500;
+
+const AMOUNT = String.raw`\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?|\.\d+`;
+const DOSE_PATTERN = new RegExp(
+  String.raw`(?:(${AMOUNT})\s*(?:-|–|to)\s*)?(${AMOUNT})\s*(mg|milligrams?|mcg|µg|ug|micrograms?|iu|international units?|units?)(?![a-z])`,
+  "gi"
+);
+const MAX_PREFIX = /(?:max(?:imum)?(?:\s+(?:weekly|daily))?(?:\s+dose)?(?:\s+of)?|up to|not (?:to )?exceed|no more than)\W*$/i;
+const DURATION_SUFFIX = /^[^.;\d]{0,30}?(?:for|x|×)\s*(\d+)\s*(weeks?|wks?|days?|months?)\b/i;
+const AFTER_SUFFIX = /^[^.;\d]{0,20}?after\s+(?:at least\s+)?(\d+)\s*(weeks?|wks?|days?|months?)\b/i;
+const WEEK_RANGE_PREFIX = /weeks?\s*(\d+)\s*(?:-|–|to|through)\s*(\d+)\W*$/i;
+
+const ROUTE_PATTERNS: Array<{ route: DosingRoute; pattern: RegExp }> = [
+  { route: "SUBCUTANEOUS", pattern: /\b(subcutaneous(?:ly)?|sub-?q|s\.?c\.?|sc injection)\b/i },
+  { route: "INTRAMUSCULAR", pattern: /\b(intramuscular(?:ly)?|i\.?m\.?)\b/i },
+  { route: "INTRAVENOUS", pattern: /\b(intravenous(?:ly)?|i\.?v\.?|infusion)\b/i },
+  { route: "INTRANASAL", pattern: /\b(intranasal(?:ly)?|nasal spray|nasal)\b/i },
+  { route: "ORAL", pattern: /\b(oral(?:ly)?|by mouth|tablets?|capsules?)\b/i },
+  { route: "TOPICAL", pattern: /\b(topical(?:ly)?|cream|gel|transdermal)\b/i }
+];
+
+const UNSPECIFIED_PATTERN = /^(not specified|varies|protocol|study|per |n\/a)/i;
+
+const INTERVAL_PATTERNS: Array<{ days: number; pattern: RegExp }> = [
+  { days: 0.5, pattern: /\b(twice (?:a |per )?day|twice daily|bid|every 12 hours)\b/i },
+  { days: 1 / 3, pattern: /\b(three times (?:a |per )?day|tid|every 8 hours)\b/i },
+  { days: 2, pattern: /\b(every other day|alternate days|eod)\b/i },
+  { days: 3.5, pattern: /\b(twice (?:a |per )?week|twice weekly|biweekly)\b/i },
+  { days: 7 / 3, pattern: /\b(three times (?:a |per )?week|3x weekly)\b/i },
+  { days: 1, pattern: /\b(once daily|daily|every day|once a day|per day|qd|nightly)\b/i },
+  { days: 7, pattern: /\b(once weekly|weekly|once a week|every week|per week)\b/i },
+  { days: 30, pattern: /\b(monthly|once a month|every month)\b/i }
+];
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function parseAmount(raw: string): number {
+  return Number(raw.replace(/,/g, ""));
+}
+
+function normalizeUnit(raw: string): DoseUnit {
+  const lower = raw.toLowerCase();
+  if (lower.startsWith("mg") || lower.startsWith("milligram")) {
+    return "mg";
+  }
+  if (lower === "mcg" || lower === "µg" || lower === "ug" || lower.startsWith("microgram")) {
+    return "mcg";
+  }
+  return "IU";
+}
+
+function durationToWeeks(count: number, unit: string): number {
+  const lower = unit.toLowerCase();
+  if (lower.startsWith("d")) {
+    return Math.round((count / 7) * 10) / 10;
+  }
+  if (lower.startsWith("m")) {
+    return count * 4;
+  }
+  return count;
+}
+
+function findDoseMentions(text: string): DoseMention[] {
+  const mentions: DoseMention[] = [];
+  for (const match of text.matchAll(DOSE_PATTERN)) {
+    const index = match.index ?? 0;
+    const before = text.slice(Math.max(0, index - 40), index);
+    const after = text.slice(index + match[0].length);
+    const unit = normalizeUnit(match[3] ?? "");
+    const isMax = MAX_PREFIX.test(before);
+
+    const durationMatch = after.match(DURATION_SUFFIX);
+    const rangeMatch = before.match(WEEK_RANGE_PREFIX);
+    const durationWeeks = durationMatch
+      ? durationToWeeks(Number(durationMatch[1]), durationMatch[2] ?? "weeks")
+      : rangeMatch
+        ? Math.max(1, Number(rangeMatch[2]) - Number(rangeMatch[1]) + 1)
+        : null;
+    const afterMatch = after.match(AFTER_SUFFIX);
+    const previousStepWeeks = afterMatch ? durationToWeeks(Number(afterMatch[1]), afterMatch[2] ?? "weeks") : null;
+
+    if (match[1]) {
+      mentions.push({ amount: parseAmount(match[1]), unit, isMax: false, isRangeHigh: false, durationWeeks, previousStepWeeks });
+      mentions.push({
+        amount: parseAmount(match[2] ?? "0"),
+        unit,
+        isMax,
+        isRangeHigh: true,
+        durationWeeks: null,
+        previousStepWeeks: null
+      });
+      continue;
+    }
+    mentions.push({ amount: parseAmount(match[2] ?? "0"), unit, isMax, isRangeHigh: false, durationWeeks, previousStepWeeks });
+  }
+  return mentions.filter((mention) => Number.isFinite(mention.amount) && mention.amount > 0);
+}
+
+function isMassUnit(unit: DoseUnit): boolean {
+  return unit === "mg" || unit === "mcg";
+}
+
+export function convertDose(amount: number, from: DoseUnit, to: DoseUnit): number | null {
+  if (from === to) {
+    return amount;
+  }
+  if (from === "mg" && to === "mcg") {
+    return amount * 1000;
+  }
+  if (from === "mcg" && to === "mg") {
+    return amount / 1000;
+  }
+  return null;
+}
+
+export function formatDoseAmount(amount: number, unit: DoseUnit): string {
+  return `${Number(amount.toPrecision(6))} ${unit}`;
+}
+
+export function formatInterval(days: number): string {
+  if (Math.abs(days - 0.5) < 0.01) {
+    return "Twice daily";
+  }
+  if (Math.abs(days - 1 / 3) < 0.01) {
+    return "Three times daily";
+  }
+  if (days === 1) {
+    return "Daily";
+  }
+  if (days === 2) {
+    return "Every other day";
+  }
+  if (days === 3.5) {
+    return "Twice weekly";
+  }
+  if (Math.abs(days - 7 / 3) < 0.01) {
+    return "Three times weekly";
+  }
+  if (days === 7) {
+    return "Weekly";
+  }
+  if (days === 30) {
+    return "Monthly";
+  }
+  return days % 7 === 0 ? `Every ${days / 7} weeks` : `Every ${Number(days.toFixed(2))} days`;
+}
+
+export function parseDosingRoute(text: string): DosingRoute | null {
+  const cleaned = text.trim();
+  if (!cleaned || UNSPECIFIED_PATTERN.test(cleaned)) {
+    return null;
+  }
+  return ROUTE_PATTERNS.find((entry) => entry.pattern.test(cleaned))?.route ?? "OTHER";
+}
+
+export function parseDosingInterval(text: string): number | null {
+  const everyMatch = text.match(/\bevery\s+(\d+(?:\.\d+)?)\s*(hours?|days?|weeks?)\b/i);
+  if (everyMatch) {
+    const count = Number(everyMatch[1]);
+    const unit = (everyMatch[2] ?? "").toLowerCase();
+    return unit.startsWith("h") ? count / 24 : unit.startsWith("w") ? count * 7 : count;
+  }
+  return INTERVAL_PATTERNS.find((entry) => entry.pattern.test(text))?.days ?? null;
+}
+
+export function parseTitrationSteps(text: string, unit: DoseUnit): TitrationStep[] {
+  return findDoseMentions(text)
+    .filter((mention) => !mention.isMax && !mention.isRangeHigh)
+    .map((mention) => ({ amount: convertDose(mention.amount, mention.unit, unit), durationWeeks: mention.durationWeeks }))
+    .filter((step): step is TitrationStep => step.amount !== null);
+}
+
+export function parseDosingText(entry: DosingText): StructuredDosing {
+  const issues: string[] = [];
+  const startingMentions = findDoseMentions(entry.startingDose);
+  const maintenanceMentions = findDoseMentions(entry.maintenanceDose);
+  const noteMentions = findDoseMentions(entry.notes);
+  const allMentions = [...startingMentions, ...maintenanceMentions, ...noteMentions];
+
+  const unit = allMentions[0]?.unit ?? null;
+  if (unit && allMentions.some((mention) => isMassUnit(mention.unit) !== isMassUnit(unit))) {
+    issues.push("Mixes IU with mass units; amounts in the other unit were ignored.");
+  }
+  const toUnit = (mention: DoseMention | undefined): number | null =>
+    mention && unit ? convertDose(mention.amount, mention.unit, unit) : null;
+
+  const startingAmount = toUnit(startingMentions.find((mention) => !mention.isMax));
+  // The first maintenance amount is the stated dose; later ones are optional escalations.
+  const maintenanceAmount = toUnit(maintenanceMentions.find((mention) => !mention.isMax));
+  const maxCandidates = allMentions
+    .filter((mention) => mention.isMax)
+    .map((mention) => toUnit(mention))
+    .filter((amount): amount is number => amount !== null);
+  const maxAmount = maxCandidates.length > 0 ? Math.max(...maxCandidates) : null;
+
+  const titration: TitrationStep[] = [];
+  for (const mention of allMentions) {
+    const amount = mention.isMax || mention.isRangeHigh ? null : toUnit(mention);
+    if (amount === null) {
+      continue;
+    }
+    const previous = titration[titration.length - 1];
+    if (previous && previous.durationWeeks === null && previous.amount !== amount) {
+      previous.durationWeeks = mention.previousStepWeeks;
+    }
+    if (previous && previous.amount === amount) {
+      previous.durationWeeks = previous.durationWeeks ?? mention.durationWeeks;
+      continue;
+    }
+    titration.push({ amount, durationWeeks: mention.durationWeeks });
+  }
+
+  const route = parseDosingRoute(entry.route);
+  const intervalDays =
+    parseDosingInterval(entry.frequency) ??
+    parseDosingInterval(`${entry.startingDose} ${entry.maintenanceDose} ${entry.notes}`);
+
+  if (startingAmount === null && maintenanceAmount === null) {
+    issues.push("No dose amount found.");
+  }
+  if (startingAmount !== null && maintenanceAmount !== null && maintenanceAmount < startingAmount) {
+    issues.push("Maintenance dose is lower than the starting dose.");
+  }
+  if (maxAmount !== null && titration.some((step) => step.amount > maxAmount)) {
+    issues.push("A titration step exceeds the stated maximum dose.");
+  }
+  if (!route) {
+    issues.push("Route not recognised.");
+  }
+  if (intervalDays === null) {
+    issues.push("Dosing interval not recognised.");
+  }
+
+  const hasAmount = startingAmount !== null || maintenanceAmount !== null;
+  const confidence: DosingParseConfidence =
+    !hasAmount || issues.some((issue) => issue.startsWith("Mixes") || issue.startsWith("A titration"))
+      ? "low"
+      : issues.length === 0
+        ? "high"
+        : "medium";
+
+  return {
+    unit: hasAmount ? unit : null,
+    startingAmount,
+    maintenanceAmount,
+    maxAmount,
+    route,
+    intervalDays,
+    titration: titration.length > 1 ? titration : [],
+    confidence,
+    issues,
+    reviewed: false
+  };
+}
+
+export function structuredDosing(entry: DosingEntry): StructuredDosing {
+  return entry.structured ?? parseDosingText(entry);
+}
+
+export function doseInUnit(amount: number | null, from: DoseUnit | null, to: DoseUnit): number | null {
+  if (amount === null || !from) {
+    return null;
+  }
+  return convertDose(amount, from, to);
+}
+
+export function toDosingColumns(structured: StructuredDosing) {
+  return {
+    dose_unit: structured.unit,
+    starting_dose_amount: structured.startingAmount,
+    maintenance_dose_amount: structured.maintenanceAmount,
+    max_dose_amount: structured.maxAmount,
+    route_code: structured.route,
+    interval_days: structured.intervalDays,
+    titration_steps: structured.titration.map((step) => ({ amount: step.amount, duration_weeks: step.durationWeeks })),
+    parse_confidence: structured.confidence,
+    parse_issues: structured.issues,
+    parsed_at: new Date().toISOString()
+  };
+}
+
+export function fromDosingColumns(record: Record<string, unknown>): StructuredDosing | null {
+  const confidence = asString(record.parse_confidence);
+  if (confidence !== "high" && confidence !== "medium" && confidence !== "low") {
+    return null;
+  }
+
+  const unit = asString(record.dose_unit);
+  const route = asString(record.route_code);
+  return {
+    unit: (DOSE_UNITS as string[]).includes(unit) ? (unit as DoseUnit) : null,
+    startingAmount: asNumber(record.starting_dose_amount),
+    maintenanceAmount: asNumber(record.maintenance_dose_amount),
+    maxAmount: asNumber(record.max_dose_amount),
+    route: (DOSING_ROUTES as string[]).includes(route) ? (route as DosingRoute) : null,
+    intervalDays: asNumber(record.interval_days),
+    titration: asArray(record.titration_steps)
+      .map((step) => {
+        const stepRecord = asRecord(step);
+        const amount = asNumber(stepRecord?.amount);
+        return amount === null ? null : { amount, durationWeeks: asNumber(stepRecord?.duration_weeks) };
+      })
+      .filter((step): step is TitrationStep => step !== null),
+    confidence,
+    issues: asArray(record.parse_issues).map((issue) => asString(issue)).filter(Boolean),
+    reviewed: Boolean(asString(record.reviewed_at))
+  };
+}
+
+// Re-parses every dosing row a reviewer has not signed off on, so edits made by the ingest
+// jobs are picked up without touching corrected rows.
+export async function parseStoredDosingEntries(supabase: SupabaseClient): Promise<ParseRunResult> {
+  const result: ParseRunResult = { parsed: 0, lowConfidence: 0 };
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("peptide_dosing_entries")
+      .select("id,route,starting_dose,maintenance_dose,frequency,notes")
+      .is("reviewed_at", null)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const rows = (data ?? []).map((row) => asRecord(row)).filter((row): row is Record<string, unknown> => row !== null);
+    for (const row of rows) {
+      const structured = parseDosingText({
+        route: asString(row.route),
+        startingDose: asString(row.starting_dose),
+        maintenanceDose: asString(row.maintenance_dose),
+        frequency: asString(row.frequency),
+        notes: asString(row.notes)
+      });
+      const { error: updateError } = await supabase
+        .from("peptide_dosing_entries")
+        .update(toDosingColumns(structured))
+        .eq("id", row.id);
+      if (updateError) {
+        throw new Error(updateError.message);
+      }
+      result.parsed += 1;
+      if (structured.confidence === "low") {
+        result.lowConfidence += 1;
+      }
+    }
+
+    if (rows.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return result;
+}
@@ -10,6 +10,75 @@ export type EvidenceGrade = "A" | "B" | "C" | "D" | "I";
 
 export type DosingContext = "APPROVED_LABEL" | "STUDY_REPORTED" | "EXPERT_CONSENSUS";
 
+export type DoseUnit = "mg" | "mcg" | "IU";
+
+export type DosingRoute =
+  | "SUBCUTANEOUS"
+  | "INTRAMUSCULAR"
+  | "INTRAVENOUS"
+  | "ORAL"
+  | "INTRANASAL"
+  | "TOPICAL"
+  | "OTHER";
+
+export type DosingParseConfidence = "high" | "medium" | "low";
+
+export type InteractionSeverity = "MAJOR" | "MODERATE" | "MINOR";
+
+export type InteractionSource = "OPENFDA_LABEL" | "MANUAL";
+
+export type ClinicalTrialEventType = "STATUS_CHANGED" | "RESULTS_POSTED";
+
+export type ContentChangeEntity =
+  | "PEPTIDE"
+  | "REGULATORY_STATUS"
+  | "USE_CASE"
+  | "DOSING"
+  | "SAFETY"
+  | "CLAIM"
+  | "INTERACTION"
+  | "CLINICAL_TRIAL"
+  | "VENDOR"
+  | "VENDOR_LISTING"
+  | "VENDOR_RATING";
+
+// ADMIN for edits made in /admin; every other value names the ingest job that wrote the change.
+export type ContentChangeSource =
+  | "ADMIN"
+  | "BULK_IMPORT"
+  | "EXPANDED_DATASET"
+  | "CLINICALTRIALS_CATALOG"
+  | "LIVE_EVIDENCE"
+  | "TRIAL_TRACKER"
+  | "CONTENT_ENRICHMENT"
+  | "VENDOR_WEBSITE"
+  | "SOCIAL_UGC"
+  | "VENDOR_RESCORE";
+
+export type ContentProvenanceSource =
+  | "CLINICALTRIALS"
+  | "PUBMED"
+  | "OPENFDA"
+  | "PUBCHEM"
+  | "CHEMBL"
+  | "WIKIPEDIA"
+  | "NCI"
+  | "GROKIPEDIA"
+  | "PEPTIWIKI"
+  | "HUBERMAN_AI";
+
+// peptide_profiles columns that content enrichment generates.
+export type ContentProvenanceField = "intro" | "mechanism" | "effectiveness_summary" | "long_description";
+
+export type CitationPublicationType =
+  | "JOURNAL_ARTICLE"
+  | "CLINICAL_TRIAL"
+  | "REGULATORY_LABEL"
+  | "DATABASE_RECORD"
+  | "SEARCH_RESULTS"
+  | "COMMUNITY"
+  | "WEB_PAGE";
+
 export interface PeptideSummary {
   slug: string;
   name: string;
@@ -21,6 +90,25 @@ export interface PeptideSummary {
   evidenceGrade: EvidenceGrade;
 }
 
+export interface TitrationStep {
+  amount: number;
+  durationWeeks: number | null;
+}
+
+// Amounts share one unit per entry; parsed from the free-text fields unless a reviewer corrected them.
+export interface StructuredDosing {
+  unit: DoseUnit | null;
+  startingAmount: number | null;
+  maintenanceAmount: number | null;
+  maxAmount: number | null;
+  route: DosingRoute | null;
+  intervalDays: number | null;
+  titration: TitrationStep[];
+  confidence: DosingParseConfidence;
+  issues: string[];
+  reviewed: boolean;
+}
+
 export interface DosingEntry {
   context: DosingContext;
   population: string;
@@ -29,6 +117,7 @@ export interface DosingEntry {
   maintenanceDose: string;
   frequency: string;
   notes: string;
+  structured?: StructuredDosing;
 }
 
 export interface VendorCard {
@@ -70,14 +159,69 @@ export interface VendorDetail extends VendorCard {
   socialSentimentLabel: "positive" | "mixed" | "negative" | "neutral" | null;
 }
 
+export interface VendorRatingPoint {
+  calculatedAt: string;
+  rating: number | null;
+  confidence: number | null;
+  ratingChange: number | null;
+  confidenceChange: number | null;
+  methodVersion: string;
+  scoringVersion: string | null;
+  reasonTags: string[];
+  addedReasonTags: string[];
+  removedReasonTags: string[];
+  isCurrent: boolean;
+}
+
+export interface VendorRatingHistory {
+  slug: string;
+  name: string;
+  trend: "improving" | "declining" | "stable" | "insufficient_data";
+  points: VendorRatingPoint[];
+}
+
 export interface EvidenceClaim {
   section: string;
   claimText: string;
   evidenceGrade: EvidenceGrade | null;
+  gradeRationale: string | null;
   sourceUrl: string;
   sourceTitle: string | null;
   publishedAt: string;
   retrievedAt: string | null;
+  pmid: string | null;
+  doi: string | null;
+  nctId: string | null;
+  authors: string[];
+  journal: string | null;
+  publicationType: CitationPublicationType | null;
+  enrollment: number | null;
+}
+
+export interface RegulatoryStatusRecord {
+  jurisdiction: JurisdictionCode;
+  status: RegulatoryStatus;
+  approvalDate: string | null;
+  approvedIndications: string[];
+  brandNames: string[];
+  regulatorReference: string | null;
+  sourceUrl: string | null;
+  notes: string | null;
+}
+
+export interface RegulatoryStatusChange {
+  jurisdiction: JurisdictionCode;
+  previousStatus: RegulatoryStatus | null;
+  status: RegulatoryStatus;
+  effectiveDate: string;
+  regulatorReference: string | null;
+  sourceUrl: string | null;
+  notes: string | null;
+}
+
+export interface UseCaseEvidence {
+  useCase: string;
+  evidenceGrade: EvidenceGrade;
 }
 
 export interface SafetyProfile {
@@ -87,14 +231,93 @@ export interface SafetyProfile {
   monitoring: string;
 }
 
+export interface DrugClass {
+  slug: string;
+  name: string;
+  description: string;
+  // Lower-case medication names and label phrases that map to this class.
+  matchTerms: string[];
+}
+
+export interface PeptideInteraction {
+  peptideSlug: string;
+  peptideName: string;
+  targetKind: "peptide" | "drug_class";
+  targetSlug: string;
+  targetName: string;
+  severity: InteractionSeverity;
+  mechanism: string;
+  management: string | null;
+  evidenceGrade: EvidenceGrade;
+  source: InteractionSource;
+  sourceUrl: string | null;
+  sourceTitle: string | null;
+}
+
+export interface ClinicalTrial {
+  nctId: string;
+  title: string;
+  phases: string[];
+  overallStatus: string;
+  studyType: string | null;
+  enrollment: number | null;
+  conditions: string[];
+  sponsor: string | null;
+  startDate: string | null;
+  completionDate: string | null;
+  hasResults: boolean;
+  lastUpdatePostedAt: string | null;
+}
+
+export interface ClinicalTrialEvent {
+  nctId: string;
+  trialTitle: string;
+  eventType: ClinicalTrialEventType;
+  previousValue: string | null;
+  newValue: string | null;
+  detectedAt: string;
+}
+
+export interface ContentChange {
+  id: number;
+  entityType: ContentChangeEntity;
+  field: string;
+  oldSummary: string | null;
+  newSummary: string | null;
+  source: ContentChangeSource;
+  changedAt: string;
+  peptide: { slug: string; name: string } | null;
+  vendor: { slug: string; name: string } | null;
+}
+
+export interface ContentProvenance {
+  field: ContentProvenanceField;
+  position: number;
+  source: ContentProvenanceSource;
+  sourceUrl: string | null;
+  excerpt: string;
+  fetchedAt: string;
+  generatorVersion: string;
+}
+
+export interface PeptideTrials {
+  trials: ClinicalTrial[];
+  events: ClinicalTrialEvent[];
+}
+
 export interface PeptideDetail extends PeptideSummary {
   intro: string;
   featureTable: Record<string, string>;
   mechanism: string;
   effectivenessSummary: string;
   safety: SafetyProfile;
+  useCaseEvidence: UseCaseEvidence[];
+  regulatoryStatuses: RegulatoryStatusRecord[];
+  regulatoryHistory: RegulatoryStatusChange[];
   longDescription: string;
   dosing: DosingEntry[];
   vendors: VendorCard[];
   evidenceClaims: EvidenceClaim[];
 }
+
+export type PeptideEvidence = Pick<PeptideDetail, "slug" | "name" | "useCaseEvidence" | "evidenceClaims">;
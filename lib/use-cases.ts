@@ -0,0 +1,92 @@
+export type UseCaseRule = {
+  slug: string;
+  name: string;
+  keywords: string[];
+};
+
+// Keyword rules shared by enrichment (mapping source text to use cases) and the evidence map
+// (attributing individual claims to the use cases they mention).
+export const USE_CASE_RULES: UseCaseRule[] = [
+  {
+    slug: "type-2-diabetes",
+    name: "Type 2 Diabetes",
+    keywords: ["type 2 diabetes", "diabetes mellitus type 2", "glycemic", "hyperglycemia", "a1c"]
+  },
+  {
+    slug: "weight-management",
+    name: "Weight Management",
+    keywords: ["obesity", "overweight", "weight management", "weight loss", "body mass index"]
+  },
+  {
+    slug: "type-1-diabetes",
+    name: "Type 1 Diabetes",
+    keywords: ["type 1 diabetes", "diabetes mellitus type 1"]
+  },
+  {
+    slug: "cardiometabolic-risk-reduction",
+    name: "Cardiometabolic Risk Reduction",
+    keywords: ["cardiovascular", "heart failure", "cardiorenal", "stroke", "major adverse cardiovascular"]
+  },
+  {
+    slug: "growth-hormone-deficiency",
+    name: "Growth Hormone Deficiency",
+    keywords: ["growth hormone deficiency", "gh deficiency", "pituitary deficiency"]
+  },
+  {
+    slug: "acromegaly",
+    name: "Acromegaly",
+    keywords: ["acromegaly"]
+  },
+  {
+    slug: "reproductive-health",
+    name: "Reproductive Health",
+    keywords: ["infertility", "ivf", "ovarian", "reproductive", "fertility", "endometriosis"]
+  },
+  {
+    slug: "sexual-health",
+    name: "Sexual Health",
+    keywords: ["erectile dysfunction", "sexual dysfunction", "hypoactive sexual desire", "libido"]
+  },
+  {
+    slug: "tissue-repair",
+    name: "Tissue Repair",
+    keywords: ["wound", "tendon", "ligament", "muscle injury", "tissue repair", "healing"]
+  },
+  {
+    slug: "gi-symptoms",
+    name: "GI Symptoms",
+    keywords: ["gastrointestinal", "crohn", "ulcerative colitis", "ibd", "ibs", "colitis", "ulcer"]
+  },
+  {
+    slug: "neurology-cognition",
+    name: "Neurology & Cognition",
+    keywords: ["alzheimer", "parkinson", "cognitive", "memory", "neuro", "depression", "anxiety", "migraine"]
+  },
+  {
+    slug: "inflammatory-immune",
+    name: "Inflammatory & Immune Modulation",
+    keywords: ["inflammation", "immune", "autoimmune", "arthritis", "psoriasis", "dermatitis"]
+  },
+  {
+    slug: "kidney-renal-care",
+    name: "Kidney & Renal Care",
+    keywords: ["kidney", "renal", "nephropathy", "albuminuria", "ckd", "chronic kidney disease"]
+  },
+  {
+    slug: "dermatology-aesthetics",
+    name: "Dermatology & Aesthetics",
+    keywords: ["skin", "dermatology", "aesthetic", "wrinkle", "collagen", "photoaging"]
+  },
+  {
+    slug: "evidence-tracking",
+    name: "Evidence Tracking",
+    keywords: []
+  }
+];
+
+// Lowercased match terms for a use case name; names without a rule match on the name alone.
+export function useCaseTerms(useCase: string): string[] {
+  const lower = useCase.trim().toLowerCase();
+  const rule = USE_CASE_RULES.find((entry) => entry.name.toLowerCase() === lower || entry.slug === lower);
+  return Array.from(new Set([lower, ...(rule?.keywords ?? [])])).filter(Boolean);
+}
@@ -0,0 +1,226 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { formatRatingChange, recordContentChanges, type ContentChangeInput } from "@/lib/content-changes";
+import { getVendorScoringStrategy, scoreVendor, type VendorScoreInput } from "@/lib/vendor-scoring";
+
+type VendorRescoreResult = {
+  batchId: string;
+  scoringVersion: string;
+  vendorsScanned: number;
+  snapshotsWritten: number;
+  failures: number;
+  // One "<vendor>: <message>" entry per failed vendor.
+  errors: string[];
+};
+
+type VendorPromoteResult = {
+  batchId: string;
+  vendorsPromoted: number;
+  failures: number;
+  errors: string[];
+};
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function asArray<T = unknown>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function describeVendorError(vendorName: string, vendorId: number, error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return `${vendorName || `Vendor ${vendorId}`}: ${message}`;
+}
+
+function uniqueStrings(values: string[]): string[] {
+  return Array.from(new Set(values.map((value) => value.trim()).filter((value) => value.length > 0)));
+}
+
+async function loadVendorScoreInput(
+  supabase: SupabaseClient,
+  vendorId: number,
+  currentReasonTags: string[]
+): Promise<VendorScoreInput> {
+  const [{ count: listingCount, error: listingError }, { data: reviewRows, error: reviewError }, { data: verificationRows }] =
+    await Promise.all([
+      supabase.from("vendor_peptide_listings").select("id", { count: "exact", head: true }).eq("vendor_id", vendorId),
+      supabase.from("vendor_reviews").select("source,sentiment_score").eq("vendor_id", vendorId),
+      supabase.from("vendor_verifications").select("verification_type").eq("vendor_id", vendorId)
+    ]);
+  if (listingError || reviewError) {
+    throw new Error(listingError?.message ?? reviewError?.message ?? "Failed loading vendor score inputs.");
+  }
+
+  const baseReasonTags = currentReasonTags.filter((tag) => !tag.startsWith("social_") && !tag.startsWith("ugc_"));
+  const trustSignals =
+    baseReasonTags.length > 0
+      ? baseReasonTags
+      : uniqueStrings(
+          asArray(verificationRows)
+            .map((row) => asString(asRecord(row)?.verification_type))
+            // Unmigrated legacy review rows (see db/bootstrap.sql) are not trust signals.
+            .filter((verificationType) => !verificationType.startsWith("community_review_"))
+        );
+
+  const reviews = asArray(reviewRows)
+    .map((row) => asRecord(row))
+    .filter((row): row is Record<string, unknown> => row !== null);
+  const sentimentScores = reviews
+    .map((row) => asNumber(row.sentiment_score))
+    .filter((score): score is number => score !== null);
+  const averageSentiment =
+    sentimentScores.length > 0
+      ? Number((sentimentScores.reduce((sum, score) => sum + score, 0) / sentimentScores.length).toFixed(3))
+      : null;
+
+  return {
+    trustSignals,
+    listingCount: Number(listingCount ?? 0),
+    reviewCount: reviews.length,
+    averageSentiment,
+    sourceCount: new Set(reviews.map((row) => asString(row.source)).filter(Boolean)).size
+  };
+}
+
+export async function rescoreVendors(supabase: SupabaseClient, scoringVersion: string): Promise<VendorRescoreResult> {
+  const strategy = getVendorScoringStrategy(scoringVersion);
+  if (!strategy) {
+    throw new Error(`Unknown vendor scoring version: ${scoringVersion}`);
+  }
+
+  const [{ data: vendorRows, error: vendorError }, { data: currentRows, error: currentError }] = await Promise.all([
+    supabase.from("vendors").select("id,name").order("id", { ascending: true }),
+    supabase.from("vendor_rating_snapshots").select("vendor_id,reason_tags").eq("is_current", true)
+  ]);
+  if (vendorError || currentError) {
+    throw new Error(vendorError?.message ?? currentError?.message ?? "Failed loading vendors for re-scoring.");
+  }
+
+  const currentTagsByVendor = new Map<number, string[]>();
+  for (const row of asArray(currentRows)) {
+    const record = asRecord(row);
+    const vendorId = asNumber(record?.vendor_id);
+    if (!record || vendorId === null) {
+      continue;
+    }
+    currentTagsByVendor.set(vendorId, asArray(record.reason_tags).map((tag) => asString(tag)).filter(Boolean));
+  }
+
+  const batchId = `${strategy.version}@${new Date().toISOString()}`;
+  const vendors = asArray(vendorRows)
+    .map((row) => asRecord(row))
+    .map((row) => ({ id: asNumber(row?.id), name: asString(row?.name) }))
+    .filter((vendor): vendor is { id: number; name: string } => vendor.id !== null && vendor.id > 0);
+
+  let snapshotsWritten = 0;
+  const errors: string[] = [];
+
+  for (const { id: vendorId, name: vendorName } of vendors) {
+    try {
+      const currentReasonTags = currentTagsByVendor.get(vendorId) ?? [];
+      const input = await loadVendorScoreInput(supabase, vendorId, currentReasonTags);
+      const score = scoreVendor(input, strategy.version);
+
+      const { error: insertError } = await supabase.from("vendor_rating_snapshots").insert({
+        vendor_id: vendorId,
+        rating: score.rating,
+        confidence: score.confidence,
+        method_version: "vendor_rescore",
+        scoring_version: score.scoringVersion,
+        score_inputs: input,
+        rescore_batch_id: batchId,
+        reason_tags: currentReasonTags.length > 0 ? currentReasonTags : input.trustSignals,
+        is_current: false
+      });
+      if (insertError) {
+        throw new Error(insertError.message);
+      }
+      snapshotsWritten += 1;
+    } catch (error) {
+      errors.push(describeVendorError(vendorName, vendorId, error));
+    }
+  }
+
+  return {
+    batchId,
+    scoringVersion: strategy.version,
+    vendorsScanned: vendors.length,
+    snapshotsWritten,
+    failures: errors.length,
+    errors
+  };
+}
+
+export async function promoteVendorRescoreBatch(supabase: SupabaseClient, batchId: string): Promise<VendorPromoteResult> {
+  const { data: batchRows, error: batchError } = await supabase
+    .from("vendor_rating_snapshots")
+    .select("id,vendor_id,rating,vendors(name)")
+    .eq("rescore_batch_id", batchId);
+  if (batchError) {
+    throw new Error(batchError.message);
+  }
+
+  const candidates = asArray(batchRows)
+    .map((row) => asRecord(row))
+    .map((row) => ({
+      id: asNumber(row?.id),
+      vendorId: asNumber(row?.vendor_id),
+      vendorName: asString(asRecord(row?.vendors)?.name),
+      rating: asNumber(row?.rating)
+    }))
+    .filter(
+      (row): row is { id: number; vendorId: number; vendorName: string; rating: number | null } =>
+        row.id !== null && row.vendorId !== null
+    );
+  if (candidates.length === 0) {
+    throw new Error(`No re-score snapshots found for batch ${batchId}.`);
+  }
+
+  let vendorsPromoted = 0;
+  const errors: string[] = [];
+  const changes: ContentChangeInput[] = [];
+
+  for (const candidate of candidates) {
+    try {
+      // Clears the vendor's current snapshot and promotes this one in a single transaction.
+      const { data: previousRating, error: promoteError } = await supabase.rpc("promote_vendor_rating_snapshot", {
+        snapshot_id: candidate.id
+      });
+      if (promoteError) {
+        if (promoteError.message.includes("promote_vendor_rating_snapshot")) {
+          throw new Error("Missing promote_vendor_rating_snapshot function. Re-run db/bootstrap.sql and try again.");
+        }
+        throw new Error(promoteError.message);
+      }
+      vendorsPromoted += 1;
+      changes.push({
+        entityType: "VENDOR_RATING",
+        entityId: candidate.id,
+        vendorId: candidate.vendorId,
+        field: "Rating",
+        previous: formatRatingChange(asNumber(previousRating)),
+        next: formatRatingChange(candidate.rating)
+      });
+    } catch (error) {
+      errors.push(describeVendorError(candidate.vendorName, candidate.vendorId, error));
+    }
+  }
+
+  await recordContentChanges(supabase, "VENDOR_RESCORE", changes);
+  return { batchId, vendorsPromoted, failures: errors.length, errors };
+}
@@ -0,0 +1,150 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { toHumanReadableSourceUrl } from "@/lib/reference-sources";
+import type { VendorReviewQuote } from "@/lib/types";
+
+type SentimentLabel = VendorReviewQuote["sentimentLabel"];
+
+export type VendorReviewInput = {
+  source: string;
+  community: string | null;
+  quote: string;
+  sourceUrl: string;
+  author: string | null;
+  sentimentLabel: SentimentLabel | null;
+  sentimentScore: number | null;
+  upvotes: number | null;
+  commentCount: number | null;
+  postedAt: string;
+};
+
+const VENDOR_REVIEW_COLUMNS =
+  "source,community,quote,source_url,author,sentiment_label,sentiment_score,upvotes,comment_count,posted_at";
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function ensureSentimentLabel(value: unknown): SentimentLabel | null {
+  if (value === "positive" || value === "mixed" || value === "negative" || value === "neutral") {
+    return value;
+  }
+  return null;
+}
+
+export function sentimentLabelFromScore(score: number | null): SentimentLabel | null {
+  if (score === null) {
+    return null;
+  }
+  if (score >= 0.16) {
+    return "positive";
+  }
+  if (score <= -0.22) {
+    return "negative";
+  }
+  if (score >= 0) {
+    return "positive";
+  }
+  return "mixed";
+}
+
+function mapVendorReviewRow(row: unknown): VendorReviewQuote | null {
+  const record = asRecord(row);
+  if (!record) {
+    return null;
+  }
+
+  const source = asString(record.source);
+  const quote = asString(record.quote);
+  const sourceUrl = toHumanReadableSourceUrl(asString(record.source_url));
+  const createdAt = asString(record.posted_at);
+  if (!source || !quote || !sourceUrl || !createdAt) {
+    return null;
+  }
+
+  const sentimentScore = asNumber(record.sentiment_score);
+
+  return {
+    source,
+    community: asString(record.community) ?? source,
+    quote,
+    sourceUrl,
+    createdAt,
+    author: asString(record.author),
+    sentimentLabel: ensureSentimentLabel(record.sentiment_label) ?? sentimentLabelFromScore(sentimentScore) ?? "neutral",
+    sentimentScore,
+    upvotes: asNumber(record.upvotes),
+    commentCount: asNumber(record.comment_count)
+  } satisfies VendorReviewQuote;
+}
+
+export async function listVendorReviews(
+  supabase: SupabaseClient,
+  vendorId: number,
+  limit = 50
+): Promise<VendorReviewQuote[]> {
+  const { data, error } = await supabase
+    .from("vendor_reviews")
+    .select(VENDOR_REVIEW_COLUMNS)
+    .eq("vendor_id", vendorId)
+    .order("posted_at", { ascending: false })
+    .limit(limit);
+
+  if (error || !Array.isArray(data)) {
+    return [];
+  }
+
+  return data
+    .map((row) => mapVendorReviewRow(row))
+    .filter((review): review is VendorReviewQuote => review !== null);
+}
+
+export async function replaceVendorReviews(
+  supabase: SupabaseClient,
+  vendorId: number,
+  reviews: VendorReviewInput[]
+): Promise<number> {
+  const { error: clearError } = await supabase.from("vendor_reviews").delete().eq("vendor_id", vendorId);
+  if (clearError) {
+    throw new Error(clearError.message);
+  }
+
+  if (reviews.length === 0) {
+    return 0;
+  }
+
+  const rows = reviews.map((review) => ({
+    vendor_id: vendorId,
+    source: review.source,
+    community: review.community,
+    quote: review.quote,
+    source_url: review.sourceUrl,
+    author: review.author,
+    sentiment_label: review.sentimentLabel,
+    sentiment_score: review.sentimentScore,
+    upvotes: review.upvotes,
+    comment_count: review.commentCount,
+    posted_at: review.postedAt
+  }));
+
+  const { error: insertError } = await supabase.from("vendor_reviews").insert(rows);
+  if (insertError) {
+    throw new Error(insertError.message);
+  }
+
+  return rows.length;
+}
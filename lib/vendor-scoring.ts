@@ -0,0 +1,127 @@
+export type VendorScoreInput = {
+  trustSignals: string[];
+  listingCount: number;
+  reviewCount: number;
+  averageSentiment: number | null;
+  sourceCount: number;
+};
+
+export type VendorScore = {
+  rating: number | null;
+  confidence: number | null;
+  scoringVersion: string;
+};
+
+export type VendorScoringStrategy = {
+  version: string;
+  label: string;
+  description: string;
+  score: (input: VendorScoreInput) => { rating: number | null; confidence: number | null };
+};
+
+const V1_TRUST_SIGNAL_WEIGHT: Record<string, number> = {
+  coa_published: 0.95,
+  third_party_testing: 1.0,
+  cold_chain_policy: 0.65,
+  lot_tracking: 0.55,
+  transparent_pricing: 0.35,
+  manufacturer_labeling: 0.9,
+  prescription_required: 0.8,
+  licensed_pharmacy_network: 0.95,
+  regulatory_disclosures: 0.7,
+  clinic_medical_screening: 0.7,
+  shipping_policy_disclosed: 0.4
+};
+
+const vendorScoreV1: VendorScoringStrategy = {
+  version: "vendor_score_v1",
+  label: "Trust signals + listings + community sentiment (v1)",
+  description:
+    "Weighted trust signals (unknown signals 0.3), log-scaled listing breadth, sentiment/volume/source-diversity terms, a weak-signal positive bias, and a 1.24 spread around 3.0.",
+  score({ trustSignals, listingCount, reviewCount, averageSentiment, sourceCount }) {
+    if (trustSignals.length === 0 && reviewCount === 0) {
+      return { rating: null, confidence: null };
+    }
+
+    const trustPoints = trustSignals.reduce((sum, signal) => sum + (V1_TRUST_SIGNAL_WEIGHT[signal] ?? 0.3), 0);
+    const listingScore = Math.min(0.95, Math.log10(listingCount + 1) * 0.52);
+    const socialSentimentScore = averageSentiment === null ? 0 : Math.max(-1.05, Math.min(1.05, averageSentiment * 1.15));
+    const socialVolumeScore = Math.min(0.7, Math.log10(reviewCount + 1) * 0.34);
+    const socialSourceDiversityScore = Math.min(0.32, sourceCount * 0.16);
+
+    const weakSignalPositiveBias =
+      reviewCount <= 2 && (averageSentiment === null || averageSentiment >= -0.08)
+        ? 0.2
+        : reviewCount <= 5 && averageSentiment !== null && averageSentiment >= 0
+          ? 0.1
+          : 0;
+
+    const rawRating =
+      1.7 +
+      trustPoints * 0.62 +
+      listingScore +
+      socialSentimentScore +
+      socialVolumeScore +
+      socialSourceDiversityScore +
+      weakSignalPositiveBias;
+    const spreadAdjusted = 3 + (rawRating - 3) * 1.24;
+    const rating = Math.max(0, Math.min(5, Number(spreadAdjusted.toFixed(1))));
+
+    const rawConfidence =
+      0.26 +
+      trustSignals.length * 0.08 +
+      Math.min(0.24, listingCount * 0.011) +
+      Math.min(0.22, reviewCount * 0.012) +
+      Math.min(0.1, sourceCount * 0.03);
+    const confidence = Number(Math.max(0, Math.min(0.98, rawConfidence)).toFixed(2));
+
+    return { rating, confidence };
+  }
+};
+
+const VENDOR_SCORING_STRATEGIES: VendorScoringStrategy[] = [vendorScoreV1];
+
+export const DEFAULT_VENDOR_SCORING_VERSION = vendorScoreV1.version;
+
+export function listVendorScoringStrategies(): VendorScoringStrategy[] {
+  return VENDOR_SCORING_STRATEGIES;
+}
+
+export function getVendorScoringStrategy(version: string): VendorScoringStrategy | null {
+  return VENDOR_SCORING_STRATEGIES.find((strategy) => strategy.version === version) ?? null;
+}
+
+export function normalizeVendorScoreInput(input: Partial<VendorScoreInput>): VendorScoreInput {
+  const averageSentiment =
+    input.averageSentiment !== null && input.averageSentiment !== undefined ? Number(input.averageSentiment) : null;
+  return {
+    trustSignals: Array.isArray(input.trustSignals) ? input.trustSignals : [],
+    listingCount: Math.max(0, Number(input.listingCount ?? 0)),
+    reviewCount: Math.max(0, Number(input.reviewCount ?? 0)),
+    averageSentiment: averageSentiment !== null && Number.isFinite(averageSentiment) ? averageSentiment : null,
+    sourceCount: Math.max(0, Number(input.sourceCount ?? 0))
+  };
+}
+
+export function scoreVendor(input: Partial<VendorScoreInput>, version = DEFAULT_VENDOR_SCORING_VERSION): VendorScore {
+  const strategy = getVendorScoringStrategy(version);
+  if (!strategy) {
+    throw new Error(`Unknown vendor scoring version: ${version}`);
+  }
+  const { rating, confidence } = strategy.score(normalizeVendorScoreInput(input));
+  return { rating, confidence, scoringVersion: strategy.version };
+}
+
+export function computeVendorScore(
+  trustSignals: string[],
+  peptidesDetected: number,
+  social?: { reviewCount: number; averageSentiment: number | null; sourceCount?: number }
+): VendorScore {
+  return scoreVendor({
+    trustSignals,
+    listingCount: peptidesDetected,
+    reviewCount: social?.reviewCount,
+    averageSentiment: social?.averageSentiment,
+    sourceCount: social?.sourceCount
+  });
+}
@@ -1,4 +1,8 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { formatRatingChange, recordContentChanges, type ContentChangeInput } from "@/lib/content-changes";
+import { errorMessage, type IngestAudit, type IngestSourceOutcome } from "@/lib/ingest-runs";
+import { fetchSourceText } from "@/lib/source-client";
+import { computeVendorScore } from "@/lib/vendor-scoring";
 
 type VendorSeed = {
   slug: string;
@@ -35,20 +39,6 @@ const PEPTIDE_CLASS_FALLBACK = "Commercial peptide listing";
 const BLOCKED_VENDOR_SLUGS = new Set(["unknown-source-vendor"]);
 const BLOCKED_VENDOR_NAMES = new Set(["unknown source vendor"]);
 
-const TRUST_SIGNAL_WEIGHT: Record<string, number> = {
-  coa_published: 0.95,
-  third_party_testing: 1.0,
-  cold_chain_policy: 0.65,
-  lot_tracking: 0.55,
-  transparent_pricing: 0.35,
-  manufacturer_labeling: 0.9,
-  prescription_required: 0.8,
-  licensed_pharmacy_network: 0.95,
-  regulatory_disclosures: 0.7,
-  clinic_medical_screening: 0.7,
-  shipping_policy_disclosed: 0.4
-};
-
 const COMMON_PEPTIDE_NAMES = [
   "Semaglutide",
   "Tirzepatide",
@@ -403,77 +393,6 @@ function stripHtml(html: string): string {
     .trim();
 }
 
-export function computeVendorScore(
-  trustSignals: string[],
-  peptidesDetected: number,
-  social?: { reviewCount: number; averageSentiment: number | null; sourceCount?: number }
-): { rating: number | null; confidence: number | null } {
-  const reviewCount = Math.max(0, Number(social?.reviewCount ?? 0));
-  const averageSentiment =
-    social?.averageSentiment !== null && social?.averageSentiment !== undefined ? Number(social.averageSentiment) : null;
-  const sourceCount = Math.max(0, Number(social?.sourceCount ?? 0));
-
-  if (trustSignals.length === 0 && reviewCount === 0) {
-    return { rating: null, confidence: null };
-  }
-
-  const trustPoints = trustSignals.reduce((sum, signal) => sum + (TRUST_SIGNAL_WEIGHT[signal] ?? 0.3), 0);
-  const listingScore = Math.min(0.95, Math.log10(peptidesDetected + 1) * 0.52);
-  const socialSentimentScore = averageSentiment === null ? 0 : Math.max(-1.05, Math.min(1.05, averageSentiment * 1.15));
-  const socialVolumeScore = Math.min(0.7, Math.log10(reviewCount + 1) * 0.34);
-  const socialSourceDiversityScore = Math.min(0.32, sourceCount * 0.16);
-
-  const weakSignalPositiveBias =
-    reviewCount <= 2 && (averageSentiment === null || averageSentiment >= -0.08)
-      ? 0.2
-      : reviewCount <= 5 && averageSentiment !== null && averageSentiment >= 0
-        ? 0.1
-        : 0;
-
-  const rawRating =
-    1.7 +
-    trustPoints * 0.62 +
-    listingScore +
-    socialSentimentScore +
-    socialVolumeScore +
-    socialSourceDiversityScore +
-    weakSignalPositiveBias;
-  const spreadAdjusted = 3 + (rawRating - 3) * 1.24;
-  const rating = Math.max(0, Math.min(5, Number(spreadAdjusted.toFixed(1))));
-
-  const rawConfidence =
-    0.26 +
-    trustSignals.length * 0.08 +
-    Math.min(0.24, peptidesDetected * 0.011) +
-    Math.min(0.22, reviewCount * 0.012) +
-    Math.min(0.1, sourceCount * 0.03);
-  const confidence = Number(Math.max(0, Math.min(0.98, rawConfidence)).toFixed(2));
-
-  return { rating, confidence };
-}
-
-async function fetchHtml(url: string): Promise<string> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 15_000);
-  try {
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        accept: "text/html,application/xhtml+xml",
-        "user-agent": "PeptideDB-IngestionBot/1.0 (+https://peptidedb.vercel.app)"
-      },
-      cache: "no-store",
-      signal: controller.signal
-    });
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
-    return await response.text();
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
 async function ensureJurisdictions(supabase: SupabaseClient) {
   await supabase.from("jurisdictions").upsert(
     [
@@ -730,7 +649,14 @@ async function upsertVendorRatingSnapshot(
   trustSignals: string[],
   peptidesDetected: number
 ) {
-  const { rating, confidence } = computeVendorScore(trustSignals, peptidesDetected);
+  const { rating, confidence, scoringVersion } = computeVendorScore(trustSignals, peptidesDetected);
+  const { data: current } = await supabase
+    .from("vendor_rating_snapshots")
+    .select("rating")
+    .eq("vendor_id", vendorId)
+    .eq("is_current", true)
+    .limit(1)
+    .maybeSingle();
 
   await supabase.from("vendor_rating_snapshots").update({ is_current: false }).eq("vendor_id", vendorId).eq("is_current", true);
 
@@ -739,12 +665,59 @@ async function upsertVendorRatingSnapshot(
     rating,
     confidence,
     method_version: "vendor_website_ingest_v1",
+    scoring_version: scoringVersion,
+    score_inputs: { trustSignals, listingCount: peptidesDetected, reviewCount: 0, averageSentiment: null, sourceCount: 0 },
     reason_tags: trustSignals,
     is_current: true
   });
+
+  return { previousRating: current?.rating ?? null, rating };
+}
+
+// Seed vendors in seed order. With staleBefore, only vendors never crawled or last crawled before it,
+// stalest first.
+export async function listVendorWebsiteTargets(
+  supabase: SupabaseClient,
+  options?: { staleBefore?: string }
+): Promise<Array<{ slug: string; name: string }>> {
+  const seeds = VENDOR_SEEDS.filter((seed) => !isBlockedVendorPlaceholder(seed.slug, seed.name)).map((seed) => ({
+    slug: seed.slug,
+    name: seed.name
+  }));
+  if (!options?.staleBefore) {
+    return seeds;
+  }
+
+  const { data, error } = await supabase
+    .from("vendors")
+    .select("slug,last_website_refresh_at")
+    .in("slug", seeds.map((seed) => seed.slug));
+  if (error) {
+    if (error.message.includes("last_website_refresh_at")) {
+      throw new Error("Missing vendors.last_website_refresh_at. Re-run db/bootstrap.sql and try again.");
+    }
+    throw new Error(error.message);
+  }
+
+  const refreshedAt = new Map<string, number>();
+  for (const row of data ?? []) {
+    const record = asRecord(row);
+    const timestamp = Date.parse(asString(record?.last_website_refresh_at));
+    if (record && Number.isFinite(timestamp)) {
+      refreshedAt.set(asString(record.slug), timestamp);
+    }
+  }
+  const staleBefore = Date.parse(options.staleBefore);
+  return seeds
+    .filter((seed) => (refreshedAt.get(seed.slug) ?? 0) < staleBefore)
+    .sort((a, b) => (refreshedAt.get(a.slug) ?? 0) - (refreshedAt.get(b.slug) ?? 0));
 }
 
-export async function ingestVendorWebsiteCatalog(supabase: SupabaseClient): Promise<VendorCatalogIngestResult> {
+export async function ingestVendorWebsiteCatalog(
+  supabase: SupabaseClient,
+  options?: { vendorSlugs?: string[]; audit?: IngestAudit }
+): Promise<VendorCatalogIngestResult> {
+  const vendorSlugs = new Set(options?.vendorSlugs ?? []);
   await ensureJurisdictions(supabase);
   const jurisdictionIds = await loadJurisdictionIds(supabase);
   const { peptideByNorm, namesForDetection } = await loadKnownPeptides(supabase);
@@ -760,78 +733,142 @@ export async function ingestVendorWebsiteCatalog(supabase: SupabaseClient): Prom
     if (isBlockedVendorPlaceholder(seed.slug, seed.name)) {
       continue;
     }
-    vendorsProcessed += 1;
-    const { data: vendorBefore } = await supabase.from("vendors").select("id").eq("slug", seed.slug).maybeSingle();
-    const { data: vendorRow, error: vendorError } = await supabase
-      .from("vendors")
-      .upsert(
-        {
-          slug: seed.slug,
-          name: seed.name,
-          website_url: seed.websiteUrl,
-          is_published: true
-        },
-        { onConflict: "slug" }
-      )
-      .select("id")
-      .single();
-
-    if (vendorError || !vendorRow?.id) {
-      throw new Error(vendorError?.message ?? `Failed upserting vendor ${seed.slug}`);
-    }
-    const vendorId = Number(vendorRow.id);
-
-    if (!vendorBefore?.id) {
-      vendorsCreated += 1;
+    if (vendorSlugs.size > 0 && !vendorSlugs.has(seed.slug)) {
+      continue;
     }
+    vendorsProcessed += 1;
+    const startedAt = Date.now();
+    const listingsBefore = listingsUpserted;
+    const sources: IngestSourceOutcome[] = [];
+    try {
+      const { data: vendorBefore } = await supabase.from("vendors").select("id").eq("slug", seed.slug).maybeSingle();
+      const { data: vendorRow, error: vendorError } = await supabase
+        .from("vendors")
+        .upsert(
+          {
+            slug: seed.slug,
+            name: seed.name,
+            website_url: seed.websiteUrl,
+            is_published: true
+          },
+          { onConflict: "slug" }
+        )
+        .select("id")
+        .single();
+
+      if (vendorError || !vendorRow?.id) {
+        throw new Error(vendorError?.message ?? `Failed upserting vendor ${seed.slug}`);
+      }
+      const vendorId = Number(vendorRow.id);
 
-    await upsertVendorProfile(supabase, vendorId, seed);
-    await upsertVendorVerifications(supabase, vendorId, seed.trustSignals);
-
-    const normalizedDetected = new Set<string>(seed.fallbackPeptides.map((name) => normalizeToken(name)).filter(Boolean));
+      const changes: ContentChangeInput[] = [];
+      if (!vendorBefore?.id) {
+        vendorsCreated += 1;
+        changes.push({ entityType: "VENDOR", entityId: vendorId, vendorId, field: "Vendor added", next: seed.name });
+      }
+      const { data: listingRows } = await supabase
+        .from("vendor_peptide_listings")
+        .select("peptide_id")
+        .eq("vendor_id", vendorId);
+      const listedPeptideIds = new Set((listingRows ?? []).map((row) => Number(row.peptide_id)));
+
+      await upsertVendorProfile(supabase, vendorId, seed);
+      await upsertVendorVerifications(supabase, vendorId, seed.trustSignals);
+
+      const normalizedDetected = new Set<string>(seed.fallbackPeptides.map((name) => normalizeToken(name)).filter(Boolean));
+
+      for (const sourceUrl of seed.sourceUrls) {
+        try {
+          const html = await fetchSourceText(sourceUrl, { accept: "text/html,application/xhtml+xml" });
+          sourcePagesFetched += 1;
+          const text = stripHtml(html);
+          const detected = detectPeptideNamesFromText(text, namesForDetection);
+          for (const hit of detected) {
+            normalizedDetected.add(hit);
+          }
+          sources.push({ source: sourceUrl, status: "HIT" });
+        } catch (error) {
+          sourcePagesFailed += 1;
+          sources.push({ source: sourceUrl, status: "FAILED", detail: errorMessage(error) });
+        }
+      }
 
-    for (const sourceUrl of seed.sourceUrls) {
-      try {
-        const html = await fetchHtml(sourceUrl);
-        sourcePagesFetched += 1;
-        const text = stripHtml(html);
-        const detected = detectPeptideNamesFromText(text, namesForDetection);
-        for (const hit of detected) {
-          normalizedDetected.add(hit);
+      const peptidesForVendor: KnownPeptide[] = [];
+      for (const normalizedName of normalizedDetected) {
+        const hadBefore = peptideByNorm.has(normalizedName);
+        const peptide = await ensurePeptide(supabase, peptideByNorm, normalizedName, jurisdictionIds);
+        if (!hadBefore) {
+          peptidesCreated += 1;
+          changes.push({ entityType: "PEPTIDE", entityId: peptide.id, peptideId: peptide.id, field: "Profile added", next: peptide.name });
         }
-      } catch {
-        sourcePagesFailed += 1;
+        peptidesForVendor.push(peptide);
       }
-    }
 
-    const peptidesForVendor: KnownPeptide[] = [];
-    for (const normalizedName of normalizedDetected) {
-      const hadBefore = peptideByNorm.has(normalizedName);
-      const peptide = await ensurePeptide(supabase, peptideByNorm, normalizedName, jurisdictionIds);
-      if (!hadBefore) {
-        peptidesCreated += 1;
+      for (const peptide of peptidesForVendor) {
+        const { error: listingError } = await supabase.from("vendor_peptide_listings").upsert(
+          {
+            vendor_id: vendorId,
+            peptide_id: peptide.id,
+            is_affiliate: Boolean(seed.isAffiliate),
+            affiliate_url: seed.isAffiliate ? seed.websiteUrl : null,
+            product_url: seed.sourceUrls[0] ?? seed.websiteUrl
+          },
+          { onConflict: "vendor_id,peptide_id" }
+        );
+        if (listingError) {
+          throw new Error(listingError.message);
+        }
+        listingsUpserted += 1;
+        if (!listedPeptideIds.has(peptide.id)) {
+          changes.push({
+            entityType: "VENDOR_LISTING",
+            peptideId: peptide.id,
+            vendorId,
+            field: "Listing added",
+            next: seed.sourceUrls[0] ?? seed.websiteUrl
+          });
+        }
       }
-      peptidesForVendor.push(peptide);
-    }
 
-    for (const peptide of peptidesForVendor) {
-      const { error: listingError } = await supabase.from("vendor_peptide_listings").upsert(
-        {
-          vendor_id: vendorId,
-          peptide_id: peptide.id,
-          is_affiliate: Boolean(seed.isAffiliate),
-          affiliate_url: seed.isAffiliate ? seed.websiteUrl : null,
-          product_url: seed.sourceUrls[0] ?? seed.websiteUrl
-        },
-        { onConflict: "vendor_id,peptide_id" }
-      );
-      if (listingError) {
-        throw new Error(listingError.message);
+      const score = await upsertVendorRatingSnapshot(supabase, vendorId, seed.trustSignals, peptidesForVendor.length);
+      changes.push({
+        entityType: "VENDOR_RATING",
+        vendorId,
+        field: "Rating",
+        previous: formatRatingChange(score.previousRating),
+        next: formatRatingChange(score.rating)
+      });
+      await recordContentChanges(supabase, "VENDOR_WEBSITE", changes);
+      const { error: stampError } = await supabase
+        .from("vendors")
+        .update({ last_website_refresh_at: new Date().toISOString() })
+        .eq("id", vendorId);
+      if (stampError) {
+        throw new Error(stampError.message);
       }
-      listingsUpserted += 1;
+    } catch (error) {
+      // Database errors still abort the run; the audit row keeps which vendor it stopped on.
+      await options?.audit?.record({
+        entityType: "VENDOR",
+        entityKey: seed.slug,
+        entityLabel: seed.name,
+        status: "FAILED",
+        sources,
+        error: errorMessage(error),
+        durationMs: Date.now() - startedAt
+      });
+      throw error;
     }
 
-    await upsertVendorRatingSnapshot(supabase, vendorId, seed.trustSignals, peptidesForVendor.length);
+    await options?.audit?.record({
+      entityType: "VENDOR",
+      entityKey: seed.slug,
+      entityLabel: seed.name,
+      status: "SUCCEEDED",
+      sources,
+      counters: { listingsUpserted: listingsUpserted - listingsBefore },
+      durationMs: Date.now() - startedAt
+    });
   }
 
   return {
@@ -17,6 +17,8 @@ const securityHeaders = [
 const nextConfig = {
   reactStrictMode: true,
   poweredByHeader: false,
+  // sql.js loads its wasm binary from its own dist folder at runtime, so keep it out of the server bundle.
+  serverExternalPackages: ["sql.js"],
   async headers() {
     return [
       {
@@ -1,5 +1,6 @@
 import fs from "node:fs";
 import { createClient } from "@supabase/supabase-js";
+import { runWithIngestAudit } from "@/lib/ingest-runs";
 import { enrichPeptideContent } from "@/lib/peptide-content-enrichment";
 
 function loadEnvFile(path: string): Record<string, string> {
@@ -57,12 +58,15 @@ async function main() {
     auth: { persistSession: false }
   });
 
-  const result = await enrichPeptideContent(supabase, {
-    limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
-    onlyPublished: !includeUnpublished,
-    peptideSlugs: slugs.length > 0 ? slugs : undefined,
-    delayMs: Number.isFinite(delayMs) && delayMs >= 0 ? delayMs : 110
-  });
+  const result = await runWithIngestAudit(supabase, "CONTENT_ENRICHMENT", (audit) =>
+    enrichPeptideContent(supabase, {
+      limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+      onlyPublished: !includeUnpublished,
+      peptideSlugs: slugs.length > 0 ? slugs : undefined,
+      delayMs: Number.isFinite(delayMs) && delayMs >= 0 ? delayMs : 110,
+      audit
+    })
+  );
 
   console.log(JSON.stringify(result, null, 2));
 }
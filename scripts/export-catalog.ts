@@ -0,0 +1,67 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createClient } from "@supabase/supabase-js";
+import { buildCatalogExportFiles, loadCatalogExport } from "@/lib/catalog-export";
+
+function loadEnvFile(path: string): Record<string, string> {
+  if (!fs.existsSync(path)) {
+    return {};
+  }
+
+  const env: Record<string, string> = {};
+  const text = fs.readFileSync(path, "utf8");
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) {
+      continue;
+    }
+    const idx = trimmed.indexOf("=");
+    if (idx === -1) {
+      continue;
+    }
+    const key = trimmed.slice(0, idx).trim();
+    const value = trimmed.slice(idx + 1).trim();
+    env[key] = value;
+  }
+  return env;
+}
+
+function argValue(flag: string): string {
+  const entry = process.argv.find((token) => token.startsWith(`${flag}=`));
+  if (!entry) {
+    return "";
+  }
+  return entry.slice(flag.length + 1).trim();
+}
+
+async function main() {
+  const fileEnv = loadEnvFile(".env.local");
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL?.trim() || fileEnv.NEXT_PUBLIC_SUPABASE_URL || "";
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY?.trim() || fileEnv.SUPABASE_SERVICE_ROLE_KEY || "";
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY.");
+  }
+
+  const outDir = path.resolve(argValue("--out") || "exports");
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false }
+  });
+
+  const files = await buildCatalogExportFiles(await loadCatalogExport(supabase));
+  fs.mkdirSync(outDir, { recursive: true });
+  for (const file of files) {
+    fs.writeFileSync(path.join(outDir, file.name), file.body);
+  }
+
+  const manifest = files.find((file) => file.name === "manifest.json");
+  console.log(`Wrote ${files.length} files to ${outDir}`);
+  if (manifest) {
+    console.log(Buffer.from(manifest.body).toString("utf8"));
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+import fs from "node:fs";
+import { createClient } from "@supabase/supabase-js";
+import { refreshClinicalTrials } from "@/lib/clinical-trials";
+import { runWithIngestAudit } from "@/lib/ingest-runs";
+
+function loadEnvFile(path: string): Record<string, string> {
+  if (!fs.existsSync(path)) {
+    return {};
+  }
+
+  const env: Record<string, string> = {};
+  const text = fs.readFileSync(path, "utf8");
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) {
+      continue;
+    }
+    const idx = trimmed.indexOf("=");
+    if (idx === -1) {
+      continue;
+    }
+    const key = trimmed.slice(0, idx).trim();
+    const value = trimmed.slice(idx + 1).trim();
+    env[key] = value;
+  }
+  return env;
+}
+
+async function main() {
+  const fileEnv = loadEnvFile(".env.local");
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL?.trim() || fileEnv.NEXT_PUBLIC_SUPABASE_URL || "";
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY?.trim() || fileEnv.SUPABASE_SERVICE_ROLE_KEY || "";
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY.");
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false }
+  });
+
+  const batchSize = Number(process.env.TRIALS_REFRESH_BATCH_SIZE ?? 12);
+  const result = await runWithIngestAudit(supabase, "TRIAL_TRACKER", (audit) => refreshClinicalTrials(supabase, { batchSize, audit }));
+  console.log(JSON.stringify(result, null, 2));
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -0,0 +1,80 @@
+import fs from "node:fs";
+import { createClient } from "@supabase/supabase-js";
+import { enqueueIngestJob, INGEST_JOB_KINDS, isIngestJobKind, runIngestJobChunk } from "@/lib/ingest-jobs";
+import { getJobQueue, type IngestJob } from "@/lib/job-queue";
+
+function loadEnvFile(path: string): Record<string, string> {
+  if (!fs.existsSync(path)) {
+    return {};
+  }
+
+  const env: Record<string, string> = {};
+  const text = fs.readFileSync(path, "utf8");
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) {
+      continue;
+    }
+    const idx = trimmed.indexOf("=");
+    if (idx === -1) {
+      continue;
+    }
+    const key = trimmed.slice(0, idx).trim();
+    const value = trimmed.slice(idx + 1).trim();
+    env[key] = value;
+  }
+  return env;
+}
+
+// Works through queued ingest jobs until none are left. Pass a job kind to queue one first:
+//   npm run jobs:work -- LIVE_EVIDENCE
+async function main() {
+  const fileEnv = loadEnvFile(".env.local");
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL?.trim() || fileEnv.NEXT_PUBLIC_SUPABASE_URL || "";
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY?.trim() || fileEnv.SUPABASE_SERVICE_ROLE_KEY || "";
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY.");
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false }
+  });
+  const queue = getJobQueue(supabase);
+
+  const kind = process.argv[2]?.trim().toUpperCase();
+  if (kind) {
+    if (!isIngestJobKind(kind)) {
+      throw new Error(`Unknown job kind ${kind}. Expected one of: ${INGEST_JOB_KINDS.join(", ")}.`);
+    }
+    const limit = Number(process.env.INGEST_JOB_LIMIT ?? 0);
+    const job = await enqueueIngestJob(supabase, queue, kind, { limit });
+    if (!job) {
+      throw new Error(`Nothing to process for ${kind}.`);
+    }
+    console.log(`Queued job ${job.id} (${job.kind}, ${job.totalItems} items).`);
+  }
+
+  const finished: IngestJob[] = [];
+  for (;;) {
+    const { job, processed, locked } = await runIngestJobChunk(supabase, queue);
+    if (locked) {
+      console.log(`Job ${job?.id} is waiting on its pipeline lock, held by another run. Try again once it finishes.`);
+      break;
+    }
+    if (!job || (processed === 0 && (job.status === "RUNNING" || job.status === "QUEUED"))) {
+      // Nothing queued, or the remaining items are claimed by another worker.
+      break;
+    }
+    console.log(`Job ${job.id}: ${job.processedItems}/${job.totalItems} items (${job.failedItems} failed).`);
+    if (job.status !== "RUNNING") {
+      finished.push(job);
+    }
+  }
+
+  console.log(JSON.stringify(finished, null, 2));
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
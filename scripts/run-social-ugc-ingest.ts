@@ -1,5 +1,6 @@
 import fs from "node:fs";
 import { createClient } from "@supabase/supabase-js";
+import { runWithIngestAudit } from "@/lib/ingest-runs";
 import { ingestSocialUgcSignals } from "@/lib/social-ugc-ingest";
 
 function loadEnvFile(path: string): Record<string, string> {
@@ -60,15 +61,18 @@ async function main() {
     auth: { persistSession: false }
   });
 
-  const result = await ingestSocialUgcSignals(supabase, {
-    peptideLimit: Number.isFinite(peptideLimit) && peptideLimit > 0 ? peptideLimit : undefined,
-    vendorLimit: Number.isFinite(vendorLimit) && vendorLimit > 0 ? vendorLimit : undefined,
-    peptideSlugs: peptideSlugs.length > 0 ? peptideSlugs : undefined,
-    vendorSlugs: vendorSlugs.length > 0 ? vendorSlugs : undefined,
-    delayMs: Number.isFinite(delayMs) && delayMs >= 0 ? delayMs : 90,
-    maxQuotesPerVendor: Number.isFinite(maxQuotesPerVendor) && maxQuotesPerVendor > 0 ? maxQuotesPerVendor : 6,
-    maxTermsPerEntity: Number.isFinite(maxTermsPerEntity) && maxTermsPerEntity > 0 ? maxTermsPerEntity : 2
-  });
+  const result = await runWithIngestAudit(supabase, "SOCIAL_UGC", (audit) =>
+    ingestSocialUgcSignals(supabase, {
+      peptideLimit: Number.isFinite(peptideLimit) && peptideLimit > 0 ? peptideLimit : undefined,
+      vendorLimit: Number.isFinite(vendorLimit) && vendorLimit > 0 ? vendorLimit : undefined,
+      peptideSlugs: peptideSlugs.length > 0 ? peptideSlugs : undefined,
+      vendorSlugs: vendorSlugs.length > 0 ? vendorSlugs : undefined,
+      delayMs: Number.isFinite(delayMs) && delayMs >= 0 ? delayMs : 90,
+      maxQuotesPerVendor: Number.isFinite(maxQuotesPerVendor) && maxQuotesPerVendor > 0 ? maxQuotesPerVendor : 6,
+      maxTermsPerEntity: Number.isFinite(maxTermsPerEntity) && maxTermsPerEntity > 0 ? maxTermsPerEntity : 2,
+      audit
+    })
+  );
 
   console.log(JSON.stringify(result, null, 2));
 }
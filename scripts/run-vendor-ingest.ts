@@ -1,5 +1,6 @@
 import fs from "node:fs";
 import { createClient } from "@supabase/supabase-js";
+import { runWithIngestAudit } from "@/lib/ingest-runs";
 import { ingestVendorWebsiteCatalog } from "@/lib/vendor-website-ingest";
 
 function loadEnvFile(path: string): Record<string, string> {
@@ -36,7 +37,7 @@ async function main() {
   const supabase = createClient(supabaseUrl, serviceRoleKey, {
     auth: { persistSession: false }
   });
-  const result = await ingestVendorWebsiteCatalog(supabase);
+  const result = await runWithIngestAudit(supabase, "VENDOR_WEBSITE", (audit) => ingestVendorWebsiteCatalog(supabase, { audit }));
   console.log(JSON.stringify(result, null, 2));
 }
 
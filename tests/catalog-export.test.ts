@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { gunzipSync } from "node:zlib";
+import { describe, test } from "node:test";
+import { buildCatalogExportBundle, CATALOG_EXPORT_BUNDLE, type CatalogExport, type CatalogExportManifest } from "@/lib/catalog-export";
+
+const CATALOG: CatalogExport = {
+  generatedAt: "2026-03-02T06:00:00.000Z",
+  tables: [
+    {
+      name: "peptides",
+      columns: [
+        { name: "slug", type: "TEXT" },
+        { name: "evidence_score", type: "REAL" }
+      ],
+      rows: [
+        { slug: "semaglutide", evidence_score: 0.92 },
+        { slug: "bpc-157", evidence_score: null }
+      ]
+    }
+  ]
+};
+
+function untar(archive: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  let offset = 0;
+  while (offset + 512 <= archive.length && archive[offset] !== 0) {
+    const header = archive.subarray(offset, offset + 512);
+    const name = header.subarray(0, 100).toString("utf8").replace(/\0.*$/s, "");
+    const size = Number.parseInt(header.subarray(124, 136).toString("utf8"), 8);
+    entries.set(name, archive.subarray(offset + 512, offset + 512 + size));
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return entries;
+}
+
+describe("buildCatalogExportBundle", () => {
+  test("packs one snapshot whose manifest matches every file beside it", async () => {
+    const bundle = await buildCatalogExportBundle(CATALOG);
+    assert.equal(bundle.name, CATALOG_EXPORT_BUNDLE);
+
+    const entries = untar(gunzipSync(bundle.body));
+    assert.deepEqual(Array.from(entries.keys()), [
+      "peptidedb-catalog/peptides.csv",
+      "peptidedb-catalog/catalog.jsonl",
+      "peptidedb-catalog/catalog.sqlite",
+      "peptidedb-catalog/manifest.json"
+    ]);
+    assert.equal(
+      entries.get("peptidedb-catalog/peptides.csv")?.toString("utf8"),
+      "slug,evidence_score\r\nsemaglutide,0.92\r\nbpc-157,\r\n"
+    );
+
+    const manifest = JSON.parse(entries.get("peptidedb-catalog/manifest.json")!.toString("utf8")) as CatalogExportManifest;
+    assert.equal(manifest.generatedAt, CATALOG.generatedAt);
+    for (const file of manifest.files) {
+      const body = entries.get(`peptidedb-catalog/${file.name}`);
+      assert.ok(body, `${file.name} is missing from the bundle`);
+      assert.equal(body.byteLength, file.bytes);
+      assert.equal(createHash("sha256").update(body).digest("hex"), file.sha256);
+    }
+  });
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { before, describe, test } from "node:test";
+import { hasPeptideShape, ingestClinicalTrialsCatalog } from "@/lib/clinicaltrials-catalog-ingest";
+import { assertExpectedRows } from "./support/expected-rows";
+import { createMemorySupabase } from "./support/memory-supabase";
+import { JURISDICTION_ROWS, peptideRow } from "./support/seed";
+import { useRecordedSources } from "./support/source-fixtures";
+
+describe("hasPeptideShape", () => {
+  const cases: Array<[string, boolean]> = [
+    ["Semaglutide", true],
+    ["Insulin glargine", true],
+    ["Cagrilintide", true],
+    ["LY-3437943", true],
+    ["Oxytocin", true],
+    ["Leuprolide acetate", true],
+    ["Goserelin", true],
+    ["Desmopressin", true],
+    ["AB-1", false],
+    ["Metformin", false],
+    ["Placebo", false],
+    ["Vitamin D", false]
+  ];
+
+  for (const [name, expected] of cases) {
+    test(name, () => {
+      assert.equal(hasPeptideShape(name), expected);
+    });
+  }
+});
+
+describe("ingestClinicalTrialsCatalog", () => {
+  before(useRecordedSources);
+
+  test("adds new trial interventions as investigational peptides and skips existing ones", async () => {
+    const memory = createMemorySupabase({
+      jurisdictions: JURISDICTION_ROWS,
+      peptides: [peptideRow(1, "semaglutide", "Semaglutide")]
+    });
+
+    const result = await ingestClinicalTrialsCatalog(memory.client, { target: 100, maxPages: 2 });
+
+    assert.deepEqual(result, { scannedStudies: 4, candidatesFound: 4, inserted: 3, skippedExisting: 1, target: 100 });
+    assertExpectedRows("clinicaltrials-catalog-ingest", memory, [
+      "peptides",
+      "peptide_profiles",
+      "peptide_regulatory_status",
+      "use_cases",
+      "peptide_use_cases",
+      "peptide_dosing_entries",
+      "peptide_safety_entries",
+      "citations",
+      "peptide_claims",
+      "content_changes"
+    ]);
+  });
+});
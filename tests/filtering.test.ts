@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { filterPeptides, type PeptideFilters } from "@/lib/filtering";
+import type { PeptideSummary } from "@/lib/types";
+
+const NO_FILTERS: PeptideFilters = { q: "", useCase: "", jurisdiction: "", status: "", evidence: "", route: "" };
+
+const PEPTIDES: PeptideSummary[] = [
+  {
+    slug: "semaglutide",
+    name: "Semaglutide",
+    aliases: ["Ozempic", "Wegovy"],
+    className: "GLP-1 receptor agonist",
+    routes: ["Subcutaneous", "Oral"],
+    useCases: ["weight-management", "type-2-diabetes"],
+    statusByJurisdiction: {
+      US: "US_FDA_APPROVED",
+      EU: "NON_US_APPROVED",
+      UK: "NON_US_APPROVED",
+      CA: "NON_US_APPROVED",
+      AU: "NON_US_APPROVED"
+    },
+    evidenceGrade: "A"
+  },
+  {
+    slug: "bpc-157",
+    name: "BPC-157",
+    aliases: ["Body Protection Compound 157"],
+    className: "Gastric pentadecapeptide",
+    routes: ["Subcutaneous"],
+    useCases: ["tissue-repair"],
+    statusByJurisdiction: {
+      US: "RESEARCH_ONLY",
+      EU: "RESEARCH_ONLY",
+      UK: "RESEARCH_ONLY",
+      CA: "RESEARCH_ONLY",
+      AU: "RESEARCH_ONLY"
+    },
+    evidenceGrade: "D"
+  },
+  {
+    slug: "retatrutide",
+    name: "Retatrutide",
+    aliases: ["LY3437943"],
+    className: "GIP/GLP-1/glucagon receptor agonist",
+    routes: ["Subcutaneous"],
+    useCases: ["weight-management"],
+    statusByJurisdiction: {
+      US: "INVESTIGATIONAL",
+      EU: "INVESTIGATIONAL",
+      UK: "RESEARCH_ONLY",
+      CA: "INVESTIGATIONAL",
+      AU: "INVESTIGATIONAL"
+    },
+    evidenceGrade: "B"
+  }
+];
+
+const CASES: Array<{ name: string; filters: Partial<PeptideFilters>; slugs: string[] }> = [
+  { name: "no filters keeps everything", filters: {}, slugs: ["semaglutide", "bpc-157", "retatrutide"] },
+  { name: "query matches the name case-insensitively", filters: { q: "SEMA" }, slugs: ["semaglutide"] },
+  { name: "query matches aliases", filters: { q: "wegovy" }, slugs: ["semaglutide"] },
+  { name: "query with no match", filters: { q: "oxytocin" }, slugs: [] },
+  { name: "use case", filters: { useCase: "weight-management" }, slugs: ["semaglutide", "retatrutide"] },
+  { name: "status in any jurisdiction", filters: { status: "INVESTIGATIONAL" }, slugs: ["retatrutide"] },
+  { name: "status in one jurisdiction", filters: { jurisdiction: "UK", status: "RESEARCH_ONLY" }, slugs: ["bpc-157", "retatrutide"] },
+  {
+    name: "jurisdiction alone drops research-only entries",
+    filters: { jurisdiction: "UK" },
+    slugs: ["semaglutide"]
+  },
+  { name: "evidence grade", filters: { evidence: "D" }, slugs: ["bpc-157"] },
+  { name: "route", filters: { route: "Oral" }, slugs: ["semaglutide"] },
+  {
+    name: "filters combine",
+    filters: { useCase: "weight-management", jurisdiction: "US", evidence: "B", route: "Subcutaneous" },
+    slugs: ["retatrutide"]
+  }
+];
+
+describe("filterPeptides", () => {
+  for (const { name, filters, slugs } of CASES) {
+    test(name, () => {
+      const result = filterPeptides(PEPTIDES, { ...NO_FILTERS, ...filters });
+      assert.deepEqual(
+        result.map((peptide) => peptide.slug),
+        slugs
+      );
+    });
+  }
+});
@@ -0,0 +1,200 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { before, describe, test } from "node:test";
+import { runIngestJobChunk } from "@/lib/ingest-jobs";
+import { findIngestSchedule, INGEST_SCHEDULES, runScheduledIngest, staleBeforeFor } from "@/lib/ingest-schedule";
+import { InMemoryJobQueue } from "@/lib/job-queue";
+import { createMemorySupabase, type MemoryRow } from "./support/memory-supabase";
+import { JURISDICTION_ROWS, peptideRow } from "./support/seed";
+import { useRecordedSources } from "./support/source-fixtures";
+
+const HOUR_MS = 60 * 60 * 1000;
+const liveEvidence = findIngestSchedule("live-evidence")!;
+
+function hoursAgo(hours: number): string {
+  return new Date(Date.now() - hours * HOUR_MS).toISOString();
+}
+
+function livePeptides(semaglutideRefreshedAt: string | null): MemoryRow[] {
+  return [
+    peptideRow(1, "semaglutide", "Semaglutide", { last_live_refresh_at: semaglutideRefreshedAt }),
+    peptideRow(2, "obscurin", "Obscurin", { peptide_class: "Research peptide", last_live_refresh_at: hoursAgo(1) })
+  ];
+}
+
+describe("INGEST_SCHEDULES", () => {
+  test("matches the crons in vercel.json", () => {
+    const vercel = JSON.parse(fs.readFileSync(path.resolve(__dirname, "../vercel.json"), "utf8")) as {
+      crons: Array<{ path: string; schedule: string }>;
+    };
+    assert.deepEqual(
+      vercel.crons,
+      INGEST_SCHEDULES.map((schedule) => ({ path: `/api/cron/${schedule.pipeline}`, schedule: schedule.cron }))
+    );
+  });
+
+  test("staleBeforeFor subtracts the schedule's max age", () => {
+    assert.equal(staleBeforeFor(liveEvidence, new Date("2026-03-02T06:00:00.000Z")), "2026-03-01T10:00:00.000Z");
+  });
+});
+
+describe("runScheduledIngest", () => {
+  before(useRecordedSources);
+
+  test("queues only peptides past the staleness window and releases the lock", async () => {
+    const peptides = livePeptides(hoursAgo(30));
+    const memory = createMemorySupabase({ jurisdictions: JURISDICTION_ROWS, peptides });
+    const queue = new InMemoryJobQueue();
+
+    const result = await runScheduledIngest(memory.client, queue, liveEvidence);
+
+    assert.equal(result.status, "QUEUED");
+    assert.equal(result.processed, 1);
+    assert.equal(result.job?.status, "COMPLETED");
+    assert.deepEqual(
+      (await queue.listItems(result.job!.id)).map((item) => [item.itemKey, item.status]),
+      [["peptide:1", "SUCCEEDED"]]
+    );
+    const [semaglutide, obscurin] = memory.rows("peptides");
+    assert.ok(Date.parse(String(semaglutide.last_live_refresh_at)) > Date.now() - HOUR_MS);
+    assert.equal(obscurin.last_live_refresh_at, peptides[1].last_live_refresh_at);
+    assert.deepEqual(memory.rows("ingest_locks"), []);
+  });
+
+  test("does nothing when every peptide is fresh", async () => {
+    const memory = createMemorySupabase({ jurisdictions: JURISDICTION_ROWS, peptides: livePeptides(hoursAgo(2)) });
+    const queue = new InMemoryJobQueue();
+
+    const result = await runScheduledIngest(memory.client, queue, liveEvidence);
+
+    assert.deepEqual(result, { pipeline: "live-evidence", status: "FRESH", job: null, processed: 0 });
+    assert.deepEqual(await queue.listJobs(), []);
+    assert.deepEqual(memory.rows("ingest_locks"), []);
+  });
+
+  test("skips the run while another caller holds the pipeline lock", async () => {
+    const lock = { name: "LIVE_EVIDENCE", holder: "script:other", acquired_at: hoursAgo(1), expires_at: hoursAgo(-1) };
+    const memory = createMemorySupabase({
+      jurisdictions: JURISDICTION_ROWS,
+      peptides: livePeptides(null),
+      ingest_locks: [lock]
+    });
+    const queue = new InMemoryJobQueue();
+
+    const result = await runScheduledIngest(memory.client, queue, liveEvidence);
+
+    assert.deepEqual(result, { pipeline: "live-evidence", status: "LOCKED", job: null, processed: 0 });
+    assert.deepEqual(await queue.listJobs(), []);
+    assert.deepEqual(memory.rows("ingest_locks"), [lock]);
+  });
+
+  test("takes over an expired lock and resumes the unfinished job instead of queueing another", async () => {
+    const memory = createMemorySupabase({
+      jurisdictions: JURISDICTION_ROWS,
+      peptides: livePeptides(null),
+      ingest_locks: [{ name: "LIVE_EVIDENCE", holder: "cron:crashed", acquired_at: hoursAgo(2), expires_at: hoursAgo(1) }]
+    });
+    const queue = new InMemoryJobQueue();
+    const queued = await queue.enqueue({
+      kind: "LIVE_EVIDENCE",
+      chunkSize: 4,
+      items: [{ key: "peptide:1", label: "Semaglutide" }]
+    });
+
+    const result = await runScheduledIngest(memory.client, queue, liveEvidence);
+
+    assert.equal(result.status, "RESUMED");
+    assert.equal(result.job?.id, queued.id);
+    assert.equal(result.job?.status, "COMPLETED");
+    assert.equal((await queue.listJobs()).length, 1);
+    assert.deepEqual(memory.rows("ingest_locks"), []);
+  });
+});
+
+describe("runIngestJobChunk", () => {
+  before(useRecordedSources);
+
+  test("skips the chunk while another run holds the job's pipeline lock", async () => {
+    const lock = { name: "LIVE_EVIDENCE", holder: "cron:other", acquired_at: hoursAgo(1), expires_at: hoursAgo(-1) };
+    const memory = createMemorySupabase({
+      jurisdictions: JURISDICTION_ROWS,
+      peptides: livePeptides(null),
+      ingest_locks: [lock]
+    });
+    const queue = new InMemoryJobQueue();
+    const queued = await queue.enqueue({ kind: "LIVE_EVIDENCE", chunkSize: 4, items: [{ key: "peptide:1", label: "Semaglutide" }] });
+
+    const chunk = await runIngestJobChunk(memory.client, queue, queued.id);
+
+    assert.equal(chunk.locked, true);
+    assert.equal(chunk.processed, 0);
+    assert.equal(chunk.job?.status, "QUEUED");
+    assert.deepEqual(memory.rows("ingest_locks"), [lock]);
+  });
+
+  test("takes the lock for the chunk and releases it afterwards", async () => {
+    const memory = createMemorySupabase({ jurisdictions: JURISDICTION_ROWS, peptides: livePeptides(null) });
+    const queue = new InMemoryJobQueue();
+    const queued = await queue.enqueue({ kind: "LIVE_EVIDENCE", chunkSize: 4, items: [{ key: "peptide:1", label: "Semaglutide" }] });
+
+    const chunk = await runIngestJobChunk(memory.client, queue, queued.id);
+
+    assert.equal(chunk.locked, false);
+    assert.equal(chunk.processed, 1);
+    assert.equal(chunk.job?.status, "COMPLETED");
+    assert.deepEqual(memory.rows("ingest_locks"), []);
+  });
+
+  test("does not crawl a catalog job's vendor while a vendor website run holds its lock", async () => {
+    const lock = { name: "VENDOR_WEBSITE", holder: "cron:other", acquired_at: hoursAgo(1), expires_at: hoursAgo(-1) };
+    const memory = createMemorySupabase({ ingest_locks: [lock] });
+    const queue = new InMemoryJobQueue();
+    const queued = await queue.enqueue({
+      kind: "CLINICALTRIALS_CATALOG",
+      chunkSize: 1,
+      items: [{ key: "vendor:peptide-sciences", label: "Peptide Sciences" }]
+    });
+
+    const chunk = await runIngestJobChunk(memory.client, queue, queued.id);
+
+    assert.equal(chunk.locked, false);
+    assert.equal(chunk.processed, 1);
+    assert.equal(chunk.job?.status, "FAILED");
+    const [item] = await queue.listItems(queued.id);
+    assert.match(item.error ?? "", /Another VENDOR_WEBSITE ingest is already running/);
+    assert.deepEqual(memory.rows("ingest_locks"), [lock]);
+  });
+});
+
+describe("InMemoryJobQueue", () => {
+  test("refuses a second active job of the same kind", async () => {
+    const queue = new InMemoryJobQueue();
+    await queue.enqueue({ kind: "SOCIAL_UGC", chunkSize: 5, items: [{ key: "peptide:a", label: "A" }] });
+
+    await assert.rejects(
+      queue.enqueue({ kind: "SOCIAL_UGC", chunkSize: 5, items: [{ key: "peptide:b", label: "B" }] }),
+      /already queued or running/
+    );
+    await queue.enqueue({ kind: "VENDOR_WEBSITE", chunkSize: 2, items: [{ key: "vendor:a", label: "A" }] });
+    assert.equal((await queue.listJobs()).length, 2);
+  });
+
+  test("rejects duplicate item keys without storing the job", async () => {
+    const queue = new InMemoryJobQueue();
+
+    await assert.rejects(
+      queue.enqueue({
+        kind: "SOCIAL_UGC",
+        chunkSize: 5,
+        items: [
+          { key: "peptide:a", label: "A" },
+          { key: "peptide:a", label: "A again" }
+        ]
+      }),
+      /Duplicate ingest job item key/
+    );
+    assert.deepEqual(await queue.listJobs(), []);
+    await queue.enqueue({ kind: "SOCIAL_UGC", chunkSize: 5, items: [{ key: "peptide:a", label: "A" }] });
+  });
+});
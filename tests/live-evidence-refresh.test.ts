@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { before, describe, test } from "node:test";
+import { refreshLiveEvidenceClaims } from "@/lib/live-evidence-refresh";
+import { assertExpectedRows } from "./support/expected-rows";
+import { createMemorySupabase } from "./support/memory-supabase";
+import { JURISDICTION_ROWS, peptideRow } from "./support/seed";
+import { useRecordedSources } from "./support/source-fixtures";
+
+describe("refreshLiveEvidenceClaims", () => {
+  before(useRecordedSources);
+
+  test("replaces live PubMed and ClinicalTrials claims, refreshes trial enrollment and only logs newly surfaced ones", async () => {
+    const memory = createMemorySupabase({
+      jurisdictions: JURISDICTION_ROWS,
+      peptides: [
+        peptideRow(1, "semaglutide", "Semaglutide"),
+        peptideRow(2, "obscurin", "Obscurin", { peptide_class: "Research peptide" }),
+        // PubMed answers 503 for this one, so the peptide fails and keeps its refresh timestamp.
+        peptideRow(3, "failtide", "Failtide", { peptide_class: "Research peptide", last_live_refresh_at: "2025-01-01T00:00:00.000Z" })
+      ],
+      citations: [
+        {
+          id: 1,
+          source_url: "https://pubmed.ncbi.nlm.nih.gov/39000001/",
+          source_title: "Once-weekly semaglutide in adults with overweight or obesity: a randomized controlled trial.",
+          published_at: "2025-02-12",
+          canonical_key: "pmid:39000001",
+          pmid: "39000001",
+          doi: null,
+          nct_id: null,
+          authors: [],
+          journal: null,
+          publication_type: null,
+          enrollment: null
+        },
+        {
+          // Registered with the anticipated enrollment; the refresh replaces it with the current count.
+          id: 2,
+          source_url: "https://clinicaltrials.gov/study/NCT04251156",
+          source_title: "ClinicalTrials.gov NCT04251156",
+          published_at: "2025-04-22",
+          canonical_key: "nct:NCT04251156",
+          pmid: null,
+          doi: null,
+          nct_id: "NCT04251156",
+          authors: [],
+          journal: null,
+          publication_type: "CLINICAL_TRIAL",
+          enrollment: 17500
+        }
+      ],
+      peptide_claims: [
+        {
+          id: 1,
+          peptide_id: 1,
+          section: "Live Research (PubMed)",
+          claim_text:
+            'Recent PubMed publication (PMID 39000001) reports "Once-weekly semaglutide in adults with overweight or obesity: a randomized controlled trial.".',
+          evidence_grade: "B",
+          grade_rationale: "Randomized controlled trial.",
+          citation_id: 1
+        },
+        {
+          id: 2,
+          peptide_id: 1,
+          section: "Live Research (PubMed)",
+          claim_text: 'Recent PubMed publication (PMID 38000009) reports "An older study that rotated out".',
+          evidence_grade: "C",
+          grade_rationale: "Observational study.",
+          citation_id: null
+        },
+        {
+          id: 3,
+          peptide_id: 1,
+          section: "Mechanism",
+          claim_text: "Editorial claims outside the live sections are left alone.",
+          evidence_grade: "A",
+          grade_rationale: "Curated.",
+          citation_id: null
+        }
+      ]
+    });
+
+    const result = await refreshLiveEvidenceClaims(memory.client, { sourcesPerPeptide: 2 });
+
+    assert.deepEqual(result, { peptidesScanned: 3, claimsUpserted: 4, peptidesWithNoHits: 1, failures: 1 });
+    assertExpectedRows("live-evidence-refresh", memory, ["peptides", "citations", "peptide_claims", "content_changes"]);
+  });
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { before, describe, test } from "node:test";
+import { enrichPeptideContent } from "@/lib/peptide-content-enrichment";
+import { assertExpectedRows } from "./support/expected-rows";
+import { createMemorySupabase } from "./support/memory-supabase";
+import { DRUG_CLASS_ROWS, JURISDICTION_ROWS, peptideRow } from "./support/seed";
+import { useRecordedSources } from "./support/source-fixtures";
+
+describe("enrichPeptideContent", () => {
+  before(useRecordedSources);
+
+  test("generates profile, safety, dosing, status, use cases, claims, interactions and provenance", async () => {
+    const memory = createMemorySupabase({
+      jurisdictions: JURISDICTION_ROWS,
+      drug_classes: DRUG_CLASS_ROWS,
+      peptides: [peptideRow(1, "semaglutide", "Semaglutide")],
+      peptide_regulatory_status: [
+        { id: 1, peptide_id: 1, jurisdiction_id: 1, status: "INVESTIGATIONAL", notes: "Seeded before the first enrichment." }
+      ]
+    });
+
+    const result = await enrichPeptideContent(memory.client, { delayMs: 0 });
+
+    assert.equal(result.peptidesScanned, 1);
+    assert.equal(result.peptidesUpdated, 1);
+    assert.equal(result.failures, 0);
+    assert.deepEqual(result.sourceHits, {
+      openFda: 1,
+      pubChem: 1,
+      chembl: 1,
+      clinicalTrials: 1,
+      pubMed: 1,
+      grokipedia: 0,
+      peptiWiki: 0,
+      hubermanAi: 0
+    });
+    assertExpectedRows("peptide-content-enrichment", memory, [
+      "peptide_profiles",
+      "peptide_content_provenance",
+      "peptide_safety_entries",
+      "peptide_dosing_entries",
+      "peptide_regulatory_status",
+      "use_cases",
+      "peptide_use_cases",
+      "citations",
+      "peptide_claims",
+      "peptide_interactions",
+      "content_changes"
+    ]);
+  });
+});
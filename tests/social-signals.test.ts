@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { analyzeSentiment, extractQuote } from "@/lib/social-ugc-ingest";
+
+describe("analyzeSentiment", () => {
+  const cases: Array<{ text: string; score: number; label: "positive" | "mixed" | "negative" | "neutral" }> = [
+    { text: "", score: 0.1, label: "positive" },
+    { text: "Ordered on Monday", score: 0.12, label: "positive" },
+    { text: "This vendor is legit and reliable, quality product", score: 1, label: "positive" },
+    { text: "Total scam, fake vials, avoid", score: -1, label: "negative" },
+    { text: "It helped a bit but I had a bad side effect", score: -0.23, label: "negative" },
+    { text: "worked better than expected but the worst customer service", score: 0.21, label: "positive" }
+  ];
+
+  for (const { text, score, label } of cases) {
+    test(JSON.stringify(text), () => {
+      assert.deepEqual(analyzeSentiment(text), { score, label });
+    });
+  }
+});
+
+describe("extractQuote", () => {
+  const cases: Array<{ name: string; title: string; body: string; term: string; quote: string }> = [
+    {
+      name: "prefers a body sentence that names the term",
+      title: "Week 6 on semaglutide",
+      body: "Quick update. Semaglutide has cut my appetite in half and I have lost 12 pounds so far. Mild nausea in week one only. Thanks all!",
+      term: "semaglutide",
+      quote: "Semaglutide has cut my appetite in half and I have lost 12 pounds so far."
+    },
+    {
+      name: "falls back to the title when there is no body",
+      title: "Tirzepatide dose question",
+      body: "",
+      term: "tirzepatide",
+      quote: "Tirzepatide dose question"
+    },
+    {
+      name: "skips greetings and questions for a sentence with a sentiment keyword",
+      title: "Any thoughts?",
+      body: "Has anyone here tried it? Edit: thanks. The shipping was fast and the product worked well for me.",
+      term: "retatrutide",
+      quote: "The shipping was fast and the product worked well for me."
+    },
+    {
+      name: "truncates long unbroken text",
+      title: "xxxxx",
+      body: "a".repeat(400),
+      term: "bpc",
+      quote: `${"a".repeat(209)}...`
+    }
+  ];
+
+  for (const { name, title, body, term, quote } of cases) {
+    test(name, () => {
+      assert.equal(extractQuote(title, body, term), quote);
+    });
+  }
+});
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { before, describe, test } from "node:test";
+import { ingestSocialUgcSignals } from "@/lib/social-ugc-ingest";
+import { assertExpectedRows } from "./support/expected-rows";
+import { createMemorySupabase } from "./support/memory-supabase";
+import { JURISDICTION_ROWS, peptideRow } from "./support/seed";
+import { useRecordedSources } from "./support/source-fixtures";
+
+describe("ingestSocialUgcSignals", () => {
+  before(useRecordedSources);
+
+  test("writes community claims for peptides and reviews plus a rescored snapshot for vendors", async () => {
+    const memory = createMemorySupabase({
+      jurisdictions: JURISDICTION_ROWS,
+      peptides: [
+        peptideRow(1, "semaglutide", "Semaglutide"),
+        // Code names are never searched; the peptide is skipped without a request.
+        peptideRow(2, "bpc-157", "BPC-157", { peptide_class: "Research peptide" })
+      ],
+      vendors: [{ id: 1, slug: "henry-meds", name: "Henry Meds", website_url: "https://henrymeds.com", is_published: true }],
+      vendor_peptide_listings: [
+        { id: 1, vendor_id: 1, peptide_id: 1, is_affiliate: false, affiliate_url: null, product_url: "https://henrymeds.com/" }
+      ],
+      vendor_rating_snapshots: [
+        {
+          id: 1,
+          vendor_id: 1,
+          rating: 3.8,
+          confidence: 0.52,
+          method_version: "vendor_website_ingest_v1",
+          scoring_version: "vendor_score_v1",
+          score_inputs: {},
+          reason_tags: ["licensed_pharmacy_network", "clinic_medical_screening", "prescription_required", "ugc_reviews_3"],
+          is_current: true
+        }
+      ]
+    });
+
+    const result = await ingestSocialUgcSignals(memory.client, { delayMs: 0 });
+
+    assert.deepEqual(result, {
+      peptidesScanned: 2,
+      peptidesUpdated: 2,
+      peptideClaimsInserted: 1,
+      vendorsScanned: 1,
+      vendorsUpdated: 1,
+      vendorReviewsInserted: 4,
+      vendorRatingsUpdated: 1,
+      sourceHits: { reddit: 2, trustpilot: 1 },
+      failures: 0
+    });
+    assertExpectedRows("social-ugc-ingest", memory, [
+      "citations",
+      "peptide_claims",
+      "vendor_reviews",
+      "vendor_rating_snapshots",
+      "content_changes"
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import type { MemoryRow, MemorySupabase } from "./memory-supabase";
+
+export const EXPECTED_ROWS_DIR = path.resolve(__dirname, "../fixtures/expected");
+
+const SUITE_STARTED_AT = Date.now() - 60_000;
+const TODAY = new Date().toISOString().slice(0, 10);
+const ISO_TIMESTAMP = /\b\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z\b/g;
+
+// Timestamps taken while the suite runs and today's date change on every run; dates that came
+// from a fixture are older than the suite and stay as recorded.
+function stableValue(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value
+      .replace(ISO_TIMESTAMP, (match) => (new Date(match).getTime() >= SUITE_STARTED_AT ? "<now>" : match))
+      .split(TODAY)
+      .join("<today>");
+  }
+  if (Array.isArray(value)) {
+    return value.map(stableValue);
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, stableValue(entry)]));
+  }
+  return value;
+}
+
+export function stableRows(rows: MemoryRow[]): MemoryRow[] {
+  return rows.map((row) => stableValue(row) as MemoryRow);
+}
+
+// Compares every row in the given tables against tests/fixtures/expected/<name>.json.
+// UPDATE_EXPECTED=1 rewrites the file instead; review the diff before committing it.
+export function assertExpectedRows(name: string, memory: MemorySupabase, tables: string[]): void {
+  const actual = Object.fromEntries(tables.map((table) => [table, stableRows(memory.rows(table))]));
+  const file = path.join(EXPECTED_ROWS_DIR, `${name}.json`);
+
+  if (process.env.UPDATE_EXPECTED === "1") {
+    mkdirSync(EXPECTED_ROWS_DIR, { recursive: true });
+    writeFileSync(file, `${JSON.stringify(actual, null, 2)}\n`, "utf8");
+    return;
+  }
+
+  assert.ok(existsSync(file), `Missing ${path.relative(process.cwd(), file)}. Run the test once with UPDATE_EXPECTED=1.`);
+  assert.deepEqual(actual, JSON.parse(readFileSync(file, "utf8")));
+}
@@ -0,0 +1,518 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// In-memory stand-in for the parts of the Supabase query builder the ingest modules use: select with
+// embedded relations, insert/upsert/update/delete, the eq/neq/in/is/ilike/or/match filters, order,
+// limit, range, single and maybeSingle. Rows get sequential ids per table, so a test can assert the
+// exact rows an ingest wrote. rpc() covers only the ingest lock functions from db/bootstrap.sql.
+
+export type MemoryRow = Record<string, unknown>;
+
+export type MemorySupabase = {
+  client: SupabaseClient;
+  rows(table: string): MemoryRow[];
+};
+
+type Operation = "select" | "insert" | "upsert" | "update" | "delete";
+type RowFilter = (row: MemoryRow) => boolean;
+type SortKey = { column: string; ascending: boolean; nullsFirst: boolean };
+type QueryError = { message: string; code: string };
+type QueryResult = { data: unknown; error: QueryError | null; count: number | null; status: number };
+
+type Database = {
+  tables: Map<string, MemoryRow[]>;
+  nextIds: Map<string, number>;
+};
+
+// Column defaults from db/schema.sql that callers read back from an insert.
+const COLUMN_DEFAULTS: Record<string, () => MemoryRow> = {
+  ingest_runs: () => ({ status: "RUNNING", items_total: 0, items_failed: 0, counters: {}, started_at: new Date().toISOString() })
+};
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function sameValue(left: unknown, right: unknown): boolean {
+  if (left === right) {
+    return true;
+  }
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return false;
+  }
+  return String(left) === String(right);
+}
+
+function compareValues(left: unknown, right: unknown): number {
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+  return String(left).localeCompare(String(right));
+}
+
+function likePattern(pattern: string, flags: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/%/g, ".*").replace(/_/g, ".");
+  return new RegExp(`^${escaped}$`, flags);
+}
+
+// peptides -> peptide, drug_classes -> drug_class; used to guess foreign-key columns for embeds.
+function singular(table: string): string {
+  if (table.endsWith("sses")) {
+    return table.slice(0, -2);
+  }
+  return table.endsWith("s") ? table.slice(0, -1) : table;
+}
+
+// Splits on commas outside parentheses and double quotes.
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = "";
+  for (let index = 0; index < value.length; index += 1) {
+    const char = value[index];
+    if (char === "\\" && quoted) {
+      current += char + (value[index + 1] ?? "");
+      index += 1;
+      continue;
+    }
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === "(") {
+      depth += 1;
+    } else if (!quoted && char === ")") {
+      depth -= 1;
+    } else if (!quoted && depth === 0 && char === ",") {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+function unquote(value: string): string {
+  if (value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  return value;
+}
+
+function parseOrFilter(expression: string): RowFilter {
+  const conditions = splitTopLevel(expression).map((part): RowFilter => {
+    const [column, operator, ...rest] = part.split(".");
+    const value = unquote(rest.join("."));
+    switch (operator) {
+      case "eq":
+        return (row) => sameValue(row[column], value);
+      case "neq":
+        return (row) => !sameValue(row[column], value);
+      case "ilike":
+        return (row) => likePattern(value, "i").test(String(row[column] ?? ""));
+      case "is":
+        return (row) => (value === "null" ? row[column] === null || row[column] === undefined : sameValue(row[column], value));
+      case "lt":
+        return (row) => row[column] !== null && row[column] !== undefined && compareValues(row[column], value) < 0;
+      default:
+        throw new Error(`memory-supabase: unsupported or() operator "${operator}"`);
+    }
+  });
+  return (row) => conditions.some((condition) => condition(row));
+}
+
+class MemoryQuery implements PromiseLike<QueryResult> {
+  private operation: Operation = "select";
+  private payload: MemoryRow[] = [];
+  private conflictColumns: string[] = ["id"];
+  private ignoreDuplicates = false;
+  private columns: string | null = null;
+  private returning = false;
+  private countRows = false;
+  private headOnly = false;
+  private filters: RowFilter[] = [];
+  private sortKeys: SortKey[] = [];
+  private maxRows: number | null = null;
+  private offset = 0;
+  private singleMode: "single" | "maybeSingle" | null = null;
+
+  constructor(
+    private readonly db: Database,
+    private readonly table: string
+  ) {}
+
+  select(columns = "*", options?: { count?: "exact" | "planned" | "estimated"; head?: boolean }): this {
+    if (this.operation === "select") {
+      this.columns = columns;
+    } else {
+      this.returning = true;
+      this.columns = columns;
+    }
+    this.countRows = Boolean(options?.count);
+    this.headOnly = Boolean(options?.head);
+    return this;
+  }
+
+  insert(values: MemoryRow | MemoryRow[]): this {
+    this.operation = "insert";
+    this.payload = clone(Array.isArray(values) ? values : [values]);
+    return this;
+  }
+
+  upsert(values: MemoryRow | MemoryRow[], options?: { onConflict?: string; ignoreDuplicates?: boolean }): this {
+    this.operation = "upsert";
+    this.payload = clone(Array.isArray(values) ? values : [values]);
+    this.conflictColumns = (options?.onConflict ?? "id").split(",").map((column) => column.trim());
+    this.ignoreDuplicates = Boolean(options?.ignoreDuplicates);
+    return this;
+  }
+
+  update(values: MemoryRow): this {
+    this.operation = "update";
+    this.payload = [clone(values)];
+    return this;
+  }
+
+  delete(): this {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => sameValue(row[column], value));
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push((row) => !sameValue(row[column], value));
+    return this;
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && compareValues(row[column], value) > 0);
+    return this;
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && compareValues(row[column], value) >= 0);
+    return this;
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && compareValues(row[column], value) < 0);
+    return this;
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && compareValues(row[column], value) <= 0);
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push((row) => values.some((value) => sameValue(row[column], value)));
+    return this;
+  }
+
+  is(column: string, value: unknown): this {
+    this.filters.push((row) => (value === null ? row[column] === null || row[column] === undefined : row[column] === value));
+    return this;
+  }
+
+  ilike(column: string, pattern: string): this {
+    this.filters.push((row) => likePattern(pattern, "i").test(String(row[column] ?? "")));
+    return this;
+  }
+
+  like(column: string, pattern: string): this {
+    this.filters.push((row) => likePattern(pattern, "").test(String(row[column] ?? "")));
+    return this;
+  }
+
+  or(expression: string): this {
+    this.filters.push(parseOrFilter(expression));
+    return this;
+  }
+
+  match(query: MemoryRow): this {
+    for (const [column, value] of Object.entries(query)) {
+      this.eq(column, value);
+    }
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean; nullsFirst?: boolean }): this {
+    const ascending = options?.ascending ?? true;
+    this.sortKeys.push({ column, ascending, nullsFirst: options?.nullsFirst ?? !ascending });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.offset = from;
+    this.maxRows = to - from + 1;
+    return this;
+  }
+
+  single(): this {
+    this.singleMode = "single";
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.singleMode = "maybeSingle";
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private tableRows(): MemoryRow[] {
+    let rows = this.db.tables.get(this.table);
+    if (!rows) {
+      rows = [];
+      this.db.tables.set(this.table, rows);
+    }
+    return rows;
+  }
+
+  private assignId(row: MemoryRow): MemoryRow {
+    const next = this.db.nextIds.get(this.table) ?? 1;
+    if (row.id === undefined || row.id === null) {
+      this.db.nextIds.set(this.table, next + 1);
+      // Keeps id as the first key, the way Postgres returns it.
+      return Object.assign({ id: next }, row, { id: next });
+    }
+    if (typeof row.id === "number" && row.id >= next) {
+      this.db.nextIds.set(this.table, row.id + 1);
+    }
+    return row;
+  }
+
+  private matching(): MemoryRow[] {
+    return this.tableRows().filter((row) => this.filters.every((filter) => filter(row)));
+  }
+
+  private sorted(rows: MemoryRow[]): MemoryRow[] {
+    if (this.sortKeys.length === 0) {
+      return rows;
+    }
+    return [...rows].sort((left, right) => {
+      for (const key of this.sortKeys) {
+        const a = left[key.column];
+        const b = right[key.column];
+        const aNull = a === null || a === undefined;
+        const bNull = b === null || b === undefined;
+        if (aNull || bNull) {
+          if (aNull && bNull) {
+            continue;
+          }
+          return aNull === key.nullsFirst ? -1 : 1;
+        }
+        const compared = compareValues(a, b);
+        if (compared !== 0) {
+          return key.ascending ? compared : -compared;
+        }
+      }
+      return 0;
+    });
+  }
+
+  private project(row: MemoryRow, columns: string, table: string): MemoryRow {
+    const projected: MemoryRow = {};
+    for (const part of splitTopLevel(columns)) {
+      if (part === "*") {
+        Object.assign(projected, clone(row));
+        continue;
+      }
+      const embed = part.match(/^(?:(\w+):)?(\w+)(?:!\w+)?\((.*)\)$/);
+      if (!embed) {
+        projected[part] = clone(row[part] ?? null);
+        continue;
+      }
+      const [, alias, related, relatedColumns] = embed;
+      const relatedRows = this.db.tables.get(related) ?? [];
+      const parentKey = `${singular(related)}_id`;
+      if (parentKey in row) {
+        // Many-to-one: this row points at the related row.
+        const target = relatedRows.find((candidate) => sameValue(candidate.id, row[parentKey]));
+        projected[alias ?? related] = target ? this.project(target, relatedColumns, related) : null;
+      } else {
+        // One-to-many: related rows point back at this one.
+        const childKey = `${singular(table)}_id`;
+        projected[alias ?? related] = relatedRows
+          .filter((candidate) => sameValue(candidate[childKey], row.id))
+          .map((candidate) => this.project(candidate, relatedColumns, related));
+      }
+    }
+    return projected;
+  }
+
+  private writeRows(): MemoryRow[] {
+    const rows = this.tableRows();
+    switch (this.operation) {
+      case "insert": {
+        const inserted = this.payload.map((row) => this.assignId({ ...COLUMN_DEFAULTS[this.table]?.(), ...row }));
+        rows.push(...inserted);
+        return inserted;
+      }
+      case "upsert": {
+        const affected: MemoryRow[] = [];
+        for (const incoming of this.payload) {
+          const existing = rows.find((row) =>
+            this.conflictColumns.every((column) => incoming[column] !== undefined && sameValue(row[column], incoming[column]))
+          );
+          if (existing) {
+            if (!this.ignoreDuplicates) {
+              Object.assign(existing, incoming);
+              affected.push(existing);
+            }
+            continue;
+          }
+          const inserted = this.assignId({ ...COLUMN_DEFAULTS[this.table]?.(), ...incoming });
+          rows.push(inserted);
+          affected.push(inserted);
+        }
+        return affected;
+      }
+      case "update": {
+        const matched = this.matching();
+        for (const row of matched) {
+          Object.assign(row, clone(this.payload[0]));
+        }
+        return matched;
+      }
+      case "delete": {
+        const matched = new Set(this.matching());
+        this.db.tables.set(
+          this.table,
+          rows.filter((row) => !matched.has(row))
+        );
+        return [...matched];
+      }
+      default:
+        return [];
+    }
+  }
+
+  private execute(): QueryResult {
+    let rows: MemoryRow[];
+    if (this.operation === "select") {
+      rows = this.sorted(this.matching());
+    } else {
+      rows = this.writeRows();
+      if (!this.returning) {
+        return { data: null, error: null, count: null, status: 200 };
+      }
+    }
+
+    const count = this.countRows ? rows.length : null;
+    if (this.headOnly) {
+      return { data: null, error: null, count, status: 200 };
+    }
+    rows = rows.slice(this.offset, this.maxRows === null ? undefined : this.offset + this.maxRows);
+    const data = rows.map((row) => this.project(row, this.columns ?? "*", this.table));
+
+    if (this.singleMode) {
+      if (data.length === 1) {
+        return { data: data[0], error: null, count, status: 200 };
+      }
+      if (data.length === 0 && this.singleMode === "maybeSingle") {
+        return { data: null, error: null, count, status: 200 };
+      }
+      return {
+        data: null,
+        error: { message: "JSON object requested, multiple (or no) rows returned", code: "PGRST116" },
+        count,
+        status: 406
+      };
+    }
+    return { data, error: null, count, status: 200 };
+  }
+}
+
+function lockRows(db: Database): MemoryRow[] {
+  let rows = db.tables.get("ingest_locks");
+  if (!rows) {
+    rows = [];
+    db.tables.set("ingest_locks", rows);
+  }
+  return rows;
+}
+
+// Same rules as acquire_ingest_lock/release_ingest_lock in db/bootstrap.sql.
+const RPC_FUNCTIONS: Record<string, (db: Database, args: MemoryRow) => unknown> = {
+  acquire_ingest_lock(db, args) {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + Math.max(1, Number(args.ttl_seconds)) * 1000).toISOString();
+    const rows = lockRows(db);
+    const existing = rows.find((row) => row.name === args.lock_name);
+    if (!existing) {
+      rows.push({ name: args.lock_name, holder: args.lock_holder, acquired_at: now.toISOString(), expires_at: expiresAt });
+      return true;
+    }
+    if (existing.holder !== args.lock_holder && Date.parse(String(existing.expires_at)) >= now.getTime()) {
+      return false;
+    }
+    if (existing.holder !== args.lock_holder) {
+      existing.acquired_at = now.toISOString();
+    }
+    Object.assign(existing, { holder: args.lock_holder, expires_at: expiresAt });
+    return true;
+  },
+  release_ingest_lock(db, args) {
+    const rows = lockRows(db);
+    const index = rows.findIndex((row) => row.name === args.lock_name && row.holder === args.lock_holder);
+    if (index === -1) {
+      return false;
+    }
+    rows.splice(index, 1);
+    return true;
+  }
+};
+
+export function createMemorySupabase(seed: Record<string, MemoryRow[]> = {}): MemorySupabase {
+  const db: Database = { tables: new Map(), nextIds: new Map() };
+  for (const [table, rows] of Object.entries(seed)) {
+    const stored = clone(rows);
+    db.tables.set(table, stored);
+    const maxId = stored.reduce((max, row) => (typeof row.id === "number" && row.id > max ? row.id : max), 0);
+    db.nextIds.set(table, maxId + 1);
+  }
+
+  const client = {
+    from(table: string) {
+      return new MemoryQuery(db, table);
+    },
+    rpc(name: string, args: MemoryRow = {}) {
+      const fn = RPC_FUNCTIONS[name];
+      if (fn) {
+        return Promise.resolve({ data: fn(db, args), error: null, count: null, status: 200 });
+      }
+      return Promise.resolve({
+        data: null,
+        error: { message: `memory-supabase: rpc ${name} is not supported`, code: "PGRST202" },
+        count: null,
+        status: 404
+      });
+    }
+  };
+
+  return {
+    client: client as unknown as SupabaseClient,
+    rows(table: string) {
+      return clone(db.tables.get(table) ?? []);
+    }
+  };
+}
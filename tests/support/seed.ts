@@ -0,0 +1,41 @@
+import type { MemoryRow } from "./memory-supabase";
+
+// The jurisdictions db/bootstrap.sql inserts, in its order.
+export const JURISDICTION_ROWS: MemoryRow[] = [
+  { id: 1, code: "US", name: "United States" },
+  { id: 2, code: "EU", name: "European Union" },
+  { id: 3, code: "UK", name: "United Kingdom" },
+  { id: 4, code: "CA", name: "Canada" },
+  { id: 5, code: "AU", name: "Australia" }
+];
+
+export function peptideRow(id: number, slug: string, canonicalName: string, extra: MemoryRow = {}): MemoryRow {
+  return {
+    id,
+    slug,
+    canonical_name: canonicalName,
+    peptide_class: "GLP-1 receptor agonist",
+    is_published: true,
+    last_live_refresh_at: null,
+    ...extra
+  };
+}
+
+// A subset of the drug classes db/bootstrap.sql inserts, for label interaction matching.
+export const DRUG_CLASS_ROWS: MemoryRow[] = [
+  { id: 1, slug: "insulin", name: "Insulin", description: "Basal and prandial insulins.", match_terms: ["insulin", "insulin glargine"] },
+  {
+    id: 2,
+    slug: "sulfonylureas",
+    name: "Sulfonylureas",
+    description: "Insulin secretagogues such as glipizide, glyburide and glimepiride.",
+    match_terms: ["sulfonylurea", "sulfonylureas", "glipizide"]
+  },
+  {
+    id: 3,
+    slug: "anticoagulants",
+    name: "Anticoagulants",
+    description: "Vitamin K antagonists and direct oral anticoagulants.",
+    match_terms: ["anticoagulant", "anticoagulants", "warfarin"]
+  }
+];
@@ -0,0 +1,14 @@
+import path from "node:path";
+import { configureSourceClient } from "@/lib/source-client";
+
+export const HTTP_FIXTURES_DIR = path.resolve(__dirname, "../fixtures/http");
+
+// Points the shared source client at the committed fixtures. Tests replay them by default;
+// SOURCE_HTTP_MODE=record re-fetches every URL a test touches and overwrites its fixture.
+export function useRecordedSources(): void {
+  configureSourceClient({
+    mode: process.env.SOURCE_HTTP_MODE?.trim() === "record" ? "record" : "replay",
+    fixturesDir: HTTP_FIXTURES_DIR,
+    cacheDir: ""
+  });
+}
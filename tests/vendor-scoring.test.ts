@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { computeVendorScore } from "@/lib/vendor-scoring";
+
+type ScoreCase = {
+  name: string;
+  trustSignals: string[];
+  peptidesDetected: number;
+  social?: { reviewCount: number; averageSentiment: number | null; sourceCount?: number };
+  rating: number | null;
+  confidence: number | null;
+};
+
+const CASES: ScoreCase[] = [
+  { name: "no trust signals and no reviews stays unrated", trustSignals: [], peptidesDetected: 0, rating: null, confidence: null },
+  {
+    name: "listings alone do not produce a rating",
+    trustSignals: [],
+    peptidesDetected: 4,
+    social: { reviewCount: 0, averageSentiment: null },
+    rating: null,
+    confidence: null
+  },
+  {
+    name: "research supplier with testing signals and a full catalog",
+    trustSignals: ["coa_published", "third_party_testing", "shipping_policy_disclosed"],
+    peptidesDetected: 7,
+    rating: 4,
+    confidence: 0.58
+  },
+  {
+    name: "telehealth clinic with prescription signals",
+    trustSignals: ["licensed_pharmacy_network", "clinic_medical_screening", "prescription_required"],
+    peptidesDetected: 2,
+    rating: 3.8,
+    confidence: 0.52
+  },
+  { name: "unknown signals get the default weight", trustSignals: ["unknown_signal"], peptidesDetected: 0, rating: 1.9, confidence: 0.34 },
+  {
+    name: "negative reviews alone pull the rating down",
+    trustSignals: [],
+    peptidesDetected: 0,
+    social: { reviewCount: 3, averageSentiment: -0.6, sourceCount: 1 },
+    rating: 1,
+    confidence: 0.33
+  },
+  {
+    name: "positive review volume across sources lifts the rating",
+    trustSignals: ["coa_published"],
+    peptidesDetected: 12,
+    social: { reviewCount: 40, averageSentiment: 0.55, sourceCount: 2 },
+    rating: 4.7,
+    confidence: 0.75
+  },
+  {
+    name: "rating and confidence are capped",
+    trustSignals: [
+      "coa_published",
+      "third_party_testing",
+      "cold_chain_policy",
+      "lot_tracking",
+      "transparent_pricing",
+      "manufacturer_labeling",
+      "licensed_pharmacy_network",
+      "regulatory_disclosures"
+    ],
+    peptidesDetected: 200,
+    social: { reviewCount: 500, averageSentiment: 1, sourceCount: 5 },
+    rating: 5,
+    confidence: 0.98
+  }
+];
+
+describe("computeVendorScore", () => {
+  for (const scoreCase of CASES) {
+    test(scoreCase.name, () => {
+      assert.deepEqual(computeVendorScore(scoreCase.trustSignals, scoreCase.peptidesDetected, scoreCase.social), {
+        rating: scoreCase.rating,
+        confidence: scoreCase.confidence,
+        scoringVersion: "vendor_score_v1"
+      });
+    });
+  }
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { before, describe, test } from "node:test";
+import { ingestVendorWebsiteCatalog } from "@/lib/vendor-website-ingest";
+import { assertExpectedRows } from "./support/expected-rows";
+import { createMemorySupabase } from "./support/memory-supabase";
+import { JURISDICTION_ROWS, peptideRow } from "./support/seed";
+import { useRecordedSources } from "./support/source-fixtures";
+
+describe("ingestVendorWebsiteCatalog", () => {
+  before(useRecordedSources);
+
+  test("upserts vendors, detected peptides, listings and a fresh rating snapshot", async () => {
+    const memory = createMemorySupabase({
+      jurisdictions: JURISDICTION_ROWS,
+      peptides: [peptideRow(1, "semaglutide", "Semaglutide")],
+      peptide_aliases: [{ id: 1, peptide_id: 1, alias: "Ozempic" }],
+      // The henrymeds.com fixture is a 503: the vendor still gets its fallback peptides.
+      vendors: [{ id: 1, slug: "henry-meds", name: "Henry Meds", website_url: "https://henrymeds.com", is_published: true }],
+      vendor_rating_snapshots: [
+        {
+          id: 1,
+          vendor_id: 1,
+          rating: 3.4,
+          confidence: 0.48,
+          method_version: "vendor_website_ingest_v1",
+          scoring_version: "vendor_score_v1",
+          score_inputs: {},
+          reason_tags: ["licensed_pharmacy_network", "clinic_medical_screening", "prescription_required"],
+          is_current: true
+        }
+      ]
+    });
+
+    const result = await ingestVendorWebsiteCatalog(memory.client, { vendorSlugs: ["mochi-health", "henry-meds"] });
+
+    assert.deepEqual(result, {
+      vendorsProcessed: 2,
+      vendorsCreated: 1,
+      listingsUpserted: 6,
+      peptidesCreated: 2,
+      sourcePagesFetched: 1,
+      sourcePagesFailed: 1
+    });
+    assertExpectedRows("vendor-website-ingest", memory, [
+      "vendors",
+      "vendor_profiles",
+      "vendor_verifications",
+      "peptides",
+      "peptide_profiles",
+      "peptide_regulatory_status",
+      "vendor_peptide_listings",
+      "vendor_rating_snapshots",
+      "content_changes"
+    ]);
+  });
+});